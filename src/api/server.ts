@@ -74,6 +74,29 @@ export function generateTransferLink(userId: number, to: string, amount: string,
     return taskUrl.toString();
 }
 
+/**
+ * Generate a secure revoke token for a user
+ * Returns the frontend URL that sends approve(spender, 0) from the main wallet
+ */
+export function generateRevokeLink(userId: number, tokenAddress: string, spender: string, tokenSymbol: string, origin?: string): string {
+    const secureToken = crypto.randomBytes(32).toString('hex');
+    const expires = Date.now() + 5 * 60 * 1000; // 5 minutes expiration
+    connectionTokens.set(secureToken, { userId, expires, origin });
+
+  const frontendUrl = process.env.FRONTEND_URL || 'https://connect.beanbee.ai';
+    const taskUrl = new URL(frontendUrl);
+    taskUrl.searchParams.set('token', secureToken);
+    taskUrl.searchParams.set('action', 'revoke');
+    taskUrl.searchParams.set('tokenAddress', tokenAddress);
+    taskUrl.searchParams.set('spender', spender);
+    taskUrl.searchParams.set('tokenSymbol', tokenSymbol);
+    if (origin) {
+        taskUrl.searchParams.set('origin', origin);
+    }
+
+    return taskUrl.toString();
+}
+
 /**
  * Get the API base URL
  */
@@ -108,6 +131,21 @@ app.get('/api/health', (_, res) => {
     });
 });
 
+// Token price monitor load (tracked tokens, watched pairs, log polling lag)
+app.get('/api/health/price-monitor', async (_, res) => {
+    try {
+        const { tokenPriceMonitor } = await import('../services/tokenPriceMonitor');
+        res.status(200).json({
+            status: 'ok',
+            timestamp: new Date().toISOString(),
+            ...tokenPriceMonitor.getLoadReport()
+        });
+    } catch (error) {
+        logger.error('Error getting price monitor load', { error });
+        res.status(500).json({ status: 'error', message: 'Failed to get price monitor load' });
+    }
+});
+
 // Connect wallet endpoint - receives wallet data from frontend
 app.post('/api/connect-wallet', async (req, res) => {
   const { token, walletAddress } = req.body;
@@ -206,7 +244,17 @@ app.post('/api/transaction-feedback', async (req, res) => {
     if (botInstance) {
       let message = '';
       let keyboard;
-      if (status === 'success') {
+      if (status === 'success' && action === 'revoke') {
+        message = lang === 'zh'
+          ? `✅ **授权已撤销！**\n\n交易已广播到网络。\n哈希: \`${txHash}\`\n[在BSCScan上查看](https://bscscan.com/tx/${txHash})`
+          : `✅ **Approval Revoked!**\n\nThe transaction has been broadcast to the network.\nHash: \`${txHash}\`\n[View on BSCScan](https://bscscan.com/tx/${txHash})`;
+
+        keyboard = {
+            inline_keyboard: [
+                [{ text: lang === 'zh' ? '🔐 返回授权列表' : '🔐 Back to Approvals', callback_data: origin || 'approvals_main' }]
+            ]
+        };
+      } else if (status === 'success') {
         // Transaction successful
         message = lang === 'zh'
           ? `✅ **转账成功！**\n\n交易已广播到网络。\n哈希: \`${txHash}\`\n[在BSCScan上查看](https://bscscan.com/tx/${txHash})`
@@ -226,9 +274,12 @@ app.post('/api/transaction-feedback', async (req, res) => {
       } else {
         // Transaction failed or rejected
         const reason = error || (lang === 'zh' ? '未知错误' : 'Unknown error');
+        const failedTitle = action === 'revoke'
+          ? (lang === 'zh' ? '撤销授权失败' : 'Revoke Failed')
+          : (lang === 'zh' ? '转账失败' : 'Transfer Failed');
         message = lang === 'zh'
-          ? `❌ **转账失败**\n\n原因: ${reason}\n请返回Telegram重试。`
-          : `❌ **Transfer Failed**\n\nReason: ${reason}\nPlease return to Telegram to try again.`;
+          ? `❌ **${failedTitle}**\n\n原因: ${reason}\n请返回Telegram重试。`
+          : `❌ **${failedTitle}**\n\nReason: ${reason}\nPlease return to Telegram to try again.`;
         
         // Show back button for failed transactions too
         const backCallback = origin || 'main_menu';
@@ -257,6 +308,185 @@ app.post('/api/transaction-feedback', async (req, res) => {
   }
 });
 
+// Rug report snapshots - public, read-only share links
+async function sendRugReportSnapshot(req: express.Request, res: express.Response, format: string) {
+  const contentTypes: Record<string, string> = {
+    json: 'application/json',
+    md: 'text/markdown; charset=utf-8',
+    pdf: 'application/pdf'
+  };
+  if (!contentTypes[format]) {
+    return res.status(400).json({ success: false, message: 'Format must be json, md or pdf.' });
+  }
+
+  try {
+    const { rugReportSnapshotService, toPublicSnapshot } = await import('../services/rugAlerts/reportSnapshots');
+    const snapshot = await rugReportSnapshotService.getSnapshot(String(req.params.snapshotId));
+    if (!snapshot) {
+      return res.status(404).json({ success: false, message: 'Snapshot not found.' });
+    }
+
+    const body = format === 'json'
+      ? JSON.stringify(toPublicSnapshot(snapshot), null, 2)
+      : format === 'md'
+        ? rugReportSnapshotService.toMarkdown(snapshot)
+        : rugReportSnapshotService.toPdf(snapshot, `${getApiBaseUrl()}/api/rug-reports/${snapshot.snapshotId}`);
+
+    // Snapshots never change, so they can be cached anywhere. Set only once the body rendered,
+    // an error response must not be cached along with them.
+    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+    res.setHeader('Content-Type', contentTypes[format]);
+    if (format !== 'json') {
+      res.setHeader('Content-Disposition', `inline; filename="beanbee-rug-report-${snapshot.snapshotId}.${format}"`);
+    }
+    return res.status(200).send(body);
+  } catch (error) {
+    logger.error('Error in /api/rug-reports endpoint', { error, snapshotId: req.params.snapshotId, format });
+    return res.status(500).json({ success: false, message: 'Internal server error.' });
+  }
+}
+
+app.get('/api/rug-reports/:snapshotId', (req, res) => sendRugReportSnapshot(req, res, 'json'));
+app.get('/api/rug-reports/:snapshotId/:format', (req, res) => sendRugReportSnapshot(req, res, String(req.params.format)));
+
+// Admin API - requires the ADMIN_API_KEY in the x-admin-key header. Every call on a user
+// or the audit log is audited.
+function requireAdminKey(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return res.status(503).json({ success: false, message: 'Admin API is not configured.' });
+  }
+
+  // Compare fixed-length digests so the check takes the same time for any key
+  const expected = crypto.createHash('sha256').update(adminKey).digest();
+  const provided = crypto.createHash('sha256').update(req.header('x-admin-key') || '').digest();
+  if (!crypto.timingSafeEqual(expected, provided)) {
+    logger.warn('Rejected admin API request', { path: req.path, ip: req.ip });
+    return res.status(401).json({ success: false, message: 'Unauthorized.' });
+  }
+  next();
+}
+
+function adminActor(req: express.Request) {
+  return { channel: 'api' as const, operator: req.header('x-admin-operator') || undefined };
+}
+
+function adminTarget(req: express.Request, res: express.Response): number | null {
+  const telegramId = Number(req.params.telegramId);
+  if (!Number.isInteger(telegramId) || telegramId <= 0) {
+    res.status(400).json({ success: false, message: 'Invalid telegramId.' });
+    return null;
+  }
+  return telegramId;
+}
+
+function sendAdminResult(res: express.Response, result: { success: boolean; error?: string }) {
+  if (result.success) {
+    return res.status(200).json(result);
+  }
+  return res.status(result.error === 'User not found' ? 404 : 400).json({ success: false, message: result.error });
+}
+
+function adminHandler(name: string, handler: (req: express.Request, res: express.Response) => Promise<unknown>) {
+  return async (req: express.Request, res: express.Response) => {
+    try {
+      await handler(req, res);
+    } catch (error) {
+      logger.error(`Error in admin ${name} endpoint`, { error, telegramId: req.params.telegramId });
+      res.status(500).json({ success: false, message: 'Internal server error.' });
+    }
+  };
+}
+
+app.use('/api/admin', requireAdminKey);
+
+app.get('/api/admin/users/:telegramId', adminHandler('user', async (req, res) => {
+  const telegramId = adminTarget(req, res);
+  if (!telegramId) return;
+
+  const { AdminService } = await import('../services/admin');
+  const user = await AdminService.getUserSummary(adminActor(req), telegramId);
+  if (!user) {
+    return res.status(404).json({ success: false, message: 'User not found' });
+  }
+  return res.status(200).json({ success: true, user });
+}));
+
+app.get('/api/admin/users/:telegramId/ledger', adminHandler('ledger', async (req, res) => {
+  const telegramId = adminTarget(req, res);
+  if (!telegramId) return;
+
+  const before = req.query.before ? new Date(String(req.query.before)) : undefined;
+  if (before && isNaN(before.getTime())) {
+    return res.status(400).json({ success: false, message: 'Invalid before date.' });
+  }
+
+  const { AdminService } = await import('../services/admin');
+  const entries = await AdminService.getLedger(adminActor(req), telegramId, {
+    limit: req.query.limit ? Number(req.query.limit) : undefined,
+    before
+  });
+  return res.status(200).json({ success: true, entries });
+}));
+
+app.post('/api/admin/users/:telegramId/honey', adminHandler('honey', async (req, res) => {
+  const telegramId = adminTarget(req, res);
+  if (!telegramId) return;
+
+  const { AdminService } = await import('../services/admin');
+  const result = await AdminService.adjustHoney(adminActor(req), telegramId, Number(req.body?.amount), req.body?.reason);
+  return sendAdminResult(res, result);
+}));
+
+app.put('/api/admin/users/:telegramId/role', adminHandler('role', async (req, res) => {
+  const telegramId = adminTarget(req, res);
+  if (!telegramId) return;
+
+  // An omitted role would silently unpin the user, so unpinning takes an explicit null
+  if (!req.body || !('role' in req.body)) {
+    return res.status(400).json({ success: false, message: 'role is required, pass null to remove the override.' });
+  }
+
+  const { AdminService } = await import('../services/admin');
+  const result = await AdminService.setRole(adminActor(req), telegramId, req.body.role, req.body.reason);
+  return sendAdminResult(res, result);
+}));
+
+app.put('/api/admin/users/:telegramId/referral-percents', adminHandler('referral percents', async (req, res) => {
+  const telegramId = adminTarget(req, res);
+  if (!telegramId) return;
+
+  const { AdminService } = await import('../services/admin');
+  const { firstHand, secondHand, thirdHand, reason } = req.body || {};
+  const result = await AdminService.setReferralPercents(adminActor(req), telegramId, { firstHand, secondHand, thirdHand }, reason);
+  return sendAdminResult(res, result);
+}));
+
+app.put('/api/admin/users/:telegramId/discount', adminHandler('discount', async (req, res) => {
+  const telegramId = adminTarget(req, res);
+  if (!telegramId) return;
+
+  const { AdminService } = await import('../services/admin');
+  const expiresAt = req.body?.expiresAt ? new Date(req.body.expiresAt) : undefined;
+  const result = await AdminService.setDiscount(adminActor(req), telegramId, Number(req.body?.percentage), expiresAt, req.body?.reason);
+  return sendAdminResult(res, result);
+}));
+
+app.get('/api/admin/referral-payouts/reconciliation', adminHandler('payout reconciliation', async (_, res) => {
+  const { ReferralPayoutService } = await import('../services/referralPayouts');
+  const report = await ReferralPayoutService.getReconciliationReport();
+  return res.status(200).json({ success: true, report });
+}));
+
+app.get('/api/admin/audit-log', adminHandler('audit log', async (req, res) => {
+  const { AdminService } = await import('../services/admin');
+  const entries = await AdminService.getAuditLog(adminActor(req), {
+    telegramId: req.query.telegramId ? Number(req.query.telegramId) : undefined,
+    limit: req.query.limit ? Number(req.query.limit) : undefined
+  });
+  return res.status(200).json({ success: true, entries });
+}));
+
 // Start server
 export async function startApiServer() {
     return new Promise<void>((resolve) => {
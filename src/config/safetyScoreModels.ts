@@ -0,0 +1,249 @@
+/**
+ * Safety score models for rug alert analysis
+ *
+ * Each model is a declarative list of score components. Models are never edited once
+ * scores have been stored with their version: add a new version and switch
+ * CURRENT_SAFETY_SCORE_MODEL_VERSION instead. Candidate weights can be tried first with
+ * `npm run calibrate:safety -- --model candidate.json`.
+ */
+
+import type { SafetyScoreModel } from '@/services/rugAlerts/scoringModel';
+
+export const SAFETY_SCORE_MODEL_V1: SafetyScoreModel = {
+  version: 'v1',
+  description: 'Original hand-tuned weights: holders 15, liquidity 20, verification 10, trading 10, ownership 10, age 10, honeypot 10, diamond hands 5, HAPI Labs 15, plus price deviation and bytecode penalties',
+  components: [
+    {
+      key: 'holders',
+      max: 15,
+      rules: [{
+        type: 'cases',
+        cases: [
+          { when: [{ feature: 'top10ConcentrationExcludingLP', lte: 20 }], outcome: { points: 15, reason: 'Top 10 holders own {top10ConcentrationExcludingLP}% (≤20%)' } },
+          { when: [{ feature: 'top10ConcentrationExcludingLP', lte: 40 }], outcome: { points: 12, reason: 'Top 10 holders own {top10ConcentrationExcludingLP}% (≤40%)' } },
+          { when: [{ feature: 'top10ConcentrationExcludingLP', lte: 60 }], outcome: { points: 8, reason: 'Top 10 holders own {top10ConcentrationExcludingLP}% (≤60%)' } },
+          { when: [{ feature: 'top10ConcentrationExcludingLP', lte: 80 }], outcome: { points: 4, reason: 'Top 10 holders own {top10ConcentrationExcludingLP}% (≤80%)' } }
+        ],
+        otherwise: { points: 0, reason: 'Top 10 holders own {top10ConcentrationExcludingLP}% (>80%)' }
+      }]
+    },
+    {
+      key: 'liquidity',
+      max: 20,
+      gate: {
+        when: [{ feature: 'hasLiquidity', equals: true }],
+        otherwise: { points: 0, reason: 'No liquidity pool', riskFactor: 'No liquidity pool found' }
+      },
+      rules: [
+        {
+          type: 'cases',
+          cases: [
+            { when: [{ feature: 'liquidityUsd', gte: 100000 }], outcome: { points: 12, reason: '${liquidityUsd} liquidity (≥$100k)' } },
+            { when: [{ feature: 'liquidityUsd', gte: 50000 }], outcome: { points: 10, reason: '${liquidityUsd} liquidity (≥$50k)' } },
+            { when: [{ feature: 'liquidityUsd', gte: 10000 }], outcome: { points: 6, reason: '${liquidityUsd} liquidity (≥$10k)' } },
+            {
+              when: [{ feature: 'liquidityUsd', gte: 1000 }],
+              outcome: { points: 3, reason: '${liquidityUsd} liquidity (≥$1k)', riskFactor: 'Very low liquidity (<$10k)' }
+            }
+          ],
+          otherwise: { points: 0, reason: 'Liquidity under $1k', riskFactor: 'Extremely low liquidity (<$1k)' }
+        },
+        {
+          type: 'cases',
+          cases: [
+            { when: [{ feature: 'lpBurned', equals: true }], outcome: { points: 8, reason: 'LP tokens burned' } },
+            { when: [{ feature: 'lpLocked', equals: true }], outcome: { points: 6, reason: 'LP tokens locked' } }
+          ],
+          otherwise: { points: 0, reason: 'LP tokens neither burned nor locked', riskFactor: 'LP tokens not secured (not burned or locked)' }
+        }
+      ]
+    },
+    {
+      key: 'verification',
+      max: 10,
+      rules: [{
+        type: 'cases',
+        cases: [
+          { when: [{ feature: 'verified', equals: true }], outcome: { points: 10, reason: 'Source code verified' } },
+          {
+            when: [{ feature: 'bytecodeClean', equals: true }],
+            outcome: {
+              points: 5,
+              reason: 'Unverified, bytecode shows no risky functions',
+              riskFactor: 'Contract source code not verified (bytecode shows no risky functions)'
+            }
+          }
+        ],
+        otherwise: { points: 0, reason: 'Source code not verified', riskFactor: 'Contract source code not verified' }
+      }]
+    },
+    {
+      key: 'trading',
+      max: 10,
+      rules: [{
+        type: 'cases',
+        cases: [{ when: [{ feature: 'hasActiveTrading', equals: true }], outcome: { points: 10, reason: 'Active trading' } }],
+        otherwise: { points: 0, reason: 'Little or no trading', riskFactor: 'Low or no trading activity' }
+      }]
+    },
+    {
+      key: 'ownership',
+      max: 10,
+      rules: [{
+        type: 'cases',
+        cases: [{ when: [{ feature: 'ownershipRenounced', equals: true }], outcome: { points: 10, reason: 'No owner or ownership renounced' } }],
+        otherwise: { points: 0, reason: 'Owner still active', riskFactor: 'Contract ownership not renounced' }
+      }]
+    },
+    {
+      key: 'age',
+      max: 10,
+      rules: [{
+        type: 'cases',
+        cases: [
+          { when: [{ feature: 'ageDays', present: false }], outcome: { points: 5, reason: 'Age unknown' } },
+          { when: [{ feature: 'ageDays', gte: 30 }], outcome: { points: 10, reason: '{ageDays} days old (≥30)' } },
+          { when: [{ feature: 'ageDays', gte: 7 }], outcome: { points: 7, reason: '{ageDays} days old (≥7)' } },
+          { when: [{ feature: 'ageDays', gte: 1 }], outcome: { points: 3, reason: '{ageDays} days old (≥1)', riskFactor: 'Token created less than 7 days ago' } }
+        ],
+        otherwise: { points: 0, reason: 'Less than a day old', riskFactor: 'Token created less than 24 hours ago' }
+      }]
+    },
+    {
+      key: 'honeypot',
+      max: 10,
+      rules: [{
+        type: 'cases',
+        cases: [{
+          when: [{ feature: 'isHoneypot', equals: true }],
+          outcome: { points: 0, reason: 'Honeypot: {honeypotReason}', riskFactor: '🚫 HONEYPOT DETECTED: {honeypotReason}' }
+        }],
+        otherwise: { points: 10, reason: 'Sell simulation passed' }
+      }]
+    },
+    {
+      key: 'diamondHands',
+      max: 5,
+      rules: [{
+        type: 'cases',
+        cases: [
+          { when: [{ feature: 'diamondHandsCount', gte: 5 }], outcome: { points: 5, reason: '{diamondHandsCount} long-term holders in the top 10' } },
+          { when: [{ feature: 'diamondHandsCount', gte: 3 }], outcome: { points: 3, reason: '{diamondHandsCount} long-term holders in the top 10' } },
+          { when: [{ feature: 'diamondHandsCount', gte: 1 }], outcome: { points: 1, reason: '{diamondHandsCount} long-term holder(s) in the top 10' } }
+        ],
+        otherwise: { points: 0, reason: 'No long-term holders in the top 10' }
+      }]
+    },
+    {
+      key: 'scSecurity',
+      max: 15,
+      rules: [{
+        type: 'feature',
+        feature: 'scSecurityScore',
+        when: [{ feature: 'hasScSecurityData', equals: true }],
+        reason: 'HAPI Labs security score',
+        otherwise: { points: 0, reason: 'No HAPI Labs data' }
+      }]
+    },
+    {
+      key: 'priceDeviation',
+      max: 0,
+      rules: [{
+        type: 'cases',
+        cases: [
+          { when: [{ feature: 'priceDeviationPercent', present: false }], outcome: { points: 0, reason: 'No oracle price deviation' } },
+          { when: [{ feature: 'priceDeviationPercent', lt: 3 }], outcome: { points: 0, reason: '{priceDeviationPercent}% deviation from oracle (<3%)' } },
+          { when: [{ feature: 'priceDeviationPercent', lt: 6 }], outcome: { points: -5, reason: '{priceDeviationPercent}% deviation from oracle (<6%)' } },
+          { when: [{ feature: 'priceDeviationPercent', lt: 10 }], outcome: { points: -15, reason: '{priceDeviationPercent}% deviation from oracle (<10%)' } },
+          { when: [{ feature: 'priceDeviationPercent', lt: 20 }], outcome: { points: -30, reason: '{priceDeviationPercent}% deviation from oracle (<20%)' } }
+        ],
+        otherwise: { points: -50, reason: '{priceDeviationPercent}% deviation from oracle (≥20%)' }
+      }]
+    },
+    {
+      key: 'bytecode',
+      max: 0,
+      gate: {
+        when: [{ feature: 'bytecodeApplies', equals: true }],
+        otherwise: { points: 0, reason: 'Covered by source-based screening' }
+      },
+      rules: [{
+        type: 'capabilities',
+        penalties: { selfdestruct: 10, proxy_upgrade: 6, hidden_owner: 6, mint: 5, blacklist: 4, set_fee: 3, pause: 3 },
+        maxPenalty: 20
+      }]
+    }
+  ]
+};
+
+export const SAFETY_SCORE_MODEL_V2: SafetyScoreModel = {
+  version: 'v2',
+  description: 'v1 plus a deployer penalty for earlier dead or rugged tokens and HAPI Labs flags on the deployer or its funding source',
+  components: [
+    ...SAFETY_SCORE_MODEL_V1.components,
+    {
+      key: 'deployer',
+      max: 0,
+      gate: {
+        when: [{ feature: 'deployerKnown', equals: true }],
+        otherwise: { points: 0, reason: 'Deployer history unavailable' }
+      },
+      rules: [
+        {
+          type: 'cases',
+          cases: [{
+            when: [{ feature: 'deployerFlagged', equals: true }],
+            outcome: {
+              points: -20,
+              reason: 'Deployer or its funding source flagged by HAPI Labs',
+              riskFactor: '🚨 DEPLOYER: Deployer or the wallet that funded it is flagged by HAPI Labs'
+            }
+          }],
+          otherwise: { points: 0, reason: 'Deployer and funding source not flagged' }
+        },
+        {
+          type: 'cases',
+          cases: [
+            {
+              when: [{ feature: 'deployerFailedTokens', gte: 5 }, { feature: 'deployerFailurePercent', gte: 70 }],
+              outcome: {
+                points: -20,
+                reason: '{deployerFailedTokens} earlier tokens dead or rugged ({deployerFailurePercent}%)',
+                riskFactor: '🚨 SERIAL DEPLOYER: launched {deployerTokensLaunched} tokens, {deployerFailedTokens} are dead or had liquidity pulled'
+              }
+            },
+            {
+              when: [{ feature: 'deployerFailedTokens', gte: 2 }, { feature: 'deployerFailurePercent', gte: 50 }],
+              outcome: {
+                points: -10,
+                reason: '{deployerFailedTokens} earlier tokens dead or rugged ({deployerFailurePercent}%)',
+                riskFactor: '⚠️ DEPLOYER: launched {deployerTokensLaunched} tokens, {deployerFailedTokens} are dead or had liquidity pulled'
+              }
+            },
+            { when: [{ feature: 'deployerFailedTokens', gte: 1 }], outcome: { points: -3, reason: '{deployerFailedTokens} earlier token(s) dead or rugged' } }
+          ],
+          otherwise: { points: 0, reason: 'No dead or rugged earlier tokens' }
+        },
+        {
+          type: 'cases',
+          cases: [{
+            when: [{ feature: 'deployerNetworkFailedTokens', gte: 5 }],
+            outcome: {
+              points: -5,
+              reason: 'Wallets with the same funding source launched {deployerNetworkFailedTokens} dead or rugged tokens',
+              riskFactor: '⚠️ DEPLOYER NETWORK: wallets funded from the same source launched {deployerNetworkFailedTokens} dead or rugged tokens'
+            }
+          }],
+          otherwise: { points: 0, reason: 'No rug history among wallets with the same funding source' }
+        }
+      ]
+    }
+  ]
+};
+
+export const SAFETY_SCORE_MODELS: Record<string, SafetyScoreModel> = {
+  v1: SAFETY_SCORE_MODEL_V1,
+  v2: SAFETY_SCORE_MODEL_V2
+};
+
+export const CURRENT_SAFETY_SCORE_MODEL_VERSION = 'v2';
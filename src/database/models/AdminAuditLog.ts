@@ -0,0 +1,49 @@
+import { prop, getModelForClass, pre, modelOptions, index, Severity } from '@typegoose/typegoose';
+import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
+
+export type AdminAction = 'honey_grant' | 'honey_revoke' | 'role_override' | 'referral_percents' | 'discount' | 'view_user' | 'view_ledger' | 'view_audit_log';
+
+export interface AdminActor {
+  channel: 'telegram' | 'api';
+  telegramId?: number; // Admin's Telegram ID for bot commands
+  operator?: string; // Self-reported operator name for API calls
+}
+
+/**
+ * One admin action, with the values it changed. Entries are never edited or deleted.
+ */
+@pre<AdminAuditLog>('save', function() {
+  if (!this.isNew) {
+    throw new Error('Admin audit log entries are immutable');
+  }
+  this.createdAt = new Date();
+  this.updatedAt = this.createdAt;
+})
+@modelOptions({
+  schemaOptions: { collection: 'admin_audit_logs' },
+  options: { allowMixed: Severity.ALLOW }
+})
+@index({ createdAt: -1 })
+@index({ targetTelegramId: 1, createdAt: -1 })
+export class AdminAuditLog extends TimeStamps {
+  @prop({ type: () => Object, required: true })
+  public actor!: AdminActor;
+
+  @prop({ required: true, enum: ['honey_grant', 'honey_revoke', 'role_override', 'referral_percents', 'discount', 'view_user', 'view_ledger', 'view_audit_log'] })
+  public action!: AdminAction;
+
+  // Unset when the action covered no single user, e.g. reading the whole audit log
+  @prop()
+  public targetTelegramId?: number;
+
+  @prop({ type: () => Object })
+  public before?: Record<string, any>;
+
+  @prop({ type: () => Object })
+  public after?: Record<string, any>;
+
+  @prop()
+  public reason?: string;
+}
+
+export const AdminAuditLogModel = getModelForClass(AdminAuditLog);
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { prop, getModelForClass, modelOptions } from '@typegoose/typegoose';
+
+/**
+ * How far a block scanner got, so a restart resumes where it stopped instead of guessing
+ */
+@modelOptions({
+  schemaOptions: { collection: 'chain_scan_cursors' }
+})
+export class ChainScanCursor {
+  @prop({ required: true, unique: true })
+  public name!: string; // Scanner the cursor belongs to
+
+  @prop({ required: true })
+  public lastScannedBlock!: number; // Every transfer up to this block was handled
+
+  @prop({ default: Date.now })
+  public updatedAt!: Date;
+}
+
+export const ChainScanCursorModel = getModelForClass(ChainScanCursor);
\ No newline at end of file
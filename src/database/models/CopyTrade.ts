@@ -0,0 +1,63 @@
+import { prop, getModelForClass, pre, modelOptions, index, Severity } from '@typegoose/typegoose';
+import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
+
+export type CopyTradeSide = 'buy' | 'sell';
+export type CopyTradeStatus = 'pending' | 'executed' | 'skipped' | 'failed'; // pending: claimed, swap in progress
+
+@pre<CopyTrade>('save', function() {
+  if (this.isNew) {
+    this.createdAt = new Date();
+  }
+  this.updatedAt = new Date();
+})
+@modelOptions({
+  schemaOptions: { collection: 'copy_trades' },
+  options: { allowMixed: Severity.ALLOW }
+})
+@index({ watchId: 1, createdAt: -1 })
+@index({ watchId: 1, sourceTxHash: 1 }, { unique: true })
+export class CopyTrade extends TimeStamps {
+  @prop({ required: true })
+  public telegramId!: number;
+
+  @prop({ required: true })
+  public watchId!: string; // WalletWatch the trade was copied through
+
+  @prop({ required: true, lowercase: true })
+  public sourceWallet!: string;
+
+  @prop({ required: true })
+  public sourceTxHash!: string;
+
+  @prop({ required: true, lowercase: true })
+  public tokenAddress!: string;
+
+  @prop()
+  public tokenSymbol?: string;
+
+  @prop({ required: true })
+  public side!: CopyTradeSide;
+
+  @prop({ type: () => String, required: true })
+  public sourceAmount!: string; // BNB spent by the source for buys, tokens sold for sells
+
+  @prop({ type: () => String })
+  public amount?: string; // BNB spent for copied buys, tokens sold for copied sells
+
+  @prop()
+  public sellPercentage?: number; // Share of the position sold, for sells
+
+  @prop({ required: true })
+  public status!: CopyTradeStatus;
+
+  @prop()
+  public reason?: string; // Why the trade was skipped or failed
+
+  @prop()
+  public txHash?: string;
+
+  @prop()
+  public received?: string; // Tokens received for buys, BNB received for sells
+}
+
+export const CopyTradeModel = getModelForClass(CopyTrade);
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { prop, getModelForClass, pre, modelOptions, index, Severity } from '@typegoose/typegoose';
+import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
+
+export type DcaScheduleStatus = 'active' | 'paused' | 'cancelled' | 'completed';
+
+export interface DcaExecution {
+  executedAt: Date;
+  success: boolean;
+  bnbSpent: string; // BNB spent on this buy (0 when the buy failed)
+  tokensReceived?: string; // Tokens bought by this buy
+  bnbPriceUsd?: number; // BNB/USD price at execution, used for the USD average entry
+  txHash?: string;
+  error?: string;
+}
+
+@pre<DcaSchedule>('save', function() {
+  if (this.isNew) {
+    this.createdAt = new Date();
+  }
+  this.updatedAt = new Date();
+})
+@modelOptions({
+  schemaOptions: { collection: 'dca_schedules' },
+  options: { allowMixed: Severity.ALLOW }
+})
+@index({ status: 1, nextRunAt: 1 })
+@index({ telegramId: 1, tokenAddress: 1 })
+export class DcaSchedule extends TimeStamps {
+  @prop({ required: true })
+  public telegramId!: number;
+
+  @prop({ required: true, lowercase: true })
+  public tokenAddress!: string;
+
+  @prop({ required: true })
+  public tokenSymbol!: string;
+
+  @prop({ type: () => String, required: true })
+  public bnbAmountPerBuy!: string; // BNB spent on every scheduled buy (stored as string for precision)
+
+  @prop({ required: true })
+  public intervalHours!: number; // Hours between buys
+
+  @prop({ required: true })
+  public endsAt!: Date; // No buys are made after this time
+
+  @prop({ required: true })
+  public nextRunAt!: Date;
+
+  @prop({ default: 'active' })
+  public status!: DcaScheduleStatus;
+
+  @prop({ type: () => [Object], default: [] })
+  public executions!: DcaExecution[];
+
+  @prop({ default: 0 })
+  public consecutiveFailures!: number;
+
+  @prop()
+  public pausedReason?: string; // Set when the scheduler pauses a schedule on its own
+}
+
+export const DcaScheduleModel = getModelForClass(DcaSchedule);
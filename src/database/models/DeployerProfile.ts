@@ -0,0 +1,63 @@
+import { prop, getModelForClass, pre, modelOptions, index, Severity } from '@typegoose/typegoose';
+import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
+
+export type DeployedTokenStatus = 'active' | 'dead' | 'lp_pulled' | 'no_liquidity';
+
+export interface DeployedToken {
+  tokenAddress: string;
+  symbol?: string;
+  txHash: string;
+  deployedAt?: Date;
+  status: DeployedTokenStatus;
+  statusReason?: string;
+}
+
+/**
+ * Tokens a wallet deployed, how they ended and where the wallet's gas money came from.
+ * Deployers sharing a funding source form the reputation graph.
+ */
+@pre<DeployerProfile>('save', function() {
+  if (this.isNew) {
+    this.createdAt = new Date();
+  }
+  this.updatedAt = new Date();
+})
+@modelOptions({
+  schemaOptions: { collection: 'deployer_profiles' },
+  options: { allowMixed: Severity.ALLOW }
+})
+@index({ deployerAddress: 1 }, { unique: true })
+@index({ fundingSource: 1 })
+export class DeployerProfile extends TimeStamps {
+  @prop({ required: true, lowercase: true })
+  public deployerAddress!: string;
+
+  @prop({ lowercase: true })
+  public fundingSource?: string; // Sender of the first BNB the deployer received
+
+  @prop()
+  public fundingSourceLabel?: string; // Set for exchange hot wallets, which fund everyone
+
+  @prop()
+  public fundingTxHash?: string;
+
+  @prop()
+  public fundingAmountBnb?: number;
+
+  @prop()
+  public deployerRiskLevel?: string; // HAPI Labs risk level
+
+  @prop()
+  public fundingRiskLevel?: string; // HAPI Labs risk level of the funding source
+
+  @prop()
+  public riskCategory?: string; // HAPI Labs category of whichever of the two is riskier
+
+  @prop({ type: () => [Object], default: [] })
+  public tokens!: DeployedToken[];
+
+  @prop()
+  public lastRefreshedAt?: Date;
+}
+
+export const DeployerProfileModel = getModelForClass(DeployerProfile);
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { prop, getModelForClass, pre, modelOptions, index, Severity, Ref } from '@typegoose/typegoose';
+import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
+import { Types } from 'mongoose';
+import { User } from './User';
+
+/**
+ * intent → submitted → confirmed → credited, or submitted → refunding → refunded when only
+ * part of the payment landed. A purchase fails when none of it did.
+ */
+export type HoneyPurchaseStatus = 'intent' | 'submitted' | 'confirmed' | 'credited' | 'refunding' | 'refunded' | 'failed';
+
+export type HoneyPurchaseTransferStatus = 'planned' | 'signed' | 'confirmed' | 'reverted' | 'dropped';
+
+export interface HoneyPurchaseTransfer {
+  kind: 'main' | 'referral' | 'refund';
+  to: string;
+  value: string; // Wei
+  nonce?: number;
+  txHash?: string;
+  rawTransaction?: string; // Signed before broadcast, so a restart can rebroadcast the same transaction
+  status: HoneyPurchaseTransferStatus;
+  blockNumber?: number;
+}
+
+export interface HoneyPurchaseReferralSplit {
+  referrer: Types.ObjectId;
+  tier: number;
+  amount: number; // BNB
+}
+
+/**
+ * A BNB payment from the trading wallet for a Honey package or a monthly plan period. Every
+ * step is persisted before it is taken, so the reconciler can resume or compensate a
+ * purchase interrupted by a restart.
+ */
+@pre<HoneyPurchase>('save', function() {
+  if (this.isNew) {
+    this.createdAt = new Date();
+  }
+  this.updatedAt = new Date();
+})
+@modelOptions({
+  schemaOptions: { collection: 'honey_purchases' },
+  options: { allowMixed: Severity.ALLOW }
+})
+@index({ status: 1, updatedAt: 1 })
+@index({ telegramId: 1, createdAt: -1 })
+export class HoneyPurchase extends TimeStamps {
+  @prop({ ref: () => User, required: true })
+  public user!: Ref<User>;
+
+  @prop({ required: true })
+  public telegramId!: number;
+
+  @prop()
+  public packageIndex?: number;
+
+  @prop()
+  public planId?: string; // Set for plan payments, which extend the subscription instead of crediting Honey
+
+  @prop({ required: true })
+  public honeyAmount!: number;
+
+  @prop({ required: true })
+  public bnbAmount!: string;
+
+  @prop()
+  public marginPercentage?: number;
+
+  @prop({ required: true, lowercase: true })
+  public payerAddress!: string; // Trading wallet, also where refunds go
+
+  @prop({ required: true, enum: ['intent', 'submitted', 'confirmed', 'credited', 'refunding', 'refunded', 'failed'], default: 'intent' })
+  public status!: HoneyPurchaseStatus;
+
+  @prop({ type: () => [Object], default: [] })
+  public transfers!: HoneyPurchaseTransfer[];
+
+  @prop({ type: () => [Object], default: [] })
+  public referralSplits!: HoneyPurchaseReferralSplit[];
+
+  @prop({ type: () => Object })
+  public refund?: HoneyPurchaseTransfer;
+
+  @prop()
+  public honeyTransaction?: Types.ObjectId;
+
+  @prop()
+  public lastError?: string;
+
+  @prop({ default: 0 })
+  public unresolvedChecks!: number; // Checks that found a transfer's nonce used but couldn't tell by which transaction
+
+  @prop()
+  public settledAt?: Date;
+}
+
+export const HoneyPurchaseModel = getModelForClass(HoneyPurchase);
\ No newline at end of file
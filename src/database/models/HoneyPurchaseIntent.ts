@@ -0,0 +1,84 @@
+import { prop, getModelForClass, pre, modelOptions, index, Severity } from '@typegoose/typegoose';
+import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
+
+export type HoneyPurchaseIntentStatus = 'pending' | 'confirmed' | 'expired' | 'cancelled';
+
+export type HoneyPurchaseChannel = 'walletconnect' | 'web' | 'manual';
+
+/**
+ * A Honey package the user is about to pay for in stablecoins from their main wallet.
+ * The amount carries a few micro-units unique among intents a payment can still match, which
+ * is how the deposit watcher tells incoming transfers apart.
+ */
+@pre<HoneyPurchaseIntent>('save', function() {
+  if (this.isNew) {
+    this.createdAt = new Date();
+  }
+  this.updatedAt = new Date();
+})
+@modelOptions({
+  schemaOptions: { collection: 'honey_purchase_intents' },
+  options: { allowMixed: Severity.ALLOW }
+})
+// Expired and cancelled intents within the late-payment window are checked by createIntent
+@index({ tokenAddress: 1, amount: 1 }, { unique: true, partialFilterExpression: { status: 'pending' } })
+@index({ status: 1, expiresAt: 1 })
+@index({ telegramId: 1, createdAt: -1 })
+@index({ txHash: 1 }, { unique: true, sparse: true })
+export class HoneyPurchaseIntent extends TimeStamps {
+  @prop({ required: true })
+  public telegramId!: number;
+
+  @prop({ required: true })
+  public packageIndex!: number;
+
+  @prop({ required: true })
+  public honeyAmount!: number;
+
+  @prop({ required: true })
+  public usdValue!: number; // Package price before the matching tag
+
+  @prop({ required: true })
+  public tokenSymbol!: string;
+
+  @prop({ required: true, lowercase: true })
+  public tokenAddress!: string;
+
+  @prop({ required: true })
+  public amount!: string; // Raw token units the user must send, tag included
+
+  @prop({ required: true })
+  public amountFormatted!: string;
+
+  @prop({ required: true, lowercase: true })
+  public depositAddress!: string;
+
+  @prop({ lowercase: true })
+  public payerAddress?: string; // Main wallet the intent was created for
+
+  @prop({ required: true, enum: ['walletconnect', 'web', 'manual'] })
+  public channel!: HoneyPurchaseChannel;
+
+  @prop({ required: true, enum: ['pending', 'confirmed', 'expired', 'cancelled'], default: 'pending' })
+  public status!: HoneyPurchaseIntentStatus;
+
+  @prop({ required: true })
+  public expiresAt!: Date;
+
+  @prop()
+  public submittedTxHash?: string; // Hash returned by WalletConnect, before the watcher sees it
+
+  @prop()
+  public txHash?: string; // Transfer the deposit watcher matched
+
+  @prop({ lowercase: true })
+  public paidFrom?: string;
+
+  @prop()
+  public blockNumber?: number;
+
+  @prop()
+  public confirmedAt?: Date;
+}
+
+export const HoneyPurchaseIntentModel = getModelForClass(HoneyPurchaseIntent);
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { prop, getModelForClass, pre, modelOptions, index, Severity, Ref } from '@typegoose/typegoose';
+import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
+import { Types } from 'mongoose';
+import { User } from './User';
+
+/**
+ * active: the current period is paid. grace: a renewed period has started but isn't paid
+ * yet; the plan keeps working while payment is retried until graceEndsAt. expired: no
+ * longer covers anything.
+ */
+export type HoneySubscriptionStatus = 'active' | 'grace' | 'expired';
+
+/**
+ * A user's monthly Honey plan and what they have used of its allowances this period
+ */
+@pre<HoneySubscription>('save', function() {
+  if (this.isNew) {
+    this.createdAt = new Date();
+  }
+  this.updatedAt = new Date();
+})
+@modelOptions({
+  schemaOptions: { collection: 'honey_subscriptions' },
+  options: { allowMixed: Severity.ALLOW }
+})
+@index({ telegramId: 1 }, { unique: true })
+@index({ status: 1, currentPeriodEnd: 1 })
+export class HoneySubscription extends TimeStamps {
+  @prop({ ref: () => User, required: true })
+  public user!: Ref<User>;
+
+  @prop({ required: true })
+  public telegramId!: number;
+
+  @prop({ required: true })
+  public planId!: string;
+
+  @prop({ required: true, enum: ['active', 'grace', 'expired'], default: 'active' })
+  public status!: HoneySubscriptionStatus;
+
+  @prop({ default: true })
+  public autoRenew!: boolean;
+
+  @prop({ required: true })
+  public currentPeriodStart!: Date;
+
+  @prop({ required: true })
+  public currentPeriodEnd!: Date;
+
+  @prop({ type: () => Object, default: {} })
+  public usage!: Record<string, number>; // Uses per HoneyFeature this period
+
+  @prop()
+  public graceEndsAt?: Date;
+
+  @prop()
+  public pendingPurchase?: Types.ObjectId; // Renewal payment the settlement is still working on
+
+  @prop({ default: 0 })
+  public renewalAttempts!: number;
+
+  @prop()
+  public nextRenewalAttemptAt?: Date;
+
+  @prop()
+  public lastRenewalError?: string;
+}
+
+export const HoneySubscriptionModel = getModelForClass(HoneySubscription);
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { prop, getModelForClass, modelOptions, Ref } from '@typegoose/typegoose';
+import { prop, getModelForClass, modelOptions, index, Ref } from '@typegoose/typegoose';
+import { Types } from 'mongoose';
 import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
 import { User } from './User';
 
@@ -10,6 +11,8 @@ export enum HoneyTransactionType {
   NECTR_EXCHANGE = 'nectr_exchange',
   ADMIN_GRANT = 'admin_grant',
   BNB_PURCHASE = 'bnb_purchase',
+  STABLECOIN_PURCHASE = 'stablecoin_purchase', // Paid in USDT/USDC from the main wallet
+  PLAN_PAYMENT = 'plan_payment', // Monthly plan period paid in BNB, no Honey credited
   REFERRAL_CONVERSION = 'referral_conversion' // New type for converting referral BNB to Honey
 }
 
@@ -28,6 +31,7 @@ export enum HoneyFeature {
 @modelOptions({ 
   schemaOptions: { collection: 'honey_transactions' }
 })
+@index({ purchaseId: 1 }, { unique: true, sparse: true })
 export class HoneyTransaction extends TimeStamps {
   @prop({ ref: () => User, required: true })
   public user!: Ref<User>;
@@ -53,6 +57,9 @@ export class HoneyTransaction extends TimeStamps {
   @prop()
   public metadata?: Record<string, any>;
 
+  @prop()
+  public purchaseId?: Types.ObjectId; // HoneyPurchase or HoneyPurchaseIntent paid for, credited at most once
+
   @prop({ default: Date.now })
   public timestamp!: Date;
 }
@@ -0,0 +1,76 @@
+import { prop, getModelForClass, pre, modelOptions, index, Severity } from '@typegoose/typegoose';
+import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
+
+export type LimitOrderSide = 'buy' | 'sell';
+export type LimitOrderStatus = 'open' | 'triggered' | 'filled' | 'expired' | 'cancelled';
+
+export interface LimitOrderStatusChange {
+  status: LimitOrderStatus;
+  at: Date;
+  price?: number; // Token price in USD when the change happened
+  note?: string;
+}
+
+export interface LimitOrderFill {
+  amount: string; // BNB spent for buys, tokens sold for sells
+  received?: string; // Tokens received for buys, BNB received for sells
+  price: number; // Token price in USD at the time of the fill
+  txHash?: string;
+  filledAt: Date;
+}
+
+@pre<LimitOrder>('save', function() {
+  if (this.isNew) {
+    this.createdAt = new Date();
+  }
+  this.updatedAt = new Date();
+})
+@modelOptions({
+  schemaOptions: { collection: 'limit_orders' },
+  options: { allowMixed: Severity.ALLOW }
+})
+@index({ tokenAddress: 1, status: 1 })
+@index({ telegramId: 1, status: 1 })
+@index({ status: 1, goodTill: 1 })
+export class LimitOrder extends TimeStamps {
+  @prop({ required: true })
+  public telegramId!: number;
+
+  @prop({ required: true, lowercase: true })
+  public tokenAddress!: string;
+
+  @prop({ required: true })
+  public tokenSymbol!: string;
+
+  @prop({ required: true })
+  public side!: LimitOrderSide;
+
+  @prop({ required: true })
+  public limitPrice!: number; // Price in USD; buys fill at or below it, sells at or above it
+
+  @prop({ type: () => String, required: true })
+  public amount!: string; // BNB to spend for buys, tokens to sell for sells
+
+  @prop({ type: () => String, default: '0' })
+  public filledAmount!: string; // Portion of amount already filled
+
+  @prop({ required: true })
+  public goodTill!: Date; // Order expires if not filled by this time
+
+  @prop({ default: 'open' })
+  public status!: LimitOrderStatus;
+
+  @prop({ type: () => [Object], default: [] })
+  public statusHistory!: LimitOrderStatusChange[];
+
+  @prop({ type: () => [Object], default: [] })
+  public fills!: LimitOrderFill[];
+
+  @prop({ default: 0 })
+  public failedAttempts!: number;
+
+  @prop({ default: false })
+  public waitingForBalance!: boolean; // Limit reached but the trading wallet couldn't cover a fill
+}
+
+export const LimitOrderModel = getModelForClass(LimitOrder);
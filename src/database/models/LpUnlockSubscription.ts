@@ -0,0 +1,42 @@
+import { prop, getModelForClass, pre, modelOptions, index, Severity } from '@typegoose/typegoose';
+import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
+
+/**
+ * A user asking to be told before the LP locks of a token's main pool expire
+ */
+@pre<LpUnlockSubscription>('save', function() {
+  if (this.isNew) {
+    this.createdAt = new Date();
+  }
+  this.updatedAt = new Date();
+})
+@modelOptions({
+  schemaOptions: { collection: 'lp_unlock_subscriptions' },
+  options: { allowMixed: Severity.ALLOW }
+})
+@index({ telegramId: 1, tokenAddress: 1 }, { unique: true })
+@index({ isActive: 1 })
+export class LpUnlockSubscription extends TimeStamps {
+  @prop({ required: true })
+  public telegramId!: number;
+
+  @prop({ required: true, lowercase: true })
+  public tokenAddress!: string;
+
+  @prop()
+  public tokenSymbol?: string;
+
+  @prop({ required: true, lowercase: true })
+  public poolAddress!: string;
+
+  @prop({ required: true, enum: ['v2', 'v3'] })
+  public poolVersion!: 'v2' | 'v3';
+
+  @prop({ type: () => [String], default: [] })
+  public notifiedLocks!: string[]; // Locks already alerted on, keyed by locker and lock id
+
+  @prop({ default: true })
+  public isActive!: boolean;
+}
+
+export const LpUnlockSubscriptionModel = getModelForClass(LpUnlockSubscription);
\ No newline at end of file
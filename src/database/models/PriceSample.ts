@@ -0,0 +1,22 @@
+import { prop, getModelForClass, modelOptions, index } from '@typegoose/typegoose';
+
+@modelOptions({
+  schemaOptions: { collection: 'price_samples' }
+})
+@index({ tokenAddress: 1, timestamp: 1 })
+@index({ timestamp: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 }) // Keep 30 days of history for backtests
+export class PriceSample {
+  @prop({ required: true, lowercase: true })
+  public tokenAddress!: string;
+
+  @prop({ required: true })
+  public price!: number; // Price in USD
+
+  @prop({ required: true })
+  public timestamp!: Date;
+
+  @prop()
+  public source?: string; // e.g. 'monitor'
+}
+
+export const PriceSampleModel = getModelForClass(PriceSample);
\ No newline at end of file
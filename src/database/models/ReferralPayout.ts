@@ -1,29 +1,86 @@
-import { prop, getModelForClass, modelOptions, Ref } from '@typegoose/typegoose';
+import { prop, getModelForClass, modelOptions, index, Ref } from '@typegoose/typegoose';
 import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
 import { User } from './User';
 
+/**
+ * queued: amount is reserved from the user's unclaimed balance, waiting for the next payout
+ * run. submitted: signed and broadcast. confirmed: paid on-chain. failed: gave up, the amount
+ * went back to the user's unclaimed balance.
+ */
+export type ReferralPayoutStatus = 'queued' | 'submitted' | 'confirmed' | 'failed';
+
+/**
+ * One signed transaction for a payout. A gas bump re-signs the same nonce, so a payout can
+ * have several attempts of which at most one is mined.
+ */
+export class ReferralPayoutAttempt {
+  @prop({ required: true })
+  public txHash!: string;
+
+  @prop({ required: true })
+  public nonce!: number;
+
+  @prop({ required: true })
+  public gasPrice!: string; // Wei
+
+  @prop({ required: true })
+  public rawTransaction!: string; // Signed, kept so it can be rebroadcast
+
+  @prop({ required: true })
+  public sentAt!: Date;
+}
+
 /**
  * Model to track referral payouts to users
- * Each record represents a successful BNB payout from referral earnings
+ * Each record is one withdrawal request, paid out by the batched payout runs
  */
 @modelOptions({
   schemaOptions: { collection: 'referral_payouts', timestamps: true }
 })
+@index({ status: 1, createdAt: 1 })
+@index({ transactionHash: 1 }, { unique: true, sparse: true })
 export class ReferralPayout extends TimeStamps {
   @prop({ ref: () => User, required: true, index: true })
   public user!: Ref<User>; // User who received the payout
 
+  @prop()
+  public telegramId?: number;
+
   @prop({ type: () => String, required: true })
   public bnbAmount!: string; // BNB amount paid out (stored as string for precision)
 
   @prop({ required: true })
   public recipientWalletAddress!: string; // Wallet address that received the funds
 
-  @prop({ required: true, unique: true })
-  public transactionHash!: string; // On-chain transaction hash
+  @prop()
+  public transactionHash?: string; // Latest attempt while submitted, the mined one once confirmed
+
+  @prop({ required: true, enum: ['queued', 'submitted', 'confirmed', 'failed'], default: 'queued' })
+  public status!: ReferralPayoutStatus;
+
+  @prop()
+  public batchId?: string; // Payout run that submitted it
+
+  @prop({ type: () => [ReferralPayoutAttempt], default: [] })
+  public attempts!: ReferralPayoutAttempt[];
+
+  @prop({ default: 0 })
+  public resubmissions!: number; // Times it went back to the queue after its nonce was taken
+
+  @prop({ default: 0 })
+  public unresolvedChecks!: number; // Checks that found its nonce used but couldn't tell by which transaction
+
+  @prop()
+  public submittedAt?: Date;
+
+  @prop()
+  public confirmedAt?: Date;
+
+  @prop()
+  public blockNumber?: number;
 
-  @prop({ default: 'completed' })
-  public status!: 'pending' | 'completed' | 'failed';
+  @prop()
+  public failureReason?: string;
 }
 
 export const ReferralPayoutModel = getModelForClass(ReferralPayout);
\ No newline at end of file
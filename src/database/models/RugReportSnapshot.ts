@@ -0,0 +1,53 @@
+import { prop, getModelForClass, pre, modelOptions, index, Severity } from '@typegoose/typegoose';
+import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
+
+/**
+ * Frozen copy of a rug-alert analysis that can be shared and exported.
+ * Snapshots are never edited: a new analysis always gets a new snapshot.
+ */
+@pre<RugReportSnapshot>('save', function() {
+  if (!this.isNew) {
+    throw new Error('Rug report snapshots are immutable');
+  }
+  this.createdAt = new Date();
+  this.updatedAt = this.createdAt;
+})
+@modelOptions({
+  schemaOptions: { collection: 'rug_report_snapshots' },
+  options: { allowMixed: Severity.ALLOW }
+})
+@index({ snapshotId: 1 }, { unique: true })
+@index({ tokenAddress: 1, createdAt: -1 })
+export class RugReportSnapshot extends TimeStamps {
+  @prop({ required: true })
+  public snapshotId!: string; // Public, URL-safe ID used in share links
+
+  @prop({ required: true, lowercase: true })
+  public tokenAddress!: string;
+
+  @prop()
+  public tokenName?: string;
+
+  @prop()
+  public tokenSymbol?: string;
+
+  @prop({ required: true })
+  public safetyScore!: number;
+
+  @prop()
+  public scoreModelVersion?: string;
+
+  @prop({ required: true })
+  public blockNumber!: number; // BSC block the analysis was taken at
+
+  @prop()
+  public analyzedAt?: Date; // When the analysis ran, createdAt is when it was snapshotted
+
+  @prop({ required: true })
+  public createdBy!: number; // Telegram ID, never exposed over the API
+
+  @prop({ type: () => Object, required: true })
+  public analysis!: Record<string, any>; // RugAlertAnalysis as plain JSON
+}
+
+export const RugReportSnapshotModel = getModelForClass(RugReportSnapshot);
\ No newline at end of file
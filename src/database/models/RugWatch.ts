@@ -0,0 +1,108 @@
+import { prop, getModelForClass, pre, modelOptions, index, Severity } from '@typegoose/typegoose';
+import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
+
+export type RugWatchEventType = 'liquidity_drop' | 'lp_unlock' | 'owner_mint' | 'ownership_change' | 'holder_dump';
+
+export interface RugWatchEvent {
+  type: RugWatchEventType;
+  detail: string;
+  detectedAt: Date;
+}
+
+export interface RugWatchHolder {
+  address: string;
+  balance: string; // Raw token balance at the last check
+  label: 'deployer' | 'owner' | 'holder';
+}
+
+/**
+ * On-chain snapshot of a watched token, shared by every user holding or tracking it
+ */
+@pre<RugWatchState>('save', function() {
+  if (this.isNew) {
+    this.createdAt = new Date();
+  }
+  this.updatedAt = new Date();
+})
+@modelOptions({
+  schemaOptions: { collection: 'rug_watch_states' },
+  options: { allowMixed: Severity.ALLOW }
+})
+@index({ tokenAddress: 1 }, { unique: true })
+export class RugWatchState extends TimeStamps {
+  @prop({ required: true, lowercase: true })
+  public tokenAddress!: string;
+
+  @prop()
+  public tokenSymbol?: string;
+
+  @prop({ lowercase: true })
+  public pairAddress?: string;
+
+  @prop({ lowercase: true })
+  public quoteToken?: string; // WBNB or stablecoin side of the pair
+
+  @prop({ type: () => String })
+  public quoteReserve?: string; // Raw reserve of the quote token
+
+  @prop({ type: () => String })
+  public lpTotalSupply?: string;
+
+  @prop({ type: () => String })
+  public lpLockedOrBurned?: string; // LP held by dead/zero addresses and known lockers
+
+  @prop({ type: () => String })
+  public totalSupply?: string;
+
+  @prop({ lowercase: true })
+  public owner?: string;
+
+  @prop({ type: () => [Object], default: [] })
+  public holders!: RugWatchHolder[]; // Deployer and top holders whose balances are compared each check
+
+  @prop()
+  public safetyScore?: number;
+
+  @prop()
+  public lastAnalyzedAt?: Date;
+
+  @prop()
+  public lastCheckedAt?: Date;
+
+  @prop({ type: () => [Object], default: [] })
+  public pendingEvents!: RugWatchEvent[]; // Detected since the last analysis
+}
+
+/**
+ * A rug-watch alert sent to a user, used to avoid repeating the same alert
+ */
+@pre<RugWatchAlert>('save', function() {
+  if (this.isNew) {
+    this.createdAt = new Date();
+  }
+  this.updatedAt = new Date();
+})
+@modelOptions({
+  schemaOptions: { collection: 'rug_watch_alerts' },
+  options: { allowMixed: Severity.ALLOW }
+})
+@index({ telegramId: 1, tokenAddress: 1, createdAt: -1 })
+export class RugWatchAlert extends TimeStamps {
+  @prop({ required: true })
+  public telegramId!: number;
+
+  @prop({ required: true, lowercase: true })
+  public tokenAddress!: string;
+
+  @prop({ required: true })
+  public safetyScore!: number;
+
+  @prop({ required: true })
+  public threshold!: number;
+
+  @prop({ type: () => [Object], default: [] })
+  public events!: RugWatchEvent[];
+}
+
+export const RugWatchStateModel = getModelForClass(RugWatchState);
+export const RugWatchAlertModel = getModelForClass(RugWatchAlert);
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { prop, getModelForClass, pre, modelOptions, index, Severity } from '@typegoose/typegoose';
+import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
+import type { SafetyScoreFeatures, ScoreComponentResult } from '@/services/rugAlerts/scoringModel';
+
+/**
+ * A safety score as computed at analysis time, with the features it was computed from so the
+ * analysis can be re-scored by other model versions
+ */
+@pre<SafetyScoreRecord>('save', function() {
+  if (this.isNew) {
+    this.createdAt = new Date();
+  }
+  this.updatedAt = new Date();
+})
+@modelOptions({
+  schemaOptions: { collection: 'safety_score_records' },
+  options: { allowMixed: Severity.ALLOW }
+})
+@index({ tokenAddress: 1, createdAt: -1 })
+@index({ createdAt: -1 })
+export class SafetyScoreRecord extends TimeStamps {
+  @prop({ required: true, lowercase: true })
+  public tokenAddress!: string;
+
+  @prop()
+  public tokenSymbol?: string;
+
+  @prop({ required: true })
+  public modelVersion!: string;
+
+  @prop({ required: true })
+  public score!: number;
+
+  @prop({ type: () => Object, required: true })
+  public features!: SafetyScoreFeatures;
+
+  @prop({ type: () => [Object], default: [] })
+  public components!: ScoreComponentResult[]; // Points and reasons per component
+}
+
+export const SafetyScoreRecordModel = getModelForClass(SafetyScoreRecord);
\ No newline at end of file
@@ -1,6 +1,14 @@
 import { prop, getModelForClass, pre, modelOptions, Severity } from '@typegoose/typegoose';
 import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
 
+export interface TakeProfitLevel {
+  price: number; // Price in USD that triggers this level
+  sellPercentage: number; // Percentage of the original position to sell at this level
+  executed?: boolean;
+  executedAt?: Date;
+  txHash?: string;
+}
+
 @pre<TrackedToken>('save', function() {
   if (this.isNew) {
     this.createdAt = new Date();
@@ -85,6 +93,22 @@ export class TrackedToken extends TimeStamps {
 
   @prop()
   public stopLossPrice?: number; // Stop loss price in USD
+
+  @prop({ type: () => [Object], default: [] })
+  public takeProfitLevels?: TakeProfitLevel[]; // Laddered take profit levels, each selling part of the position
+
+  @prop()
+  public trailingStopPercent?: number; // Sell the remaining position when price drops this % below the peak
+
+  // Position state (managed by the price monitor)
+  @prop()
+  public entryPrice?: number; // Price in USD when the auto-buy was executed
+
+  @prop()
+  public highestPriceSinceEntry?: number; // Peak price seen since entry, used by the trailing stop
+
+  @prop({ default: 0 })
+  public soldPercentage?: number; // Percentage of the original position already sold by take profit levels
 }
 
 export const TrackedTokenModel = getModelForClass(TrackedToken);
\ No newline at end of file
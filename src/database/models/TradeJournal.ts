@@ -0,0 +1,82 @@
+import { prop, getModelForClass, pre, modelOptions, index, Severity } from '@typegoose/typegoose';
+import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
+
+export type TradeSide = 'buy' | 'sell';
+export type TradeSource = 'manual' | 'quick_trade' | 'auto_rule' | 'dca' | 'limit_order' | 'copy_trade' | 'rug_watch';
+
+@pre<TradeJournalEntry>('save', function() {
+  if (this.isNew) {
+    this.createdAt = new Date();
+  }
+  this.updatedAt = new Date();
+})
+@modelOptions({
+  schemaOptions: { collection: 'trade_journal' },
+  options: { allowMixed: Severity.ALLOW }
+})
+@index({ telegramId: 1, executedAt: 1 })
+@index({ telegramId: 1, tokenAddress: 1, executedAt: 1 })
+@index({ txHash: 1 }, { unique: true })
+export class TradeJournalEntry extends TimeStamps {
+  @prop({ required: true })
+  public telegramId!: number;
+
+  @prop({ required: true, lowercase: true })
+  public walletAddress!: string;
+
+  @prop({ required: true })
+  public txHash!: string;
+
+  @prop()
+  public blockNumber?: number;
+
+  @prop({ required: true })
+  public executedAt!: Date;
+
+  @prop({ required: true })
+  public side!: TradeSide;
+
+  @prop({ required: true, lowercase: true })
+  public tokenAddress!: string;
+
+  @prop()
+  public tokenSymbol?: string;
+
+  @prop({ required: true })
+  public tokenDecimals!: number;
+
+  @prop({ type: () => String, required: true })
+  public tokenAmountRaw!: string; // Tokens moved in or out of the wallet, in base units
+
+  @prop({ required: true })
+  public tokenAmount!: number;
+
+  @prop({ required: true })
+  public bnbAmount!: number; // BNB spent for buys, BNB received for sells
+
+  @prop({ required: true })
+  public priceBnb!: number; // Effective price per token
+
+  @prop({ default: 0 })
+  public priceUsd!: number;
+
+  @prop({ default: 0 })
+  public bnbPriceUsd!: number; // BNB price at execution, 0 when it couldn't be fetched
+
+  @prop({ type: () => String, default: '0' })
+  public gasUsed!: string;
+
+  @prop({ default: 0 })
+  public gasCostBnb!: number;
+
+  @prop({ required: true })
+  public source!: TradeSource;
+
+  @prop()
+  public ruleId?: string; // Auto-trade rule, DCA schedule, limit order or copy-trade watch that placed the trade
+
+  @prop()
+  public trigger?: string; // What fired the rule, e.g. entry, take_profit, stop_loss
+}
+
+export const TradeJournalModel = getModelForClass(TradeJournalEntry);
\ No newline at end of file
@@ -73,6 +73,42 @@ export class User extends TimeStamps {
   @prop({ default: false })
   public debugMode!: boolean;
 
+  // Buy guard: simulate a buy and sell before every buy
+  @prop({ default: true })
+  public buyGuardEnabled!: boolean;
+
+  @prop({ enum: ['block', 'warn'], default: 'block' })
+  public buyGuardMode!: string;
+
+  @prop({ default: 30 })
+  public buyGuardMaxLossPercent!: number; // Max round-trip loss (taxes, fees and price impact) in %
+
+  // Trading preferences, unset values fall back to the bot defaults
+  @prop()
+  public slippagePercent?: number;
+
+  @prop()
+  public maxGasPriceGwei?: number;
+
+  @prop({ default: 0 })
+  public priorityFeeGwei!: number;
+
+  @prop({ default: 20 })
+  public tradeDeadlineMinutes!: number;
+
+  @prop({ default: false })
+  public privateMempool!: boolean; // Send swaps through PRIVATE_MEMPOOL_RPC_URL
+
+  // Rug-watch: background re-checks of held and tracked tokens
+  @prop({ default: true })
+  public rugWatchEnabled!: boolean;
+
+  @prop({ default: 40 })
+  public rugWatchThreshold!: number; // Alert when a token's safety score falls below this
+
+  @prop({ default: true })
+  public rugWatchSellButton!: boolean; // Add a one-tap "sell all" to alerts for tokens in the trading wallet
+
   @prop()
   public referralCode?: string;
 
@@ -136,6 +172,9 @@ export class User extends TimeStamps {
   @prop()
   public roleUpgradedAt?: Date;
 
+  @prop({ default: false })
+  public roleOverride!: boolean; // Role set by an admin, automatic upgrades leave it alone
+
   // New fields for role progression
   @prop({ default: 0 })
   public totalHoneyBurned!: number;
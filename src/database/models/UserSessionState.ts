@@ -0,0 +1,25 @@
+import { prop, getModelForClass, modelOptions, index, Severity } from '@typegoose/typegoose';
+
+@modelOptions({
+  schemaOptions: { collection: 'user_sessions' },
+  options: { allowMixed: Severity.ALLOW }
+})
+@index({ expiresAt: 1 }, { expireAfterSeconds: 0 }) // Let MongoDB drop sessions nobody touched for a while
+export class UserSessionState {
+  @prop({ required: true, unique: true })
+  public telegramId!: number;
+
+  @prop({ required: true })
+  public data!: string; // Serialized UserSession (JSON, BigInt-safe)
+
+  @prop({ type: () => Object, default: {} })
+  public flowUpdatedAt!: Record<string, number>; // Last change per session key, used for per-flow TTLs
+
+  @prop({ required: true })
+  public expiresAt!: Date;
+
+  @prop({ default: Date.now })
+  public updatedAt!: Date;
+}
+
+export const UserSessionStateModel = getModelForClass(UserSessionState);
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { prop, getModelForClass, pre, modelOptions, Severity } from '@typegoose/typegoose';
 import { TimeStamps } from '@typegoose/typegoose/lib/defaultClasses';
 
+export type CopyTradeMode = 'fixed' | 'proportional';
+
 @pre<WalletWatch>('save', function() {
   if (this.isNew) {
     this.createdAt = new Date();
@@ -28,6 +30,28 @@ export class WalletWatch extends TimeStamps {
 
   @prop({ default: 0 })
   public transactionCount!: number;
+
+  // Copy-trading: mirror this wallet's swaps from the watcher's trading wallet
+  @prop({ default: false })
+  public copyTradeEnabled!: boolean;
+
+  @prop({ enum: ['fixed', 'proportional'], default: 'fixed' })
+  public copyTradeMode!: CopyTradeMode;
+
+  @prop({ default: 0.05 })
+  public copyTradeFixedBnb!: number; // BNB per copied buy in fixed mode
+
+  @prop({ default: 10 })
+  public copyTradePercent!: number; // Share of the source wallet's BNB amount in proportional mode
+
+  @prop()
+  public copyTradeDailyCapBnb?: number; // Max BNB spent on copied buys per UTC day, unset means no cap
+
+  @prop({ type: () => [String], default: [] })
+  public copyTradeBlacklist!: string[]; // Lowercase token addresses that are never copied
+
+  @prop({ default: 60 })
+  public copyTradeMinSafetyScore!: number; // Rug-safety score a token needs before a buy is copied, 0 disables
 }
 
 export const WalletWatchModel = getModelForClass(WalletWatch);
\ No newline at end of file
@@ -40,6 +40,7 @@ export const translations = {
       noWalletConnected: 'No wallet connected',
       back: '⬅️ Back',
       transfer: '💸 Transfer',
+      tokenApprovals: '🔐 Token Approvals',
       // Wallet info display
       walletInfo: '💳 *Wallet Information*',
       mainWallet: '🔗 Main Wallet:',
@@ -188,6 +189,23 @@ export const translations = {
       errorSettingEntryAmount: '❌ Error setting entry amount',
       errorSettingTakeProfitPreset: '❌ Error setting take profit preset',
       errorSettingStopLossPreset: '❌ Error setting stop loss preset',
+      errorSettingUpTakeProfitLadder: '❌ Error setting up take profit ladder',
+      errorSettingUpTrailingStop: '❌ Error setting up trailing stop',
+      errorLoadingDcaMenu: '❌ Error loading DCA schedules',
+      errorSettingUpDca: '❌ Error setting up DCA schedule',
+      errorUpdatingDcaSchedule: '❌ Error updating DCA schedule',
+      errorLoadingLimitOrders: '❌ Error loading limit orders',
+      errorSettingUpLimitOrder: '❌ Error setting up limit order',
+      errorRunningBacktest: '❌ Error running backtest',
+      errorUpdatingBuyGuard: '❌ Error updating buy guard settings',
+      errorUpdatingTradingPreferences: '❌ Error updating trading preferences',
+      errorUpdatingCopyTrade: '❌ Error updating copy-trading',
+      errorLoadingTradeJournal: '❌ Error loading trade journal',
+      errorUpdatingRugWatch: '❌ Error updating rug-watch settings',
+      errorUpdatingLpUnlockAlerts: '❌ Error updating LP unlock alerts',
+      errorCreatingSnapshot: '❌ Error creating report snapshot',
+      errorLoadingScoreHistory: '❌ Error loading score history',
+      errorLoadingApprovals: '❌ Error loading token approvals',
       errorRefreshingData: '❌ Error refreshing data',
       errorSettingCustomEntry: '❌ Error setting custom entry',
       // Wallet error messages
@@ -248,7 +266,10 @@ export const translations = {
       transactionRejected: '❌ Transaction rejected by user',
       insufficientBalanceInTrading: '❌ Insufficient balance in trading wallet',
       wrongNetwork: '❌ Wrong network selected in wallet. Please switch to BSC network.',
-      transactionSubmitted: '⏳ Transaction submitted...'
+      transactionSubmitted: '⏳ Transaction submitted...',
+      highRiskConfirm: '🚨 This transaction was rated high risk. Only continue if you understand and trust it.',
+      signAnyway: '⚠️ I understand, send to wallet',
+      confirmationExpired: '⌛ This confirmation has expired. Please start the transfer again.'
     },
     
     // Wallet scan menu
@@ -290,6 +311,7 @@ export const translations = {
       buyTokens: '💰 Buy {symbol}',
       sellTokens: '💸 Sell {symbol}',
       back: '⬅️ Back',
+      tradeJournal: '📒 Trade Journal',
       errorAnalyzing: '❌ Error analyzing token. Please check the contract address.',
       invalidAddress: '❌ Invalid token address. Please enter a valid BSC contract address.',
       tradingWalletNotFound: '❌ Trading wallet not found. Please restart the bot with /start',
@@ -630,6 +652,7 @@ export const translations = {
       noWalletConnected: '未连接钱包',
       back: '⬅️ 返回',
       transfer: '💸 转账',
+      tokenApprovals: '🔐 代币授权',
       // 钱包信息显示
       walletInfo: '💳 *钱包信息*',
       mainWallet: '🔗 主钱包：',
@@ -778,6 +801,23 @@ export const translations = {
       errorSettingEntryAmount: '❌ 设置入场金额错误',
       errorSettingTakeProfitPreset: '❌ 设置止盈预设错误',
       errorSettingStopLossPreset: '❌ 设置止损预设错误',
+      errorSettingUpTakeProfitLadder: '❌ 设置分批止盈错误',
+      errorSettingUpTrailingStop: '❌ 设置移动止损错误',
+      errorLoadingDcaMenu: '❌ 加载定投计划错误',
+      errorSettingUpDca: '❌ 设置定投计划错误',
+      errorUpdatingDcaSchedule: '❌ 更新定投计划错误',
+      errorLoadingLimitOrders: '❌ 加载限价单错误',
+      errorSettingUpLimitOrder: '❌ 设置限价单错误',
+      errorRunningBacktest: '❌ 回测运行错误',
+      errorUpdatingBuyGuard: '❌ 更新买入保护设置错误',
+      errorUpdatingTradingPreferences: '❌ 更新交易偏好错误',
+      errorUpdatingCopyTrade: '❌ 更新跟单交易错误',
+      errorLoadingTradeJournal: '❌ 加载交易日志错误',
+      errorUpdatingRugWatch: '❌ 更新跑路监控设置错误',
+      errorUpdatingLpUnlockAlerts: '❌ 更新LP解锁提醒错误',
+      errorCreatingSnapshot: '❌ 创建报告快照错误',
+      errorLoadingScoreHistory: '❌ 加载评分历史错误',
+      errorLoadingApprovals: '❌ 加载代币授权错误',
       errorRefreshingData: '❌ 刷新数据错误',
       errorSettingCustomEntry: '❌ 设置自定义入场错误',
       // 钱包错误消息
@@ -838,7 +878,10 @@ export const translations = {
       transactionRejected: '❌ 用户拒绝交易',
       insufficientBalanceInTrading: '❌ 交易钱包余额不足',
       wrongNetwork: '❌ 钱包中选择了错误的网络。请切换到 BSC 网络。',
-      transactionSubmitted: '⏳ 交易已提交...'
+      transactionSubmitted: '⏳ 交易已提交...',
+      highRiskConfirm: '🚨 此交易被评为高风险。请仅在您了解并信任该交易时继续。',
+      signAnyway: '⚠️ 我已了解，发送到钱包',
+      confirmationExpired: '⌛ 此确认已过期。请重新发起转账。'
     },
     
     // 钱包扫描菜单
@@ -880,6 +923,7 @@ export const translations = {
       buyTokens: '💰 买入 {symbol}',
       sellTokens: '💸 卖出 {symbol}',
       back: '⬅️ 返回',
+      tradeJournal: '📒 交易日志',
       errorAnalyzing: '❌ 分析代币时出错。请检查合约地址。',
       invalidAddress: '❌ 无效的代币地址。请输入有效的 BSC 合约地址。',
       tradingWalletNotFound: '❌ 未找到交易钱包。请使用 /start 重启机器人',
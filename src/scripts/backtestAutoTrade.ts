@@ -0,0 +1,131 @@
+import { connectDatabase } from '@/database/connection';
+import { TrackedTokenModel } from '@/database/models/TrackedToken';
+import { runBacktest, BacktestRuleSet, DEFAULT_BACKTEST_COSTS } from '@/services/autoTrade/backtester';
+import { loadPriceSeriesFromFile, loadRecordedPrices, SyncPriceConversion } from '@/services/autoTrade/priceHistory';
+import { promises as fs } from 'fs';
+import mongoose from 'mongoose';
+import { config } from 'dotenv';
+
+config();
+
+/**
+ * Backtest auto-trade rules from the command line.
+ *
+ * Rules come from a JSON file (--rules) or a user's tracked token (--user, --token).
+ * Prices come from a CSV/JSON file (--file) or the recorded samples (--days).
+ *
+ *   npm run backtest -- --rules rules.json --file candles.csv --bnb-price 600
+ *   npm run backtest -- --user 123 --token 0xabc... --days 7
+ *   npm run backtest -- --rules rules.json --file syncs.json --token0 --token-decimals 18 --quote-decimals 18 --quote-price 600
+ */
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const key = argv[i].slice(2);
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) {
+      args[key] = next;
+      i++;
+    } else {
+      args[key] = 'true';
+    }
+  }
+  return args;
+}
+
+async function loadRules(args: Record<string, string>): Promise<BacktestRuleSet> {
+  if (args.rules) {
+    return JSON.parse(await fs.readFile(args.rules, 'utf8'));
+  }
+
+  if (!args.user || !args.token) {
+    throw new Error('Pass --rules <file.json> or --user <telegramId> --token <address>');
+  }
+
+  const token = await TrackedTokenModel.findOne({
+    telegramId: Number(args.user),
+    tokenAddress: args.token.toLowerCase(),
+    isActive: true
+  });
+  if (!token) {
+    throw new Error(`No tracked token ${args.token} for user ${args.user}`);
+  }
+
+  return {
+    priceEntryTarget: token.priceEntryTarget,
+    marketCapEntryTarget: token.marketCapEntryTarget,
+    entryAmountBNB: token.entryAmountBNB,
+    entryAmountUSD: token.entryAmountUSD,
+    takeProfitPrice: token.takeProfitPrice,
+    stopLossPrice: token.stopLossPrice,
+    takeProfitLevels: token.takeProfitLevels,
+    trailingStopPercent: token.trailingStopPercent,
+    totalSupply: token.totalSupply
+  };
+}
+
+async function backtestAutoTrade() {
+  const args = parseArgs(process.argv.slice(2));
+  const needsDatabase = !args.rules || !args.file;
+
+  try {
+    if (needsDatabase) {
+      await connectDatabase();
+    }
+
+    const rules = await loadRules(args);
+
+    let series;
+    if (args.file) {
+      const conversion: SyncPriceConversion | undefined = args['quote-price'] ? {
+        isToken0: args.token0 === 'true',
+        tokenDecimals: Number(args['token-decimals'] || 18),
+        quoteDecimals: Number(args['quote-decimals'] || 18),
+        quotePriceUsd: Number(args['quote-price'])
+      } : undefined;
+      series = await loadPriceSeriesFromFile(args.file, conversion);
+    } else {
+      if (!args.token) {
+        throw new Error('Pass --token <address> to backtest against recorded prices');
+      }
+      const days = Number(args.days || 7);
+      series = await loadRecordedPrices(args.token, new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+    }
+
+    const costs = {
+      slippagePercent: args.slippage ? Number(args.slippage) : DEFAULT_BACKTEST_COSTS.slippagePercent,
+      gasCostBnb: args.gas ? Number(args.gas) : DEFAULT_BACKTEST_COSTS.gasCostBnb,
+      bnbPriceUsd: Number(args['bnb-price'] || 600)
+    };
+
+    const result = runBacktest(rules, series, costs);
+
+    console.log(`🧪 Backtest over ${result.pricePoints} prices (${result.startPrice} → ${result.endPrice})`);
+    for (const fill of result.fills) {
+      console.log(
+        `${new Date(fill.timestamp).toISOString()} ${fill.side.toUpperCase()} ${fill.reason}: ` +
+        `${fill.tokenAmount.toFixed(4)} tokens @ $${fill.fillPrice} for ${fill.bnbAmount.toFixed(6)} BNB (${fill.percentageOfPosition.toFixed(0)}%)`
+      );
+    }
+    console.log(`Status: ${result.finalStatus}`);
+    console.log(`PnL: ${result.pnlBnb.toFixed(6)} BNB (${result.pnlPercent.toFixed(2)}%)`);
+    console.log(`Max drawdown: ${result.maxDrawdownPercent.toFixed(2)}%`);
+    console.log(`Slippage cost: ${result.slippageCostBnb.toFixed(6)} BNB, gas cost: ${result.gasCostBnb.toFixed(6)} BNB`);
+    console.log(`PnL without costs: ${result.pnlWithoutCostsBnb.toFixed(6)} BNB`);
+
+    if (args.json) {
+      await fs.writeFile(args.json, JSON.stringify(result, null, 2));
+      console.log(`✅ Full result written to ${args.json}`);
+    }
+  } catch (error) {
+    console.error('❌ Backtest failed:', error);
+    process.exitCode = 1;
+  } finally {
+    if (mongoose.connection.readyState === 1) {
+      await mongoose.disconnect();
+    }
+  }
+}
+
+backtestAutoTrade();
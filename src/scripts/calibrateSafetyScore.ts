@@ -0,0 +1,120 @@
+import { connectDatabase } from '@/database/connection';
+import { SafetyScoreRecordModel } from '@/database/models/SafetyScoreRecord';
+import { DeadTokenModel } from '@/database/models/DeadToken';
+import {
+  calibrateSafetyScoreModel,
+  getSafetyScoreModel,
+  validateSafetyScoreModel,
+  CalibrationReport,
+  CalibrationSample,
+  SafetyScoreModel
+} from '@/services/rugAlerts/scoringModel';
+import { CURRENT_SAFETY_SCORE_MODEL_VERSION } from '@/config/safetyScoreModels';
+import { promises as fs } from 'fs';
+import mongoose from 'mongoose';
+import { config } from 'dotenv';
+
+config();
+
+/**
+ * Re-score stored rug alert analyses with a safety score model and compare it to the current one.
+ *
+ * The latest stored analysis of each token is used, and tokens in the dead token list count as rugs.
+ * A candidate model is a version name from src/config/safetyScoreModels.ts or a JSON file.
+ *
+ *   npm run calibrate:safety -- --model candidate.json
+ *   npm run calibrate:safety -- --model v1 --threshold 50 --days 30 --json report.json
+ */
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const key = argv[i].slice(2);
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) {
+      args[key] = next;
+      i++;
+    } else {
+      args[key] = 'true';
+    }
+  }
+  return args;
+}
+
+async function loadModel(source: string): Promise<SafetyScoreModel> {
+  if (source.endsWith('.json')) {
+    return validateSafetyScoreModel(JSON.parse(await fs.readFile(source, 'utf8')));
+  }
+  return getSafetyScoreModel(source);
+}
+
+async function loadSamples(days?: number): Promise<CalibrationSample[]> {
+  const match = days ? { createdAt: { $gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) } } : {};
+  const latest = await SafetyScoreRecordModel.aggregate([
+    { $match: match },
+    { $sort: { createdAt: -1 } },
+    { $group: { _id: '$tokenAddress', features: { $first: '$features' } } }
+  ]);
+
+  const deadTokens = await DeadTokenModel.find({}, { tokenAddress: 1 }).lean();
+  const rugs = new Set(deadTokens.map(token => token.tokenAddress.toLowerCase()));
+
+  return latest.map(record => ({
+    tokenAddress: record._id,
+    features: record.features,
+    isRug: rugs.has(record._id)
+  }));
+}
+
+function printReport(label: string, report: CalibrationReport) {
+  console.log(`\n📊 ${label}: model ${report.modelVersion}`);
+  console.log(`Mean score: rugs ${report.meanRugScore.toFixed(1)}, others ${report.meanOtherScore.toFixed(1)}`);
+  console.log(`AUC: ${report.auc.toFixed(3)}`);
+  console.log(
+    `Below ${report.threshold}: ${report.truePositives} rugs, ${report.falsePositives} others ` +
+    `(precision ${(report.precision * 100).toFixed(1)}%, recall ${(report.recall * 100).toFixed(1)}%)`
+  );
+}
+
+async function calibrateSafetyScore() {
+  const args = parseArgs(process.argv.slice(2));
+
+  try {
+    if (!args.model) {
+      throw new Error('Pass --model <version|file.json>');
+    }
+
+    const baseline = await loadModel(args.baseline || CURRENT_SAFETY_SCORE_MODEL_VERSION);
+    const candidate = await loadModel(args.model);
+    const threshold = Number(args.threshold || 40);
+
+    await connectDatabase();
+    const samples = await loadSamples(args.days ? Number(args.days) : undefined);
+    const rugCount = samples.filter(sample => sample.isRug).length;
+
+    console.log(`🧪 Re-scoring ${samples.length} tokens, ${rugCount} known rugs`);
+    if (rugCount === 0 || rugCount === samples.length) {
+      console.log('⚠️ Need both rugs and non-rugs for meaningful results');
+    }
+
+    const baselineReport = calibrateSafetyScoreModel(samples, baseline, threshold);
+    const candidateReport = calibrateSafetyScoreModel(samples, candidate, threshold);
+    printReport('Baseline', baselineReport);
+    printReport('Candidate', candidateReport);
+    console.log(`\nAUC change: ${(candidateReport.auc - baselineReport.auc >= 0 ? '+' : '')}${(candidateReport.auc - baselineReport.auc).toFixed(3)}`);
+
+    if (args.json) {
+      await fs.writeFile(args.json, JSON.stringify({ baseline: baselineReport, candidate: candidateReport }, null, 2));
+      console.log(`✅ Reports written to ${args.json}`);
+    }
+  } catch (error) {
+    console.error('❌ Calibration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    if (mongoose.connection.readyState === 1) {
+      await mongoose.disconnect();
+    }
+  }
+}
+
+calibrateSafetyScore();
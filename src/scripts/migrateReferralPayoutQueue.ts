@@ -0,0 +1,48 @@
+import { connectDatabase } from '../database/connection';
+import { ReferralPayoutModel } from '../database/models/ReferralPayout';
+import mongoose from 'mongoose';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('migrateReferralPayoutQueue');
+
+/**
+ * Prepares referral_payouts for the payout queue: queued payouts have no transaction hash
+ * yet, so its unique index has to become sparse, and payouts sent before the queue existed
+ * were stored as 'completed'.
+ */
+async function migrateReferralPayoutQueue() {
+  logger.info('🚀 Starting referral payout queue migration...');
+  await connectDatabase();
+
+  try {
+    const indexes = await ReferralPayoutModel.collection.indexes();
+    const oldIndex = indexes.find(index => index.name === 'transactionHash_1' && !index.sparse);
+    if (oldIndex) {
+      await ReferralPayoutModel.collection.dropIndex('transactionHash_1');
+      logger.info('Dropped the non-sparse transactionHash index');
+    }
+    await ReferralPayoutModel.syncIndexes();
+    logger.info('✅ Referral payout indexes are up to date.');
+
+    const completed = await ReferralPayoutModel.updateMany(
+      { status: 'completed' as any },
+      [{ $set: { status: 'confirmed', confirmedAt: '$createdAt' } }]
+    );
+    logger.info(`✅ Marked ${completed.modifiedCount} completed payouts as confirmed.`);
+
+    const pending = await ReferralPayoutModel.countDocuments({ status: 'pending' as any });
+    if (pending > 0) {
+      logger.warn(`${pending} payouts are still 'pending' from before the queue, check them on-chain manually.`);
+    }
+
+    logger.info('🎉 Migration completed successfully!');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+// Run the migration
+migrateReferralPayoutQueue();
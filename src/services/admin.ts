@@ -0,0 +1,280 @@
+import mongoose from 'mongoose';
+import { UserModel } from '../database/models/User';
+import { HoneyTransactionModel, HoneyTransactionType } from '../database/models/HoneyTransaction';
+import { AdminAuditLogModel, AdminAction, AdminActor } from '../database/models/AdminAuditLog';
+import { KeeperRole } from './keeper';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('adminService');
+
+const MAX_LEDGER_PAGE = 100;
+
+export interface ReferralPercents {
+  firstHand: number;
+  secondHand: number;
+  thirdHand: number;
+}
+
+/**
+ * Telegram IDs allowed to use admin commands, from ADMIN_TELEGRAM_IDS (comma-separated)
+ */
+export function getAdminTelegramIds(): number[] {
+  return (process.env.ADMIN_TELEGRAM_IDS || '')
+    .split(',')
+    .map(id => Number(id.trim()))
+    .filter(id => Number.isInteger(id) && id > 0);
+}
+
+export function isAdmin(telegramId: number | undefined): boolean {
+  return telegramId !== undefined && getAdminTelegramIds().includes(telegramId);
+}
+
+/**
+ * Telegram message to every admin, for problems someone has to look into. Sent as Markdown.
+ */
+export async function alertAdmins(message: string): Promise<void> {
+  const bot = (globalThis as any).botExport;
+  if (!bot) return;
+
+  for (const telegramId of getAdminTelegramIds()) {
+    try {
+      await bot.telegram.sendMessage(telegramId, message, { parse_mode: 'Markdown' });
+    } catch (error) {
+      logger.warn('Failed to alert admin', { error, telegramId });
+    }
+  }
+}
+
+/**
+ * Referral tiers are percentages of each purchase, so together they can't exceed it
+ */
+export function validateReferralPercents(percents: ReferralPercents): string | null {
+  const values = [percents.firstHand, percents.secondHand, percents.thirdHand];
+  if (values.some(value => typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100)) {
+    return 'Each referral tier must be a percentage between 0 and 100';
+  }
+  if (values.reduce((sum, value) => sum + value, 0) > 100) {
+    return 'Referral tiers can add up to at most 100%';
+  }
+  return null;
+}
+
+/**
+ * Admin operations on Honey balances, roles and referral settings. Every call, reads
+ * included, is written to the admin audit log.
+ */
+export class AdminService {
+  /**
+   * Grant (positive amount) or revoke (negative amount) Honey. A revoke can't take the
+   * balance below zero.
+   */
+  static async adjustHoney(actor: AdminActor, telegramId: number, amount: number, reason?: string): Promise<{
+    success: boolean;
+    balance?: number;
+    error?: string;
+  }> {
+    if (!Number.isInteger(amount) || amount === 0) {
+      return { success: false, error: 'Amount must be a non-zero whole number' };
+    }
+
+    const session = await mongoose.startSession();
+    session.startTransaction();
+    try {
+      const filter: Record<string, any> = { telegramId };
+      if (amount < 0) {
+        filter.dailyHoney = { $gte: -amount };
+      }
+      const update = amount > 0
+        ? { $inc: { dailyHoney: amount, totalHoneyEarned: amount } }
+        : { $inc: { dailyHoney: amount } };
+
+      const user = await UserModel.findOneAndUpdate(filter, update, { new: true, session });
+      if (!user) {
+        await session.abortTransaction();
+        const exists = await UserModel.exists({ telegramId });
+        return { success: false, error: exists ? 'Balance is lower than the amount to revoke' : 'User not found' };
+      }
+
+      const action: AdminAction = amount > 0 ? 'honey_grant' : 'honey_revoke';
+      await HoneyTransactionModel.create([{
+        user: user._id,
+        telegramId,
+        type: HoneyTransactionType.ADMIN_GRANT,
+        amount,
+        balanceAfter: user.dailyHoney,
+        description: reason || (amount > 0 ? `Admin granted ${amount} honey` : `Admin revoked ${-amount} honey`),
+        metadata: { admin: actor, reason }
+      }], { session });
+
+      await this.audit(actor, action, telegramId, { dailyHoney: user.dailyHoney - amount }, { dailyHoney: user.dailyHoney }, reason, session);
+      await session.commitTransaction();
+
+      logger.info('Admin adjusted honey', { actor, telegramId, amount });
+      return { success: true, balance: user.dailyHoney };
+    } catch (error) {
+      await session.abortTransaction();
+      logger.error('Error adjusting honey', { error, telegramId, amount });
+      return { success: false, error: 'An internal error occurred' };
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * Pin a user's role, or pass null to hand it back to automatic upgrades
+   */
+  static async setRole(actor: AdminActor, telegramId: number, role: KeeperRole | null, reason?: string): Promise<{ success: boolean; error?: string }> {
+    if (role !== null && !Object.values(KeeperRole).includes(role)) {
+      return { success: false, error: `Role must be one of: ${Object.values(KeeperRole).join(', ')}` };
+    }
+
+    const user = await UserModel.findOne({ telegramId });
+    if (!user) {
+      return { success: false, error: 'User not found' };
+    }
+
+    const before = { role: user.role, roleOverride: user.roleOverride };
+    const after = role === null
+      ? { role: user.role, roleOverride: false }
+      : { role, roleOverride: true };
+
+    await UserModel.updateOne(
+      { telegramId },
+      role === null ? { roleOverride: false } : { role, roleOverride: true, roleUpgradedAt: new Date() }
+    );
+    await this.audit(actor, 'role_override', telegramId, before, after, reason);
+
+    logger.info('Admin set role', { actor, telegramId, role });
+    return { success: true };
+  }
+
+  static async setReferralPercents(actor: AdminActor, telegramId: number, percents: ReferralPercents, reason?: string): Promise<{ success: boolean; error?: string }> {
+    const invalid = validateReferralPercents(percents);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    const user = await UserModel.findOne({ telegramId });
+    if (!user) {
+      return { success: false, error: 'User not found' };
+    }
+
+    const referralPercents = { firstHand: percents.firstHand, secondHand: percents.secondHand, thirdHand: percents.thirdHand };
+    await UserModel.updateOne({ telegramId }, { referralPercents });
+    await this.audit(actor, 'referral_percents', telegramId, { referralPercents: user.referralPercents }, { referralPercents }, reason);
+
+    logger.info('Admin set referral percents', { actor, telegramId, referralPercents });
+    return { success: true };
+  }
+
+  /**
+   * Set a discount, optionally until expiresAt. A percentage of 0 removes it.
+   */
+  static async setDiscount(actor: AdminActor, telegramId: number, percentage: number, expiresAt?: Date, reason?: string): Promise<{ success: boolean; error?: string }> {
+    if (!Number.isFinite(percentage) || percentage < 0 || percentage > 100) {
+      return { success: false, error: 'Discount must be a percentage between 0 and 100' };
+    }
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+      return { success: false, error: 'Discount expiry must be in the future' };
+    }
+
+    const user = await UserModel.findOne({ telegramId });
+    if (!user) {
+      return { success: false, error: 'User not found' };
+    }
+
+    await UserModel.updateOne(
+      { telegramId },
+      expiresAt && percentage > 0
+        ? { discountPercentage: percentage, discountExpiry: expiresAt }
+        : { discountPercentage: percentage, $unset: { discountExpiry: 1 } }
+    );
+    await this.audit(
+      actor,
+      'discount',
+      telegramId,
+      { discountPercentage: user.discountPercentage, discountExpiry: user.discountExpiry },
+      { discountPercentage: percentage, discountExpiry: percentage > 0 ? expiresAt : undefined },
+      reason
+    );
+
+    logger.info('Admin set discount', { actor, telegramId, percentage, expiresAt });
+    return { success: true };
+  }
+
+  /**
+   * Balances, role and referral settings of a user
+   */
+  static async getUserSummary(actor: AdminActor, telegramId: number) {
+    const user = await UserModel.findOne({ telegramId }).lean();
+    if (!user) return null;
+
+    await this.audit(actor, 'view_user', telegramId);
+    return {
+      telegramId: user.telegramId,
+      name: user.name,
+      walletAddress: user.walletAddress,
+      tradingWalletAddress: user.tradingWalletAddress,
+      isKeeper: user.isKeeper,
+      role: user.role,
+      roleOverride: !!user.roleOverride,
+      dailyHoney: user.dailyHoney,
+      purchasedHoney: user.purchasedHoney,
+      totalHoneyEarned: user.totalHoneyEarned,
+      totalHoneyBurned: user.totalHoneyBurned,
+      referralPercents: user.referralPercents,
+      discountPercentage: user.discountPercentage,
+      discountExpiry: user.discountExpiry,
+      unclaimedReferralBNB: user.unclaimedReferralBNB,
+      totalReferralBNBEarned: user.totalReferralBNBEarned,
+      activeReferralsCount: user.activeReferralsCount
+    };
+  }
+
+  /**
+   * Every Honey transaction of a user, newest first. Pass the oldest timestamp seen as
+   * `before` to page further back.
+   */
+  static async getLedger(actor: AdminActor, telegramId: number, options: { limit?: number; before?: Date } = {}) {
+    const limit = Math.min(Math.max(options.limit || 20, 1), MAX_LEDGER_PAGE);
+    const filter: Record<string, any> = { telegramId };
+    if (options.before) {
+      filter.timestamp = { $lt: options.before };
+    }
+
+    const entries = await HoneyTransactionModel.find(filter).sort({ timestamp: -1 }).limit(limit).lean();
+    await this.audit(actor, 'view_ledger', telegramId);
+    return entries.map(entry => ({
+      type: entry.type,
+      amount: entry.amount,
+      balanceAfter: entry.balanceAfter,
+      feature: entry.feature,
+      description: entry.description,
+      metadata: entry.metadata,
+      timestamp: entry.timestamp
+    }));
+  }
+
+  /**
+   * Latest audit log entries, optionally for a single user
+   */
+  static async getAuditLog(actor: AdminActor, options: { telegramId?: number; limit?: number } = {}) {
+    const limit = Math.min(Math.max(options.limit || 20, 1), MAX_LEDGER_PAGE);
+    const filter = options.telegramId ? { targetTelegramId: options.telegramId } : {};
+    const entries = await AdminAuditLogModel.find(filter).sort({ createdAt: -1 }).limit(limit).lean();
+    await this.audit(actor, 'view_audit_log', options.telegramId);
+    return entries;
+  }
+
+  private static async audit(
+    actor: AdminActor,
+    action: AdminAction,
+    targetTelegramId: number | undefined,
+    before?: Record<string, any>,
+    after?: Record<string, any>,
+    reason?: string,
+    session?: mongoose.ClientSession
+  ): Promise<void> {
+    await AdminAuditLogModel.create([{ actor, action, targetTelegramId, before, after, reason }], { session });
+  }
+}
@@ -0,0 +1,242 @@
+import type { TakeProfitLevel } from '@/database/models/TrackedToken';
+import { evaluateExitRules, ExitReason, ExitRuleState } from './exitRules';
+import { EntryRuleState, hasEntryRule, isEntryConditionMet } from './entryRules';
+
+/**
+ * One price observation in USD
+ */
+export interface PricePoint {
+    timestamp: number; // Unix time in milliseconds
+    price: number;
+}
+
+/**
+ * OHLC candle in USD
+ */
+export interface PriceCandle {
+    timestamp: number; // Candle open time in milliseconds
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+}
+
+/**
+ * Auto-trade rule set as stored on a TrackedToken
+ */
+export interface BacktestRuleSet extends EntryRuleState, Omit<ExitRuleState, 'highestPriceSinceEntry' | 'soldPercentage'> {
+    totalSupply?: string; // Needed for (deprecated) market cap entry targets
+}
+
+export interface BacktestCosts {
+    slippagePercent: number; // Price impact applied against us on every fill
+    gasCostBnb: number; // Gas paid per swap
+    bnbPriceUsd: number; // Used to convert between BNB amounts and USD prices
+}
+
+export interface BacktestFill {
+    side: 'buy' | 'sell';
+    reason: 'entry' | ExitReason;
+    timestamp: number;
+    marketPrice: number; // Price that triggered the fill
+    fillPrice: number; // Price after slippage
+    tokenAmount: number;
+    bnbAmount: number; // BNB spent (buy) or received (sell), excluding gas
+    percentageOfPosition: number;
+    slippageCostBnb: number;
+    gasCostBnb: number;
+}
+
+export interface BacktestResult {
+    fills: BacktestFill[];
+    finalStatus: 'pending_entry' | 'position_open' | 'completed';
+    pricePoints: number;
+    startPrice: number | null;
+    endPrice: number | null;
+    bnbInvested: number; // Entry amount plus gas for the buy
+    bnbReturned: number; // Sell proceeds net of gas
+    openPositionBnb: number; // Value of tokens still held at the last price
+    pnlBnb: number;
+    pnlPercent: number;
+    maxDrawdownPercent: number;
+    slippageCostBnb: number;
+    gasCostBnb: number;
+    pnlWithoutCostsBnb: number; // Same run with no slippage and no gas
+}
+
+export const DEFAULT_BACKTEST_COSTS: Omit<BacktestCosts, 'bnbPriceUsd'> = {
+    slippagePercent: 1,
+    gasCostBnb: 0.0005
+};
+
+/**
+ * Turn candles into the price path they most likely took. Green candles are assumed
+ * to dip before rallying (open, low, high, close), red ones the opposite, which is
+ * the usual pessimistic ordering for stops against take profits.
+ */
+export function candlesToPricePoints(candles: PriceCandle[]): PricePoint[] {
+    const points: PricePoint[] = [];
+    for (const candle of [...candles].sort((a, b) => a.timestamp - b.timestamp)) {
+        const path = candle.close >= candle.open
+            ? [candle.open, candle.low, candle.high, candle.close]
+            : [candle.open, candle.high, candle.low, candle.close];
+        for (const price of path) {
+            if (price > 0) {
+                points.push({ timestamp: candle.timestamp, price });
+            }
+        }
+    }
+    return points;
+}
+
+/**
+ * Replay an auto-trade rule set over a price series, following the same entry and
+ * exit logic as the live price monitor. Amounts are simulated in BNB at a fixed
+ * BNB/USD price.
+ */
+export function runBacktest(rules: BacktestRuleSet, series: PricePoint[] | PriceCandle[], costs: BacktestCosts): BacktestResult {
+    const points = isCandleSeries(series)
+        ? candlesToPricePoints(series)
+        : [...series].filter(point => point.price > 0).sort((a, b) => a.timestamp - b.timestamp);
+
+    const result = simulate(rules, points, costs);
+    const withoutCosts = simulate(rules, points, { ...costs, slippagePercent: 0, gasCostBnb: 0 });
+
+    return { ...result, pnlWithoutCostsBnb: withoutCosts.pnlBnb };
+}
+
+function isCandleSeries(series: PricePoint[] | PriceCandle[]): series is PriceCandle[] {
+    return series.length > 0 && 'close' in series[0];
+}
+
+function simulate(rules: BacktestRuleSet, points: PricePoint[], costs: BacktestCosts): Omit<BacktestResult, 'pnlWithoutCostsBnb'> {
+    const slippage = costs.slippagePercent / 100;
+    const entryBnb = rules.entryAmountBNB || (rules.entryAmountUSD ? rules.entryAmountUSD / costs.bnbPriceUsd : 0);
+    const totalSupply = rules.totalSupply ? parseFloat(rules.totalSupply) : 0;
+
+    const fills: BacktestFill[] = [];
+    let status: BacktestResult['finalStatus'] = 'pending_entry';
+    let tokensHeld = 0;
+    let bnbInvested = 0;
+    let bnbReturned = 0;
+    let slippageCostBnb = 0;
+    let gasCostBnb = 0;
+
+    // Exit state mirrors the fields the live monitor keeps on the TrackedToken
+    const exitState: ExitRuleState = {
+        takeProfitPrice: rules.takeProfitPrice,
+        stopLossPrice: rules.stopLossPrice,
+        trailingStopPercent: rules.trailingStopPercent,
+        takeProfitLevels: [],
+        highestPriceSinceEntry: 0,
+        soldPercentage: 0
+    };
+
+    // Equity starts as the BNB set aside for the entry
+    let peakEquity = entryBnb;
+    let maxDrawdown = 0;
+
+    for (let i = 0; i < points.length; i++) {
+        const { timestamp, price } = points[i];
+        const referencePrice = i > 0 ? points[i - 1].price : price;
+
+        if (status === 'pending_entry' && entryBnb > 0 && hasEntryRule(rules)) {
+            if (isEntryConditionMet(rules, price, referencePrice, price * totalSupply)) {
+                const fillPrice = price * (1 + slippage);
+                const tokenAmount = (entryBnb * costs.bnbPriceUsd) / fillPrice;
+                const slippageCost = entryBnb - (tokenAmount * price) / costs.bnbPriceUsd;
+
+                tokensHeld = tokenAmount;
+                bnbInvested = entryBnb + costs.gasCostBnb;
+                slippageCostBnb += slippageCost;
+                gasCostBnb += costs.gasCostBnb;
+
+                fills.push({
+                    side: 'buy',
+                    reason: 'entry',
+                    timestamp,
+                    marketPrice: price,
+                    fillPrice,
+                    tokenAmount,
+                    bnbAmount: entryBnb,
+                    percentageOfPosition: 100,
+                    slippageCostBnb: slippageCost,
+                    gasCostBnb: costs.gasCostBnb
+                });
+
+                status = 'position_open';
+                exitState.highestPriceSinceEntry = price;
+                exitState.soldPercentage = 0;
+                exitState.takeProfitLevels = (rules.takeProfitLevels || []).map((level: TakeProfitLevel) => ({
+                    price: level.price,
+                    sellPercentage: level.sellPercentage
+                }));
+            }
+        } else if (status === 'position_open') {
+            const decision = evaluateExitRules(exitState, price);
+            exitState.highestPriceSinceEntry = decision.highestPrice;
+
+            if (decision.shouldSell && decision.reason) {
+                const isFullExit = decision.percentageOfHoldings >= 100;
+                const tokenAmount = isFullExit ? tokensHeld : tokensHeld * (decision.percentageOfHoldings / 100);
+                const fillPrice = price * (1 - slippage);
+                const bnbAmount = (tokenAmount * fillPrice) / costs.bnbPriceUsd;
+                const slippageCost = (tokenAmount * price) / costs.bnbPriceUsd - bnbAmount;
+
+                tokensHeld -= tokenAmount;
+                bnbReturned += bnbAmount - costs.gasCostBnb;
+                slippageCostBnb += slippageCost;
+                gasCostBnb += costs.gasCostBnb;
+
+                fills.push({
+                    side: 'sell',
+                    reason: decision.reason,
+                    timestamp,
+                    marketPrice: price,
+                    fillPrice,
+                    tokenAmount,
+                    bnbAmount,
+                    percentageOfPosition: decision.percentageOfPosition,
+                    slippageCostBnb: slippageCost,
+                    gasCostBnb: costs.gasCostBnb
+                });
+
+                exitState.soldPercentage = Math.min(100, (exitState.soldPercentage || 0) + decision.percentageOfPosition);
+                exitState.takeProfitLevels = (exitState.takeProfitLevels || []).map((level, index) =>
+                    decision.levelIndexes.includes(index) ? { ...level, executed: true } : level
+                );
+
+                if (isFullExit || exitState.soldPercentage >= 100) {
+                    status = 'completed';
+                    tokensHeld = 0;
+                }
+            }
+        }
+
+        const equity = entryBnb - bnbInvested + bnbReturned + (tokensHeld * price) / costs.bnbPriceUsd;
+        peakEquity = Math.max(peakEquity, equity);
+        if (peakEquity > 0) {
+            maxDrawdown = Math.max(maxDrawdown, (peakEquity - equity) / peakEquity);
+        }
+    }
+
+    const endPrice = points.length > 0 ? points[points.length - 1].price : null;
+    const openPositionBnb = endPrice !== null ? (tokensHeld * endPrice) / costs.bnbPriceUsd : 0;
+    const pnlBnb = bnbReturned + openPositionBnb - bnbInvested;
+
+    return {
+        fills,
+        finalStatus: status,
+        pricePoints: points.length,
+        startPrice: points.length > 0 ? points[0].price : null,
+        endPrice,
+        bnbInvested,
+        bnbReturned,
+        openPositionBnb,
+        pnlBnb,
+        pnlPercent: bnbInvested > 0 ? (pnlBnb / bnbInvested) * 100 : 0,
+        maxDrawdownPercent: maxDrawdown * 100,
+        slippageCostBnb,
+        gasCostBnb
+    };
+}
@@ -0,0 +1,49 @@
+/**
+ * Subset of TrackedToken fields needed to evaluate entry conditions
+ */
+export interface EntryRuleState {
+    priceEntryTarget?: number;
+    marketCapEntryTarget?: number;
+    entryAmountBNB?: number;
+    entryAmountUSD?: number;
+}
+
+/**
+ * Whether the rule has an entry target and an amount to buy
+ */
+export function hasEntryRule(rule: EntryRuleState): boolean {
+    const entryAmount = rule.entryAmountBNB || rule.entryAmountUSD;
+    return !!((rule.priceEntryTarget && entryAmount) || (rule.marketCapEntryTarget && entryAmount));
+}
+
+/**
+ * Evaluate the entry condition at the given price.
+ *
+ * A price target above the reference price waits for the price to rise to it, a
+ * target at or below the reference waits for a dip to it. The reference is the
+ * price the move started from (the last price the monitor compared against), so
+ * the entry fires once the price reaches the target from either side. Market cap
+ * targets (deprecated) trigger once the market cap reaches the target.
+ */
+export function isEntryConditionMet(
+    rule: EntryRuleState,
+    currentPrice: number,
+    referencePrice: number,
+    currentMarketCap: number
+): boolean {
+    if (!hasEntryRule(rule)) {
+        return false;
+    }
+
+    if (rule.priceEntryTarget) {
+        return rule.priceEntryTarget > referencePrice
+            ? currentPrice >= rule.priceEntryTarget
+            : currentPrice <= rule.priceEntryTarget;
+    }
+
+    if (rule.marketCapEntryTarget) {
+        return currentMarketCap >= rule.marketCapEntryTarget;
+    }
+
+    return false;
+}
@@ -0,0 +1,134 @@
+import type { TakeProfitLevel } from '@/database/models/TrackedToken';
+
+/**
+ * Subset of TrackedToken fields needed to evaluate exit conditions
+ */
+export interface ExitRuleState {
+    takeProfitPrice?: number;
+    stopLossPrice?: number;
+    takeProfitLevels?: TakeProfitLevel[];
+    trailingStopPercent?: number;
+    highestPriceSinceEntry?: number;
+    soldPercentage?: number;
+}
+
+export type ExitReason = 'take_profit' | 'take_profit_level' | 'stop_loss' | 'trailing_stop';
+
+export interface ExitDecision {
+    shouldSell: boolean;
+    reason?: ExitReason;
+    percentageOfHoldings: number; // Percentage of the *current* holdings to sell
+    percentageOfPosition: number; // Percentage of the *original* position this sale represents
+    levelIndexes: number[]; // Take profit levels triggered by this decision
+    highestPrice: number; // Updated peak price since entry
+    trailingStopPrice?: number; // Price at which the trailing stop fires
+}
+
+/**
+ * Evaluate exit rules for an open position at the given price.
+ *
+ * Take profit levels sell a share of the original position, so the amount is
+ * converted into a percentage of what is still held. Stop loss, trailing stop
+ * and the legacy single take profit always sell everything that is left.
+ */
+export function evaluateExitRules(rule: ExitRuleState, currentPrice: number): ExitDecision {
+    const highestPrice = Math.max(rule.highestPriceSinceEntry || 0, currentPrice);
+    const soldPercentage = Math.min(rule.soldPercentage || 0, 100);
+    const remainingPercentage = 100 - soldPercentage;
+
+    const trailingStopPrice = rule.trailingStopPercent && highestPrice > 0
+        ? highestPrice * (1 - rule.trailingStopPercent / 100)
+        : undefined;
+
+    const noSell: ExitDecision = {
+        shouldSell: false,
+        percentageOfHoldings: 0,
+        percentageOfPosition: 0,
+        levelIndexes: [],
+        highestPrice,
+        trailingStopPrice
+    };
+
+    if (remainingPercentage <= 0) {
+        return noSell;
+    }
+
+    const sellAll = (reason: ExitReason): ExitDecision => ({
+        ...noSell,
+        shouldSell: true,
+        reason,
+        percentageOfHoldings: 100,
+        percentageOfPosition: remainingPercentage
+    });
+
+    // Laddered take profit: sell every level that has been reached but not yet executed
+    const triggeredLevels = (rule.takeProfitLevels || [])
+        .map((level, index) => ({ level, index }))
+        .filter(({ level }) => !level.executed && currentPrice >= level.price);
+
+    if (triggeredLevels.length > 0) {
+        const requested = triggeredLevels.reduce((sum, { level }) => sum + level.sellPercentage, 0);
+        const percentageOfPosition = Math.min(requested, remainingPercentage);
+        // Sell everything once the ladder covers what is left so rounding never leaves dust behind
+        const percentageOfHoldings = percentageOfPosition >= remainingPercentage - 0.0001
+            ? 100
+            : (percentageOfPosition / remainingPercentage) * 100;
+
+        return {
+            ...noSell,
+            shouldSell: true,
+            reason: 'take_profit_level',
+            percentageOfHoldings,
+            percentageOfPosition,
+            levelIndexes: triggeredLevels.map(t => t.index)
+        };
+    }
+
+    if (rule.takeProfitPrice && currentPrice >= rule.takeProfitPrice) {
+        return sellAll('take_profit');
+    }
+
+    if (rule.stopLossPrice && currentPrice <= rule.stopLossPrice) {
+        return sellAll('stop_loss');
+    }
+
+    if (trailingStopPrice !== undefined && currentPrice <= trailingStopPrice) {
+        return sellAll('trailing_stop');
+    }
+
+    return noSell;
+}
+
+/**
+ * Validate a take profit ladder before saving it
+ */
+export function validateTakeProfitLevels(levels: TakeProfitLevel[]): string | null {
+    for (const level of levels) {
+        if (!(level.price > 0)) {
+            return 'Take profit price must be a positive number';
+        }
+        if (!(level.sellPercentage > 0) || level.sellPercentage > 100) {
+            return 'Sell percentage must be between 0 and 100';
+        }
+    }
+
+    const total = levels.reduce((sum, level) => sum + level.sellPercentage, 0);
+    if (total > 100) {
+        return `Take profit levels sell ${total}% in total, the maximum is 100%`;
+    }
+
+    return null;
+}
+
+/**
+ * Human-readable label for an exit reason
+ */
+export function formatExitReason(reason: ExitReason | string): string {
+    switch (reason) {
+        case 'take_profit': return 'Take Profit';
+        case 'take_profit_level': return 'Take Profit Level';
+        case 'stop_loss': return 'Stop Loss';
+        case 'trailing_stop': return 'Trailing Stop';
+        default: return reason;
+    }
+}
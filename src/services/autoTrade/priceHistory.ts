@@ -0,0 +1,161 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { PriceSampleModel } from '@/database/models/PriceSample';
+import type { PricePoint, PriceCandle } from './backtester';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('services.autoTrade.priceHistory');
+
+/**
+ * A V2 pair Sync event (reserves after a swap)
+ */
+export interface SyncEventRecord {
+    timestamp: number;
+    reserve0: string;
+    reserve1: string;
+}
+
+/**
+ * How to turn pair reserves into a USD token price
+ */
+export interface SyncPriceConversion {
+    isToken0: boolean; // Whether the priced token is token0 of the pair
+    tokenDecimals: number;
+    quoteDecimals: number;
+    quotePriceUsd: number; // 1 for stablecoin pairs, the BNB price for WBNB pairs
+}
+
+/**
+ * Convert Sync events into USD prices for the tracked token
+ */
+export function syncEventsToPricePoints(events: SyncEventRecord[], conversion: SyncPriceConversion): PricePoint[] {
+    const points: PricePoint[] = [];
+    for (const event of events) {
+        const [tokenReserve, quoteReserve] = conversion.isToken0
+            ? [event.reserve0, event.reserve1]
+            : [event.reserve1, event.reserve0];
+        const tokenAmount = parseFloat(ethers.formatUnits(BigInt(tokenReserve), conversion.tokenDecimals));
+        const quoteAmount = parseFloat(ethers.formatUnits(BigInt(quoteReserve), conversion.quoteDecimals));
+        if (tokenAmount > 0 && quoteAmount > 0) {
+            points.push({
+                timestamp: normalizeTimestamp(event.timestamp),
+                price: (quoteAmount / tokenAmount) * conversion.quotePriceUsd
+            });
+        }
+    }
+    return points.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Accept unix seconds, unix milliseconds or ISO dates
+ */
+function normalizeTimestamp(value: number | string): number {
+    if (typeof value === 'number' || /^\d+(\.\d+)?$/.test(value)) {
+        const numeric = Number(value);
+        return numeric < 1e12 ? numeric * 1000 : numeric;
+    }
+    const parsed = Date.parse(value);
+    if (isNaN(parsed)) {
+        throw new Error(`Invalid timestamp: ${value}`);
+    }
+    return parsed;
+}
+
+function toSeries(rows: Record<string, any>[], conversion?: SyncPriceConversion): PricePoint[] | PriceCandle[] {
+    if (rows.length === 0) return [];
+    const first = rows[0];
+
+    if ('close' in first) {
+        return rows.map(row => ({
+            timestamp: normalizeTimestamp(row.timestamp),
+            open: Number(row.open),
+            high: Number(row.high),
+            low: Number(row.low),
+            close: Number(row.close)
+        }));
+    }
+
+    if ('price' in first) {
+        return rows.map(row => ({
+            timestamp: normalizeTimestamp(row.timestamp),
+            price: Number(row.price)
+        }));
+    }
+
+    if ('reserve0' in first && 'reserve1' in first) {
+        if (!conversion) {
+            throw new Error('Sync events need token/quote decimals and the quote price to be converted to USD');
+        }
+        return syncEventsToPricePoints(rows.map(row => ({
+            timestamp: row.timestamp,
+            reserve0: String(row.reserve0),
+            reserve1: String(row.reserve1)
+        })), conversion);
+    }
+
+    throw new Error('Unrecognized price data: expected open/high/low/close, price or reserve0/reserve1 columns');
+}
+
+/**
+ * Parse candles, price points or Sync events from CSV (with a header row) or a JSON array
+ */
+export function parsePriceSeries(content: string, format: 'csv' | 'json', conversion?: SyncPriceConversion): PricePoint[] | PriceCandle[] {
+    if (format === 'json') {
+        const rows = JSON.parse(content);
+        if (!Array.isArray(rows)) {
+            throw new Error('JSON price data must be an array');
+        }
+        return toSeries(rows, conversion);
+    }
+
+    const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+    if (lines.length < 2) return [];
+
+    const headers = lines[0].split(',').map(header => header.trim().toLowerCase());
+    const rows = lines.slice(1).map(line => {
+        const values = line.split(',');
+        return Object.fromEntries(headers.map((header, index) => [header, values[index]?.trim()]));
+    });
+    return toSeries(rows, conversion);
+}
+
+/**
+ * Load a price series from a local .csv or .json file
+ */
+export async function loadPriceSeriesFromFile(filePath: string, conversion?: SyncPriceConversion): Promise<PricePoint[] | PriceCandle[]> {
+    const content = await fs.readFile(filePath, 'utf8');
+    const format = path.extname(filePath).toLowerCase() === '.json' ? 'json' : 'csv';
+    return parsePriceSeries(content, format, conversion);
+}
+
+/**
+ * Load prices the monitor recorded for a token
+ */
+export async function loadRecordedPrices(tokenAddress: string, since: Date, until: Date = new Date()): Promise<PricePoint[]> {
+    const samples = await PriceSampleModel.find({
+        tokenAddress: tokenAddress.toLowerCase(),
+        timestamp: { $gte: since, $lte: until }
+    })
+        .sort({ timestamp: 1 })
+        .select('price timestamp')
+        .lean();
+
+    return samples.map(sample => ({ timestamp: sample.timestamp.getTime(), price: sample.price }));
+}
+
+/**
+ * Store a price seen by the monitor so rules can be backtested later
+ */
+export async function recordPriceSample(tokenAddress: string, price: number): Promise<void> {
+    try {
+        await PriceSampleModel.create({
+            tokenAddress: tokenAddress.toLowerCase(),
+            price,
+            timestamp: new Date(),
+            source: 'monitor'
+        });
+    } catch (error) {
+        logger.warn('Failed to record price sample', { error, tokenAddress });
+    }
+}
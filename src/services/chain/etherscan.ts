@@ -0,0 +1,44 @@
+import axios from 'axios';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('chain.etherscan');
+
+const ETHERSCAN_V2_URL = 'https://api.etherscan.io/v2/api';
+const BSC_CHAIN_ID = 56;
+
+export function getEtherscanApiKey(): string {
+  return process.env.ETHERSCAN_API_KEY || process.env.BSCSCAN_API_KEY || '';
+}
+
+/**
+ * Call the Etherscan V2 API for BSC. Returns an empty list when there is nothing to
+ * report and null when the request failed, so callers can tell the two apart.
+ */
+export async function etherscanRequest<T>(params: Record<string, string | number>, apiKey: string = getEtherscanApiKey()): Promise<T[] | null> {
+  if (!apiKey) {
+    return null;
+  }
+
+  try {
+    const response = await axios.get(ETHERSCAN_V2_URL, {
+      params: { chainid: BSC_CHAIN_ID, ...params, apikey: apiKey },
+      timeout: 15000
+    });
+
+    if (response.data.status === '1' && Array.isArray(response.data.result)) {
+      return response.data.result;
+    }
+    if (typeof response.data.message === 'string' && response.data.message.startsWith('No ')) {
+      return []; // "No transactions found" / "No records found"
+    }
+
+    logger.warn('Etherscan request failed', { action: params.action, message: response.data.message, result: response.data.result });
+    return null;
+  } catch (error) {
+    logger.error('Etherscan request error', {
+      action: params.action,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
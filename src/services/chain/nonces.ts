@@ -0,0 +1,31 @@
+import { etherscanRequest, getEtherscanApiKey } from './etherscan';
+
+const NONCE_LOOKUP_TXS = 1000; // Newest transactions of the sender searched for a nonce
+
+/**
+ * Whether findTransactionByNonce can answer at all. Payout and purchase settlement need it to
+ * tell a replaced transaction from a receipt the RPC node hasn't served yet.
+ */
+export function canLookUpNonces(): boolean {
+  return !!getEtherscanApiKey();
+}
+
+/**
+ * Hash of the mined transaction that used a nonce of the sender, from its Etherscan history.
+ * null when Etherscan doesn't show one: not mined, not indexed yet, older than the newest
+ * transactions searched, no ETHERSCAN_API_KEY, or the request failed.
+ */
+export async function findTransactionByNonce(sender: string, nonce: number): Promise<string | null> {
+  const transactions = await etherscanRequest<{ hash: string; from: string; nonce: string }>({
+    module: 'account',
+    action: 'txlist',
+    address: sender,
+    startblock: 0,
+    endblock: 99999999,
+    page: 1,
+    offset: NONCE_LOOKUP_TXS,
+    sort: 'desc'
+  });
+  const used = transactions?.find(tx => tx.from.toLowerCase() === sender.toLowerCase() && Number(tx.nonce) === nonce);
+  return used ? used.hash.toLowerCase() : null;
+}
@@ -0,0 +1,384 @@
+import { ethers } from 'ethers';
+import { Markup } from 'telegraf';
+import { DocumentType } from '@typegoose/typegoose';
+import { WalletWatchModel, WalletWatch, CopyTradeMode } from '@/database/models/WalletWatch';
+import { CopyTradeModel, CopyTrade, CopyTradeSide, CopyTradeStatus } from '@/database/models/CopyTrade';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('services.copyTrade');
+
+// Copied buys smaller than this are skipped, gas would eat most of them
+const MIN_COPY_BUY_BNB = 0.001;
+// Sells of at least this share of the source position are copied as a full exit
+const FULL_EXIT_THRESHOLD = 99;
+
+export interface CopyTradeSettings {
+  enabled: boolean;
+  mode: CopyTradeMode;
+  fixedBnb: number;
+  percent: number;
+  dailyCapBnb?: number;
+  blacklist: string[];
+  minSafetyScore: number;
+}
+
+// Preset values offered in the copy-trade menu
+export const COPY_TRADE_OPTIONS = {
+  size: [0.01, 0.05, 0.1, 0.5],
+  percent: [5, 10, 25, 50, 100],
+  cap: [0.1, 0.5, 1, 5],
+  score: [0, 50, 60, 70, 80]
+};
+
+/**
+ * A swap made by a watched wallet, as decoded by the wallet tracking monitor
+ */
+export interface SourceTrade {
+  sourceWallet: string;
+  txHash: string;
+  side: CopyTradeSide;
+  tokenAddress: string;
+  tokenSymbol?: string;
+  amount: string; // BNB spent for buys, tokens sold for sells
+}
+
+export function getCopyTradeSettings(watch: Pick<WalletWatch, 'copyTradeEnabled' | 'copyTradeMode' | 'copyTradeFixedBnb' | 'copyTradePercent' | 'copyTradeDailyCapBnb' | 'copyTradeBlacklist' | 'copyTradeMinSafetyScore'>): CopyTradeSettings {
+  return {
+    enabled: !!watch.copyTradeEnabled,
+    mode: watch.copyTradeMode || 'fixed',
+    fixedBnb: watch.copyTradeFixedBnb ?? 0.05,
+    percent: watch.copyTradePercent ?? 10,
+    dailyCapBnb: watch.copyTradeDailyCapBnb ?? undefined,
+    blacklist: (watch.copyTradeBlacklist || []).map(token => token.toLowerCase()),
+    minSafetyScore: watch.copyTradeMinSafetyScore ?? 60
+  };
+}
+
+/**
+ * Turn a copy-trade menu selection into a WalletWatch update, or null if the value isn't allowed
+ */
+export function parseCopyTradeUpdate(field: string, value: string): Record<string, string | number | null> | null {
+  const numeric = parseFloat(value);
+
+  switch (field) {
+    case 'mode':
+      return value === 'fixed' || value === 'proportional' ? { copyTradeMode: value } : null;
+    case 'size':
+      return numeric >= MIN_COPY_BUY_BNB && numeric <= 10 ? { copyTradeFixedBnb: numeric } : null;
+    case 'percent':
+      return numeric > 0 && numeric <= 100 ? { copyTradePercent: numeric } : null;
+    case 'cap':
+      if (value === 'off') return { copyTradeDailyCapBnb: null };
+      return numeric > 0 && numeric <= 100 ? { copyTradeDailyCapBnb: numeric } : null;
+    case 'score':
+      return Number.isInteger(numeric) && numeric >= 0 && numeric <= 100 ? { copyTradeMinSafetyScore: numeric } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * BNB to spend on a copied buy: the fixed size or a share of the source amount,
+ * limited by what is left of the daily cap
+ */
+export function computeCopyBuyAmount(settings: CopyTradeSettings, sourceBnb: number, spentToday: number): { amount: number; reason?: string } {
+  let amount = settings.mode === 'proportional'
+    ? (sourceBnb * settings.percent) / 100
+    : settings.fixedBnb;
+
+  if (settings.dailyCapBnb !== undefined) {
+    // Rounded so float error in the sum of earlier buys doesn't shave the last one
+    const remaining = Math.round((settings.dailyCapBnb - spentToday) * 1e8) / 1e8;
+    if (remaining < MIN_COPY_BUY_BNB) {
+      return { amount: 0, reason: `Daily cap of ${settings.dailyCapBnb} BNB reached` };
+    }
+    amount = Math.min(amount, remaining);
+  }
+
+  if (!(amount >= MIN_COPY_BUY_BNB)) {
+    return { amount: 0, reason: `Copy size below the ${MIN_COPY_BUY_BNB} BNB minimum` };
+  }
+
+  return { amount: Math.floor(amount * 1e8) / 1e8 };
+}
+
+/**
+ * Share of the copied position to sell, mirroring the share of its position the source wallet sold.
+ * Both amounts must be in the same units; the source balance is read after its sell.
+ */
+export function computeCopySellPercentage(sourceSold: number, sourceRemaining: number): number {
+  const sourcePosition = sourceSold + Math.max(0, sourceRemaining);
+  if (!(sourceSold > 0) || !(sourcePosition > 0)) return 0;
+
+  const percentage = (sourceSold / sourcePosition) * 100;
+  return percentage >= FULL_EXIT_THRESHOLD ? 100 : Math.round(percentage * 100) / 100;
+}
+
+export function getUtcDayStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export class CopyTradeService {
+  private static provider?: ethers.JsonRpcProvider;
+
+  /**
+   * Mirror a swap made by a watched wallet for every watcher that enabled copy-trading on it.
+   * Called by the wallet tracking monitor after it has notified the watchers.
+   */
+  static async handleSourceTrade(trade: SourceTrade): Promise<void> {
+    const watches = await WalletWatchModel.find({
+      walletAddress: trade.sourceWallet.toLowerCase(),
+      isActive: true,
+      copyTradeEnabled: true
+    });
+    if (watches.length === 0) return;
+
+    try {
+      // Transactions are picked up from blocks, reverted swaps included
+      const receipt = await this.getProvider().getTransactionReceipt(trade.txHash);
+      if (receipt && receipt.status === 0) {
+        logger.info('Source swap reverted, not copying', { txHash: trade.txHash });
+        return;
+      }
+    } catch (error) {
+      logger.warn('Could not check source swap receipt', { error, txHash: trade.txHash });
+    }
+
+    // Shared across watchers so the token is analysed and the source balance read once
+    let safetyScore: Promise<number | null> | undefined;
+    let sellPercentage: Promise<number> | undefined;
+
+    for (const watch of watches) {
+      try {
+        // The unique (watchId, sourceTxHash) index lets only one pass copy each source swap
+        const claim = await this.claimTrade(watch, trade);
+        if (!claim) continue;
+
+        if (trade.side === 'buy') {
+          await this.copyBuy(watch, trade, claim, () => safetyScore ??= this.getSafetyScore(trade.tokenAddress));
+        } else {
+          await this.copySell(watch, trade, claim, () => sellPercentage ??= this.getSourceSellPercentage(trade));
+        }
+      } catch (error) {
+        // A claim left pending keeps counting against the daily cap, the safe side if a swap went out
+        logger.error('Error copying trade', { error, watchId: watch._id.toString(), txHash: trade.txHash });
+      }
+    }
+  }
+
+  /**
+   * Copied trades of a watch, newest first
+   */
+  static async getCopyTrades(watchId: string, limit = 10): Promise<DocumentType<CopyTrade>[]> {
+    return CopyTradeModel.find({ watchId }).sort({ createdAt: -1 }).limit(limit);
+  }
+
+  /**
+   * BNB spent on copied buys through a watch since the start of the UTC day, buys still in
+   * progress included
+   */
+  static async getSpentToday(watchId: string, now: Date = new Date()): Promise<number> {
+    const buys = await CopyTradeModel.find({
+      watchId,
+      side: 'buy',
+      status: { $in: ['pending', 'executed'] },
+      createdAt: { $gte: getUtcDayStart(now) }
+    }).select('amount').lean();
+
+    return buys.reduce((total, buy) => total + parseFloat(buy.amount || '0'), 0);
+  }
+
+  private static async copyBuy(
+    watch: DocumentType<WalletWatch>,
+    trade: SourceTrade,
+    claim: DocumentType<CopyTrade>,
+    getSafetyScore: () => Promise<number | null>
+  ): Promise<void> {
+    const settings = getCopyTradeSettings(watch);
+    const watchId = watch._id.toString();
+
+    if (settings.blacklist.includes(trade.tokenAddress.toLowerCase())) {
+      await this.finishTrade(claim, 'skipped', { reason: 'Token is blacklisted' });
+      return;
+    }
+
+    if (settings.minSafetyScore > 0) {
+      const score = await getSafetyScore();
+      if (score === null || score < settings.minSafetyScore) {
+        const reason = score === null
+          ? 'Safety score unavailable'
+          : `Safety score ${score}/100 is below your minimum of ${settings.minSafetyScore}`;
+        const record = await this.finishTrade(claim, 'skipped', { reason });
+        await this.notify(watch, record);
+        return;
+      }
+    }
+
+    const sizing = computeCopyBuyAmount(settings, parseFloat(trade.amount), await this.getSpentToday(watchId));
+    if (sizing.amount <= 0) {
+      const record = await this.finishTrade(claim, 'skipped', { reason: sizing.reason });
+      await this.notify(watch, record);
+      return;
+    }
+
+    // Reserve the amount before swapping so copies running at the same time see it against the cap
+    const amount = sizing.amount.toString();
+    await CopyTradeModel.updateOne({ _id: claim._id }, { amount });
+    if (settings.dailyCapBnb !== undefined && await this.getSpentToday(watchId) > settings.dailyCapBnb + 1e-8) {
+      await CopyTradeModel.updateOne({ _id: claim._id }, { $unset: { amount: 1 } });
+      const record = await this.finishTrade(claim, 'skipped', { reason: `Daily cap of ${settings.dailyCapBnb} BNB reached` });
+      await this.notify(watch, record);
+      return;
+    }
+
+    const { TradingService } = await import('@/services/trading');
+    const result = await new TradingService().executeAutoBuy(watch.telegramId, trade.tokenAddress, amount, { source: 'copy_trade', ruleId: watchId });
+
+    const record = result.success
+      ? await this.finishTrade(claim, 'executed', { amount, txHash: result.txHash, received: result.tokensReceived, reason: result.warning })
+      : await this.finishTrade(claim, 'failed', { amount, reason: result.error || 'Swap execution failed' });
+
+    logger.info('Copy buy processed', { watchId, userId: watch.telegramId, txHash: trade.txHash, amount, status: record.status });
+    await this.notify(watch, record);
+  }
+
+  private static async copySell(
+    watch: DocumentType<WalletWatch>,
+    trade: SourceTrade,
+    claim: DocumentType<CopyTrade>,
+    getSellPercentage: () => Promise<number>
+  ): Promise<void> {
+    const settings = getCopyTradeSettings(watch);
+    const watchId = watch._id.toString();
+
+    if (settings.blacklist.includes(trade.tokenAddress.toLowerCase())) {
+      await this.finishTrade(claim, 'skipped', { reason: 'Token is blacklisted' });
+      return;
+    }
+
+    // Most sells are of tokens the watcher never bought, those are logged but not notified
+    const { UserService } = await import('@/services/user');
+    const tradingWalletAddress = await UserService.getTradingWalletAddress(watch.telegramId);
+    const position = tradingWalletAddress ? await this.getTokenBalance(trade.tokenAddress, tradingWalletAddress) : 0n;
+    if (position === 0n) {
+      await this.finishTrade(claim, 'skipped', { reason: 'No position in this token' });
+      return;
+    }
+
+    const percentage = await getSellPercentage();
+    if (percentage <= 0) {
+      await this.finishTrade(claim, 'skipped', { reason: 'Could not size the sell' });
+      return;
+    }
+
+    const { TradingService } = await import('@/services/trading');
+    const result = await new TradingService().executeAutoSell(watch.telegramId, trade.tokenAddress, percentage, { source: 'copy_trade', ruleId: watchId });
+
+    const record = result.success
+      ? await this.finishTrade(claim, 'executed', { sellPercentage: percentage, txHash: result.txHash, received: result.tokensReceived })
+      : await this.finishTrade(claim, 'failed', { sellPercentage: percentage, reason: 'Swap execution failed' });
+
+    logger.info('Copy sell processed', { watchId, userId: watch.telegramId, txHash: trade.txHash, percentage, status: record.status });
+    await this.notify(watch, record);
+  }
+
+  private static async getSafetyScore(tokenAddress: string): Promise<number | null> {
+    try {
+      const { TokenAnalyzer } = await import('@/services/rugAlerts/tokenAnalyzer');
+      const analysis = await new TokenAnalyzer().analyzeToken(tokenAddress);
+      return analysis ? analysis.safetyScore : null;
+    } catch (error) {
+      logger.warn('Could not score token for copy trade', { error, tokenAddress });
+      return null;
+    }
+  }
+
+  private static async getSourceSellPercentage(trade: SourceTrade): Promise<number> {
+    // The decoder formats token amounts with 18 decimals, so the balance is formatted the same way
+    const remaining = await this.getTokenBalance(trade.tokenAddress, trade.sourceWallet);
+    return computeCopySellPercentage(parseFloat(trade.amount), parseFloat(ethers.formatEther(remaining)));
+  }
+
+  private static async getTokenBalance(tokenAddress: string, walletAddress: string): Promise<bigint> {
+    const token = new ethers.Contract(tokenAddress, ['function balanceOf(address) view returns (uint256)'], this.getProvider());
+    return token.balanceOf(walletAddress);
+  }
+
+  /**
+   * Insert the pending record of a copy, or null if another pass already claimed this source swap
+   */
+  private static async claimTrade(watch: DocumentType<WalletWatch>, trade: SourceTrade): Promise<DocumentType<CopyTrade> | null> {
+    try {
+      return await CopyTradeModel.create({
+        telegramId: watch.telegramId,
+        watchId: watch._id.toString(),
+        sourceWallet: trade.sourceWallet,
+        sourceTxHash: trade.txHash,
+        tokenAddress: trade.tokenAddress,
+        tokenSymbol: trade.tokenSymbol,
+        side: trade.side,
+        sourceAmount: trade.amount,
+        status: 'pending'
+      });
+    } catch (error: any) {
+      if (error?.code === 11000) return null;
+      throw error;
+    }
+  }
+
+  private static async finishTrade(
+    claim: DocumentType<CopyTrade>,
+    status: CopyTradeStatus,
+    details: Partial<Pick<CopyTrade, 'amount' | 'sellPercentage' | 'txHash' | 'received' | 'reason'>>
+  ): Promise<DocumentType<CopyTrade>> {
+    const record = await CopyTradeModel.findByIdAndUpdate(claim._id, { status, ...details }, { new: true });
+    return record || claim;
+  }
+
+  private static async notify(watch: DocumentType<WalletWatch>, record: DocumentType<CopyTrade>): Promise<void> {
+    try {
+      const bot = (globalThis as any).botExport;
+      if (!bot) return;
+
+      const source = watch.alias || `${watch.walletAddress.slice(0, 6)}...${watch.walletAddress.slice(-4)}`;
+      const token = record.tokenSymbol || `${record.tokenAddress.slice(0, 6)}...${record.tokenAddress.slice(-4)}`;
+      const title = record.status === 'executed'
+        ? `✅ **Copy ${record.side === 'buy' ? 'Buy' : 'Sell'} Executed**`
+        : record.status === 'failed'
+          ? `❌ **Copy ${record.side === 'buy' ? 'Buy' : 'Sell'} Failed**`
+          : `⏭️ **Copy ${record.side === 'buy' ? 'Buy' : 'Sell'} Skipped**`;
+
+      let message = `${title}\n\n`;
+      message += `**Source:** ${source}\n`;
+      message += `**Token:** ${token}\n`;
+      message += record.side === 'buy'
+        ? `**Source Buy:** ${parseFloat(record.sourceAmount).toPrecision(4)} BNB\n`
+        : `**Source Sell:** ${parseFloat(record.sourceAmount).toPrecision(6)} ${token}\n`;
+      if (record.amount && record.side === 'buy') message += `**Your Buy:** ${record.amount} BNB\n`;
+      if (record.sellPercentage) message += `**Your Sell:** ${record.sellPercentage}% of position\n`;
+      if (record.reason) message += `**${record.status === 'executed' ? 'Note' : 'Reason'}:** ${record.reason}\n`;
+      message += `\n🔗 [Source Tx](https://bscscan.com/tx/${record.sourceTxHash})`;
+      if (record.txHash) message += ` • [Your Tx](https://bscscan.com/tx/${record.txHash})`;
+
+      await bot.telegram.sendMessage(watch.telegramId, message, {
+        parse_mode: 'Markdown',
+        disable_web_page_preview: true,
+        reply_markup: {
+          inline_keyboard: [[
+            Markup.button.callback('🚫 Blacklist Token', `ct_bl_${record._id}`),
+            Markup.button.callback('📜 Copy Log', `ct_log_${watch._id}`)
+          ]]
+        }
+      });
+    } catch (error) {
+      logger.error('Error sending copy trade notification', { error, telegramId: watch.telegramId });
+    }
+  }
+
+  private static getProvider(): ethers.JsonRpcProvider {
+    if (!this.provider) {
+      this.provider = new ethers.JsonRpcProvider(process.env.BSC_RPC_URL || 'https://bsc-dataseed1.binance.org/');
+    }
+    return this.provider;
+  }
+}
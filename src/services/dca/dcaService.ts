@@ -0,0 +1,168 @@
+import { DocumentType } from '@typegoose/typegoose';
+import { DcaScheduleModel, DcaExecution, DcaSchedule } from '@/database/models/DcaSchedule';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('services.dca');
+
+export const DCA_MIN_INTERVAL_HOURS = 1;
+export const DCA_MAX_DURATION_DAYS = 90;
+
+export interface DcaReport {
+  buysExecuted: number;
+  buysFailed: number;
+  totalBnbSpent: number;
+  totalTokensBought: number;
+  averageEntryPriceBnb: number | null; // BNB paid per token
+  averageEntryPriceUsd: number | null; // USD paid per token, from BNB price at each buy
+}
+
+export interface CreateDcaScheduleParams {
+  telegramId: number;
+  tokenAddress: string;
+  tokenSymbol: string;
+  bnbAmountPerBuy: string;
+  intervalHours: number;
+  durationDays: number;
+}
+
+/**
+ * Build the running report for a schedule from its execution history
+ */
+export function computeDcaReport(executions: DcaExecution[]): DcaReport {
+  let buysExecuted = 0;
+  let buysFailed = 0;
+  let totalBnbSpent = 0;
+  let totalTokensBought = 0;
+  let totalUsdSpent = 0;
+  let tokensWithUsdPrice = 0;
+
+  for (const execution of executions) {
+    if (!execution.success) {
+      buysFailed++;
+      continue;
+    }
+
+    const bnbSpent = parseFloat(execution.bnbSpent) || 0;
+    const tokensReceived = parseFloat(execution.tokensReceived || '0') || 0;
+
+    buysExecuted++;
+    totalBnbSpent += bnbSpent;
+    totalTokensBought += tokensReceived;
+
+    if (execution.bnbPriceUsd && tokensReceived > 0) {
+      totalUsdSpent += bnbSpent * execution.bnbPriceUsd;
+      tokensWithUsdPrice += tokensReceived;
+    }
+  }
+
+  return {
+    buysExecuted,
+    buysFailed,
+    totalBnbSpent,
+    totalTokensBought,
+    averageEntryPriceBnb: totalTokensBought > 0 ? totalBnbSpent / totalTokensBought : null,
+    averageEntryPriceUsd: tokensWithUsdPrice > 0 ? totalUsdSpent / tokensWithUsdPrice : null
+  };
+}
+
+/**
+ * Maximum number of buys a schedule makes over its whole duration.
+ * The first buy runs on the first scheduler tick after creation and no buy is scheduled
+ * at or after the end time.
+ */
+export function getPlannedBuyCount(intervalHours: number, durationDays: number): number {
+  return Math.ceil((durationDays * 24) / intervalHours);
+}
+
+export class DcaService {
+  /**
+   * Create a new DCA schedule. The first buy runs on the next scheduler tick.
+   */
+  static async createSchedule(params: CreateDcaScheduleParams): Promise<DocumentType<DcaSchedule>> {
+    const amount = parseFloat(params.bnbAmountPerBuy);
+    if (isNaN(amount) || amount <= 0) {
+      throw new Error('Amount per buy must be a positive number');
+    }
+    if (!(params.intervalHours >= DCA_MIN_INTERVAL_HOURS)) {
+      throw new Error(`Interval must be at least ${DCA_MIN_INTERVAL_HOURS} hour`);
+    }
+    if (!(params.durationDays > 0) || params.durationDays > DCA_MAX_DURATION_DAYS) {
+      throw new Error(`Duration must be between 1 and ${DCA_MAX_DURATION_DAYS} days`);
+    }
+
+    const now = new Date();
+    const schedule = await DcaScheduleModel.create({
+      telegramId: params.telegramId,
+      tokenAddress: params.tokenAddress.toLowerCase(),
+      tokenSymbol: params.tokenSymbol,
+      bnbAmountPerBuy: params.bnbAmountPerBuy,
+      intervalHours: params.intervalHours,
+      endsAt: new Date(now.getTime() + params.durationDays * 24 * 60 * 60 * 1000),
+      nextRunAt: now,
+      status: 'active'
+    });
+
+    logger.info('DCA schedule created', {
+      scheduleId: schedule._id.toString(),
+      telegramId: params.telegramId,
+      tokenAddress: params.tokenAddress,
+      bnbAmountPerBuy: params.bnbAmountPerBuy,
+      intervalHours: params.intervalHours,
+      durationDays: params.durationDays
+    });
+
+    return schedule;
+  }
+
+  /**
+   * List a user's schedules, optionally for a single token
+   */
+  static async getSchedules(telegramId: number, tokenAddress?: string): Promise<DocumentType<DcaSchedule>[]> {
+    const query: Record<string, any> = {
+      telegramId,
+      status: { $in: ['active', 'paused', 'completed'] }
+    };
+    if (tokenAddress) {
+      query.tokenAddress = tokenAddress.toLowerCase();
+    }
+    return DcaScheduleModel.find(query).sort({ createdAt: -1 }).limit(10);
+  }
+
+  static async getSchedule(telegramId: number, scheduleId: string): Promise<DocumentType<DcaSchedule> | null> {
+    return DcaScheduleModel.findOne({ _id: scheduleId, telegramId });
+  }
+
+  /**
+   * Pause an active schedule
+   */
+  static async pauseSchedule(telegramId: number, scheduleId: string): Promise<boolean> {
+    const result = await DcaScheduleModel.updateOne(
+      { _id: scheduleId, telegramId, status: 'active' },
+      { status: 'paused' }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Resume a paused schedule. The next buy runs on the next scheduler tick.
+   */
+  static async resumeSchedule(telegramId: number, scheduleId: string): Promise<boolean> {
+    const now = new Date();
+    const result = await DcaScheduleModel.updateOne(
+      { _id: scheduleId, telegramId, status: 'paused', endsAt: { $gt: now } },
+      { status: 'active', nextRunAt: now, consecutiveFailures: 0, $unset: { pausedReason: 1 } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Cancel a schedule permanently
+   */
+  static async cancelSchedule(telegramId: number, scheduleId: string): Promise<boolean> {
+    const result = await DcaScheduleModel.updateOne(
+      { _id: scheduleId, telegramId, status: { $in: ['active', 'paused'] } },
+      { status: 'cancelled' }
+    );
+    return result.modifiedCount > 0;
+  }
+}
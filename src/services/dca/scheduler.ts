@@ -0,0 +1,214 @@
+import { DocumentType } from '@typegoose/typegoose';
+import { DcaScheduleModel, DcaSchedule, DcaExecution } from '@/database/models/DcaSchedule';
+import { getBNBPrice } from '@/services/wallet/tokenPriceCache';
+import { computeDcaReport } from './dcaService';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('services.dca.scheduler');
+
+// Pause a schedule after this many failed buys in a row (e.g. empty trading wallet)
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+export class DcaScheduler {
+  private static intervalId: NodeJS.Timeout | null = null;
+  private static isProcessing = false;
+  private static executingSchedules = new Set<string>();
+
+  /**
+   * Start the DCA scheduler
+   */
+  static start(): void {
+    logger.info('Starting DCA scheduler...');
+
+    this.intervalId = setInterval(() => {
+      this.processDueSchedules().catch(error => {
+        logger.error('Error processing DCA schedules', { error });
+      });
+    }, 60 * 1000); // Check every minute
+
+    logger.info('DCA scheduler started successfully');
+  }
+
+  /**
+   * Stop the DCA scheduler
+   */
+  static stop(): void {
+    logger.info('Stopping DCA scheduler...');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    logger.info('DCA scheduler stopped');
+  }
+
+  /**
+   * Run every active schedule whose next buy is due
+   */
+  static async processDueSchedules(): Promise<void> {
+    // Skip this tick if the previous one is still running buys
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      const now = new Date();
+
+      // Close schedules that reached their end date
+      await DcaScheduleModel.updateMany(
+        { status: 'active', endsAt: { $lte: now } },
+        { status: 'completed' }
+      );
+
+      const dueSchedules = await DcaScheduleModel.find({
+        status: 'active',
+        nextRunAt: { $lte: now }
+      }).sort({ nextRunAt: 1 });
+
+      for (const schedule of dueSchedules) {
+        const scheduleId = schedule._id.toString();
+        if (this.executingSchedules.has(scheduleId)) continue;
+
+        this.executingSchedules.add(scheduleId);
+        try {
+          await this.executeScheduledBuy(schedule);
+        } catch (error) {
+          logger.error('Error executing DCA buy', { error, scheduleId });
+        } finally {
+          this.executingSchedules.delete(scheduleId);
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Execute one buy for a schedule and record the result
+   */
+  private static async executeScheduledBuy(schedule: DocumentType<DcaSchedule>): Promise<void> {
+    const scheduleId = schedule._id.toString();
+
+    // Schedule the next buy from now so missed ticks (e.g. downtime) don't fire in a burst.
+    // Claiming the run first means another instance, or a user who paused or cancelled
+    // while earlier buys were running, stops this one before the swap.
+    const nextRunAt = new Date(Date.now() + schedule.intervalHours * 60 * 60 * 1000);
+    const claim = await DcaScheduleModel.updateOne(
+      { _id: schedule._id, status: 'active', nextRunAt: schedule.nextRunAt },
+      { nextRunAt }
+    );
+    if (claim.modifiedCount === 0) return;
+    schedule.nextRunAt = nextRunAt;
+
+    logger.info('Executing DCA buy', {
+      scheduleId,
+      userId: schedule.telegramId,
+      tokenAddress: schedule.tokenAddress,
+      bnbAmount: schedule.bnbAmountPerBuy
+    });
+
+    const { TradingService } = await import('@/services/trading');
+    const tradingService = new TradingService();
+    const result = await tradingService.executeAutoBuy(
+      schedule.telegramId,
+      schedule.tokenAddress,
+      schedule.bnbAmountPerBuy,
+      { source: 'dca', ruleId: scheduleId }
+    );
+
+    const execution: DcaExecution = {
+      executedAt: new Date(),
+      success: result.success,
+      bnbSpent: result.success ? schedule.bnbAmountPerBuy : '0',
+      tokensReceived: result.tokensReceived,
+      txHash: result.txHash,
+      error: result.error
+    };
+
+    if (result.success) {
+      try {
+        execution.bnbPriceUsd = await getBNBPrice();
+      } catch (error) {
+        logger.warn('Failed to get BNB price for DCA report', { error, scheduleId });
+      }
+    }
+
+    const consecutiveFailures = result.success ? 0 : schedule.consecutiveFailures + 1;
+
+    schedule.executions.push(execution);
+    schedule.consecutiveFailures = consecutiveFailures;
+
+    if (nextRunAt >= schedule.endsAt) {
+      schedule.status = 'completed';
+    } else if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+      schedule.status = 'paused';
+      schedule.pausedReason = result.error || 'Repeated buy failures';
+    }
+
+    await DcaScheduleModel.updateOne(
+      { _id: schedule._id },
+      {
+        $push: { executions: execution },
+        consecutiveFailures: schedule.consecutiveFailures
+      }
+    );
+
+    // Only move status forward if the user didn't change it while the buy was in flight
+    if (schedule.status !== 'active') {
+      await DcaScheduleModel.updateOne(
+        { _id: schedule._id, status: 'active' },
+        { status: schedule.status, pausedReason: schedule.pausedReason }
+      );
+    }
+
+    await this.sendDcaNotification(schedule, execution);
+  }
+
+  /**
+   * Notify the user about a DCA buy and the running totals
+   */
+  private static async sendDcaNotification(schedule: DocumentType<DcaSchedule>, execution: DcaExecution): Promise<void> {
+    try {
+      const bot = (globalThis as any).botExport;
+      if (!bot) return;
+
+      const report = computeDcaReport(schedule.executions);
+      let message: string;
+
+      if (execution.success) {
+        const bscscanLink = execution.txHash
+          ? `\n🔗 [View on BSCScan](https://bscscan.com/tx/${execution.txHash})`
+          : '';
+        message = `🔁💰 **DCA Buy Executed**\n\n` +
+          `Bought ${execution.tokensReceived ? `${parseFloat(execution.tokensReceived).toLocaleString()} ` : ''}${schedule.tokenSymbol} for ${schedule.bnbAmountPerBuy} BNB${bscscanLink}\n\n` +
+          `**Buys:** ${report.buysExecuted}\n` +
+          `**Total Spent:** ${report.totalBnbSpent.toFixed(4)} BNB\n` +
+          `**Total Bought:** ${report.totalTokensBought.toLocaleString()} ${schedule.tokenSymbol}\n` +
+          (report.averageEntryPriceUsd !== null ? `**Average Entry:** $${report.averageEntryPriceUsd.toPrecision(6)}\n` : '');
+      } else {
+        message = `🔁❌ **DCA Buy Failed**\n\n` +
+          `Could not buy ${schedule.tokenSymbol} for ${schedule.bnbAmountPerBuy} BNB.\n` +
+          `**Error:** ${execution.error || 'Unknown error'}\n`;
+      }
+
+      if (schedule.status === 'completed') {
+        message += `\n✅ This DCA schedule is now complete.`;
+      } else if (schedule.status === 'paused') {
+        message += `\n⏸️ The schedule was paused after ${MAX_CONSECUTIVE_FAILURES} failed buys in a row. Fix the issue and resume it from the DCA menu.`;
+      } else {
+        message += `\n⏰ Next buy: ${schedule.nextRunAt.toUTCString()}`;
+      }
+
+      await bot.telegram.sendMessage(schedule.telegramId, message, {
+        parse_mode: 'Markdown',
+        disable_web_page_preview: true
+      });
+    } catch (error) {
+      logger.error('Error sending DCA notification', {
+        error,
+        telegramId: schedule.telegramId,
+        scheduleId: schedule._id.toString()
+      });
+    }
+  }
+}
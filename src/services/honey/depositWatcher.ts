@@ -0,0 +1,181 @@
+import { ethers } from 'ethers';
+import { Markup } from 'telegraf';
+import { ChainScanCursorModel } from '@/database/models/ChainScanCursor';
+import { alertAdmins } from '@/services/admin';
+import { createLogger } from '@/utils/logger';
+import { HoneyRechargeService } from './recharge';
+import { HONEY_STABLECOINS, HoneyStablecoinPurchaseService, IncomingStablecoinTransfer } from './stablecoinPurchase';
+
+const log = createLogger('HoneyDepositWatcher');
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+const CONFIRMATIONS = 15; // Blocks a transfer must be buried under before Honey is credited
+const START_LOOKBACK_BLOCKS = 3000; // Scanned on the very first start, when no cursor is stored yet
+const MAX_BLOCK_RANGE = 1000; // Per eth_getLogs call
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const CURSOR_NAME = 'honey_deposits';
+
+/**
+ * Watches stablecoin transfers into the Honey deposit address and credits the purchase
+ * intents they pay for
+ */
+export class HoneyDepositWatcher {
+  private static intervalId: NodeJS.Timeout | null = null;
+  private static isProcessing = false;
+  private static provider: ethers.JsonRpcProvider | null = null;
+
+  /**
+   * Start the deposit watcher
+   */
+  static start(): void {
+    log.info('Starting honey deposit watcher...');
+
+    this.intervalId = setInterval(() => {
+      this.processDeposits().catch(error => {
+        log.error('Error processing honey deposits', { error });
+      });
+    }, CHECK_INTERVAL_MS);
+
+    log.info('Honey deposit watcher started successfully');
+  }
+
+  /**
+   * Stop the deposit watcher
+   */
+  static stop(): void {
+    log.info('Stopping honey deposit watcher...');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    log.info('Honey deposit watcher stopped');
+  }
+
+  /**
+   * Scan confirmed blocks since the last tick for transfers to the deposit address
+   */
+  static async processDeposits(): Promise<void> {
+    // Skip this tick if the previous one is still running
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      await HoneyStablecoinPurchaseService.expireStaleIntents();
+
+      const provider = this.getProvider();
+      const confirmedBlock = (await provider.getBlockNumber()) - CONFIRMATIONS;
+      const cursor = await ChainScanCursorModel.findOne({ name: CURSOR_NAME }).lean();
+      const fromBlock = cursor ? cursor.lastScannedBlock + 1 : confirmedBlock - START_LOOKBACK_BLOCKS;
+      if (fromBlock > confirmedBlock) return;
+
+      for (let start = fromBlock; start <= confirmedBlock; start += MAX_BLOCK_RANGE) {
+        const end = Math.min(start + MAX_BLOCK_RANGE - 1, confirmedBlock);
+        const transfers = await this.getIncomingTransfers(start, end);
+        // A failed transfer throws, so the cursor stays before its range and the next tick retries it.
+        // Transfers credited already are skipped then.
+        for (const transfer of transfers) {
+          await this.handleTransfer(transfer);
+        }
+        await ChainScanCursorModel.updateOne(
+          { name: CURSOR_NAME },
+          { $set: { lastScannedBlock: end, updatedAt: new Date() } },
+          { upsert: true }
+        );
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private static async getIncomingTransfers(fromBlock: number, toBlock: number): Promise<IncomingStablecoinTransfer[]> {
+    const depositTopic = ethers.zeroPadValue(HoneyRechargeService.MAIN_DEPOSIT_ADDRESS.toLowerCase(), 32);
+    const logs = await this.getProvider().getLogs({
+      address: HONEY_STABLECOINS.map(coin => coin.address),
+      topics: [TRANSFER_TOPIC, null, depositTopic],
+      fromBlock,
+      toBlock
+    });
+
+    return logs.map(entry => ({
+      tokenAddress: entry.address.toLowerCase(),
+      from: ethers.getAddress(ethers.dataSlice(entry.topics[1], 12)).toLowerCase(),
+      amount: BigInt(entry.data),
+      txHash: entry.transactionHash,
+      blockNumber: entry.blockNumber
+    }));
+  }
+
+  private static async handleTransfer(transfer: IncomingStablecoinTransfer): Promise<void> {
+    try {
+      // A range is rescanned after a failure, so transfers credited already come round again
+      if (await HoneyStablecoinPurchaseService.isTransferCredited(transfer.txHash)) return;
+
+      const intent = await HoneyStablecoinPurchaseService.findIntentForTransfer(transfer);
+      if (!intent) {
+        await this.alertUnmatchedDeposit(transfer);
+        return;
+      }
+
+      const credited = await HoneyStablecoinPurchaseService.confirmIntent(intent, transfer);
+      if (credited) {
+        await this.notifyUser(intent.telegramId, intent.honeyAmount, `${intent.amountFormatted} ${intent.tokenSymbol}`, transfer.txHash);
+      }
+    } catch (error) {
+      log.error('Error handling stablecoin deposit', { error, txHash: transfer.txHash });
+      throw error;
+    }
+  }
+
+  /**
+   * Someone paid without an intent the payment can still match, Honey has to be credited by hand
+   */
+  private static async alertUnmatchedDeposit(transfer: IncomingStablecoinTransfer): Promise<void> {
+    const coin = HONEY_STABLECOINS.find(candidate => candidate.address.toLowerCase() === transfer.tokenAddress);
+    const amount = coin ? `${ethers.formatUnits(transfer.amount, coin.decimals)} ${coin.symbol}` : `${transfer.amount} raw units of ${transfer.tokenAddress}`;
+    log.warn('Stablecoin deposit without a matching intent', { txHash: transfer.txHash, from: transfer.from, amount });
+
+    let message = `⚠️ *Honey deposit without a purchase*
+
+`;
+    message += `💵 ${amount} from \`${transfer.from}\`
+`;
+    message += `📄 [View on BSCScan](https://bscscan.com/tx/${transfer.txHash})
+
+`;
+    message += 'No open or recent purchase request matches it, credit the Honey manually.';
+    await alertAdmins(message);
+  }
+
+  private static async notifyUser(telegramId: number, honeyAmount: number, paid: string, txHash: string): Promise<void> {
+    try {
+      const bot = (globalThis as any).botExport;
+      if (!bot) return;
+
+      let message = `✅ *Honey Purchase Confirmed!*\n\n`;
+      message += `🍯 Honey Credited: ${honeyAmount.toLocaleString()}\n`;
+      message += `💵 Paid: ${paid}\n`;
+      message += `📄 [View on BSCScan](https://bscscan.com/tx/${txHash})`;
+
+      await bot.telegram.sendMessage(telegramId, message, {
+        parse_mode: 'Markdown',
+        disable_web_page_preview: true,
+        reply_markup: Markup.inlineKeyboard([
+          [Markup.button.callback('🍯 Buy More Honey', 'honey_recharge')],
+          [Markup.button.callback('🏠 Main Menu', 'main_menu')]
+        ]).reply_markup
+      });
+    } catch (error) {
+      log.error('Error notifying user of honey purchase', { error, telegramId, txHash });
+    }
+  }
+
+  private static getProvider(): ethers.JsonRpcProvider {
+    if (!this.provider) {
+      this.provider = new ethers.JsonRpcProvider(process.env.BSC_RPC_URL || 'https://bsc-dataseed.binance.org/');
+    }
+    return this.provider;
+  }
+}
@@ -0,0 +1,196 @@
+import { ethers } from 'ethers';
+import { Markup } from 'telegraf';
+import { HoneyPurchaseModel } from '@/database/models/HoneyPurchase';
+import { HoneyTransaction, HoneyTransactionModel, HoneyTransactionType } from '@/database/models/HoneyTransaction';
+import { canLookUpNonces } from '@/services/chain/nonces';
+import { createLogger } from '@/utils/logger';
+import { HoneyPurchaseSettlement, HoneyPurchaseDocument } from './purchaseSettlement';
+import { PLAN_PERIOD_DAYS, getHoneyPlan } from './subscriptions';
+
+const log = createLogger('HoneyPurchaseReconciler');
+
+const CHECK_INTERVAL_MS = 2 * 60 * 1000;
+const STALE_AFTER_MS = 3 * 60 * 1000; // Younger purchases are still being driven by the purchase flow
+const BATCH_SIZE = 50;
+const RECEIPT_GRACE_MS = 60 * 60 * 1000; // A credited transaction without a receipt after this is reported missing
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+export type ReceiptCheckResult = 'ok' | 'reverted' | 'mismatch' | 'missing';
+
+/**
+ * Resumes or compensates Honey purchases left unfinished by a restart, and checks credited
+ * purchases against their on-chain receipts
+ */
+export class HoneyPurchaseReconciler {
+  private static intervalId: NodeJS.Timeout | null = null;
+  private static isProcessing = false;
+
+  /**
+   * Start the reconciler, with a first pass right away for purchases interrupted by the restart
+   */
+  static start(): void {
+    log.info('Starting honey purchase reconciler...');
+
+    if (!canLookUpNonces()) {
+      log.error('ETHERSCAN_API_KEY is not set: a purchase whose transfer was replaced by another transaction stays submitted until an operator resolves it');
+    }
+
+    const run = () => {
+      this.reconcile().catch(error => {
+        log.error('Error reconciling honey purchases', { error });
+      });
+    };
+    run();
+    this.intervalId = setInterval(run, CHECK_INTERVAL_MS);
+
+    log.info('Honey purchase reconciler started successfully');
+  }
+
+  /**
+   * Stop the reconciler
+   */
+  static stop(): void {
+    log.info('Stopping honey purchase reconciler...');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    log.info('Honey purchase reconciler stopped');
+  }
+
+  static async reconcile(): Promise<void> {
+    // Skip this tick if the previous one is still running
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      await this.resumeUnfinishedPurchases();
+      await this.verifyCreditReceipts();
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private static async resumeUnfinishedPurchases(): Promise<void> {
+    const unfinished = await HoneyPurchaseModel.find({
+      status: { $in: ['intent', 'submitted', 'confirmed', 'refunding'] },
+      updatedAt: { $lt: new Date(Date.now() - STALE_AFTER_MS) }
+    })
+      .sort({ updatedAt: 1 })
+      .limit(BATCH_SIZE);
+
+    for (const purchase of unfinished) {
+      try {
+        const settled = await HoneyPurchaseSettlement.settle(purchase);
+        if (settled.status !== purchase.status) {
+          log.info('Reconciled honey purchase', { purchaseId: purchase._id, from: purchase.status, to: settled.status });
+          await this.notifyUser(settled);
+        }
+      } catch (error) {
+        log.error('Error reconciling honey purchase', { error, purchaseId: purchase._id, status: purchase.status });
+      }
+    }
+  }
+
+  /**
+   * Compare credited purchases with the transfers they were credited for. Mismatches are
+   * logged for manual review and recorded on the transaction.
+   */
+  private static async verifyCreditReceipts(): Promise<void> {
+    const unchecked = await HoneyTransactionModel.find({
+      type: { $in: [HoneyTransactionType.BNB_PURCHASE, HoneyTransactionType.STABLECOIN_PURCHASE, HoneyTransactionType.PLAN_PAYMENT] },
+      'metadata.transactionHash': { $exists: true },
+      'metadata.receiptCheck': { $exists: false }
+    })
+      .sort({ createdAt: -1 })
+      .limit(BATCH_SIZE);
+
+    for (const transaction of unchecked) {
+      try {
+        const result = await this.checkReceipts(transaction);
+        const recent = Date.now() - new Date(transaction.createdAt || 0).getTime() < RECEIPT_GRACE_MS;
+        if (result === 'missing' && recent) continue; // The RPC node may lag, check again next tick
+
+        await HoneyTransactionModel.updateOne(
+          { _id: transaction._id },
+          { 'metadata.receiptCheck': { result, checkedAt: new Date() } }
+        );
+        if (result !== 'ok') {
+          log.error('Credited honey purchase does not match its on-chain receipt', {
+            honeyTransactionId: transaction._id,
+            telegramId: transaction.telegramId,
+            amount: transaction.amount,
+            result,
+            txHash: transaction.metadata?.transactionHash
+          });
+        }
+      } catch (error) {
+        log.warn('Failed to check honey purchase receipt', { honeyTransactionId: transaction._id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  private static async checkReceipts(transaction: HoneyTransaction): Promise<ReceiptCheckResult> {
+    const provider = HoneyPurchaseSettlement.getProvider();
+    const metadata = transaction.metadata || {};
+    const expected: [string, string | undefined][] = [[metadata.transactionHash, metadata.mainDepositAddress]];
+    if (metadata.referralTransactionHash && metadata.referralTransactionHash !== metadata.transactionHash) {
+      expected.push([metadata.referralTransactionHash, metadata.referralDepositAddress]);
+    }
+
+    for (const [txHash, depositAddress] of expected) {
+      const receipt = await provider.getTransactionReceipt(txHash);
+      if (!receipt) return 'missing';
+      if (receipt.status !== 1) return 'reverted';
+      if (!depositAddress) continue;
+
+      if (transaction.type === HoneyTransactionType.STABLECOIN_PURCHASE) {
+        const depositTopic = ethers.zeroPadValue(depositAddress.toLowerCase(), 32);
+        const paid = receipt.logs.some(entry => entry.topics[0] === TRANSFER_TOPIC && entry.topics[2]?.toLowerCase() === depositTopic);
+        if (!paid) return 'mismatch';
+      } else {
+        const sent = await provider.getTransaction(txHash);
+        if (sent?.to?.toLowerCase() !== depositAddress.toLowerCase()) return 'mismatch';
+      }
+    }
+    return 'ok';
+  }
+
+  private static async notifyUser(purchase: HoneyPurchaseDocument): Promise<void> {
+    let message: string;
+    switch (purchase.status) {
+      case 'credited':
+        message = purchase.planId
+          ? `✅ *Plan Payment Confirmed!*\n\n📅 Your ${getHoneyPlan(purchase.planId)?.name || purchase.planId} plan is paid for the next ${PLAN_PERIOD_DAYS} days.`
+          : `✅ *Honey Purchase Confirmed!*\n\n🍯 Honey Credited: ${purchase.honeyAmount.toLocaleString()}`;
+        break;
+      case 'refunded':
+        message = `↩️ *Honey Purchase Refunded*\n\nOnly part of your ${purchase.bnbAmount} BNB payment went through, so ${ethers.formatEther(purchase.refund?.value || '0')} BNB was returned to your trading wallet.`;
+        break;
+      case 'failed':
+        if (!purchase.transfers.some(transfer => transfer.txHash)) return; // Nothing was ever sent
+        message = `❌ *Honey Purchase Failed*\n\nYour payment transactions didn't go through, so nothing was charged for it. Please try again.`;
+        break;
+      default:
+        return;
+    }
+
+    try {
+      const bot = (globalThis as any).botExport;
+      if (!bot) return;
+
+      await bot.telegram.sendMessage(purchase.telegramId, message, {
+        parse_mode: 'Markdown',
+        reply_markup: Markup.inlineKeyboard([
+          [Markup.button.callback('🍯 Honey Recharge', 'honey_recharge')],
+          [Markup.button.callback('🏠 Main Menu', 'main_menu')]
+        ]).reply_markup
+      });
+    } catch (error) {
+      log.error('Error notifying user of reconciled honey purchase', { error, telegramId: purchase.telegramId });
+    }
+  }
+}
@@ -0,0 +1,430 @@
+import { ethers } from 'ethers';
+import mongoose from 'mongoose';
+import { DocumentType } from '@typegoose/typegoose';
+import { User, UserModel } from '@/database/models/User';
+import { HoneyTransactionType } from '@/database/models/HoneyTransaction';
+import { HoneyPurchase, HoneyPurchaseModel, HoneyPurchaseStatus, HoneyPurchaseTransfer } from '@/database/models/HoneyPurchase';
+import { canLookUpNonces, findTransactionByNonce } from '@/services/chain/nonces';
+import { alertAdmins } from '@/services/admin';
+import { createLogger } from '@/utils/logger';
+import { HoneyRechargeService } from './recharge';
+import { ReferralService } from '../referralService';
+
+const log = createLogger('HoneyPurchaseSettlement');
+
+const TRANSFER_GAS_LIMIT = 80000;
+const RECEIPT_TIMEOUT_MS = 2 * 60 * 1000; // Waited by the purchase flow, the reconciler takes over after that
+const UNRESOLVED_ALERT_CHECKS = 10; // Checks a purchase can stay unresolved before operators are alerted
+
+export type HoneyPurchaseDocument = DocumentType<HoneyPurchase>;
+
+type ReferralAmounts = Awaited<ReturnType<typeof ReferralService.calculateReferralAmounts>>;
+
+/**
+ * Where a purchase goes once all its payment transfers are resolved: credited when every
+ * transfer confirmed, failed when none did, refunded when only some did.
+ */
+export function nextPaymentState(transfers: HoneyPurchaseTransfer[]): { status: HoneyPurchaseStatus; refundValue?: bigint } {
+  if (transfers.some(transfer => transfer.status === 'planned' || transfer.status === 'signed')) {
+    return { status: 'submitted' };
+  }
+
+  const paid = transfers.filter(transfer => transfer.status === 'confirmed');
+  if (paid.length === transfers.length) {
+    return { status: 'confirmed' };
+  }
+  if (paid.length === 0) {
+    return { status: 'failed' };
+  }
+  return { status: 'refunding', refundValue: paid.reduce((sum, transfer) => sum + BigInt(transfer.value), 0n) };
+}
+
+// Signed, no receipt yet, and its nonce already used: only a nonce lookup can resolve it
+function isNonceUsedWithoutReceipt(transfer: HoneyPurchaseTransfer, accountNonce: number): boolean {
+  return transfer.status === 'signed' && transfer.nonce !== undefined && accountNonce > transfer.nonce;
+}
+
+/**
+ * Drives BNB Honey purchases through their persisted states. Transactions are signed and
+ * saved before they are broadcast, and Honey is credited in the same database transaction
+ * that marks the purchase credited, so any step can be retried after a crash.
+ */
+export class HoneyPurchaseSettlement {
+  private static provider: ethers.JsonRpcProvider | null = null;
+
+  static async createPurchase(
+    user: DocumentType<User>,
+    details: Pick<HoneyPurchase, 'packageIndex' | 'planId' | 'honeyAmount' | 'bnbAmount' | 'marginPercentage'>,
+    transfers: Pick<HoneyPurchaseTransfer, 'kind' | 'to' | 'value'>[],
+    referralAmounts: ReferralAmounts
+  ): Promise<HoneyPurchaseDocument> {
+    return HoneyPurchaseModel.create({
+      ...details,
+      user: user._id,
+      telegramId: user.telegramId,
+      payerAddress: user.tradingWalletAddress,
+      status: 'intent',
+      transfers: transfers.map(transfer => ({ ...transfer, to: transfer.to.toLowerCase(), status: 'planned' })),
+      referralSplits: referralAmounts.map(({ referrer, tier, amount }) => ({ referrer: referrer._id, tier, amount }))
+    });
+  }
+
+  /**
+   * Sign every payment transfer with consecutive nonces, persist them, then broadcast
+   */
+  static async submit(purchase: HoneyPurchaseDocument, wallet: ethers.Wallet): Promise<HoneyPurchaseDocument> {
+    const provider = this.getProvider();
+    const [nonce, feeData, network] = await Promise.all([
+      provider.getTransactionCount(wallet.address, 'pending'),
+      provider.getFeeData(),
+      provider.getNetwork()
+    ]);
+
+    const transfers: HoneyPurchaseTransfer[] = [];
+    for (const [i, transfer] of purchase.transfers.entries()) {
+      const rawTransaction = await wallet.signTransaction({
+        type: 0,
+        to: transfer.to,
+        value: BigInt(transfer.value),
+        gasLimit: TRANSFER_GAS_LIMIT,
+        gasPrice: feeData.gasPrice,
+        nonce: nonce + i,
+        chainId: network.chainId
+      });
+      transfers.push({ ...transfer, nonce: nonce + i, rawTransaction, txHash: ethers.Transaction.from(rawTransaction).hash!, status: 'signed' });
+    }
+
+    const submitted = await this.transition(purchase, 'intent', { status: 'submitted', transfers });
+    if (submitted.status !== 'submitted') {
+      return submitted;
+    }
+
+    // Broadcast in nonce order. A rejection doesn't prove the transfer never reached the network,
+    // so it stays signed and is rebroadcast or resolved from the chain when the purchase is settled.
+    // The ones after it would only wait on the nonce gap, they go out on the next pass too.
+    for (const transfer of submitted.transfers) {
+      const error = await this.broadcast(transfer);
+      if (error) {
+        await HoneyPurchaseModel.updateOne({ _id: submitted._id, status: 'submitted' }, { lastError: `Broadcast of ${transfer.txHash} failed: ${error}` });
+        break;
+      }
+      log.info(`Honey purchase ${transfer.kind} transfer broadcast: ${transfer.txHash}`);
+    }
+    return submitted;
+  }
+
+  /**
+   * Wait a while for the payment transfers, then settle as far as the chain allows
+   */
+  static async waitAndSettle(purchase: HoneyPurchaseDocument): Promise<HoneyPurchaseDocument> {
+    const provider = this.getProvider();
+    await Promise.all(purchase.transfers
+      .filter(transfer => transfer.status === 'signed')
+      .map(transfer => provider.waitForTransaction(transfer.txHash!, 1, RECEIPT_TIMEOUT_MS).catch(() => null)));
+
+    return this.settle(purchase);
+  }
+
+  /**
+   * Advance a purchase until it is settled or waiting on the chain
+   */
+  static async settle(purchase: HoneyPurchaseDocument): Promise<HoneyPurchaseDocument> {
+    let current = purchase;
+    for (;;) {
+      const next = await this.advance(current);
+      if (next.status === current.status) return next;
+      current = next;
+    }
+  }
+
+  private static async advance(purchase: HoneyPurchaseDocument): Promise<HoneyPurchaseDocument> {
+    switch (purchase.status) {
+      case 'intent':
+        // Transactions are persisted before broadcast, so nothing was sent for an intent
+        return this.transition(purchase, 'intent', { status: 'failed', lastError: 'Interrupted before payment was sent', settledAt: new Date() });
+      case 'submitted':
+        return this.checkPayment(purchase);
+      case 'confirmed':
+        return this.credit(purchase);
+      case 'refunding':
+        return this.processRefund(purchase);
+      default:
+        return purchase;
+    }
+  }
+
+  private static async checkPayment(purchase: HoneyPurchaseDocument): Promise<HoneyPurchaseDocument> {
+    const provider = this.getProvider();
+    const accountNonce = await provider.getTransactionCount(purchase.payerAddress, 'latest');
+    const transfers = await Promise.all(purchase.transfers.map(transfer => this.resolveTransfer(transfer, purchase.payerAddress, accountNonce)));
+    const next = nextPaymentState(transfers);
+    const unresolved = transfers.find(transfer => isNonceUsedWithoutReceipt(transfer, accountNonce));
+    if (unresolved) {
+      await this.noteUnresolved(purchase, unresolved);
+    }
+
+    switch (next.status) {
+      case 'confirmed':
+        return this.transition(purchase, 'submitted', { status: 'confirmed', transfers });
+      case 'failed':
+        return this.transition(purchase, 'submitted', {
+          status: 'failed',
+          transfers,
+          lastError: 'Payment transactions did not go through',
+          settledAt: new Date()
+        });
+      case 'refunding':
+        log.warn('Honey purchase only partly paid, refunding', { purchaseId: purchase._id, telegramId: purchase.telegramId });
+        return this.transition(purchase, 'submitted', {
+          status: 'refunding',
+          transfers,
+          refund: { kind: 'refund', to: purchase.payerAddress, value: next.refundValue!.toString(), status: 'planned' }
+        });
+      default:
+        // Still pending, keep what was learned without touching updatedAt
+        await HoneyPurchaseModel.updateOne({ _id: purchase._id, status: 'submitted' }, { transfers });
+        purchase.transfers = transfers;
+        return purchase;
+    }
+  }
+
+  /**
+   * Credit the Honey (or plan period) and referral earnings in one database transaction with
+   * the state change
+   */
+  private static async credit(purchase: HoneyPurchaseDocument): Promise<HoneyPurchaseDocument> {
+    const user = await UserModel.findById(purchase.user);
+    if (!user) {
+      log.error('User of a paid honey purchase not found', { purchaseId: purchase._id, telegramId: purchase.telegramId });
+      return purchase;
+    }
+
+    const referrers = await UserModel.find({ _id: { $in: purchase.referralSplits.map(split => split.referrer) } });
+    const referralAmounts: ReferralAmounts = purchase.referralSplits.flatMap(split => {
+      const referrer = referrers.find(candidate => candidate._id.equals(split.referrer));
+      return referrer ? [{ referrer, amount: split.amount, tier: split.tier }] : [];
+    });
+
+    const main = purchase.transfers.find(transfer => transfer.kind === 'main');
+    const referral = purchase.transfers.find(transfer => transfer.kind === 'referral');
+
+    const session = await mongoose.startSession();
+    session.startTransaction();
+    try {
+      const claimed = await HoneyPurchaseModel.findOneAndUpdate(
+        { _id: purchase._id, status: 'confirmed' },
+        { status: 'credited', settledAt: new Date(), updatedAt: new Date() },
+        { new: true, session }
+      );
+      if (!claimed) {
+        await session.abortTransaction();
+        return (await HoneyPurchaseModel.findById(purchase._id)) || purchase;
+      }
+
+      const metadata = {
+        bnbAmount: purchase.bnbAmount,
+        transactionHash: main?.txHash || referral?.txHash,
+        referralTransactionHash: referral?.txHash,
+        marginPercentage: purchase.marginPercentage,
+        mainDepositAddress: main?.to,
+        referralDepositAddress: referral?.to,
+        mainWalletAmount: ethers.formatEther(main?.value || '0'),
+        referralWalletAmount: ethers.formatEther(referral?.value || '0')
+      };
+
+      let honeyTransaction;
+      if (purchase.planId) {
+        const { HoneySubscriptionService } = await import('./subscriptions');
+        honeyTransaction = await HoneySubscriptionService.applyPlanPayment(user, purchase, metadata, referralAmounts, session);
+      } else {
+        honeyTransaction = await HoneyRechargeService.creditPurchasedHoney(
+          user,
+          purchase.honeyAmount,
+          HoneyTransactionType.BNB_PURCHASE,
+          `Purchased ${purchase.honeyAmount} honey with ${purchase.bnbAmount} BNB`,
+          metadata,
+          referralAmounts,
+          { purchaseId: purchase._id, session }
+        );
+      }
+
+      claimed.honeyTransaction = honeyTransaction._id;
+      await HoneyPurchaseModel.updateOne({ _id: purchase._id }, { honeyTransaction: honeyTransaction._id }, { session });
+      await session.commitTransaction();
+
+      log.info(`Honey purchase credited for user ${purchase.telegramId}`, { purchaseId: purchase._id, honeyAmount: purchase.honeyAmount, planId: purchase.planId });
+      return claimed;
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * Return the confirmed part of a partly paid purchase from the referral sender wallet
+   */
+  private static async processRefund(purchase: HoneyPurchaseDocument): Promise<HoneyPurchaseDocument> {
+    const refund = purchase.refund;
+    if (!refund) return purchase;
+
+    const privateKey = process.env.REFERRAL_SENDER_PRIVATE_KEY;
+    if (!privateKey) {
+      log.error('CRITICAL: REFERRAL_SENDER_PRIVATE_KEY is not set, honey purchase refund is waiting', { purchaseId: purchase._id });
+      return purchase;
+    }
+    const provider = this.getProvider();
+    const wallet = new ethers.Wallet(privateKey, provider);
+
+    if (refund.status === 'planned') {
+      const [nonce, feeData, network] = await Promise.all([
+        provider.getTransactionCount(wallet.address, 'pending'),
+        provider.getFeeData(),
+        provider.getNetwork()
+      ]);
+      const rawTransaction = await wallet.signTransaction({
+        type: 0,
+        to: refund.to,
+        value: BigInt(refund.value),
+        gasLimit: TRANSFER_GAS_LIMIT,
+        gasPrice: feeData.gasPrice,
+        nonce,
+        chainId: network.chainId
+      });
+      const signed: HoneyPurchaseTransfer = { ...refund, nonce, rawTransaction, txHash: ethers.Transaction.from(rawTransaction).hash!, status: 'signed' };
+
+      const saved = await HoneyPurchaseModel.findOneAndUpdate(
+        { _id: purchase._id, status: 'refunding', 'refund.status': 'planned' },
+        { refund: signed },
+        { new: true }
+      );
+      if (!saved) {
+        return (await HoneyPurchaseModel.findById(purchase._id)) || purchase;
+      }
+      await this.broadcast(signed);
+      log.info(`Honey purchase refund broadcast: ${signed.txHash}`, { purchaseId: purchase._id, value: ethers.formatEther(refund.value) });
+      return saved;
+    }
+
+    const refundNonce = await provider.getTransactionCount(wallet.address, 'latest');
+    const resolved = await this.resolveTransfer(refund, wallet.address, refundNonce);
+    if (isNonceUsedWithoutReceipt(resolved, refundNonce)) {
+      await this.noteUnresolved(purchase, resolved);
+    }
+    if (resolved.status === 'confirmed') {
+      return this.transition(purchase, 'refunding', { status: 'refunded', refund: resolved, settledAt: new Date() });
+    }
+    if (resolved.status === 'reverted' || resolved.status === 'dropped') {
+      // Sign a fresh refund on the next pass
+      log.warn('Honey purchase refund did not go through, retrying', { purchaseId: purchase._id, txHash: resolved.txHash });
+      await HoneyPurchaseModel.updateOne(
+        { _id: purchase._id, status: 'refunding' },
+        { refund: { kind: 'refund', to: refund.to, value: refund.value, status: 'planned' }, lastError: `Refund ${resolved.txHash} ${resolved.status}` }
+      );
+    }
+    return purchase;
+  }
+
+  /**
+   * Look a transfer up on-chain by its hash. One without a receipt is only dropped once its
+   * nonce was used by a different transaction: a used nonce alone may just be an RPC node that
+   * hasn't served the receipt yet. Until then it is rebroadcast, which is harmless if it's still known.
+   */
+  private static async resolveTransfer(transfer: HoneyPurchaseTransfer, sender: string, accountNonce: number): Promise<HoneyPurchaseTransfer> {
+    // Dropped transfers are looked up too, purchases dropped by an older rule may still have been mined
+    if (!transfer.txHash || (transfer.status !== 'signed' && transfer.status !== 'dropped')) {
+      return transfer;
+    }
+
+    const receipt = await this.getProvider().getTransactionReceipt(transfer.txHash);
+    if (receipt) {
+      return { ...transfer, status: receipt.status === 1 ? 'confirmed' : 'reverted', blockNumber: receipt.blockNumber };
+    }
+    if (transfer.status === 'dropped' || transfer.nonce === undefined) {
+      return transfer;
+    }
+
+    if (accountNonce > transfer.nonce) {
+      const usedBy = await findTransactionByNonce(sender, transfer.nonce);
+      if (usedBy && usedBy !== transfer.txHash.toLowerCase()) {
+        log.warn('Honey purchase transfer replaced by another transaction', { txHash: transfer.txHash, usedBy, nonce: transfer.nonce });
+        return { ...transfer, status: 'dropped' };
+      }
+      return transfer; // Mined but not served yet, or not indexed yet: look again next pass
+    }
+
+    await this.broadcast(transfer);
+    return transfer;
+  }
+
+  /**
+   * Count a check that found a transfer's nonce used without knowing by which transaction, and
+   * alert operators once when that keeps happening, e.g. without ETHERSCAN_API_KEY
+   */
+  private static async noteUnresolved(purchase: HoneyPurchaseDocument, transfer: HoneyPurchaseTransfer): Promise<void> {
+    const updated = await HoneyPurchaseModel.findOneAndUpdate(
+      { _id: purchase._id, status: purchase.status },
+      { $inc: { unresolvedChecks: 1 } },
+      { new: true }
+    );
+    if (!updated || updated.unresolvedChecks !== UNRESOLVED_ALERT_CHECKS) return;
+
+    log.error('Honey purchase unresolved, a transfer nonce was used but not by a known transaction', {
+      purchaseId: purchase._id,
+      telegramId: purchase.telegramId,
+      kind: transfer.kind,
+      nonce: transfer.nonce,
+      txHash: transfer.txHash
+    });
+    let message = `⚠️ *Honey purchase unresolved*\n\n`;
+    message += `👤 User ${purchase.telegramId}, ${purchase.bnbAmount} BNB (${purchase.status})\n`;
+    message += `🔢 The ${transfer.kind} transfer's nonce ${transfer.nonce} was used, but it can't be told by which transaction.\n`;
+    message += `📄 [Transfer](https://bscscan.com/tx/${transfer.txHash})\n\n`;
+    message += canLookUpNonces()
+      ? 'Etherscan doesn\'t show the transaction that used the nonce, check the wallet by hand.'
+      : 'ETHERSCAN\\_API\\_KEY is not set, so replaced transfers can\'t be detected. Check the wallet by hand.';
+    await alertAdmins(message);
+  }
+
+  /**
+   * Returns the node's error, or null when the transaction was accepted or is already known.
+   * An error doesn't prove the transaction never reached the network.
+   */
+  private static async broadcast(transfer: HoneyPurchaseTransfer): Promise<string | null> {
+    try {
+      await this.getProvider().broadcastTransaction(transfer.rawTransaction!);
+      return null;
+    } catch (error: any) {
+      const message = String(error?.message || error).toLowerCase();
+      if (message.includes('already known') || message.includes('nonce too low') || error?.code === 'NONCE_EXPIRED') {
+        return null;
+      }
+      log.warn('Honey purchase transaction rejected', { txHash: transfer.txHash, kind: transfer.kind, error: error?.message || String(error) });
+      return error?.shortMessage || error?.message || String(error);
+    }
+  }
+
+  /**
+   * Conditional state change, so concurrent runs never apply the same step twice
+   */
+  private static async transition(
+    purchase: HoneyPurchaseDocument,
+    from: HoneyPurchaseStatus,
+    update: Partial<HoneyPurchase>
+  ): Promise<HoneyPurchaseDocument> {
+    const updated = await HoneyPurchaseModel.findOneAndUpdate(
+      { _id: purchase._id, status: from },
+      { ...update, updatedAt: new Date() },
+      { new: true }
+    );
+    return updated || (await HoneyPurchaseModel.findById(purchase._id)) || purchase;
+  }
+
+  static getProvider(): ethers.JsonRpcProvider {
+    if (!this.provider) {
+      this.provider = new ethers.JsonRpcProvider(process.env.BSC_RPC_URL || 'https://bsc-dataseed.binance.org/');
+    }
+    return this.provider;
+  }
+}
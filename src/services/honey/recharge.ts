@@ -1,10 +1,13 @@
 import { ethers } from 'ethers';
+import { DocumentType } from '@typegoose/typegoose';
+import { ClientSession, Types } from 'mongoose';
 import { User, UserModel } from '@/database/models/User';
 import { HoneyTransaction, HoneyTransactionModel, HoneyTransactionType } from '@/database/models/HoneyTransaction';
 import { createLogger } from '@/utils/logger';
 import { decryptPrivateKey } from '@/services/wallet/tradingWallet';
 import Moralis from 'moralis';
 import { ReferralService } from '../referralService';
+import type { HoneyPurchaseDocument } from './purchaseSettlement';
 
 const log = createLogger('HoneyRecharge');
 
@@ -20,8 +23,8 @@ export interface HoneyPackage {
 }
 
 export class HoneyRechargeService {
-  // Main address for receiving BNB payments (after referral split)
-  private static readonly MAIN_DEPOSIT_ADDRESS = process.env.HONEY_MAIN_DEPOSIT_ADDRESS || '0xC8d27Dc5Ba7a9479E89c04D54a563495deb10E89';
+  // Main address for receiving BNB payments (after referral split) and stablecoin payments
+  public static readonly MAIN_DEPOSIT_ADDRESS = process.env.HONEY_MAIN_DEPOSIT_ADDRESS || '0xC8d27Dc5Ba7a9479E89c04D54a563495deb10E89';
   
   // Referral wallet address for automatic referral distribution
   private static readonly REFERRAL_DEPOSIT_ADDRESS = process.env.HONEY_REFERRAL_DEPOSIT_ADDRESS || '0xa8FB745067c4894edA0179190D0e8476251B3f92';
@@ -127,6 +130,7 @@ export class HoneyRechargeService {
     success: boolean;
     transactionHash?: string;
     honeyAmount?: number;
+    pending?: boolean; // Paid but not yet confirmed, Honey is credited by the reconciler
     error?: string;
   }> {
     try {
@@ -155,119 +159,30 @@ export class HoneyRechargeService {
         return { success: false, error: 'Insufficient BNB balance (including gas fees)' };
       }
 
-      // Calculate referral amounts before sending any transactions
-      const referralAmounts = await ReferralService.calculateReferralAmounts(
-        user, 
-        parseFloat(selectedPackage.bnbAmount)
-      );
-      
-      // Calculate total referral amount and main wallet amount
-      const totalReferralAmount = referralAmounts.reduce((sum, current) => sum + current.amount, 0);
-      const mainWalletAmount = parseFloat(selectedPackage.bnbAmount) - totalReferralAmount;
-      
-      log.info(`Payment split calculated`, {
-        totalBNB: selectedPackage.bnbAmount,
-        mainWalletAmount: mainWalletAmount.toFixed(8),
-        referralAmount: totalReferralAmount.toFixed(8),
-        referralCount: referralAmounts.length
+      const { HoneyPurchaseSettlement } = await import('./purchaseSettlement');
+      const submitted = await this.payFromTradingWallet(user, selectedPackage.bnbAmount, {
+        packageIndex,
+        honeyAmount: selectedPackage.honeyAmount,
+        marginPercentage: selectedPackage.marginPercentage
       });
-
-      // Decrypt private key and create wallet
-      const privateKey = decryptPrivateKey(
-        user.encryptedPrivateKey,
-        user.encryptionIv!
-      );
-
-      const provider = new ethers.JsonRpcProvider(process.env.BSC_RPC_URL || 'https://bsc-dataseed.binance.org/');
-      const wallet = new ethers.Wallet(privateKey, provider);
-
-      // Execute BNB transfers - main wallet and referral wallet
-      const transactions = [];
-      
-      // Send to main wallet if amount > 0
-      if (mainWalletAmount > 0) {
-        const mainTx = await wallet.sendTransaction({
-          to: this.MAIN_DEPOSIT_ADDRESS,
-          value: ethers.parseEther(mainWalletAmount.toFixed(18)),
-          gasLimit: 80000,
-        });
-        transactions.push({ tx: mainTx, type: 'main' });
-        log.info(`Main wallet transfer initiated: ${mainTx.hash}`);
-      }
-      
-      // Send to referral wallet if amount > 0
-      if (totalReferralAmount > 0) {
-        const referralTx = await wallet.sendTransaction({
-          to: this.REFERRAL_DEPOSIT_ADDRESS,
-          value: ethers.parseEther(totalReferralAmount.toFixed(18)),
-          gasLimit: 80000,
-        });
-        transactions.push({ tx: referralTx, type: 'referral' });
-        log.info(`Referral wallet transfer initiated: ${referralTx.hash}`);
-      }
-
-      // Wait for all transactions to be confirmed
-      const receipts = await Promise.all(
-        transactions.map(async ({ tx, type }) => {
-          const receipt = await tx.wait();
-          log.info(`${type} transfer confirmed: ${tx.hash}`);
-          return { receipt, type };
-        })
-      );
-      
-      // Check if all transactions succeeded
-      const allSuccessful = receipts.every(({ receipt }) => receipt && receipt.status === 1);
-      if (!allSuccessful) {
-        return { success: false, error: 'One or more transactions failed' };
+      const purchase = await HoneyPurchaseSettlement.waitAndSettle(submitted);
+
+      const mainTxHash = purchase.transfers.find(t => t.kind === 'main')?.txHash || purchase.transfers[0]?.txHash;
+
+      switch (purchase.status) {
+        case 'credited':
+          log.info(`Honey purchase completed for user ${telegramId}: ${purchase.honeyAmount} honey`);
+          return { success: true, transactionHash: mainTxHash, honeyAmount: purchase.honeyAmount };
+        case 'submitted':
+        case 'confirmed':
+          return { success: false, pending: true, transactionHash: mainTxHash, error: 'Payment is still confirming' };
+        case 'refunding':
+        case 'refunded':
+          return { success: false, error: 'Only part of the payment went through, it is being refunded to your trading wallet' };
+        default:
+          return { success: false, error: purchase.lastError || 'Payment transactions did not go through' };
       }
 
-      log.info(`All BNB transfers confirmed`);
-
-      // Get the main transaction hash for returning and storing
-      const mainTxHash = transactions.find(t => t.type === 'main')?.tx.hash || transactions[0]?.tx.hash;
-
-      // Credit honey to user account
-      const honeyAmount = selectedPackage.honeyAmount;
-      const newBalance = (user.dailyHoney || 0) + honeyAmount;
-      const newTotalEarned = (user.totalHoneyEarned || 0) + honeyAmount;
-      const newPurchasedHoney = (user.purchasedHoney || 0) + honeyAmount;
-      
-      await UserModel.updateOne({ _id: user._id }, {
-        dailyHoney: newBalance,
-        totalHoneyEarned: newTotalEarned,
-        purchasedHoney: newPurchasedHoney
-      });
-
-      // Record honey transaction
-      const honeyTransaction = await HoneyTransactionModel.create({
-        user: user._id,
-        telegramId: user.telegramId,
-        type: HoneyTransactionType.BNB_PURCHASE,
-        amount: honeyAmount,
-        balanceAfter: newBalance,
-        description: `Purchased ${honeyAmount} honey with ${selectedPackage.bnbAmount} BNB`,
-        metadata: {
-          bnbAmount: selectedPackage.bnbAmount,
-          transactionHash: mainTxHash,
-          marginPercentage: selectedPackage.marginPercentage,
-          mainDepositAddress: this.MAIN_DEPOSIT_ADDRESS,
-          referralDepositAddress: this.REFERRAL_DEPOSIT_ADDRESS,
-          mainWalletAmount: mainWalletAmount.toFixed(8),
-          referralWalletAmount: totalReferralAmount.toFixed(8)
-        }
-      });
-
-      // Record referral earnings after successful purchase and payment split
-      await ReferralService.recordReferralEarnings(user, referralAmounts, honeyTransaction);
-
-      log.info(`Honey purchase completed for user ${telegramId}: ${honeyAmount} honey`);
-      
-      return {
-        success: true,
-        transactionHash: mainTxHash,
-        honeyAmount: honeyAmount
-      };
-
     } catch (error) {
       log.error('Honey purchase failed:', error);
       return {
@@ -277,18 +192,99 @@ export class HoneyRechargeService {
     }
   }
 
+  /**
+   * Split a BNB payment between the main and referral deposits, then sign and broadcast it
+   * from the trading wallet as a persisted purchase. The caller checks the balance first.
+   */
+  public static async payFromTradingWallet(
+    user: DocumentType<User>,
+    bnbAmount: string,
+    details: { packageIndex?: number; planId?: string; honeyAmount: number; marginPercentage?: number }
+  ): Promise<HoneyPurchaseDocument> {
+    if (!user.tradingWalletAddress || !user.encryptedPrivateKey) {
+      throw new Error('Trading wallet not set up');
+    }
+
+    // Calculate referral amounts before sending any transactions
+    const referralAmounts = await ReferralService.calculateReferralAmounts(user, parseFloat(bnbAmount));
+
+    // Calculate total referral amount and main wallet amount
+    const totalReferralAmount = referralAmounts.reduce((sum, current) => sum + current.amount, 0);
+    const mainWalletAmount = parseFloat(bnbAmount) - totalReferralAmount;
+
+    log.info(`Payment split calculated`, {
+      totalBNB: bnbAmount,
+      mainWalletAmount: mainWalletAmount.toFixed(8),
+      referralAmount: totalReferralAmount.toFixed(8),
+      referralCount: referralAmounts.length
+    });
+
+    const transfers = [];
+    if (mainWalletAmount > 0) {
+      transfers.push({ kind: 'main' as const, to: this.MAIN_DEPOSIT_ADDRESS, value: ethers.parseEther(mainWalletAmount.toFixed(18)).toString() });
+    }
+    if (totalReferralAmount > 0) {
+      transfers.push({ kind: 'referral' as const, to: this.REFERRAL_DEPOSIT_ADDRESS, value: ethers.parseEther(totalReferralAmount.toFixed(18)).toString() });
+    }
+
+    // Persist the purchase before anything is signed, the reconciler finishes it after a crash
+    const { HoneyPurchaseSettlement } = await import('./purchaseSettlement');
+    const intent = await HoneyPurchaseSettlement.createPurchase(user, { ...details, bnbAmount }, transfers, referralAmounts);
+
+    const privateKey = decryptPrivateKey(user.encryptedPrivateKey, user.encryptionIv!);
+    return HoneyPurchaseSettlement.submit(intent, new ethers.Wallet(privateKey));
+  }
+
+  /**
+   * Credit purchased honey once payment is confirmed on-chain, and record the referral
+   * earnings of the purchase. Pass the session of a database transaction to credit
+   * atomically with a purchase state change; purchaseId guards against crediting twice.
+   */
+  public static async creditPurchasedHoney(
+    user: DocumentType<User>,
+    honeyAmount: number,
+    type: HoneyTransactionType,
+    description: string,
+    metadata: Record<string, any>,
+    referralAmounts: Awaited<ReturnType<typeof ReferralService.calculateReferralAmounts>>,
+    options: { purchaseId?: Types.ObjectId; session?: ClientSession } = {}
+  ): Promise<DocumentType<HoneyTransaction>> {
+    const { purchaseId, session } = options;
+
+    const updated = await UserModel.findOneAndUpdate(
+      { _id: user._id },
+      { $inc: { dailyHoney: honeyAmount, totalHoneyEarned: honeyAmount, purchasedHoney: honeyAmount } },
+      { new: true, session }
+    );
+
+    const [honeyTransaction] = await HoneyTransactionModel.create([{
+      user: user._id,
+      telegramId: user.telegramId,
+      type,
+      amount: honeyAmount,
+      balanceAfter: updated?.dailyHoney ?? (user.dailyHoney || 0) + honeyAmount,
+      description,
+      metadata,
+      purchaseId
+    }], { session });
+
+    await ReferralService.recordReferralEarnings(user, referralAmounts, honeyTransaction, session);
+    return honeyTransaction;
+  }
+
   /**
    * Get honey purchase statistics for user
    */
   public static async getUserPurchaseStats(telegramId: number): Promise<{
     totalPurchased: number;
     totalSpent: string;
+    totalSpentUsd: number; // Stablecoin purchases
     purchaseCount: number;
   }> {
     try {
       const transactions = await HoneyTransactionModel.find({
         telegramId,
-        type: HoneyTransactionType.BNB_PURCHASE,
+        type: { $in: [HoneyTransactionType.BNB_PURCHASE, HoneyTransactionType.STABLECOIN_PURCHASE] },
         amount: { $gt: 0 } // Only purchases (positive amounts)
       });
 
@@ -297,10 +293,12 @@ export class HoneyRechargeService {
         const bnbAmount = tx.metadata?.bnbAmount || '0';
         return sum + parseFloat(bnbAmount);
       }, 0);
+      const totalSpentUsd = transactions.reduce((sum, tx) => sum + parseFloat(tx.metadata?.stablecoinAmount || '0'), 0);
 
       return {
         totalPurchased,
         totalSpent: totalSpent.toFixed(4),
+        totalSpentUsd: Math.round(totalSpentUsd * 100) / 100,
         purchaseCount: transactions.length
       };
     } catch (error) {
@@ -308,6 +306,7 @@ export class HoneyRechargeService {
       return {
         totalPurchased: 0,
         totalSpent: '0',
+        totalSpentUsd: 0,
         purchaseCount: 0
       };
     }
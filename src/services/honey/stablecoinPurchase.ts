@@ -0,0 +1,247 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import mongoose from 'mongoose';
+import { DocumentType } from '@typegoose/typegoose';
+import { UserModel } from '@/database/models/User';
+import { HoneyTransactionType } from '@/database/models/HoneyTransaction';
+import { HoneyPurchaseIntentModel, HoneyPurchaseIntent, HoneyPurchaseChannel } from '@/database/models/HoneyPurchaseIntent';
+import { WalletTransactionRequest } from '@/services/wallet/preflight';
+import { createLogger } from '@/utils/logger';
+import { HoneyRechargeService } from './recharge';
+import { ReferralService } from '../referralService';
+
+const log = createLogger('HoneyStablecoinPurchase');
+
+export interface HoneyStablecoin {
+  symbol: string;
+  address: string;
+  decimals: number;
+}
+
+// BEP-20 stablecoins accepted for Honey, priced 1:1 with the package USD value
+export const HONEY_STABLECOINS: HoneyStablecoin[] = [
+  { symbol: 'USDT', address: '0x55d398326f99059fF775485246999027B3197955', decimals: 18 },
+  { symbol: 'USDC', address: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', decimals: 18 }
+];
+
+const INTENT_TTL_MS = 30 * 60 * 1000;
+const LATE_PAYMENT_WINDOW_MS = 24 * 60 * 60 * 1000; // Expired and cancelled intents still match payments this long
+const MAX_TAG = 9999; // Up to 0.009999 on top of the package price
+const TAG_ATTEMPTS = 5;
+
+const ERC20_TRANSFER = new ethers.Interface(['function transfer(address to, uint256 amount) returns (bool)']);
+
+// Intents that are no longer open but still match a late payment
+function lateMatchQuery() {
+  return { status: { $in: ['expired', 'cancelled'] }, expiresAt: { $gte: new Date(Date.now() - LATE_PAYMENT_WINDOW_MS) } };
+}
+
+export function getHoneyStablecoin(symbol: string): HoneyStablecoin | undefined {
+  return HONEY_STABLECOINS.find(coin => coin.symbol === symbol.toUpperCase());
+}
+
+/**
+ * Package price in raw token units plus a tag of `tag` micro-units (1e-6 of a token)
+ */
+export function tagAmount(usdValue: number, tag: number, decimals: number): bigint {
+  const base = ethers.parseUnits(usdValue.toString(), decimals);
+  return base + BigInt(tag) * 10n ** BigInt(decimals - 6);
+}
+
+export interface IncomingStablecoinTransfer {
+  tokenAddress: string;
+  from: string;
+  amount: bigint;
+  txHash: string;
+  blockNumber: number;
+}
+
+/**
+ * Honey bought with USDT/USDC signed from the main wallet. Purchases are intents until the
+ * deposit watcher sees the matching transfer confirmed on-chain.
+ */
+export class HoneyStablecoinPurchaseService {
+  /**
+   * Reserve a uniquely tagged amount for a package, valid for 30 minutes
+   */
+  static async createIntent(
+    telegramId: number,
+    packageIndex: number,
+    coin: HoneyStablecoin,
+    channel: HoneyPurchaseChannel,
+    payerAddress?: string
+  ): Promise<DocumentType<HoneyPurchaseIntent>> {
+    const selectedPackage = HoneyRechargeService.HONEY_PACKAGES[packageIndex];
+    if (!selectedPackage) {
+      throw new Error('Invalid package selected');
+    }
+
+    // One open intent per user: a new one replaces whatever they didn't pay. Cancelled intents
+    // still match a late payment, and one already sent from the wallet is left alone.
+    await HoneyPurchaseIntentModel.updateMany({ telegramId, status: 'pending', submittedTxHash: { $exists: false } }, { status: 'cancelled' });
+
+    for (let attempt = 0; attempt < TAG_ATTEMPTS; attempt++) {
+      const amount = tagAmount(selectedPackage.usdValue, crypto.randomInt(1, MAX_TAG + 1), coin.decimals);
+      // The unique index only covers pending intents, a late payment must not find two matches
+      if (await HoneyPurchaseIntentModel.exists({ tokenAddress: coin.address.toLowerCase(), amount: amount.toString(), ...lateMatchQuery() })) {
+        continue;
+      }
+      try {
+        const intent = await HoneyPurchaseIntentModel.create({
+          telegramId,
+          packageIndex,
+          honeyAmount: selectedPackage.honeyAmount,
+          usdValue: selectedPackage.usdValue,
+          tokenSymbol: coin.symbol,
+          tokenAddress: coin.address,
+          amount: amount.toString(),
+          amountFormatted: ethers.formatUnits(amount, coin.decimals),
+          depositAddress: HoneyRechargeService.MAIN_DEPOSIT_ADDRESS,
+          payerAddress,
+          channel,
+          status: 'pending',
+          expiresAt: new Date(Date.now() + INTENT_TTL_MS)
+        });
+        log.info('Created honey purchase intent', { telegramId, packageIndex, token: coin.symbol, amount: intent.amountFormatted, channel });
+        return intent;
+      } catch (error: any) {
+        // Another pending intent holds this amount, draw a new tag
+        if (error?.code !== 11000) throw error;
+      }
+    }
+
+    throw new Error('Could not reserve a payment amount, please try again');
+  }
+
+  static async getIntent(intentId: string): Promise<DocumentType<HoneyPurchaseIntent> | null> {
+    if (!/^[a-f0-9]{24}$/.test(intentId)) return null;
+    return HoneyPurchaseIntentModel.findById(intentId);
+  }
+
+  /**
+   * Returns false when there was nothing to cancel, e.g. the payment was already sent from the wallet
+   */
+  static async cancelIntent(telegramId: number, intentId: string): Promise<boolean> {
+    const result = await HoneyPurchaseIntentModel.updateOne(
+      { _id: intentId, telegramId, status: 'pending', submittedTxHash: { $exists: false } },
+      { status: 'cancelled' }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * ERC-20 transfer of the exact intent amount to the deposit address, for WalletConnect
+   */
+  static buildTransferRequest(intent: HoneyPurchaseIntent, from: string): WalletTransactionRequest {
+    return {
+      from,
+      to: ethers.getAddress(intent.tokenAddress),
+      value: '0x0',
+      data: ERC20_TRANSFER.encodeFunctionData('transfer', [ethers.getAddress(intent.depositAddress), BigInt(intent.amount)])
+    };
+  }
+
+  /**
+   * Open intents past their 30 minutes. They still match payments for a day (see findIntentForTransfer).
+   */
+  static async expireStaleIntents(): Promise<number> {
+    const result = await HoneyPurchaseIntentModel.updateMany(
+      { status: 'pending', expiresAt: { $lt: new Date() } },
+      { status: 'expired' }
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Whether the deposit watcher already credited this transfer to an intent
+   */
+  static async isTransferCredited(txHash: string): Promise<boolean> {
+    return !!(await HoneyPurchaseIntentModel.exists({ txHash }));
+  }
+
+  /**
+   * The pending intent with exactly this token and amount, or a recently expired or cancelled
+   * one for late payments
+   */
+  static async findIntentForTransfer(transfer: IncomingStablecoinTransfer): Promise<DocumentType<HoneyPurchaseIntent> | null> {
+    const query = { tokenAddress: transfer.tokenAddress.toLowerCase(), amount: transfer.amount.toString() };
+    const pending = await HoneyPurchaseIntentModel.findOne({ ...query, status: 'pending' });
+    if (pending) return pending;
+
+    return HoneyPurchaseIntentModel.findOne({ ...query, ...lateMatchQuery() }).sort({ expiresAt: -1 });
+  }
+
+  /**
+   * Credit the Honey of a matched, confirmed transfer. The intent is claimed in the same
+   * database transaction as the credit, so a transfer seen twice is only credited once.
+   */
+  static async confirmIntent(intent: DocumentType<HoneyPurchaseIntent>, transfer: IncomingStablecoinTransfer): Promise<boolean> {
+    const user = await UserModel.findOne({ telegramId: intent.telegramId });
+    if (!user) {
+      log.error('User of a paid honey intent not found', { intentId: intent._id, telegramId: intent.telegramId });
+      return false;
+    }
+
+    // Referral tiers are kept in BNB, so the stablecoin price is converted at today's rate
+    const bnbPrice = await HoneyRechargeService.getBNBPrice();
+    const bnbEquivalent = intent.usdValue / bnbPrice;
+    const referralAmounts = await ReferralService.calculateReferralAmounts(user, bnbEquivalent);
+    const referralBnb = referralAmounts.reduce((sum, current) => sum + current.amount, 0);
+
+    const session = await mongoose.startSession();
+    session.startTransaction();
+    try {
+      const claimed = await HoneyPurchaseIntentModel.findOneAndUpdate(
+        { _id: intent._id, status: { $in: ['pending', 'expired', 'cancelled'] } },
+        {
+          status: 'confirmed',
+          txHash: transfer.txHash,
+          paidFrom: transfer.from,
+          blockNumber: transfer.blockNumber,
+          confirmedAt: new Date()
+        },
+        { new: true, session }
+      );
+      if (!claimed) {
+        await session.abortTransaction();
+        return false;
+      }
+
+      await HoneyRechargeService.creditPurchasedHoney(
+        user,
+        claimed.honeyAmount,
+        HoneyTransactionType.STABLECOIN_PURCHASE,
+        `Purchased ${claimed.honeyAmount} honey with ${claimed.amountFormatted} ${claimed.tokenSymbol}`,
+        {
+          stablecoin: claimed.tokenSymbol,
+          stablecoinAmount: claimed.amountFormatted,
+          transactionHash: transfer.txHash,
+          paidFrom: transfer.from,
+          intentId: claimed._id.toString(),
+          mainDepositAddress: claimed.depositAddress,
+          bnbPriceAtPurchase: bnbPrice,
+          bnbEquivalent: bnbEquivalent.toFixed(8),
+          // Stablecoin payments arrive in one transfer, the referral share is settled from the main deposit
+          referralWalletAmount: referralBnb.toFixed(8),
+          referralWalletAmountUsd: (referralBnb * bnbPrice).toFixed(2)
+        },
+        referralAmounts,
+        { purchaseId: claimed._id, session }
+      );
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    log.info('Honey stablecoin purchase credited', {
+      telegramId: intent.telegramId,
+      honeyAmount: intent.honeyAmount,
+      token: intent.tokenSymbol,
+      txHash: transfer.txHash
+    });
+    return true;
+  }
+}
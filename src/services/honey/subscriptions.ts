@@ -0,0 +1,417 @@
+import { Markup } from 'telegraf';
+import { ClientSession } from 'mongoose';
+import { DocumentType } from '@typegoose/typegoose';
+import { User, UserModel } from '@/database/models/User';
+import { HoneyFeature, HoneyTransaction, HoneyTransactionModel, HoneyTransactionType } from '@/database/models/HoneyTransaction';
+import { HoneySubscription, HoneySubscriptionModel } from '@/database/models/HoneySubscription';
+import { HoneyPurchaseModel } from '@/database/models/HoneyPurchase';
+import { createLogger } from '@/utils/logger';
+import { HoneyRechargeService } from './recharge';
+import { ReferralService } from '../referralService';
+import type { HoneyPurchaseDocument } from './purchaseSettlement';
+
+const log = createLogger('HoneySubscriptions');
+
+const CHECK_INTERVAL_MS = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const PLAN_PERIOD_DAYS = 30;
+export const GRACE_PERIOD_DAYS = 3;
+const RENEWAL_RETRY_MS = 6 * 60 * 60 * 1000;
+
+export const UNLIMITED = Infinity;
+
+export interface HoneyPlan {
+  id: string;
+  name: string;
+  priceBnb: string; // Per period, paid from the trading wallet
+  allowances: Partial<Record<HoneyFeature, number>>; // Uses per period, features not listed cost Honey as usual
+}
+
+export const HONEY_PLANS: HoneyPlan[] = [
+  {
+    id: 'hive',
+    name: 'Hive',
+    priceBnb: '0.05',
+    allowances: {
+      [HoneyFeature.WALLET_SCAN]: 100,
+      [HoneyFeature.RUG_ALERT]: 100,
+      [HoneyFeature.AI_QUERY]: 300,
+      [HoneyFeature.PRICE_ALERT]: UNLIMITED
+    }
+  },
+  {
+    id: 'hive_pro',
+    name: 'Hive Pro',
+    priceBnb: '0.12',
+    allowances: {
+      [HoneyFeature.WALLET_SCAN]: 500,
+      [HoneyFeature.RUG_ALERT]: 500,
+      [HoneyFeature.AI_QUERY]: 1500,
+      [HoneyFeature.PRICE_ALERT]: UNLIMITED
+    }
+  }
+];
+
+export function getHoneyPlan(planId: string): HoneyPlan | undefined {
+  return HONEY_PLANS.find(plan => plan.id === planId);
+}
+
+/**
+ * Uses of a feature left this period, 0 when the plan doesn't include it
+ */
+export function remainingAllowance(plan: HoneyPlan, usage: Record<string, number> | undefined, feature: HoneyFeature): number {
+  const allowance = plan.allowances[feature] ?? 0;
+  return Math.max(0, allowance - (usage?.[feature] || 0));
+}
+
+/**
+ * Whether the plan currently covers usage: a paid period, or an unpaid renewal still in grace
+ */
+export function isPlanInEffect(subscription: Pick<HoneySubscription, 'status' | 'currentPeriodEnd' | 'graceEndsAt'>, now: Date = new Date()): boolean {
+  if (subscription.status === 'active') return now < subscription.currentPeriodEnd;
+  if (subscription.status === 'grace') return !!subscription.graceEndsAt && now < subscription.graceEndsAt;
+  return false;
+}
+
+export function addPlanPeriod(start: Date): Date {
+  return new Date(start.getTime() + PLAN_PERIOD_DAYS * DAY_MS);
+}
+
+export const PLAN_FEATURE_LABELS: Partial<Record<HoneyFeature, string>> = {
+  [HoneyFeature.WALLET_SCAN]: 'wallet scans',
+  [HoneyFeature.RUG_ALERT]: 'rug alerts',
+  [HoneyFeature.AI_QUERY]: 'AI queries',
+  [HoneyFeature.PRICE_ALERT]: 'price alerts'
+};
+
+/**
+ * e.g. "100 wallet scans, unlimited price alerts"
+ */
+export function formatPlanAllowances(plan: HoneyPlan): string {
+  return Object.entries(plan.allowances)
+    .map(([feature, allowance]) => `${allowance === UNLIMITED ? 'unlimited' : allowance} ${PLAN_FEATURE_LABELS[feature as HoneyFeature] || feature}`)
+    .join(', ');
+}
+
+/**
+ * Monthly Honey plans: allowances of paid features that auto-renew from the trading wallet.
+ * Plan payments go through the same persisted settlement as Honey packages.
+ */
+export class HoneySubscriptionService {
+  private static intervalId: NodeJS.Timeout | null = null;
+  private static isProcessing = false;
+
+  /**
+   * Start the plan renewal scheduler
+   */
+  static start(): void {
+    log.info('Starting honey plan renewals...');
+
+    this.intervalId = setInterval(() => {
+      this.processRenewals().catch(error => {
+        log.error('Error processing honey plan renewals', { error });
+      });
+    }, CHECK_INTERVAL_MS);
+
+    log.info('Honey plan renewals started successfully');
+  }
+
+  /**
+   * Stop the plan renewal scheduler
+   */
+  static stop(): void {
+    log.info('Stopping honey plan renewals...');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    log.info('Honey plan renewals stopped');
+  }
+
+  static async getSubscription(telegramId: number): Promise<DocumentType<HoneySubscription> | null> {
+    return HoneySubscriptionModel.findOne({ telegramId });
+  }
+
+  /**
+   * Pay for a plan from the trading wallet and wait a while for it to settle
+   */
+  static async subscribe(telegramId: number, planId: string): Promise<{
+    success: boolean;
+    pending?: boolean; // Paid but not yet confirmed, the plan starts once it is
+    transactionHash?: string;
+    error?: string;
+  }> {
+    try {
+      const plan = getHoneyPlan(planId);
+      if (!plan) {
+        return { success: false, error: 'Invalid plan selected' };
+      }
+
+      const user = await UserModel.findOne({ telegramId });
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      const existing = await this.getSubscription(telegramId);
+      if (existing?.pendingPurchase) {
+        return { success: false, error: 'A plan payment is already in progress' };
+      }
+      if (existing && isPlanInEffect(existing)) {
+        return { success: false, error: `You already have the ${getHoneyPlan(existing.planId)?.name || existing.planId} plan until ${existing.currentPeriodEnd.toISOString().slice(0, 10)}` };
+      }
+
+      const hasBalance = await HoneyRechargeService.validateBNBBalance(telegramId, plan.priceBnb);
+      if (!hasBalance) {
+        return { success: false, error: 'Insufficient BNB balance (including gas fees)' };
+      }
+
+      const { HoneyPurchaseSettlement } = await import('./purchaseSettlement');
+      const submitted = await HoneyRechargeService.payFromTradingWallet(user, plan.priceBnb, { planId, honeyAmount: 0 });
+      const purchase = await HoneyPurchaseSettlement.waitAndSettle(submitted);
+      const transactionHash = purchase.transfers.find(t => t.kind === 'main')?.txHash || purchase.transfers[0]?.txHash;
+
+      switch (purchase.status) {
+        case 'credited':
+          log.info(`Honey plan ${planId} started for user ${telegramId}`);
+          return { success: true, transactionHash };
+        case 'submitted':
+        case 'confirmed':
+          return { success: false, pending: true, transactionHash, error: 'Payment is still confirming' };
+        case 'refunding':
+        case 'refunded':
+          return { success: false, error: 'Only part of the payment went through, it is being refunded to your trading wallet' };
+        default:
+          return { success: false, error: purchase.lastError || 'Payment transactions did not go through' };
+      }
+    } catch (error) {
+      log.error('Honey plan subscription failed:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' };
+    }
+  }
+
+  static async setAutoRenew(telegramId: number, autoRenew: boolean): Promise<void> {
+    await HoneySubscriptionModel.updateOne({ telegramId }, { autoRenew, updatedAt: new Date() });
+  }
+
+  /**
+   * Count one use of a feature against the plan. Returns covered: false when the user has no
+   * plan in effect, the plan doesn't include the feature, or its allowance is used up.
+   */
+  static async consumeAllowance(telegramId: number, feature: HoneyFeature): Promise<{ covered: boolean; remaining?: number }> {
+    const subscription = await HoneySubscriptionModel.findOne({ telegramId, status: { $in: ['active', 'grace'] } });
+    if (!subscription || !isPlanInEffect(subscription)) {
+      return { covered: false };
+    }
+
+    const plan = getHoneyPlan(subscription.planId);
+    const allowance = plan?.allowances[feature] ?? 0;
+    if (!plan || allowance <= 0) {
+      return { covered: false };
+    }
+
+    // The allowance check and the increment are one update, so concurrent uses can't overrun it
+    const field = `usage.${feature}`;
+    const filter: Record<string, any> = { _id: subscription._id, currentPeriodStart: subscription.currentPeriodStart };
+    if (allowance !== UNLIMITED) {
+      filter.$or = [{ [field]: { $lt: allowance } }, { [field]: { $exists: false } }];
+    }
+
+    const updated = await HoneySubscriptionModel.findOneAndUpdate(filter, { $inc: { [field]: 1 } }, { new: true });
+    if (!updated) {
+      return { covered: false };
+    }
+
+    const { KeeperService } = await import('../keeper');
+    await KeeperService.trackActionUsed(telegramId);
+
+    return { covered: true, remaining: remainingAllowance(plan, updated.usage, feature) };
+  }
+
+  /**
+   * Start or extend the plan of a settled plan payment, inside the settlement's database
+   * transaction. Returns the zero-Honey transaction the referral earnings are recorded against.
+   */
+  static async applyPlanPayment(
+    user: DocumentType<User>,
+    purchase: HoneyPurchaseDocument,
+    metadata: Record<string, any>,
+    referralAmounts: Awaited<ReturnType<typeof ReferralService.calculateReferralAmounts>>,
+    session: ClientSession
+  ): Promise<DocumentType<HoneyTransaction>> {
+    const plan = getHoneyPlan(purchase.planId!);
+    if (!plan) {
+      throw new Error(`Unknown honey plan ${purchase.planId}`);
+    }
+
+    const now = new Date();
+    const existing = await HoneySubscriptionModel.findOne({ telegramId: user.telegramId }).session(session);
+    let update: Record<string, any>;
+
+    if (existing && existing.planId === plan.id && existing.status === 'grace') {
+      // The renewed period already started, it is now paid
+      update = { status: 'active', $unset: { graceEndsAt: 1, nextRenewalAttemptAt: 1, lastRenewalError: 1 }, renewalAttempts: 0 };
+    } else if (existing && existing.planId === plan.id && isPlanInEffect(existing, now)) {
+      // Paid again while active, nothing is lost: the next period is paid in advance
+      update = { currentPeriodEnd: addPlanPeriod(existing.currentPeriodEnd) };
+    } else {
+      update = {
+        planId: plan.id,
+        status: 'active',
+        autoRenew: true,
+        currentPeriodStart: now,
+        currentPeriodEnd: addPlanPeriod(now),
+        usage: {},
+        renewalAttempts: 0,
+        $unset: { graceEndsAt: 1, nextRenewalAttemptAt: 1, lastRenewalError: 1 }
+      };
+    }
+
+    await HoneySubscriptionModel.updateOne(
+      { telegramId: user.telegramId },
+      { ...update, user: user._id, updatedAt: now, $setOnInsert: { createdAt: now } },
+      { upsert: true, session }
+    );
+
+    const [honeyTransaction] = await HoneyTransactionModel.create([{
+      user: user._id,
+      telegramId: user.telegramId,
+      type: HoneyTransactionType.PLAN_PAYMENT,
+      amount: 0,
+      balanceAfter: user.dailyHoney || 0,
+      description: `Paid ${plan.name} plan with ${purchase.bnbAmount} BNB`,
+      metadata: { ...metadata, planId: plan.id },
+      purchaseId: purchase._id
+    }], { session });
+
+    await ReferralService.recordReferralEarnings(user, referralAmounts, honeyTransaction, session);
+    return honeyTransaction;
+  }
+
+  /**
+   * Roll over ended periods, retry unpaid renewals and expire plans whose grace ran out
+   */
+  static async processRenewals(): Promise<void> {
+    // Skip this tick if the previous one is still running
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      const now = new Date();
+      const due = await HoneySubscriptionModel.find({
+        $or: [
+          { status: 'active', currentPeriodEnd: { $lte: now } },
+          { status: 'grace' }
+        ]
+      });
+
+      for (const subscription of due) {
+        try {
+          await this.processSubscription(subscription, now);
+        } catch (error) {
+          log.error('Error renewing honey plan', { error, telegramId: subscription.telegramId });
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private static async processSubscription(subscription: DocumentType<HoneySubscription>, now: Date): Promise<void> {
+    const plan = getHoneyPlan(subscription.planId);
+
+    if (subscription.pendingPurchase) {
+      const purchase = await HoneyPurchaseModel.findById(subscription.pendingPurchase);
+      if (purchase && !['credited', 'refunded', 'failed'].includes(purchase.status)) {
+        return; // The settlement and reconciler are still working on it
+      }
+      await HoneySubscriptionModel.updateOne(
+        { _id: subscription._id },
+        purchase?.status === 'credited'
+          ? { $unset: { pendingPurchase: 1 } }
+          : { $unset: { pendingPurchase: 1 }, lastRenewalError: 'Renewal payment did not go through', nextRenewalAttemptAt: new Date(now.getTime() + RENEWAL_RETRY_MS) }
+      );
+      return;
+    }
+
+    if (subscription.status === 'active') {
+      if (!subscription.autoRenew || !plan) {
+        await HoneySubscriptionModel.updateOne({ _id: subscription._id, status: 'active' }, { status: 'expired', updatedAt: now });
+        await this.notifyUser(subscription.telegramId, `📅 Your ${plan?.name || subscription.planId} plan has ended. Features are charged in Honey again.`);
+        return;
+      }
+
+      // Start the next period right away, it stays in grace until its payment settles
+      const periodStart = subscription.currentPeriodEnd;
+      const renewed = await HoneySubscriptionModel.findOneAndUpdate(
+        { _id: subscription._id, status: 'active', currentPeriodEnd: periodStart },
+        {
+          status: 'grace',
+          currentPeriodStart: periodStart,
+          currentPeriodEnd: addPlanPeriod(periodStart),
+          graceEndsAt: new Date(periodStart.getTime() + GRACE_PERIOD_DAYS * DAY_MS),
+          usage: {},
+          renewalAttempts: 0,
+          updatedAt: now
+        },
+        { new: true }
+      );
+      if (renewed) {
+        await this.attemptRenewal(renewed, plan, now);
+      }
+      return;
+    }
+
+    // In grace
+    if (!subscription.graceEndsAt || now >= subscription.graceEndsAt) {
+      await HoneySubscriptionModel.updateOne({ _id: subscription._id, status: 'grace' }, { status: 'expired', updatedAt: now });
+      await this.notifyUser(subscription.telegramId, `⚠️ Your ${plan?.name || subscription.planId} plan couldn't be renewed and has expired. Features are charged in Honey again.`);
+      return;
+    }
+    if (plan && subscription.autoRenew && (!subscription.nextRenewalAttemptAt || now >= subscription.nextRenewalAttemptAt)) {
+      await this.attemptRenewal(subscription, plan, now);
+    }
+  }
+
+  private static async attemptRenewal(subscription: DocumentType<HoneySubscription>, plan: HoneyPlan, now: Date): Promise<void> {
+    const user = await UserModel.findOne({ telegramId: subscription.telegramId });
+    const hasBalance = !!user?.tradingWalletAddress && await HoneyRechargeService.validateBNBBalance(subscription.telegramId, plan.priceBnb);
+
+    if (!user || !hasBalance) {
+      await HoneySubscriptionModel.updateOne(
+        { _id: subscription._id },
+        {
+          $inc: { renewalAttempts: 1 },
+          lastRenewalError: 'Insufficient BNB balance (including gas fees)',
+          nextRenewalAttemptAt: new Date(now.getTime() + RENEWAL_RETRY_MS)
+        }
+      );
+      if (subscription.renewalAttempts === 0) {
+        const graceEnds = subscription.graceEndsAt?.toISOString().slice(0, 10);
+        await this.notifyUser(subscription.telegramId, `⚠️ Your ${plan.name} plan renewal needs ${plan.priceBnb} BNB (plus gas) in your trading wallet. Your plan keeps working until ${graceEnds} while we retry.`);
+      }
+      return;
+    }
+
+    const purchase = await HoneyRechargeService.payFromTradingWallet(user, plan.priceBnb, { planId: plan.id, honeyAmount: 0 });
+    await HoneySubscriptionModel.updateOne({ _id: subscription._id }, { pendingPurchase: purchase._id, $inc: { renewalAttempts: 1 } });
+    log.info('Honey plan renewal payment submitted', { telegramId: subscription.telegramId, planId: plan.id, purchaseId: purchase._id });
+  }
+
+  private static async notifyUser(telegramId: number, message: string): Promise<void> {
+    try {
+      const bot = (globalThis as any).botExport;
+      if (!bot) return;
+
+      await bot.telegram.sendMessage(telegramId, message, {
+        reply_markup: Markup.inlineKeyboard([
+          [Markup.button.callback('📅 Honey Plans', 'honey_plans')],
+          [Markup.button.callback('🏠 Main Menu', 'main_menu')]
+        ]).reply_markup
+      });
+    } catch (error) {
+      log.error('Error notifying user of honey plan renewal', { error, telegramId });
+    }
+  }
+}
@@ -251,7 +251,7 @@ export class KeeperService {
     newRole?: KeeperRole;
   }> {
     const user = await UserModel.findOne({ telegramId });
-    if (!user || !user.isKeeper) {
+    if (!user || !user.isKeeper || user.roleOverride) {
       return { upgraded: false };
     }
 
@@ -0,0 +1,508 @@
+import { DocumentType } from '@typegoose/typegoose';
+import { LimitOrderModel, LimitOrder, LimitOrderFill, LimitOrderSide, LimitOrderStatus } from '@/database/models/LimitOrder';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('services.limitOrders');
+
+// BNB kept in the trading wallet for gas when a buy is filled from the available balance
+const GAS_RESERVE_BNB = 0.005;
+// Cancel an order after this many failed fill attempts in a row
+const MAX_FAILED_ATTEMPTS = 3;
+// Remaining amounts below this share of the order are treated as filled
+const DUST_THRESHOLD = 0.001;
+// Partial fills must cover at least this share of the order
+const MIN_PARTIAL_FILL_SHARE = 0.01;
+// A fill still running after this long was interrupted (restart, failed update) and is reconciled
+const TRIGGERED_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface CreateLimitOrderParams {
+  telegramId: number;
+  tokenAddress: string;
+  tokenSymbol: string;
+  side: LimitOrderSide;
+  limitPrice: number;
+  amount: string;
+  goodTillHours: number;
+}
+
+/**
+ * Whether a limit order should fill at the given price
+ */
+export function isLimitOrderTriggered(side: LimitOrderSide, limitPrice: number, currentPrice: number): boolean {
+  if (!(currentPrice > 0)) return false;
+  return side === 'buy' ? currentPrice <= limitPrice : currentPrice >= limitPrice;
+}
+
+/**
+ * Amount still to fill for an order
+ */
+export function getRemainingAmount(order: Pick<LimitOrder, 'amount' | 'filledAmount'>): number {
+  const remaining = parseFloat(order.amount) - parseFloat(order.filledAmount || '0');
+  return remaining > parseFloat(order.amount) * DUST_THRESHOLD ? remaining : 0;
+}
+
+/**
+ * Size of the next fill: the remaining amount, capped by what the wallet can cover.
+ * Partial fills smaller than minimumFill are skipped so dust balances don't trigger swaps.
+ */
+export function computeFillAmount(remaining: number, available: number, minimumFill = 0): number {
+  if (!(remaining > 0) || !(available > 0)) return 0;
+  const fillAmount = Math.min(remaining, available);
+  return fillAmount < remaining && fillAmount < minimumFill ? 0 : fillAmount;
+}
+
+/**
+ * When an order was last claimed for a fill, from its status history
+ */
+export function getTriggeredAt(order: Pick<LimitOrder, 'statusHistory'>): Date | undefined {
+  const history = order.statusHistory || [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].status === 'triggered') return new Date(history[i].at);
+  }
+  return undefined;
+}
+
+/**
+ * Whether a triggered order has been mid-fill for longer than any fill takes
+ */
+export function isStaleTrigger(order: Pick<LimitOrder, 'status' | 'statusHistory'>, now = new Date()): boolean {
+  if (order.status !== 'triggered') return false;
+  const triggeredAt = getTriggeredAt(order);
+  return !triggeredAt || now.getTime() - triggeredAt.getTime() >= TRIGGERED_TIMEOUT_MS;
+}
+
+export class LimitOrderService {
+  private static processingTokens = new Set<string>();
+
+  /**
+   * Place a new limit order
+   */
+  static async createOrder(params: CreateLimitOrderParams): Promise<DocumentType<LimitOrder>> {
+    if (!(params.limitPrice > 0)) {
+      throw new Error('Limit price must be a positive number');
+    }
+    const amount = parseFloat(params.amount);
+    if (isNaN(amount) || amount <= 0) {
+      throw new Error('Amount must be a positive number');
+    }
+    if (!(params.goodTillHours > 0)) {
+      throw new Error('Expiry must be in the future');
+    }
+
+    const now = new Date();
+    const order = await LimitOrderModel.create({
+      telegramId: params.telegramId,
+      tokenAddress: params.tokenAddress.toLowerCase(),
+      tokenSymbol: params.tokenSymbol,
+      side: params.side,
+      limitPrice: params.limitPrice,
+      amount: params.amount,
+      goodTill: new Date(now.getTime() + params.goodTillHours * 60 * 60 * 1000),
+      status: 'open',
+      statusHistory: [{ status: 'open', at: now }]
+    });
+
+    logger.info('Limit order created', {
+      orderId: order._id.toString(),
+      telegramId: params.telegramId,
+      tokenAddress: params.tokenAddress,
+      side: params.side,
+      limitPrice: params.limitPrice,
+      amount: params.amount
+    });
+
+    return order;
+  }
+
+  /**
+   * Open orders first, then the most recent closed ones
+   */
+  static async getOrders(telegramId: number, tokenAddress?: string): Promise<DocumentType<LimitOrder>[]> {
+    const query: Record<string, any> = { telegramId };
+    if (tokenAddress) {
+      query.tokenAddress = tokenAddress.toLowerCase();
+    }
+
+    const [openOrders, closedOrders] = await Promise.all([
+      LimitOrderModel.find({ ...query, status: { $in: ['open', 'triggered'] } }).sort({ createdAt: -1 }),
+      LimitOrderModel.find({ ...query, status: { $in: ['filled', 'expired', 'cancelled'] } }).sort({ updatedAt: -1 }).limit(5)
+    ]);
+
+    return [...openOrders, ...closedOrders];
+  }
+
+  static async getOrder(telegramId: number, orderId: string): Promise<DocumentType<LimitOrder> | null> {
+    return LimitOrderModel.findOne({ _id: orderId, telegramId });
+  }
+
+  /**
+   * Cancel an open order. Orders in the middle of a fill cannot be cancelled, unless the fill
+   * was interrupted, in which case it is reconciled first.
+   */
+  static async cancelOrder(telegramId: number, orderId: string): Promise<boolean> {
+    const order = await LimitOrderModel.findOne({ _id: orderId, telegramId });
+    if (order && isStaleTrigger(order)) {
+      await this.reconcileTriggeredOrder(order);
+    }
+
+    const result = await LimitOrderModel.updateOne(
+      { _id: orderId, telegramId, status: 'open' },
+      {
+        status: 'cancelled',
+        $push: { statusHistory: { status: 'cancelled', at: new Date(), note: 'Cancelled by user' } }
+      }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Cancel every open order on a token, e.g. when the user stops tracking it
+   */
+  static async cancelOpenOrdersForToken(telegramId: number, tokenAddress: string, note: string): Promise<number> {
+    const result = await LimitOrderModel.updateMany(
+      { telegramId, tokenAddress: tokenAddress.toLowerCase(), status: 'open' },
+      {
+        status: 'cancelled',
+        $push: { statusHistory: { status: 'cancelled', at: new Date(), note } }
+      }
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Expire open orders past their good-till time and notify their owners
+   */
+  static async expireOrders(): Promise<void> {
+    // Interrupted fills go back to open first, so they can expire like any other order
+    await this.reconcileTriggeredOrders();
+
+    const now = new Date();
+    const expiredOrders = await LimitOrderModel.find({ status: 'open', goodTill: { $lte: now } });
+
+    for (const order of expiredOrders) {
+      const updated = await this.transitionStatus(order, 'open', 'expired', { note: 'Good-till time reached' });
+      if (updated) {
+        await this.sendOrderNotification(order.telegramId,
+          `⌛ **Limit Order Expired**\n\n` +
+          `${this.describeOrder(order)}\n` +
+          (parseFloat(order.filledAmount) > 0 ? `**Filled:** ${this.formatAmount(parseFloat(order.filledAmount))} of ${order.amount}\n` : '') +
+          `The order reached its good-till time.`
+        );
+      }
+    }
+  }
+
+  /**
+   * Evaluate open orders for a token at its latest price.
+   * Called by the token price monitor's pair listeners on every swap.
+   */
+  static async processPriceUpdate(tokenAddress: string, currentPrice: number): Promise<void> {
+    const tokenKey = tokenAddress.toLowerCase();
+
+    // Swap events can arrive faster than fills complete; one pass per token at a time
+    if (this.processingTokens.has(tokenKey)) return;
+    this.processingTokens.add(tokenKey);
+
+    try {
+      const now = new Date();
+      const openOrders = await LimitOrderModel.find({ tokenAddress: tokenKey, status: 'open' });
+
+      for (const order of openOrders) {
+        try {
+          if (order.goodTill <= now) {
+            continue; // Left for expireOrders
+          }
+          if (!isLimitOrderTriggered(order.side, order.limitPrice, currentPrice)) {
+            continue;
+          }
+
+          // Size the fill before claiming so an empty wallet doesn't churn the status history
+          const fillAmount = computeFillAmount(
+            getRemainingAmount(order),
+            await this.getAvailableAmount(order),
+            parseFloat(order.amount) * MIN_PARTIAL_FILL_SHARE
+          );
+          if (fillAmount <= 0) {
+            await this.markWaitingForBalance(order);
+            continue;
+          }
+
+          // Claim the order so a concurrent pass or a cancel can't act on it mid-fill
+          const claimed = await this.transitionStatus(order, 'open', 'triggered', { price: currentPrice });
+          if (!claimed) continue;
+
+          logger.info('Limit order triggered', {
+            orderId: order._id.toString(),
+            userId: order.telegramId,
+            tokenAddress: tokenKey,
+            side: order.side,
+            limitPrice: order.limitPrice,
+            currentPrice,
+            fillAmount
+          });
+
+          await this.fillOrder(order, currentPrice, fillAmount);
+        } catch (error) {
+          logger.error('Error processing limit order', { error, orderId: order._id.toString() });
+        }
+      }
+    } finally {
+      this.processingTokens.delete(tokenKey);
+    }
+  }
+
+  /**
+   * Execute one fill of a triggered order
+   */
+  private static async fillOrder(order: DocumentType<LimitOrder>, currentPrice: number, fillAmount: number): Promise<void> {
+    const { TradingService } = await import('@/services/trading');
+    const tradingService = new TradingService();
+    const fillAmountText = this.toAmountString(fillAmount);
+
+    const origin = { source: 'limit_order' as const, ruleId: order._id.toString(), trigger: order.side };
+    const result: { success: boolean; error?: string; txHash?: string; tokensReceived?: string } = order.side === 'buy'
+      ? await tradingService.executeAutoBuy(order.telegramId, order.tokenAddress, fillAmountText, origin)
+      : await tradingService.executeAutoSellAmount(order.telegramId, order.tokenAddress, fillAmountText, origin);
+
+    if (!result.success) {
+      await this.recordFailedAttempt(order, currentPrice, result.error || 'Swap execution failed');
+      return;
+    }
+
+    const { filledAmount, isFullyFilled, nextStatus } = await this.recordFill(order, fillAmount, {
+      received: result.tokensReceived,
+      price: currentPrice,
+      txHash: result.txHash,
+      filledAt: new Date()
+    });
+
+    logger.info('Limit order fill executed', {
+      orderId: order._id.toString(),
+      userId: order.telegramId,
+      fillAmount: fillAmountText,
+      filledAmount,
+      status: nextStatus,
+      txHash: result.txHash
+    });
+
+    const unit = order.side === 'buy' ? 'BNB' : order.tokenSymbol;
+    const bscscanLink = result.txHash ? `\n🔗 [View on BSCScan](https://bscscan.com/tx/${result.txHash})` : '';
+    await this.sendOrderNotification(order.telegramId,
+      `${isFullyFilled ? '✅ **Limit Order Filled**' : '🧩 **Limit Order Partially Filled**'}\n\n` +
+      `${this.describeOrder(order)}\n` +
+      `**This Fill:** ${fillAmountText} ${unit} at $${currentPrice.toPrecision(6)}\n` +
+      `**Filled:** ${this.formatAmount(filledAmount)} of ${order.amount} ${unit}` +
+      (isFullyFilled ? '' : `\n\nThe rest stays open until ${order.goodTill.toUTCString()}.`) +
+      bscscanLink
+    );
+  }
+
+  /**
+   * Add a fill to a triggered order and move it to filled, or back to open when some is left
+   */
+  private static async recordFill(
+    order: DocumentType<LimitOrder>,
+    fillAmount: number,
+    fill: Omit<LimitOrderFill, 'amount'>
+  ): Promise<{ filledAmount: number; isFullyFilled: boolean; nextStatus: LimitOrderStatus }> {
+    const fillAmountText = this.toAmountString(fillAmount);
+    const filledAmount = parseFloat(order.filledAmount || '0') + fillAmount;
+    const isFullyFilled = getRemainingAmount({ amount: order.amount, filledAmount: filledAmount.toString() }) === 0;
+    const nextStatus: LimitOrderStatus = isFullyFilled ? 'filled' : 'open';
+
+    await LimitOrderModel.updateOne(
+      { _id: order._id },
+      {
+        status: nextStatus,
+        filledAmount: this.toAmountString(filledAmount),
+        failedAttempts: 0,
+        waitingForBalance: false,
+        $push: {
+          fills: { ...fill, amount: fillAmountText },
+          statusHistory: {
+            status: nextStatus,
+            at: new Date(),
+            price: fill.price,
+            note: isFullyFilled ? undefined : `Partially filled ${fillAmountText} of ${order.amount}`
+          }
+        }
+      }
+    );
+
+    return { filledAmount, isFullyFilled, nextStatus };
+  }
+
+  /**
+   * Settle orders left triggered by a fill that never finished, e.g. a restart mid-swap or a
+   * failed update after it. Runs with the periodic expiry check.
+   */
+  static async reconcileTriggeredOrders(): Promise<void> {
+    const triggeredOrders = await LimitOrderModel.find({ status: 'triggered' });
+
+    for (const order of triggeredOrders) {
+      if (!isStaleTrigger(order)) continue;
+      try {
+        await this.reconcileTriggeredOrder(order);
+      } catch (error) {
+        logger.error('Error reconciling triggered limit order', { error, orderId: order._id.toString() });
+      }
+    }
+  }
+
+  /**
+   * Record the swap if the trade journal has it, otherwise reopen the order for the next
+   * price update
+   */
+  private static async reconcileTriggeredOrder(order: DocumentType<LimitOrder>): Promise<void> {
+    const triggeredAt = getTriggeredAt(order);
+    const knownTxHashes = (order.fills || []).map(fill => fill.txHash).filter(Boolean);
+
+    const { TradeJournalModel } = await import('@/database/models/TradeJournal');
+    const trade = await TradeJournalModel.findOne({
+      source: 'limit_order',
+      ruleId: order._id.toString(),
+      txHash: { $nin: knownTxHashes },
+      ...(triggeredAt ? { executedAt: { $gte: new Date(triggeredAt.getTime() - 60 * 1000) } } : {})
+    }).sort({ executedAt: 1 });
+
+    if (trade) {
+      const fillAmount = order.side === 'buy' ? trade.bnbAmount : trade.tokenAmount;
+      const received = order.side === 'buy' ? trade.tokenAmount : trade.bnbAmount;
+      const { nextStatus } = await this.recordFill(order, fillAmount, {
+        received: this.toAmountString(received),
+        price: trade.priceUsd || order.limitPrice,
+        txHash: trade.txHash,
+        filledAt: trade.executedAt
+      });
+      logger.info('Recorded interrupted limit order fill from the trade journal', {
+        orderId: order._id.toString(),
+        userId: order.telegramId,
+        txHash: trade.txHash,
+        status: nextStatus
+      });
+      return;
+    }
+
+    const reopened = await this.transitionStatus(order, 'triggered', 'open', { note: 'Fill was interrupted, reopened' });
+    if (reopened) {
+      logger.warn('Reopened limit order with an interrupted fill', { orderId: order._id.toString(), userId: order.telegramId });
+    }
+  }
+
+  /**
+   * Return a triggered order to open after a failed fill, cancelling it after repeated failures
+   */
+  private static async recordFailedAttempt(order: DocumentType<LimitOrder>, currentPrice: number, reason: string): Promise<void> {
+    const failedAttempts = (order.failedAttempts || 0) + 1;
+    const giveUp = failedAttempts >= MAX_FAILED_ATTEMPTS;
+    const nextStatus: LimitOrderStatus = giveUp ? 'cancelled' : 'open';
+
+    await LimitOrderModel.updateOne(
+      { _id: order._id },
+      {
+        status: nextStatus,
+        failedAttempts,
+        $push: { statusHistory: { status: nextStatus, at: new Date(), price: currentPrice, note: reason } }
+      }
+    );
+
+    logger.warn('Limit order fill failed', {
+      orderId: order._id.toString(),
+      userId: order.telegramId,
+      reason,
+      failedAttempts
+    });
+
+    await this.sendOrderNotification(order.telegramId,
+      `❌ **Limit Order Fill Failed**\n\n` +
+      `${this.describeOrder(order)}\n` +
+      `**Reason:** ${reason}\n\n` +
+      (giveUp
+        ? `The order was cancelled after ${MAX_FAILED_ATTEMPTS} failed attempts.`
+        : `The order stays open and will retry on the next price update.`)
+    );
+  }
+
+  /**
+   * Keep a triggered order open while the wallet can't cover it, notifying the user once
+   */
+  private static async markWaitingForBalance(order: DocumentType<LimitOrder>): Promise<void> {
+    if (order.waitingForBalance) return;
+
+    await LimitOrderModel.updateOne({ _id: order._id }, { waitingForBalance: true });
+
+    const asset = order.side === 'buy' ? 'BNB' : order.tokenSymbol;
+    await this.sendOrderNotification(order.telegramId,
+      `⚠️ **Limit Order Waiting for Funds**\n\n` +
+      `${this.describeOrder(order)}\n` +
+      `The limit price was reached but your trading wallet has no ${asset} available for this order. ` +
+      `It stays open and fills as soon as funds are available.`
+    );
+  }
+
+  /**
+   * How much the trading wallet can put towards the order right now
+   */
+  private static async getAvailableAmount(order: DocumentType<LimitOrder>): Promise<number> {
+    const { UserService } = await import('@/services/user');
+    const tradingWalletAddress = await UserService.getTradingWalletAddress(order.telegramId);
+    if (!tradingWalletAddress) return 0;
+
+    if (order.side === 'buy') {
+      const { getBNBBalance } = await import('@/services/wallet/balance');
+      const balance = parseFloat(await getBNBBalance(tradingWalletAddress));
+      return Math.max(0, balance - GAS_RESERVE_BNB);
+    }
+
+    const { PancakeSwapTrader } = await import('@/services/pancakeswap');
+    const trader = new PancakeSwapTrader();
+    return parseFloat(await trader.getTokenBalance(order.tokenAddress, tradingWalletAddress)) || 0;
+  }
+
+  /**
+   * Move an order between statuses only if it is still in the expected one
+   */
+  private static async transitionStatus(
+    order: DocumentType<LimitOrder>,
+    from: LimitOrderStatus,
+    to: LimitOrderStatus,
+    details: { price?: number; note?: string } = {}
+  ): Promise<boolean> {
+    const result = await LimitOrderModel.updateOne(
+      { _id: order._id, status: from },
+      {
+        status: to,
+        $push: { statusHistory: { status: to, at: new Date(), ...details } }
+      }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  private static describeOrder(order: LimitOrder): string {
+    const unit = order.side === 'buy' ? 'BNB' : order.tokenSymbol;
+    return `**${order.side === 'buy' ? '🟢 BUY' : '🔴 SELL'} ${order.tokenSymbol}** — ${order.amount} ${unit} @ $${order.limitPrice.toPrecision(6)}`;
+  }
+
+  private static formatAmount(amount: number): string {
+    return parseFloat(amount.toPrecision(8)).toString();
+  }
+
+  private static toAmountString(amount: number): string {
+    // Round down to avoid asking the router for more than the wallet holds
+    return (Math.floor(amount * 1e8) / 1e8).toString();
+  }
+
+  private static async sendOrderNotification(telegramId: number, message: string): Promise<void> {
+    try {
+      const bot = (globalThis as any).botExport;
+      if (!bot) return;
+
+      await bot.telegram.sendMessage(telegramId, message, {
+        parse_mode: 'Markdown',
+        disable_web_page_preview: true
+      });
+    } catch (error) {
+      logger.error('Error sending limit order notification', { error, telegramId });
+    }
+  }
+}
@@ -9,6 +9,7 @@ import { ethers } from 'ethers';
 
 import { UserService } from '../user';
 import { decryptPrivateKey } from '../wallet/tradingWallet';
+import { getTradingPreferences, getSwapDeadline, applyGasPreferences, getPrivateRpcUrl } from '../trading/tradingPreferences';
 import { createLogger } from '@/utils/logger';
 
 const logger = createLogger('pancakeswap.executor');
@@ -150,6 +151,8 @@ export class PancakeSwapExecutor {
           transport: http(RPC_URL),
       });
 
+      const preferences = await getTradingPreferences(userId);
+
       // 1. Get best trade
       const trade = await this.getBestTrade(params);
 
@@ -167,6 +170,7 @@ export class PancakeSwapExecutor {
       const { value, calldata } = SwapRouter.swapCallParameters(trade, {
         recipient: account.address,
         slippageTolerance,
+        deadlineOrPreviousBlockhash: BigInt(getSwapDeadline(preferences)),
       });
 
       const tx = {
@@ -186,7 +190,10 @@ export class PancakeSwapExecutor {
       // Increase gas price for competitive execution
       const enhancedGasPrice = BigInt(Math.floor(Number(baseGasPrice) * GAS_PRICE_MULTIPLIER));
       const minGasPrice = BigInt(MIN_GAS_PRICE_GWEI * 1e9); // Convert Gwei to Wei
-      const finalGasPrice = enhancedGasPrice > minGasPrice ? enhancedGasPrice : minGasPrice;
+      const suggestedGasPrice = enhancedGasPrice > minGasPrice ? enhancedGasPrice : minGasPrice;
+      
+      // User priority fee and gas cap
+      const finalGasPrice = applyGasPreferences(baseGasPrice, suggestedGasPrice, preferences);
       
       logger.info('Sending V3 transaction via Smart Router with gas optimization', {
         to: routerAddress,
@@ -195,14 +202,27 @@ export class PancakeSwapExecutor {
         bufferPercentage: GAS_BUFFER_PERCENTAGE,
         baseGasPrice: baseGasPrice.toString(),
         finalGasPrice: finalGasPrice.toString(),
-        gasPriceMultiplier: GAS_PRICE_MULTIPLIER
+        gasPriceMultiplier: GAS_PRICE_MULTIPLIER,
+        privateMempool: preferences.privateMempool
       });
 
-      const hash = await walletClient.sendTransaction({ 
+      const request = { 
         ...tx, 
         gas: gasWithBuffer, 
         gasPrice: finalGasPrice 
-      });
+      };
+
+      let hash: `0x${string}`;
+      const privateRpcUrl = getPrivateRpcUrl();
+      if (preferences.privateMempool && privateRpcUrl) {
+        // Sign locally and hand the raw transaction to the private RPC only
+        const prepared = await walletClient.prepareTransactionRequest(request);
+        const serializedTransaction = await walletClient.signTransaction(prepared);
+        const privateClient = createPublicClient({ chain: bsc, transport: http(privateRpcUrl) });
+        hash = await privateClient.sendRawTransaction({ serializedTransaction });
+      } else {
+        hash = await walletClient.sendTransaction(request);
+      }
       
       logger.info('V3 transaction sent, waiting for confirmation...', { hash });
       const receipt = await publicClient.waitForTransactionReceipt({ hash });
@@ -0,0 +1,596 @@
+import { ethers, FixedNumber } from 'ethers';
+import mongoose, { Types } from 'mongoose';
+import { Markup } from 'telegraf';
+import { DocumentType } from '@typegoose/typegoose';
+import { UserModel } from '../database/models/User';
+import { ReferralEarningModel } from '../database/models/ReferralEarning';
+import { ReferralPayout, ReferralPayoutAttempt, ReferralPayoutModel, ReferralPayoutStatus } from '../database/models/ReferralPayout';
+import { HoneyTransactionModel, HoneyTransactionType } from '../database/models/HoneyTransaction';
+import { alertAdmins } from './admin';
+import { canLookUpNonces, findTransactionByNonce } from './chain/nonces';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('referralPayouts');
+
+export const PAYOUT_INTERVAL_MINUTES = Number(process.env.REFERRAL_PAYOUT_INTERVAL_MINUTES) || 10;
+const LOW_BALANCE_BNB = process.env.REFERRAL_PAYOUT_LOW_BALANCE_BNB || '0.5';
+const MAX_GAS_PRICE = ethers.parseUnits(process.env.REFERRAL_PAYOUT_MAX_GAS_GWEI || '20', 'gwei');
+const LOW_BALANCE_ALERT_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const BATCH_SIZE = 50;
+const TRANSFER_GAS_LIMIT = 80000; // Headroom for recipients that are contract wallets
+const STUCK_AFTER_MS = 3 * 60 * 1000; // An attempt not mined after this gets a gas bump
+const GAS_BUMP_PERCENT = 125n;
+const MAX_ATTEMPTS_PER_NONCE = 5;
+const MAX_RESUBMISSIONS = 3;
+const UNRESOLVED_ALERT_CHECKS = 6; // Checks a payout can stay unresolved before operators are alerted
+const RECONCILE_TOLERANCE_WEI = 10n ** 10n; // Rounding left over from float-based amounts
+
+export type ReferralPayoutDocument = DocumentType<ReferralPayout>;
+
+export interface ReferralBalanceTotals {
+  earned: bigint; // Sum of the user's ReferralEarning records
+  recordedEarned: bigint; // User.totalReferralBNBEarned
+  unclaimed: bigint; // User.unclaimedReferralBNB
+  paidOut: bigint; // Confirmed payouts
+  inFlight: bigint; // Queued and submitted payouts
+  converted: bigint; // Converted to Honey
+}
+
+export interface ReferralReconciliationReport {
+  generatedAt: Date;
+  totals: Record<keyof ReferralBalanceTotals, string>; // BNB
+  payouts: Record<ReferralPayoutStatus, { count: number; bnb: string }>;
+  senderWallet?: { address: string; balance: string; coversInFlight: boolean };
+  discrepancies: { userId: string; telegramId?: number; issues: string[] }[];
+}
+
+/**
+ * Parse a stored BNB amount to wei. Amounts are strings, but older records and Decimal128
+ * sums can come in as numbers or exponent notation.
+ */
+export function bnbToWei(amount: unknown): bigint {
+  if (amount === undefined || amount === null || amount === '') return 0n;
+  let text = String(amount);
+  if (/e/i.test(text)) {
+    text = Number(text).toFixed(18);
+  }
+  const [whole, fraction] = text.split('.');
+  return ethers.parseEther(fraction ? `${whole}.${fraction.slice(0, 18)}` : whole);
+}
+
+/**
+ * Gas price to re-sign a stuck payout with: enough above the last attempt for nodes to accept
+ * it as a replacement and never below the network price. Null once the cap is reached.
+ */
+export function nextGasPrice(lastGasPrice: bigint, networkGasPrice: bigint, maxGasPrice: bigint = MAX_GAS_PRICE): bigint | null {
+  if (lastGasPrice >= maxGasPrice) return null;
+  const bumped = (lastGasPrice * GAS_BUMP_PERCENT + 99n) / 100n;
+  const next = bumped > networkGasPrice ? bumped : networkGasPrice;
+  return next > maxGasPrice ? maxGasPrice : next;
+}
+
+/**
+ * A user's referral earnings records should add up to their recorded total, and what they
+ * earned minus what was paid out, is on its way or was converted should be what's left unclaimed
+ */
+export function findReferralDiscrepancies(totals: ReferralBalanceTotals): string[] {
+  const differs = (a: bigint, b: bigint) => (a > b ? a - b : b - a) > RECONCILE_TOLERANCE_WEI;
+  const issues: string[] = [];
+
+  if (differs(totals.earned, totals.recordedEarned)) {
+    issues.push(`Earning records add up to ${ethers.formatEther(totals.earned)} BNB but the recorded total is ${ethers.formatEther(totals.recordedEarned)} BNB`);
+  }
+  const expectedUnclaimed = totals.earned - totals.paidOut - totals.inFlight - totals.converted;
+  if (differs(expectedUnclaimed, totals.unclaimed)) {
+    issues.push(`Unclaimed balance is ${ethers.formatEther(totals.unclaimed)} BNB but earnings less payouts and conversions leave ${ethers.formatEther(expectedUnclaimed)} BNB`);
+  }
+  return issues;
+}
+
+/**
+ * Pays queued referral withdrawals in periodic batches from REFERRAL_SENDER_PRIVATE_KEY.
+ * Each payout is signed and persisted before it is broadcast, so a run interrupted at any
+ * point is picked up by the next one without paying twice.
+ */
+export class ReferralPayoutService {
+  private static intervalId: NodeJS.Timeout | null = null;
+  private static isProcessing = false;
+  private static provider: ethers.JsonRpcProvider | null = null;
+  private static lastLowBalanceAlertAt = 0;
+
+  /**
+   * Start the payout runs, with a first one right away for payouts left by the restart
+   */
+  static start(): void {
+    logger.info('Starting referral payout runs...');
+
+    if (!canLookUpNonces()) {
+      logger.error('ETHERSCAN_API_KEY is not set: a payout whose nonce was taken by another transaction stays submitted until an operator resolves it');
+    }
+
+    const run = () => {
+      this.runPayouts().catch(error => {
+        logger.error('Error running referral payouts', { error });
+      });
+    };
+    run();
+    this.intervalId = setInterval(run, PAYOUT_INTERVAL_MINUTES * 60 * 1000);
+
+    logger.info('Referral payout runs started successfully');
+  }
+
+  /**
+   * Stop the payout runs
+   */
+  static stop(): void {
+    logger.info('Stopping referral payout runs...');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    logger.info('Referral payout runs stopped');
+  }
+
+  /**
+   * Settle submitted payouts first, so the balance check for the new batch sees what they spent
+   */
+  static async runPayouts(): Promise<void> {
+    // Skip this tick if the previous one is still running
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      const privateKey = process.env.REFERRAL_SENDER_PRIVATE_KEY;
+      if (!privateKey) {
+        logger.error('CRITICAL: REFERRAL_SENDER_PRIVATE_KEY is not set!');
+        return;
+      }
+      const wallet = new ethers.Wallet(privateKey, this.getProvider());
+
+      await this.checkSubmitted(wallet);
+      await this.submitQueued(wallet);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Compare referral balances with earnings, payouts and conversions, per user and overall
+   */
+  static async getReconciliationReport(): Promise<ReferralReconciliationReport> {
+    const decimalSum = (field: string) => ({ $sum: { $toDecimal: field } });
+    const [earnings, payouts, conversions] = await Promise.all([
+      ReferralEarningModel.aggregate([{ $group: { _id: '$earningUser', total: decimalSum('$bnbAmount') } }]),
+      ReferralPayoutModel.aggregate([
+        { $group: { _id: { user: '$user', status: '$status' }, total: decimalSum('$bnbAmount'), count: { $sum: 1 } } }
+      ]),
+      HoneyTransactionModel.aggregate([
+        { $match: { type: HoneyTransactionType.REFERRAL_CONVERSION } },
+        { $group: { _id: '$user', total: decimalSum('$metadata.bnbAmount') } }
+      ])
+    ]);
+
+    const perUser = new Map<string, ReferralBalanceTotals>();
+    const totalsOf = (userId: unknown) => {
+      const key = String(userId);
+      if (!perUser.has(key)) {
+        perUser.set(key, { earned: 0n, recordedEarned: 0n, unclaimed: 0n, paidOut: 0n, inFlight: 0n, converted: 0n });
+      }
+      return perUser.get(key)!;
+    };
+
+    const payoutStats: ReferralReconciliationReport['payouts'] = {
+      queued: { count: 0, bnb: '0' },
+      submitted: { count: 0, bnb: '0' },
+      confirmed: { count: 0, bnb: '0' },
+      failed: { count: 0, bnb: '0' }
+    };
+    const payoutWei: Record<string, bigint> = {};
+
+    for (const row of earnings) {
+      totalsOf(row._id).earned += bnbToWei(row.total);
+    }
+    for (const row of conversions) {
+      totalsOf(row._id).converted += bnbToWei(row.total);
+    }
+    for (const row of payouts) {
+      const status = row._id.status as ReferralPayoutStatus;
+      const amount = bnbToWei(row.total);
+      if (status === 'confirmed') totalsOf(row._id.user).paidOut += amount;
+      if (status === 'queued' || status === 'submitted') totalsOf(row._id.user).inFlight += amount;
+      if (payoutStats[status]) {
+        payoutStats[status].count += row.count;
+        payoutWei[status] = (payoutWei[status] || 0n) + amount;
+      }
+    }
+    for (const [status, amount] of Object.entries(payoutWei)) {
+      payoutStats[status as ReferralPayoutStatus].bnb = ethers.formatEther(amount);
+    }
+
+    const userIds = [...perUser.keys()].map(id => new Types.ObjectId(id));
+    const users = await UserModel.find({
+      $or: [{ _id: { $in: userIds } }, { unclaimedReferralBNB: { $nin: ['0', '0.0'] } }, { totalReferralBNBEarned: { $nin: ['0', '0.0'] } }]
+    })
+      .select('telegramId unclaimedReferralBNB totalReferralBNBEarned')
+      .lean();
+
+    const telegramIds = new Map<string, number>();
+    for (const user of users) {
+      const totals = totalsOf(user._id);
+      totals.unclaimed = bnbToWei(user.unclaimedReferralBNB);
+      totals.recordedEarned = bnbToWei(user.totalReferralBNBEarned);
+      telegramIds.set(String(user._id), user.telegramId);
+    }
+
+    const overall: ReferralBalanceTotals = { earned: 0n, recordedEarned: 0n, unclaimed: 0n, paidOut: 0n, inFlight: 0n, converted: 0n };
+    const discrepancies: ReferralReconciliationReport['discrepancies'] = [];
+    for (const [userId, totals] of perUser) {
+      for (const key of Object.keys(overall) as (keyof ReferralBalanceTotals)[]) {
+        overall[key] += totals[key];
+      }
+      const issues = findReferralDiscrepancies(totals);
+      if (issues.length > 0) {
+        discrepancies.push({ userId, telegramId: telegramIds.get(userId), issues });
+      }
+    }
+
+    let senderWallet: ReferralReconciliationReport['senderWallet'];
+    if (process.env.REFERRAL_SENDER_PRIVATE_KEY) {
+      try {
+        const address = new ethers.Wallet(process.env.REFERRAL_SENDER_PRIVATE_KEY).address;
+        const balance = await this.getProvider().getBalance(address);
+        senderWallet = { address, balance: ethers.formatEther(balance), coversInFlight: balance >= overall.inFlight };
+      } catch (error) {
+        logger.warn('Could not read the referral payout wallet balance', { error });
+      }
+    }
+
+    return {
+      generatedAt: new Date(),
+      totals: {
+        earned: ethers.formatEther(overall.earned),
+        recordedEarned: ethers.formatEther(overall.recordedEarned),
+        unclaimed: ethers.formatEther(overall.unclaimed),
+        paidOut: ethers.formatEther(overall.paidOut),
+        inFlight: ethers.formatEther(overall.inFlight),
+        converted: ethers.formatEther(overall.converted)
+      },
+      payouts: payoutStats,
+      senderWallet,
+      discrepancies
+    };
+  }
+
+  /**
+   * Sign and broadcast queued payouts oldest first, as far as the wallet balance goes. Payouts
+   * that don't fit wait for the next run so withdrawals stay in order.
+   */
+  private static async submitQueued(wallet: ethers.Wallet): Promise<void> {
+    const queued = await ReferralPayoutModel.find({ status: 'queued' }).sort({ createdAt: 1 }).limit(BATCH_SIZE);
+    const provider = this.getProvider();
+    const [balance, feeData, network, pendingNonce] = await Promise.all([
+      provider.getBalance(wallet.address),
+      provider.getFeeData(),
+      provider.getNetwork(),
+      provider.getTransactionCount(wallet.address, 'pending')
+    ]);
+
+    const gasPrice = feeData.gasPrice ?? ethers.parseUnits('1', 'gwei');
+    const batchId = new Types.ObjectId().toHexString();
+    let available = balance;
+    let nonce = pendingNonce;
+    let sent = 0;
+    let shortOfFunds = false;
+
+    for (const payout of queued) {
+      const cost = bnbToWei(payout.bnbAmount) + gasPrice * BigInt(TRANSFER_GAS_LIMIT);
+      if (cost > available) {
+        shortOfFunds = true;
+        break;
+      }
+
+      const attempt = await this.sign(wallet, payout, nonce, gasPrice, network.chainId);
+      const submitted = await ReferralPayoutModel.findOneAndUpdate(
+        { _id: payout._id, status: 'queued' },
+        { status: 'submitted', batchId, transactionHash: attempt.txHash, submittedAt: new Date(), $push: { attempts: attempt } },
+        { new: true }
+      );
+      if (!submitted) continue;
+
+      if (!(await this.broadcast(attempt))) {
+        // The node may have passed it on anyway, so the payout stays submitted and checkSubmitted
+        // finds out. Later payouts would only wait on its nonce, they go out in the next run.
+        break;
+      }
+
+      nonce++;
+      available -= cost;
+      sent++;
+    }
+
+    if (sent > 0) {
+      logger.info('Referral payout batch submitted', { batchId, payouts: sent, sender: wallet.address });
+    }
+    await this.checkSenderBalance(wallet.address, available, shortOfFunds);
+  }
+
+  private static async checkSubmitted(wallet: ethers.Wallet): Promise<void> {
+    const submitted = await ReferralPayoutModel.find({ status: 'submitted' }).sort({ submittedAt: 1 }).limit(BATCH_SIZE);
+    if (submitted.length === 0) return;
+
+    const provider = this.getProvider();
+    const [accountNonce, feeData, network] = await Promise.all([
+      provider.getTransactionCount(wallet.address, 'latest'),
+      provider.getFeeData(),
+      provider.getNetwork()
+    ]);
+
+    for (const payout of submitted) {
+      try {
+        await this.checkPayout(wallet, payout, accountNonce, feeData.gasPrice ?? 0n, network.chainId);
+      } catch (error) {
+        logger.error('Error checking referral payout', { error, payoutId: payout._id });
+      }
+    }
+  }
+
+  /**
+   * Confirm or fail a payout from its receipt. Without one, a payout whose nonce was taken by
+   * another transaction from the wallet goes back to the queue, and one stuck in the mempool is
+   * re-signed with more gas.
+   */
+  private static async checkPayout(
+    wallet: ethers.Wallet,
+    payout: ReferralPayoutDocument,
+    accountNonce: number,
+    networkGasPrice: bigint,
+    chainId: bigint
+  ): Promise<void> {
+    const latest = payout.attempts[payout.attempts.length - 1];
+    if (!latest) return;
+
+    // Any attempt may be the one that was mined, including those of nonces before a resubmission
+    const provider = this.getProvider();
+    for (const attempt of payout.attempts) {
+      const receipt = await provider.getTransactionReceipt(attempt.txHash);
+      if (!receipt) continue;
+      if (receipt.status === 1) {
+        return this.confirm(payout, attempt.txHash, receipt.blockNumber);
+      }
+      return this.fail(payout, `Transaction ${attempt.txHash} reverted`);
+    }
+
+    if (Date.now() - new Date(latest.sentAt).getTime() < STUCK_AFTER_MS) return;
+
+    if (accountNonce > latest.nonce) {
+      // A used nonce without a receipt may just be an RPC node that hasn't served the receipt
+      // yet. Only a transaction that isn't one of our attempts frees the payout for a new nonce.
+      const usedBy = await findTransactionByNonce(wallet.address, latest.nonce);
+      if (!usedBy) {
+        return this.noteUnresolved(payout, latest);
+      }
+      if (payout.attempts.some(attempt => attempt.txHash.toLowerCase() === usedBy)) return;
+
+      if (payout.resubmissions >= MAX_RESUBMISSIONS) {
+        return this.fail(payout, 'Transaction was replaced too many times');
+      }
+      logger.warn('Referral payout nonce was used by another transaction, queueing it again', {
+        payoutId: payout._id,
+        nonce: latest.nonce,
+        txHash: latest.txHash,
+        usedBy
+      });
+      // The attempts stay, so a later check still sees them all
+      await ReferralPayoutModel.updateOne(
+        { _id: payout._id, status: 'submitted' },
+        { status: 'queued', unresolvedChecks: 0, $unset: { batchId: 1, transactionHash: 1, submittedAt: 1 }, $inc: { resubmissions: 1 } }
+      );
+      return;
+    }
+
+    const candidates = payout.attempts.filter(attempt => attempt.nonce === latest.nonce);
+    const gasPrice = candidates.length < MAX_ATTEMPTS_PER_NONCE ? nextGasPrice(BigInt(latest.gasPrice), networkGasPrice) : null;
+    if (gasPrice === null) {
+      // At the gas cap, keep the latest attempt in the mempool
+      logger.warn('Referral payout still pending at the gas price cap', { payoutId: payout._id, txHash: latest.txHash });
+      await this.broadcast(latest);
+      return;
+    }
+
+    const attempt = await this.sign(wallet, payout, latest.nonce, gasPrice, chainId);
+    const saved = await ReferralPayoutModel.updateOne(
+      { _id: payout._id, status: 'submitted', transactionHash: latest.txHash },
+      { transactionHash: attempt.txHash, $push: { attempts: attempt } }
+    );
+    if (saved.modifiedCount === 0) return;
+
+    logger.info('Bumped gas on stuck referral payout', {
+      payoutId: payout._id,
+      nonce: latest.nonce,
+      gasPriceGwei: ethers.formatUnits(gasPrice, 'gwei'),
+      txHash: attempt.txHash
+    });
+    await this.broadcast(attempt);
+  }
+
+  /**
+   * Count a check that found the payout's nonce used without knowing by which transaction, and
+   * alert operators once when that keeps happening, e.g. without ETHERSCAN_API_KEY
+   */
+  private static async noteUnresolved(payout: ReferralPayoutDocument, latest: ReferralPayoutAttempt): Promise<void> {
+    const updated = await ReferralPayoutModel.findOneAndUpdate(
+      { _id: payout._id, status: 'submitted' },
+      { $inc: { unresolvedChecks: 1 } },
+      { new: true }
+    );
+    if (!updated || updated.unresolvedChecks !== UNRESOLVED_ALERT_CHECKS) return;
+
+    logger.error('Referral payout unresolved, its nonce was used but not by a known transaction', {
+      payoutId: payout._id,
+      nonce: latest.nonce,
+      txHash: latest.txHash,
+      checks: updated.unresolvedChecks
+    });
+    let message = `⚠️ *Referral payout unresolved*\n\n`;
+    message += `💰 ${payout.bnbAmount} BNB to \`${payout.recipientWalletAddress}\`\n`;
+    message += `🔢 Nonce ${latest.nonce} was used, but it can't be told by which transaction.\n`;
+    message += `📄 [Latest attempt](https://bscscan.com/tx/${latest.txHash})\n\n`;
+    message += canLookUpNonces()
+      ? 'Etherscan doesn\'t show the transaction that used the nonce, check the payout wallet by hand.'
+      : 'ETHERSCAN\\_API\\_KEY is not set, so replaced payouts can\'t be detected. Check the payout wallet by hand.';
+    await alertAdmins(message);
+  }
+
+  private static async confirm(payout: ReferralPayoutDocument, txHash: string, blockNumber: number): Promise<void> {
+    const confirmed = await ReferralPayoutModel.findOneAndUpdate(
+      { _id: payout._id, status: 'submitted' },
+      { status: 'confirmed', transactionHash: txHash, blockNumber, confirmedAt: new Date() },
+      { new: true }
+    );
+    if (!confirmed) return;
+
+    logger.info('Referral payout confirmed', { payoutId: payout._id, telegramId: payout.telegramId, bnbAmount: payout.bnbAmount, txHash });
+    await this.notifyUser(confirmed);
+  }
+
+  /**
+   * Mark the payout failed and give the amount back to the user's unclaimed balance, together
+   */
+  private static async fail(payout: ReferralPayoutDocument, reason: string): Promise<void> {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+    try {
+      const failed = await ReferralPayoutModel.findOneAndUpdate(
+        { _id: payout._id, status: 'submitted' },
+        { status: 'failed', failureReason: reason },
+        { new: true, session }
+      );
+      if (!failed) {
+        await session.abortTransaction();
+        return;
+      }
+
+      const user = await UserModel.findById(payout.user).session(session);
+      if (user) {
+        user.unclaimedReferralBNB = FixedNumber.fromString(user.unclaimedReferralBNB || '0')
+          .addUnsafe(FixedNumber.fromString(payout.bnbAmount))
+          .toString();
+        await user.save({ session });
+      }
+      await session.commitTransaction();
+
+      logger.warn('Referral payout failed, amount returned to the unclaimed balance', {
+        payoutId: payout._id,
+        telegramId: payout.telegramId,
+        bnbAmount: payout.bnbAmount,
+        reason
+      });
+      await this.notifyUser(failed);
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  private static async sign(
+    wallet: ethers.Wallet,
+    payout: ReferralPayoutDocument,
+    nonce: number,
+    gasPrice: bigint,
+    chainId: bigint
+  ): Promise<ReferralPayoutAttempt> {
+    const rawTransaction = await wallet.signTransaction({
+      type: 0,
+      to: payout.recipientWalletAddress,
+      value: bnbToWei(payout.bnbAmount),
+      gasLimit: TRANSFER_GAS_LIMIT,
+      gasPrice,
+      nonce,
+      chainId
+    });
+    return { txHash: ethers.Transaction.from(rawTransaction).hash!, nonce, gasPrice: gasPrice.toString(), rawTransaction, sentAt: new Date() };
+  }
+
+  /**
+   * Returns false when the node returned an error, which doesn't prove the transaction never
+   * reached the network
+   */
+  private static async broadcast(attempt: ReferralPayoutAttempt): Promise<boolean> {
+    try {
+      await this.getProvider().broadcastTransaction(attempt.rawTransaction);
+      return true;
+    } catch (error: any) {
+      const message = String(error?.message || error).toLowerCase();
+      if (message.includes('already known') || message.includes('nonce too low') || error?.code === 'NONCE_EXPIRED') {
+        return true;
+      }
+      logger.warn('Referral payout transaction rejected', { txHash: attempt.txHash, error: error?.message || String(error) });
+      return false;
+    }
+  }
+
+  /**
+   * Alert operators when the payout wallet can't cover the queue or drops below
+   * REFERRAL_PAYOUT_LOW_BALANCE_BNB, at most every few hours
+   */
+  private static async checkSenderBalance(address: string, balance: bigint, shortOfFunds: boolean): Promise<void> {
+    if (!shortOfFunds && balance >= ethers.parseEther(LOW_BALANCE_BNB)) return;
+    if (Date.now() - this.lastLowBalanceAlertAt < LOW_BALANCE_ALERT_INTERVAL_MS) return;
+    this.lastLowBalanceAlertAt = Date.now();
+
+    const queued = await ReferralPayoutModel.find({ status: 'queued' }).select('bnbAmount').lean();
+    const queuedTotal = queued.reduce((sum, payout) => sum + bnbToWei(payout.bnbAmount), 0n);
+    logger.error('Referral payout wallet is low on funds', {
+      address,
+      balance: ethers.formatEther(balance),
+      queuedPayouts: queued.length,
+      queuedTotal: ethers.formatEther(queuedTotal)
+    });
+
+    let message = `⚠️ *Referral payout wallet low on funds*\n\n`;
+    message += `👛 Wallet: \`${address}\`\n`;
+    message += `💰 Balance: ${ethers.formatEther(balance)} BNB\n`;
+    message += `⏳ Queued payouts: ${queued.length} (${ethers.formatEther(queuedTotal)} BNB)\n\n`;
+    message += shortOfFunds
+      ? 'Payouts are waiting for a top-up.'
+      : `The balance is below the ${LOW_BALANCE_BNB} BNB alert threshold.`;
+    await alertAdmins(message);
+  }
+
+  private static async notifyUser(payout: ReferralPayoutDocument): Promise<void> {
+    if (!payout.telegramId) return;
+
+    const message = payout.status === 'confirmed'
+      ? `✅ *Referral Withdrawal Sent*\n\n` +
+        `💰 ${payout.bnbAmount} BNB to \`${payout.recipientWalletAddress}\`\n` +
+        `📄 Transaction: [View on BSCScan](https://bscscan.com/tx/${payout.transactionHash})`
+      : `❌ *Referral Withdrawal Failed*\n\n` +
+        `${payout.bnbAmount} BNB could not be sent and is back in your unclaimed referral earnings.`;
+
+    try {
+      const bot = (globalThis as any).botExport;
+      if (!bot) return;
+
+      await bot.telegram.sendMessage(payout.telegramId, message, {
+        parse_mode: 'Markdown',
+        reply_markup: Markup.inlineKeyboard([
+          [Markup.button.callback('🎯 Referrals', 'referral_menu')],
+          [Markup.button.callback('🏠 Main Menu', 'main_menu')]
+        ]).reply_markup
+      });
+    } catch (error) {
+      logger.warn('Failed to notify user about referral payout', { error, payoutId: payout._id, telegramId: payout.telegramId });
+    }
+  }
+
+  static getProvider(): ethers.JsonRpcProvider {
+    if (!this.provider) {
+      this.provider = new ethers.JsonRpcProvider(process.env.BSC_RPC_URL || 'https://bsc-dataseed.binance.org/');
+    }
+    return this.provider;
+  }
+}
@@ -1,8 +1,9 @@
-import { ethers, FixedNumber } from 'ethers';
+import { FixedNumber } from 'ethers';
 import { User, UserModel } from '../database/models/User';
 import { HoneyTransaction, HoneyTransactionModel, HoneyTransactionType } from '../database/models/HoneyTransaction';
 import { ReferralEarningModel } from '../database/models/ReferralEarning';
 import { ReferralPayoutModel } from '../database/models/ReferralPayout';
+import { PAYOUT_INTERVAL_MINUTES } from './referralPayouts';
 import { getBNBPrice } from './wallet/tokenPriceCache';
 import { createLogger } from '@/utils/logger';
 import { Types } from 'mongoose';
@@ -14,7 +15,6 @@ const logger = createLogger('referralService');
 // Configuration constants
 const REFERRAL_SENDER_PRIVATE_KEY = process.env.REFERRAL_SENDER_PRIVATE_KEY;
 const MIN_CLAIM_BNB = '0.01';
-const BSC_RPC_URL = process.env.BSC_RPC_URL || 'https://bsc-dataseed1.binance.org/';
 const BNB_TO_HONEY_RATE = 150000; // 1 BNB = 150,000 Honey
 
 export class ReferralService {
@@ -62,11 +62,13 @@ export class ReferralService {
   /**
    * Record referral earnings after the split payment is confirmed
    * This replaces the old distributeReferralEarnings function
+   * With a session errors are rethrown, so the whole credit rolls back and is retried
    */
   static async recordReferralEarnings(
     buyer: DocumentType<User>,
     referralAmounts: { referrer: DocumentType<User>; amount: number; tier: number }[],
-    sourceTransaction: DocumentType<HoneyTransaction>
+    sourceTransaction: DocumentType<HoneyTransaction>,
+    session?: mongoose.ClientSession
   ): Promise<void> {
     try {
       const bnbPrice = await getBNBPrice();
@@ -78,17 +80,17 @@ export class ReferralService {
         const earningAmountFixed = FixedNumber.fromString(amount.toString());
         
         // Record the earning details
-        await ReferralEarningModel.create({
+        await ReferralEarningModel.create([{
           earningUser: referrer._id,
           fromUser: buyer._id,
           sourceTransaction: sourceTransaction._id,
           tier,
           bnbAmount: earningAmountFixed.toString(),
           usdValueAtTime: amount * bnbPrice
-        });
+        }], { session });
 
         // Update referrer's unclaimed balance
-        const referrerDoc = await UserModel.findById(referrer._id);
+        const referrerDoc = await UserModel.findById(referrer._id).session(session ?? null);
         if (referrerDoc) {
           const currentUnclaimedFixed = FixedNumber.fromString(referrerDoc.unclaimedReferralBNB);
           const currentTotalFixed = FixedNumber.fromString(referrerDoc.totalReferralBNBEarned);
@@ -96,7 +98,7 @@ export class ReferralService {
           referrerDoc.unclaimedReferralBNB = currentUnclaimedFixed.addUnsafe(earningAmountFixed).toString();
           referrerDoc.totalReferralBNBEarned = currentTotalFixed.addUnsafe(earningAmountFixed).toString();
           
-          await referrerDoc.save();
+          await referrerDoc.save({ session });
         }
 
         logger.info(`Recorded tier ${tier} referral earning`, {
@@ -110,6 +112,9 @@ export class ReferralService {
         error,
         buyerId: buyer.telegramId
       });
+      if (session) {
+        throw error;
+      }
     }
   }
 
@@ -195,13 +200,14 @@ export class ReferralService {
   }
 
   /**
-   * Process a user's request to withdraw their referral earnings to their wallet
-   * Now supports partial withdrawals
+   * Queue a withdrawal of referral earnings to the user's main wallet. The amount is taken
+   * from the unclaimed balance now and paid by the next payout run (see ReferralPayoutService).
+   * Supports partial withdrawals.
    */
   static async withdrawReferralBNB(user: DocumentType<User>, amountToWithdrawStr: string): Promise<{ 
     success: boolean; 
     message: string; 
-    txHash?: string 
+    payoutId?: string;
   }> {
     if (!REFERRAL_SENDER_PRIVATE_KEY) {
         logger.error('CRITICAL: REFERRAL_SENDER_PRIVATE_KEY is not set!');
@@ -226,60 +232,48 @@ export class ReferralService {
         return { success: false, message: 'No main wallet connected. Please connect your wallet first.' };
     }
     
+    const session = await mongoose.startSession();
+    session.startTransaction();
     try {
-      const provider = new ethers.JsonRpcProvider(BSC_RPC_URL);
-      const wallet = new ethers.Wallet(REFERRAL_SENDER_PRIVATE_KEY, provider);
-
-      const balance = await provider.getBalance(wallet.address);
-      const valueInWei = ethers.parseUnits(amountToWithdrawStr, 18);
-      
-      if (balance < valueInWei) {
-        logger.error('Referral sender wallet has insufficient funds!', {
-          required: amountToWithdrawStr,
-          balance: ethers.formatEther(balance)
-        });
-        return { success: false, message: 'Service wallet is currently low on funds. Please try again later.' };
+      // Reserve the amount from the stored balance, another withdrawal may have taken part of it
+      const userToUpdate = await UserModel.findById(user._id).session(session);
+      if (!userToUpdate) throw new Error('User not found during transaction');
+
+      const currentUnclaimed = FixedNumber.fromString(userToUpdate.unclaimedReferralBNB);
+      if (amountToWithdrawFixed.gt(currentUnclaimed)) {
+        await session.abortTransaction();
+        return { success: false, message: `Insufficient balance. You can only withdraw up to ${currentUnclaimed.toString()} BNB.` };
       }
+      userToUpdate.unclaimedReferralBNB = currentUnclaimed.subUnsafe(amountToWithdrawFixed).toString();
+      await userToUpdate.save({ session });
 
-      const tx = await wallet.sendTransaction({
-        to: user.walletAddress,
-        value: valueInWei,
-      });
+      const [payout] = await ReferralPayoutModel.create([{
+        user: user._id,
+        telegramId: user.telegramId,
+        bnbAmount: amountToWithdrawFixed.toString(),
+        recipientWalletAddress: user.walletAddress,
+        status: 'queued'
+      }], { session });
+
+      await session.commitTransaction();
 
-      logger.info('Referral payout transaction sent', {
+      logger.info('Referral payout queued', {
         userId: user.telegramId,
         amount: amountToWithdrawStr,
-        txHash: tx.hash,
+        payoutId: payout._id,
       });
-      
-      const receipt = await tx.wait();
-      
-      if (receipt && receipt.status === 1) {
-        const userToUpdate = await UserModel.findById(user._id);
-        if (userToUpdate) {
-            const currentUnclaimed = FixedNumber.fromString(userToUpdate.unclaimedReferralBNB);
-            userToUpdate.unclaimedReferralBNB = currentUnclaimed.subUnsafe(amountToWithdrawFixed).toString();
-            await userToUpdate.save();
-        }
 
-        await ReferralPayoutModel.create({
-          user: user._id,
-          bnbAmount: amountToWithdrawStr,
-          recipientWalletAddress: user.walletAddress,
-          transactionHash: tx.hash,
-          status: 'completed'
-        });
-
-        // For partial withdrawals, we don't mark ReferralEarning docs as claimed
-        // This is a simplification - in production you might want more sophisticated tracking
-
-        return { success: true, message: 'Withdrawal successful!', txHash: tx.hash };
-      } else {
-        throw new Error('Transaction failed on-chain');
-      }
+      return {
+        success: true,
+        message: `Withdrawal of ${amountToWithdrawFixed.toString()} BNB queued! Payouts are sent every ${PAYOUT_INTERVAL_MINUTES} minutes, you'll get a message once yours is on-chain.`,
+        payoutId: payout._id.toString()
+      };
     } catch (error) {
-      logger.error('Error withdrawing referral earnings', { error, userId: user.telegramId, amount: amountToWithdrawStr });
+      await session.abortTransaction();
+      logger.error('Error queueing referral withdrawal', { error, userId: user.telegramId, amount: amountToWithdrawStr });
       return { success: false, message: `An error occurred: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    } finally {
+      session.endSession();
     }
   }
 
@@ -0,0 +1,277 @@
+import { ethers } from 'ethers';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('rpc.pairLogWatcher');
+
+// Events that mean a pair's price moved. V2 pairs emit Sync with the new reserves after every
+// swap/mint/burn; V3 pools only emit Swap (PancakeSwap V3 adds two protocol fee fields).
+export const PRICE_EVENT_TOPICS = [
+    ethers.id('Sync(uint112,uint112)'),
+    ethers.id('Swap(address,address,int256,int256,uint160,uint128,int24)'),
+    ethers.id('Swap(address,address,int256,int256,uint160,uint128,int24,uint128,uint128)')
+];
+
+export type PairActivityHandler = (pairAddresses: string[]) => Promise<void>;
+
+export interface PairLogWatcherOptions {
+    shardSize: number; // Pair addresses per log filter
+    pollIntervalMs: number; // How often activity is flushed (and logs polled without WebSocket)
+    maxBlockRange: number; // Blocks per eth_getLogs request
+    maxCatchUpBlocks: number; // Older blocks are skipped when the poller falls behind
+}
+
+export interface PairLogWatcherLoad {
+    mode: 'websocket' | 'polling' | 'stopped';
+    pairCount: number;
+    shardCount: number;
+    pendingPairs: number;
+    lastProcessedBlock: number | null;
+    blockLag: number | null;
+    logsProcessed: number;
+    pollsRun: number;
+    pollErrors: number;
+    skippedBlocks: number;
+    lastPollDurationMs: number | null;
+}
+
+const DEFAULT_OPTIONS: PairLogWatcherOptions = {
+    shardSize: 100,
+    pollIntervalMs: 15 * 1000,
+    maxBlockRange: 500,
+    maxCatchUpBlocks: 5000
+};
+
+/**
+ * Split pair addresses into fixed-size groups, one log filter each
+ */
+export function shardPairs(pairAddresses: string[], shardSize: number): string[][] {
+    const sorted = [...pairAddresses].sort();
+    const shards: string[][] = [];
+    for (let i = 0; i < sorted.length; i += shardSize) {
+        shards.push(sorted.slice(i, i + shardSize));
+    }
+    return shards;
+}
+
+/**
+ * Split an inclusive block range into chunks of at most maxRange blocks
+ */
+export function splitBlockRange(fromBlock: number, toBlock: number, maxRange: number): Array<[number, number]> {
+    const ranges: Array<[number, number]> = [];
+    for (let start = fromBlock; start <= toBlock; start += maxRange) {
+        ranges.push([start, Math.min(start + maxRange - 1, toBlock)]);
+    }
+    return ranges;
+}
+
+/**
+ * Watches price events for many pairs with a handful of batched log filters.
+ * Uses WebSocket subscriptions when a WebSocket provider is given and falls back to
+ * polling eth_getLogs by block range otherwise. Activity is coalesced per pair, so a
+ * pair that swaps 50 times between two flushes is reported once.
+ */
+export class PairLogWatcher {
+    private pairs = new Set<string>();
+    private shards: string[][] = [];
+    private shardsDirty = false;
+    private pendingPairs = new Set<string>();
+    private subscribedFilters: ethers.Filter[] = [];
+    private timer: NodeJS.Timeout | null = null;
+    private isTicking = false;
+    private lastProcessedBlock: number | null = null;
+    private latestBlock: number | null = null;
+    private options: PairLogWatcherOptions;
+    private stats = {
+        logsProcessed: 0,
+        pollsRun: 0,
+        pollErrors: 0,
+        skippedBlocks: 0,
+        lastPollDurationMs: null as number | null
+    };
+
+    constructor(
+        private provider: ethers.Provider,
+        private onActivity: PairActivityHandler,
+        private wsProvider: ethers.WebSocketProvider | null = null,
+        options: Partial<PairLogWatcherOptions> = {}
+    ) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    addPair(pairAddress: string): void {
+        const key = pairAddress.toLowerCase();
+        if (this.pairs.has(key)) return;
+        this.pairs.add(key);
+        this.shardsDirty = true;
+    }
+
+    removePair(pairAddress: string): void {
+        const key = pairAddress.toLowerCase();
+        if (!this.pairs.delete(key)) return;
+        this.pendingPairs.delete(key);
+        this.shardsDirty = true;
+    }
+
+    hasPair(pairAddress: string): boolean {
+        return this.pairs.has(pairAddress.toLowerCase());
+    }
+
+    start(): void {
+        if (this.timer) return;
+
+        this.timer = setInterval(() => {
+            this.tick().catch(error => {
+                logger.error('Error in pair log watcher tick', { error });
+            });
+        }, this.options.pollIntervalMs);
+
+        logger.info('Pair log watcher started', {
+            mode: this.wsProvider ? 'websocket' : 'polling',
+            pollIntervalMs: this.options.pollIntervalMs,
+            shardSize: this.options.shardSize
+        });
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        this.unsubscribeAll();
+        this.pendingPairs.clear();
+        this.lastProcessedBlock = null;
+        logger.info('Pair log watcher stopped');
+    }
+
+    getLoad(): PairLogWatcherLoad {
+        return {
+            mode: !this.timer ? 'stopped' : this.wsProvider ? 'websocket' : 'polling',
+            pairCount: this.pairs.size,
+            shardCount: Math.ceil(this.pairs.size / this.options.shardSize),
+            pendingPairs: this.pendingPairs.size,
+            lastProcessedBlock: this.lastProcessedBlock,
+            blockLag: this.latestBlock !== null && this.lastProcessedBlock !== null
+                ? this.latestBlock - this.lastProcessedBlock
+                : null,
+            ...this.stats
+        };
+    }
+
+    /**
+     * Refresh shards, collect new activity and hand changed pairs to the handler
+     */
+    async tick(): Promise<void> {
+        // A slow handler or RPC must not stack ticks on top of each other
+        if (this.isTicking) return;
+        this.isTicking = true;
+
+        try {
+            if (this.shardsDirty) {
+                this.shards = shardPairs(Array.from(this.pairs), this.options.shardSize);
+                this.shardsDirty = false;
+                if (this.wsProvider) {
+                    this.resubscribe();
+                }
+            }
+
+            if (!this.wsProvider) {
+                await this.pollLogs();
+            }
+
+            if (this.pendingPairs.size === 0) return;
+
+            const activePairs = Array.from(this.pendingPairs);
+            this.pendingPairs.clear();
+            await this.onActivity(activePairs);
+        } finally {
+            this.isTicking = false;
+        }
+    }
+
+    private async pollLogs(): Promise<void> {
+        if (this.shards.length === 0) return;
+
+        const startedAt = Date.now();
+        const latestBlock = await this.provider.getBlockNumber();
+        this.latestBlock = latestBlock;
+
+        if (this.lastProcessedBlock === null) {
+            // First poll only sets the starting point; current prices are read when pairs are added
+            this.lastProcessedBlock = latestBlock;
+            return;
+        }
+
+        let fromBlock = this.lastProcessedBlock + 1;
+        if (fromBlock > latestBlock) return;
+
+        if (latestBlock - fromBlock + 1 > this.options.maxCatchUpBlocks) {
+            const skipped = latestBlock - this.options.maxCatchUpBlocks + 1 - fromBlock;
+            this.stats.skippedBlocks += skipped;
+            logger.warn('Pair log watcher fell behind, skipping old blocks', { skipped, fromBlock, latestBlock });
+            fromBlock = latestBlock - this.options.maxCatchUpBlocks + 1;
+        }
+
+        for (const [rangeStart, rangeEnd] of splitBlockRange(fromBlock, latestBlock, this.options.maxBlockRange)) {
+            for (const shard of this.shards) {
+                try {
+                    const logs = await this.provider.getLogs({
+                        address: shard,
+                        topics: [PRICE_EVENT_TOPICS],
+                        fromBlock: rangeStart,
+                        toBlock: rangeEnd
+                    });
+                    this.recordLogs(logs);
+                } catch (error) {
+                    // Retry the whole range on the next tick instead of silently losing a shard
+                    this.stats.pollErrors++;
+                    logger.warn('Failed to fetch pair logs', {
+                        error: error instanceof Error ? error.message : String(error),
+                        fromBlock: rangeStart,
+                        toBlock: rangeEnd,
+                        shardSize: shard.length
+                    });
+                    return;
+                }
+            }
+            this.lastProcessedBlock = rangeEnd;
+        }
+
+        this.stats.pollsRun++;
+        this.stats.lastPollDurationMs = Date.now() - startedAt;
+    }
+
+    private recordLogs(logs: Array<{ address: string }>): void {
+        for (const log of logs) {
+            const pairAddress = log.address.toLowerCase();
+            if (this.pairs.has(pairAddress)) {
+                this.pendingPairs.add(pairAddress);
+            }
+        }
+        this.stats.logsProcessed += logs.length;
+    }
+
+    private resubscribe(): void {
+        if (!this.wsProvider) return;
+
+        this.unsubscribeAll();
+
+        for (const shard of this.shards) {
+            const filter: ethers.Filter = { address: shard, topics: [PRICE_EVENT_TOPICS] };
+            this.wsProvider.on(filter, (log: ethers.Log) => this.recordLogs([log]));
+            this.subscribedFilters.push(filter);
+        }
+
+        logger.info('Subscribed pair log filters', { shards: this.shards.length, pairs: this.pairs.size });
+    }
+
+    private unsubscribeAll(): void {
+        if (!this.wsProvider) return;
+
+        for (const filter of this.subscribedFilters) {
+            this.wsProvider.off(filter).catch(error => {
+                logger.debug('Error removing pair log filter', { error });
+            });
+        }
+        this.subscribedFilters = [];
+    }
+}
@@ -11,6 +11,7 @@ export interface DecodedTransaction {
   contractName?: string;
   tokenIn?: string;
   tokenOut?: string;
+  tokenAddress?: string; // Contract of the non-BNB side of a swap
   amountIn?: string;
   amountOut?: string;
   amountMin?: string;
@@ -23,6 +24,14 @@ export interface DecodedTransaction {
   tags?: string[];
 }
 
+// Fields the decoder reads: a mined TransactionResponse and an unsent request both fit
+export interface DecodableTransaction {
+  to?: string | null;
+  data: string;
+  value?: bigint;
+  hash?: string;
+}
+
 export enum TransactionType {
   NATIVE_TRANSFER = 'NATIVE_TRANSFER',
   DEX_SWAP = 'DEX_SWAP',
@@ -94,6 +103,8 @@ export class TransactionDecoder {
       'function swapETHForExactTokens(uint amountOut, address[] calldata path, address to, uint deadline) external payable',
       'function swapExactTokensForETH(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline) external',
       'function swapExactTokensForTokens(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline) external',
+      'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint amountOutMin, address[] calldata path, address to, uint deadline) external payable',
+      'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline) external',
       
       // Liquidity functions
       'function addLiquidityETH(address token, uint amountTokenDesired, uint amountTokenMin, uint amountETHMin, address to, uint deadline) external payable',
@@ -136,7 +147,7 @@ export class TransactionDecoder {
     logger.info('🔧 Transaction decoder initialized with ABIs for major BSC contracts');
   }
 
-  async decodeTransaction(tx: ethers.TransactionResponse): Promise<DecodedTransaction> {
+  async decodeTransaction(tx: DecodableTransaction): Promise<DecodedTransaction> {
     try {
       // Native BNB transfer
       if (!tx.data || tx.data === '0x') {
@@ -184,7 +195,7 @@ export class TransactionDecoder {
     }
   }
 
-  private async analyzeDecodedTransaction(tx: ethers.TransactionResponse, decoded: any): Promise<DecodedTransaction> {
+  private async analyzeDecodedTransaction(tx: DecodableTransaction, decoded: any): Promise<DecodedTransaction> {
     const contractName = this.contractNames.get(tx.to || '') || 'Unknown Contract';
     const functionName = decoded.name;
 
@@ -214,18 +225,20 @@ export class TransactionDecoder {
     };
   }
 
-  private async analyzeDEXTransaction(tx: ethers.TransactionResponse, decoded: any, contractName: string): Promise<DecodedTransaction> {
+  private async analyzeDEXTransaction(tx: DecodableTransaction, decoded: any, contractName: string): Promise<DecodedTransaction> {
     const functionName = decoded.name;
     const args = decoded.args;
 
     switch (functionName) {
       case 'swapExactETHForTokens':
+      case 'swapExactETHForTokensSupportingFeeOnTransferTokens':
         return {
           type: TransactionType.DEX_SWAP,
           functionName,
           contractName,
           tokenIn: 'BNB',
           tokenOut: await getTokenSymbol(args.path[args.path.length - 1], this.provider),
+          tokenAddress: args.path[args.path.length - 1],
           amountIn: ethers.formatEther(tx.value || 0),
           amountMin: this.formatTokenAmount(args.amountOutMin),
           recipient: args.to,
@@ -235,12 +248,14 @@ export class TransactionDecoder {
         };
 
       case 'swapExactTokensForETH':
+      case 'swapExactTokensForETHSupportingFeeOnTransferTokens':
         return {
           type: TransactionType.DEX_SWAP,
           functionName,
           contractName,
           tokenIn: await getTokenSymbol(args.path[0], this.provider),
           tokenOut: 'BNB',
+          tokenAddress: args.path[0],
           amountIn: this.formatTokenAmount(args.amountIn),
           amountMin: ethers.formatEther(args.amountOutMin),
           recipient: args.to,
@@ -289,7 +304,7 @@ export class TransactionDecoder {
     }
   }
 
-  private async analyzeERC20Transaction(tx: ethers.TransactionResponse, decoded: any): Promise<DecodedTransaction> {
+  private async analyzeERC20Transaction(tx: DecodableTransaction, decoded: any): Promise<DecodedTransaction> {
     const functionName = decoded.name;
     const args = decoded.args;
     const tokenSymbol = await getTokenSymbol(tx.to || '', this.provider);
@@ -328,7 +343,7 @@ export class TransactionDecoder {
     }
   }
 
-  private async analyzeDeFiTransaction(tx: ethers.TransactionResponse, decoded: any, contractName: string): Promise<DecodedTransaction> {
+  private async analyzeDeFiTransaction(tx: DecodableTransaction, decoded: any, contractName: string): Promise<DecodedTransaction> {
     const functionName = decoded.name;
     const args = decoded.args;
 
@@ -365,7 +380,7 @@ export class TransactionDecoder {
     };
   }
 
-  private async handleUnknownContract(tx: ethers.TransactionResponse): Promise<DecodedTransaction> {
+  private async handleUnknownContract(tx: DecodableTransaction): Promise<DecodedTransaction> {
     // Try to identify common function signatures even for unknown contracts
     const functionSelector = tx.data.slice(0, 10);
     const knownSelectors: Record<string, string> = {
@@ -496,7 +511,7 @@ export class TransactionDecoder {
     }
   }
 
-  private assessRisk(tx: ethers.TransactionResponse, decoded: any): RiskLevel {
+  private assessRisk(tx: DecodableTransaction, decoded: any): RiskLevel {
     // Assess risk based on multiple factors
     let riskScore = 0;
 
@@ -0,0 +1,298 @@
+import { ethers } from 'ethers';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('rugAlerts.bytecodeAnalyzer');
+
+export type RiskCapability = 'mint' | 'blacklist' | 'set_fee' | 'pause' | 'proxy_upgrade' | 'selfdestruct' | 'hidden_owner';
+
+export type ProxyType = 'eip1967' | 'eip1967_beacon' | 'eip1167';
+
+export interface Instruction {
+  pc: number;
+  opcode: number;
+  pushData?: string; // Hex without 0x, for PUSH1-PUSH32
+}
+
+export interface BytecodeCapability {
+  capability: RiskCapability;
+  label: string;
+  functions: string[]; // Matched function signatures, empty for opcode-based findings
+}
+
+export interface ProxyInfo {
+  type: ProxyType;
+  implementation?: string;
+  upgradeable: boolean;
+}
+
+export interface BytecodeScan {
+  codeSize: number;
+  selectors: string[];
+  hasSelfDestruct: boolean;
+  hasEip1967Slot: boolean;
+  minimalProxyTarget?: string;
+}
+
+export interface BytecodeAnalysis {
+  hasCode: boolean;
+  codeSize: number;
+  selectorCount: number;
+  proxy?: ProxyInfo;
+  capabilities: BytecodeCapability[];
+}
+
+const OP_EQ = 0x14;
+const OP_LT = 0x10;
+const OP_GT = 0x11;
+const OP_PUSH1 = 0x60;
+const OP_PUSH4 = 0x63;
+const OP_PUSH32 = 0x7f;
+const OP_SELFDESTRUCT = 0xff;
+
+// EIP-1967 storage slots: keccak256('eip1967.proxy.<name>') - 1
+const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+const EIP1967_BEACON_SLOT = '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+const EIP1967_ADMIN_SLOT = '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103';
+
+// EIP-1167 minimal proxy runtime code around the 20-byte implementation address
+const EIP1167_PATTERN = /^363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/;
+
+// Score penalties for these live in the safety score model (src/config/safetyScoreModels.ts)
+const CAPABILITY_DEFINITIONS: Array<{ capability: RiskCapability; label: string; signatures: string[] }> = [
+  {
+    capability: 'mint',
+    label: 'Can mint new tokens',
+    signatures: ['mint(address,uint256)', 'mint(uint256)', 'mintTo(address,uint256)', 'issue(uint256)', 'generateTokens(address,uint256)']
+  },
+  {
+    capability: 'blacklist',
+    label: 'Can blacklist wallets',
+    signatures: [
+      'blacklist(address)', 'blacklistAddress(address,bool)', 'addToBlacklist(address)', 'addBlacklist(address)',
+      'setBlacklist(address,bool)', 'setBlacklisted(address,bool)', 'setBot(address,bool)', 'setBots(address[],bool)', 'addBots(address[])'
+    ]
+  },
+  {
+    capability: 'set_fee',
+    label: 'Can change trading fees',
+    signatures: [
+      'setFee(uint256)', 'setFees(uint256,uint256)', 'setFees(uint256,uint256,uint256)', 'setTaxFeePercent(uint256)',
+      'setLiquidityFeePercent(uint256)', 'setMarketingFee(uint256)', 'setBuyFee(uint256)', 'setSellFee(uint256)',
+      'setBuyTax(uint256)', 'setSellTax(uint256)', 'setTax(uint256)', 'updateFees(uint256,uint256)',
+      'updateBuyFees(uint256,uint256,uint256)', 'updateSellFees(uint256,uint256,uint256)'
+    ]
+  },
+  {
+    capability: 'pause',
+    label: 'Can pause trading or transfers',
+    signatures: ['pause()', 'setPaused(bool)', 'setTradingEnabled(bool)', 'setTradingStatus(bool)']
+  },
+  {
+    capability: 'proxy_upgrade',
+    label: 'Upgradeable, the code can be replaced',
+    signatures: ['upgradeTo(address)', 'upgradeToAndCall(address,bytes)', 'changeAdmin(address)', 'setImplementation(address)']
+  }
+];
+
+const OWNER_VIEW_SIGNATURES = ['owner()', 'getOwner()'];
+
+const SELFDESTRUCT_CAPABILITY = { capability: 'selfdestruct' as const, label: 'Contains SELFDESTRUCT' };
+const HIDDEN_OWNER_CAPABILITY = { capability: 'hidden_owner' as const, label: 'Admin functions without a public owner' };
+
+function selectorOf(signature: string): string {
+  return ethers.id(signature).slice(2, 10);
+}
+
+const OWNER_VIEW_SELECTORS = new Set(OWNER_VIEW_SIGNATURES.map(selectorOf));
+
+/**
+ * Drop the CBOR metadata solc appends after the runtime code so its bytes are not read as opcodes
+ */
+function stripMetadata(code: Uint8Array): Uint8Array {
+  if (code.length < 2) return code;
+  const metadataLength = (code[code.length - 2] << 8) | code[code.length - 1];
+  const start = code.length - 2 - metadataLength;
+  // CBOR maps with 1-5 entries start with 0xa1-0xa5
+  if (metadataLength > 0 && start >= 0 && code[start] >= 0xa1 && code[start] <= 0xa5) {
+    return code.slice(0, start);
+  }
+  return code;
+}
+
+/**
+ * Split deployed bytecode into instructions, reading PUSH immediates
+ */
+export function disassemble(bytecode: string): Instruction[] {
+  const code = ethers.getBytes(bytecode);
+  const instructions: Instruction[] = [];
+
+  for (let pc = 0; pc < code.length; pc++) {
+    const opcode = code[pc];
+    if (opcode >= OP_PUSH1 && opcode <= OP_PUSH32) {
+      const size = opcode - OP_PUSH1 + 1;
+      const data = code.slice(pc + 1, pc + 1 + size);
+      instructions.push({ pc, opcode, pushData: ethers.hexlify(data).slice(2) });
+      pc += size;
+    } else {
+      instructions.push({ pc, opcode });
+    }
+  }
+
+  return instructions;
+}
+
+/**
+ * Find function selectors, proxy markers and SELFDESTRUCT in runtime bytecode
+ */
+export function scanBytecode(bytecode: string): BytecodeScan {
+  const hex = bytecode.toLowerCase().replace(/^0x/, '');
+  const minimalProxy = hex.match(EIP1167_PATTERN);
+  const code = stripMetadata(ethers.getBytes(`0x${hex}`));
+  const instructions = disassemble(ethers.hexlify(code));
+
+  const selectors = new Set<string>();
+  let hasSelfDestruct = false;
+  let hasEip1967Slot = false;
+
+  for (let i = 0; i < instructions.length; i++) {
+    const instruction = instructions[i];
+    if (instruction.opcode === OP_SELFDESTRUCT) {
+      hasSelfDestruct = true;
+    } else if (instruction.opcode === OP_PUSH32 && `0x${instruction.pushData}` === EIP1967_IMPLEMENTATION_SLOT) {
+      hasEip1967Slot = true;
+    } else if (instruction.opcode >= OP_PUSH1 && instruction.opcode <= OP_PUSH4 && instruction.pushData) {
+      // The function dispatcher compares calldata's selector with EQ, or with GT/LT when it splits into a binary search
+      const comparison = instructions.slice(i + 1, i + 3).find(next => next.opcode === OP_EQ || next.opcode === OP_GT || next.opcode === OP_LT);
+      if (comparison) {
+        selectors.add(instruction.pushData.padStart(8, '0'));
+      }
+    }
+  }
+
+  return {
+    codeSize: code.length,
+    selectors: [...selectors],
+    hasSelfDestruct,
+    hasEip1967Slot,
+    minimalProxyTarget: minimalProxy ? ethers.getAddress(`0x${minimalProxy[1]}`) : undefined
+  };
+}
+
+/**
+ * Map selectors and opcodes to risky capabilities
+ */
+export function assessCapabilities(selectors: string[], hasSelfDestruct: boolean, proxy?: ProxyInfo): BytecodeCapability[] {
+  const selectorSet = new Set(selectors);
+  const capabilities: BytecodeCapability[] = [];
+
+  for (const definition of CAPABILITY_DEFINITIONS) {
+    const functions = definition.signatures.filter(signature => selectorSet.has(selectorOf(signature)));
+    const upgradeableProxy = definition.capability === 'proxy_upgrade' && proxy?.upgradeable;
+    if (functions.length > 0 || upgradeableProxy) {
+      capabilities.push({ capability: definition.capability, label: definition.label, functions });
+    }
+  }
+
+  if (hasSelfDestruct) {
+    capabilities.push({ ...SELFDESTRUCT_CAPABILITY, functions: [] });
+  }
+
+  // Without owner()/getOwner() the ownership check reads the token as ownerless, even though
+  // someone can still call the admin functions found above
+  const hasOwnerView = selectors.some(selector => OWNER_VIEW_SELECTORS.has(selector));
+  if (!hasOwnerView && capabilities.some(capability => capability.functions.length > 0)) {
+    capabilities.push({ ...HIDDEN_OWNER_CAPABILITY, functions: [] });
+  }
+
+  return capabilities;
+}
+
+/**
+ * Static analysis of deployed contract bytecode, used when source code isn't available.
+ * Proxies are followed to their implementation, whose functions are what holders are exposed to.
+ */
+export class BytecodeAnalyzer {
+  constructor(private provider: ethers.Provider) {}
+
+  async analyzeContract(address: string): Promise<BytecodeAnalysis | null> {
+    try {
+      const code = await this.provider.getCode(address);
+      if (!code || code === '0x') {
+        return { hasCode: false, codeSize: 0, selectorCount: 0, capabilities: [] };
+      }
+
+      const scan = scanBytecode(code);
+      const proxy = await this.detectProxy(address, scan);
+
+      let selectors = scan.selectors;
+      let hasSelfDestruct = scan.hasSelfDestruct;
+      if (proxy?.implementation) {
+        const implementationCode = await this.provider.getCode(proxy.implementation);
+        if (implementationCode && implementationCode !== '0x') {
+          const implementationScan = scanBytecode(implementationCode);
+          selectors = [...new Set([...selectors, ...implementationScan.selectors])];
+          hasSelfDestruct = hasSelfDestruct || implementationScan.hasSelfDestruct;
+          // UUPS proxies keep the upgrade function in the implementation
+          if (implementationScan.selectors.includes(selectorOf('upgradeTo(address)'))
+            || implementationScan.selectors.includes(selectorOf('upgradeToAndCall(address,bytes)'))) {
+            proxy.upgradeable = true;
+          }
+        }
+      }
+
+      const capabilities = assessCapabilities(selectors, hasSelfDestruct, proxy);
+
+      return {
+        hasCode: true,
+        codeSize: scan.codeSize,
+        selectorCount: selectors.length,
+        proxy,
+        capabilities
+      };
+    } catch (error) {
+      logger.error('Error analyzing contract bytecode', {
+        address,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  private async detectProxy(address: string, scan: BytecodeScan): Promise<ProxyInfo | undefined> {
+    if (scan.minimalProxyTarget) {
+      return { type: 'eip1167', implementation: scan.minimalProxyTarget, upgradeable: false };
+    }
+
+    const [implementationSlot, beaconSlot, adminSlot] = await Promise.all([
+      this.provider.getStorage(address, EIP1967_IMPLEMENTATION_SLOT),
+      this.provider.getStorage(address, EIP1967_BEACON_SLOT),
+      this.provider.getStorage(address, EIP1967_ADMIN_SLOT)
+    ]);
+
+    const implementation = this.slotToAddress(implementationSlot);
+    const admin = this.slotToAddress(adminSlot);
+    if (implementation || scan.hasEip1967Slot) {
+      // A transparent proxy with an admin can always be upgraded
+      return { type: 'eip1967', implementation, upgradeable: !!admin };
+    }
+
+    const beacon = this.slotToAddress(beaconSlot);
+    if (beacon) {
+      let beaconImplementation: string | undefined;
+      try {
+        const beaconContract = new ethers.Contract(beacon, ['function implementation() view returns (address)'], this.provider);
+        beaconImplementation = await beaconContract.implementation();
+      } catch (error) {
+        logger.debug('Failed to read beacon implementation', { address, beacon });
+      }
+      return { type: 'eip1967_beacon', implementation: beaconImplementation, upgradeable: true };
+    }
+
+    return undefined;
+  }
+
+  private slotToAddress(slot: string): string | undefined {
+    if (!slot || BigInt(slot) === 0n) return undefined;
+    return ethers.getAddress(ethers.dataSlice(slot, 12));
+  }
+}
@@ -0,0 +1,335 @@
+import { ethers } from 'ethers';
+import { DeployerProfileModel, DeployerProfile, DeployedToken, DeployedTokenStatus } from '@/database/models/DeployerProfile';
+import { DeadTokenModel } from '@/database/models/DeadToken';
+import { hapiAddressRiskService } from '@/services/hapiLabs/addressRisk';
+import { createLogger } from '@/utils/logger';
+import { etherscanRequest, getEtherscanApiKey } from '@/services/chain/etherscan';
+
+const logger = createLogger('rugAlerts.deployerReputation');
+
+const REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000; // Deployment history and token outcomes are re-read this often
+const NEW_TOKEN_REFRESH_MS = 10 * 60 * 1000; // Earlier re-read when the analysed token isn't in the history yet
+const MAX_DEPLOYED_CONTRACTS = 30; // Most recent contract creations checked per deployer
+const MAX_NETWORK_PROFILES = 50;
+const FUNDING_LOOKUP_TXS = 20; // Oldest transactions searched for the deployer's first incoming BNB
+
+// A V2 pair keeps MINIMUM_LIQUIDITY LP tokens forever, so a pair left with only those had all its liquidity removed
+const MINIMUM_LIQUIDITY = 1000n;
+
+const PANCAKE_FACTORY = '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73';
+const QUOTE_TOKENS = [
+  '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c', // WBNB
+  '0x55d398326f99059fF775485246999027B3197955', // USDT
+  '0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56' // BUSD
+];
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Exchange hot wallets fund thousands of unrelated wallets, so they don't link deployers together
+export const EXCHANGE_HOT_WALLETS: Record<string, string> = {
+  '0x8894e0a0c962cb723c1976a4421c95949be2d4e3': 'Binance',
+  '0xe2fc31f816a9b94326492132018c3aecc4a93ae1': 'Binance',
+  '0xf977814e90da44bfa03b6295a0616a897441acec': 'Binance'
+};
+
+const FLAGGED_RISK_LEVELS = ['HIGH', 'CRITICAL'];
+
+const TOKEN_ABI = [
+  'function symbol() view returns (string)',
+  'function totalSupply() view returns (uint256)'
+];
+const FACTORY_ABI = ['function getPair(address tokenA, address tokenB) view returns (address)'];
+const PAIR_ABI = ['function totalSupply() view returns (uint256)'];
+
+interface EtherscanTransaction {
+  hash: string;
+  from: string;
+  to: string;
+  value: string;
+  contractAddress: string;
+  timeStamp: string;
+  isError: string;
+}
+
+interface EtherscanContractCreation {
+  contractAddress: string;
+  contractCreator: string;
+  txHash: string;
+  timestamp?: string;
+}
+
+export type DeployerProfileData = Pick<
+  DeployerProfile,
+  'deployerAddress' | 'fundingSource' | 'fundingSourceLabel' | 'deployerRiskLevel' | 'fundingRiskLevel' | 'riskCategory' | 'tokens' | 'lastRefreshedAt'
+>;
+
+export interface DeployerReputation {
+  deployerAddress: string;
+  tokensLaunched: number; // Including the analysed token
+  earlierTokens: number; // Excluding the analysed token
+  deadTokens: number;
+  lpPulledTokens: number;
+  failedTokens: number; // Earlier tokens that are dead or had their liquidity pulled
+  fundingSource?: string;
+  fundingSourceLabel?: string;
+  deployerRiskLevel?: string;
+  fundingRiskLevel?: string;
+  riskCategory?: string;
+  flagged: boolean; // HAPI Labs rates the deployer or its funding source high risk
+  networkDeployers: number; // Other known deployers funded by the same source
+  networkFailedTokens: number; // Dead or pulled tokens launched by those deployers
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  summary: string;
+}
+
+const isFailed = (token: DeployedToken) => token.status === 'dead' || token.status === 'lp_pulled';
+
+/**
+ * Condense a deployer's profile, and the profiles of deployers sharing its funding source, into a reputation
+ */
+export function summarizeDeployerReputation(
+  profile: DeployerProfileData,
+  currentToken: string,
+  network: DeployerProfileData[] = []
+): DeployerReputation {
+  const current = currentToken.toLowerCase();
+  const earlier = profile.tokens.filter(token => token.tokenAddress.toLowerCase() !== current);
+  const deadTokens = earlier.filter(token => token.status === 'dead').length;
+  const lpPulledTokens = earlier.filter(token => token.status === 'lp_pulled').length;
+  const failedTokens = deadTokens + lpPulledTokens;
+  const tokensLaunched = earlier.length + (profile.tokens.length > earlier.length ? 1 : 0);
+
+  const relatedDeployers = network.filter(related => related.deployerAddress !== profile.deployerAddress);
+  const networkFailedTokens = relatedDeployers.reduce((sum, related) => sum + related.tokens.filter(isFailed).length, 0);
+
+  const flagged = FLAGGED_RISK_LEVELS.includes(profile.deployerRiskLevel || '') || FLAGGED_RISK_LEVELS.includes(profile.fundingRiskLevel || '');
+  const failureRate = earlier.length > 0 ? failedTokens / earlier.length : 0;
+
+  let riskLevel: DeployerReputation['riskLevel'] = 'LOW';
+  if (flagged || (failedTokens >= 5 && failureRate >= 0.7)) {
+    riskLevel = 'CRITICAL';
+  } else if (failedTokens >= 2 && failureRate >= 0.5) {
+    riskLevel = 'HIGH';
+  } else if (failedTokens >= 1 || networkFailedTokens >= 5) {
+    riskLevel = 'MEDIUM';
+  }
+
+  let summary: string;
+  if (earlier.length === 0) {
+    summary = 'First token from this deployer';
+  } else if (failedTokens === 0) {
+    summary = `This deployer launched ${tokensLaunched} tokens, none are dead`;
+  } else {
+    summary = `This deployer launched ${tokensLaunched} tokens, ${failedTokens} ${failedTokens === 1 ? 'is' : 'are'} dead or had liquidity pulled`;
+  }
+
+  return {
+    deployerAddress: profile.deployerAddress,
+    tokensLaunched,
+    earlierTokens: earlier.length,
+    deadTokens,
+    lpPulledTokens,
+    failedTokens,
+    fundingSource: profile.fundingSource,
+    fundingSourceLabel: profile.fundingSourceLabel,
+    deployerRiskLevel: profile.deployerRiskLevel,
+    fundingRiskLevel: profile.fundingRiskLevel,
+    riskCategory: profile.riskCategory,
+    flagged,
+    networkDeployers: relatedDeployers.length,
+    networkFailedTokens,
+    riskLevel,
+    summary
+  };
+}
+
+/**
+ * Builds deployer profiles from the deployer's transaction history (Etherscan V2 API) and on-chain
+ * pair state. Only direct deployments are seen; tokens created through launchpad factories are not.
+ */
+export class DeployerReputationService {
+  private apiKey: string;
+
+  constructor(private provider: ethers.Provider) {
+    this.apiKey = getEtherscanApiKey();
+    if (!this.apiKey) {
+      logger.warn('ETHERSCAN_API_KEY not configured, deployer reputation will be disabled');
+    }
+  }
+
+  isAvailable(): boolean {
+    return !!this.apiKey;
+  }
+
+  async getContractCreation(contractAddress: string): Promise<{ creator: string, txHash: string, timestamp?: number } | null> {
+    const result = await this.etherscan<EtherscanContractCreation>({
+      module: 'contract',
+      action: 'getcontractcreation',
+      contractaddresses: contractAddress
+    });
+    const creation = result?.[0];
+    if (!creation?.contractCreator) {
+      return null;
+    }
+
+    return {
+      creator: creation.contractCreator.toLowerCase(),
+      txHash: creation.txHash,
+      timestamp: creation.timestamp ? Number(creation.timestamp) : undefined
+    };
+  }
+
+  async getReputation(deployerAddress: string, tokenAddress: string): Promise<DeployerReputation | null> {
+    if (!this.isAvailable()) {
+      return null;
+    }
+
+    try {
+      const deployer = deployerAddress.toLowerCase();
+      let profile: DeployerProfileData | null = await DeployerProfileModel.findOne({ deployerAddress: deployer }).lean();
+
+      // Tokens created through factories never show up in the history, so a missing token only shortens the refresh interval
+      const age = profile?.lastRefreshedAt ? Date.now() - new Date(profile.lastRefreshedAt).getTime() : Infinity;
+      const missesToken = !profile?.tokens.some(token => token.tokenAddress === tokenAddress.toLowerCase());
+      if (age > REFRESH_INTERVAL_MS || (missesToken && age > NEW_TOKEN_REFRESH_MS)) {
+        profile = await this.refreshProfile(deployer) ?? profile;
+      }
+      if (!profile) {
+        return null;
+      }
+
+      const network = profile.fundingSource && !profile.fundingSourceLabel
+        ? await DeployerProfileModel.find({ fundingSource: profile.fundingSource, deployerAddress: { $ne: deployer } })
+          .limit(MAX_NETWORK_PROFILES)
+          .lean()
+        : [];
+
+      return summarizeDeployerReputation(profile, tokenAddress, network);
+    } catch (error) {
+      logger.error('Error getting deployer reputation', {
+        deployerAddress,
+        tokenAddress,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  private async refreshProfile(deployer: string): Promise<DeployerProfileData | null> {
+    const txlist = (sort: 'asc' | 'desc', offset: number) => this.etherscan<EtherscanTransaction>({
+      module: 'account',
+      action: 'txlist',
+      address: deployer,
+      startblock: 0,
+      endblock: 99999999,
+      page: 1,
+      offset,
+      sort
+    });
+    // Newest first for the creations, a busy deployer has more than one page of history;
+    // the funding tx is one of the first ones instead
+    const [recent, earliest] = await Promise.all([txlist('desc', 1000), txlist('asc', FUNDING_LOOKUP_TXS)]);
+    if (!recent || !earliest) {
+      return null;
+    }
+
+    // The first BNB received paid for the deployer's gas
+    const funding = earliest.find(tx => tx.to?.toLowerCase() === deployer && tx.value !== '0' && tx.isError === '0');
+    const fundingSource = funding?.from.toLowerCase();
+
+    const creations = recent
+      .filter(tx => !tx.to && tx.contractAddress && tx.isError === '0')
+      .slice(0, MAX_DEPLOYED_CONTRACTS)
+      .reverse();
+    const tokens = await this.checkDeployedTokens(creations);
+
+    const [deployerRisk, fundingRisk] = await Promise.all([
+      hapiAddressRiskService.isAvailable() ? hapiAddressRiskService.checkAddressRisk(deployer, 'bsc') : null,
+      hapiAddressRiskService.isAvailable() && fundingSource ? hapiAddressRiskService.checkAddressRisk(fundingSource, 'bsc') : null
+    ]);
+    const riskier = (fundingRisk?.risk ?? -1) > (deployerRisk?.risk ?? -1) ? fundingRisk : deployerRisk;
+
+    const update = {
+      fundingSource,
+      fundingSourceLabel: fundingSource ? EXCHANGE_HOT_WALLETS[fundingSource] : undefined,
+      fundingTxHash: funding?.hash,
+      fundingAmountBnb: funding ? Number(ethers.formatEther(funding.value)) : undefined,
+      deployerRiskLevel: deployerRisk?.hasData ? deployerRisk.riskLevel : undefined,
+      fundingRiskLevel: fundingRisk?.hasData ? fundingRisk.riskLevel : undefined,
+      riskCategory: riskier?.hasData ? riskier.category : undefined,
+      tokens,
+      lastRefreshedAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    return DeployerProfileModel.findOneAndUpdate(
+      { deployerAddress: deployer },
+      { $set: update, $setOnInsert: { deployerAddress: deployer, createdAt: new Date() } },
+      { upsert: true, new: true }
+    ).lean();
+  }
+
+  private async checkDeployedTokens(creations: EtherscanTransaction[]): Promise<DeployedToken[]> {
+    const addresses = creations.map(tx => tx.contractAddress.toLowerCase());
+    const deadTokens = await DeadTokenModel.find({ tokenAddress: { $in: addresses } }).lean();
+    const deadReasons = new Map(deadTokens.map(token => [token.tokenAddress, token.reason]));
+
+    const tokens: DeployedToken[] = [];
+    for (const creation of creations) {
+      const tokenAddress = creation.contractAddress.toLowerCase();
+      const token = new ethers.Contract(tokenAddress, TOKEN_ABI, this.provider);
+
+      let symbol: string | undefined;
+      try {
+        await token.totalSupply();
+        symbol = await token.symbol().catch(() => undefined);
+      } catch {
+        continue; // Not a token
+      }
+
+      const deadReason = deadReasons.get(tokenAddress);
+      const { status, statusReason } = deadReason
+        ? { status: 'dead' as DeployedTokenStatus, statusReason: `Marked dead (${deadReason.replace(/_/g, ' ')})` }
+        : await this.checkLiquidityStatus(tokenAddress);
+
+      tokens.push({
+        tokenAddress,
+        symbol,
+        txHash: creation.hash,
+        deployedAt: new Date(Number(creation.timeStamp) * 1000),
+        status,
+        statusReason
+      });
+    }
+    return tokens;
+  }
+
+  private async checkLiquidityStatus(tokenAddress: string): Promise<{ status: DeployedTokenStatus; statusReason?: string }> {
+    const factory = new ethers.Contract(PANCAKE_FACTORY, FACTORY_ABI, this.provider);
+    let pulledPair: string | undefined;
+
+    for (const quoteToken of QUOTE_TOKENS) {
+      try {
+        const pairAddress: string = await factory.getPair(tokenAddress, quoteToken);
+        if (pairAddress === ZERO_ADDRESS) continue;
+
+        const lpSupply: bigint = await new ethers.Contract(pairAddress, PAIR_ABI, this.provider).totalSupply();
+        if (lpSupply > MINIMUM_LIQUIDITY) {
+          return { status: 'active' };
+        }
+        if (lpSupply === MINIMUM_LIQUIDITY) {
+          pulledPair = pairAddress;
+        }
+      } catch (error) {
+        logger.debug('Failed to read pair state', { tokenAddress, quoteToken });
+      }
+    }
+
+    return pulledPair
+      ? { status: 'lp_pulled', statusReason: `All liquidity removed from ${pulledPair}` }
+      : { status: 'no_liquidity' };
+  }
+
+  private async etherscan<T>(params: Record<string, string | number>): Promise<T[] | null> {
+    return etherscanRequest<T>(params, this.apiKey);
+  }
+}
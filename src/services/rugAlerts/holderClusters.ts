@@ -0,0 +1,261 @@
+import { createLogger } from '@/utils/logger';
+import { etherscanRequest, getEtherscanApiKey } from '@/services/chain/etherscan';
+import { EXCHANGE_HOT_WALLETS } from './deployerReputation';
+
+const logger = createLogger('rugAlerts.holderClusters');
+
+const MAX_ANALYZED_HOLDERS = 25; // Top regular holders whose history is read
+const HOLDER_BATCH_SIZE = 3; // Two Etherscan calls per holder, kept under the free tier rate limit
+const MAX_TOKEN_TRANSFERS = 100;
+const MAX_FUNDING_LOOKUP = 20; // First transactions searched for the wallet's first incoming BNB
+
+/**
+ * Why two holders were linked. Shared funders and transfers between holders link on their own;
+ * same-block first receipts and identical transfer patterns are common among unrelated snipers,
+ * so they only link two holders when both are seen together.
+ */
+export type ClusterLinkReason = 'shared_funder' | 'direct_hop' | 'same_block' | 'identical_pattern';
+
+const STRONG_REASONS: ClusterLinkReason[] = ['shared_funder', 'direct_hop'];
+
+export const CLUSTER_REASON_LABELS: Record<ClusterLinkReason, string> = {
+  shared_funder: 'shared funder',
+  direct_hop: 'transfers between them',
+  same_block: 'same-block first buy',
+  identical_pattern: 'identical transfers'
+};
+
+export interface HolderActivity {
+  address: string;
+  percentage: number;
+  funder?: string; // Sender of the first BNB the wallet received
+  funderLabel?: string; // Set when the funder is an exchange hot wallet
+  firstReceiptBlock?: number;
+  firstReceiptAmount?: string; // Raw amount of the first token transfer received
+  transferCount: number;
+  counterparties: string[]; // Addresses this holder exchanged the token with
+}
+
+export interface HolderCluster {
+  holders: string[];
+  percentage: number; // Combined share of supply
+  reasons: ClusterLinkReason[];
+  funder?: string; // Shared funding wallet, when that links the cluster
+}
+
+export interface HolderClusterAnalysis {
+  holdersAnalyzed: number;
+  clusters: HolderCluster[]; // Largest first
+  clusteredPercentage: number; // Supply held by wallets in any cluster
+  realTop10Concentration: number; // Top 10 entities once each cluster counts as one holder
+}
+
+interface EtherscanTokenTransfer {
+  blockNumber: string;
+  from: string;
+  to: string;
+  value: string;
+}
+
+interface EtherscanTransaction {
+  from: string;
+  to: string;
+  value: string;
+  isError: string;
+}
+
+function linkReasons(a: HolderActivity, b: HolderActivity): ClusterLinkReason[] {
+  const reasons: ClusterLinkReason[] = [];
+  if (a.funder && a.funder === b.funder && !a.funderLabel) {
+    reasons.push('shared_funder');
+  }
+  if (a.counterparties.includes(b.address) || b.counterparties.includes(a.address) || a.funder === b.address || b.funder === a.address) {
+    reasons.push('direct_hop');
+  }
+  if (a.firstReceiptBlock !== undefined && a.firstReceiptBlock === b.firstReceiptBlock) {
+    reasons.push('same_block');
+  }
+  if (a.firstReceiptAmount && a.firstReceiptAmount !== '0' && a.firstReceiptAmount === b.firstReceiptAmount && a.transferCount === b.transferCount) {
+    reasons.push('identical_pattern');
+  }
+  return reasons;
+}
+
+function isLinked(reasons: ClusterLinkReason[]): boolean {
+  return reasons.some(reason => STRONG_REASONS.includes(reason)) || (reasons.includes('same_block') && reasons.includes('identical_pattern'));
+}
+
+/**
+ * Group holders that are probably controlled by one party, and recompute concentration with
+ * every group counted as a single holder
+ */
+export function clusterHolders(activities: HolderActivity[]): HolderClusterAnalysis {
+  const parent = activities.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const reasonsByRoot = new Map<number, Set<ClusterLinkReason>>();
+  const links: Array<{ a: number; b: number; reasons: ClusterLinkReason[] }> = [];
+  for (let a = 0; a < activities.length; a++) {
+    for (let b = a + 1; b < activities.length; b++) {
+      const reasons = linkReasons(activities[a], activities[b]);
+      if (isLinked(reasons)) {
+        links.push({ a, b, reasons });
+        parent[find(a)] = find(b);
+      }
+    }
+  }
+  for (const link of links) {
+    const root = find(link.a);
+    const reasons = reasonsByRoot.get(root) || new Set<ClusterLinkReason>();
+    link.reasons.forEach(reason => reasons.add(reason));
+    reasonsByRoot.set(root, reasons);
+  }
+
+  const members = new Map<number, HolderActivity[]>();
+  activities.forEach((activity, index) => {
+    const root = find(index);
+    members.set(root, [...(members.get(root) || []), activity]);
+  });
+
+  const clusters: HolderCluster[] = [];
+  const entityPercentages: number[] = [];
+  for (const [root, group] of members) {
+    const percentage = group.reduce((sum, holder) => sum + holder.percentage, 0);
+    entityPercentages.push(percentage);
+    if (group.length < 2) continue;
+
+    const reasons = [...(reasonsByRoot.get(root) || [])];
+    const funders = group.map(holder => holder.funder).filter((funder): funder is string => !!funder);
+    const sharedFunder = reasons.includes('shared_funder')
+      ? funders.find(funder => funders.filter(other => other === funder).length > 1)
+      : undefined;
+
+    clusters.push({
+      holders: group.sort((a, b) => b.percentage - a.percentage).map(holder => holder.address),
+      percentage,
+      reasons,
+      funder: sharedFunder
+    });
+  }
+
+  clusters.sort((a, b) => b.percentage - a.percentage);
+  entityPercentages.sort((a, b) => b - a);
+
+  return {
+    holdersAnalyzed: activities.filter(activity => activity.transferCount > 0 || activity.funder).length,
+    clusters,
+    clusteredPercentage: clusters.reduce((sum, cluster) => sum + cluster.percentage, 0),
+    realTop10Concentration: entityPercentages.slice(0, 10).reduce((sum, percentage) => sum + percentage, 0)
+  };
+}
+
+/**
+ * Reads the token and BNB history of top holders (Etherscan V2 API) to find wallets that were
+ * funded together, bought together or pass tokens between each other
+ */
+export class HolderClusterService {
+  private apiKey: string;
+
+  constructor() {
+    this.apiKey = getEtherscanApiKey();
+  }
+
+  isAvailable(): boolean {
+    return !!this.apiKey;
+  }
+
+  /**
+   * @param holders Non-LP holders, largest first. Contracts are kept in the concentration but never clustered.
+   */
+  async analyze(
+    tokenAddress: string,
+    holders: Array<{ address: string; percentage: number; isContract?: boolean }>
+  ): Promise<HolderClusterAnalysis | null> {
+    if (!this.isAvailable() || holders.length < 2) {
+      return null;
+    }
+
+    try {
+      const toAnalyze = holders.filter(holder => !holder.isContract).slice(0, MAX_ANALYZED_HOLDERS);
+      const analyzed = new Map<string, HolderActivity>();
+      for (let i = 0; i < toAnalyze.length; i += HOLDER_BATCH_SIZE) {
+        const batch = toAnalyze.slice(i, i + HOLDER_BATCH_SIZE);
+        const activities = await Promise.all(batch.map(holder => this.getActivity(tokenAddress, holder.address, holder.percentage)));
+        activities.forEach(activity => analyzed.set(activity.address, activity));
+      }
+
+      const activities = holders.map(holder => analyzed.get(holder.address.toLowerCase()) || {
+        address: holder.address.toLowerCase(),
+        percentage: holder.percentage,
+        transferCount: 0,
+        counterparties: []
+      });
+
+      const analysis = clusterHolders(activities);
+      logger.info('Holder clustering complete', {
+        tokenAddress,
+        holders: holders.length,
+        analyzed: analysis.holdersAnalyzed,
+        clusters: analysis.clusters.length,
+        clusteredPercentage: analysis.clusteredPercentage
+      });
+      return analysis;
+    } catch (error) {
+      logger.error('Error clustering holders', {
+        tokenAddress,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  private async getActivity(tokenAddress: string, holderAddress: string, percentage: number): Promise<HolderActivity> {
+    const address = holderAddress.toLowerCase();
+    const [transfers, transactions] = await Promise.all([
+      etherscanRequest<EtherscanTokenTransfer>({
+        module: 'account',
+        action: 'tokentx',
+        contractaddress: tokenAddress,
+        address,
+        page: 1,
+        offset: MAX_TOKEN_TRANSFERS,
+        sort: 'asc'
+      }, this.apiKey),
+      etherscanRequest<EtherscanTransaction>({
+        module: 'account',
+        action: 'txlist',
+        address,
+        page: 1,
+        offset: MAX_FUNDING_LOOKUP,
+        sort: 'asc'
+      }, this.apiKey)
+    ]);
+
+    const firstReceipt = transfers?.find(transfer => transfer.to.toLowerCase() === address);
+    const counterparties = new Set<string>();
+    for (const transfer of transfers || []) {
+      const counterparty = transfer.from.toLowerCase() === address ? transfer.to.toLowerCase() : transfer.from.toLowerCase();
+      counterparties.add(counterparty);
+    }
+
+    const funding = transactions?.find(tx => tx.to?.toLowerCase() === address && tx.value !== '0' && tx.isError === '0');
+    const funder = funding?.from.toLowerCase();
+
+    return {
+      address,
+      percentage,
+      funder,
+      funderLabel: funder ? EXCHANGE_HOT_WALLETS[funder] : undefined,
+      firstReceiptBlock: firstReceipt ? Number(firstReceipt.blockNumber) : undefined,
+      firstReceiptAmount: firstReceipt?.value,
+      transferCount: transfers?.length || 0,
+      counterparties: [...counterparties]
+    };
+  }
+}
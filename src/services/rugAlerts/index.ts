@@ -1,6 +1,11 @@
 // src/services/rugAlerts/index.ts
 import { Context } from 'telegraf';
 import { TokenAnalyzer, RugAlertAnalysis, TokenHolderAnalysis, TokenHolder, LiquidityAnalysis, TradingActivityAnalysis, HoneypotAnalysis } from './tokenAnalyzer';
+import { BytecodeCapability } from './bytecodeAnalyzer';
+import { ScoreComponentResult } from './scoringModel';
+import { HolderCluster, CLUSTER_REASON_LABELS } from './holderClusters';
+import { LPLockAnalysis, LPLock } from './lpLocks';
+import { scoreHistoryService, formatScoreTrend, formatSignedDelta, renderSparkline } from './scoreHistory';
 import { createLogger } from '@/utils/logger';
 import { getTranslation, getUserLanguage, t, Language } from '@/i18n';
 
@@ -92,7 +97,7 @@ export class RugAlertsService {
   }
 
   generateNaturalSummary(analysis: RugAlertAnalysis, lang: Language = 'en'): string {
-    const { metadata, holderAnalysis, liquidityAnalysis, tradingActivity, honeypotAnalysis, safetyScore, scSecurityAnalysis } = analysis;
+    const { metadata, holderAnalysis, liquidityAnalysis, tradingActivity, honeypotAnalysis, safetyScore, scSecurityAnalysis, deployerReputation } = analysis;
 
     let summary = '';
 
@@ -121,16 +126,27 @@ export class RugAlertsService {
     // Add key insights
     const insights = [];
 
+    // Deployer track record
+    if (deployerReputation && deployerReputation.failedTokens > 0) {
+      insights.push(`comes from a deployer who launched ${deployerReputation.tokensLaunched} tokens, ${deployerReputation.failedTokens} of them dead or rugged`);
+    } else if (deployerReputation?.flagged) {
+      insights.push('was deployed by a wallet flagged by HAPI Labs');
+    }
+
     // Honeypot status
     if (!honeypotAnalysis.isHoneypot) {
       if (honeypotAnalysis.sellTax && honeypotAnalysis.sellTax > 10) {
         insights.push(`has a high sell tax of ${honeypotAnalysis.sellTax}%`);
       }
 
-      // Holder concentration
-      if (holderAnalysis.top10ConcentrationExcludingLP > 50) {
+      // Holder concentration, with clustered wallets counted as one holder
+      const clusters = holderAnalysis.clusterAnalysis;
+      const realConcentration = Math.max(holderAnalysis.top10ConcentrationExcludingLP, clusters?.realTop10Concentration || 0);
+      if (clusters && clusters.clusteredPercentage >= 10) {
+        insights.push(`has ${clusters.clusteredPercentage.toFixed(1)}% of supply in wallets that appear bundled together`);
+      } else if (realConcentration > 50) {
         insights.push('is heavily concentrated among top holders');
-      } else if (holderAnalysis.top10ConcentrationExcludingLP < 20) {
+      } else if (realConcentration < 20) {
         insights.push('has good holder distribution');
       }
 
@@ -143,6 +159,8 @@ export class RugAlertsService {
         insights.push('has permanently locked liquidity');
       } else if (!liquidityAnalysis.lpTokenLocked && !liquidityAnalysis.lpTokenBurned) {
         insights.push('has unlocked liquidity that can be removed');
+      } else if (liquidityAnalysis.lockDuration !== undefined && liquidityAnalysis.lockDuration <= 7) {
+        insights.push(`has its LP lock expiring in ${liquidityAnalysis.lockDuration <= 1 ? 'less than a day' : `${liquidityAnalysis.lockDuration} days`}`);
       }
       
       // Contract status
@@ -162,7 +180,7 @@ export class RugAlertsService {
       
       // Age
       if (metadata.createdAt) {
-        const ageInDays = Math.floor((Date.now() - metadata.createdAt.getTime()) / (1000 * 60 * 60 * 24));
+        const ageInDays = Math.floor((Date.now() - new Date(metadata.createdAt).getTime()) / (1000 * 60 * 60 * 24));
         if (ageInDays < 7) {
           insights.push(`is very new (${ageInDays} days old)`);
         }
@@ -204,6 +222,12 @@ export class RugAlertsService {
       summary += `• 24h Volume: ${this.formatNumber(tradingActivity.volume24h)}\n`;
     }
     summary += `• Top 10 Hold: ${holderAnalysis.top10ConcentrationExcludingLP.toFixed(1)}%`;
+    if (holderAnalysis.clusterAnalysis && holderAnalysis.clusterAnalysis.realTop10Concentration > holderAnalysis.top10ConcentrationExcludingLP + 1) {
+      summary += ` (${holderAnalysis.clusterAnalysis.realTop10Concentration.toFixed(1)}% after clustering)`;
+    }
+    if (analysis.scoreTrend) {
+      summary += `\n\n${formatScoreTrend(analysis.scoreTrend).trimEnd()}`;
+    }
     
     // Add BSC disclaimer
     summary += `\n\n_${t(lang, 'rugAlerts.bscOnlyDisclaimer')}_`;
@@ -224,6 +248,7 @@ export class RugAlertsService {
     const keyboard = {
       inline_keyboard: [
         [{ text: '📋 View Detailed Report', callback_data: `rug_details:${metadata.address}` }],
+        [{ text: '📈 Score History', callback_data: `rug_history:${metadata.address}` }],
         [{ text: '🤖 ChainGPT SC Audit', callback_data: `chaingpt_audit:${metadata.address}` }],
         [{ text: '🔙 Back', callback_data: 'start_edit' }]
       ]
@@ -255,12 +280,60 @@ export class RugAlertsService {
     }
     
     const analysis = session.rugAlerts.lastAnalysis;
-    const { metadata, holderAnalysis, liquidityAnalysis, tradingActivity, honeypotAnalysis, safetyScore, safetyScoreDetails, recommendations } = analysis;
+    const { metadata, liquidityAnalysis } = analysis;
 
+    try {
     // Build comprehensive message
-    let message = '';
+    let message = this.buildDetailedReport(analysis, lang);
+
+    // Character limit check - Telegram has a 4096 character limit
+    if (message.length > 4000) {
+      // Truncate holder list if message is too long
+      const lines = message.split('\n');
+      const holderStartIndex = lines.findIndex(line => line.includes('TOP 10 HOLDERS'));
+      const riskStartIndex = lines.findIndex(line => line.includes('RISK ASSESSMENT'));
+      
+      if (holderStartIndex > -1 && riskStartIndex > -1) {
+        // Keep only top 5 holders
+        const beforeHolders = lines.slice(0, holderStartIndex + 1);
+        const holders = lines.slice(holderStartIndex + 1, holderStartIndex + 6);
+        const afterHolders = lines.slice(riskStartIndex);
+        
+        message = [...beforeHolders, ...holders, '...and 5 more holders', '', ...afterHolders].join('\n');
+      }
+    }
+
+    // Send everything in one message with back button
+    const keyboard = {
+      inline_keyboard: [
+        [{ text: '📊 View Summary', callback_data: `rug_summary:${metadata.address}` }],
+        [{ text: '🤖 ChainGPT SC Audit', callback_data: `chaingpt_audit:${metadata.address}` }],
+        [{ text: '📸 Share Snapshot', callback_data: `rug_snapshot:${metadata.address}` }],
+        [{ text: '🔍 Analyze Another Token', callback_data: 'rug_alerts' }],
+        [{ text: '🔙 Back to Menu', callback_data: 'start_edit' }]
+      ]
+    };
+    if (liquidityAnalysis.lpLocks?.locks.some((lock: LPLock) => lock.unlockAt)) {
+      keyboard.inline_keyboard.splice(3, 0, [{ text: '🔔 Alert me 24h before LP unlocks', callback_data: `lp_unlock_sub:${metadata.address}` }]);
+    }
+
+    await ctx.editMessageText(message, {
+      parse_mode: 'Markdown',
+      reply_markup: keyboard
+    });
     
-    try {
+    } catch (error) {
+      logger.error('Error building analysis message', { error: error instanceof Error ? error.message : String(error) });
+      await ctx.answerCbQuery('Error displaying detailed analysis');
+    }
+  }
+
+  /**
+   * Full report in Telegram Markdown, also used as the Markdown export of report snapshots
+   */
+  buildDetailedReport(analysis: RugAlertAnalysis, lang: Language): string {
+    const { metadata, holderAnalysis, liquidityAnalysis, tradingActivity, honeypotAnalysis, safetyScore, safetyScoreDetails, recommendations } = analysis;
+    let message = '';
 
     // Honeypot warning if detected
     if (honeypotAnalysis.isHoneypot) {
@@ -285,9 +358,11 @@ export class RugAlertsService {
     message += `• Verified: ${metadata.verified ? '✅ Yes' : '❌ No'}\n`;
     message += `• Ownership: ${metadata.renounced ? '✅ Renounced' : '⚠️ Active'}\n`;
     if (metadata.createdAt) {
-      const ageInDays = Math.floor((Date.now() - metadata.createdAt.getTime()) / (1000 * 60 * 60 * 24));
+      // Dates are strings when the analysis comes from a stored snapshot. Age is as of the analysis.
+      const age = (analysis.analyzedAt ? new Date(analysis.analyzedAt).getTime() : Date.now()) - new Date(metadata.createdAt).getTime();
+      const ageInDays = Math.floor(age / (1000 * 60 * 60 * 24));
       const ageText = ageInDays === 0 ? 
-        `${Math.floor((Date.now() - metadata.createdAt.getTime()) / (1000 * 60 * 60))} hours` : 
+        `${Math.floor(age / (1000 * 60 * 60))} hours` : 
         `${ageInDays} days`;
       message += `• Age: ${ageText}\n`;
     }
@@ -297,12 +372,29 @@ export class RugAlertsService {
     const safetyEmoji = this.getSafetyEmoji(safetyScore);
     const safetyLevel = this.getSafetyLevel(safetyScore);
     message += `🎯 *SAFETY SCORE*\n`;
-    message += `${safetyEmoji} ${safetyScore}/100 (${safetyLevel})\n\n`;
+    message += `${safetyEmoji} ${safetyScore}/100 (${safetyLevel})\n`;
+    if (analysis.scoreTrend) {
+      message += formatScoreTrend(analysis.scoreTrend);
+    }
+    message += `\n`;
     
-    message += `📊 *Safety Breakdown:*\n`;
+    message += `📊 *Safety Breakdown${analysis.scoreModelVersion ? ` (model ${analysis.scoreModelVersion})` : ''}:*\n`;
     message += `• Holders: ${safetyScoreDetails.holders}/15 • Liquidity: ${safetyScoreDetails.liquidity}/20 • Verification: ${safetyScoreDetails.verification}/10\n`;
     message += `• Ownership: ${safetyScoreDetails.ownership}/10 • Trading: ${safetyScoreDetails.trading}/10 • Age: ${safetyScoreDetails.age}/10\n`;
     message += `• Honeypot: ${safetyScoreDetails.honeypot}/10 • Diamond Hands: ${safetyScoreDetails.diamondHands || 0}/5\n`;
+    if (safetyScoreDetails.bytecode) {
+      message += `• Bytecode Risks: ${safetyScoreDetails.bytecode}\n`;
+    }
+    if (safetyScoreDetails.deployer) {
+      message += `• Deployer Record: ${safetyScoreDetails.deployer}\n`;
+    }
+    const lostPoints = ((analysis.scoreComponents || []) as ScoreComponentResult[]).filter(component => component.points < component.max || component.points < 0);
+    if (lostPoints.length > 0) {
+      message += `_Points lost:_\n`;
+      lostPoints.forEach(component => {
+        message += `• ${component.reasons.join('; ')} (${component.points}/${component.max})\n`;
+      });
+    }
     message += `\n`;
 
     // Swap Analysis Section
@@ -372,11 +464,77 @@ export class RugAlertsService {
       message += `ℹ️ Advanced screening unavailable (Basic analysis above)\n\n`;
     }
 
+    // Bytecode Analysis Section (local static analysis of the deployed code)
+    if (analysis.bytecodeAnalysis && analysis.bytecodeAnalysis.hasCode) {
+      const bytecode = analysis.bytecodeAnalysis;
+      message += `🔬 *BYTECODE ANALYSIS*\n`;
+      if (bytecode.proxy) {
+        const proxyName = bytecode.proxy.type === 'eip1167' ? 'EIP-1167 clone' :
+                          bytecode.proxy.type === 'eip1967_beacon' ? 'EIP-1967 beacon proxy' : 'EIP-1967 proxy';
+        message += `• ${proxyName}${bytecode.proxy.upgradeable ? ' (upgradeable)' : ''}`;
+        if (bytecode.proxy.implementation) {
+          const implementationShort = `${bytecode.proxy.implementation.slice(0, 6)}...${bytecode.proxy.implementation.slice(-4)}`;
+          message += ` → [${implementationShort}](https://bscscan.com/address/${bytecode.proxy.implementation})`;
+        }
+        message += `\n`;
+      }
+      if (bytecode.capabilities.length > 0) {
+        bytecode.capabilities.forEach((capability: BytecodeCapability) => {
+          message += `⚠️ ${capability.label}\n`;
+        });
+      } else {
+        message += `✅ No risky functions among ${bytecode.selectorCount} found\n`;
+      }
+      message += `\n`;
+    }
+
+    // Deployer Section (earlier launches and where the gas money came from)
+    if (analysis.deployerReputation) {
+      const deployer = analysis.deployerReputation;
+      const deployerShort = `${deployer.deployerAddress.slice(0, 6)}...${deployer.deployerAddress.slice(-4)}`;
+      message += `👷 *DEPLOYER*\n`;
+      message += `• Wallet: [${deployerShort}](https://bscscan.com/address/${deployer.deployerAddress})\n`;
+      message += `${deployer.failedTokens > 0 ? '⚠️' : '•'} ${deployer.summary}\n`;
+      if (deployer.failedTokens > 0) {
+        message += `• Dead: ${deployer.deadTokens} • Liquidity pulled: ${deployer.lpPulledTokens}\n`;
+      }
+      if (deployer.fundingSource) {
+        const funderShort = `${deployer.fundingSource.slice(0, 6)}...${deployer.fundingSource.slice(-4)}`;
+        message += `• Funded by: [${funderShort}](https://bscscan.com/address/${deployer.fundingSource})`;
+        message += deployer.fundingSourceLabel ? ` (${deployer.fundingSourceLabel})\n` : `\n`;
+      }
+      if (deployer.networkDeployers > 0) {
+        message += `• Same funder: ${deployer.networkDeployers} other deployer${deployer.networkDeployers === 1 ? '' : 's'}, ${deployer.networkFailedTokens} dead or rugged tokens\n`;
+      }
+      if (deployer.flagged) {
+        message += `🚨 Flagged by HAPI Labs${deployer.riskCategory ? `: ${deployer.riskCategory}` : ''}\n`;
+      }
+      message += `\n`;
+    }
+
     // Holder Analysis Section
     message += `👥 *HOLDER ANALYSIS*\n`;
     message += `• Total Holders: ${holderAnalysis.totalHolders.toLocaleString()}\n`;
     message += `• Top 10 Concentration: ${holderAnalysis.top10Concentration.toFixed(2)}%\n`;
     message += `• Top 10 (excl. LPs): ${holderAnalysis.top10ConcentrationExcludingLP.toFixed(2)}%\n`;
+    if (holderAnalysis.clusterAnalysis) {
+      const clusters = holderAnalysis.clusterAnalysis;
+      message += `• Real Top 10 (clustered): ${clusters.realTop10Concentration.toFixed(2)}%\n`;
+      if (clusters.clusters.length > 0) {
+        message += `\n🕸 *Suspected Clusters:*\n`;
+        clusters.clusters.slice(0, 3).forEach((cluster: HolderCluster) => {
+          const reasons = cluster.reasons.map(reason => CLUSTER_REASON_LABELS[reason]).join(', ');
+          message += `• ${cluster.holders.length} wallets hold ${cluster.percentage.toFixed(2)}% (${reasons})`;
+          if (cluster.funder) {
+            message += ` - funder [${cluster.funder.slice(0, 6)}...${cluster.funder.slice(-4)}](https://bscscan.com/address/${cluster.funder})`;
+          }
+          message += `\n`;
+        });
+        if (clusters.clusters.length > 3) {
+          message += `• ...and ${clusters.clusters.length - 3} smaller cluster${clusters.clusters.length - 3 === 1 ? '' : 's'}\n`;
+        }
+      }
+    }
     
     if (holderAnalysis.creatorBalance !== undefined || holderAnalysis.ownerBalance !== undefined) {
       message += `\n💼 *Special Wallets:*\n`;
@@ -445,6 +603,9 @@ export class RugAlertsService {
         message += `❌ LP tokens NOT secured\n`;
         message += `⚠️ Liquidity can be removed at any time\n`;
       }
+      if (liquidityAnalysis.lpLocks && liquidityAnalysis.lpLocks.locks.length > 0) {
+        message += this.formatUnlockTimeline(liquidityAnalysis.lpLocks);
+      }
       
       // Show liquidity pools if multiple
       if (liquidityAnalysis.liquidityPools.length > 0) {
@@ -524,6 +685,7 @@ export class RugAlertsService {
 
     // Top Holders Section
     message += `🏆 *TOP 10 HOLDERS*\n`;
+    const clusteredAddresses = new Set((holderAnalysis.clusterAnalysis?.clusters || []).flatMap((cluster: HolderCluster) => cluster.holders));
     holderAnalysis.top10Holders.forEach((holder: TokenHolder, index: number) => {
       const rank = index + 1;
       const addressShort = `${holder.address.slice(0, 6)}...${holder.address.slice(-4)}`;
@@ -548,6 +710,9 @@ export class RugAlertsService {
       if (holder.isDiamondHands) {
         icon += '💎';
       }
+      if (clusteredAddresses.has(holder.address.toLowerCase())) {
+        icon += '🕸';
+      }
       
       // Add portfolio value for whales and holding time for diamond hands
       let holderInfo = `${rank}. ${holder.percentage.toFixed(2)}%${icon} [${addressShort}](https://bscscan.com/address/${holder.address})`;
@@ -570,7 +735,7 @@ export class RugAlertsService {
       
       message += `${holderInfo}\n`;
     });
-    message += `\nLegend: 💧=LP 👨‍💻=Creator 👤=Owner 🤖=Contract 🐳=Whale 🐬=Huge Value 💎=Diamond Hands\n\n`;
+    message += `\nLegend: 💧=LP 👨‍💻=Creator 👤=Owner 🤖=Contract 🐳=Whale 🐬=Huge Value 💎=Diamond Hands 🕸=Clustered\n\n`;
 
     // Risk Assessment Section
     message += `⚠️ *RISK ASSESSMENT*\n`;
@@ -589,42 +754,50 @@ export class RugAlertsService {
     
     message += `\n⚠️ *Disclaimer:* This analysis is based on on-chain data for the BSC network only. Not financial advice.`;
 
-    // Character limit check - Telegram has a 4096 character limit
-    if (message.length > 4000) {
-      // Truncate holder list if message is too long
-      const lines = message.split('\n');
-      const holderStartIndex = lines.findIndex(line => line.includes('TOP 10 HOLDERS'));
-      const riskStartIndex = lines.findIndex(line => line.includes('RISK ASSESSMENT'));
-      
-      if (holderStartIndex > -1 && riskStartIndex > -1) {
-        // Keep only top 5 holders
-        const beforeHolders = lines.slice(0, holderStartIndex + 1);
-        const holders = lines.slice(holderStartIndex + 1, holderStartIndex + 6);
-        const afterHolders = lines.slice(riskStartIndex);
-        
-        message = [...beforeHolders, ...holders, '...and 5 more holders', '', ...afterHolders].join('\n');
+    return message;
+  }
+
+  /**
+   * Earlier safety scores of a token, newest first, with the change between consecutive checks
+   */
+  async sendScoreHistory(ctx: Context, tokenAddress: string) {
+    const history = await scoreHistoryService.getHistory(tokenAddress);
+    const session = global.userSessions.get(ctx.from!.id);
+    const lastAnalysis = session?.rugAlerts?.lastAnalysis?.metadata.address === tokenAddress ? session.rugAlerts.lastAnalysis : undefined;
+    const symbol = lastAnalysis?.metadata.symbol || `${tokenAddress.slice(0, 6)}...${tokenAddress.slice(-4)}`;
+
+    let message = `📈 *SAFETY SCORE HISTORY: ${symbol}*\n`;
+    message += `────────────────────\n\n`;
+
+    if (history.length === 0) {
+      message += `No checks of this token recorded yet. Every analysis is recorded, so the trend appears after the next check.\n`;
+    } else {
+      const scores = history.slice(0, 12).map(point => point.score).reverse();
+      if (scores.length > 2) {
+        message += `${renderSparkline(scores)}  (oldest → newest)\n\n`;
+      }
+
+      history.slice(0, 10).forEach((point, index) => {
+        const older = history[index + 1];
+        const date = point.recordedAt.toISOString().replace('T', ' ').slice(0, 16);
+        const delta = older && older.modelVersion === point.modelVersion ? ` (${formatSignedDelta(point.score - older.score)})` : '';
+        message += `• ${date} UTC: *${point.score}/100*${delta} · model ${point.modelVersion}\n`;
+      });
+      if (history.length > 10) {
+        message += `...and ${history.length - 10} earlier checks\n`;
       }
     }
 
-    // Send everything in one message with back button
     const keyboard = {
       inline_keyboard: [
-        [{ text: '📊 View Summary', callback_data: `rug_summary:${metadata.address}` }],
-        [{ text: '🤖 ChainGPT SC Audit', callback_data: `chaingpt_audit:${metadata.address}` }],
-        [{ text: '🔍 Analyze Another Token', callback_data: 'rug_alerts' }],
+        lastAnalysis
+          ? [{ text: '📊 View Summary', callback_data: `rug_summary:${tokenAddress}` }]
+          : [{ text: '🔍 Analyze Token', callback_data: 'rug_alerts' }],
         [{ text: '🔙 Back to Menu', callback_data: 'start_edit' }]
       ]
     };
 
-    await ctx.editMessageText(message, {
-      parse_mode: 'Markdown',
-      reply_markup: keyboard
-    });
-    
-    } catch (error) {
-      logger.error('Error building analysis message', { error: error instanceof Error ? error.message : String(error) });
-      await ctx.answerCbQuery('Error displaying detailed analysis');
-    }
+    await ctx.editMessageText(message, { parse_mode: 'Markdown', reply_markup: keyboard });
   }
 
   private formatSupply(totalSupply: string, decimals: number): string {
@@ -648,6 +821,39 @@ export class RugAlertsService {
     }
   }
 
+  /**
+   * Locks of the main pool in unlock order. Dates may be strings when the analysis came back from the session store.
+   */
+  private formatUnlockTimeline(lpLocks: LPLockAnalysis): string {
+    const now = Date.now();
+    let timeline = `\n🗓 *Unlock Timeline (${lpLocks.lockedPercent.toFixed(1)}% locked):*\n`;
+
+    lpLocks.locks.slice(0, 5).forEach(lock => {
+      const share = `${lock.percent.toFixed(1)}%${lock.positionId ? ` (V3 position #${lock.positionId})` : ''}`;
+      if (!lock.unlockAt) {
+        timeline += `🔒 ${share} on ${lock.platform}, unlock date unknown\n`;
+        return;
+      }
+
+      const unlockAt = new Date(lock.unlockAt);
+      const daysLeft = (unlockAt.getTime() - now) / (24 * 60 * 60 * 1000);
+      const date = unlockAt.toISOString().slice(0, 10);
+      const vesting = lock.fullUnlockAt ? `, vesting until ${new Date(lock.fullUnlockAt).toISOString().slice(0, 10)}` : '';
+      if (daysLeft <= 0) {
+        timeline += `🔓 ${share} on ${lock.platform}, unlocked since ${date}\n`;
+      } else {
+        const icon = daysLeft <= 1 ? '🚨' : daysLeft <= 30 ? '⚠️' : '🔒';
+        const remaining = daysLeft < 1 ? `${Math.ceil(daysLeft * 24)}h` : `${Math.floor(daysLeft)}d`;
+        timeline += `${icon} ${share} on ${lock.platform}, unlocks ${date} (in ${remaining}${vesting})\n`;
+      }
+    });
+
+    if (lpLocks.locks.length > 5) {
+      timeline += `...and ${lpLocks.locks.length - 5} more locks\n`;
+    }
+    return timeline;
+  }
+
   private formatNumber(num: number): string {
     if (num >= 1e9) {
       return `${(num / 1e9).toFixed(2)}B`;
@@ -0,0 +1,334 @@
+import { ethers } from 'ethers';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('rugAlerts.lpLocks');
+
+// Locker contracts whose LP balances count as locked. Names are a fallback: the platform
+// reported for a lock comes from the record format the locker answers to.
+export const LP_LOCKERS: Array<{ address: string; name: string }> = [
+  { address: '0x7ee058420e5937496F5a2096f04caA7721cF70cc', name: 'PinkLock' },
+  { address: '0xC765bddB93b0D1c1A88282BA0fa6B2d00E3e0c83', name: 'Team Finance' },
+  { address: '0x407993575c91ce7643a4d4cCACc9A98c36eE1BBE', name: 'PancakeSwap Locker' },
+  { address: '0x2967E7Bb9DaA5711Ac332cAF874BD47ef99B3820', name: 'Unicrypt' },
+  { address: '0xE2fE530C047f2d85298b07D9333C05737f1435fB', name: 'Team Finance V2' },
+  { address: '0x71B5759d73262FBb223956913ecF4ecC51057641', name: 'PinkLock V2' }
+];
+
+const PANCAKE_V3_POSITION_MANAGER = '0x46A15B0b27311cedF172AB29E4f4766fbE7F4364';
+const DEAD_ADDRESS = '0x000000000000000000000000000000000000dead';
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const MAX_LOCK_RECORDS = 50; // Per locker and LP token
+const MAX_V3_POSITIONS = 50; // Most recent position NFTs checked per locker
+
+const LP_ABI = [
+  'function balanceOf(address) view returns (uint256)',
+  'function totalSupply() view returns (uint256)'
+];
+const V3_POOL_ABI = [
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function fee() view returns (uint24)',
+  'function liquidity() view returns (uint128)'
+];
+
+const PINKLOCK_V2_ABI = [
+  'function totalLockCountForToken(address token) view returns (uint256)',
+  'function getLocksForToken(address token, uint256 start, uint256 end) view returns (tuple(uint256 id, address token, address owner, uint256 amount, uint256 lockDate, uint256 tgeDate, uint256 tgeBps, uint256 cycle, uint256 cycleBps, uint256 unlockedAmount, string description)[])'
+];
+const PINKLOCK_V1_ABI = [
+  'function totalLockCountForToken(address token) view returns (uint256)',
+  'function getLocksForToken(address token, uint256 start, uint256 end) view returns (tuple(uint256 id, address token, address owner, uint256 amount, uint256 lockDate, uint256 unlockDate)[])'
+];
+const UNICRYPT_V2_ABI = [
+  'function getNumLocksForToken(address lpToken) view returns (uint256)',
+  'function tokenLocks(address lpToken, uint256 index) view returns (uint256 lockDate, uint256 amount, uint256 initialAmount, uint256 unlockDate, uint256 lockID, address owner)'
+];
+const TEAM_FINANCE_ABI = [
+  'function getDepositsByTokenAddress(address token) view returns (uint256[])',
+  'function lockedToken(uint256 id) view returns (address tokenAddress, address withdrawalAddress, uint256 tokenAmount, uint256 unlockTime, bool withdrawn)'
+];
+const POSITION_MANAGER_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)',
+  'function positions(uint256 tokenId) view returns (uint96 nonce, address operator, address token0, address token1, uint24 fee, int24 tickLower, int24 tickUpper, uint128 liquidity, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, uint128 tokensOwed0, uint128 tokensOwed1)'
+];
+
+export interface LPLock {
+  platform: string;
+  lockerAddress: string;
+  lockId?: string;
+  owner?: string;
+  amount: string; // Raw LP tokens still locked, or the liquidity of a V3 position
+  percent: number; // Share of the LP supply (V2) or of the pool's active liquidity (V3)
+  lockedAt?: Date;
+  unlockAt?: Date; // First date tokens can be withdrawn; unknown when the record can't be decoded
+  fullUnlockAt?: Date; // Last vesting step, for locks that release in cycles
+  positionId?: string; // PancakeSwap V3 position NFT
+}
+
+export interface LPLockAnalysis {
+  poolAddress: string;
+  version: 'v2' | 'v3';
+  burnedPercent: number;
+  lockedPercent: number; // Locks that haven't reached their unlock date, plus undecoded locker balances
+  locks: LPLock[]; // Earliest unlock first, undecoded balances last
+  nextUnlockAt?: Date;
+}
+
+type DecodedLock = Omit<LPLock, 'percent' | 'platform' | 'lockerAddress'>;
+
+interface LockRecordDecoder {
+  platform: string;
+  decode(locker: string, lpToken: string, provider: ethers.Provider): Promise<DecodedLock[]>;
+}
+
+const toDate = (seconds: bigint | number): Date | undefined => Number(seconds) > 0 ? new Date(Number(seconds) * 1000) : undefined;
+
+/**
+ * First and last unlock of a PinkLock V2 record: tgeBps of the amount unlocks at tgeDate,
+ * then cycleBps every cycle seconds. Plain locks have no cycle and unlock at once.
+ */
+export function pinkLockSchedule(tgeDate: number, tgeBps: number, cycle: number, cycleBps: number): { unlockAt: Date; fullUnlockAt?: Date } {
+  const unlockAt = new Date(tgeDate * 1000);
+  if (cycle <= 0 || cycleBps <= 0 || tgeBps >= 10000) {
+    return { unlockAt };
+  }
+  const cycles = Math.ceil((10000 - tgeBps) / cycleBps);
+  return { unlockAt, fullUnlockAt: new Date((tgeDate + cycles * cycle) * 1000) };
+}
+
+// Each decoder checks the token in the records it reads, so a locker answering the wrong format yields nothing
+const DECODERS: LockRecordDecoder[] = [
+  {
+    platform: 'PinkLock V2',
+    async decode(locker, lpToken, provider) {
+      const contract = new ethers.Contract(locker, PINKLOCK_V2_ABI, provider);
+      const count = Number(await contract.totalLockCountForToken(lpToken));
+      if (count === 0) return [];
+      const records = await contract.getLocksForToken(lpToken, 0, Math.min(count, MAX_LOCK_RECORDS) - 1);
+      return records
+        .filter((record: any) => record.token.toLowerCase() === lpToken.toLowerCase() && record.amount > record.unlockedAmount)
+        .map((record: any) => ({
+          lockId: record.id.toString(),
+          owner: record.owner,
+          amount: (record.amount - record.unlockedAmount).toString(),
+          lockedAt: toDate(record.lockDate),
+          ...pinkLockSchedule(Number(record.tgeDate), Number(record.tgeBps), Number(record.cycle), Number(record.cycleBps))
+        }));
+    }
+  },
+  {
+    platform: 'PinkLock',
+    async decode(locker, lpToken, provider) {
+      const contract = new ethers.Contract(locker, PINKLOCK_V1_ABI, provider);
+      const count = Number(await contract.totalLockCountForToken(lpToken));
+      if (count === 0) return [];
+      const records = await contract.getLocksForToken(lpToken, 0, Math.min(count, MAX_LOCK_RECORDS) - 1);
+      return records
+        .filter((record: any) => record.token.toLowerCase() === lpToken.toLowerCase() && record.amount > 0n)
+        .map((record: any) => ({
+          lockId: record.id.toString(),
+          owner: record.owner,
+          amount: record.amount.toString(),
+          lockedAt: toDate(record.lockDate),
+          unlockAt: toDate(record.unlockDate)
+        }));
+    }
+  },
+  {
+    platform: 'Unicrypt',
+    async decode(locker, lpToken, provider) {
+      const contract = new ethers.Contract(locker, UNICRYPT_V2_ABI, provider);
+      const count = Math.min(Number(await contract.getNumLocksForToken(lpToken)), MAX_LOCK_RECORDS);
+      const records = await Promise.all(Array.from({ length: count }, (_, index) => contract.tokenLocks(lpToken, index)));
+      return records
+        .filter((record: any) => record.amount > 0n)
+        .map((record: any) => ({
+          lockId: record.lockID.toString(),
+          owner: record.owner,
+          amount: record.amount.toString(),
+          lockedAt: toDate(record.lockDate),
+          unlockAt: toDate(record.unlockDate)
+        }));
+    }
+  },
+  {
+    platform: 'Team Finance',
+    async decode(locker, lpToken, provider) {
+      const contract = new ethers.Contract(locker, TEAM_FINANCE_ABI, provider);
+      const ids: bigint[] = (await contract.getDepositsByTokenAddress(lpToken)).slice(-MAX_LOCK_RECORDS);
+      const records = await Promise.all(ids.map(async id => ({ id, record: await contract.lockedToken(id) })));
+      return records
+        .filter(({ record }) => record.tokenAddress.toLowerCase() === lpToken.toLowerCase() && !record.withdrawn && record.tokenAmount > 0n)
+        .map(({ id, record }) => ({
+          lockId: id.toString(),
+          owner: record.withdrawalAddress,
+          amount: record.tokenAmount.toString(),
+          unlockAt: toDate(record.unlockTime)
+        }));
+    }
+  }
+];
+
+/**
+ * Combine decoded locks into shares of the pool, ordered by unlock date
+ */
+export function summarizeLocks(
+  poolAddress: string,
+  version: 'v2' | 'v3',
+  locks: LPLock[],
+  burnedPercent: number,
+  now: Date = new Date()
+): LPLockAnalysis {
+  const sorted = [...locks].sort((a, b) =>
+    (a.unlockAt?.getTime() ?? Infinity) - (b.unlockAt?.getTime() ?? Infinity) || b.percent - a.percent
+  );
+  const active = sorted.filter(lock => !lock.unlockAt || lock.unlockAt.getTime() > now.getTime());
+  const lockedPercent = Math.min(100, active.reduce((sum, lock) => sum + lock.percent, 0));
+  const nextUnlockAt = active.find(lock => lock.unlockAt)?.unlockAt;
+
+  return { poolAddress, version, burnedPercent, lockedPercent, locks: sorted, nextUnlockAt };
+}
+
+/**
+ * Stable identity of a lock, used to alert on each unlock once
+ */
+export function lockKey(lock: LPLock): string {
+  return `${lock.lockerAddress.toLowerCase()}:${lock.lockId ?? lock.positionId ?? 'balance'}`;
+}
+
+/**
+ * Locks of an analysis that reach their unlock date within the window
+ */
+export function getUpcomingUnlocks(analysis: LPLockAnalysis, withinMs: number, now: Date = new Date()): LPLock[] {
+  return analysis.locks.filter(lock => {
+    if (!lock.unlockAt) return false;
+    const unlockAt = new Date(lock.unlockAt).getTime();
+    return unlockAt > now.getTime() && unlockAt - now.getTime() <= withinMs;
+  });
+}
+
+/**
+ * Reads lock records from PinkLock, Unicrypt and Team Finance style lockers, and PancakeSwap V3
+ * position NFTs held by lockers
+ */
+export class LPLockService {
+  constructor(private provider: ethers.Provider) {}
+
+  /**
+   * Re-read the locks of a pool found by an earlier analysis
+   */
+  async analyzePool(poolAddress: string, version: 'v2' | 'v3'): Promise<LPLockAnalysis> {
+    if (version === 'v2') {
+      const pair = new ethers.Contract(poolAddress, LP_ABI, this.provider);
+      return this.analyzeV2Pair(poolAddress, await pair.totalSupply());
+    }
+
+    const pool = new ethers.Contract(poolAddress, V3_POOL_ABI, this.provider);
+    const [token0, token1, fee, liquidity] = await Promise.all([pool.token0(), pool.token1(), pool.fee(), pool.liquidity()]);
+    return this.analyzeV3Pool(poolAddress, token0, token1, fee, liquidity);
+  }
+
+  async analyzeV2Pair(pairAddress: string, totalSupply: bigint): Promise<LPLockAnalysis> {
+    const pair = new ethers.Contract(pairAddress, LP_ABI, this.provider);
+    const [deadBalance, zeroBalance] = await Promise.all([pair.balanceOf(DEAD_ADDRESS), pair.balanceOf(ZERO_ADDRESS)]);
+    const burnedPercent = this.percentOf(BigInt(deadBalance) + BigInt(zeroBalance), totalSupply);
+
+    const locks: LPLock[] = [];
+    await Promise.all(LP_LOCKERS.map(async locker => {
+      try {
+        const balance: bigint = await pair.balanceOf(locker.address);
+        if (balance === 0n) return;
+        locks.push(...await this.readLockerRecords(locker, pairAddress, balance, totalSupply));
+      } catch (error) {
+        logger.debug('Failed to read locker balance', { pairAddress, locker: locker.address });
+      }
+    }));
+
+    return summarizeLocks(pairAddress, 'v2', locks, burnedPercent);
+  }
+
+  async analyzeV3Pool(poolAddress: string, token0: string, token1: string, fee: bigint, poolLiquidity: bigint): Promise<LPLockAnalysis> {
+    const manager = new ethers.Contract(PANCAKE_V3_POSITION_MANAGER, POSITION_MANAGER_ABI, this.provider);
+    const locks: LPLock[] = [];
+
+    for (const locker of LP_LOCKERS) {
+      try {
+        const count = Number(await manager.balanceOf(locker.address));
+        if (count === 0) continue;
+
+        // Lockers can hold thousands of positions; pools launched recently have the newest ones
+        const indexes = Array.from({ length: Math.min(count, MAX_V3_POSITIONS) }, (_, i) => count - 1 - i);
+        const tokenIds: bigint[] = await Promise.all(indexes.map(index => manager.tokenOfOwnerByIndex(locker.address, index)));
+        const positions = await Promise.all(tokenIds.map(async tokenId => ({ tokenId, position: await manager.positions(tokenId) })));
+
+        for (const { tokenId, position } of positions) {
+          const samePool = position.token0.toLowerCase() === token0.toLowerCase()
+            && position.token1.toLowerCase() === token1.toLowerCase()
+            && BigInt(position.fee) === BigInt(fee);
+          if (!samePool || position.liquidity === 0n) continue;
+
+          locks.push({
+            platform: locker.name,
+            lockerAddress: locker.address,
+            amount: position.liquidity.toString(),
+            // Out-of-range positions aren't part of the active liquidity, so the share is capped
+            percent: Math.min(100, this.percentOf(position.liquidity, poolLiquidity)),
+            positionId: tokenId.toString()
+          });
+        }
+      } catch (error) {
+        logger.debug('Failed to read V3 positions of locker', { poolAddress, locker: locker.address });
+      }
+    }
+
+    return summarizeLocks(poolAddress, 'v3', locks, 0);
+  }
+
+  /**
+   * Decode the lock records behind a locker's LP balance. Whatever the records don't account
+   * for is still reported as locked, without an unlock date.
+   */
+  private async readLockerRecords(
+    locker: { address: string; name: string },
+    lpToken: string,
+    balance: bigint,
+    totalSupply: bigint
+  ): Promise<LPLock[]> {
+    for (const decoder of DECODERS) {
+      let decoded: DecodedLock[];
+      try {
+        decoded = await decoder.decode(locker.address, lpToken, this.provider);
+      } catch {
+        continue; // Locker doesn't speak this format
+      }
+      if (decoded.length === 0) continue;
+
+      const locks: LPLock[] = decoded.map(lock => ({
+        ...lock,
+        platform: decoder.platform,
+        lockerAddress: locker.address,
+        percent: this.percentOf(BigInt(lock.amount), totalSupply)
+      }));
+
+      const accounted = decoded.reduce((sum, lock) => sum + BigInt(lock.amount), 0n);
+      if (balance > accounted) {
+        locks.push(this.undecodedLock(locker, balance - accounted, totalSupply, decoder.platform));
+      }
+      return locks;
+    }
+
+    logger.debug('No lock record format matched locker', { locker: locker.address, lpToken });
+    return [this.undecodedLock(locker, balance, totalSupply, locker.name)];
+  }
+
+  private undecodedLock(locker: { address: string }, amount: bigint, totalSupply: bigint, platform: string): LPLock {
+    return { platform, lockerAddress: locker.address, amount: amount.toString(), percent: this.percentOf(amount, totalSupply) };
+  }
+
+  private percentOf(part: bigint, whole: bigint): number {
+    if (whole <= 0n) return 0;
+    return Number((part * 10000n) / whole) / 100;
+  }
+}
@@ -0,0 +1,151 @@
+import { ethers } from 'ethers';
+import { Markup } from 'telegraf';
+import { LpUnlockSubscriptionModel } from '@/database/models/LpUnlockSubscription';
+import { LPLockService, LPLockAnalysis, LPLock, getUpcomingUnlocks, lockKey } from './lpLocks';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('rugAlerts.lpUnlockAlerts');
+
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const ALERT_WINDOW_MS = 24 * 60 * 60 * 1000; // Users are told about unlocks this far ahead
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+export class LpUnlockAlertService {
+  private static intervalId: NodeJS.Timeout | null = null;
+  private static isProcessing = false;
+  private static lockService: LPLockService | null = null;
+
+  /**
+   * Start the LP unlock alert scheduler
+   */
+  static start(): void {
+    logger.info('Starting LP unlock alerts...');
+
+    this.intervalId = setInterval(() => {
+      this.processSubscriptions().catch(error => {
+        logger.error('Error processing LP unlock alerts', { error });
+      });
+    }, CHECK_INTERVAL_MS);
+
+    logger.info('LP unlock alerts started successfully');
+  }
+
+  /**
+   * Stop the LP unlock alert scheduler
+   */
+  static stop(): void {
+    logger.info('Stopping LP unlock alerts...');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    logger.info('LP unlock alerts stopped');
+  }
+
+  static async subscribe(telegramId: number, tokenAddress: string, tokenSymbol: string | undefined, lpLocks: LPLockAnalysis): Promise<void> {
+    await LpUnlockSubscriptionModel.updateOne(
+      { telegramId, tokenAddress: tokenAddress.toLowerCase() },
+      {
+        $set: { tokenSymbol, poolAddress: lpLocks.poolAddress.toLowerCase(), poolVersion: lpLocks.version, isActive: true },
+        $setOnInsert: { notifiedLocks: [], createdAt: new Date() },
+        $currentDate: { updatedAt: true }
+      },
+      { upsert: true }
+    );
+    logger.info('Subscribed to LP unlock alerts', { telegramId, tokenAddress, poolAddress: lpLocks.poolAddress });
+  }
+
+  static async unsubscribe(telegramId: number, tokenAddress: string): Promise<void> {
+    await LpUnlockSubscriptionModel.updateOne({ telegramId, tokenAddress: tokenAddress.toLowerCase() }, { isActive: false });
+  }
+
+  /**
+   * Re-read the locks of every subscribed pool and alert on locks expiring within 24 hours
+   */
+  static async processSubscriptions(): Promise<void> {
+    // Skip this tick if the previous one is still running
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      const subscriptions = await LpUnlockSubscriptionModel.find({ isActive: true });
+      const byPool = new Map<string, typeof subscriptions>();
+      for (const subscription of subscriptions) {
+        byPool.set(subscription.poolAddress, [...(byPool.get(subscription.poolAddress) || []), subscription]);
+      }
+
+      for (const [poolAddress, poolSubscriptions] of byPool) {
+        try {
+          const analysis = await this.getLockService().analyzePool(poolAddress, poolSubscriptions[0].poolVersion);
+          const upcoming = getUpcomingUnlocks(analysis, ALERT_WINDOW_MS);
+          if (upcoming.length === 0) continue;
+
+          for (const subscription of poolSubscriptions) {
+            const fresh = upcoming.filter(lock => !subscription.notifiedLocks.includes(lockKey(lock)));
+            if (fresh.length === 0) continue;
+
+            const sent = await this.sendAlert(subscription.telegramId, subscription.tokenAddress, subscription.tokenSymbol, fresh, analysis);
+            if (sent) {
+              subscription.notifiedLocks = [...subscription.notifiedLocks, ...fresh.map(lockKey)];
+              await subscription.save();
+            }
+          }
+        } catch (error) {
+          logger.error('Error checking LP unlocks of pool', { error, poolAddress });
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private static async sendAlert(
+    telegramId: number,
+    tokenAddress: string,
+    tokenSymbol: string | undefined,
+    locks: LPLock[],
+    analysis: LPLockAnalysis
+  ): Promise<boolean> {
+    try {
+      const bot = (globalThis as any).botExport;
+      if (!bot) return false;
+
+      const unlockingPercent = locks.reduce((sum, lock) => sum + lock.percent, 0);
+      let message = `⏰ **LP Unlock Alert: ${tokenSymbol || shortAddress(tokenAddress)}**\n\n`;
+      message += `${unlockingPercent.toFixed(1)}% of the LP unlocks within 24 hours. Once unlocked, the owner can remove that liquidity.\n\n`;
+      for (const lock of locks) {
+        const hours = Math.max(1, Math.ceil((new Date(lock.unlockAt!).getTime() - Date.now()) / (60 * 60 * 1000)));
+        message += `• ${lock.percent.toFixed(1)}% on ${lock.platform} in ~${hours}h (${new Date(lock.unlockAt!).toISOString().replace('T', ' ').slice(0, 16)} UTC)\n`;
+      }
+      message += `\n**Still locked after that:** ${Math.max(0, analysis.lockedPercent - unlockingPercent).toFixed(1)}%\n`;
+      message += `**Token:** \`${tokenAddress}\``;
+
+      await bot.telegram.sendMessage(telegramId, message, {
+        parse_mode: 'Markdown',
+        disable_web_page_preview: true,
+        reply_markup: {
+          inline_keyboard: [
+            [Markup.button.callback('📋 Full Report', `rug_details:${tokenAddress}`)],
+            [Markup.button.callback('🔕 Stop LP unlock alerts', `lp_unlock_unsub:${tokenAddress}`)]
+          ]
+        }
+      });
+      return true;
+    } catch (error) {
+      logger.error('Error sending LP unlock alert', { error, telegramId, tokenAddress });
+      return false;
+    }
+  }
+
+  private static getLockService(): LPLockService {
+    if (!this.lockService) {
+      this.lockService = new LPLockService(new ethers.JsonRpcProvider(process.env.BSC_RPC_URL || 'https://bsc-dataseed1.binance.org/'));
+    }
+    return this.lockService;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Single-page PDF card of a rug report snapshot, written by hand so it needs no
+ * rendering dependency. Only the standard Helvetica fonts are used, so text is limited to ASCII.
+ */
+
+export interface ReportCardData {
+  snapshotId: string;
+  tokenName?: string;
+  tokenSymbol?: string;
+  tokenAddress: string;
+  safetyScore: number;
+  scoreModelVersion?: string;
+  blockNumber: number;
+  createdAt: Date;
+  highlights: string[]; // Key metrics, one line each
+  riskFactors: string[];
+  shareUrl?: string;
+}
+
+const WIDTH = 595;
+const HEIGHT = 420;
+const MAX_LINE_CHARS = 90;
+
+type Color = [number, number, number];
+
+export function scoreColor(score: number): Color {
+  if (score >= 70) return [0.18, 0.62, 0.31];
+  if (score >= 40) return [0.9, 0.6, 0.1];
+  return [0.8, 0.16, 0.16];
+}
+
+/**
+ * Drop characters Helvetica can't show (emoji, CJK, Markdown markers) and escape PDF string syntax
+ */
+export function toPdfText(text: string, maxLength: number = MAX_LINE_CHARS): string {
+  let clean = text.replace(/[*_`]/g, '').replace(/[^\x20-\x7E]/g, '').replace(/\s+/g, ' ').trim();
+  if (clean.length > maxLength) {
+    clean = `${clean.slice(0, maxLength - 3)}...`;
+  }
+  return clean.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+function text(x: number, y: number, size: number, value: string, bold = false, color: Color = [0.1, 0.1, 0.1]): string {
+  return `${color.join(' ')} rg BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${y} Td (${value}) Tj ET`;
+}
+
+export function renderReportCardPdf(data: ReportCardData): Buffer {
+  const color = scoreColor(data.safetyScore);
+  const token = toPdfText(data.tokenSymbol ? `${data.tokenName || data.tokenSymbol} (${data.tokenSymbol})` : data.tokenAddress, 40);
+  const ops: string[] = [];
+
+  // Header band and score badge
+  ops.push(`${color.join(' ')} rg 0 ${HEIGHT - 70} ${WIDTH} 70 re f`);
+  ops.push(text(30, HEIGHT - 32, 11, 'BEANBEE RUG ALERT REPORT', true, [1, 1, 1]));
+  ops.push(text(30, HEIGHT - 55, 18, token, true, [1, 1, 1]));
+  ops.push(`1 1 1 rg ${WIDTH - 150} ${HEIGHT - 62} 120 54 re f`);
+  ops.push(text(WIDTH - 140, HEIGHT - 45, 26, `${Math.round(data.safetyScore)}/100`, true, color));
+  ops.push(text(WIDTH - 140, HEIGHT - 57, 8, 'SAFETY SCORE', false, color));
+
+  let y = HEIGHT - 92;
+  ops.push(text(30, y, 9, toPdfText(data.tokenAddress)));
+  y -= 14;
+  const scoredAt = data.createdAt.toISOString().replace('T', ' ').slice(0, 16);
+  const model = data.scoreModelVersion ? `, score model ${data.scoreModelVersion}` : '';
+  ops.push(text(30, y, 9, toPdfText(`Scored ${Math.round(data.safetyScore)}/100 at BSC block ${data.blockNumber} (${scoredAt} UTC${model})`), false, [0.35, 0.35, 0.35]));
+
+  y -= 26;
+  ops.push(text(30, y, 11, 'KEY METRICS', true));
+  for (const line of data.highlights.slice(0, 6)) {
+    y -= 15;
+    ops.push(text(38, y, 10, toPdfText(line)));
+  }
+
+  if (data.riskFactors.length > 0) {
+    y -= 24;
+    ops.push(text(30, y, 11, 'RISK FACTORS', true, [0.8, 0.16, 0.16]));
+    for (const line of data.riskFactors.slice(0, 6)) {
+      y -= 15;
+      if (y < 50) break;
+      ops.push(text(38, y, 10, `- ${toPdfText(line)}`));
+    }
+  }
+
+  // Footer
+  ops.push(`0.93 0.93 0.93 rg 0 0 ${WIDTH} 34 re f`);
+  ops.push(text(30, 13, 8, toPdfText(`Snapshot ${data.snapshotId}${data.shareUrl ? ` - ${data.shareUrl}` : ''}`), false, [0.35, 0.35, 0.35]));
+  ops.push(text(WIDTH - 175, 13, 8, 'BSC on-chain data. Not financial advice.', false, [0.35, 0.35, 0.35]));
+
+  const content = ops.join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${WIDTH} ${HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
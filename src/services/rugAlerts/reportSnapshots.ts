@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+import { RugReportSnapshotModel, RugReportSnapshot } from '@/database/models/RugReportSnapshot';
+import { RugAlertAnalysis } from './tokenAnalyzer';
+import { RugAlertsService } from './index';
+import { renderReportCardPdf } from './reportCard';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('rugAlerts.reportSnapshots');
+
+export type SnapshotExportFormat = 'json' | 'md' | 'pdf';
+
+export const SNAPSHOT_ID_PATTERN = /^[A-Za-z0-9_-]{12}$/;
+
+/**
+ * What the API and exports show of a snapshot. The creator's Telegram ID stays private.
+ */
+export interface PublicRugReportSnapshot {
+  snapshotId: string;
+  tokenAddress: string;
+  tokenName?: string;
+  tokenSymbol?: string;
+  safetyScore: number;
+  scoreModelVersion?: string;
+  blockNumber: number;
+  analyzedAt: string;
+  createdAt: string;
+  analysis: Record<string, any>;
+}
+
+export function toPublicSnapshot(snapshot: RugReportSnapshot): PublicRugReportSnapshot {
+  return {
+    snapshotId: snapshot.snapshotId,
+    tokenAddress: snapshot.tokenAddress,
+    tokenName: snapshot.tokenName,
+    tokenSymbol: snapshot.tokenSymbol,
+    safetyScore: snapshot.safetyScore,
+    scoreModelVersion: snapshot.scoreModelVersion,
+    blockNumber: snapshot.blockNumber,
+    analyzedAt: getAnalyzedAt(snapshot).toISOString(),
+    createdAt: (snapshot.createdAt || new Date()).toISOString(),
+    analysis: snapshot.analysis
+  };
+}
+
+/**
+ * When the snapshotted analysis ran. Snapshots from before analyzedAt was recorded fall back to createdAt.
+ */
+export function getAnalyzedAt(snapshot: RugReportSnapshot): Date {
+  return snapshot.analyzedAt || snapshot.createdAt || new Date();
+}
+
+/**
+ * One line per key metric, for the report card
+ */
+export function getSnapshotHighlights(analysis: Record<string, any>): string[] {
+  const { holderAnalysis, liquidityAnalysis, tradingActivity, honeypotAnalysis } = analysis;
+  const highlights: string[] = [];
+
+  const liquidityUSD = tradingActivity?.totalLiquidityUsd ?? liquidityAnalysis?.liquidityUSD;
+  if (!liquidityAnalysis?.hasLiquidity) {
+    highlights.push('Liquidity: no pool found');
+  } else {
+    const lpStatus = liquidityAnalysis.lpTokenBurned
+      ? 'LP burned'
+      : liquidityAnalysis.lpTokenLocked
+        ? `LP locked on ${liquidityAnalysis.lockPlatform || 'unknown platform'}${liquidityAnalysis.lockDuration ? ` for ${liquidityAnalysis.lockDuration} more days` : ''}`
+        : 'LP not locked';
+    highlights.push(`Liquidity: $${Math.round(liquidityUSD || 0).toLocaleString('en-US')}, ${lpStatus}`);
+  }
+
+  if (holderAnalysis) {
+    const clustered = holderAnalysis.clusterAnalysis?.realTop10Concentration;
+    highlights.push(`Top 10 holders: ${Number(holderAnalysis.top10ConcentrationExcludingLP || 0).toFixed(1)}% excl. LP`
+      + (clustered !== undefined ? ` (${clustered.toFixed(1)}% after clustering)` : '')
+      + `, ${holderAnalysis.totalHolders} holders`);
+  }
+
+  if (honeypotAnalysis?.isHoneypot) {
+    highlights.push('Honeypot: selling is blocked');
+  } else if (honeypotAnalysis) {
+    highlights.push(`Taxes: buy ${honeypotAnalysis.buyTax ?? 0}%, sell ${honeypotAnalysis.sellTax ?? 0}%`);
+  }
+
+  if (tradingActivity?.volume24h !== undefined) {
+    highlights.push(`24h volume: $${Math.round(tradingActivity.volume24h).toLocaleString('en-US')}`);
+  }
+
+  return highlights;
+}
+
+/**
+ * Stores immutable, shareable snapshots of rug-alert analyses and exports them as JSON,
+ * Markdown and a PDF card
+ */
+export class RugReportSnapshotService {
+  private reportRenderer: RugAlertsService | null = null;
+
+  /**
+   * The analysis may be hours old, so the snapshot carries the block and time it ran at
+   */
+  async createSnapshot(analysis: RugAlertAnalysis, telegramId: number): Promise<RugReportSnapshot> {
+    const blockNumber = analysis.analyzedAtBlock;
+    if (blockNumber === undefined) {
+      throw new Error('Analysis has no block number');
+    }
+
+    const snapshot = await RugReportSnapshotModel.create({
+      snapshotId: crypto.randomBytes(9).toString('base64url'),
+      tokenAddress: analysis.metadata.address,
+      tokenName: analysis.metadata.name,
+      tokenSymbol: analysis.metadata.symbol,
+      safetyScore: analysis.safetyScore,
+      scoreModelVersion: analysis.scoreModelVersion,
+      blockNumber,
+      analyzedAt: analysis.analyzedAt,
+      createdBy: telegramId,
+      // Plain JSON, so the stored copy can't drift from what is exported
+      analysis: JSON.parse(JSON.stringify(analysis))
+    });
+
+    logger.info('Created rug report snapshot', {
+      snapshotId: snapshot.snapshotId,
+      tokenAddress: snapshot.tokenAddress,
+      safetyScore: snapshot.safetyScore,
+      blockNumber
+    });
+    return snapshot;
+  }
+
+  async getSnapshot(snapshotId: string): Promise<RugReportSnapshot | null> {
+    if (!SNAPSHOT_ID_PATTERN.test(snapshotId)) {
+      return null;
+    }
+    return RugReportSnapshotModel.findOne({ snapshotId }).lean<RugReportSnapshot>();
+  }
+
+  toMarkdown(snapshot: RugReportSnapshot): string {
+    const scoredAt = getAnalyzedAt(snapshot).toISOString().replace('T', ' ').slice(0, 16);
+    const title = snapshot.tokenSymbol ? `${snapshot.tokenName || snapshot.tokenSymbol} (${snapshot.tokenSymbol})` : snapshot.tokenAddress;
+
+    let markdown = `# BeanBee Rug Report: ${title}\n\n`;
+    markdown += `BeanBee scored this token **${snapshot.safetyScore}/100** at BSC block ${snapshot.blockNumber} (${scoredAt} UTC`;
+    markdown += snapshot.scoreModelVersion ? `, score model ${snapshot.scoreModelVersion}).\n` : ').\n';
+    markdown += `Snapshot \`${snapshot.snapshotId}\`\n\n---\n\n`;
+    markdown += this.getReportRenderer().buildDetailedReport(snapshot.analysis as RugAlertAnalysis, 'en');
+    return `${markdown}\n`;
+  }
+
+  toPdf(snapshot: RugReportSnapshot, shareUrl?: string): Buffer {
+    const { honeypotAnalysis, holderAnalysis } = snapshot.analysis;
+    const riskFactors: string[] = [];
+    if (honeypotAnalysis?.isHoneypot) {
+      riskFactors.push(honeypotAnalysis.cannotSellReason || 'Token cannot be sold');
+    }
+    riskFactors.push(...(holderAnalysis?.riskFactors || []));
+
+    return renderReportCardPdf({
+      snapshotId: snapshot.snapshotId,
+      tokenName: snapshot.tokenName,
+      tokenSymbol: snapshot.tokenSymbol,
+      tokenAddress: snapshot.tokenAddress,
+      safetyScore: snapshot.safetyScore,
+      scoreModelVersion: snapshot.scoreModelVersion,
+      blockNumber: snapshot.blockNumber,
+      createdAt: getAnalyzedAt(snapshot),
+      highlights: getSnapshotHighlights(snapshot.analysis),
+      riskFactors,
+      shareUrl
+    });
+  }
+
+  // The Markdown export reuses the Telegram report, which only needs the formatting helpers
+  private getReportRenderer(): RugAlertsService {
+    if (!this.reportRenderer) {
+      this.reportRenderer = new RugAlertsService();
+    }
+    return this.reportRenderer;
+  }
+}
+
+export const rugReportSnapshotService = new RugReportSnapshotService();
@@ -0,0 +1,581 @@
+import { ethers } from 'ethers';
+import { Markup } from 'telegraf';
+import { DocumentType } from '@typegoose/typegoose';
+import {
+  RugWatchStateModel,
+  RugWatchState,
+  RugWatchAlertModel,
+  RugWatchEvent,
+  RugWatchHolder
+} from '@/database/models/RugWatch';
+import { TrackedTokenModel } from '@/database/models/TrackedToken';
+import { UserModel } from '@/database/models/User';
+import { getWalletTokensWithPrices } from '@/services/wallet/scannerUtils';
+import { KNOWN_LOCKERS } from './tokenAnalyzer';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('rugAlerts.rugWatch');
+
+export const RUG_WATCH_THRESHOLD_OPTIONS = [20, 30, 40, 50, 60];
+
+const CHECK_INTERVAL_MS = 2 * 60 * 1000; // On-chain event checks
+const RECHECK_INTERVAL_MS = 6 * 60 * 60 * 1000; // Scheduled full safety score re-check
+const HOLDINGS_REFRESH_MS = 30 * 60 * 1000; // Trading wallet holdings are re-read from Moralis this often
+const ALERT_COOLDOWN_MS = 12 * 60 * 60 * 1000; // Repeat an unchanged alert at most this often
+const MAX_ANALYSES_PER_TICK = 5; // Full analyses are expensive, the rest wait for the next tick
+const MAX_WATCHED_HOLDERS = 10;
+
+const PANCAKE_FACTORY = '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73';
+const WBNB = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
+const QUOTE_TOKENS = [
+  WBNB,
+  '0x55d398326f99059fF775485246999027B3197955', // USDT
+  '0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56' // BUSD
+];
+const DEAD_ADDRESS = '0x000000000000000000000000000000000000dead';
+
+const ERC20_ABI = [
+  'function totalSupply() view returns (uint256)',
+  'function balanceOf(address) view returns (uint256)',
+  'function owner() view returns (address)',
+  'function getOwner() view returns (address)'
+];
+
+const FACTORY_ABI = ['function getPair(address tokenA, address tokenB) view returns (address)'];
+
+const PAIR_ABI = [
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+  'function token0() view returns (address)',
+  'function totalSupply() view returns (uint256)',
+  'function balanceOf(address) view returns (uint256)'
+];
+
+export interface RugWatchThresholds {
+  liquidityDropPercent: number; // Drop of the quote reserve between two checks
+  lpUnlockPercent: number; // Points of LP supply leaving lockers and burn addresses
+  mintPercent: number; // Growth of the total supply
+  holderDumpPercent: number; // Share of their own balance a watched holder sold
+  holderDumpSupplyPercent: number; // Minimum size of that sale relative to the total supply
+}
+
+export const DEFAULT_RUG_WATCH_THRESHOLDS: RugWatchThresholds = {
+  liquidityDropPercent: 30,
+  lpUnlockPercent: 10,
+  mintPercent: 1,
+  holderDumpPercent: 50,
+  holderDumpSupplyPercent: 0.5
+};
+
+export interface TokenSnapshot {
+  quoteReserve?: string;
+  lpTotalSupply?: string;
+  lpLockedOrBurned?: string;
+  totalSupply?: string;
+  owner?: string;
+  holders: RugWatchHolder[];
+}
+
+export interface RugWatchSettings {
+  enabled: boolean;
+  threshold: number;
+  sellButton: boolean;
+}
+
+interface Watcher {
+  settings: RugWatchSettings;
+  holds: boolean; // Token is in the user's trading wallet
+}
+
+interface WatchedToken {
+  tokenAddress: string;
+  tokenSymbol?: string;
+  pairAddress?: string;
+  watchers: Map<number, Watcher>;
+}
+
+interface LastAlert {
+  safetyScore: number;
+  createdAt?: Date;
+}
+
+/**
+ * Percentage of part in whole with two decimals, computed on raw amounts
+ */
+function percentOf(part: bigint, whole: bigint): number {
+  if (whole <= 0n) return 0;
+  return Number((part * 10000n) / whole) / 100;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/**
+ * Compare two snapshots of a token and list the rug signals between them
+ */
+export function detectRugEvents(
+  previous: TokenSnapshot,
+  current: TokenSnapshot,
+  thresholds: RugWatchThresholds = DEFAULT_RUG_WATCH_THRESHOLDS,
+  now: Date = new Date()
+): RugWatchEvent[] {
+  const events: RugWatchEvent[] = [];
+
+  if (previous.quoteReserve && current.quoteReserve) {
+    const before = BigInt(previous.quoteReserve);
+    const after = BigInt(current.quoteReserve);
+    const drop = before > after ? percentOf(before - after, before) : 0;
+    if (drop >= thresholds.liquidityDropPercent) {
+      events.push({ type: 'liquidity_drop', detail: `Liquidity fell ${drop.toFixed(1)}%`, detectedAt: now });
+    }
+  }
+
+  if (previous.lpLockedOrBurned && previous.lpTotalSupply && current.lpLockedOrBurned && current.lpTotalSupply) {
+    const before = percentOf(BigInt(previous.lpLockedOrBurned), BigInt(previous.lpTotalSupply));
+    const after = percentOf(BigInt(current.lpLockedOrBurned), BigInt(current.lpTotalSupply));
+    if (before - after >= thresholds.lpUnlockPercent) {
+      events.push({
+        type: 'lp_unlock',
+        detail: `Locked or burned LP fell from ${before.toFixed(1)}% to ${after.toFixed(1)}%`,
+        detectedAt: now
+      });
+    }
+  }
+
+  if (previous.totalSupply && current.totalSupply) {
+    const before = BigInt(previous.totalSupply);
+    const after = BigInt(current.totalSupply);
+    const growth = after > before ? percentOf(after - before, before) : 0;
+    if (growth >= thresholds.mintPercent) {
+      events.push({ type: 'owner_mint', detail: `Total supply grew ${growth.toFixed(1)}% (new tokens minted)`, detectedAt: now });
+    }
+  }
+
+  if (previous.owner && current.owner && previous.owner.toLowerCase() !== current.owner.toLowerCase()
+    && current.owner !== ethers.ZeroAddress && current.owner.toLowerCase() !== DEAD_ADDRESS) {
+    events.push({
+      type: 'ownership_change',
+      detail: previous.owner === ethers.ZeroAddress
+        ? `Renounced ownership was taken back by ${shortAddress(current.owner)}`
+        : `Ownership moved from ${shortAddress(previous.owner)} to ${shortAddress(current.owner)}`,
+      detectedAt: now
+    });
+  }
+
+  const supply = current.totalSupply ? BigInt(current.totalSupply) : 0n;
+  const previousBalances = new Map(previous.holders.map(holder => [holder.address.toLowerCase(), holder.balance]));
+  for (const holder of current.holders) {
+    const previousBalance = previousBalances.get(holder.address.toLowerCase());
+    if (!previousBalance || !holder.balance) continue;
+
+    const before = BigInt(previousBalance);
+    const after = BigInt(holder.balance);
+    if (after >= before) continue;
+
+    const soldShare = percentOf(before - after, before);
+    const supplyShare = percentOf(before - after, supply);
+    if (soldShare >= thresholds.holderDumpPercent && supplyShare >= thresholds.holderDumpSupplyPercent) {
+      const who = holder.label === 'deployer' ? 'Deployer' : holder.label === 'owner' ? 'Owner' : `Top holder ${shortAddress(holder.address)}`;
+      events.push({
+        type: 'holder_dump',
+        detail: `${who} sold ${soldShare.toFixed(0)}% of their tokens (${supplyShare.toFixed(1)}% of supply)`,
+        detectedAt: now
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Decide whether a user gets an alert for a token's latest safety score
+ */
+export function shouldSendRugAlert(
+  lastAlert: LastAlert | null,
+  safetyScore: number,
+  threshold: number,
+  hasNewEvents: boolean,
+  now: Date = new Date()
+): boolean {
+  if (safetyScore >= threshold) return false;
+  if (!lastAlert || hasNewEvents) return true;
+
+  // A further drop is news, the same low score is repeated only after the cooldown
+  if (safetyScore <= lastAlert.safetyScore - 10) return true;
+  return !lastAlert.createdAt || now.getTime() - lastAlert.createdAt.getTime() >= ALERT_COOLDOWN_MS;
+}
+
+export class RugWatchService {
+  private static intervalId: NodeJS.Timeout | null = null;
+  private static isProcessing = false;
+  private static provider: ethers.JsonRpcProvider | null = null;
+  private static holdingsCache = new Map<number, { wallet: string; tokens: Array<{ address: string; symbol?: string }>; fetchedAt: number }>();
+
+  /**
+   * Start the rug-watch scheduler
+   */
+  static start(): void {
+    logger.info('Starting rug-watch...');
+
+    this.intervalId = setInterval(() => {
+      this.processWatchList().catch(error => {
+        logger.error('Error processing rug-watch', { error });
+      });
+    }, CHECK_INTERVAL_MS);
+
+    logger.info('Rug-watch started successfully');
+  }
+
+  /**
+   * Stop the rug-watch scheduler
+   */
+  static stop(): void {
+    logger.info('Stopping rug-watch...');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    logger.info('Rug-watch stopped');
+  }
+
+  static async getSettings(telegramId: number): Promise<RugWatchSettings> {
+    const user = await UserModel.findOne({ telegramId }).select('rugWatchEnabled rugWatchThreshold rugWatchSellButton');
+    return this.toSettings(user);
+  }
+
+  /**
+   * Check every held and tracked token for rug signals and re-score the ones that need it
+   */
+  static async processWatchList(): Promise<void> {
+    // Skip this tick if the previous one is still running
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      const watchList = await this.collectWatchList();
+      let analysesLeft = MAX_ANALYSES_PER_TICK;
+
+      for (const watched of watchList.values()) {
+        try {
+          const analyzed = await this.checkToken(watched, analysesLeft > 0);
+          if (analyzed) analysesLeft--;
+        } catch (error) {
+          logger.error('Error checking token in rug-watch', { error, tokenAddress: watched.tokenAddress });
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Tokens in the trading wallets and tracked tokens of every user with rug-watch on
+   */
+  private static async collectWatchList(): Promise<Map<string, WatchedToken>> {
+    const watchList = new Map<string, WatchedToken>();
+    const users = await UserModel.find({ rugWatchEnabled: { $ne: false } })
+      .select('telegramId tradingWalletAddress rugWatchEnabled rugWatchThreshold rugWatchSellButton');
+    const settingsByUser = new Map(users.map(user => [user.telegramId, this.toSettings(user)]));
+
+    const addWatcher = (telegramId: number, tokenAddress: string, holds: boolean, tokenSymbol?: string, pairAddress?: string) => {
+      const settings = settingsByUser.get(telegramId);
+      if (!settings) return;
+
+      const key = tokenAddress.toLowerCase();
+      let watched = watchList.get(key);
+      if (!watched) {
+        watched = { tokenAddress: key, watchers: new Map() };
+        watchList.set(key, watched);
+      }
+      watched.tokenSymbol ??= tokenSymbol;
+      watched.pairAddress ??= pairAddress;
+
+      const existing = watched.watchers.get(telegramId);
+      watched.watchers.set(telegramId, { settings, holds: holds || !!existing?.holds });
+    };
+
+    const trackedTokens = await TrackedTokenModel.find({ isActive: true, telegramId: { $in: [...settingsByUser.keys()] } })
+      .select('telegramId tokenAddress tokenSymbol pairAddress');
+    for (const tracked of trackedTokens) {
+      addWatcher(tracked.telegramId, tracked.tokenAddress, false, tracked.tokenSymbol, tracked.pairAddress);
+    }
+
+    for (const user of users) {
+      if (!user.tradingWalletAddress) continue;
+      const holdings = await this.getHeldTokens(user.telegramId, user.tradingWalletAddress);
+      for (const token of holdings) {
+        addWatcher(user.telegramId, token.address, true, token.symbol);
+      }
+    }
+
+    return watchList;
+  }
+
+  /**
+   * Tokens in a trading wallet, cached so Moralis is not called on every tick
+   */
+  private static async getHeldTokens(telegramId: number, wallet: string): Promise<Array<{ address: string; symbol?: string }>> {
+    const cached = this.holdingsCache.get(telegramId);
+    if (cached && cached.wallet === wallet && Date.now() - cached.fetchedAt < HOLDINGS_REFRESH_MS) {
+      return cached.tokens;
+    }
+
+    try {
+      const tokensData: any = await getWalletTokensWithPrices(wallet);
+      const tokens: any[] = Array.isArray(tokensData) ? tokensData : Array.isArray(tokensData?.result) ? tokensData.result : [];
+      const held = tokens
+        .filter(token => !token.native_token && !token.possible_spam && token.token_address && parseFloat(token.balance || '0') > 0)
+        .map(token => ({ address: String(token.token_address).toLowerCase(), symbol: token.symbol }));
+
+      this.holdingsCache.set(telegramId, { wallet, tokens: held, fetchedAt: Date.now() });
+      return held;
+    } catch (error) {
+      logger.warn('Failed to load trading wallet holdings for rug-watch', { error, telegramId });
+      return cached?.tokens || [];
+    }
+  }
+
+  /**
+   * Compare a token against its last snapshot and re-score it when something changed or a re-check is due.
+   * Returns true when a full analysis was run.
+   */
+  private static async checkToken(watched: WatchedToken, canAnalyze: boolean): Promise<boolean> {
+    const now = new Date();
+    let state = await RugWatchStateModel.findOne({ tokenAddress: watched.tokenAddress });
+    if (!state) {
+      state = new RugWatchStateModel({
+        tokenAddress: watched.tokenAddress,
+        tokenSymbol: watched.tokenSymbol,
+        pairAddress: watched.pairAddress?.toLowerCase()
+      });
+    }
+
+    const snapshot = await this.takeSnapshot(state, state.holders);
+    if (state.lastCheckedAt) {
+      const events = detectRugEvents(state, snapshot, DEFAULT_RUG_WATCH_THRESHOLDS, now);
+      if (events.length > 0) {
+        logger.info('Rug-watch events detected', { tokenAddress: watched.tokenAddress, events: events.map(event => event.type) });
+        state.pendingEvents = [...state.pendingEvents, ...events];
+      }
+    }
+
+    state.quoteReserve = snapshot.quoteReserve;
+    state.lpTotalSupply = snapshot.lpTotalSupply;
+    state.lpLockedOrBurned = snapshot.lpLockedOrBurned;
+    state.totalSupply = snapshot.totalSupply;
+    state.owner = snapshot.owner?.toLowerCase();
+    state.holders = snapshot.holders;
+    state.lastCheckedAt = now;
+
+    const recheckDue = !state.lastAnalyzedAt || now.getTime() - state.lastAnalyzedAt.getTime() >= RECHECK_INTERVAL_MS;
+    if (!canAnalyze || (state.pendingEvents.length === 0 && !recheckDue)) {
+      await state.save();
+      return false;
+    }
+
+    const { TokenAnalyzer } = await import('./tokenAnalyzer');
+    const analysis = await new TokenAnalyzer().analyzeToken(watched.tokenAddress);
+    if (!analysis) {
+      // Keep pending events for the next attempt
+      state.lastAnalyzedAt = now;
+      await state.save();
+      return true;
+    }
+
+    const previousScore = state.safetyScore;
+    const events = state.pendingEvents;
+    state.safetyScore = analysis.safetyScore;
+    state.tokenSymbol = analysis.metadata.symbol || state.tokenSymbol;
+    state.lastAnalyzedAt = now;
+    state.pendingEvents = [];
+
+    // Refresh the holders compared on each check from the latest analysis
+    const holderCandidates: Array<Omit<RugWatchHolder, 'balance'>> = [];
+    if (analysis.metadata.deployerAddress) holderCandidates.push({ address: analysis.metadata.deployerAddress, label: 'deployer' });
+    if (analysis.metadata.ownerAddress && analysis.metadata.ownerAddress !== ethers.ZeroAddress) {
+      holderCandidates.push({ address: analysis.metadata.ownerAddress, label: 'owner' });
+    }
+    for (const holder of analysis.holderAnalysis.top10Holders) {
+      if (holder.isLiquidityPool || holder.address.toLowerCase() === DEAD_ADDRESS || holder.address === ethers.ZeroAddress) continue;
+      holderCandidates.push({ address: holder.address, label: 'holder' });
+    }
+    const uniqueHolders = holderCandidates
+      .filter((holder, index) => holderCandidates.findIndex(other => other.address.toLowerCase() === holder.address.toLowerCase()) === index)
+      .slice(0, MAX_WATCHED_HOLDERS);
+    state.holders = await this.readHolderBalances(watched.tokenAddress, uniqueHolders);
+
+    await state.save();
+
+    for (const [telegramId, watcher] of watched.watchers) {
+      await this.alertIfNeeded(telegramId, watcher, state, events, previousScore);
+    }
+    return true;
+  }
+
+  private static async alertIfNeeded(
+    telegramId: number,
+    watcher: Watcher,
+    state: DocumentType<RugWatchState>,
+    events: RugWatchEvent[],
+    previousScore?: number
+  ): Promise<void> {
+    const safetyScore = state.safetyScore;
+    if (safetyScore === undefined || !watcher.settings.enabled) return;
+
+    const lastAlert = await RugWatchAlertModel.findOne({ telegramId, tokenAddress: state.tokenAddress }).sort({ createdAt: -1 });
+    if (!shouldSendRugAlert(lastAlert, safetyScore, watcher.settings.threshold, events.length > 0)) return;
+
+    await RugWatchAlertModel.create({
+      telegramId,
+      tokenAddress: state.tokenAddress,
+      safetyScore,
+      threshold: watcher.settings.threshold,
+      events
+    });
+    await this.sendAlert(telegramId, watcher, state, events, previousScore);
+  }
+
+  private static async sendAlert(
+    telegramId: number,
+    watcher: Watcher,
+    state: DocumentType<RugWatchState>,
+    events: RugWatchEvent[],
+    previousScore?: number
+  ): Promise<void> {
+    try {
+      const bot = (globalThis as any).botExport;
+      if (!bot) return;
+
+      const token = state.tokenSymbol || shortAddress(state.tokenAddress);
+      let message = `🚨 **Rug-Watch Alert: ${token}**\n\n`;
+      message += `**Safety Score:** ${state.safetyScore}/100 (your threshold: ${watcher.settings.threshold})\n`;
+      if (previousScore !== undefined && previousScore !== state.safetyScore) {
+        message += `**Previous Score:** ${previousScore}/100\n`;
+      }
+      message += `**Token:** \`${state.tokenAddress}\`\n\n`;
+
+      if (events.length > 0) {
+        message += `**What changed:**\n`;
+        for (const event of events) {
+          message += `• ${event.detail}\n`;
+        }
+      } else {
+        message += `_Found by a scheduled re-check._\n`;
+      }
+
+      message += watcher.holds
+        ? `\nYou hold this token in your trading wallet.`
+        : `\nYou are tracking this token.`;
+
+      const buttons = [];
+      if (watcher.holds && watcher.settings.sellButton) {
+        buttons.push([Markup.button.callback('🚨 Sell All', `rw_sell_${state.tokenAddress}`)]);
+      }
+      buttons.push([
+        Markup.button.callback('📋 Full Report', `rug_details:${state.tokenAddress}`),
+        Markup.button.callback('⚙️ Rug-Watch', 'rug_watch_settings')
+      ]);
+
+      await bot.telegram.sendMessage(telegramId, message, {
+        parse_mode: 'Markdown',
+        disable_web_page_preview: true,
+        reply_markup: { inline_keyboard: buttons }
+      });
+    } catch (error) {
+      logger.error('Error sending rug-watch alert', { error, telegramId, tokenAddress: state.tokenAddress });
+    }
+  }
+
+  /**
+   * Read supply, owner, pair reserves, locked LP and watched holder balances of a token
+   */
+  private static async takeSnapshot(state: DocumentType<RugWatchState>, holders: RugWatchHolder[]): Promise<TokenSnapshot> {
+    const provider = this.getProvider();
+    const token = new ethers.Contract(state.tokenAddress, ERC20_ABI, provider);
+    const snapshot: TokenSnapshot = { holders: [] };
+
+    try {
+      snapshot.totalSupply = (await token.totalSupply()).toString();
+    } catch (error) {
+      logger.debug('Failed to read total supply', { tokenAddress: state.tokenAddress });
+    }
+
+    try {
+      snapshot.owner = await token.owner();
+    } catch {
+      try {
+        snapshot.owner = await token.getOwner();
+      } catch {
+        // Token has no owner function
+      }
+    }
+
+    if (!state.pairAddress) {
+      const factory = new ethers.Contract(PANCAKE_FACTORY, FACTORY_ABI, provider);
+      for (const quoteToken of QUOTE_TOKENS) {
+        try {
+          const pairAddress: string = await factory.getPair(state.tokenAddress, quoteToken);
+          if (pairAddress !== ethers.ZeroAddress) {
+            state.pairAddress = pairAddress.toLowerCase();
+            break;
+          }
+        } catch (error) {
+          logger.debug('Failed to look up pair', { tokenAddress: state.tokenAddress, quoteToken });
+        }
+      }
+    }
+
+    if (state.pairAddress) {
+      try {
+        const pair = new ethers.Contract(state.pairAddress, PAIR_ABI, provider);
+        const [reserves, token0, lpTotalSupply] = await Promise.all([pair.getReserves(), pair.token0(), pair.totalSupply()]);
+        const tokenIsToken0 = token0.toLowerCase() === state.tokenAddress;
+        snapshot.quoteReserve = (tokenIsToken0 ? reserves[1] : reserves[0]).toString();
+        snapshot.lpTotalSupply = lpTotalSupply.toString();
+
+        const lockedBalances: bigint[] = await Promise.all(
+          [DEAD_ADDRESS, ethers.ZeroAddress, ...KNOWN_LOCKERS].map(address => pair.balanceOf(address))
+        );
+        snapshot.lpLockedOrBurned = lockedBalances.reduce((sum, balance) => sum + BigInt(balance), 0n).toString();
+      } catch (error) {
+        // V3 pools and non-standard pairs have no reserves to compare
+        logger.debug('Failed to read pair state', { tokenAddress: state.tokenAddress, pairAddress: state.pairAddress });
+      }
+    }
+
+    snapshot.holders = await this.readHolderBalances(state.tokenAddress, holders);
+    return snapshot;
+  }
+
+  private static async readHolderBalances(
+    tokenAddress: string,
+    holders: Array<Omit<RugWatchHolder, 'balance'>>
+  ): Promise<RugWatchHolder[]> {
+    const token = new ethers.Contract(tokenAddress, ERC20_ABI, this.getProvider());
+    return Promise.all(holders.map(async holder => {
+      try {
+        const balance: bigint = await token.balanceOf(holder.address);
+        return { address: holder.address, label: holder.label, balance: balance.toString() };
+      } catch {
+        return { address: holder.address, label: holder.label, balance: '' };
+      }
+    }));
+  }
+
+  private static toSettings(user: { rugWatchEnabled?: boolean; rugWatchThreshold?: number; rugWatchSellButton?: boolean } | null): RugWatchSettings {
+    return {
+      enabled: user?.rugWatchEnabled ?? true,
+      threshold: user?.rugWatchThreshold ?? 40,
+      sellButton: user?.rugWatchSellButton ?? true
+    };
+  }
+
+  private static getProvider(): ethers.JsonRpcProvider {
+    if (!this.provider) {
+      this.provider = new ethers.JsonRpcProvider(process.env.BSC_RPC_URL || 'https://bsc-dataseed1.binance.org/');
+    }
+    return this.provider;
+  }
+}
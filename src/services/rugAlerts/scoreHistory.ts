@@ -0,0 +1,138 @@
+import { SafetyScoreRecordModel } from '@/database/models/SafetyScoreRecord';
+import { createLogger } from '@/utils/logger';
+import type { SafetyScoreComponentKey, ScoreComponentResult } from './scoringModel';
+
+const logger = createLogger('rugAlerts.scoreHistory');
+
+const MAX_HISTORY_POINTS = 30;
+const SPARKLINE_POINTS = 12;
+const SPARKLINE_CHARS = '▁▂▃▄▅▆▇█';
+
+export const SCORE_COMPONENT_LABELS: Record<SafetyScoreComponentKey, string> = {
+  holders: 'holders',
+  liquidity: 'liquidity',
+  verification: 'verification',
+  trading: 'trading',
+  ownership: 'ownership',
+  age: 'age',
+  honeypot: 'honeypot',
+  diamondHands: 'diamond hands',
+  scSecurity: 'contract security',
+  priceDeviation: 'price deviation',
+  bytecode: 'bytecode',
+  deployer: 'deployer'
+};
+
+export interface ScoreHistoryPoint {
+  score: number;
+  modelVersion: string;
+  components: ScoreComponentResult[];
+  recordedAt: Date;
+}
+
+export interface ComponentDelta {
+  key: SafetyScoreComponentKey;
+  delta: number;
+}
+
+export interface ScoreTrend {
+  previousScore: number;
+  scoreDelta: number;
+  componentDeltas: ComponentDelta[]; // Changed components, biggest change first
+  since: Date; // When the compared check ran
+  recentScores: number[]; // Oldest first, ending with the current score
+  checks: number; // Earlier checks on record, current one excluded
+}
+
+/**
+ * Compare a fresh score with the last earlier check scored by the same model. Scores of
+ * different model versions aren't comparable component by component, so they are skipped.
+ */
+export function computeScoreTrend(
+  current: { score: number; modelVersion: string; components: ScoreComponentResult[] },
+  history: ScoreHistoryPoint[] // Earlier checks, newest first
+): ScoreTrend | null {
+  const comparable = history.filter(point => point.modelVersion === current.modelVersion);
+  const previous = comparable[0];
+  if (!previous) {
+    return null;
+  }
+
+  const previousPoints = new Map(previous.components.map(component => [component.key, component.points]));
+  const componentDeltas = current.components
+    .map(component => ({ key: component.key, delta: component.points - (previousPoints.get(component.key) ?? 0) }))
+    .filter(change => change.delta !== 0)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  return {
+    previousScore: previous.score,
+    scoreDelta: current.score - previous.score,
+    componentDeltas,
+    since: previous.recordedAt,
+    recentScores: [...comparable.slice(0, SPARKLINE_POINTS - 1).map(point => point.score).reverse(), current.score],
+    checks: comparable.length
+  };
+}
+
+export function formatSince(since: Date, now: Date = new Date()): string {
+  const minutes = Math.floor((now.getTime() - new Date(since).getTime()) / 60000);
+  if (minutes < 60) return minutes <= 1 ? 'a minute ago' : `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return days === 1 ? 'yesterday' : `${days} days ago`;
+}
+
+export function formatSignedDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : delta < 0 ? `−${Math.abs(delta)}` : '±0';
+}
+
+export function renderSparkline(scores: number[]): string {
+  return scores
+    .map(score => SPARKLINE_CHARS[Math.min(SPARKLINE_CHARS.length - 1, Math.max(0, Math.floor(score / 100 * SPARKLINE_CHARS.length)))])
+    .join('');
+}
+
+/**
+ * Markdown lines shown under the safety score, e.g. "liquidity −8, holders −4 since yesterday"
+ */
+export function formatScoreTrend(trend: ScoreTrend, now: Date = new Date()): string {
+  const icon = trend.scoreDelta > 0 ? '📈' : trend.scoreDelta < 0 ? '📉' : '➖';
+  const since = formatSince(trend.since, now);
+  let text = `${icon} *Trend:* ${trend.previousScore} → ${trend.previousScore + trend.scoreDelta} (${formatSignedDelta(trend.scoreDelta)}) since ${since}\n`;
+
+  if (trend.componentDeltas.length > 0) {
+    text += `   ${trend.componentDeltas.slice(0, 4).map(change => `${SCORE_COMPONENT_LABELS[change.key] || change.key} ${formatSignedDelta(change.delta)}`).join(', ')}\n`;
+  }
+  if (trend.recentScores.length > 2) {
+    text += `   ${renderSparkline(trend.recentScores)} last ${trend.recentScores.length} checks\n`;
+  }
+  return text;
+}
+
+/**
+ * Reads the time series of safety scores stored for every analysis (safety_score_records)
+ */
+export class ScoreHistoryService {
+  async getHistory(tokenAddress: string, limit: number = MAX_HISTORY_POINTS): Promise<ScoreHistoryPoint[]> {
+    try {
+      const records = await SafetyScoreRecordModel.find({ tokenAddress: tokenAddress.toLowerCase() })
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .select('score modelVersion components createdAt')
+        .lean();
+
+      return records.map(record => ({
+        score: record.score,
+        modelVersion: record.modelVersion,
+        components: record.components || [],
+        recordedAt: record.createdAt || new Date(0)
+      }));
+    } catch (error) {
+      logger.warn('Failed to read safety score history', { tokenAddress, error: error instanceof Error ? error.message : String(error) });
+      return [];
+    }
+  }
+}
+
+export const scoreHistoryService = new ScoreHistoryService();
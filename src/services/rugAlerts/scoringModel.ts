@@ -0,0 +1,335 @@
+import { SAFETY_SCORE_MODELS, CURRENT_SAFETY_SCORE_MODEL_VERSION } from '@/config/safetyScoreModels';
+import type {
+  RugAlertAnalysis,
+  TokenMetadata,
+  TokenHolderAnalysis,
+  LiquidityAnalysis,
+  TradingActivityAnalysis,
+  HoneypotAnalysis
+} from './tokenAnalyzer';
+import type { SCSecurityAnalysis } from '@/services/hapiLabs';
+import type { BytecodeAnalysis, RiskCapability } from './bytecodeAnalyzer';
+import type { PriceDeviationResult } from '@/services/priceDeviation/priceDeviationChecker';
+import type { DeployerReputation } from './deployerReputation';
+
+/**
+ * Everything the safety score is computed from. Stored with every score so analyses
+ * can be re-scored offline with a different model.
+ */
+export interface SafetyScoreFeatures {
+  top10ConcentrationExcludingLP: number;
+  verified: boolean;
+  bytecodeClean: boolean; // Bytecode was analysed and shows no risky capabilities
+  bytecodeApplies: boolean; // Bytecode findings count (unverified, or no source-based screening)
+  bytecodeCapabilities: RiskCapability[];
+  hasLiquidity: boolean;
+  liquidityUsd?: number;
+  lpBurned: boolean;
+  lpLocked: boolean;
+  hasActiveTrading: boolean;
+  ownershipRenounced: boolean;
+  ageDays?: number;
+  isHoneypot: boolean;
+  honeypotReason?: string;
+  diamondHandsCount: number;
+  hasScSecurityData: boolean;
+  scSecurityScore: number;
+  priceDeviationPercent?: number; // Only set when a deviation was detected
+  deployerKnown?: boolean; // Deployer history was available (from v2)
+  deployerTokensLaunched?: number;
+  deployerFailedTokens?: number; // Earlier tokens that are dead or had liquidity pulled
+  deployerFailurePercent?: number;
+  deployerFlagged?: boolean; // HAPI Labs flags the deployer or its funding source
+  deployerNetworkFailedTokens?: number; // Failed tokens of other deployers with the same funding source
+}
+
+export type SafetyScoreComponentKey = keyof RugAlertAnalysis['safetyScoreDetails'];
+type NumericFeature = { [K in keyof SafetyScoreFeatures]-?: SafetyScoreFeatures[K] extends number | undefined ? K : never }[keyof SafetyScoreFeatures];
+
+export interface FeatureCondition {
+  feature: keyof SafetyScoreFeatures;
+  equals?: boolean | number;
+  gte?: number;
+  gt?: number;
+  lte?: number;
+  lt?: number;
+  present?: boolean;
+}
+
+/**
+ * Points a rule gives and why. `{feature}` placeholders in reason and riskFactor are
+ * replaced with feature values.
+ */
+export interface ScoreOutcome {
+  points: number;
+  reason: string;
+  riskFactor?: string;
+}
+
+export type ScoreRule =
+  | {
+    type: 'cases'; // First case whose conditions all hold wins
+    cases: Array<{ when: FeatureCondition[]; outcome: ScoreOutcome }>;
+    otherwise: ScoreOutcome;
+  }
+  | {
+    type: 'feature'; // Points taken from a numeric feature, e.g. a third-party score
+    feature: NumericFeature;
+    when: FeatureCondition[];
+    reason: string;
+    otherwise: ScoreOutcome;
+  }
+  | {
+    type: 'capabilities'; // Penalty per risky bytecode capability, capped
+    penalties: Partial<Record<RiskCapability, number>>;
+    maxPenalty: number;
+  };
+
+export interface ScoreComponentConfig {
+  key: SafetyScoreComponentKey;
+  max: number; // Shown in breakdowns, penalties use 0
+  gate?: { when: FeatureCondition[]; otherwise: ScoreOutcome }; // Rules only run when the gate holds
+  rules: ScoreRule[]; // Points of all rules are added up
+}
+
+export interface SafetyScoreModel {
+  version: string;
+  description: string;
+  components: ScoreComponentConfig[];
+}
+
+export interface ScoreComponentResult {
+  key: SafetyScoreComponentKey;
+  points: number;
+  max: number;
+  reasons: string[];
+}
+
+export interface SafetyScoreResult {
+  modelVersion: string;
+  score: number;
+  details: RugAlertAnalysis['safetyScoreDetails'];
+  components: ScoreComponentResult[];
+  riskFactors: string[];
+}
+
+export interface SafetyScoreInputs {
+  metadata: TokenMetadata;
+  holderAnalysis: TokenHolderAnalysis;
+  liquidityAnalysis: LiquidityAnalysis;
+  tradingActivity: TradingActivityAnalysis;
+  honeypotAnalysis: HoneypotAnalysis;
+  scSecurityAnalysis?: SCSecurityAnalysis | null;
+  bytecodeAnalysis?: BytecodeAnalysis | null;
+  deployerReputation?: DeployerReputation | null;
+  priceDeviation?: PriceDeviationResult | null;
+}
+
+export interface CalibrationSample {
+  tokenAddress: string;
+  features: SafetyScoreFeatures;
+  isRug: boolean;
+}
+
+export interface CalibrationReport {
+  modelVersion: string;
+  samples: number;
+  rugs: number;
+  meanRugScore: number;
+  meanOtherScore: number;
+  auc: number; // Chance a random rug scores below a random non-rug, 0.5 is no better than guessing
+  threshold: number;
+  truePositives: number; // Rugs scored below the threshold
+  falsePositives: number; // Non-rugs scored below the threshold
+  falseNegatives: number; // Rugs at or above the threshold
+  precision: number;
+  recall: number;
+}
+
+export function getSafetyScoreModel(version: string = CURRENT_SAFETY_SCORE_MODEL_VERSION): SafetyScoreModel {
+  const model = SAFETY_SCORE_MODELS[version];
+  if (!model) {
+    throw new Error(`Unknown safety score model version: ${version}`);
+  }
+  return model;
+}
+
+/**
+ * Check that a model loaded from JSON has the shape the scorer expects
+ */
+export function validateSafetyScoreModel(model: any): SafetyScoreModel {
+  if (!model || typeof model.version !== 'string' || !model.version) {
+    throw new Error('Safety score model needs a version');
+  }
+  if (!Array.isArray(model.components) || model.components.length === 0) {
+    throw new Error(`Safety score model ${model.version} has no components`);
+  }
+
+  const knownKeys = new Set(getSafetyScoreModel().components.map(component => component.key));
+  for (const component of model.components) {
+    if (!knownKeys.has(component.key)) {
+      throw new Error(`Safety score model ${model.version} has an unknown component: ${component.key}`);
+    }
+    if (!Array.isArray(component.rules)) {
+      throw new Error(`Component ${component.key} of model ${model.version} has no rules`);
+    }
+  }
+  return model as SafetyScoreModel;
+}
+
+/**
+ * Reduce the raw analysis results to the features the model scores
+ */
+export function extractSafetyScoreFeatures(inputs: SafetyScoreInputs): SafetyScoreFeatures {
+  const { metadata, holderAnalysis, liquidityAnalysis, tradingActivity, honeypotAnalysis, scSecurityAnalysis, bytecodeAnalysis, deployerReputation, priceDeviation } = inputs;
+
+  // Same liquidity source as the display: prefer trading activity data over the pool scan
+  const liquidityUsd = (tradingActivity.totalLiquidityUsd && tradingActivity.totalLiquidityUsd > 0)
+    ? tradingActivity.totalLiquidityUsd
+    : liquidityAnalysis.liquidityUSD;
+
+  const hasScSecurityData = !!scSecurityAnalysis?.hasData;
+
+  return {
+    top10ConcentrationExcludingLP: holderAnalysis.top10ConcentrationExcludingLP,
+    verified: !!metadata.verified,
+    bytecodeClean: !!bytecodeAnalysis?.hasCode && bytecodeAnalysis.capabilities.length === 0,
+    bytecodeApplies: !!bytecodeAnalysis?.hasCode && (!metadata.verified || !hasScSecurityData),
+    bytecodeCapabilities: bytecodeAnalysis?.capabilities.map(capability => capability.capability) || [],
+    hasLiquidity: liquidityAnalysis.hasLiquidity,
+    liquidityUsd: liquidityUsd || undefined,
+    lpBurned: !!liquidityAnalysis.lpTokenBurned,
+    lpLocked: !!liquidityAnalysis.lpTokenLocked,
+    hasActiveTrading: tradingActivity.hasActiveTrading,
+    ownershipRenounced: !metadata.ownerAddress || !!metadata.renounced,
+    ageDays: metadata.createdAt ? (Date.now() - new Date(metadata.createdAt).getTime()) / (1000 * 60 * 60 * 24) : undefined,
+    isHoneypot: honeypotAnalysis.isHoneypot,
+    honeypotReason: honeypotAnalysis.isHoneypot ? (honeypotAnalysis.cannotSellReason || 'Cannot sell token') : undefined,
+    diamondHandsCount: holderAnalysis.top10Holders.filter(holder => holder.isDiamondHands).length,
+    hasScSecurityData,
+    scSecurityScore: hasScSecurityData ? scSecurityAnalysis!.securityScore : 0,
+    priceDeviationPercent: priceDeviation?.hasDeviation ? priceDeviation.deviationPercentage : undefined,
+    deployerKnown: !!deployerReputation,
+    deployerTokensLaunched: deployerReputation?.tokensLaunched,
+    deployerFailedTokens: deployerReputation?.failedTokens,
+    deployerFailurePercent: deployerReputation && deployerReputation.earlierTokens > 0
+      ? (deployerReputation.failedTokens / deployerReputation.earlierTokens) * 100
+      : undefined,
+    deployerFlagged: deployerReputation?.flagged,
+    deployerNetworkFailedTokens: deployerReputation?.networkFailedTokens
+  };
+}
+
+function matches(features: SafetyScoreFeatures, condition: FeatureCondition): boolean {
+  const value = features[condition.feature];
+  if (condition.present !== undefined && (value !== undefined && value !== null) !== condition.present) return false;
+  if (condition.equals !== undefined && value !== condition.equals) return false;
+
+  const hasRangeCheck = condition.gte !== undefined || condition.gt !== undefined || condition.lte !== undefined || condition.lt !== undefined;
+  if (hasRangeCheck) {
+    if (typeof value !== 'number') return false;
+    if (condition.gte !== undefined && !(value >= condition.gte)) return false;
+    if (condition.gt !== undefined && !(value > condition.gt)) return false;
+    if (condition.lte !== undefined && !(value <= condition.lte)) return false;
+    if (condition.lt !== undefined && !(value < condition.lt)) return false;
+  }
+  return true;
+}
+
+function fillTemplate(template: string, features: SafetyScoreFeatures): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = (features as any)[name];
+    if (value === undefined || value === null) return placeholder;
+    return typeof value === 'number' ? String(Math.round(value * 10) / 10) : String(value);
+  });
+}
+
+/**
+ * Score a token's features with a model, keeping the reason behind every component's points
+ */
+export function scoreSafety(features: SafetyScoreFeatures, model: SafetyScoreModel = getSafetyScoreModel()): SafetyScoreResult {
+  const components: ScoreComponentResult[] = [];
+  const riskFactors: string[] = [];
+
+  const apply = (outcome: ScoreOutcome, result: ScoreComponentResult) => {
+    result.points += outcome.points;
+    result.reasons.push(fillTemplate(outcome.reason, features));
+    if (outcome.riskFactor) riskFactors.push(fillTemplate(outcome.riskFactor, features));
+  };
+
+  for (const component of model.components) {
+    const result: ScoreComponentResult = { key: component.key, points: 0, max: component.max, reasons: [] };
+
+    if (component.gate && !component.gate.when.every(condition => matches(features, condition))) {
+      apply(component.gate.otherwise, result);
+      components.push(result);
+      continue;
+    }
+
+    for (const rule of component.rules) {
+      if (rule.type === 'cases') {
+        const match = rule.cases.find(option => option.when.every(condition => matches(features, condition)));
+        apply(match ? match.outcome : rule.otherwise, result);
+      } else if (rule.type === 'feature') {
+        if (rule.when.every(condition => matches(features, condition))) {
+          apply({ points: Number(features[rule.feature] ?? 0), reason: rule.reason }, result);
+        } else {
+          apply(rule.otherwise, result);
+        }
+      } else {
+        const penalty = features.bytecodeCapabilities.reduce((sum, capability) => sum + (rule.penalties[capability] ?? 0), 0);
+        const applied = Math.min(penalty, rule.maxPenalty);
+        result.points -= applied;
+        result.reasons.push(applied > 0
+          ? `Risky capabilities: ${features.bytecodeCapabilities.join(', ')}`
+          : 'No risky capabilities');
+      }
+    }
+
+    components.push(result);
+  }
+
+  const details = Object.fromEntries(components.map(component => [component.key, component.points])) as RugAlertAnalysis['safetyScoreDetails'];
+  const score = components.reduce((sum, component) => sum + component.points, 0);
+
+  return { modelVersion: model.version, score, details, components, riskFactors };
+}
+
+/**
+ * Re-score labelled samples with a model and measure how well low scores pick out rugs
+ */
+export function calibrateSafetyScoreModel(samples: CalibrationSample[], model: SafetyScoreModel, threshold: number): CalibrationReport {
+  const scored = samples.map(sample => ({ isRug: sample.isRug, score: scoreSafety(sample.features, model).score }));
+  const rugScores = scored.filter(sample => sample.isRug).map(sample => sample.score);
+  const otherScores = scored.filter(sample => !sample.isRug).map(sample => sample.score);
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  // AUC by pairwise comparison, ties count half
+  let wins = 0;
+  for (const rugScore of rugScores) {
+    for (const otherScore of otherScores) {
+      if (rugScore < otherScore) wins += 1;
+      else if (rugScore === otherScore) wins += 0.5;
+    }
+  }
+  const pairs = rugScores.length * otherScores.length;
+
+  const truePositives = rugScores.filter(score => score < threshold).length;
+  const falsePositives = otherScores.filter(score => score < threshold).length;
+  const falseNegatives = rugScores.length - truePositives;
+
+  return {
+    modelVersion: model.version,
+    samples: samples.length,
+    rugs: rugScores.length,
+    meanRugScore: mean(rugScores),
+    meanOtherScore: mean(otherScores),
+    auc: pairs > 0 ? wins / pairs : 0.5,
+    threshold,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0,
+    recall: rugScores.length > 0 ? truePositives / rugScores.length : 0
+  };
+}
@@ -8,6 +8,13 @@ import { getCachedTokenPrice, getBNBPrice } from '@/services/wallet/tokenPriceCa
 import { createLogger } from '@/utils/logger';
 import { priceDeviationChecker } from '@/services/priceDeviation/priceDeviationChecker';
 import { hapiLabsService, SCSecurityAnalysis } from '@/services/hapiLabs';
+import { BytecodeAnalyzer, BytecodeAnalysis } from './bytecodeAnalyzer';
+import { DeployerReputationService, DeployerReputation } from './deployerReputation';
+import { HolderClusterService, HolderClusterAnalysis, CLUSTER_REASON_LABELS } from './holderClusters';
+import { LPLockService, LPLockAnalysis, LP_LOCKERS } from './lpLocks';
+import { extractSafetyScoreFeatures, scoreSafety, SafetyScoreFeatures, SafetyScoreResult, ScoreComponentResult } from './scoringModel';
+import { SafetyScoreRecordModel } from '@/database/models/SafetyScoreRecord';
+import { scoreHistoryService, computeScoreTrend, ScoreTrend } from './scoreHistory';
 
 const logger = createLogger('rugAlerts.tokenAnalyzer');
 
@@ -49,6 +56,7 @@ export interface TokenHolderAnalysis {
   top10ConcentrationExcludingLP: number;
   creatorBalance?: number;
   ownerBalance?: number;
+  clusterAnalysis?: HolderClusterAnalysis; // Holders likely controlled by one party (shared funder, bundled buys)
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
   riskFactors: string[];
 }
@@ -60,8 +68,9 @@ export interface LiquidityAnalysis {
   liquidityBNB?: number;
   lpTokenBurned?: boolean;
   lpTokenLocked?: boolean;
-  lockDuration?: number;
+  lockDuration?: number; // Days until the next lock of the main pool expires
   lockPlatform?: string;
+  lpLocks?: LPLockAnalysis; // Decoded lock records of the main pool
   initialLiquidityUSD?: number;
   liquidityPools: Array<{
     address: string;
@@ -139,6 +148,8 @@ export interface RugAlertAnalysis {
   tradingActivity: TradingActivityAnalysis;
   honeypotAnalysis: HoneypotAnalysis;
   scSecurityAnalysis?: SCSecurityAnalysis; // HAPI Labs smart contract security analysis
+  bytecodeAnalysis?: BytecodeAnalysis; // Local static analysis of the deployed bytecode
+  deployerReputation?: DeployerReputation; // Track record of the wallet that deployed the token
   safetyScore: number; // Changed from riskScore to safetyScore
   safetyScoreDetails: { // Changed from riskScoreDetails to safetyScoreDetails
     holders: number;
@@ -151,9 +162,16 @@ export interface RugAlertAnalysis {
     diamondHands: number;
     scSecurity: number; // Smart contract security score (0-15 points)
     priceDeviation?: number; // New field for price deviation score
+    bytecode?: number; // Penalty for risky capabilities found in the bytecode (0 to -20)
+    deployer?: number; // Penalty for a deployer with dead or rugged tokens or flagged funding (0 to -45)
   };
+  scoreModelVersion?: string; // Safety score model that produced safetyScore
+  scoreComponents?: ScoreComponentResult[]; // Points and the reasons behind them, per component
+  scoreTrend?: ScoreTrend; // Change since the last analysis of this token
   priceDeviationWarning?: string; // Warning message if deviation detected
   recommendations: string[];
+  analyzedAt?: Date; // When the analysis ran
+  analyzedAtBlock?: number; // BSC block at the start of the analysis
 }
 
 // Minimal ERC20 ABI for getting token info
@@ -201,14 +219,7 @@ const PANCAKE_V3_POOL_ABI = [
 ];
 
 // Known locker contracts
-const KNOWN_LOCKERS = [
-  '0x7ee058420e5937496F5a2096f04caA7721cF70cc', // PinkLock
-  '0xC765bddB93b0D1c1A88282BA0fa6B2d00E3e0c83', // Team Finance
-  '0x407993575c91ce7643a4d4cCACc9A98c36eE1BBE', // PancakeSwap Locker
-  '0x2967E7Bb9DaA5711Ac332cAF874BD47ef99B3820', // Unicrypt
-  '0xE2fE530C047f2d85298b07D9333C05737f1435fB', // Team Finance V2
-  '0x71B5759d73262FBb223956913ecF4ecC51057641', // PinkLock V2
-];
+export const KNOWN_LOCKERS = LP_LOCKERS.map(locker => locker.address);
 
 const PANCAKE_FACTORY = '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73';
 const PANCAKE_V3_FACTORY = '0x0BFbCF9fa4f9C56B0F40a671Ad40E0805A091865';
@@ -228,9 +239,17 @@ const KNOWN_DEX_FACTORIES = [
 
 export class TokenAnalyzer {
   private provider: ethers.JsonRpcProvider;
+  private bytecodeAnalyzer: BytecodeAnalyzer;
+  private deployerReputation: DeployerReputationService;
+  private holderClusters: HolderClusterService;
+  private lpLockService: LPLockService;
 
   constructor() {
     this.provider = new ethers.JsonRpcProvider(process.env.BSC_RPC_URL || 'https://bsc-dataseed1.binance.org/');
+    this.bytecodeAnalyzer = new BytecodeAnalyzer(this.provider);
+    this.deployerReputation = new DeployerReputationService(this.provider);
+    this.holderClusters = new HolderClusterService();
+    this.lpLockService = new LPLockService(this.provider);
   }
 
   // Get basic token metadata with ownership info
@@ -343,9 +362,7 @@ export class TokenAnalyzer {
         return null; // Not a contract
       }
 
-      // For now, we'll need to rely on Moralis or other APIs for creation info
-      // In production, you'd want to integrate BSCScan API or similar
-      return null;
+      return await this.deployerReputation.getContractCreation(contractAddress);
     } catch (error) {
       logger.error('Error getting contract creation info', { error, contractAddress });
       return null;
@@ -508,10 +525,11 @@ export class TokenAnalyzer {
         logger.warn('COINGECKO_API_KEY not found in .env, skipping holder count fetch.');
       }
 
+      // More than the top 10 so wallets that split their supply still show up for clustering
       const ownersResponse = await Moralis.EvmApi.token.getTokenOwners({
         chain: "0x38", // BSC
         tokenAddress,
-        limit: 10
+        limit: 50
       });
 
       const holdersData = ownersResponse.toJSON();
@@ -704,7 +722,12 @@ export class TokenAnalyzer {
         };
       });
 
-      const holders = await Promise.all(enrichedHolderPromises);
+      // Cluster detection runs over all fetched non-LP holders, alongside the per-holder checks
+      const nonLPHolders = holdersBasicInfo.filter(h => !h.isLiquidityPool);
+      const [holders, clusterAnalysis] = await Promise.all([
+        Promise.all(enrichedHolderPromises),
+        this.holderClusters.analyze(tokenAddress, nonLPHolders)
+      ]);
 
       // The holders array is already our top 10, so no need to slice again
       const top10Concentration = holders.reduce((sum, holder) => sum + holder.percentage, 0);
@@ -733,6 +756,26 @@ export class TokenAnalyzer {
         riskLevel = 'MEDIUM';
       }
 
+      // Wallets that look independent but were funded or bought together
+      if (clusterAnalysis && clusterAnalysis.clusters.length > 0) {
+        for (const cluster of clusterAnalysis.clusters.filter(c => c.percentage >= 5 || c.holders.length >= 3).slice(0, 3)) {
+          const reasons = cluster.reasons.map(reason => CLUSTER_REASON_LABELS[reason]).join(', ');
+          riskFactors.push(`Suspected bundled wallets - ${cluster.holders.length} wallets (${reasons}) hold ${cluster.percentage.toFixed(2)}% together`);
+        }
+
+        const realConcentration = clusterAnalysis.realTop10Concentration;
+        if (realConcentration > top10ConcentrationExcludingLP + 5) {
+          riskFactors.push(`Real top 10 concentration after clustering is ${realConcentration.toFixed(2)}% (${top10ConcentrationExcludingLP.toFixed(2)}% by wallet)`);
+          if (realConcentration > 80) {
+            riskLevel = 'CRITICAL';
+          } else if (realConcentration > 60 && riskLevel !== 'CRITICAL') {
+            riskLevel = 'HIGH';
+          } else if (realConcentration > 40 && riskLevel === 'LOW') {
+            riskLevel = 'MEDIUM';
+          }
+        }
+      }
+
       // Check diamond hands count as positive factor
       const diamondHandsCount = holders.filter(h => h.isDiamondHands).length;
       if (diamondHandsCount === 0) {
@@ -773,6 +816,7 @@ export class TokenAnalyzer {
         top10ConcentrationExcludingLP,
         creatorBalance: creatorHolder?.percentage,
         ownerBalance: ownerHolder?.percentage,
+        clusterAnalysis: clusterAnalysis || undefined,
         riskLevel,
         riskFactors
       };
@@ -804,6 +848,7 @@ export class TokenAnalyzer {
       let lpTokenLocked = false;
       let lockDuration: number | undefined;
       let lockPlatform: string | undefined;
+      let lpLocks: LPLockAnalysis | undefined;
 
       // Analyze each pool
       for (const poolAddress of pools) {
@@ -813,6 +858,7 @@ export class TokenAnalyzer {
           let liquidityUSD = 0;
           let liquidityBNB = 0;
           let dexVersion = 'PancakeSwap V2';
+          let poolLocks: LPLockAnalysis | undefined;
 
           // Try V3 first
           try {
@@ -828,7 +874,8 @@ export class TokenAnalyzer {
 
             // For V3, liquidity calculation is more complex
             // Get the paired token to determine price
-            const token1 = await v3Pool.token1();
+            const [token1, fee] = await Promise.all([v3Pool.token1(), v3Pool.fee()]);
+            poolLocks = await this.lpLockService.analyzeV3Pool(poolAddress, token0, token1, fee, liquidity);
             const isToken0 = token0.toLowerCase() === tokenAddress.toLowerCase();
             const pairToken = isToken0 ? token1 : token0;
 
@@ -909,16 +956,20 @@ export class TokenAnalyzer {
               ? Number(ethers.formatEther(pairReserve)) * 2
               : liquidityUSD / 600;
 
-            // Check if LP tokens are locked or burned (only for V2)
-            const lpLocked = await this.checkLPLocked(poolAddress, pair, totalSupply);
+            // Check if LP tokens are locked or burned
+            poolLocks = await this.lpLockService.analyzeV2Pair(poolAddress, totalSupply);
+          }
 
-            if (liquidityUSD > maxLiquidity) {
-              // Store main pool lock info
-              lpTokenBurned = lpLocked.burned;
-              lpTokenLocked = lpLocked.locked;
-              lockDuration = lpLocked.duration;
-              lockPlatform = lpLocked.platform;
-            }
+          if (poolLocks && liquidityUSD > maxLiquidity) {
+            // Store main pool lock info
+            const activeLocks = poolLocks.locks.filter(lock => !lock.unlockAt || lock.unlockAt.getTime() > Date.now());
+            lpTokenBurned = poolLocks.burnedPercent > 95;
+            lpTokenLocked = !lpTokenBurned && poolLocks.lockedPercent > 50;
+            lockDuration = poolLocks.nextUnlockAt
+              ? Math.ceil((poolLocks.nextUnlockAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000))
+              : undefined;
+            lockPlatform = activeLocks.sort((a, b) => b.percent - a.percent)[0]?.platform;
+            lpLocks = poolLocks;
           }
 
           liquidityPools.push({
@@ -949,6 +1000,7 @@ export class TokenAnalyzer {
         lpTokenLocked,
         lockDuration,
         lockPlatform,
+        lpLocks,
         liquidityPools
       };
     } catch (error) {
@@ -957,67 +1009,6 @@ export class TokenAnalyzer {
     }
   }
 
-  // Check if LP tokens are locked or burned
-  private async checkLPLocked(_lpAddress: string, lpContract: ethers.Contract, totalSupply: bigint): Promise<{
-    burned: boolean,
-    locked: boolean,
-    duration?: number,
-    platform?: string
-  }> {
-    try {
-      // Check burned tokens
-      const [deadBalance, zeroBalance] = await Promise.all([
-        lpContract.balanceOf(DEAD_ADDRESS),
-        lpContract.balanceOf(ZERO_ADDRESS)
-      ]);
-
-      const burnedSupply = BigInt(deadBalance) + BigInt(zeroBalance);
-      const burnedPercentage = Number((burnedSupply * BigInt(100)) / totalSupply);
-
-      if (burnedPercentage > 95) {
-        return { burned: true, locked: false };
-      }
-
-      // Check known lockers
-      for (const lockerAddress of KNOWN_LOCKERS) {
-        try {
-          const lockerBalance = await lpContract.balanceOf(lockerAddress);
-          const lockedPercentage = Number((BigInt(lockerBalance) * BigInt(100)) / totalSupply);
-
-          if (lockedPercentage > 50) {
-            // Determine locker platform
-            let platform = 'Unknown';
-            if (lockerAddress.toLowerCase() === '0x7ee058420e5937496F5a2096f04caA7721cF70cc'.toLowerCase() ||
-              lockerAddress.toLowerCase() === '0x71B5759d73262FBb223956913ecF4ecC51057641'.toLowerCase()) {
-              platform = 'PinkLock';
-            } else if (lockerAddress.toLowerCase() === '0xC765bddB93b0D1c1A88282BA0fa6B2d00E3e0c83'.toLowerCase() ||
-              lockerAddress.toLowerCase() === '0xE2fE530C047f2d85298b07D9333C05737f1435fB'.toLowerCase()) {
-              platform = 'Team Finance';
-            } else if (lockerAddress.toLowerCase() === '0x2967E7Bb9DaA5711Ac332cAF874BD47ef99B3820'.toLowerCase()) {
-              platform = 'Unicrypt';
-            } else if (lockerAddress.toLowerCase() === '0x407993575c91ce7643a4d4cCACc9A98c36eE1BBE'.toLowerCase()) {
-              platform = 'PancakeSwap Locker';
-            }
-
-            return {
-              burned: false,
-              locked: true,
-              platform
-              // Duration would require querying the specific locker contract
-            };
-          }
-        } catch (error) {
-          // Continue checking other lockers
-        }
-      }
-
-      return { burned: false, locked: false };
-    } catch (error) {
-      logger.error('Error checking LP lock status', { error });
-      return { burned: false, locked: false };
-    }
-  }
-
   // Get token analytics data from Moralis API
   private async getTokenAnalytics(tokenAddress: string): Promise<TokenAnalyticsData | null> {
     try {
@@ -1334,8 +1325,17 @@ export class TokenAnalyzer {
         }
       }
 
+      // 9. Simulate a small buy and sell to measure real taxes
+      const { buyGuardService } = await import('../trading/buyGuard');
+      const simulation = await buyGuardService.simulateRoundTrip(tokenAddress, '0.01');
+      const sellReverts = simulation.simulated && simulation.canSell === false;
+      if (sellReverts) {
+        honeypotIndicators.push(`Sell reverts in simulation${simulation.revertReason ? `: ${simulation.revertReason}` : ''}`);
+      }
+
       // Determine if it's a honeypot based on indicators
-      const isHoneypot = honeypotIndicators.length >= 2 ||
+      const isHoneypot = sellReverts ||
+        honeypotIndicators.length >= 2 ||
         (honeypotIndicators.length >= 1 && ownerBalance > 95) ||
         (ownerBalance > 99 && !metadata?.verified);
 
@@ -1352,8 +1352,8 @@ export class TokenAnalyzer {
 
       return {
         isHoneypot,
-        sellTax: 0, // Would need actual simulation or external API
-        buyTax: 0,  // Would need actual simulation or external API
+        sellTax: sellReverts ? 100 : simulation.sellTaxPercent ?? 0,
+        buyTax: simulation.buyTaxPercent ?? 0,
         cannotSellReason: isHoneypot ? honeypotIndicators.join('; ') : undefined,
         simulationSuccess: true
       };
@@ -1982,20 +1982,26 @@ export class TokenAnalyzer {
   // Perform complete rug alert analysis
   async analyzeToken(tokenAddress: string): Promise<RugAlertAnalysis | null> {
     try {
+      const analyzedAt = new Date();
       // Get metadata first as other analyses depend on it
-      const metadata = await this.getTokenMetadata(tokenAddress);
+      const [metadata, analyzedAtBlock] = await Promise.all([
+        this.getTokenMetadata(tokenAddress),
+        this.provider.getBlockNumber().catch(() => undefined)
+      ]);
       if (!metadata) {
         return null;
       }
 
       // Run all analyses in parallel
-      const [holderAnalysis, liquidityAnalysis, tradingActivity, honeypotAnalysis, priceDeviationResult, scSecurityAnalysis] = await Promise.all([
+      const [holderAnalysis, liquidityAnalysis, tradingActivity, honeypotAnalysis, priceDeviationResult, scSecurityAnalysis, bytecodeAnalysis, deployerReputation] = await Promise.all([
         this.getTokenHolders(tokenAddress, metadata), // This can now return null
         this.analyzeLiquidity(tokenAddress),
         this.analyzeTradingActivity(tokenAddress),
         this.detectHoneypot(tokenAddress),
         priceDeviationChecker.checkPriceDeviation(tokenAddress),
-        hapiLabsService.getContractSecurity(tokenAddress, 'bsc') // HAPI Labs SC screening
+        hapiLabsService.getContractSecurity(tokenAddress, 'bsc'), // HAPI Labs SC screening
+        this.bytecodeAnalyzer.analyzeContract(tokenAddress),
+        metadata.deployerAddress ? this.deployerReputation.getReputation(metadata.deployerAddress, tokenAddress) : null
       ]);
 
       // Check if holderAnalysis is null
@@ -2004,20 +2010,6 @@ export class TokenAnalyzer {
         return null; // Abort if critical holder data is missing
       }
 
-      // Calculate detailed safety scores (higher is better, max 100)
-      const safetyScoreDetails = {
-        holders: 0,      // Max 15 points (reduced from 20)
-        liquidity: 0,    // Max 20 points (reduced from 25)
-        verification: 0, // Max 10 points
-        trading: 0,      // Max 10 points
-        ownership: 0,    // Max 10 points
-        age: 0,          // Max 10 points
-        honeypot: 0,     // Max 10 points (reduced from 15)
-        diamondHands: 0, // Max 5 points
-        scSecurity: 0,   // Max 15 points (new - HAPI Labs SC security)
-        priceDeviation: 0 // Price deviation penalty (negative points)
-      };
-
       // Start with holder analysis risk factors, but we'll correct liquidity pool count based on full analysis
       const allRiskFactors: string[] = [...holderAnalysis.riskFactors];
 
@@ -2036,114 +2028,24 @@ export class TokenAnalyzer {
         }
       }
 
-      // Holder distribution score (0-15 points) - better distribution = higher score
-      if (holderAnalysis.top10ConcentrationExcludingLP <= 20) safetyScoreDetails.holders = 15;
-      else if (holderAnalysis.top10ConcentrationExcludingLP <= 40) safetyScoreDetails.holders = 12;
-      else if (holderAnalysis.top10ConcentrationExcludingLP <= 60) safetyScoreDetails.holders = 8;
-      else if (holderAnalysis.top10ConcentrationExcludingLP <= 80) safetyScoreDetails.holders = 4;
-      else safetyScoreDetails.holders = 0;
-
-      // Verification score (0-10 points)
-      if (metadata.verified) {
-        safetyScoreDetails.verification = 10;
-      } else {
-        safetyScoreDetails.verification = 0;
-        allRiskFactors.push('Contract source code not verified');
-      }
-
-      // Liquidity score (0-20 points)
-      // Use the same liquidity data source as the display (prefer tradingActivity data over liquidityAnalysis)
-      const effectiveLiquidityUSD = (tradingActivity.totalLiquidityUsd && tradingActivity.totalLiquidityUsd > 0)
-        ? tradingActivity.totalLiquidityUsd
-        : liquidityAnalysis.liquidityUSD;
-
-      if (!liquidityAnalysis.hasLiquidity) {
-        safetyScoreDetails.liquidity = 0;
-        allRiskFactors.push('No liquidity pool found');
-      } else {
-        // Base liquidity amount score (0-12 points)
-        if (effectiveLiquidityUSD && effectiveLiquidityUSD >= 100000) {
-          safetyScoreDetails.liquidity = 12;
-        } else if (effectiveLiquidityUSD && effectiveLiquidityUSD >= 50000) {
-          safetyScoreDetails.liquidity = 10;
-        } else if (effectiveLiquidityUSD && effectiveLiquidityUSD >= 10000) {
-          safetyScoreDetails.liquidity = 6;
-        } else if (effectiveLiquidityUSD && effectiveLiquidityUSD >= 1000) {
-          safetyScoreDetails.liquidity = 3;
-          allRiskFactors.push('Very low liquidity (<$10k)');
-        } else {
-          safetyScoreDetails.liquidity = 0;
-          allRiskFactors.push('Extremely low liquidity (<$1k)');
-        }
-
-        // LP security bonus (0-8 points)
-        if (liquidityAnalysis.lpTokenBurned) {
-          safetyScoreDetails.liquidity += 8;
-        } else if (liquidityAnalysis.lpTokenLocked) {
-          safetyScoreDetails.liquidity += 6;
-        } else {
-          allRiskFactors.push('LP tokens not secured (not burned or locked)');
-        }
-      }
-
-      // Trading activity score (0-10 points)
-      if (tradingActivity.hasActiveTrading) {
-        safetyScoreDetails.trading = 10;
-      } else {
-        safetyScoreDetails.trading = 0;
-        allRiskFactors.push('Low or no trading activity');
-      }
-
-      // Ownership score (0-10 points)
-      if (!metadata.ownerAddress || metadata.renounced) {
-        safetyScoreDetails.ownership = 10;
-      } else {
-        safetyScoreDetails.ownership = 0;
-        allRiskFactors.push('Contract ownership not renounced');
-      }
-
-      // Age score (0-10 points)
-      if (metadata.createdAt) {
-        const ageInDays = (Date.now() - metadata.createdAt.getTime()) / (1000 * 60 * 60 * 24);
-        if (ageInDays >= 30) {
-          safetyScoreDetails.age = 10;
-        } else if (ageInDays >= 7) {
-          safetyScoreDetails.age = 7;
-        } else if (ageInDays >= 1) {
-          safetyScoreDetails.age = 3;
-          allRiskFactors.push('Token created less than 7 days ago');
-        } else {
-          safetyScoreDetails.age = 0;
-          allRiskFactors.push('Token created less than 24 hours ago');
-        }
-      } else {
-        safetyScoreDetails.age = 5; // Default if age unknown
-      }
-
-      // Honeypot score (0-10 points) - NOT a honeypot = full points
-      if (honeypotAnalysis.isHoneypot) {
-        safetyScoreDetails.honeypot = 0;
-        allRiskFactors.push(`🚫 HONEYPOT DETECTED: ${honeypotAnalysis.cannotSellReason || 'Cannot sell token'}`);
-      } else {
-        safetyScoreDetails.honeypot = 10;
-      }
-
-      // Diamond hands score (0-5 points) - more diamond hands = higher score
-      const diamondHandsCount = holderAnalysis.top10Holders.filter(h => h.isDiamondHands).length;
-      if (diamondHandsCount >= 5) {
-        safetyScoreDetails.diamondHands = 5;
-      } else if (diamondHandsCount >= 3) {
-        safetyScoreDetails.diamondHands = 3;
-      } else if (diamondHandsCount >= 1) {
-        safetyScoreDetails.diamondHands = 1;
-      } else {
-        safetyScoreDetails.diamondHands = 0;
-      }
+      // Score with the current safety score model, whose weights and thresholds live in src/config/safetyScoreModels.ts
+      const scoreFeatures = extractSafetyScoreFeatures({
+        metadata,
+        holderAnalysis,
+        liquidityAnalysis,
+        tradingActivity,
+        honeypotAnalysis,
+        scSecurityAnalysis,
+        bytecodeAnalysis,
+        deployerReputation,
+        priceDeviation: priceDeviationResult
+      });
+      const scoreResult = scoreSafety(scoreFeatures);
+      const { score: safetyScore, details: safetyScoreDetails } = scoreResult;
+      allRiskFactors.push(...scoreResult.riskFactors);
 
-      // Smart Contract Security score (0-15 points) - HAPI Labs analysis
+      // HAPI Labs findings
       if (scSecurityAnalysis && scSecurityAnalysis.hasData) {
-        safetyScoreDetails.scSecurity = scSecurityAnalysis.securityScore;
-
         // Add critical security issues to risk factors
         if (scSecurityAnalysis.securityIssues.critical.length > 0) {
           scSecurityAnalysis.securityIssues.critical.forEach(issue => {
@@ -2166,18 +2068,20 @@ export class TokenAnalyzer {
           });
         }
       } else {
-        // No SC security data available - neutral score (0 points, doesn't affect overall score)
-        safetyScoreDetails.scSecurity = 0;
         logger.info('SC security screening not available', { tokenAddress });
       }
 
-      // Price deviation penalty (negative points based on deviation)
+      // Bytecode findings, scored only when there's no source-based screening to rely on
+      if (bytecodeAnalysis && scoreFeatures.bytecodeApplies) {
+        bytecodeAnalysis.capabilities.forEach(capability => {
+          const functions = capability.functions.length > 0 ? ` (${capability.functions.slice(0, 2).join(', ')})` : '';
+          allRiskFactors.push(`🔬 BYTECODE: ${capability.label}${functions}`);
+        });
+      }
+
+      // Price deviation warnings
       let priceDeviationWarning: string | undefined;
       if (priceDeviationResult && priceDeviationResult.hasDeviation) {
-        const deviationPenalty = priceDeviationChecker.getDeviationRiskScore(priceDeviationResult.deviationPercentage);
-        safetyScoreDetails.priceDeviation = deviationPenalty;
-        
-        // Add to risk factors
         if (priceDeviationResult.riskLevel === 'critical') {
           allRiskFactors.push(`🚨 CRITICAL: ${priceDeviationResult.deviationPercentage.toFixed(1)}% price deviation from oracle`);
           priceDeviationWarning = priceDeviationResult.message;
@@ -2189,8 +2093,9 @@ export class TokenAnalyzer {
         }
       }
 
-      // Calculate total safety score
-      const safetyScore = Object.values(safetyScoreDetails).reduce((sum, score) => sum + score, 0);
+      // Compare with earlier analyses before this one joins the history
+      const scoreTrend = computeScoreTrend(scoreResult, await scoreHistoryService.getHistory(tokenAddress));
+      this.recordSafetyScore(tokenAddress, metadata.symbol, scoreFeatures, scoreResult);
 
       // Generate recommendations
       const recommendations: string[] = [];
@@ -2214,6 +2119,11 @@ export class TokenAnalyzer {
         recommendations.push('💡 High whale concentration - risk of dumps');
       }
 
+      const largestCluster = holderAnalysis.clusterAnalysis?.clusters[0];
+      if (largestCluster && largestCluster.percentage >= 10) {
+        recommendations.push(`🚨 ${largestCluster.percentage.toFixed(1)}% of supply sits in ${largestCluster.holders.length} wallets that look controlled by one party - coordinated dump risk`);
+      }
+
       if (holderAnalysis.creatorBalance && holderAnalysis.creatorBalance > 5) {
         recommendations.push(`🚨 Creator holds ${holderAnalysis.creatorBalance.toFixed(2)}% - can dump on holders`);
       }
@@ -2222,7 +2132,18 @@ export class TokenAnalyzer {
         recommendations.push('🔍 Unverified contract - source code cannot be reviewed');
       }
 
-      if (!liquidityAnalysis.hasLiquidity || (effectiveLiquidityUSD && effectiveLiquidityUSD < 50000)) {
+      if (bytecodeAnalysis?.capabilities.some(capability => capability.capability === 'selfdestruct' || capability.capability === 'mint')) {
+        recommendations.push('🔬 Bytecode allows minting or self-destruct - holders can be diluted or wiped out');
+      }
+
+      if (deployerReputation?.flagged) {
+        recommendations.push('🚨 Deployer or the wallet that funded it is flagged by HAPI Labs');
+      }
+      if (deployerReputation && deployerReputation.failedTokens >= 2) {
+        recommendations.push(`👷 ${deployerReputation.summary} - this token may end the same way`);
+      }
+
+      if (!liquidityAnalysis.hasLiquidity || (scoreFeatures.liquidityUsd && scoreFeatures.liquidityUsd < 50000)) {
         recommendations.push('💧 Insufficient liquidity - difficult to exit position');
       }
 
@@ -2246,10 +2167,17 @@ export class TokenAnalyzer {
         tradingActivity,
         honeypotAnalysis,
         scSecurityAnalysis: scSecurityAnalysis && scSecurityAnalysis.hasData ? scSecurityAnalysis : undefined,
+        bytecodeAnalysis: bytecodeAnalysis || undefined,
+        deployerReputation: deployerReputation || undefined,
         safetyScore,
         safetyScoreDetails,
+        scoreModelVersion: scoreResult.modelVersion,
+        scoreComponents: scoreResult.components,
+        scoreTrend: scoreTrend || undefined,
         priceDeviationWarning,
-        recommendations
+        recommendations,
+        analyzedAt,
+        analyzedAtBlock
       };
     } catch (error) {
       logger.error('Error performing token analysis', { 
@@ -2260,6 +2188,20 @@ export class TokenAnalyzer {
     }
   }
 
+  // Store the features and score so analyses can be re-scored offline (see scripts/calibrateSafetyScore.ts)
+  private recordSafetyScore(tokenAddress: string, symbol: string, features: SafetyScoreFeatures, result: SafetyScoreResult): void {
+    SafetyScoreRecordModel.create({
+      tokenAddress,
+      tokenSymbol: symbol,
+      modelVersion: result.modelVersion,
+      score: result.score,
+      features,
+      components: result.components
+    }).catch(error => {
+      logger.warn('Failed to record safety score', { tokenAddress, error: error instanceof Error ? error.message : String(error) });
+    });
+  }
+
   // Validate token address format
   isValidTokenAddress(address: string): boolean {
     return /^0x[a-fA-F0-9]{40}$/.test(address);
@@ -0,0 +1,103 @@
+import { UserSessionStateModel } from '@/database/models/UserSessionState';
+import { isDatabaseConnected } from '@/database/connection';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('services.session.backends');
+
+export interface SessionRecord {
+  telegramId: number;
+  data: string; // Serialized UserSession
+  flowUpdatedAt: Record<string, number>;
+  expiresAt: Date;
+}
+
+/**
+ * Storage used by the SessionStore to keep sessions across restarts
+ */
+export interface SessionBackend {
+  readonly name: string;
+  isAvailable(): boolean;
+  loadAll(): Promise<SessionRecord[]>;
+  save(record: SessionRecord): Promise<void>;
+  remove(telegramId: number): Promise<void>;
+}
+
+/**
+ * Keeps records in process memory. Sessions are lost on restart, same as the old Map.
+ */
+export class MemorySessionBackend implements SessionBackend {
+  readonly name = 'memory';
+  private records = new Map<number, SessionRecord>();
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async loadAll(): Promise<SessionRecord[]> {
+    const now = Date.now();
+    return Array.from(this.records.values()).filter(record => record.expiresAt.getTime() > now);
+  }
+
+  async save(record: SessionRecord): Promise<void> {
+    this.records.set(record.telegramId, record);
+  }
+
+  async remove(telegramId: number): Promise<void> {
+    this.records.delete(telegramId);
+  }
+}
+
+/**
+ * Stores sessions in the user_sessions collection. Records expire through a TTL index.
+ */
+export class MongoSessionBackend implements SessionBackend {
+  readonly name = 'mongo';
+
+  isAvailable(): boolean {
+    return isDatabaseConnected();
+  }
+
+  async loadAll(): Promise<SessionRecord[]> {
+    const docs = await UserSessionStateModel.find({ expiresAt: { $gt: new Date() } }).lean();
+    return docs.map(doc => ({
+      telegramId: doc.telegramId,
+      data: doc.data,
+      flowUpdatedAt: doc.flowUpdatedAt || {},
+      expiresAt: doc.expiresAt
+    }));
+  }
+
+  async save(record: SessionRecord): Promise<void> {
+    await UserSessionStateModel.updateOne(
+      { telegramId: record.telegramId },
+      {
+        data: record.data,
+        flowUpdatedAt: record.flowUpdatedAt,
+        expiresAt: record.expiresAt,
+        updatedAt: new Date()
+      },
+      { upsert: true }
+    );
+  }
+
+  async remove(telegramId: number): Promise<void> {
+    await UserSessionStateModel.deleteOne({ telegramId });
+  }
+}
+
+/**
+ * Pick the session backend. Defaults to MongoDB; set SESSION_STORE=memory to keep sessions in memory only.
+ */
+export function createSessionBackend(): SessionBackend {
+  const type = (process.env.SESSION_STORE || 'mongo').toLowerCase();
+
+  if (type === 'memory') {
+    return new MemorySessionBackend();
+  }
+
+  if (type !== 'mongo') {
+    logger.warn('Unknown SESSION_STORE, falling back to MongoDB', { type });
+  }
+
+  return new MongoSessionBackend();
+}
\ No newline at end of file
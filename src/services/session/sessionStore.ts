@@ -0,0 +1,270 @@
+import { UserSession } from '@/types';
+import { SessionBackend, SessionRecord, MemorySessionBackend } from './backends';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('services.session');
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// A stored session is dropped after this long without any change
+export const SESSION_IDLE_TTL_MS = 7 * 24 * HOUR;
+
+// How long each half-finished flow survives without activity. Keys not listed
+// (language, selected wallet...) live as long as the session itself.
+export const SESSION_FLOW_TTLS: Partial<Record<keyof UserSession, number>> = {
+  trading: 30 * MINUTE,
+  autoTradeSetup: 30 * MINUTE,
+  dcaSetup: 30 * MINUTE,
+  limitOrderSetup: 30 * MINUTE,
+  copyTradeSetup: 15 * MINUTE,
+  opbnb: 30 * MINUTE,
+  transfer: 15 * MINUTE,
+  referralManagement: 15 * MINUTE,
+  pendingTransfer: 10 * MINUTE, // Confirmation of an amount the user already typed
+  approvals: 30 * MINUTE, // Revoke buttons of the last approvals scan
+  rugAlerts: 24 * HOUR,
+  waitingForWalletInput: 15 * MINUTE,
+  waitingForWalletAddress: 15 * MINUTE,
+  waitingForTokenAddress: 15 * MINUTE,
+  waitingForName: 15 * MINUTE,
+  waitingForNameChange: 15 * MINUTE,
+  waitingForReferralCode: 15 * MINUTE,
+  waitingForTokenSearchInput: 15 * MINUTE,
+  waitingForOpbnbAddress: 15 * MINUTE,
+  waitingForOpbnbTokenAddress: 15 * MINUTE,
+  waitingForOpbnbWhaleToken: 15 * MINUTE,
+  waitingForOpbnbHealthToken: 15 * MINUTE,
+  opbnbAction: 15 * MINUTE
+};
+
+// The wallet connection is owned by WalletService and restored from the User record on startup
+const NON_PERSISTED_KEYS = new Set<string>(['client', 'address', 'provider', 'pendingUri']);
+
+// BigInt and Date don't survive JSON on their own, so they are stored in a tagged form.
+// Dates have already gone through toJSON when a replacer sees the value, hence this[key].
+function sessionReplacer(this: any, key: string, value: any): any {
+  if (typeof value === 'bigint') {
+    return { __bigint: value.toString() };
+  }
+  const raw = this[key];
+  return raw instanceof Date ? { __date: raw.toJSON() } : value;
+}
+
+function sessionReviver(_key: string, value: any): any {
+  if (value && typeof value === 'object' && Object.keys(value).length === 1) {
+    if (typeof value.__bigint === 'string') {
+      return BigInt(value.__bigint);
+    }
+    if ('__date' in value) {
+      return new Date(value.__date ?? NaN);
+    }
+  }
+  return value;
+}
+
+/**
+ * Serialize every persisted key of a session separately, so changes can be detected per flow
+ */
+export function snapshotSession(session: UserSession): Record<string, string> {
+  const snapshot: Record<string, string> = {};
+  for (const [key, value] of Object.entries(session)) {
+    if (NON_PERSISTED_KEYS.has(key) || value === undefined) continue;
+    snapshot[key] = JSON.stringify(value, sessionReplacer);
+  }
+  return snapshot;
+}
+
+export function serializeSession(session: UserSession): string {
+  const persisted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(session)) {
+    if (NON_PERSISTED_KEYS.has(key) || value === undefined) continue;
+    persisted[key] = value;
+  }
+  return JSON.stringify(persisted, sessionReplacer);
+}
+
+export function deserializeSession(data: string): UserSession {
+  return JSON.parse(data, sessionReviver) as UserSession;
+}
+
+/**
+ * Session keys whose flow has been idle for longer than its TTL
+ */
+export function getExpiredFlows(flowUpdatedAt: Record<string, number>, now: number = Date.now()): string[] {
+  return Object.entries(flowUpdatedAt)
+    .filter(([key, updatedAt]) => {
+      const ttl = SESSION_FLOW_TTLS[key as keyof UserSession];
+      return ttl !== undefined && now - updatedAt > ttl;
+    })
+    .map(([key]) => key);
+}
+
+/**
+ * User sessions kept in memory and written through to a pluggable backend.
+ * It is a drop-in replacement for the Map used as global.userSessions: callers keep
+ * mutating the session objects in place and call flush() (done by the bot middleware
+ * after every update) to persist them.
+ */
+export class SessionStore extends Map<number, UserSession> {
+  private flowUpdatedAt = new Map<number, Record<string, number>>();
+  private snapshots = new Map<number, Record<string, string>>();
+  private pendingWrites = new Map<number, Promise<void>>();
+
+  constructor(private backend: SessionBackend = new MemorySessionBackend()) {
+    super();
+  }
+
+  get backendName(): string {
+    return this.backend.name;
+  }
+
+  get(userId: number): UserSession | undefined {
+    const session = super.get(userId);
+    if (session && this.pruneExpiredFlows(userId, session)) {
+      void this.flush(userId);
+    }
+    return session;
+  }
+
+  set(userId: number, session: UserSession): this {
+    super.set(userId, session);
+    void this.flush(userId);
+    return this;
+  }
+
+  delete(userId: number): boolean {
+    const existed = super.delete(userId);
+    void this.flush(userId);
+    return existed;
+  }
+
+  /**
+   * Load stored sessions into memory. Sessions created since startup win over stored values.
+   */
+  async hydrate(): Promise<number> {
+    if (!this.backend.isAvailable()) {
+      logger.warn('Session backend unavailable, sessions will only be kept in memory', { backend: this.backend.name });
+      return 0;
+    }
+
+    const records = await this.backend.loadAll();
+    const now = Date.now();
+    let restored = 0;
+
+    for (const record of records) {
+      if (record.expiresAt.getTime() <= now) continue;
+
+      let stored: UserSession;
+      try {
+        stored = deserializeSession(record.data);
+      } catch (error) {
+        logger.warn('Skipping unreadable stored session', { error, userId: record.telegramId });
+        continue;
+      }
+
+      const session = { ...stored, ...super.get(record.telegramId) };
+      super.set(record.telegramId, session);
+      this.snapshots.set(record.telegramId, snapshotSession(stored));
+      this.flowUpdatedAt.set(record.telegramId, { ...record.flowUpdatedAt });
+
+      // Drop flows that went stale while the bot was down
+      this.pruneExpiredFlows(record.telegramId, session, now);
+      restored++;
+    }
+
+    return restored;
+  }
+
+  /**
+   * Persist a user's session. Writes for the same user are applied in order.
+   */
+  flush(userId: number): Promise<void> {
+    const previous = this.pendingWrites.get(userId) || Promise.resolve();
+    const write = previous
+      .then(() => this.persist(userId))
+      .catch(error => {
+        logger.warn('Failed to persist user session', { error, userId, backend: this.backend.name });
+      });
+
+    this.pendingWrites.set(userId, write);
+    write.then(() => {
+      if (this.pendingWrites.get(userId) === write) {
+        this.pendingWrites.delete(userId);
+      }
+    });
+
+    return write;
+  }
+
+  /**
+   * Persist every session, e.g. before shutting down
+   */
+  async flushAll(): Promise<void> {
+    await Promise.all(Array.from(this.keys()).map(userId => this.flush(userId)));
+  }
+
+  private async persist(userId: number): Promise<void> {
+    const session = super.get(userId);
+    const record = session ? this.buildRecord(userId, session) : null;
+
+    if (!record) {
+      this.snapshots.delete(userId);
+      this.flowUpdatedAt.delete(userId);
+    }
+
+    if (!this.backend.isAvailable()) return;
+
+    if (record) {
+      await this.backend.save(record);
+    } else {
+      await this.backend.remove(userId);
+    }
+  }
+
+  /**
+   * Update per-flow timestamps from what changed since the last flush and build the stored record
+   */
+  private buildRecord(userId: number, session: UserSession): SessionRecord | null {
+    const now = Date.now();
+    const snapshot = snapshotSession(session);
+    const previous = this.snapshots.get(userId) || {};
+    const flowUpdatedAt: Record<string, number> = {};
+
+    for (const key of Object.keys(snapshot)) {
+      flowUpdatedAt[key] = snapshot[key] === previous[key]
+        ? (this.flowUpdatedAt.get(userId)?.[key] ?? now)
+        : now;
+    }
+
+    this.snapshots.set(userId, snapshot);
+    this.flowUpdatedAt.set(userId, flowUpdatedAt);
+
+    if (Object.keys(snapshot).length === 0) return null;
+
+    return {
+      telegramId: userId,
+      data: serializeSession(session),
+      flowUpdatedAt,
+      expiresAt: new Date(now + SESSION_IDLE_TTL_MS)
+    };
+  }
+
+  private pruneExpiredFlows(userId: number, session: UserSession, now: number = Date.now()): boolean {
+    const flowUpdatedAt = this.flowUpdatedAt.get(userId);
+    if (!flowUpdatedAt) return false;
+
+    const expired = getExpiredFlows(flowUpdatedAt, now);
+    if (expired.length === 0) return false;
+
+    const snapshot = this.snapshots.get(userId);
+    for (const key of expired) {
+      delete (session as Record<string, unknown>)[key];
+      delete flowUpdatedAt[key];
+      if (snapshot) delete snapshot[key];
+    }
+
+    logger.debug('Expired idle session flows', { userId, flows: expired });
+    return true;
+  }
+}
\ No newline at end of file
@@ -1,6 +1,10 @@
 import { ethers } from 'ethers';
 import { createLogger } from '@/utils/logger';
 import { getBNBPrice } from '@/services/wallet/tokenPriceCache';
+import { evaluateExitRules, formatExitReason, ExitDecision } from '@/services/autoTrade/exitRules';
+import { hasEntryRule, isEntryConditionMet } from '@/services/autoTrade/entryRules';
+import type { TakeProfitLevel } from '@/database/models/TrackedToken';
+import { PairLogWatcher, PairLogWatcherLoad } from '@/services/rpc/pairLogWatcher';
 
 const logger = createLogger('services.tokenPriceMonitor');
 
@@ -29,18 +33,35 @@ interface MonitoredToken {
     isToken0: boolean; // true if token is token0 in the pair
     pairedToken: string; // WBNB, BUSD, USDT, etc.
     lastNotificationTime?: number; // timestamp of last notification
+    lastCheckedAt?: number; // timestamp of last price check
+    lastSampleAt?: number; // timestamp of last recorded price sample (for backtests)
+}
+
+export interface PriceMonitorLoadReport extends PairLogWatcherLoad {
+    tokenCount: number;
+    pairsInFlight: number;
+    priceChecksRun: number;
 }
 
 export class TokenPriceMonitor {
     private static instance: TokenPriceMonitor;
-    private provider: ethers.WebSocketProvider | null = null;
+    private provider: ethers.JsonRpcProvider | null = null; // Contract reads and log polling
+    private wsProvider: ethers.WebSocketProvider | null = null; // Optional log subscriptions
+    private pairWatcher: PairLogWatcher | null = null;
     private monitoredTokens: Map<string, MonitoredToken> = new Map();
+    private pendingAdds: Map<string, Promise<void>> = new Map(); // Dedupe concurrent adds of the same token
+    private pairsInFlight: Set<string> = new Set(); // Pairs with a price check currently running
     private priceCheckInterval: NodeJS.Timeout | null = null;
     private isInitialized = false;
     private executingAutoTrades: Set<string> = new Set(); // Track tokens with active auto-trade executions
+    private priceChecksRun = 0;
 
-    // Maximum number of tokens that can be tracked simultaneously (to prevent excessive API usage)
-    private readonly MAX_TRACKED_TOKENS = 30;
+    // Pairs priced in parallel after a batch of swap activity (keeps RPC usage bounded)
+    private readonly PRICE_CHECK_CONCURRENCY = 5;
+    // Tokens without swap activity are re-checked after this long
+    private readonly STALE_CHECK_INTERVAL = 300000; // 5 minutes
+    // At most one stored price sample per token per minute
+    private readonly PRICE_SAMPLE_INTERVAL = 60000;
 
     private constructor() {
         this.initializeProvider();
@@ -54,10 +75,14 @@ export class TokenPriceMonitor {
     }
 
     private initializeProvider(): void {
+        const rpcUrl = process.env.BSC_RPC_URL || 'https://bsc-dataseed1.binance.org/';
+        this.provider = new ethers.JsonRpcProvider(rpcUrl);
+
         // TEMPORARILY DISABLED: WebSocket causing SSL crashes on GCP Cloud Run
         // TODO: Re-enable after fixing SSL/TLS compatibility issues
-        logger.warn('⚠️ Token price monitor WebSocket temporarily disabled due to SSL issues');
-        this.provider = null;
+        // Until then pair activity is found by polling logs over HTTP
+        logger.warn('⚠️ Token price monitor WebSocket temporarily disabled due to SSL issues, polling logs instead');
+        this.wsProvider = null;
         return;
 
         /* ORIGINAL CODE - DISABLED FOR NOW
@@ -70,11 +95,11 @@ export class TokenPriceMonitor {
         logger.info('Initializing WebSocket provider for token monitoring', { wsUrl });
 
         try {
-            this.provider = new ethers.WebSocketProvider(wsUrl);
+            this.wsProvider = new ethers.WebSocketProvider(wsUrl);
             logger.info('WebSocket provider created successfully for token monitoring');
         } catch (error) {
             logger.error('Failed to create WebSocket provider', { error });
-            this.provider = null;
+            this.wsProvider = null;
         }
         */
     }
@@ -86,13 +111,24 @@ export class TokenPriceMonitor {
         }
 
         if (!this.provider) {
-            logger.warn('WebSocket provider not available, token price monitor will not be active');
+            logger.warn('RPC provider not available, token price monitor will not be active');
             return;
         }
 
         try {
             logger.info('Initializing token price monitor');
 
+            // Watch swap activity for all monitored pairs with batched log filters
+            this.pairWatcher = new PairLogWatcher(
+                this.provider,
+                pairAddresses => this.handlePairActivity(pairAddresses),
+                this.wsProvider
+            );
+            for (const token of this.monitoredTokens.values()) {
+                this.pairWatcher.addPair(token.pairAddress);
+            }
+            this.pairWatcher.start();
+
             // Start periodic price monitoring
             this.startPriceMonitoring();
 
@@ -117,17 +153,7 @@ export class TokenPriceMonitor {
             try {
                 logger.info('Starting background token loading...');
                 await this.loadTrackedTokens();
-
-                // Setup WebSocket event listeners for existing tokens
-                if (this.monitoredTokens.size > 0) {
-                    logger.info('Setting up listeners for existing tokens...');
-                    await this.setupExistingListeners();
-                    logger.info('Token monitoring setup completed', {
-                        monitoredTokenCount: this.monitoredTokens.size
-                    });
-                } else {
-                    logger.info('No existing tokens found, background loading complete');
-                }
+                logger.info('Token monitoring setup completed', this.getLoadReport());
             } catch (error) {
                 logger.error('Error in background token loading', { error });
             }
@@ -157,23 +183,36 @@ export class TokenPriceMonitor {
 
             // Try to query the database
             try {
-                const trackedTokens = await TrackedTokenModel.find({
-                    isActive: true,
-                    pairAddress: { $exists: true, $ne: null }
-                });
+                // One entry per token no matter how many users track it
+                const trackedTokens: Array<{ _id: string; pairAddress: string; tokenSymbol?: string; pairedToken?: string; trackers: number }> =
+                    await TrackedTokenModel.aggregate([
+                        { $match: { isActive: true, pairAddress: { $exists: true, $ne: null } } },
+                        {
+                            $group: {
+                                _id: '$tokenAddress',
+                                pairAddress: { $first: '$pairAddress' },
+                                tokenSymbol: { $first: '$tokenSymbol' },
+                                pairedToken: { $first: '$pairedToken' },
+                                trackers: { $sum: 1 }
+                            }
+                        }
+                    ]);
 
-                logger.info('Found tracked tokens in database', { count: trackedTokens.length });
+                logger.info('Found tracked tokens in database', {
+                    uniqueTokens: trackedTokens.length,
+                    trackers: trackedTokens.reduce((sum, token) => sum + token.trackers, 0)
+                });
 
-                for (const token of trackedTokens) {
+                await this.runWithConcurrency(trackedTokens, this.PRICE_CHECK_CONCURRENCY, async token => {
                     try {
-                        await this.addTokenToMonitoring(token.tokenAddress, token.pairAddress, token.tokenSymbol, token.pairedToken);
+                        await this.addTokenToMonitoring(token._id, token.pairAddress, token.tokenSymbol, token.pairedToken);
                     } catch (error) {
                         logger.error('Error adding token to monitoring during load', {
                             error,
-                            tokenAddress: token.tokenAddress
+                            tokenAddress: token._id
                         });
                     }
-                }
+                });
                 logger.info('Loaded tracked tokens', { count: this.monitoredTokens.size });
             } catch (dbError) {
                 logger.warn('Database query failed, continuing without existing tokens', {
@@ -191,25 +230,36 @@ export class TokenPriceMonitor {
 
     async addTokenToMonitoring(tokenAddress: string, pairAddress: string, symbol?: string, pairedToken?: string): Promise<void> {
         if (!this.provider) {
-            logger.warn('WebSocket provider not available, skipping token monitoring setup');
+            logger.warn('RPC provider not available, skipping token monitoring setup');
             return;
         }
 
         const tokenKey = tokenAddress.toLowerCase();
         if (this.monitoredTokens.has(tokenKey)) {
-            logger.info('Token already being monitored', { tokenAddress });
+            logger.debug('Token already being monitored', { tokenAddress });
             return;
         }
 
-        // Enforce maximum tracked tokens limit to prevent excessive API usage
-        if (this.monitoredTokens.size >= this.MAX_TRACKED_TOKENS) {
-            logger.warn('Maximum tracked tokens limit reached', {
-                currentCount: this.monitoredTokens.size,
-                maxLimit: this.MAX_TRACKED_TOKENS,
-                attemptedToken: tokenAddress
-            });
-            throw new Error(`Cannot track more than ${this.MAX_TRACKED_TOKENS} tokens simultaneously. Please remove some tokens first.`);
+        // Several users can start tracking the same token at once; only set it up once
+        const pendingAdd = this.pendingAdds.get(tokenKey);
+        if (pendingAdd) {
+            return pendingAdd;
+        }
+
+        const add = this.setupTokenMonitoring(tokenKey, pairAddress, symbol, pairedToken);
+        this.pendingAdds.set(tokenKey, add);
+        try {
+            await add;
+        } finally {
+            this.pendingAdds.delete(tokenKey);
         }
+    }
+
+    /**
+     * Detect the token's side of the pool and its initial price, then start watching the pair
+     */
+    private async setupTokenMonitoring(tokenAddress: string, pairAddress: string, symbol?: string, pairedToken?: string): Promise<void> {
+        if (!this.provider) return;
 
         try {
             // Try to get token0 address, attempting V3 first, then V2
@@ -242,12 +292,12 @@ export class TokenPriceMonitor {
 
             const monitoredToken: MonitoredToken = {
                 ...tempToken,
-                tokenAddress: tokenKey,
-                lastPrice: initialPrice
+                lastPrice: initialPrice,
+                lastCheckedAt: Date.now()
             };
 
-            this.monitoredTokens.set(tokenKey, monitoredToken);
-            await this.setupPairEventListener(pairAddress);
+            this.monitoredTokens.set(monitoredToken.tokenAddress, monitoredToken);
+            this.pairWatcher?.addPair(monitoredToken.pairAddress);
 
             logger.info('Added token to monitoring', {
                 tokenAddress,
@@ -273,24 +323,10 @@ export class TokenPriceMonitor {
             const otherTokensWithSamePair = Array.from(this.monitoredTokens.values())
                 .filter(t => t.pairAddress === monitoredToken.pairAddress && t.tokenAddress !== tokenKey);
 
-            // If no other tokens use this pair, remove the event listener
+            // If no other tokens use this pair, stop watching its logs
             if (otherTokensWithSamePair.length === 0) {
-                // Try both V3 and V2 contracts to remove listeners
-                try {
-                    const v3Contract = new ethers.Contract(monitoredToken.pairAddress, V3_POOL_ABI, this.provider);
-                    v3Contract.removeAllListeners('Swap');
-                } catch (error) {
-                    // Ignore errors, might not be V3
-                }
-
-                try {
-                    const v2Contract = new ethers.Contract(monitoredToken.pairAddress, PAIR_ABI, this.provider);
-                    v2Contract.removeAllListeners('Swap');
-                } catch (error) {
-                    // Ignore errors, might not be V2
-                }
-
-                logger.info('Removed Swap event listeners for pair', { pairAddress: monitoredToken.pairAddress });
+                this.pairWatcher?.removePair(monitoredToken.pairAddress);
+                logger.info('Stopped watching pair', { pairAddress: monitoredToken.pairAddress });
             }
 
             this.monitoredTokens.delete(tokenKey);
@@ -301,88 +337,64 @@ export class TokenPriceMonitor {
     }
 
     /**
-     * Get tracking status including current count and limit
+     * Report how loaded the monitor is: tokens, pairs, log filter shards and polling lag
      */
-    getTrackingStatus(): { currentCount: number; maxLimit: number; canAddMore: boolean; remainingSlots: number } {
-        const currentCount = this.monitoredTokens.size;
-        const remainingSlots = Math.max(0, this.MAX_TRACKED_TOKENS - currentCount);
-        return {
-            currentCount,
-            maxLimit: this.MAX_TRACKED_TOKENS,
-            canAddMore: currentCount < this.MAX_TRACKED_TOKENS,
-            remainingSlots
+    getLoadReport(): PriceMonitorLoadReport {
+        const watcherLoad: PairLogWatcherLoad = this.pairWatcher?.getLoad() ?? {
+            mode: 'stopped',
+            pairCount: new Set(Array.from(this.monitoredTokens.values()).map(t => t.pairAddress)).size,
+            shardCount: 0,
+            pendingPairs: 0,
+            lastProcessedBlock: null,
+            blockLag: null,
+            logsProcessed: 0,
+            pollsRun: 0,
+            pollErrors: 0,
+            skippedBlocks: 0,
+            lastPollDurationMs: null
         };
-    }
-
-    private async setupExistingListeners(): Promise<void> {
-        if (!this.provider) return;
-
-        try {
-            // Get unique pairs
-            const uniquePairs = new Set(
-                Array.from(this.monitoredTokens.values()).map(t => t.pairAddress)
-            );
 
-            for (const pairAddress of uniquePairs) {
-                const tokensForPair = Array.from(this.monitoredTokens.values())
-                    .filter(t => t.pairAddress === pairAddress);
-                if (tokensForPair.length > 0) {
-                    await this.setupPairEventListener(pairAddress);
-                }
-            }
-        } catch (error) {
-            logger.error('Error setting up existing listeners', { error });
-        }
+        return {
+            ...watcherLoad,
+            tokenCount: this.monitoredTokens.size,
+            pairsInFlight: this.pairsInFlight.size,
+            priceChecksRun: this.priceChecksRun
+        };
     }
 
-    private async setupPairEventListener(pairAddress: string): Promise<void> {
-        if (!this.provider) return;
+    /**
+     * Price-check pairs that had swap activity. Pairs still being checked from the
+     * previous batch are skipped; their next swap brings them back.
+     */
+    private async handlePairActivity(pairAddresses: string[]): Promise<void> {
+        const pairsToCheck = pairAddresses.filter(pairAddress => !this.pairsInFlight.has(pairAddress));
 
-        try {
-            // Try V3 pool first
-            let poolContract = new ethers.Contract(pairAddress, V3_POOL_ABI, this.provider);
-            let isV3Pool = false;
+        logger.debug('Swap activity detected', {
+            activePairs: pairAddresses.length,
+            skippedInFlight: pairAddresses.length - pairsToCheck.length
+        });
 
+        await this.runWithConcurrency(pairsToCheck, this.PRICE_CHECK_CONCURRENCY, async pairAddress => {
+            this.pairsInFlight.add(pairAddress);
             try {
-                // Test if it's a V3 pool by calling slot0()
-                await poolContract.slot0();
-                isV3Pool = true;
-                logger.debug('Setting up V3 pool event listener', { pairAddress });
-            } catch (error) {
-                // Not a V3 pool, try V2
-                poolContract = new ethers.Contract(pairAddress, PAIR_ABI, this.provider);
-                logger.debug('Setting up V2 pool event listener', { pairAddress });
+                await this.checkPriceChangeForPair(pairAddress);
+            } finally {
+                this.pairsInFlight.delete(pairAddress);
             }
+        });
+    }
 
-            // Remove existing listeners for this pair to avoid duplicates
-            poolContract.removeAllListeners('Swap');
-
-            if (isV3Pool) {
-                // V3 Swap event: (sender, recipient, amount0, amount1, sqrtPriceX96, liquidity, tick)
-                poolContract.on('Swap', async (_sender, _recipient, _amount0, _amount1, _sqrtPriceX96, _liquidity, _tick, _event) => {
-                    try {
-                        logger.info('V3 Swap event detected - checking prices', { pairAddress });
-                        await this.checkPriceChangeForPair(pairAddress);
-                    } catch (error) {
-                        logger.error('Error processing V3 swap event', { error, pairAddress });
-                    }
-                });
-            } else {
-                // V2 Swap event: (sender, amount0In, amount1In, amount0Out, amount1Out, to)
-                poolContract.on('Swap', async (_sender, _amount0In, _amount1In, _amount0Out, _amount1Out, _to, _event) => {
-                    try {
-                        logger.info('V2 Swap event detected - checking prices', { pairAddress });
-                        await this.checkPriceChangeForPair(pairAddress);
-                    } catch (error) {
-                        logger.error('Error processing V2 swap event', { error, pairAddress });
-                    }
-                });
+    /**
+     * Run a task for every item with at most `limit` tasks at a time
+     */
+    private async runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+        let nextIndex = 0;
+        const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+            while (nextIndex < items.length) {
+                await task(items[nextIndex++]);
             }
-
-            logger.info('Set up swap event listener', { pairAddress, poolType: isV3Pool ? 'V3' : 'V2' });
-        } catch (error) {
-            logger.error('Error setting up pair event listener', { error, pairAddress });
-        }
+        });
+        await Promise.all(workers);
     }
 
     private async checkPriceChangeForPair(pairAddress: string): Promise<void> {
@@ -400,6 +412,8 @@ export class TokenPriceMonitor {
 
     private async checkTokenPriceChange(token: MonitoredToken): Promise<void> {
         try {
+            token.lastCheckedAt = Date.now();
+            this.priceChecksRun++;
             const currentPrice = await this.getCurrentPriceFromPool(token);
 
             logger.debug('Price check for token', {
@@ -431,6 +445,14 @@ export class TokenPriceMonitor {
                 return; // Avoid division by zero or NaN errors
             }
 
+            // Keep price history for backtesting auto-trade rules
+            const sampledAt = Date.now();
+            if (sampledAt - (token.lastSampleAt || 0) >= this.PRICE_SAMPLE_INTERVAL) {
+                token.lastSampleAt = sampledAt;
+                const { recordPriceSample } = await import('@/services/autoTrade/priceHistory');
+                await recordPriceSample(token.tokenAddress, newPriceNum);
+            }
+
             const priceChangePercent = ((newPriceNum - lastPriceNum) / lastPriceNum) * 100;
 
             logger.info('Price change calculation', {
@@ -488,7 +510,10 @@ export class TokenPriceMonitor {
             }
 
             // Check auto-trade rules after price check (always check regardless of notification threshold)
-            await this.checkAutoTradeRules(token, currentPrice, newPriceNum);
+            await this.checkAutoTradeRules(token, currentPrice, newPriceNum, lastPriceNum);
+
+            // Check limit orders for this token at the new price
+            await this.checkLimitOrders(token, newPriceNum);
 
         } catch (error) {
             logger.error('Error checking token price change', { error, tokenAddress: token.tokenAddress });
@@ -498,7 +523,7 @@ export class TokenPriceMonitor {
     /**
      * Check and execute auto-trade rules for a token
      */
-    private async checkAutoTradeRules(token: MonitoredToken, currentPrice: string, currentPriceNum: number): Promise<void> {
+    private async checkAutoTradeRules(token: MonitoredToken, currentPrice: string, currentPriceNum: number, referencePrice: number): Promise<void> {
         try {
             // Import models and services
             const { TrackedTokenModel } = await import('@/database/models/TrackedToken');
@@ -523,7 +548,7 @@ export class TokenPriceMonitor {
 
             for (const rule of autoTradeRules) {
                 try {
-                    await this.processAutoTradeRule(rule, currentPrice, currentPriceNum, token);
+                    await this.processAutoTradeRule(rule, currentPrice, currentPriceNum, referencePrice, token);
                 } catch (ruleError) {
                     logger.error('Error processing auto-trade rule', {
                         error: ruleError,
@@ -541,10 +566,25 @@ export class TokenPriceMonitor {
         }
     }
 
+    /**
+     * Check and fill open limit orders for a token
+     */
+    private async checkLimitOrders(token: MonitoredToken, currentPriceNum: number): Promise<void> {
+        try {
+            const { LimitOrderService } = await import('@/services/limitOrders/limitOrderService');
+            await LimitOrderService.processPriceUpdate(token.tokenAddress, currentPriceNum);
+        } catch (error) {
+            logger.error('Error checking limit orders', {
+                error,
+                tokenAddress: token.tokenAddress
+            });
+        }
+    }
+
     /**
      * Process a single auto-trade rule
      */
-    private async processAutoTradeRule(rule: any, currentPrice: string, currentPriceNum: number, token: MonitoredToken): Promise<void> {
+    private async processAutoTradeRule(rule: any, currentPrice: string, currentPriceNum: number, referencePrice: number, token: MonitoredToken): Promise<void> {
         const currentMarketCap = await this.calculateCurrentMarketCap(token, currentPriceNum);
 
         logger.debug('Processing auto-trade rule', {
@@ -559,43 +599,22 @@ export class TokenPriceMonitor {
             stopLossPrice: rule.stopLossPrice
         });
 
-        // Check entry conditions
-        const entryAmount = rule.entryAmountBNB || rule.entryAmountUSD;
-
-        // Check price-based entry rules first, then fall back to market cap rules for backwards compatibility
-        const hasValidEntryTarget = (rule.priceEntryTarget && entryAmount) || (rule.marketCapEntryTarget && entryAmount);
-
-        if (rule.autoTradeStatus === 'pending_entry' && hasValidEntryTarget) {
-            let entryConditionMet = false;
-            let logData: any = {};
-
-            if (rule.priceEntryTarget) {
-                // Price-based entry logic
-                // If target price is higher than current, wait for price to reach or exceed target
-                // If target price is lower than current, wait for price to drop to or below target
-                if (rule.priceEntryTarget >= currentPriceNum) {
-                    // Target is higher or equal - wait for price to rise
-                    entryConditionMet = currentPriceNum >= rule.priceEntryTarget;
-                } else {
-                    // Target is lower - wait for price to drop (buy the dip)
-                    entryConditionMet = currentPriceNum <= rule.priceEntryTarget;
-                }
-
-                logData = {
+        // Check entry conditions (price-based rules first, market cap rules for backwards compatibility)
+        if (rule.autoTradeStatus === 'pending_entry' && hasEntryRule(rule)) {
+            const entryConditionMet = isEntryConditionMet(rule, currentPriceNum, referencePrice, currentMarketCap);
+            const logData = rule.priceEntryTarget
+                ? {
                     currentPrice: currentPriceNum,
+                    referencePrice,
                     targetPrice: rule.priceEntryTarget,
                     type: 'price-based',
-                    condition: rule.priceEntryTarget >= currentPriceNum ? 'wait-for-rise' : 'wait-for-dip'
-                };
-            } else if (rule.marketCapEntryTarget) {
-                // Market cap-based entry logic (backwards compatibility)
-                entryConditionMet = currentMarketCap >= rule.marketCapEntryTarget;
-                logData = {
+                    condition: rule.priceEntryTarget > referencePrice ? 'wait-for-rise' : 'wait-for-dip'
+                }
+                : {
                     currentMarketCap,
                     targetMarketCap: rule.marketCapEntryTarget,
                     type: 'market-cap-based'
                 };
-            }
 
             if (entryConditionMet) {
                 // Create unique key for this specific auto-trade rule
@@ -637,34 +656,30 @@ export class TokenPriceMonitor {
             }
         }
 
-        // Check exit conditions (take profit or stop loss)
+        // Check exit conditions (take profit levels, take profit, stop loss or trailing stop)
         if (rule.autoTradeStatus === 'position_open') {
-            let shouldSell = false;
-            let sellReason = '';
+            const decision = evaluateExitRules(rule, currentPriceNum);
 
-            if (rule.takeProfitPrice && currentPriceNum >= rule.takeProfitPrice) {
-                shouldSell = true;
-                sellReason = 'take_profit';
-                logger.info('Auto-trade take profit condition met', {
-                    userId: rule.telegramId,
-                    tokenAddress: rule.tokenAddress,
-                    symbol: token.symbol,
-                    currentPrice: currentPriceNum,
-                    takeProfitPrice: rule.takeProfitPrice
-                });
-            } else if (rule.stopLossPrice && currentPriceNum <= rule.stopLossPrice) {
-                shouldSell = true;
-                sellReason = 'stop_loss';
-                logger.info('Auto-trade stop loss condition met', {
+            // Persist the new peak so the trailing stop survives restarts
+            if (decision.highestPrice > (rule.highestPriceSinceEntry || 0)) {
+                rule.highestPriceSinceEntry = decision.highestPrice;
+                await rule.save();
+            }
+
+            if (decision.shouldSell && decision.reason) {
+                logger.info('Auto-trade exit condition met', {
                     userId: rule.telegramId,
                     tokenAddress: rule.tokenAddress,
                     symbol: token.symbol,
                     currentPrice: currentPriceNum,
-                    stopLossPrice: rule.stopLossPrice
+                    reason: decision.reason,
+                    percentageOfHoldings: decision.percentageOfHoldings,
+                    levelIndexes: decision.levelIndexes,
+                    takeProfitPrice: rule.takeProfitPrice,
+                    stopLossPrice: rule.stopLossPrice,
+                    trailingStopPrice: decision.trailingStopPrice
                 });
-            }
 
-            if (shouldSell) {
                 // Create unique key for this specific auto-trade rule
                 const autoTradeKey = `${rule.telegramId}_${rule.tokenAddress}_sell`;
 
@@ -674,7 +689,7 @@ export class TokenPriceMonitor {
                         userId: rule.telegramId,
                         tokenAddress: rule.tokenAddress,
                         symbol: token.symbol,
-                        reason: sellReason
+                        reason: decision.reason
                     });
                     return;
                 }
@@ -683,7 +698,7 @@ export class TokenPriceMonitor {
                 this.executingAutoTrades.add(autoTradeKey);
 
                 try {
-                    await this.executeAutoSell(rule, token, currentPrice, sellReason);
+                    await this.executeAutoSell(rule, token, currentPrice, decision);
                 } finally {
                     // Always remove the execution lock
                     this.executingAutoTrades.delete(autoTradeKey);
@@ -727,12 +742,20 @@ export class TokenPriceMonitor {
             const result = await tradingService.executeAutoBuy(
                 rule.telegramId,
                 rule.tokenAddress,
-                bnbAmount
+                bnbAmount,
+                { source: 'auto_rule', ruleId: rule._id.toString(), trigger: 'entry' }
             );
 
             if (result.success) {
-                // Update rule status to position_open
+                // Update rule status to position_open and reset position tracking
                 rule.autoTradeStatus = 'position_open';
+                rule.entryPrice = parseFloat(currentPrice);
+                rule.highestPriceSinceEntry = parseFloat(currentPrice);
+                rule.soldPercentage = 0;
+                rule.takeProfitLevels = (rule.takeProfitLevels || []).map((level: TakeProfitLevel) => ({
+                    price: level.price,
+                    sellPercentage: level.sellPercentage
+                }));
                 await rule.save();
 
                 // Send notification to user
@@ -749,13 +772,17 @@ export class TokenPriceMonitor {
                     ? `\n\n🔗 [View on BSCScan](https://bscscan.com/tx/${result.txHash})`
                     : '';
 
+                const guardWarning = result.warning
+                    ? `\n\n⚠️ **Buy Guard:** ${result.warning}`
+                    : '';
+
                 await this.sendAutoTradeNotification(
                     rule.telegramId,
                     'buy',
                     token.symbol,
                     rule.tokenAddress,
                     currentPrice,
-                    `✅ Auto-buy executed: ${amountText}${attemptText}${bscscanLink}`
+                    `✅ Auto-buy executed: ${amountText}${attemptText}${guardWarning}${bscscanLink}`
                 );
 
                 logger.info('Auto-buy order executed successfully', {
@@ -826,53 +853,78 @@ export class TokenPriceMonitor {
     /**
      * Execute automated sell order
      */
-    private async executeAutoSell(rule: any, token: MonitoredToken, currentPrice: string, reason: string): Promise<void> {
+    private async executeAutoSell(rule: any, token: MonitoredToken, currentPrice: string, decision: ExitDecision): Promise<void> {
+        const reason = decision.reason!;
+        const reasonText = formatExitReason(reason);
+        const isFullExit = decision.percentageOfHoldings >= 100;
+
         try {
             logger.info('Executing auto-sell order', {
                 userId: rule.telegramId,
                 tokenAddress: rule.tokenAddress,
                 symbol: token.symbol,
-                reason
+                reason,
+                percentageOfHoldings: decision.percentageOfHoldings
             });
 
             // Import trading service
             const { TradingService } = await import('./trading');
 
-            // Execute the sell order (100% of holdings)
+            // Execute the sell order (partial for take profit levels, otherwise 100% of holdings)
             const tradingService = new TradingService();
             const result = await tradingService.executeAutoSell(
                 rule.telegramId,
                 rule.tokenAddress,
-                100 // Sell 100% of holdings
+                isFullExit ? 100 : decision.percentageOfHoldings,
+                { source: 'auto_rule', ruleId: rule._id.toString(), trigger: reason }
             );
 
             if (result.success) {
-                // Update rule status to completed and deactivate
-                rule.autoTradeStatus = 'completed';
-                rule.isAutoTradeActive = false;
+                const now = new Date();
+                rule.soldPercentage = Math.min(100, (rule.soldPercentage || 0) + decision.percentageOfPosition);
+                if (decision.levelIndexes.length > 0) {
+                    rule.takeProfitLevels = (rule.takeProfitLevels || []).map((level: TakeProfitLevel, index: number) =>
+                        decision.levelIndexes.includes(index)
+                            ? { ...level, executed: true, executedAt: now, txHash: result.txHash }
+                            : level
+                    );
+                }
+
+                if (isFullExit || rule.soldPercentage >= 100) {
+                    // Position fully closed - mark rule as completed and deactivate
+                    rule.autoTradeStatus = 'completed';
+                    rule.isAutoTradeActive = false;
+                }
                 await rule.save();
 
                 // Send notification to user
-                const reasonText = reason === 'take_profit' ? 'Take Profit' : 'Stop Loss';
                 const bscscanLink = result.txHash
                     ? `\n\n🔗 [View on BSCScan](https://bscscan.com/tx/${result.txHash})`
                     : '';
 
                 const bnbReceivedText = result.tokensReceived ? ` for ${result.tokensReceived} BNB` : '';
+                const soldText = isFullExit
+                    ? `Sold all remaining ${token.symbol} holdings`
+                    : `Sold ${decision.percentageOfPosition.toFixed(0)}% of the position (${(100 - rule.soldPercentage).toFixed(0)}% still held)`;
+                const levelText = decision.levelIndexes.length > 0
+                    ? ` ${decision.levelIndexes.map(i => `#${i + 1}`).join(', ')}`
+                    : '';
+
                 await this.sendAutoTradeNotification(
                     rule.telegramId,
                     'sell',
                     token.symbol,
                     rule.tokenAddress,
                     currentPrice,
-                    `${reasonText} executed: Sold all ${token.symbol} holdings${bnbReceivedText}${bscscanLink}`
+                    `${reasonText}${levelText} executed: ${soldText}${bnbReceivedText}${bscscanLink}`
                 );
 
                 logger.info('Auto-sell order executed successfully', {
                     userId: rule.telegramId,
                     tokenAddress: rule.tokenAddress,
                     symbol: token.symbol,
-                    reason
+                    reason,
+                    soldPercentage: rule.soldPercentage
                 });
             } else {
                 logger.error('Auto-sell order failed', {
@@ -883,7 +935,6 @@ export class TokenPriceMonitor {
                 });
 
                 // Send failure notification with more detailed error message
-                const reasonText = reason === 'take_profit' ? 'Take Profit' : 'Stop Loss';
                 await this.sendAutoTradeNotification(
                     rule.telegramId,
                     'error',
@@ -1185,15 +1236,25 @@ export class TokenPriceMonitor {
             clearInterval(this.priceCheckInterval);
         }
 
-        // Check prices every 5 minutes as backup to WebSocket events (reduced to save API calls)
+        // Every 5 minutes re-check tokens that had no swap activity, as a backup to the log watcher
         this.priceCheckInterval = setInterval(async () => {
-            logger.info('Running periodic price check', { monitoredTokenCount: this.monitoredTokens.size });
-            for (const token of this.monitoredTokens.values()) {
-                logger.info('Checking token in periodic check', {
-                    symbol: token.symbol,
-                    tokenAddress: token.tokenAddress
-                });
-                await this.checkTokenPriceChange(token);
+            const now = Date.now();
+            const staleTokens = Array.from(this.monitoredTokens.values())
+                .filter(token => now - (token.lastCheckedAt || 0) >= this.STALE_CHECK_INTERVAL);
+
+            logger.info('Running periodic price check', {
+                staleTokenCount: staleTokens.length,
+                ...this.getLoadReport()
+            });
+
+            await this.runWithConcurrency(staleTokens, this.PRICE_CHECK_CONCURRENCY, token => this.checkTokenPriceChange(token));
+
+            // Expire limit orders past their good-till time (fills already skip them)
+            try {
+                const { LimitOrderService } = await import('@/services/limitOrders/limitOrderService');
+                await LimitOrderService.expireOrders();
+            } catch (error) {
+                logger.error('Error expiring limit orders', { error });
             }
         }, 300000); // 5 minutes (reduced from 60s to save API calls)
 
@@ -1206,9 +1267,14 @@ export class TokenPriceMonitor {
             this.priceCheckInterval = null;
         }
 
-        if (this.provider) {
+        if (this.pairWatcher) {
+            this.pairWatcher.stop();
+            this.pairWatcher = null;
+        }
+
+        if (this.wsProvider) {
             try {
-                await this.provider.destroy();
+                await this.wsProvider.destroy();
             } catch (error) {
                 logger.warn('Error destroying WebSocket provider', { error });
             }
@@ -50,6 +50,7 @@ export class TokenTrackingService {
                         Markup.button.callback('➕ Add Token', 'add_tracked_token'),
                         ...(trackedTokens.length > 0 ? [Markup.button.callback('📋 Manage', 'manage_tracked_tokens')] : [])
                     ],
+                    ...(trackedTokens.length > 0 ? [[Markup.button.callback('📑 My Orders', 'my_orders')]] : []),
                     [
                         ...(trackedTokens.length > 0 ? [Markup.button.callback('🔄 Refresh Prices', 'refresh_token_prices')] : []),
                         Markup.button.callback('🔙 Back to Menu', 'start_edit')
@@ -330,6 +331,10 @@ export class TokenTrackingService {
                 tokenAddress: tokenAddress.toLowerCase()
             });
 
+            // Open limit orders can no longer be evaluated without the price listener
+            const { LimitOrderService } = await import('./limitOrders/limitOrderService');
+            await LimitOrderService.cancelOpenOrdersForToken(userId, tokenAddress, 'Token removed from tracking');
+
             // Stop monitoring if no other users are tracking this token
             await this.decommissionTokenMonitoring(tokenAddress);
 
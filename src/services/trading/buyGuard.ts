@@ -0,0 +1,400 @@
+import { ethers } from 'ethers';
+import { UserModel } from '@/database/models/User';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('trading.buyGuard');
+
+const PANCAKE_V2_ROUTER = '0x10ED43C718714eb63d5aA57B78B54704E256024E';
+const WBNB_ADDRESS = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
+// Simulated buyer when the user has no trading wallet yet
+const FALLBACK_SIMULATION_ADDRESS = '0x1000000000000000000000000000000000000b0b';
+
+const ROUTER_ABI = [
+    'function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)',
+    'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable',
+    'function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)'
+];
+
+const ERC20_ABI = [
+    'function balanceOf(address owner) view returns (uint256)',
+    'function approve(address spender, uint256 amount) returns (bool)'
+];
+
+// Binary search steps for the eth_call fallback, 10 steps resolve the buy tax to ~0.1%
+const BUY_TAX_SEARCH_STEPS = 10;
+const SIMULATION_CACHE_TTL = 30 * 1000;
+
+export interface TradeSimulation {
+    simulated: boolean; // False when no simulation could be run at all
+    method: 'simulate' | 'eth_call' | 'none'; // eth_simulateV1 round trip, eth_call buy only, or nothing
+    canBuy?: boolean;
+    canSell?: boolean; // Undefined when only the buy could be simulated
+    buyTaxPercent?: number;
+    sellTaxPercent?: number;
+    roundTripLossPercent?: number; // BNB lost buying and immediately selling, including LP fees
+    revertReason?: string;
+    error?: string;
+}
+
+export interface BuyGuardSettings {
+    enabled: boolean;
+    mode: 'block' | 'warn';
+    maxRoundTripLossPercent: number;
+}
+
+export interface BuyGuardVerdict {
+    action: 'allow' | 'warn' | 'block';
+    reasons: string[]; // Why the buy was flagged
+    notes: string[]; // Informational, never flag a buy on their own
+    simulation?: TradeSimulation;
+    settings: BuyGuardSettings;
+}
+
+export const DEFAULT_BUY_GUARD_SETTINGS: BuyGuardSettings = {
+    enabled: true,
+    mode: 'block',
+    maxRoundTripLossPercent: 30
+};
+
+/**
+ * Decide what to do with a buy based on its simulation and the user's limits
+ */
+export function evaluateBuyGuard(simulation: TradeSimulation, settings: BuyGuardSettings): BuyGuardVerdict {
+    const reasons: string[] = [];
+    const notes: string[] = [];
+
+    if (!simulation.simulated) {
+        notes.push(`Could not simulate this trade${simulation.error ? `: ${simulation.error}` : ''}`);
+    } else if (simulation.canBuy === false) {
+        reasons.push(`Buy reverts${simulation.revertReason ? `: ${simulation.revertReason}` : ''}`);
+    } else if (simulation.canSell === false) {
+        reasons.push(`Token cannot be sold${simulation.revertReason ? ` (${simulation.revertReason})` : ''}`);
+    } else {
+        const limit = settings.maxRoundTripLossPercent;
+        if (simulation.roundTripLossPercent !== undefined && simulation.roundTripLossPercent > limit) {
+            reasons.push(`Round-trip loss ${simulation.roundTripLossPercent.toFixed(1)}% is above your ${limit}% limit`);
+        } else if (simulation.canSell === undefined && simulation.buyTaxPercent !== undefined && simulation.buyTaxPercent > limit) {
+            reasons.push(`Buy tax ${simulation.buyTaxPercent.toFixed(1)}% is above your ${limit}% limit`);
+        }
+        if (simulation.canSell === undefined) {
+            notes.push('Sell could not be simulated on this RPC, only the buy tax was checked');
+        }
+    }
+
+    return {
+        action: reasons.length === 0 ? 'allow' : settings.mode,
+        reasons,
+        notes,
+        simulation,
+        settings
+    };
+}
+
+/**
+ * Markdown summary of a buy guard check for Telegram
+ */
+export function formatBuyGuardReport(verdict: BuyGuardVerdict): string {
+    const simulation = verdict.simulation;
+    let message = `🛡️ *Buy Guard*\n\n`;
+
+    if (simulation?.simulated) {
+        if (simulation.buyTaxPercent !== undefined) {
+            message += `• Buy Tax: ${simulation.buyTaxPercent.toFixed(1)}%\n`;
+        }
+        if (simulation.sellTaxPercent !== undefined) {
+            message += `• Sell Tax: ${simulation.sellTaxPercent.toFixed(1)}%\n`;
+        }
+        if (simulation.roundTripLossPercent !== undefined) {
+            message += `• Round-trip Loss: ${simulation.roundTripLossPercent.toFixed(1)}% (limit ${verdict.settings.maxRoundTripLossPercent}%)\n`;
+        }
+        if (simulation.canSell === false) {
+            message += `• Sellable: ❌ No\n`;
+        }
+        message += `\n`;
+    }
+
+    if (verdict.action === 'block') {
+        message += `⛔ *Buy blocked*\n`;
+    } else if (verdict.action === 'warn') {
+        message += `⚠️ *Warning*\n`;
+    }
+    verdict.reasons.forEach(reason => {
+        message += `• ${reason}\n`;
+    });
+    verdict.notes.forEach(note => {
+        message += `_${note}_\n`;
+    });
+
+    return message;
+}
+
+function percentLost(expected: bigint, actual: bigint): number {
+    if (expected <= 0n || actual >= expected) return 0;
+    return Number(((expected - actual) * 10000n) / expected) / 100;
+}
+
+function isRevert(error: any): boolean {
+    const message = String(error?.error?.message || error?.message || '').toLowerCase();
+    return error?.code === 'CALL_EXCEPTION' || message.includes('revert');
+}
+
+interface SimulatedCallResult {
+    success: boolean;
+    returnData: string;
+    error?: string;
+}
+
+export class BuyGuardService {
+    private provider: ethers.JsonRpcProvider;
+    private router: ethers.Contract;
+    private routerInterface = new ethers.Interface(ROUTER_ABI);
+    private erc20Interface = new ethers.Interface(ERC20_ABI);
+    private cache: Map<string, { simulation: TradeSimulation; timestamp: number }> = new Map();
+
+    constructor() {
+        // Point TRADE_SIMULATION_RPC_URL at a local fork (e.g. anvil) to keep simulations off the public RPC
+        this.provider = new ethers.JsonRpcProvider(
+            process.env.TRADE_SIMULATION_RPC_URL || process.env.BSC_RPC_URL || 'https://bsc-dataseed1.binance.org/'
+        );
+        this.router = new ethers.Contract(PANCAKE_V2_ROUTER, ROUTER_ABI, this.provider);
+    }
+
+    /**
+     * Load the user's buy guard settings
+     */
+    async getSettings(userId: number): Promise<BuyGuardSettings & { walletAddress?: string }> {
+        const user = await UserModel.findOne({ telegramId: userId })
+            .select('buyGuardEnabled buyGuardMode buyGuardMaxLossPercent tradingWalletAddress')
+            .lean();
+
+        return {
+            enabled: user?.buyGuardEnabled ?? DEFAULT_BUY_GUARD_SETTINGS.enabled,
+            mode: (user?.buyGuardMode as BuyGuardSettings['mode']) || DEFAULT_BUY_GUARD_SETTINGS.mode,
+            maxRoundTripLossPercent: user?.buyGuardMaxLossPercent ?? DEFAULT_BUY_GUARD_SETTINGS.maxRoundTripLossPercent,
+            walletAddress: user?.tradingWalletAddress
+        };
+    }
+
+    /**
+     * Run the guard for a buy the user is about to make
+     */
+    async checkBuy(userId: number, tokenAddress: string, bnbAmount: string): Promise<BuyGuardVerdict> {
+        const { walletAddress, ...settings } = await this.getSettings(userId);
+        if (!settings.enabled) {
+            return { action: 'allow', reasons: [], notes: [], settings };
+        }
+
+        const simulation = await this.simulateRoundTrip(tokenAddress, bnbAmount, walletAddress);
+        const verdict = evaluateBuyGuard(simulation, settings);
+
+        if (verdict.action !== 'allow') {
+            logger.warn('Buy flagged by buy guard', {
+                userId,
+                tokenAddress,
+                bnbAmount,
+                action: verdict.action,
+                reasons: verdict.reasons,
+                simulation
+            });
+        }
+
+        return verdict;
+    }
+
+    /**
+     * Simulate buying the token with BNB and selling everything straight back through
+     * PancakeSwap V2. Uses eth_simulateV1 for the full round trip and falls back to a
+     * buy-only eth_call check on RPCs that don't support it.
+     */
+    async simulateRoundTrip(tokenAddress: string, bnbAmount: string, fromAddress?: string): Promise<TradeSimulation> {
+        const from = ethers.getAddress(fromAddress || FALLBACK_SIMULATION_ADDRESS);
+        const token = ethers.getAddress(tokenAddress);
+        const cacheKey = `${token}:${bnbAmount}:${from}`.toLowerCase();
+
+        const cached = this.cache.get(cacheKey);
+        if (cached && Date.now() - cached.timestamp < SIMULATION_CACHE_TTL) {
+            return cached.simulation;
+        }
+
+        const simulation = await this.runSimulation(token, ethers.parseEther(bnbAmount), from);
+        this.cache.set(cacheKey, { simulation, timestamp: Date.now() });
+        return simulation;
+    }
+
+    private async runSimulation(token: string, amountIn: bigint, from: string): Promise<TradeSimulation> {
+        let expectedTokens: bigint;
+        try {
+            const amounts = await this.router.getAmountsOut(amountIn, [WBNB_ADDRESS, token]);
+            expectedTokens = amounts[1];
+        } catch {
+            return { simulated: false, method: 'none', error: 'no PancakeSwap V2 BNB pair to simulate against' };
+        }
+
+        try {
+            return await this.simulateWithSimulateV1(token, amountIn, expectedTokens, from);
+        } catch (error) {
+            logger.debug('eth_simulateV1 unavailable, falling back to eth_call', {
+                token,
+                error: error instanceof Error ? error.message : String(error)
+            });
+        }
+
+        try {
+            return await this.simulateBuyWithEthCall(token, amountIn, expectedTokens, from);
+        } catch (error) {
+            logger.error('Trade simulation failed', {
+                token,
+                error: error instanceof Error ? error.message : String(error)
+            });
+            return { simulated: false, method: 'none', error: 'simulation RPC error' };
+        }
+    }
+
+    private async simulateWithSimulateV1(token: string, amountIn: bigint, expectedTokens: bigint, from: string): Promise<TradeSimulation> {
+        const deadline = Math.floor(Date.now() / 1000) + 600;
+        const buyCall = {
+            from,
+            to: PANCAKE_V2_ROUTER,
+            value: ethers.toQuantity(amountIn),
+            data: this.routerInterface.encodeFunctionData('swapExactETHForTokensSupportingFeeOnTransferTokens', [
+                0, [WBNB_ADDRESS, token], from, deadline
+            ])
+        };
+        const tokenBalanceCall = { from, to: token, data: this.erc20Interface.encodeFunctionData('balanceOf', [from]) };
+        const wbnbBalanceCall = { from, to: WBNB_ADDRESS, data: this.erc20Interface.encodeFunctionData('balanceOf', [from]) };
+
+        // First pass: find out how many tokens the buy actually delivers
+        const buyResults = await this.simulateCalls([tokenBalanceCall, buyCall, tokenBalanceCall], from, amountIn);
+        if (!buyResults[1].success) {
+            return { simulated: true, method: 'simulate', canBuy: false, revertReason: buyResults[1].error };
+        }
+
+        const received = this.decodeUint(buyResults[2]) - this.decodeUint(buyResults[0]);
+        const buyTaxPercent = percentLost(expectedTokens, received);
+        if (received <= 0n) {
+            return { simulated: true, method: 'simulate', canBuy: true, canSell: false, buyTaxPercent, revertReason: 'buy delivered no tokens' };
+        }
+
+        // Second pass: repeat the buy and sell everything that arrived
+        const sellResults = await this.simulateCalls([
+            buyCall,
+            { from, to: token, data: this.erc20Interface.encodeFunctionData('approve', [PANCAKE_V2_ROUTER, ethers.MaxUint256]) },
+            {
+                from,
+                to: PANCAKE_V2_ROUTER,
+                data: this.routerInterface.encodeFunctionData('getAmountsOut', [received, [token, WBNB_ADDRESS]])
+            },
+            wbnbBalanceCall,
+            {
+                from,
+                to: PANCAKE_V2_ROUTER,
+                data: this.routerInterface.encodeFunctionData('swapExactTokensForTokensSupportingFeeOnTransferTokens', [
+                    received, 0, [token, WBNB_ADDRESS], from, deadline
+                ])
+            },
+            wbnbBalanceCall
+        ], from, amountIn);
+
+        const [, approveResult, quoteResult, , sellResult] = sellResults;
+        if (!approveResult.success || !sellResult.success) {
+            return {
+                simulated: true,
+                method: 'simulate',
+                canBuy: true,
+                canSell: false,
+                buyTaxPercent,
+                revertReason: (approveResult.success ? sellResult.error : approveResult.error) || 'sell reverted'
+            };
+        }
+
+        const [, expectedBnb] = this.routerInterface.decodeFunctionResult('getAmountsOut', quoteResult.returnData)[0] as bigint[];
+        const bnbOut = this.decodeUint(sellResults[5]) - this.decodeUint(sellResults[3]);
+
+        return {
+            simulated: true,
+            method: 'simulate',
+            canBuy: true,
+            canSell: bnbOut > 0n,
+            buyTaxPercent,
+            sellTaxPercent: percentLost(expectedBnb, bnbOut),
+            roundTripLossPercent: percentLost(amountIn, bnbOut)
+        };
+    }
+
+    /**
+     * The fee-on-transfer router reverts when the balance increase is below amountOutMin,
+     * so the largest amountOutMin that still succeeds is what the buyer really receives.
+     */
+    private async simulateBuyWithEthCall(token: string, amountIn: bigint, expectedTokens: bigint, from: string): Promise<TradeSimulation> {
+        const deadline = Math.floor(Date.now() / 1000) + 600;
+        const balanceOverride = { [from]: { balance: ethers.toQuantity(amountIn + ethers.parseEther('1')) } };
+
+        const buySucceeds = async (amountOutMin: bigint): Promise<boolean> => {
+            try {
+                await this.provider.send('eth_call', [{
+                    from,
+                    to: PANCAKE_V2_ROUTER,
+                    value: ethers.toQuantity(amountIn),
+                    data: this.routerInterface.encodeFunctionData('swapExactETHForTokensSupportingFeeOnTransferTokens', [
+                        amountOutMin, [WBNB_ADDRESS, token], from, deadline
+                    ])
+                }, 'latest', balanceOverride]);
+                return true;
+            } catch (error) {
+                if (isRevert(error)) return false;
+                throw error;
+            }
+        };
+
+        if (!(await buySucceeds(0n))) {
+            return { simulated: true, method: 'eth_call', canBuy: false };
+        }
+
+        let low = 0n;
+        let high = expectedTokens + 1n;
+        for (let step = 0; step < BUY_TAX_SEARCH_STEPS && high - low > 1n; step++) {
+            const mid = (low + high) / 2n;
+            if (await buySucceeds(mid)) {
+                low = mid;
+            } else {
+                high = mid;
+            }
+        }
+
+        return {
+            simulated: true,
+            method: 'eth_call',
+            canBuy: true,
+            buyTaxPercent: percentLost(expectedTokens, low)
+        };
+    }
+
+    private async simulateCalls(calls: Array<Record<string, string>>, from: string, amountIn: bigint): Promise<SimulatedCallResult[]> {
+        const blocks = await this.provider.send('eth_simulateV1', [{
+            blockStateCalls: [{
+                stateOverrides: { [from]: { balance: ethers.toQuantity(amountIn + ethers.parseEther('1')) } },
+                calls
+            }],
+            validation: false
+        }, 'latest']);
+
+        const results = blocks?.[0]?.calls;
+        if (!Array.isArray(results) || results.length !== calls.length) {
+            throw new Error('Unexpected eth_simulateV1 response');
+        }
+
+        return results.map((result: any) => ({
+            success: result.status === '0x1',
+            returnData: result.returnData,
+            error: result.error?.message
+        }));
+    }
+
+    private decodeUint(result: SimulatedCallResult): bigint {
+        if (!result.success || !result.returnData || result.returnData === '0x') return 0n;
+        return BigInt(result.returnData.slice(0, 66));
+    }
+}
+
+// Export singleton instance
+export const buyGuardService = new BuyGuardService();
@@ -15,6 +15,9 @@ import { TokenSearchService } from '../tokenSearch';
 import { decryptPrivateKey } from '../wallet/tradingWallet';
 import { priceDeviationChecker } from '../priceDeviation/priceDeviationChecker';
 import { signatureService } from './signatureService';
+import { buyGuardService, formatBuyGuardReport, BuyGuardVerdict } from './buyGuard';
+import { getTradingPreferences, resolveSlippage, getSwapDeadline, sendTransactionWithPreferences } from './tradingPreferences';
+import { tradeJournal, TradeOrigin } from './tradeJournal';
 // Import ABI directly (it's already an array, not an object with .abi property)
 import SecureBeanBeeRouterABI from '../../config/abi/SecureBeanBeeRouter.json';
 
@@ -582,11 +585,12 @@ ${ownershipMessage}`;
 
 		if (!showConfirmation) {
 			// Quick trade mode - execute immediately
-			await this.executeBuy(ctx, tokenAddress, bnbAmount);
+			await this.executeBuy(ctx, tokenAddress, bnbAmount, false, { source: 'quick_trade' });
 			return;
 		}
 
 		try {
+			const slippage = resolveSlippage(await getTradingPreferences(userId), 5);
 			const tokenInfo = await this.trader.getTokenInfo(tokenAddress);
 			if (!tokenInfo) {
 				await ctx.reply(await getTranslation(ctx, 'trading.tokenNotFound'));
@@ -598,7 +602,7 @@ ${ownershipMessage}`;
 				tokenInAddress: 'BNB',
 				tokenOutAddress: tokenAddress,
 				amountIn: bnbAmount,
-				slippage: 5
+				slippage
 			});
 
 			if (!quote) {
@@ -612,11 +616,11 @@ ${await getTranslation(ctx, 'trading.youPay')} ${bnbAmount} BNB
 ${await getTranslation(ctx, 'trading.youReceive')} ~${formatNumber(quote.amountOut)} ${tokenInfo.symbol}
 ${quote.route ? `Route: ${quote.route}` : ''}
 
-${await getTranslation(ctx, 'trading.slippage')} 5%`;
+${await getTranslation(ctx, 'trading.slippage')} ${slippage}%`;
 
 			const keyboard = {
 				inline_keyboard: [
-					[{ text: await getTranslation(ctx, 'trading.confirmBuy'), callback_data: `confirm_buy_${tokenAddress}_${bnbAmount}` }],
+					[{ text: await getTranslation(ctx, 'trading.confirmBuy'), callback_data: `confirm_qbuy_${tokenAddress}_${bnbAmount}` }],
 					[{ text: await getTranslation(ctx, 'trading.cancel'), callback_data: `refresh_token_${tokenAddress}` }]
 				]
 			};
@@ -657,11 +661,12 @@ ${await getTranslation(ctx, 'trading.slippage')} 5%`;
 
 		if (!showConfirmation) {
 			// Quick trade mode - execute immediately
-			await this.executeSell(ctx, tokenAddress, percentage.toString());
+			await this.executeSell(ctx, tokenAddress, percentage.toString(), { source: 'quick_trade' });
 			return;
 		}
 
 		try {
+			const slippage = resolveSlippage(await getTradingPreferences(userId), 5);
 			const tokenInfo = await this.trader.getTokenInfo(tokenAddress);
 			const userBalance = await this.trader.getTokenBalance(tokenAddress, tradingWalletAddress);
 
@@ -677,7 +682,7 @@ ${await getTranslation(ctx, 'trading.slippage')} 5%`;
 				tokenInAddress: tokenAddress,
 				tokenOutAddress: 'BNB',
 				amountIn: sellAmount,
-				slippage: 5
+				slippage
 			});
 
 			if (!quote) {
@@ -691,11 +696,11 @@ ${await getTranslation(ctx, 'trading.youSell')} ${formatNumber(sellAmount)} ${to
 ${await getTranslation(ctx, 'trading.youReceive')} ~${formatNumber(quote.amountOut)} BNB
 ${quote.route ? `Route: ${quote.route}` : ''}
 
-${await getTranslation(ctx, 'trading.slippage')} 5%`;
+${await getTranslation(ctx, 'trading.slippage')} ${slippage}%`;
 
 			const keyboard = {
 				inline_keyboard: [
-					[{ text: await getTranslation(ctx, 'trading.confirmSell'), callback_data: `confirm_sell_${percentage}_${tokenAddress}` }],
+					[{ text: await getTranslation(ctx, 'trading.confirmSell'), callback_data: `confirm_qsell_${percentage}_${tokenAddress}` }],
 					[{ text: await getTranslation(ctx, 'trading.cancel'), callback_data: `refresh_token_${tokenAddress}` }]
 				]
 			};
@@ -839,7 +844,7 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 	}
 
 	// Execute buy order using universal router contract (supports V2 and V3)
-	async executeBuy(ctx: Context, tokenAddress: string, bnbAmount: string) {
+	async executeBuy(ctx: Context, tokenAddress: string, bnbAmount: string, skipBuyGuard = false, origin: TradeOrigin = { source: 'manual' }) {
 		const userId = ctx.from!.id;
 		let messageToUpdate: any;
 
@@ -872,8 +877,20 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 				// Continue with buy even if deviation check fails
 			}
 
+			// Simulate the buy and an immediate sell before sending anything
+			if (!skipBuyGuard) {
+				const guard = await buyGuardService.checkBuy(userId, tokenAddress, bnbAmount);
+				if (guard.action !== 'allow') {
+					await this.showBuyGuardResult(ctx, messageToUpdate, tokenAddress, bnbAmount, guard);
+					return;
+				}
+			}
+
 			// --- Universal Router Integration ---
 
+			const preferences = await getTradingPreferences(userId);
+			const slippage = resolveSlippage(preferences, 5);
+
 			// 1. Get user's trading wallet signer
 			const walletData = await UserService.getTradingWalletData(userId);
 			if (!walletData?.encryptedPrivateKey || !walletData.iv) {
@@ -897,7 +914,7 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 					tokenInAddress: 'BNB',
 					tokenOutAddress: tokenAddress,
 					amountIn: bnbAmount,
-					slippage: 5 // Using a reasonable default slippage
+					slippage
 				});
 
 				logger.info('PancakeSwap SDK getBestTrade result', {
@@ -911,10 +928,11 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 					throw new Error('Could not find a valid trade route. The token might have insufficient liquidity on PancakeSwap V2/V3.');
 				}
 
-				const slippageTolerance = new Percent(500, 10_000); // 5% slippage
+				const slippageTolerance = new Percent(Math.round(slippage * 100), 10_000);
 				swapParams = SwapRouter.swapCallParameters(trade, {
 					recipient: signer.address as `0x${string}`,
 					slippageTolerance,
+					deadlineOrPreviousBlockhash: BigInt(getSwapDeadline(preferences)),
 				});
 
 				logger.info('PancakeSwap SDK swapCallParameters result', {
@@ -966,7 +984,7 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 				signer.address,
 				this.PANCAKESWAP_SMART_ROUTER_ADDRESS,
 				swapParams.calldata as string,
-				20 // 20 minutes deadline
+				preferences.deadlineMinutes
 			);
 
 			logger.info('Generated swap signature', {
@@ -984,7 +1002,7 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 
 			// 5. Execute swap through secure router with signature parameters
 			// The secure router will validate the signature and forward the call to the whitelisted PancakeSwap Smart Router
-			const tx = await secureRouter.executeSwap(
+			const swapTx = await secureRouter.executeSwap.populateTransaction(
 				this.PANCAKESWAP_SMART_ROUTER_ADDRESS,    // Parameter 1: router (whitelisted Smart Router)
 				swapParams.calldata as `0x${string}`,    // Parameter 2: calldata
 				deadline,                                 // Parameter 3: deadline
@@ -994,6 +1012,8 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 					gasLimit: 800000, // Increased gas limit for complex V3 trades
 				}
 			);
+			// Applies the user's gas settings and private mempool choice
+			const tx = await sendTransactionWithPreferences(signer, swapTx, preferences);
 
 			logger.info(`Transaction sent via secure router: ${tx.hash}`);
 			const receipt = await tx.wait();
@@ -1031,6 +1051,17 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 					}
 				);
 
+				await tradeJournal.recordTrade({
+					...origin,
+					userId,
+					walletAddress: signer.address,
+					txHash: receipt.hash,
+					side: 'buy',
+					tokenAddress,
+					expectedBnbAmount: bnbAmount,
+					receipt
+				});
+
 			} else {
 				throw new Error('Transaction failed on-chain (reverted)');
 			}
@@ -1091,6 +1122,33 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 		}
 	}
 
+	// Show why the buy guard stopped a buy, with an override for warnings
+	private async showBuyGuardResult(ctx: Context, messageToUpdate: any, tokenAddress: string, bnbAmount: string, guard: BuyGuardVerdict) {
+		const message = formatBuyGuardReport(guard) + (guard.action === 'warn'
+			? `\nYou can still buy ${bnbAmount} BNB of this token, but you may not get your BNB back.`
+			: `\nChange the limit or switch to warnings in Settings → Buy Guard.`);
+
+		const keyboard = {
+			inline_keyboard: [
+				...(guard.action === 'warn'
+					? [[{ text: '⚠️ Buy Anyway', callback_data: `guard_buy_${tokenAddress}_${bnbAmount}` }]]
+					: []),
+				[{ text: await getTranslation(ctx, 'trading.back'), callback_data: `refresh_token_${tokenAddress}` }]
+			]
+		};
+
+		await ctx.telegram.editMessageText(
+			ctx.chat!.id,
+			messageToUpdate.message_id,
+			undefined,
+			message,
+			{
+				parse_mode: 'Markdown',
+				reply_markup: keyboard
+			}
+		);
+	}
+
 	// Original executeBuy method (renamed for backup/reference)
 	async executeBuyOriginal(ctx: Context, tokenAddress: string, bnbAmount: string) {
 		const userId = ctx.from!.id;
@@ -1231,7 +1289,7 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 	}
 
 	// Execute sell order using universal router (supports V2 and V3)
-	async executeSell(ctx: Context, tokenAddress: string, percentage: string) {
+	async executeSell(ctx: Context, tokenAddress: string, percentage: string, origin: TradeOrigin = { source: 'manual' }) {
 		const userId = ctx.from!.id;
 		let messageToUpdate: any;
 
@@ -1299,6 +1357,9 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 
 			// --- Universal Router Integration for Sell ---
 
+			const preferences = await getTradingPreferences(userId);
+			const slippage = resolveSlippage(preferences, 5);
+
 			// 1. Get user's trading wallet signer
 			const walletData = await UserService.getTradingWalletData(userId);
 			if (!walletData?.encryptedPrivateKey || !walletData.iv) {
@@ -1318,7 +1379,7 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 				tokenInAddress: tokenAddress,
 				tokenOutAddress: 'BNB',
 				amountIn: sellAmount,
-				slippage: 5
+				slippage
 			});
 
 			if (!trade) {
@@ -1326,11 +1387,12 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 			}
 
 			// Generate calldata for the swap
-			// Increased slippage tolerance from 0.5% to 5% for better transaction success
-			const slippageTolerance = new Percent(500, 10_000); // 5% slippage
+			// Slippage defaults to 5% for better transaction success
+			const slippageTolerance = new Percent(Math.round(slippage * 100), 10_000);
 			const swapParams = SwapRouter.swapCallParameters(trade, {
 				recipient: signer.address as `0x${string}`, // Important: BNB goes to the user's wallet
 				slippageTolerance,
+				deadlineOrPreviousBlockhash: BigInt(getSwapDeadline(preferences)),
 			});
 
 			// --- Critical fix: Always use the PancakeSwap Smart Router address ---
@@ -1351,7 +1413,7 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 				this.PANCAKESWAP_SMART_ROUTER_ADDRESS,
 				rawSellAmount.toString(),
 				swapParams.calldata as string,
-				20 // 20 minutes deadline
+				preferences.deadlineMinutes
 			);
 
 			logger.info('Generated token swap signature', {
@@ -1383,7 +1445,7 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 
 			// 6. Execute swap through secure router with signature parameters
 			// Note: The new SecureBeanBeeRouter requires signature verification
-			const tx = await secureRouter.executeTokenSwap(
+			const swapTx = await secureRouter.executeTokenSwap.populateTransaction(
 				tokenAddress,                             // Parameter 1: token
 				this.PANCAKESWAP_SMART_ROUTER_ADDRESS,   // Parameter 2: router (whitelisted Smart Router)
 				rawSellAmount,                            // Parameter 3: amount (in wei)
@@ -1394,6 +1456,7 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 					gasLimit: 800000, // Increased gas limit for complex V3 trades
 				}
 			);
+			const tx = await sendTransactionWithPreferences(signer, swapTx, preferences);
 
 			logger.info(`Sell transaction sent via secure router: ${tx.hash}`);
 			const receipt = await tx.wait();
@@ -1428,6 +1491,17 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 						reply_markup: keyboard
 					}
 				);
+
+				await tradeJournal.recordTrade({
+					...origin,
+					userId,
+					walletAddress: signer.address,
+					txHash: receipt.hash,
+					side: 'sell',
+					tokenAddress,
+					expectedBnbAmount: trade.outputAmount.toExact(),
+					receipt
+				});
 			} else {
 				throw new Error('Transaction failed on-chain (reverted)');
 			}
@@ -1593,7 +1667,7 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 	/**
 	 * Execute automated buy order for auto-trading
 	 */
-	async executeAutoBuy(userId: number, tokenAddress: string, bnbAmount: string): Promise<{ success: boolean; error?: string; balance?: string; required?: string; attempt?: number; txHash?: string; tokensReceived?: string }> {
+	async executeAutoBuy(userId: number, tokenAddress: string, bnbAmount: string, origin: TradeOrigin = { source: 'auto_rule' }): Promise<{ success: boolean; error?: string; balance?: string; required?: string; attempt?: number; txHash?: string; tokensReceived?: string; warning?: string }> {
 		try {
 			logger.info('Executing auto-buy order', { userId, tokenAddress, bnbAmount });
 
@@ -1630,6 +1704,15 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 				return { success: false, error: 'Could not get token information' };
 			}
 
+			// Nobody can confirm an automated buy, so warnings are passed on and only blocks stop it
+			const guard = await buyGuardService.checkBuy(userId, tokenAddress, bnbAmount);
+			if (guard.action === 'block') {
+				return { success: false, error: `Blocked by buy guard: ${guard.reasons.join('; ')}` };
+			}
+			const warning = guard.action === 'warn' ? guard.reasons.join('; ') : undefined;
+
+			const slippage = resolveSlippage(await getTradingPreferences(userId), 20);
+
 			// Execute the buy order with retry logic (max 2 attempts)
 			const maxRetries = 2;
 			let lastError = '';
@@ -1641,7 +1724,7 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 					tokenInAddress: 'BNB',
 					tokenOutAddress: tokenAddress,
 					amountIn: bnbAmount,
-					slippage: 20
+					slippage
 				});
 
 				if (result.success && result.txHash) {
@@ -1654,7 +1737,16 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 						txHash: result.txHash,
 						attempt
 					});
-					return { success: true, attempt, txHash: result.txHash, tokensReceived: result.tokensReceived };
+					await tradeJournal.recordTrade({
+						...origin,
+						userId,
+						walletAddress: tradingWalletAddress,
+						txHash: result.txHash,
+						side: 'buy',
+						tokenAddress,
+						expectedBnbAmount: bnbAmount
+					});
+					return { success: true, attempt, txHash: result.txHash, tokensReceived: result.tokensReceived, warning };
 				} else {
 					lastError = result.error || 'Swap execution failed';
 					logger.error(`Auto-buy attempt ${attempt} failed`, {
@@ -1695,7 +1787,7 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 	/**
 	 * Execute automated sell order for auto-trading
 	 */
-	async executeAutoSell(userId: number, tokenAddress: string, percentage: number): Promise<{ success: boolean; txHash?: string; tokensReceived?: string }> {
+	async executeAutoSell(userId: number, tokenAddress: string, percentage: number, origin: TradeOrigin = { source: 'auto_rule' }): Promise<{ success: boolean; txHash?: string; tokensReceived?: string }> {
 		try {
 			logger.info('Executing auto-sell order', { userId, tokenAddress, percentage });
 
@@ -1742,67 +1834,111 @@ ${await getTranslation(ctx, 'trading.readyToExecute')}`;
 				sellAmount = (parseFloat(userBalance) * percentage / 100).toString();
 			}
 
-			// Execute the sell order with retry logic (max 2 attempts)
-			const maxRetries = 2;
-			let lastError = '';
-
-			for (let attempt = 1; attempt <= maxRetries; attempt++) {
-				logger.info(`Auto-sell attempt ${attempt}/${maxRetries}`, { userId, tokenAddress, percentage, sellAmount });
-
-				const result = await this.executor.executeSwap(userId, {
-					tokenInAddress: tokenAddress,
-					tokenOutAddress: 'BNB',
-					amountIn: sellAmount,
-					slippage: 20
-				});
+			return await this.executeAutoSellSwap(userId, tokenAddress, sellAmount, tradingWalletAddress, origin, percentage);
 
-				if (result.success && result.txHash) {
-					// Invalidate DeFi cache to refresh balances
-					await this.invalidateDeFiCache(userId, tradingWalletAddress);
-					logger.info('Auto-sell order executed successfully', {
-						userId,
-						tokenAddress,
-						percentage,
-						sellAmount,
-						txHash: result.txHash,
-						attempt
-					});
-					return { success: true, txHash: result.txHash, tokensReceived: result.tokensReceived };
-				} else {
-					lastError = result.error || 'Swap execution failed';
-					logger.error(`Auto-sell attempt ${attempt} failed`, {
-						userId,
-						tokenAddress,
-						percentage,
-						sellAmount,
-						error: lastError,
-						txHash: result.txHash
-					});
+		} catch (error) {
+			logger.error('Error in executeAutoSell', {
+				error: error instanceof Error ? error.message : String(error),
+				userId,
+				tokenAddress,
+				percentage
+			});
+			return { success: false };
+		}
+	}
 
-					// If this was the last attempt, don't retry
-					if (attempt === maxRetries) {
-						break;
-					}
+	/**
+	 * Execute automated sell of an exact token amount (used by limit orders)
+	 */
+	async executeAutoSellAmount(userId: number, tokenAddress: string, tokenAmount: string, origin: TradeOrigin = { source: 'auto_rule' }): Promise<{ success: boolean; txHash?: string; tokensReceived?: string }> {
+		try {
+			logger.info('Executing auto-sell order for amount', { userId, tokenAddress, tokenAmount });
 
-					// Wait 5 seconds before retrying
-					logger.info(`Waiting 5 seconds before retry attempt ${attempt + 1}`, { userId, tokenAddress });
-					await new Promise(resolve => setTimeout(resolve, 5000));
-				}
+			const tradingWalletAddress = await UserService.getTradingWalletAddress(userId);
+			if (!tradingWalletAddress) {
+				logger.error('No trading wallet found for auto-sell', { userId });
+				return { success: false };
 			}
 
-			logger.error('Auto-sell order failed after all retry attempts', {
-				userId, tokenAddress, percentage, sellAmount, maxRetries, lastError
-			});
-			return { success: false };
+			return await this.executeAutoSellSwap(userId, tokenAddress, tokenAmount, tradingWalletAddress, origin);
 
 		} catch (error) {
-			logger.error('Error in executeAutoSell', {
+			logger.error('Error in executeAutoSellAmount', {
 				error: error instanceof Error ? error.message : String(error),
 				userId,
 				tokenAddress,
-				percentage
+				tokenAmount
 			});
 			return { success: false };
 		}
 	}
+
+	/**
+	 * Sell tokens for BNB with the auto-trade retry policy
+	 */
+	private async executeAutoSellSwap(userId: number, tokenAddress: string, sellAmount: string, tradingWalletAddress: string, origin: TradeOrigin, percentage?: number): Promise<{ success: boolean; txHash?: string; tokensReceived?: string }> {
+		const slippage = resolveSlippage(await getTradingPreferences(userId), 20);
+
+		// Execute the sell order with retry logic (max 2 attempts)
+		const maxRetries = 2;
+		let lastError = '';
+
+		for (let attempt = 1; attempt <= maxRetries; attempt++) {
+			logger.info(`Auto-sell attempt ${attempt}/${maxRetries}`, { userId, tokenAddress, percentage, sellAmount });
+
+			const result = await this.executor.executeSwap(userId, {
+				tokenInAddress: tokenAddress,
+				tokenOutAddress: 'BNB',
+				amountIn: sellAmount,
+				slippage
+			});
+
+			if (result.success && result.txHash) {
+				// Invalidate DeFi cache to refresh balances
+				await this.invalidateDeFiCache(userId, tradingWalletAddress);
+				logger.info('Auto-sell order executed successfully', {
+					userId,
+					tokenAddress,
+					percentage,
+					sellAmount,
+					txHash: result.txHash,
+					attempt
+				});
+				await tradeJournal.recordTrade({
+					...origin,
+					userId,
+					walletAddress: tradingWalletAddress,
+					txHash: result.txHash,
+					side: 'sell',
+					tokenAddress,
+					expectedBnbAmount: result.tokensReceived
+				});
+				return { success: true, txHash: result.txHash, tokensReceived: result.tokensReceived };
+			} else {
+				lastError = result.error || 'Swap execution failed';
+				logger.error(`Auto-sell attempt ${attempt} failed`, {
+					userId,
+					tokenAddress,
+					percentage,
+					sellAmount,
+					error: lastError,
+					txHash: result.txHash
+				});
+
+				// If this was the last attempt, don't retry
+				if (attempt === maxRetries) {
+					break;
+				}
+
+				// Wait 5 seconds before retrying
+				logger.info(`Waiting 5 seconds before retry attempt ${attempt + 1}`, { userId, tokenAddress });
+				await new Promise(resolve => setTimeout(resolve, 5000));
+			}
+		}
+
+		logger.error('Auto-sell order failed after all retry attempts', {
+			userId, tokenAddress, percentage, sellAmount, maxRetries, lastError
+		});
+		return { success: false };
+	}
 }
\ No newline at end of file
@@ -0,0 +1,348 @@
+import { ethers } from 'ethers';
+import { TradeJournalModel, TradeJournalEntry, TradeSide, TradeSource } from '@/database/models/TradeJournal';
+import { getBNBPrice, getCachedTokenPrice } from '@/services/wallet/tokenPriceCache';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('trading.journal');
+
+const WBNB_ADDRESS = '0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c';
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const WBNB_WITHDRAWAL_TOPIC = ethers.id('Withdrawal(address,uint256)');
+
+export const TRADE_SOURCE_LABELS: Record<TradeSource, string> = {
+    manual: 'Manual',
+    quick_trade: 'Quick Trade',
+    auto_rule: 'Auto-Trade Rule',
+    dca: 'DCA',
+    limit_order: 'Limit Order',
+    copy_trade: 'Copy Trade',
+    rug_watch: 'Rug-Watch Sell'
+};
+
+/**
+ * Where a trade came from, passed down by whatever placed it
+ */
+export interface TradeOrigin {
+    source: TradeSource;
+    ruleId?: string;
+    trigger?: string;
+}
+
+export interface RecordTradeParams extends TradeOrigin {
+    userId: number;
+    walletAddress: string;
+    txHash: string;
+    side: TradeSide;
+    tokenAddress: string;
+    expectedBnbAmount?: string; // BNB sent for buys or quoted for sells, used when the receipt doesn't show it
+    receipt?: ethers.TransactionReceipt | null;
+}
+
+/**
+ * Fields of a journal entry the PnL calculation reads
+ */
+export type JournalTrade = Pick<TradeJournalEntry,
+    'side' | 'tokenAddress' | 'tokenSymbol' | 'tokenDecimals' | 'tokenAmountRaw' | 'bnbAmount' | 'bnbPriceUsd' | 'gasCostBnb' | 'source' | 'executedAt'>;
+
+export interface CurrentTokenPrice {
+    priceBnb: number;
+    bnbPriceUsd: number;
+}
+
+export interface PnlSummary {
+    realizedBnb: number;
+    realizedUsd: number;
+    unrealizedBnb: number;
+    unrealizedUsd: number;
+    openAmount: number; // Tokens still held from journaled buys
+    openCostBnb: number; // Cost basis of those tokens, gas included
+    boughtBnb: number;
+    soldBnb: number;
+    gasBnb: number;
+    trades: number;
+    unmatchedSellAmount: number; // Tokens sold that no journaled buy covers, left out of realized PnL
+    unpriced: boolean; // Some open tokens had no current price, so unrealized PnL is incomplete
+}
+
+export interface FifoPnlResult {
+    byToken: Record<string, PnlSummary & { symbol?: string }>;
+    byStrategy: Partial<Record<TradeSource, PnlSummary>>;
+    total: PnlSummary;
+}
+
+function emptySummary(): PnlSummary {
+    return {
+        realizedBnb: 0,
+        realizedUsd: 0,
+        unrealizedBnb: 0,
+        unrealizedUsd: 0,
+        openAmount: 0,
+        openCostBnb: 0,
+        boughtBnb: 0,
+        soldBnb: 0,
+        gasBnb: 0,
+        trades: 0,
+        unmatchedSellAmount: 0,
+        unpriced: false
+    };
+}
+
+/**
+ * Tokens and BNB a swap moved for the wallet, read from the receipt logs.
+ * Token amounts are what actually arrived or left, so transfer taxes are accounted for.
+ */
+export function extractSwapAmounts(
+    logs: ReadonlyArray<Pick<ethers.Log, 'address' | 'topics' | 'data'>>,
+    walletAddress: string,
+    tokenAddress: string,
+    side: TradeSide
+): { tokenAmountRaw: bigint; wbnbWithdrawn: bigint } {
+    const wallet = walletAddress.toLowerCase();
+    const token = tokenAddress.toLowerCase();
+    let tokenAmountRaw = 0n;
+    let wbnbWithdrawn = 0n;
+
+    for (const log of logs) {
+        const address = log.address.toLowerCase();
+        if (address === token && log.topics[0] === TRANSFER_TOPIC && log.topics.length >= 3) {
+            const from = ethers.getAddress(ethers.dataSlice(log.topics[1], 12)).toLowerCase();
+            const to = ethers.getAddress(ethers.dataSlice(log.topics[2], 12)).toLowerCase();
+            const value = BigInt(log.data);
+            if (side === 'buy' && to === wallet && from !== wallet) tokenAmountRaw += value;
+            if (side === 'sell' && from === wallet && to !== wallet) tokenAmountRaw += value;
+        } else if (address === WBNB_ADDRESS && log.topics[0] === WBNB_WITHDRAWAL_TOPIC) {
+            wbnbWithdrawn += BigInt(log.data);
+        }
+    }
+
+    return { tokenAmountRaw, wbnbWithdrawn };
+}
+
+/**
+ * Realised and unrealised PnL with FIFO lots per token.
+ * Gas is part of the cost basis for buys and comes off the proceeds for sells.
+ * Strategy PnL goes to the source that opened each lot, so a manual sell of
+ * DCA-bought tokens counts towards DCA.
+ */
+export function computeFifoPnl(trades: JournalTrade[], currentPrices: Record<string, CurrentTokenPrice | undefined> = {}): FifoPnlResult {
+    const result: FifoPnlResult = { byToken: {}, byStrategy: {}, total: emptySummary() };
+    const lotsByToken = new Map<string, Array<{ remaining: bigint; original: bigint; costBnb: number; costUsd: number; source: TradeSource }>>();
+
+    const tokenSummary = (trade: JournalTrade) => {
+        const key = trade.tokenAddress.toLowerCase();
+        result.byToken[key] ??= { ...emptySummary(), symbol: trade.tokenSymbol };
+        return result.byToken[key];
+    };
+    const strategySummary = (source: TradeSource) => (result.byStrategy[source] ??= emptySummary());
+    const forEachSummary = (trade: JournalTrade, source: TradeSource, update: (summary: PnlSummary) => void) => {
+        update(tokenSummary(trade));
+        update(strategySummary(source));
+        update(result.total);
+    };
+
+    const sorted = [...trades].sort((a, b) => a.executedAt.getTime() - b.executedAt.getTime());
+
+    for (const trade of sorted) {
+        const key = trade.tokenAddress.toLowerCase();
+        const lots = lotsByToken.get(key) || [];
+        lotsByToken.set(key, lots);
+        const amount = BigInt(trade.tokenAmountRaw);
+        const gas = trade.gasCostBnb || 0;
+
+        forEachSummary(trade, trade.source, summary => {
+            summary.trades++;
+            summary.gasBnb += gas;
+            if (trade.side === 'buy') summary.boughtBnb += trade.bnbAmount;
+            else summary.soldBnb += trade.bnbAmount;
+        });
+
+        if (amount <= 0n) continue;
+
+        if (trade.side === 'buy') {
+            const costBnb = trade.bnbAmount + gas;
+            lots.push({ remaining: amount, original: amount, costBnb, costUsd: costBnb * (trade.bnbPriceUsd || 0), source: trade.source });
+            continue;
+        }
+
+        const proceedsBnb = trade.bnbAmount - gas;
+        const proceedsUsd = proceedsBnb * (trade.bnbPriceUsd || 0);
+        let left = amount;
+
+        while (left > 0n && lots.length > 0) {
+            const lot = lots[0];
+            const matched = left < lot.remaining ? left : lot.remaining;
+            const sellShare = Number(matched) / Number(amount);
+            const lotShare = Number(matched) / Number(lot.original);
+
+            const realizedBnb = proceedsBnb * sellShare - lot.costBnb * lotShare;
+            const realizedUsd = proceedsUsd * sellShare - lot.costUsd * lotShare;
+            forEachSummary(trade, lot.source, summary => {
+                summary.realizedBnb += realizedBnb;
+                summary.realizedUsd += realizedUsd;
+            });
+
+            lot.remaining -= matched;
+            left -= matched;
+            if (lot.remaining === 0n) lots.shift();
+        }
+
+        if (left > 0n) {
+            const unmatched = parseFloat(ethers.formatUnits(left, trade.tokenDecimals));
+            forEachSummary(trade, trade.source, summary => {
+                summary.unmatchedSellAmount += unmatched;
+            });
+        }
+    }
+
+    for (const [key, lots] of lotsByToken) {
+        const price = currentPrices[key];
+        const decimals = sorted.find(trade => trade.tokenAddress.toLowerCase() === key)!.tokenDecimals;
+
+        for (const lot of lots) {
+            const amount = parseFloat(ethers.formatUnits(lot.remaining, decimals));
+            const lotShare = Number(lot.remaining) / Number(lot.original);
+            const costBnb = lot.costBnb * lotShare;
+            const costUsd = lot.costUsd * lotShare;
+
+            const apply = (summary: PnlSummary) => {
+                summary.openAmount += amount;
+                summary.openCostBnb += costBnb;
+                if (!price) {
+                    summary.unpriced = true;
+                    return;
+                }
+                const valueBnb = amount * price.priceBnb;
+                summary.unrealizedBnb += valueBnb - costBnb;
+                summary.unrealizedUsd += valueBnb * price.bnbPriceUsd - costUsd;
+            };
+
+            apply(result.byToken[key]);
+            apply(strategySummary(lot.source));
+            apply(result.total);
+        }
+    }
+
+    return result;
+}
+
+export class TradeJournalService {
+    private provider: ethers.JsonRpcProvider;
+
+    constructor() {
+        this.provider = new ethers.JsonRpcProvider(process.env.BSC_RPC_URL || 'https://bsc-dataseed1.binance.org/');
+    }
+
+    /**
+     * Store an executed swap. Never throws, a journal failure must not fail the trade.
+     */
+    async recordTrade(params: RecordTradeParams): Promise<void> {
+        try {
+            const receipt = params.receipt ?? await this.provider.getTransactionReceipt(params.txHash);
+            if (!receipt || receipt.status !== 1) {
+                logger.warn('Not journaling trade without a successful receipt', { txHash: params.txHash });
+                return;
+            }
+
+            const token = new ethers.Contract(params.tokenAddress, [
+                'function decimals() view returns (uint8)',
+                'function symbol() view returns (string)'
+            ], this.provider);
+            const [decimals, symbol, block, transaction, bnbPriceUsd] = await Promise.all([
+                token.decimals().then(Number).catch(() => 18),
+                token.symbol().catch(() => undefined),
+                this.provider.getBlock(receipt.blockNumber).catch(() => null),
+                params.side === 'buy' ? this.provider.getTransaction(params.txHash).catch(() => null) : Promise.resolve(null),
+                getBNBPrice().catch(() => 0)
+            ]);
+
+            const { tokenAmountRaw, wbnbWithdrawn } = extractSwapAmounts(receipt.logs, params.walletAddress, params.tokenAddress, params.side);
+            const expectedBnb = parseFloat(params.expectedBnbAmount || '0') || 0;
+            const bnbAmount = params.side === 'buy'
+                ? (transaction && transaction.value > 0n ? parseFloat(ethers.formatEther(transaction.value)) : expectedBnb)
+                : (wbnbWithdrawn > 0n ? parseFloat(ethers.formatEther(wbnbWithdrawn)) : expectedBnb);
+
+            const tokenAmount = parseFloat(ethers.formatUnits(tokenAmountRaw, decimals));
+            const priceBnb = tokenAmount > 0 ? bnbAmount / tokenAmount : 0;
+            const gasCost = receipt.gasUsed * (receipt.gasPrice ?? 0n);
+
+            await TradeJournalModel.updateOne(
+                { txHash: params.txHash },
+                {
+                    $setOnInsert: {
+                        telegramId: params.userId,
+                        walletAddress: params.walletAddress.toLowerCase(),
+                        txHash: params.txHash,
+                        blockNumber: receipt.blockNumber,
+                        executedAt: block ? new Date(block.timestamp * 1000) : new Date(),
+                        side: params.side,
+                        tokenAddress: params.tokenAddress.toLowerCase(),
+                        tokenSymbol: symbol,
+                        tokenDecimals: decimals,
+                        tokenAmountRaw: tokenAmountRaw.toString(),
+                        tokenAmount,
+                        bnbAmount,
+                        priceBnb,
+                        priceUsd: priceBnb * bnbPriceUsd,
+                        bnbPriceUsd,
+                        gasUsed: receipt.gasUsed.toString(),
+                        gasCostBnb: parseFloat(ethers.formatEther(gasCost)),
+                        source: params.source,
+                        ruleId: params.ruleId,
+                        trigger: params.trigger,
+                        createdAt: new Date(),
+                        updatedAt: new Date()
+                    }
+                },
+                { upsert: true }
+            );
+
+            logger.info('Trade journaled', {
+                userId: params.userId,
+                txHash: params.txHash,
+                side: params.side,
+                source: params.source,
+                tokenAmount,
+                bnbAmount
+            });
+        } catch (error) {
+            logger.error('Error journaling trade', {
+                error: error instanceof Error ? error.message : String(error),
+                userId: params.userId,
+                txHash: params.txHash
+            });
+        }
+    }
+
+    async getTrades(userId: number, options: { tokenAddress?: string; source?: TradeSource; limit?: number } = {}) {
+        const filter: Record<string, unknown> = { telegramId: userId };
+        if (options.tokenAddress) filter.tokenAddress = options.tokenAddress.toLowerCase();
+        if (options.source) filter.source = options.source;
+
+        const query = TradeJournalModel.find(filter).sort({ executedAt: -1 });
+        if (options.limit) query.limit(options.limit);
+        return query.lean();
+    }
+
+    /**
+     * FIFO PnL over every journaled trade of a user, with open positions valued at current prices
+     */
+    async getPnl(userId: number): Promise<FifoPnlResult> {
+        const trades = await TradeJournalModel.find({ telegramId: userId }).sort({ executedAt: 1 }).lean();
+        const tokens = [...new Set(trades.map(trade => trade.tokenAddress))];
+
+        const bnbPriceUsd = await getBNBPrice().catch(() => 0);
+        const currentPrices: Record<string, CurrentTokenPrice | undefined> = {};
+        if (bnbPriceUsd > 0) {
+            await Promise.all(tokens.map(async tokenAddress => {
+                const priceUsd = await getCachedTokenPrice(tokenAddress).catch(() => null);
+                if (priceUsd && priceUsd > 0) {
+                    currentPrices[tokenAddress] = { priceBnb: priceUsd / bnbPriceUsd, bnbPriceUsd };
+                }
+            }));
+        }
+
+        return computeFifoPnl(trades, currentPrices);
+    }
+}
+
+export const tradeJournal = new TradeJournalService();
@@ -0,0 +1,152 @@
+import { ethers } from 'ethers';
+import { UserModel } from '@/database/models/User';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('trading.preferences');
+
+export interface TradingPreferences {
+    slippagePercent?: number; // Unset uses the default of each trade path (5% manual, 20% automated)
+    maxGasPriceGwei?: number; // Unset means no cap
+    priorityFeeGwei: number; // Added on top of the suggested gas price
+    deadlineMinutes: number;
+    privateMempool: boolean; // Send signed transactions to PRIVATE_MEMPOOL_RPC_URL instead of the public mempool
+}
+
+export const DEFAULT_TRADING_PREFERENCES: TradingPreferences = {
+    priorityFeeGwei: 0,
+    deadlineMinutes: 20,
+    privateMempool: false
+};
+
+// Preset values offered in the settings menu
+export const TRADING_PREFERENCE_OPTIONS = {
+    slippage: [1, 3, 5, 10, 20],
+    maxGas: [3, 5, 10],
+    priority: [0, 0.5, 1, 3],
+    deadline: [5, 10, 20, 60]
+};
+
+export type TradingPreferenceField = keyof typeof TRADING_PREFERENCE_OPTIONS;
+
+/**
+ * A transaction that was broadcast, publicly or privately
+ */
+export interface SentTransaction {
+    hash: string;
+    wait(): Promise<ethers.TransactionReceipt | null>;
+}
+
+export function getPrivateRpcUrl(): string | undefined {
+    return process.env.PRIVATE_MEMPOOL_RPC_URL || undefined;
+}
+
+/**
+ * Load a user's trading preferences with defaults filled in
+ */
+export async function getTradingPreferences(userId: number): Promise<TradingPreferences> {
+    const user = await UserModel.findOne({ telegramId: userId })
+        .select('slippagePercent maxGasPriceGwei priorityFeeGwei tradeDeadlineMinutes privateMempool')
+        .lean();
+
+    return {
+        slippagePercent: user?.slippagePercent ?? undefined,
+        maxGasPriceGwei: user?.maxGasPriceGwei ?? undefined,
+        priorityFeeGwei: user?.priorityFeeGwei ?? DEFAULT_TRADING_PREFERENCES.priorityFeeGwei,
+        deadlineMinutes: user?.tradeDeadlineMinutes ?? DEFAULT_TRADING_PREFERENCES.deadlineMinutes,
+        privateMempool: user?.privateMempool ?? DEFAULT_TRADING_PREFERENCES.privateMempool
+    };
+}
+
+/**
+ * Turn a settings menu selection into a User update, or null if the value isn't allowed
+ */
+export function parsePreferenceUpdate(field: string, value: string): Record<string, number | null> | null {
+    const numeric = parseFloat(value);
+
+    switch (field) {
+        case 'slippage':
+            if (value === 'auto') return { slippagePercent: null };
+            return numeric > 0 && numeric <= 50 ? { slippagePercent: numeric } : null;
+        case 'maxGas':
+            if (value === 'off') return { maxGasPriceGwei: null };
+            return numeric >= 1 && numeric <= 1000 ? { maxGasPriceGwei: numeric } : null;
+        case 'priority':
+            return numeric >= 0 && numeric <= 100 ? { priorityFeeGwei: numeric } : null;
+        case 'deadline':
+            return Number.isInteger(numeric) && numeric >= 1 && numeric <= 24 * 60 ? { tradeDeadlineMinutes: numeric } : null;
+        default:
+            return null;
+    }
+}
+
+export function resolveSlippage(preferences: TradingPreferences, fallback: number): number {
+    return preferences.slippagePercent ?? fallback;
+}
+
+/**
+ * Deadline for a swap in unix seconds
+ */
+export function getSwapDeadline(preferences: TradingPreferences, now: number = Date.now()): number {
+    return Math.floor(now / 1000) + preferences.deadlineMinutes * 60;
+}
+
+/**
+ * Apply the priority fee and gas cap to the gas price the bot would otherwise use.
+ * Throws when the network itself is above the user's cap, since a capped transaction
+ * would never be mined.
+ */
+export function applyGasPreferences(networkGasPrice: bigint, suggestedGasPrice: bigint, preferences: TradingPreferences): bigint {
+    let gasPrice = suggestedGasPrice + ethers.parseUnits(String(preferences.priorityFeeGwei || 0), 'gwei');
+
+    if (preferences.maxGasPriceGwei) {
+        const maxGasPrice = ethers.parseUnits(String(preferences.maxGasPriceGwei), 'gwei');
+        if (networkGasPrice > maxGasPrice) {
+            throw new Error(`Network gas price ${ethers.formatUnits(networkGasPrice, 'gwei')} gwei is above your max of ${preferences.maxGasPriceGwei} gwei`);
+        }
+        if (gasPrice > maxGasPrice) {
+            gasPrice = maxGasPrice;
+        }
+    }
+
+    return gasPrice;
+}
+
+/**
+ * Whether the user changed anything that affects gas pricing
+ */
+export function hasGasPreferences(preferences: TradingPreferences): boolean {
+    return !!preferences.maxGasPriceGwei || preferences.priorityFeeGwei > 0;
+}
+
+/**
+ * Send a transaction with an ethers signer, through the private RPC when the user enabled it.
+ * Private transactions are not visible to the public RPC until they are mined, so the
+ * receipt is polled by hash instead of relying on the returned response.
+ */
+export async function sendTransactionWithPreferences(
+    signer: ethers.Wallet,
+    tx: ethers.TransactionRequest,
+    preferences: TradingPreferences
+): Promise<SentTransaction> {
+    const provider = signer.provider!;
+
+    if (hasGasPreferences(preferences)) {
+        const feeData = await provider.getFeeData();
+        const networkGasPrice = feeData.gasPrice ?? 0n;
+        tx = { ...tx, gasPrice: applyGasPreferences(networkGasPrice, networkGasPrice, preferences) };
+    }
+
+    const privateRpcUrl = getPrivateRpcUrl();
+    if (!preferences.privateMempool || !privateRpcUrl) {
+        const response = await signer.sendTransaction(tx);
+        return { hash: response.hash, wait: () => response.wait() };
+    }
+
+    const populated = await signer.populateTransaction(tx);
+    const signed = await signer.signTransaction(populated);
+    const privateProvider = new ethers.JsonRpcProvider(privateRpcUrl, 56, { staticNetwork: ethers.Network.from(56) });
+    const hash: string = await privateProvider.send('eth_sendRawTransaction', [signed]);
+
+    logger.info('Transaction sent to private mempool', { hash, from: signer.address });
+    return { hash, wait: () => provider.waitForTransaction(hash) };
+}
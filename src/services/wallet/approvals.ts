@@ -0,0 +1,221 @@
+import axios from 'axios';
+import { ethers } from 'ethers';
+import { hapiAddressRiskService } from '@/services/hapiLabs/addressRisk';
+import { getTradingPreferences, sendTransactionWithPreferences } from '@/services/trading/tradingPreferences';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('wallet.approvals');
+
+const MORALIS_APPROVALS_URL = 'https://deep-index.moralis.io/api/v2.2/wallets';
+const MAX_PAGES = 5; // 100 approvals per page
+const ALLOWANCE_BATCH_SIZE = 10;
+const REVOKE_RECEIPT_TIMEOUT_MS = 2 * 60 * 1000; // How long a revoke sent from the user's own wallet is waited for
+
+// Tokens with uint96 allowances (COMP-style) cap "unlimited" at 2^96 - 1
+const UNLIMITED_ALLOWANCE = 2n ** 96n - 1n;
+
+const ALLOWANCE_ABI = [
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)'
+];
+const allowanceInterface = new ethers.Interface(ALLOWANCE_ABI);
+
+export type ApprovalRiskRating = 'SAFE' | 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' | 'UNKNOWN';
+
+export interface TokenApproval {
+  tokenAddress: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  spender: string;
+  spenderLabel?: string; // Moralis address label or entity, e.g. "PancakeSwap: Router v2"
+  allowance: string; // Raw current allowance
+  allowanceFormatted: string;
+  isUnlimited: boolean;
+  usdAtRisk?: number; // Value the spender can move right now
+  spenderIsContract: boolean; // Approvals to plain wallets are a common phishing pattern
+  riskRating: ApprovalRiskRating; // HAPI Labs rating of the spender
+  riskCategory?: string;
+  approvedAt?: string;
+  txHash?: string;
+}
+
+/**
+ * An allowance counts as unlimited at the uint96 maximum or when it covers the whole supply
+ */
+export function isUnlimitedAllowance(allowance: bigint, totalSupply?: bigint): boolean {
+  return allowance >= UNLIMITED_ALLOWANCE || (!!totalSupply && totalSupply > 0n && allowance >= totalSupply);
+}
+
+/**
+ * Calldata for approve(spender, 0), used by every revoke path
+ */
+export function encodeRevokeData(spender: string): string {
+  return allowanceInterface.encodeFunctionData('approve', [spender, 0]);
+}
+
+/**
+ * Lists the live ERC-20 allowances of a wallet. Approvals come from Moralis and are re-checked
+ * on-chain, so allowances that were used up or revoked since are left out.
+ */
+export class ApprovalService {
+  private provider: ethers.JsonRpcProvider;
+
+  constructor() {
+    this.provider = new ethers.JsonRpcProvider(process.env.BSC_RPC_URL || 'https://bsc-dataseed1.binance.org/');
+  }
+
+  async getApprovals(walletAddress: string): Promise<TokenApproval[]> {
+    const records = await this.fetchApprovalRecords(walletAddress);
+
+    const approvals: TokenApproval[] = [];
+    for (let i = 0; i < records.length; i += ALLOWANCE_BATCH_SIZE) {
+      const batch = records.slice(i, i + ALLOWANCE_BATCH_SIZE);
+      const checked = await Promise.all(batch.map(record => this.checkApproval(walletAddress, record)));
+      approvals.push(...checked.filter((approval): approval is TokenApproval => approval !== null));
+    }
+
+    await this.rateSpenders(approvals);
+
+    // Most dangerous first: flagged spenders, then unlimited allowances, then value at risk
+    const riskOrder: ApprovalRiskRating[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'UNKNOWN', 'LOW', 'SAFE'];
+    return approvals.sort((a, b) =>
+      riskOrder.indexOf(a.riskRating) - riskOrder.indexOf(b.riskRating)
+      || Number(b.isUnlimited) - Number(a.isUnlimited)
+      || (b.usdAtRisk || 0) - (a.usdAtRisk || 0)
+    );
+  }
+
+  /**
+   * Set an allowance of the trading wallet to zero, with the user's gas and mempool preferences
+   */
+  async revokeFromTradingWallet(userId: number, tokenAddress: string, spender: string): Promise<string> {
+    const { UserService } = await import('../user');
+    const { getTradingWallet } = await import('./tradingWallet');
+
+    const tradingWalletData = await UserService.getTradingWalletData(userId);
+    if (!tradingWalletData) {
+      throw new Error('Trading wallet not found');
+    }
+
+    const wallet = getTradingWallet(tradingWalletData.encryptedPrivateKey, tradingWalletData.iv, this.provider);
+    const preferences = await getTradingPreferences(userId);
+    const sent = await sendTransactionWithPreferences(wallet, { to: tokenAddress, data: encodeRevokeData(spender) }, preferences);
+
+    const receipt = await sent.wait();
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`Revoke transaction failed: ${sent.hash}`);
+    }
+
+    logger.info('Revoked trading wallet approval', { userId, tokenAddress, spender, txHash: sent.hash });
+    return sent.hash;
+  }
+
+  /**
+   * Wait for a revoke the user sent from their own wallet. 'pending' when it wasn't mined in time.
+   */
+  async waitForRevoke(txHash: string): Promise<'confirmed' | 'failed' | 'pending'> {
+    try {
+      const receipt = await this.provider.waitForTransaction(txHash, 1, REVOKE_RECEIPT_TIMEOUT_MS);
+      if (!receipt) {
+        return 'pending';
+      }
+      return receipt.status === 1 ? 'confirmed' : 'failed';
+    } catch (error) {
+      if (ethers.isError(error, 'TIMEOUT')) {
+        return 'pending';
+      }
+      throw error;
+    }
+  }
+
+  private async fetchApprovalRecords(walletAddress: string): Promise<any[]> {
+    const apiKey = process.env.MORALIS_API_KEY;
+    if (!apiKey) {
+      throw new Error('MORALIS_API_KEY not found in environment variables');
+    }
+
+    const records: any[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const response = await axios.get(`${MORALIS_APPROVALS_URL}/${walletAddress}/approvals`, {
+        params: { chain: 'bsc', limit: 100, cursor },
+        headers: { accept: 'application/json', 'X-API-Key': apiKey },
+        timeout: 15000
+      });
+
+      records.push(...(response.data.result || []));
+      cursor = response.data.cursor;
+      if (!cursor) break;
+    }
+
+    return records;
+  }
+
+  private async checkApproval(walletAddress: string, record: any): Promise<TokenApproval | null> {
+    const tokenAddress: string | undefined = record.token?.address;
+    const spender: string | undefined = record.spender?.address;
+    if (!tokenAddress || !spender) {
+      return null;
+    }
+
+    const decimals = Number(record.token?.decimals ?? 18);
+    let allowance: bigint;
+    try {
+      const token = new ethers.Contract(tokenAddress, ALLOWANCE_ABI, this.provider);
+      allowance = await token.allowance(walletAddress, spender);
+    } catch (error) {
+      // Fall back to the indexed value when the token doesn't answer allowance()
+      logger.debug('Failed to read allowance on-chain', { tokenAddress, spender });
+      allowance = BigInt(record.value || 0);
+    }
+    if (allowance === 0n) {
+      return null;
+    }
+
+    let spenderIsContract = true;
+    try {
+      spenderIsContract = (await this.provider.getCode(spender)) !== '0x';
+    } catch {
+      // Assume a contract rather than raise a false alarm
+    }
+
+    const isUnlimited = isUnlimitedAllowance(allowance);
+    const usdAtRisk = record.token?.usd_at_risk ? Number(record.token.usd_at_risk) : undefined;
+
+    return {
+      tokenAddress: tokenAddress.toLowerCase(),
+      tokenSymbol: record.token?.symbol || 'Unknown',
+      tokenDecimals: decimals,
+      spender: spender.toLowerCase(),
+      spenderLabel: record.spender?.address_label || record.spender?.entity || undefined,
+      allowance: allowance.toString(),
+      allowanceFormatted: isUnlimited ? 'Unlimited' : ethers.formatUnits(allowance, decimals),
+      isUnlimited,
+      usdAtRisk: usdAtRisk !== undefined && !Number.isNaN(usdAtRisk) ? usdAtRisk : undefined,
+      spenderIsContract,
+      riskRating: 'UNKNOWN',
+      approvedAt: record.block_timestamp || undefined,
+      txHash: record.transaction_hash || undefined
+    };
+  }
+
+  private async rateSpenders(approvals: TokenApproval[]): Promise<void> {
+    if (!hapiAddressRiskService.isAvailable()) {
+      return;
+    }
+
+    const spenders = [...new Set(approvals.map(approval => approval.spender))];
+    const risks = await Promise.all(spenders.map(spender => hapiAddressRiskService.checkAddressRisk(spender, 'bsc')));
+    const riskBySpender = new Map(spenders.map((spender, index) => [spender, risks[index]]));
+
+    for (const approval of approvals) {
+      const risk = riskBySpender.get(approval.spender);
+      if (risk?.hasData) {
+        approval.riskRating = risk.riskLevel;
+        approval.riskCategory = risk.category;
+      }
+    }
+  }
+}
+
+export const approvalService = new ApprovalService();
@@ -89,8 +89,9 @@ export class WalletService {
 							// Register this topic as active
 							SignClientManager.registerTopic(user.walletConnectTopic!);
 
-							// Restore the session to memory
+							// Restore the session to memory, keeping any flow state loaded from the session store
 							this.userSessions.set(user.telegramId, {
+								...this.userSessions.get(user.telegramId),
 								client,
 								address,
 								provider: 'walletconnect'
@@ -222,7 +223,7 @@ export class WalletService {
 
 							// Clear expired session
 							await UserService.disconnectWallet(userId);
-							this.userSessions.set(userId, { client });
+							this.userSessions.set(userId, { ...existingSession, client });
 							return client;
 						}
 
@@ -232,6 +233,7 @@ export class WalletService {
 						SignClientManager.registerTopic(savedConnection.topic);
 
 						this.userSessions.set(userId, {
+							...existingSession,
 							client,
 							address,
 							provider: 'walletconnect'
@@ -301,7 +303,7 @@ export class WalletService {
 						await UserService.disconnectWallet(userId);
 
 						// Don't restore with invalid session data
-						this.userSessions.set(userId, { client });
+						this.userSessions.set(userId, { ...existingSession, client });
 
 						return client;
 					}
@@ -316,7 +318,7 @@ export class WalletService {
 				}
 			}
 
-			this.userSessions.set(userId, { client });
+			this.userSessions.set(userId, { ...existingSession, client });
 			return client;
 
 		} catch (error) {
@@ -932,12 +934,14 @@ export class WalletService {
 
 		// Get translations
 		const transferText = await getTranslation(ctx, 'wallet.transfer');
+		const approvalsText = await getTranslation(ctx, 'wallet.tokenApprovals');
 		const disconnectText = await getTranslation(ctx, 'wallet.disconnect');
 		const backText = await getTranslation(ctx, 'wallet.backToMenu');
 
 		const keyboard = {
 			inline_keyboard: [
 				[{ text: '' + transferText, callback_data: 'transfer_menu' }],
+				[{ text: approvalsText, callback_data: 'approvals_main' }],
 				[{ text: disconnectText, callback_data: 'disconnect_wallet' }],
 				[{ text: backText, callback_data: 'start_edit' }]
 			]
@@ -0,0 +1,295 @@
+import { ethers } from 'ethers';
+import { TransactionDecoder, DecodedTransaction, TransactionType, RiskLevel } from '@/services/rpc/transactionDecoder';
+import { hapiAddressRiskService } from '@/services/hapiLabs/addressRisk';
+import { getTokenInfo } from './tokenInfoCache';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('wallet.preflight');
+
+const ERC20_INTERFACE = new ethers.Interface([
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function approve(address spender, uint256 amount) returns (bool)'
+]);
+
+const RISK_ORDER: RiskLevel[] = [RiskLevel.LOW, RiskLevel.MEDIUM, RiskLevel.HIGH, RiskLevel.VERY_HIGH];
+
+/**
+ * A transaction as it is sent to the user's wallet over WalletConnect (hex quantities)
+ */
+export interface WalletTransactionRequest {
+  from: string;
+  to: string;
+  value?: string;
+  data?: string;
+}
+
+export interface BalanceChange {
+  asset: string;
+  tokenAddress?: string;
+  amount: string;
+  direction: 'in' | 'out';
+  kind: 'exact' | 'minimum' | 'estimate';
+}
+
+export interface TransactionSimulation {
+  simulated: boolean; // False when the RPC could not run the simulation at all
+  success: boolean;
+  revertReason?: string;
+  error?: string;
+  gasEstimate?: string;
+  gasCostBnb?: string;
+}
+
+export interface PreflightResult {
+  summary: string; // Plain-language description of what the transaction does
+  decoded: DecodedTransaction;
+  simulation: TransactionSimulation;
+  balanceChanges: BalanceChange[];
+  risk: RiskLevel;
+  warnings: string[];
+  requiresConfirmation: boolean;
+}
+
+/**
+ * HIGH and VERY_HIGH transactions are only sent after the user confirms them in the bot
+ */
+export function requiresExplicitConfirmation(risk: RiskLevel): boolean {
+  return risk === RiskLevel.HIGH || risk === RiskLevel.VERY_HIGH;
+}
+
+function raiseRisk(current: RiskLevel, floor: RiskLevel): RiskLevel {
+  return RISK_ORDER.indexOf(floor) > RISK_ORDER.indexOf(current) ? floor : current;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+// Symbols come from token contracts and can break Markdown
+function escapeMarkdown(text: string): string {
+  return text.replace(/[*_`[\]]/g, '');
+}
+
+function formatAmount(value: string): string {
+  const amount = Number(value);
+  if (!Number.isFinite(amount)) return value;
+  return amount.toLocaleString(undefined, { maximumFractionDigits: 6 });
+}
+
+/**
+ * Decodes and simulates a transaction before the bot asks the user to sign it, so the
+ * user sees what it does, what it will cost and how risky it is before their wallet prompts.
+ */
+export class TransactionPreflightService {
+  private provider: ethers.Provider;
+  private decoder: TransactionDecoder | null = null;
+
+  constructor(provider?: ethers.Provider) {
+    this.provider = provider || new ethers.JsonRpcProvider(process.env.BSC_RPC_URL || 'https://bsc-dataseed1.binance.org/');
+  }
+
+  async check(tx: WalletTransactionRequest): Promise<PreflightResult> {
+    const to = ethers.getAddress(tx.to);
+    const value = tx.value ? BigInt(tx.value) : 0n;
+    const data = tx.data || '0x';
+
+    const [decoded, simulation] = await Promise.all([
+      this.getDecoder().decodeTransaction({ to, data, value }),
+      this.simulate(tx.from, to, value, data)
+    ]);
+
+    const warnings: string[] = [];
+    let risk = decoded.risk || RiskLevel.MEDIUM;
+    let summary: string;
+    const balanceChanges: BalanceChange[] = [];
+
+    const erc20Call = decoded.tags?.includes('erc20') ? this.parseERC20Call(data) : null;
+
+    if (decoded.type === TransactionType.NATIVE_TRANSFER) {
+      const amount = ethers.formatEther(value);
+      summary = `Send ${formatAmount(amount)} BNB to \`${shortAddress(to)}\``;
+      balanceChanges.push({ asset: 'BNB', amount, direction: 'out', kind: 'exact' });
+    } else if (erc20Call?.name === 'transfer') {
+      const token = await this.getToken(to);
+      const amount = ethers.formatUnits(erc20Call.amount, token.decimals);
+      summary = `Send ${formatAmount(amount)} ${escapeMarkdown(token.symbol)} to \`${shortAddress(erc20Call.target)}\``;
+      balanceChanges.push({ asset: token.symbol, tokenAddress: to, amount, direction: 'out', kind: 'exact' });
+    } else if (erc20Call?.name === 'approve') {
+      const token = await this.getToken(to);
+      if (erc20Call.amount === 0n) {
+        // Revoking can only reduce what a spender is able to move
+        summary = `Revoke the ${escapeMarkdown(token.symbol)} allowance of \`${shortAddress(erc20Call.target)}\``;
+        risk = RiskLevel.LOW;
+      } else {
+        const unlimited = erc20Call.amount >= 2n ** 96n - 1n;
+        const amount = unlimited ? 'an unlimited amount of' : formatAmount(ethers.formatUnits(erc20Call.amount, token.decimals));
+        summary = `Allow \`${shortAddress(erc20Call.target)}\` to spend ${amount} ${escapeMarkdown(token.symbol)} from your wallet`;
+        if (unlimited) {
+          warnings.push('Unlimited approval: the spender can move all of this token at any time until you revoke it');
+          risk = raiseRisk(risk, RiskLevel.HIGH);
+        }
+        if ((await this.provider.getCode(erc20Call.target).catch(() => '0x00')) === '0x') {
+          warnings.push('The spender is a plain wallet, not a contract. This is a common phishing pattern');
+          risk = raiseRisk(risk, RiskLevel.HIGH);
+        }
+        risk = await this.applyAddressRisk(erc20Call.target, 'spender', risk, warnings);
+      }
+    } else if (decoded.type === TransactionType.DEX_SWAP) {
+      summary = `Swap ${formatAmount(decoded.amountIn || '0')} ${escapeMarkdown(decoded.tokenIn || '?')} for ${escapeMarkdown(decoded.tokenOut || '?')} on ${decoded.contractName}`;
+      balanceChanges.push({ asset: decoded.tokenIn || '?', amount: decoded.amountIn || '0', direction: 'out', kind: 'exact' });
+      balanceChanges.push({ asset: decoded.tokenOut || '?', tokenAddress: decoded.tokenAddress, amount: decoded.amountMin || '0', direction: 'in', kind: 'minimum' });
+      if (decoded.recipient && decoded.recipient.toLowerCase() !== tx.from.toLowerCase()) {
+        warnings.push(`Swap output goes to \`${shortAddress(decoded.recipient)}\`, not to your wallet`);
+        risk = raiseRisk(risk, RiskLevel.HIGH);
+      }
+    } else {
+      const target = decoded.contractName && decoded.contractName !== 'Unknown Contract' ? decoded.contractName : `\`${shortAddress(to)}\``;
+      summary = `Call ${decoded.functionName && decoded.functionName !== 'unknown' ? `\`${decoded.functionName}\`` : 'an unknown function'} on ${target}`;
+      if (value > 0n) {
+        balanceChanges.push({ asset: 'BNB', amount: ethers.formatEther(value), direction: 'out', kind: 'exact' });
+      }
+      if (decoded.type === TransactionType.UNKNOWN) {
+        warnings.push('The bot could not decode this call. Only sign it if you know what it does');
+      }
+    }
+
+    if (decoded.type === TransactionType.NATIVE_TRANSFER || erc20Call?.name === 'transfer') {
+      risk = await this.applyAddressRisk(erc20Call?.target || to, 'recipient', risk, warnings);
+    } else if (!erc20Call) {
+      risk = await this.applyAddressRisk(to, 'contract', risk, warnings);
+    }
+
+    if (simulation.gasCostBnb) {
+      balanceChanges.push({ asset: 'BNB', amount: simulation.gasCostBnb, direction: 'out', kind: 'estimate' });
+    }
+    if (!simulation.simulated) {
+      warnings.unshift(`Simulation unavailable${simulation.error ? ` (${escapeMarkdown(simulation.error)})` : ''}. The bot could not check whether this transaction succeeds or what it costs`);
+      risk = raiseRisk(risk, RiskLevel.MEDIUM);
+    } else if (!simulation.success) {
+      warnings.unshift(`Simulation failed${simulation.revertReason ? `: ${escapeMarkdown(simulation.revertReason)}` : ''}. The transaction will most likely revert and still cost gas`);
+      risk = raiseRisk(risk, RiskLevel.HIGH);
+    }
+
+    logger.info('Pre-flight check complete', { from: tx.from, to, type: decoded.type, risk, simulated: simulation.simulated, simulationSucceeded: simulation.success });
+
+    return {
+      summary,
+      decoded,
+      simulation,
+      balanceChanges,
+      risk,
+      warnings,
+      requiresConfirmation: requiresExplicitConfirmation(risk)
+    };
+  }
+
+  private getDecoder(): TransactionDecoder {
+    if (!this.decoder) {
+      this.decoder = new TransactionDecoder();
+    }
+    return this.decoder;
+  }
+
+  private async simulate(from: string, to: string, value: bigint, data: string): Promise<TransactionSimulation> {
+    try {
+      await this.provider.call({ from, to, value, data });
+      const gasEstimate = await this.provider.estimateGas({ from, to, value, data });
+      const feeData = await this.provider.getFeeData();
+      return {
+        simulated: true,
+        success: true,
+        gasEstimate: gasEstimate.toString(),
+        gasCostBnb: feeData.gasPrice ? ethers.formatEther(gasEstimate * feeData.gasPrice) : undefined
+      };
+    } catch (error: any) {
+      if (error?.code === 'CALL_EXCEPTION' || error?.code === 'INSUFFICIENT_FUNDS') {
+        return { simulated: true, success: false, revertReason: error.reason || error.shortMessage };
+      }
+      // RPC trouble says nothing about the transaction itself, so it is neither passed nor failed
+      logger.warn('Pre-flight simulation unavailable', { from, to, error: error instanceof Error ? error.message : String(error) });
+      return { simulated: false, success: false, error: error?.shortMessage || 'RPC error' };
+    }
+  }
+
+  private parseERC20Call(data: string): { name: 'transfer' | 'approve'; target: string; amount: bigint } | null {
+    try {
+      const parsed = ERC20_INTERFACE.parseTransaction({ data });
+      if (!parsed) return null;
+      return { name: parsed.name as 'transfer' | 'approve', target: parsed.args[0], amount: parsed.args[1] };
+    } catch {
+      return null;
+    }
+  }
+
+  private async getToken(address: string): Promise<{ symbol: string; decimals: number }> {
+    const info = await getTokenInfo(address, this.provider).catch(() => null);
+    return { symbol: info?.symbol || shortAddress(address), decimals: info?.decimals ?? 18 };
+  }
+
+  private async applyAddressRisk(address: string, role: 'recipient' | 'spender' | 'contract', risk: RiskLevel, warnings: string[]): Promise<RiskLevel> {
+    if (!hapiAddressRiskService.isAvailable()) {
+      return risk;
+    }
+
+    try {
+      const result = await hapiAddressRiskService.checkAddressRisk(address, 'bsc');
+      if (result.hasData && (result.riskLevel === 'HIGH' || result.riskLevel === 'CRITICAL')) {
+        warnings.push(`The ${role} is flagged by HAPI Labs as ${result.category} (risk ${result.risk}/10)`);
+        return raiseRisk(risk, result.riskLevel === 'CRITICAL' ? RiskLevel.VERY_HIGH : RiskLevel.HIGH);
+      }
+    } catch (error) {
+      logger.debug('HAPI Labs check failed during pre-flight', { address, error });
+    }
+    return risk;
+  }
+}
+
+/**
+ * Stand-in report for when the pre-flight check itself fails, so the user is told the
+ * transaction was not checked instead of the signing request failing
+ */
+export function unverifiedPreflight(tx: WalletTransactionRequest): PreflightResult {
+  const risk = RiskLevel.MEDIUM;
+  return {
+    summary: `Transaction to \`${shortAddress(tx.to)}\``,
+    decoded: { type: TransactionType.UNKNOWN },
+    simulation: { simulated: false, success: false },
+    balanceChanges: [],
+    risk,
+    warnings: ['The bot could not decode or simulate this transaction. Only sign it if you know what it does'],
+    requiresConfirmation: requiresExplicitConfirmation(risk)
+  };
+}
+
+/**
+ * Markdown block shown above every WalletConnect signing request
+ */
+export function formatPreflightReport(result: PreflightResult): string {
+  const riskEmoji: Record<RiskLevel, string> = {
+    [RiskLevel.LOW]: '🟢',
+    [RiskLevel.MEDIUM]: '🟡',
+    [RiskLevel.HIGH]: '🟠',
+    [RiskLevel.VERY_HIGH]: '🔴'
+  };
+
+  let report = `🔎 *Pre-flight Check*\n${result.summary}\n`;
+
+  if (result.balanceChanges.length > 0) {
+    report += `\n*Expected balance changes:*\n`;
+    for (const change of result.balanceChanges) {
+      const sign = change.direction === 'out' ? '−' : '+';
+      const qualifier = change.kind === 'minimum' ? 'at least ' : change.kind === 'estimate' ? '~' : '';
+      const note = change.kind === 'estimate' ? ' (gas)' : '';
+      report += `  ${sign} ${qualifier}${formatAmount(change.amount)} ${escapeMarkdown(change.asset)}${note}\n`;
+    }
+  }
+
+  report += `\nRisk: ${riskEmoji[result.risk]} *${result.risk.replace('_', ' ')}*\n`;
+  for (const warning of result.warnings) {
+    report += `⚠️ ${warning}\n`;
+  }
+
+  return report;
+}
+
+export const transactionPreflightService = new TransactionPreflightService();
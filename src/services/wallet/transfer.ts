@@ -14,6 +14,7 @@ import {
   getMultipleTokenBalances,
   executeERC20Transfer
 } from './erc20Transfer';
+import { transactionPreflightService, formatPreflightReport, unverifiedPreflight } from './preflight';
 
 const logger = createLogger('wallet.transfer');
 
@@ -22,8 +23,9 @@ export class TransferService {
    * Handle token transfer from main wallet to trading wallet
    * Supports both WalletConnect and web frontend connections
    * Supports both native BNB and ERC20 tokens
+   * preflightConfirmed is set once the user has accepted a HIGH risk pre-flight check
    */
-  async handleTransferToTrading(ctx: Context, amount: string, backCallback?: string) {
+  async handleTransferToTrading(ctx: Context, amount: string, backCallback?: string, preflightConfirmed: boolean = false) {
     const userId = ctx.from!.id;
     const session = global.userSessions.get(userId);
     const finalBackCallback = backCallback || session?.transfer?.backCallback || 'wallet_info';
@@ -34,7 +36,7 @@ export class TransferService {
     // Check if user has an active WalletConnect session
     if (session?.client && session?.address) {
       // Execute WalletConnect flow
-      await this.handleWalletConnectTransfer(ctx, amount, session, finalBackCallback, selectedToken);
+      await this.handleWalletConnectTransfer(ctx, amount, session, finalBackCallback, selectedToken, preflightConfirmed);
     } else {
       // Execute web frontend flow - generate task link
       await this.handleWebFrontendTransfer(ctx, amount, finalBackCallback, selectedToken);
@@ -44,7 +46,7 @@ export class TransferService {
   /**
    * Handle transfer via WalletConnect session
    */
-  private async handleWalletConnectTransfer(ctx: Context, amount: string, session: any, backCallback: string, tokenInfo: TokenInfo) {
+  private async handleWalletConnectTransfer(ctx: Context, amount: string, session: any, backCallback: string, tokenInfo: TokenInfo, preflightConfirmed: boolean) {
     const userId = ctx.from!.id;
     logger.info('Executing transfer via WalletConnect session', { userId, token: tokenInfo.symbol });
 
@@ -121,11 +123,38 @@ export class TransferService {
         logger.warn('Session validation error, proceeding with transaction', { error });
       }
 
-      const processingMessage =
+      const transferDetails =
         `📤 *Transfer ${tokenInfo.symbol} to Trading Wallet*\n\n` +
         `Amount: ${amount} ${tokenInfo.symbol}\n` +
         `From: \`${session.address.slice(0, 6)}...${session.address.slice(-4)}\`\n` +
-        `To: \`${tradingWalletAddress.slice(0, 6)}...${tradingWalletAddress.slice(-4)}\`\n\n` +
+        `To: \`${tradingWalletAddress.slice(0, 6)}...${tradingWalletAddress.slice(-4)}\`\n\n`;
+
+      // Decode and simulate before the wallet prompt; HIGH risk needs an explicit confirmation first
+      const preflight = await transactionPreflightService.check(tx).catch(error => {
+        logger.warn('Pre-flight check failed, sending the transfer unverified', { userId, error });
+        return unverifiedPreflight(tx);
+      });
+      if (preflight.requiresConfirmation && !preflightConfirmed) {
+        session.pendingTransfer = { amount, direction: 'to_trading', token: tokenInfo, backCallback };
+
+        const confirmMessage = transferDetails + formatPreflightReport(preflight) + '\n' +
+          await getTranslation(ctx, 'transfer.highRiskConfirm');
+        const confirmKeyboard = {
+          inline_keyboard: [
+            [{ text: await getTranslation(ctx, 'transfer.signAnyway'), callback_data: 'transfer_preflight_confirm' }],
+            [{ text: await getTranslation(ctx, 'common.cancel'), callback_data: backCallback }]
+          ]
+        };
+
+        if (ctx.callbackQuery?.message) {
+          await ctx.editMessageText(confirmMessage, { parse_mode: 'Markdown', reply_markup: confirmKeyboard });
+        } else {
+          await ctx.reply(confirmMessage, { parse_mode: 'Markdown', reply_markup: confirmKeyboard });
+        }
+        return;
+      }
+
+      const processingMessage = transferDetails + formatPreflightReport(preflight) + '\n' +
         `⏳ Please confirm the transaction in your wallet...`;
 
       if (ctx.callbackQuery?.message) {
@@ -256,14 +256,14 @@ export class WalletTrackingService {
 			}
 
 			let message = '📋 **Manage Tracked Wallets**\n\n';
-			message += 'Select a wallet to manage:\n\n';
+			message += 'Select a wallet to manage its copy-trading settings:\n\n';
 
 			const buttons = [];
 			for (const wallet of trackedWallets.slice(0, 8)) { // Show up to 8 wallets
 				const shortAddress = `${wallet.walletAddress.slice(0, 6)}...${wallet.walletAddress.slice(-4)}`;
 				const alias = wallet.alias ? ` (${wallet.alias})` : '';
 				buttons.push([Markup.button.callback(
-					`${shortAddress}${alias} - ${wallet.transactionCount} txns`,
+					`${wallet.copyTradeEnabled ? '🪞 ' : ''}${shortAddress}${alias} - ${wallet.transactionCount} txns`,
 					`manage_wallet_${wallet._id}`
 				)]);
 			}
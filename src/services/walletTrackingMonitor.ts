@@ -1,5 +1,7 @@
 import { WebSocketService } from './rpc/websocketService';
 import { WalletTrackingService } from './walletTracking';
+import { CopyTradeService } from './copyTrade/copyTradeService';
+import { TransactionType } from './rpc/transactionDecoder';
 import { createLogger } from '@/utils/logger';
 import { ethers } from 'ethers';
 
@@ -168,6 +170,7 @@ export class WalletTrackingMonitor {
                     contractName: decoded.contractName,
                     tokenIn: decoded.tokenIn,
                     tokenOut: decoded.tokenOut,
+                    tokenAddress: decoded.tokenAddress,
                     amountIn: decoded.amountIn,
                     amountOut: decoded.amountOut,
                     recipient: decoded.recipient, // Include the recipient in decoded data
@@ -190,6 +193,21 @@ export class WalletTrackingMonitor {
                 await WalletTrackingService.notifyWalletTransaction(involvedWallet, enhancedTransaction);
             }
 
+            // Mirror swaps made by a tracked wallet for watchers with copy-trading enabled
+            if (fromAddress && involvedWallets.includes(fromAddress) && decoded.type === TransactionType.DEX_SWAP && decoded.tokenAddress) {
+                const side = decoded.tokenIn === 'BNB' ? 'buy' : decoded.tokenOut === 'BNB' ? 'sell' : null;
+                if (side && decoded.amountIn) {
+                    await CopyTradeService.handleSourceTrade({
+                        sourceWallet: fromAddress,
+                        txHash: tx.hash,
+                        side,
+                        tokenAddress: decoded.tokenAddress.toLowerCase(),
+                        tokenSymbol: side === 'buy' ? decoded.tokenOut : decoded.tokenIn,
+                        amount: decoded.amountIn
+                    });
+                }
+            }
+
         } catch (error) {
             logger.error('Error handling tracked wallet transaction', { 
                 error, 
@@ -7,7 +7,8 @@ import { RugAlertsService } from '../services/rugAlerts';
 import { NotificationScheduler } from '../services/notifications/scheduler';
 import { WebSocketService } from '../services/rpc/websocketService';
 import { WalletTrackingMonitor } from '../services/walletTrackingMonitor';
-import { UserSession } from '../types';
+import { SessionStore } from '../services/session/sessionStore';
+import { createSessionBackend } from '../services/session/backends';
 import { setupCommands } from './handlers/commands';
 import { setupCallbacks } from './handlers/callbacks';
 import { setupMessages } from './handlers/messages';
@@ -24,7 +25,7 @@ export class TelegramBot {
 	private notificationScheduler: NotificationScheduler;
 	private webSocketService: WebSocketService;
 	private walletTrackingMonitor: WalletTrackingMonitor;
-	private userSessions: Map<number, UserSession>;
+	private userSessions: SessionStore;
 
 	// Getter to expose the bot instance
 	public getBot(): Telegraf {
@@ -35,7 +36,7 @@ export class TelegramBot {
 		this.bot = new Telegraf(process.env.TELEGRAM_BOT_TOKEN!, {
 			handlerTimeout: 900000, // 15 minutes timeout
 		});
-		this.userSessions = new Map();
+		this.userSessions = new SessionStore(createSessionBackend());
 
 		// Initialize services
 		this.walletService = new WalletService(this.userSessions);
@@ -57,6 +58,17 @@ export class TelegramBot {
 	}
 
 	private setupHandlers() {
+		// Persist the session after every update so in-place changes survive a redeploy
+		this.bot.use(async (ctx, next) => {
+			try {
+				await next();
+			} finally {
+				if (ctx.from?.id) {
+					void this.userSessions.flush(ctx.from.id);
+				}
+			}
+		});
+
 		setupCommands(this.bot, this.walletService);
 		setupCallbacks(
 			this.bot,
@@ -107,6 +119,15 @@ export class TelegramBot {
 				logger.error('Failed to cleanup WalletConnect data', { error });
 			}
 
+			// Load persisted sessions before wallet restoration so half-finished flows are kept
+			logger.info('Loading persisted user sessions...');
+			try {
+				const restoredSessions = await this.userSessions.hydrate();
+				logger.info(`Loaded ${restoredSessions} persisted user sessions`, { backend: this.userSessions.backendName });
+			} catch (error) {
+				logger.error('Failed to load persisted user sessions', { error });
+			}
+
 			// Restore wallet sessions
 			logger.info('Restoring wallet sessions...');
 			try {
@@ -157,6 +178,76 @@ export class TelegramBot {
 				logger.error('Failed to initialize leaderboard scheduler', { error });
 			}
 
+			// Initialize DCA scheduler
+			logger.info('Initializing DCA scheduler...');
+			try {
+				const { DcaScheduler } = await import('../services/dca/scheduler');
+				DcaScheduler.start();
+				logger.info('DCA scheduler has been initialized');
+			} catch (error) {
+				logger.error('Failed to initialize DCA scheduler', { error });
+			}
+
+			// Initialize rug-watch
+			logger.info('Initializing rug-watch...');
+			try {
+				const { RugWatchService } = await import('../services/rugAlerts/rugWatch');
+				RugWatchService.start();
+				logger.info('Rug-watch has been initialized');
+			} catch (error) {
+				logger.error('Failed to initialize rug-watch', { error });
+			}
+
+			// Initialize LP unlock alerts
+			logger.info('Initializing LP unlock alerts...');
+			try {
+				const { LpUnlockAlertService } = await import('../services/rugAlerts/lpUnlockAlerts');
+				LpUnlockAlertService.start();
+				logger.info('LP unlock alerts have been initialized');
+			} catch (error) {
+				logger.error('Failed to initialize LP unlock alerts', { error });
+			}
+
+			// Initialize Honey deposit watcher
+			logger.info('Initializing Honey deposit watcher...');
+			try {
+				const { HoneyDepositWatcher } = await import('../services/honey/depositWatcher');
+				HoneyDepositWatcher.start();
+				logger.info('Honey deposit watcher has been initialized');
+			} catch (error) {
+				logger.error('Failed to initialize Honey deposit watcher', { error });
+			}
+
+			// Initialize Honey purchase reconciler
+			logger.info('Initializing Honey purchase reconciler...');
+			try {
+				const { HoneyPurchaseReconciler } = await import('../services/honey/purchaseReconciler');
+				HoneyPurchaseReconciler.start();
+				logger.info('Honey purchase reconciler has been initialized');
+			} catch (error) {
+				logger.error('Failed to initialize Honey purchase reconciler', { error });
+			}
+
+			// Initialize Honey plan renewals
+			logger.info('Initializing Honey plan renewals...');
+			try {
+				const { HoneySubscriptionService } = await import('../services/honey/subscriptions');
+				HoneySubscriptionService.start();
+				logger.info('Honey plan renewals have been initialized');
+			} catch (error) {
+				logger.error('Failed to initialize Honey plan renewals', { error });
+			}
+
+			// Initialize referral payout runs
+			logger.info('Initializing referral payout runs...');
+			try {
+				const { ReferralPayoutService } = await import('../services/referralPayouts');
+				ReferralPayoutService.start();
+				logger.info('Referral payout runs have been initialized');
+			} catch (error) {
+				logger.error('Failed to initialize referral payout runs', { error });
+			}
+
 			logger.info('Bot background services initialization completed');
 			
 			// --- Step 3: Finally, start the bot message polling ---
@@ -224,6 +315,77 @@ export class TelegramBot {
 			logger.error('Failed to stop leaderboard scheduler', { error });
 		}
 		
+		// Stop DCA scheduler
+		try {
+			const { DcaScheduler } = await import('../services/dca/scheduler');
+			DcaScheduler.stop();
+			logger.info('DCA scheduler has been stopped');
+		} catch (error) {
+			logger.error('Failed to stop DCA scheduler', { error });
+		}
+		
+		// Stop rug-watch
+		try {
+			const { RugWatchService } = await import('../services/rugAlerts/rugWatch');
+			RugWatchService.stop();
+			logger.info('Rug-watch has been stopped');
+		} catch (error) {
+			logger.error('Failed to stop rug-watch', { error });
+		}
+		
+		// Stop LP unlock alerts
+		try {
+			const { LpUnlockAlertService } = await import('../services/rugAlerts/lpUnlockAlerts');
+			LpUnlockAlertService.stop();
+			logger.info('LP unlock alerts have been stopped');
+		} catch (error) {
+			logger.error('Failed to stop LP unlock alerts', { error });
+		}
+		
+		// Stop Honey deposit watcher
+		try {
+			const { HoneyDepositWatcher } = await import('../services/honey/depositWatcher');
+			HoneyDepositWatcher.stop();
+			logger.info('Honey deposit watcher has been stopped');
+		} catch (error) {
+			logger.error('Failed to stop Honey deposit watcher', { error });
+		}
+		
+		// Stop Honey purchase reconciler
+		try {
+			const { HoneyPurchaseReconciler } = await import('../services/honey/purchaseReconciler');
+			HoneyPurchaseReconciler.stop();
+			logger.info('Honey purchase reconciler has been stopped');
+		} catch (error) {
+			logger.error('Failed to stop Honey purchase reconciler', { error });
+		}
+		
+		// Stop Honey plan renewals
+		try {
+			const { HoneySubscriptionService } = await import('../services/honey/subscriptions');
+			HoneySubscriptionService.stop();
+			logger.info('Honey plan renewals have been stopped');
+		} catch (error) {
+			logger.error('Failed to stop Honey plan renewals', { error });
+		}
+		
+		// Stop referral payout runs
+		try {
+			const { ReferralPayoutService } = await import('../services/referralPayouts');
+			ReferralPayoutService.stop();
+			logger.info('Referral payout runs have been stopped');
+		} catch (error) {
+			logger.error('Failed to stop referral payout runs', { error });
+		}
+		
+		// Make sure pending session writes land before the process exits
+		try {
+			await this.userSessions.flushAll();
+			logger.info('User sessions have been flushed');
+		} catch (error) {
+			logger.error('Failed to flush user sessions', { error });
+		}
+		
 		this.bot.stop(signal);
 	}
 
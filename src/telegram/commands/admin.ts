@@ -0,0 +1,175 @@
+import { Context } from 'telegraf';
+import { AdminService, isAdmin } from '@/services/admin';
+import { KeeperRole } from '@/services/keeper';
+import { ReferralPayoutService } from '@/services/referralPayouts';
+import type { AdminActor } from '@/database/models/AdminAuditLog';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('admin.command');
+
+// Sent with Markdown parse mode, so anything with underscores stays inside code spans
+export const ADMIN_USAGE = [
+  '🛠 *Admin Commands*',
+  '',
+  '`/admin user <id>` - balances, role and referral settings',
+  '`/admin grant <id> <amount> [reason]` - add Honey',
+  '`/admin revoke <id> <amount> [reason]` - remove Honey',
+  '`/admin role <id> <role|auto>` - pin a role, or back to automatic upgrades',
+  '`/admin referral <id> <tier1> <tier2> <tier3>` - custom referral percentages',
+  '`/admin discount <id> <percent> [days]` - set a discount, 0 removes it',
+  '`/admin ledger <id> [count]` - Honey transactions, newest first',
+  '`/admin audit [id]` - recent admin actions',
+  '`/admin payouts` - referral payout queue and reconciliation',
+  '',
+  `Roles: ${Object.values(KeeperRole).map(role => `\`${role}\``).join(', ')}`
+].join('\n');
+
+function parseTelegramId(value: string | undefined): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function formatDate(date: Date | undefined): string {
+  return date ? new Date(date).toISOString().replace('T', ' ').slice(0, 16) : '-';
+}
+
+/**
+ * /admin <subcommand> ..., only for Telegram IDs listed in ADMIN_TELEGRAM_IDS
+ */
+export async function handleAdminCommand(ctx: Context): Promise<void> {
+  const telegramId = ctx.from?.id;
+  if (!isAdmin(telegramId)) {
+    // Behave like an unknown command for everyone else
+    logger.warn('Admin command from non-admin user', { telegramId });
+    return;
+  }
+
+  const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+  const [, subcommand, ...args] = text.trim().split(/\s+/);
+  const actor: AdminActor = { channel: 'telegram', telegramId };
+
+  try {
+    if (!subcommand || subcommand === 'help') {
+      await ctx.reply(ADMIN_USAGE, { parse_mode: 'Markdown' });
+      return;
+    }
+
+    if (subcommand === 'audit') {
+      const targetId = args[0] ? parseTelegramId(args[0]) : undefined;
+      const entries = await AdminService.getAuditLog(actor, { telegramId: targetId ?? undefined, limit: 15 });
+      const lines = entries.map(entry => {
+        const by = entry.actor.channel === 'telegram' ? `tg:${entry.actor.telegramId}` : `api${entry.actor.operator ? `:${entry.actor.operator}` : ''}`;
+        const change = entry.after ? ` → ${JSON.stringify(entry.after)}` : '';
+        return `${formatDate(entry.createdAt)} ${by} ${entry.action}${entry.targetTelegramId ? ` ${entry.targetTelegramId}` : ''}${change}${entry.reason ? ` (${entry.reason})` : ''}`;
+      });
+      await ctx.reply(lines.length > 0 ? `📜 Admin audit log\n\n${lines.join('\n')}` : '📜 No admin actions recorded.');
+      return;
+    }
+
+    if (subcommand === 'payouts') {
+      const report = await ReferralPayoutService.getReconciliationReport();
+      const { totals, payouts, senderWallet, discrepancies } = report;
+      let message = `💸 Referral payouts\n\n`;
+      message += `Queued: ${payouts.queued.count} (${payouts.queued.bnb} BNB)\n`;
+      message += `Submitted: ${payouts.submitted.count} (${payouts.submitted.bnb} BNB)\n`;
+      message += `Confirmed: ${payouts.confirmed.count} (${payouts.confirmed.bnb} BNB)\n`;
+      message += `Failed: ${payouts.failed.count} (${payouts.failed.bnb} BNB)\n`;
+      if (senderWallet) {
+        message += `Wallet ${senderWallet.address}: ${senderWallet.balance} BNB${senderWallet.coversInFlight ? '' : ' ⚠️ does not cover queued payouts'}\n`;
+      }
+      message += `\n📊 Reconciliation\n`;
+      message += `Earned ${totals.earned} BNB (recorded ${totals.recordedEarned})\n`;
+      message += `Paid out ${totals.paidOut}, in flight ${totals.inFlight}, converted ${totals.converted}\n`;
+      message += `Unclaimed ${totals.unclaimed}\n\n`;
+      message += discrepancies.length === 0
+        ? '✅ No discrepancies'
+        : `⚠️ ${discrepancies.length} users with discrepancies:\n` + discrepancies.slice(0, 10)
+          .map(entry => `• ${entry.telegramId ?? entry.userId}: ${entry.issues.join('; ')}`)
+          .join('\n');
+      await ctx.reply(message);
+      return;
+    }
+
+    const targetId = parseTelegramId(args[0]);
+    if (!targetId) {
+      await ctx.reply(ADMIN_USAGE, { parse_mode: 'Markdown' });
+      return;
+    }
+
+    switch (subcommand) {
+      case 'user': {
+        const summary = await AdminService.getUserSummary(actor, targetId);
+        if (!summary) {
+          await ctx.reply('❌ User not found');
+          return;
+        }
+        const percents = summary.referralPercents;
+        let message = `👤 User ${summary.telegramId}${summary.name ? ` (${summary.name})` : ''}\n\n`;
+        message += `🍯 Honey: ${summary.dailyHoney} (purchased ${summary.purchasedHoney}, earned ${summary.totalHoneyEarned}, burned ${summary.totalHoneyBurned})\n`;
+        message += `🐝 Role: ${summary.role || '-'}${summary.roleOverride ? ' (pinned by admin)' : ''}\n`;
+        message += `🤝 Referral tiers: ${percents?.firstHand}% / ${percents?.secondHand}% / ${percents?.thirdHand}%\n`;
+        message += `🏷 Discount: ${summary.discountPercentage}%${summary.discountExpiry ? ` until ${formatDate(summary.discountExpiry)}` : ''}\n`;
+        message += `💰 Referral BNB: ${summary.unclaimedReferralBNB} unclaimed of ${summary.totalReferralBNBEarned}\n`;
+        message += `👛 Main wallet: ${summary.walletAddress || '-'}\n`;
+        message += `💼 Trading wallet: ${summary.tradingWalletAddress || '-'}`;
+        await ctx.reply(message);
+        return;
+      }
+
+      case 'grant':
+      case 'revoke': {
+        const amount = Number(args[1]);
+        const reason = args.slice(2).join(' ') || undefined;
+        const result = await AdminService.adjustHoney(actor, targetId, subcommand === 'grant' ? amount : -amount, reason);
+        await ctx.reply(result.success
+          ? `✅ ${subcommand === 'grant' ? 'Granted' : 'Revoked'} ${amount} 🍯 | New balance: ${result.balance} 🍯`
+          : `❌ ${result.error}`);
+        return;
+      }
+
+      case 'role': {
+        const role = args[1] === 'auto' ? null : args[1] as KeeperRole;
+        const result = await AdminService.setRole(actor, targetId, role, args.slice(2).join(' ') || undefined);
+        await ctx.reply(result.success
+          ? (role ? `✅ Role pinned to ${role}` : '✅ Role handed back to automatic upgrades')
+          : `❌ ${result.error}`);
+        return;
+      }
+
+      case 'referral': {
+        const [firstHand, secondHand, thirdHand] = args.slice(1, 4).map(Number);
+        const result = await AdminService.setReferralPercents(actor, targetId, { firstHand, secondHand, thirdHand }, args.slice(4).join(' ') || undefined);
+        await ctx.reply(result.success
+          ? `✅ Referral tiers set to ${firstHand}% / ${secondHand}% / ${thirdHand}%`
+          : `❌ ${result.error}`);
+        return;
+      }
+
+      case 'discount': {
+        const percentage = Number(args[1]);
+        const days = args[2] ? Number(args[2]) : undefined;
+        const expiresAt = days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : undefined;
+        const result = await AdminService.setDiscount(actor, targetId, percentage, expiresAt, args.slice(3).join(' ') || undefined);
+        await ctx.reply(result.success
+          ? `✅ Discount set to ${percentage}%${expiresAt && percentage > 0 ? ` until ${formatDate(expiresAt)}` : ''}`
+          : `❌ ${result.error}`);
+        return;
+      }
+
+      case 'ledger': {
+        const entries = await AdminService.getLedger(actor, targetId, { limit: args[1] ? Number(args[1]) : 20 });
+        const lines = entries.map(entry =>
+          `${formatDate(entry.timestamp)} ${entry.amount > 0 ? '+' : ''}${entry.amount} → ${entry.balanceAfter} ${entry.type}${entry.feature ? `/${entry.feature}` : ''}`
+        );
+        await ctx.reply(lines.length > 0 ? `📒 Honey ledger of ${targetId}\n\n${lines.join('\n')}` : '📒 No Honey transactions.');
+        return;
+      }
+
+      default:
+        await ctx.reply(ADMIN_USAGE, { parse_mode: 'Markdown' });
+    }
+  } catch (error) {
+    logger.error('Error handling admin command', { error, telegramId, subcommand });
+    await ctx.reply('❌ Admin command failed.');
+  }
+}
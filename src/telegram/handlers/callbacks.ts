@@ -6,7 +6,7 @@ import { RugAlertsService } from '../../services/rugAlerts';
 import { TransferService } from '../../services/wallet/transfer';
 import { UserService } from '../../services/user';
 import { mainMenu, mainMenuEdit } from '../menus/main';
-import { settingsMenu, notificationHourMenu, nameSettingsMenu, walletPreferenceMenu, timezoneMenu, chainSelectionMenu } from '../menus/settings';
+import { settingsMenu, notificationHourMenu, nameSettingsMenu, walletPreferenceMenu, timezoneMenu, chainSelectionMenu, buyGuardSettingsMenu, rugWatchSettingsMenu, tradingPreferencesMenu } from '../menus/settings';
 import { handleWalletScanMenu, handleScanConnectedWallet, handleScanTradingWallet, handleScanBothWallets } from '../menus/walletScan';
 import { handleBuySellMenu } from '../menus/trading';
 import { handleWalletAnalytics, handleWalletHistory, handleWalletPnL } from '../menus/analytics';
@@ -53,6 +53,15 @@ function clearUserWaitingState(userId: number): void {
 		if (session.autoTradeSetup) {
 			delete session.autoTradeSetup.waitingForInput;
 		}
+		if (session.dcaSetup) {
+			delete session.dcaSetup.waitingForAmountInput;
+		}
+		if (session.limitOrderSetup) {
+			delete session.limitOrderSetup.waitingForInput;
+		}
+		if (session.copyTradeSetup) {
+			delete session.copyTradeSetup.waitingForBlacklistToken;
+		}
 		
 		logger.info(`Cleared waiting state for user ${userId}`);
 	}
@@ -279,9 +288,8 @@ export function setupCallbacks(
 				await ctx.reply(`✨ You received ${result.honeyAdded.toLocaleString()} 🍯 Honey!`);
 			}
 		} else if (action === 'withdraw') {
-			await ctx.reply('🔄 Processing withdrawal...');
 			const result = await ReferralService.withdrawReferralBNB(user, amountToProcess.toString());
-			await ctx.reply(result.message + (result.txHash ? `\n\n🔗 Transaction: \`${result.txHash}\`` : ''), { parse_mode: 'Markdown' });
+			await ctx.reply(result.message);
 		}
 		
 		// Refresh menu
@@ -638,6 +646,190 @@ export function setupCallbacks(
 		await settingsMenu(ctx);
 	});
 
+	// Buy guard settings
+	handleCallback('buy_guard_settings', buyGuardSettingsMenu);
+
+	handleCallback('toggle_buy_guard', async (ctx) => {
+		const telegramId = ctx.from?.id;
+		if (!telegramId) return;
+
+		const { UserModel } = await import('@/database/models/User');
+		const user = await UserModel.findOne({ telegramId });
+		if (!user) return;
+
+		user.buyGuardEnabled = !(user.buyGuardEnabled ?? true);
+		await user.save();
+
+		const lang = await getUserLanguage(telegramId);
+		const message = user.buyGuardEnabled
+			? (lang === 'zh' ? '🛡️ 买入保护已开启' : '🛡️ Buy guard enabled')
+			: (lang === 'zh' ? '🛡️ 买入保护已关闭' : '🛡️ Buy guard disabled');
+
+		await ctx.answerCbQuery(message, { show_alert: true });
+		await buyGuardSettingsMenu(ctx);
+	});
+
+	bot.action(/^set_buy_guard_(mode|loss):(.+)$/, async (ctx) => {
+		try {
+			const telegramId = ctx.from?.id;
+			if (!telegramId) return;
+
+			const match = ctx.match;
+			if (match && match[1] && match[2]) {
+				const { UserModel } = await import('@/database/models/User');
+				if (match[1] === 'mode' && (match[2] === 'block' || match[2] === 'warn')) {
+					await UserModel.updateOne({ telegramId }, { buyGuardMode: match[2] });
+				} else if (match[1] === 'loss') {
+					const maxLoss = parseInt(match[2]);
+					if (isNaN(maxLoss) || maxLoss <= 0 || maxLoss > 100) return;
+					await UserModel.updateOne({ telegramId }, { buyGuardMaxLossPercent: maxLoss });
+				}
+				await ctx.answerCbQuery();
+				await buyGuardSettingsMenu(ctx);
+			}
+		} catch (error) {
+			logger.error('Error updating buy guard settings', {
+				error,
+				userId: ctx.from?.id,
+				action: 'set_buy_guard'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorUpdatingBuyGuard');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	// Rug-watch settings
+	handleCallback('rug_watch_settings', rugWatchSettingsMenu);
+
+	handleCallback('toggle_rug_watch', async (ctx) => {
+		const telegramId = ctx.from?.id;
+		if (!telegramId) return;
+
+		const { UserModel } = await import('@/database/models/User');
+		const user = await UserModel.findOne({ telegramId });
+		if (!user) return;
+
+		user.rugWatchEnabled = !(user.rugWatchEnabled ?? true);
+		await user.save();
+
+		const lang = await getUserLanguage(telegramId);
+		const message = user.rugWatchEnabled
+			? (lang === 'zh' ? '🚨 跑路监控已开启' : '🚨 Rug-watch enabled')
+			: (lang === 'zh' ? '🚨 跑路监控已关闭' : '🚨 Rug-watch disabled');
+
+		await ctx.answerCbQuery(message, { show_alert: true });
+		await rugWatchSettingsMenu(ctx);
+	});
+
+	handleCallback('toggle_rug_watch_sell', async (ctx) => {
+		const telegramId = ctx.from?.id;
+		if (!telegramId) return;
+
+		const { UserModel } = await import('@/database/models/User');
+		const user = await UserModel.findOne({ telegramId });
+		if (!user) return;
+
+		user.rugWatchSellButton = !(user.rugWatchSellButton ?? true);
+		await user.save();
+
+		await ctx.answerCbQuery();
+		await rugWatchSettingsMenu(ctx);
+	});
+
+	bot.action(/^set_rug_watch_threshold:(\d+)$/, async (ctx) => {
+		try {
+			const telegramId = ctx.from?.id;
+			if (!telegramId) return;
+
+			const match = ctx.match;
+			if (match && match[1]) {
+				const threshold = parseInt(match[1]);
+				if (isNaN(threshold) || threshold <= 0 || threshold > 100) return;
+
+				const { UserModel } = await import('@/database/models/User');
+				await UserModel.updateOne({ telegramId }, { rugWatchThreshold: threshold });
+				await ctx.answerCbQuery();
+				await rugWatchSettingsMenu(ctx);
+			}
+		} catch (error) {
+			logger.error('Error updating rug-watch settings', {
+				error,
+				userId: ctx.from?.id,
+				action: 'set_rug_watch_threshold'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorUpdatingRugWatch');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	// Trading preferences
+	handleCallback('trading_preferences', tradingPreferencesMenu);
+
+	handleCallback('toggle_private_mempool', async (ctx) => {
+		const telegramId = ctx.from?.id;
+		if (!telegramId) return;
+
+		const lang = await getUserLanguage(telegramId);
+		const { getPrivateRpcUrl } = await import('@/services/trading/tradingPreferences');
+		if (!getPrivateRpcUrl()) {
+			await ctx.answerCbQuery(
+				lang === 'zh' ? '⚪ 私有 RPC 未配置' : '⚪ No private RPC is configured for this bot',
+				{ show_alert: true }
+			);
+			return;
+		}
+
+		const { UserModel } = await import('@/database/models/User');
+		const user = await UserModel.findOne({ telegramId });
+		if (!user) return;
+
+		user.privateMempool = !user.privateMempool;
+		await user.save();
+
+		const message = user.privateMempool
+			? (lang === 'zh' ? '🔒 交易将通过私有内存池发送' : '🔒 Trades will be sent through the private mempool')
+			: (lang === 'zh' ? '🌐 交易将通过公共内存池发送' : '🌐 Trades will be sent through the public mempool');
+
+		await ctx.answerCbQuery(message, { show_alert: true });
+		await tradingPreferencesMenu(ctx);
+	});
+
+	bot.action(/^set_trade_pref:(\w+):(.+)$/, async (ctx) => {
+		try {
+			const telegramId = ctx.from?.id;
+			if (!telegramId) return;
+
+			const match = ctx.match;
+			if (match && match[1] && match[2]) {
+				const { parsePreferenceUpdate } = await import('@/services/trading/tradingPreferences');
+				const update = parsePreferenceUpdate(match[1], match[2]);
+				if (!update) {
+					await ctx.answerCbQuery();
+					return;
+				}
+
+				const { UserModel } = await import('@/database/models/User');
+				const unset = Object.keys(update).filter(key => update[key] === null);
+				const set = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== null));
+				await UserModel.updateOne({ telegramId }, {
+					...(Object.keys(set).length > 0 ? { $set: set } : {}),
+					...(unset.length > 0 ? { $unset: Object.fromEntries(unset.map(key => [key, 1])) } : {})
+				});
+
+				await ctx.answerCbQuery();
+				await tradingPreferencesMenu(ctx);
+			}
+		} catch (error) {
+			logger.error('Error updating trading preferences', {
+				error,
+				userId: ctx.from?.id,
+				action: 'set_trade_pref'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorUpdatingTradingPreferences');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
 	// Toggle debug mode
 	handleCallback('toggle_debug_mode', async (ctx) => {
 		const telegramId = ctx.from?.id;
@@ -861,6 +1053,78 @@ export function setupCallbacks(
 			await ctx.answerCbQuery('❌ Error confirming purchase');
 		}
 	});
+
+	handleCallback('honey_plans', async (ctx) => {
+		await ctx.answerCbQuery();
+		const { honeyPlansMenu } = await import('../menus/honeyPlans');
+		await honeyPlansMenu(ctx);
+	});
+
+	bot.action(/^honey_plan_(buy|confirm)_(\w+)$/, async (ctx) => {
+		try {
+			await ctx.answerCbQuery();
+			const { confirmHoneyPlan, executeHoneyPlan } = await import('../menus/honeyPlans');
+			if (ctx.match[1] === 'buy') {
+				await confirmHoneyPlan(ctx, ctx.match[2]);
+			} else {
+				await executeHoneyPlan(ctx, ctx.match[2]);
+			}
+		} catch (error) {
+			logger.error('Error in honey_plan callback', { error, userId: ctx.from?.id });
+			await ctx.answerCbQuery('❌ Error processing plan');
+		}
+	});
+
+	bot.action(/^honey_plan_autorenew_(on|off)$/, async (ctx) => {
+		try {
+			const { setHoneyPlanAutoRenew } = await import('../menus/honeyPlans');
+			await setHoneyPlanAutoRenew(ctx, ctx.match[1] === 'on');
+		} catch (error) {
+			logger.error('Error in honey_plan_autorenew callback', { error, userId: ctx.from?.id });
+			await ctx.answerCbQuery('❌ Error updating auto-renew');
+		}
+	});
+
+	handleCallback('honey_stablecoin', async (ctx) => {
+		await ctx.answerCbQuery();
+		const { honeyStablecoinMenu } = await import('../menus/honeyRecharge');
+		await honeyStablecoinMenu(ctx);
+	});
+
+	bot.action(/^honey_sc_(\d+)_([A-Z]+)$/, async (ctx) => {
+		try {
+			await ctx.answerCbQuery();
+			const { startStablecoinPurchase } = await import('../menus/honeyRecharge');
+			await startStablecoinPurchase(ctx, parseInt(ctx.match[1]), ctx.match[2]);
+		} catch (error) {
+			logger.error('Error in honey_sc callback', { error, userId: ctx.from?.id });
+			await ctx.answerCbQuery('❌ Error creating payment request');
+		}
+	});
+
+	bot.action(/^honey_sc_(sign|force)_([a-f0-9]{24})$/, async (ctx) => {
+		try {
+			await ctx.answerCbQuery();
+			const { signStablecoinPurchase } = await import('../menus/honeyRecharge');
+			await signStablecoinPurchase(ctx, ctx.match[2], ctx.match[1] === 'force');
+		} catch (error) {
+			logger.error('Error in honey_sc_sign callback', { error, userId: ctx.from?.id });
+			await ctx.answerCbQuery('❌ Error sending payment');
+		}
+	});
+
+	bot.action(/^honey_sc_cancel_([a-f0-9]{24})$/, async (ctx) => {
+		try {
+			const { HoneyStablecoinPurchaseService } = await import('../../services/honey/stablecoinPurchase');
+			const cancelled = await HoneyStablecoinPurchaseService.cancelIntent(ctx.from!.id, ctx.match[1]);
+			await ctx.answerCbQuery(cancelled ? 'Payment request cancelled' : 'This payment request can no longer be cancelled');
+			const { honeyStablecoinMenu } = await import('../menus/honeyRecharge');
+			await honeyStablecoinMenu(ctx);
+		} catch (error) {
+			logger.error('Error in honey_sc_cancel callback', { error, userId: ctx.from?.id });
+			await ctx.answerCbQuery('❌ Error cancelling payment');
+		}
+	});
 	
 	// Handle show WC link callback
 	bot.action(/^show_wc_link:(\d+)$/, async (ctx) => {
@@ -954,6 +1218,20 @@ export function setupCallbacks(
 		await transferService.handleTransferToTrading(ctx, amount);
 	});
 
+	// Transfer the pre-flight check rated HIGH risk, confirmed by the user
+	handleCallback('transfer_preflight_confirm', async (ctx) => {
+		const session = global.userSessions.get(ctx.from!.id);
+		const pending = session?.pendingTransfer;
+		if (!session || !pending || pending.direction !== 'to_trading') {
+			await ctx.answerCbQuery(await getTranslation(ctx, 'transfer.confirmationExpired'));
+			return;
+		}
+
+		delete session.pendingTransfer;
+		session.transfer = { ...session.transfer, selectedToken: pending.token };
+		await transferService.handleTransferToTrading(ctx, pending.amount, pending.backCallback, true);
+	});
+
 	// Trading to Main amount transfers - use pattern matching for dynamic amounts
 	bot.action(/^transfer_amount_from_(.+)$/, async (ctx) => {
 		const amount = ctx.match[1];
@@ -1027,6 +1305,93 @@ export function setupCallbacks(
 		}
 	});
 	
+	bot.action(/^rug_history:(0x[a-fA-F0-9]{40})$/, async (ctx) => {
+		try {
+			await ctx.answerCbQuery();
+			await rugAlertsService.sendScoreHistory(ctx, ctx.match[1]);
+		} catch (error) {
+			logger.error('Error in rug score history callback', {
+				error,
+				userId: ctx.from?.id,
+				action: 'rug_history'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorLoadingScoreHistory');
+			await ctx.reply(errorMsg);
+		}
+	});
+
+	// Immutable, shareable snapshot of the report currently shown
+	bot.action(/^rug_snapshot:(0x[a-fA-F0-9]{40})$/, async (ctx) => {
+		try {
+			const telegramId = ctx.from!.id;
+			const tokenAddress = ctx.match[1];
+			const session = global.userSessions.get(telegramId);
+			const analysis = session?.rugAlerts?.lastAnalysis;
+			// Analyses from before the block was recorded can't say which block they scored
+			if (!analysis || analysis.metadata.address !== tokenAddress || analysis.analyzedAtBlock === undefined) {
+				await ctx.answerCbQuery('Analysis expired. Please analyze the token again.', { show_alert: true });
+				return;
+			}
+
+			await ctx.answerCbQuery('📸 Creating snapshot...');
+			const { rugReportSnapshotService } = await import('@/services/rugAlerts/reportSnapshots');
+			const { getApiBaseUrl } = await import('../../api/server');
+			const snapshot = await rugReportSnapshotService.createSnapshot(analysis, telegramId);
+			const shareUrl = `${getApiBaseUrl()}/api/rug-reports/${snapshot.snapshotId}`;
+
+			const symbol = (snapshot.tokenSymbol || tokenAddress).replace(/[*_`[\]]/g, '');
+			const caption = `📸 *Rug Report Snapshot* \`${snapshot.snapshotId}\`\n\n`
+				+ `BeanBee scored ${symbol} *${snapshot.safetyScore}/100* at block ${snapshot.blockNumber}.\n\n`
+				+ `[JSON](${shareUrl}) · [Markdown](${shareUrl}/md) · [PDF](${shareUrl}/pdf)`;
+
+			await ctx.replyWithDocument(
+				{ source: rugReportSnapshotService.toPdf(snapshot, shareUrl), filename: `beanbee-rug-report-${snapshot.snapshotId}.pdf` },
+				{ caption, parse_mode: 'Markdown' }
+			);
+		} catch (error) {
+			logger.error('Error in rug report snapshot callback', {
+				error,
+				userId: ctx.from?.id,
+				action: 'rug_snapshot'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorCreatingSnapshot');
+			await ctx.reply(errorMsg);
+		}
+	});
+
+	// LP unlock alerts, offered on reports whose main pool has dated locks
+	bot.action(/^lp_unlock_(sub|unsub):(0x[a-fA-F0-9]{40})$/, async (ctx) => {
+		try {
+			const telegramId = ctx.from!.id;
+			const [, mode, tokenAddress] = ctx.match;
+			const { LpUnlockAlertService } = await import('@/services/rugAlerts/lpUnlockAlerts');
+
+			if (mode === 'unsub') {
+				await LpUnlockAlertService.unsubscribe(telegramId, tokenAddress);
+				await ctx.answerCbQuery('🔕 LP unlock alerts stopped for this token', { show_alert: true });
+				return;
+			}
+
+			const session = global.userSessions.get(telegramId);
+			const analysis = session?.rugAlerts?.lastAnalysis;
+			if (!analysis || analysis.metadata.address !== tokenAddress || !analysis.liquidityAnalysis?.lpLocks) {
+				await ctx.answerCbQuery('Analysis expired. Please analyze the token again.', { show_alert: true });
+				return;
+			}
+
+			await LpUnlockAlertService.subscribe(telegramId, tokenAddress, analysis.metadata.symbol, analysis.liquidityAnalysis.lpLocks);
+			await ctx.answerCbQuery('🔔 You will be alerted 24h before LP of this token unlocks', { show_alert: true });
+		} catch (error) {
+			logger.error('Error in LP unlock alert callback', {
+				error,
+				userId: ctx.from?.id,
+				action: 'lp_unlock'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorUpdatingLpUnlockAlerts');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
 	bot.action(/^rug_summary:(.+)$/, async (ctx) => {
 		try {
 			await ctx.answerCbQuery();
@@ -1043,6 +1408,7 @@ export function setupCallbacks(
 					const keyboard = {
 						inline_keyboard: [
 							[{ text: '📋 View Detailed Report', callback_data: `rug_details:${tokenAddress}` }],
+							[{ text: '📈 Score History', callback_data: `rug_history:${tokenAddress}` }],
 							[{ text: '🤖 ChainGPT SC Audit', callback_data: `chaingpt_audit:${tokenAddress}` }],
 							[{ text: '🔙 Back', callback_data: 'start_edit' }]
 						]
@@ -1139,6 +1505,10 @@ export function setupCallbacks(
 		await handleBuySellMenu(ctx, tradingService);
 	});
 	handleCallback('confirm_trade', (ctx) => tradingService.handleTradeConfirmation(ctx));
+	handleCallback('trade_journal', async (ctx) => {
+		const { TradeJournalMenu } = await import('../menus/tradeJournal');
+		await TradeJournalMenu.showJournal(ctx);
+	});
 
 	// Quick amount callbacks
 	handleCallback('amount_0.1', (ctx) => tradingService.handleQuickAmount(ctx, '0.1'));
@@ -1882,122 +2252,256 @@ export function setupCallbacks(
 		}
 	});
 
-	bot.action(/^confirm_sell_(.+)_(.+)$/, async (ctx) => {
+	// Quick buy confirmations, journaled as quick trades
+	bot.action(/^confirm_qbuy_(.+)_(.+)$/, async (ctx) => {
 		try {
 			await ctx.answerCbQuery();
 			const match = ctx.match;
 			if (match && match[1] && match[2]) {
-				const [, percentage, tokenAddress] = match;
-				await tradingService.executeSell(ctx, tokenAddress, percentage);
+				const [, tokenAddress, bnbAmount] = match;
+				await tradingService.executeBuy(ctx, tokenAddress, bnbAmount, false, { source: 'quick_trade' });
 			}
 		} catch (error) {
-			logger.error('Error in confirm sell callback', { 
+			logger.error('Error in confirm quick buy callback', { 
 				error,
 				userId: ctx.from?.id,
-				percentage: 'confirm_sell_percentage',
-				tokenAddress: 'confirm_sell_token',
-				action: 'confirm_sell'
+				action: 'confirm_qbuy'
 			});
 			const errorMsg = await getTranslation(ctx, 'common.errorProcessing');
 			await ctx.answerCbQuery(errorMsg);
 		}
 	});
 
-	// Analytics callbacks for specific addresses
-	bot.action(/^history_(.+)$/, async (ctx) => {
+	// Buy after a buy guard warning, skipping the guard this time
+	bot.action(/^guard_buy_(.+)_(.+)$/, async (ctx) => {
 		try {
 			await ctx.answerCbQuery();
 			const match = ctx.match;
-			if (match && match[1]) {
-				const address = match[1];
-				await handleWalletHistory(ctx, address);
+			if (match && match[1] && match[2]) {
+				const [, tokenAddress, bnbAmount] = match;
+				await tradingService.executeBuy(ctx, tokenAddress, bnbAmount, true);
 			}
 		} catch (error) {
-			logger.error('Error in history callback', { 
+			logger.error('Error in guarded buy callback', { 
 				error,
 				userId: ctx.from?.id,
-				address: 'history_wallet_address',
-				action: 'history'
+				action: 'guard_buy'
 			});
 			const errorMsg = await getTranslation(ctx, 'common.errorProcessing');
 			await ctx.answerCbQuery(errorMsg);
 		}
 	});
 
-	bot.action(/^pnl_(.+)$/, async (ctx) => {
+	bot.action(/^confirm_qsell_(.+)_(.+)$/, async (ctx) => {
 		try {
 			await ctx.answerCbQuery();
 			const match = ctx.match;
-			if (match && match[1]) {
-				const address = match[1];
-				await handleWalletPnL(ctx, address);
+			if (match && match[1] && match[2]) {
+				const [, percentage, tokenAddress] = match;
+				await tradingService.executeSell(ctx, tokenAddress, percentage, { source: 'quick_trade' });
 			}
 		} catch (error) {
-			logger.error('Error in PnL callback', { 
+			logger.error('Error in confirm quick sell callback', { 
 				error,
 				userId: ctx.from?.id,
-				address: 'pnl_wallet_address',
-				action: 'pnl'
+				action: 'confirm_qsell'
 			});
 			const errorMsg = await getTranslation(ctx, 'common.errorProcessing');
 			await ctx.answerCbQuery(errorMsg);
 		}
 	});
 
-	bot.action(/^refresh_defi_(.+)$/, async (ctx) => {
+	// Token approvals dashboard
+	bot.action(/^approvals_(main|trading)$/, async (ctx) => {
 		try {
 			const match = ctx.match;
 			if (match && match[1]) {
-				const address = match[1];
-				const scannerService = new ScannerService();
-				await scannerService.handleRefreshDeFiPositions(ctx, address);
+				const { ApprovalsMenu } = await import('../menus/approvals');
+				await ApprovalsMenu.showApprovals(ctx, match[1] as 'main' | 'trading');
 			}
 		} catch (error) {
-			logger.error('Error in refresh DeFi callback', { 
+			logger.error('Error in approvals callback', { 
 				error,
 				userId: ctx.from?.id,
-				address: 'refresh_defi_address',
-				action: 'refresh_defi'
+				action: 'approvals'
 			});
-			const errorMsg = await getTranslation(ctx, 'common.errorProcessing');
+			const errorMsg = await getTranslation(ctx, 'common.errorLoadingApprovals');
 			await ctx.answerCbQuery(errorMsg);
 		}
 	});
-	
-	// Token search details callback
-	bot.action(/^token_details_(.+)$/, async (ctx) => {
+
+	bot.action(/^apr_revoke:(\d+)$/, async (ctx) => {
 		try {
 			const match = ctx.match;
 			if (match && match[1]) {
-				const tokenAddress = match[1];
-				const { handleTokenDetails } = await import('../menus/tokenSearch');
-				await handleTokenDetails(ctx, tokenAddress);
+				const { ApprovalsMenu } = await import('../menus/approvals');
+				await ApprovalsMenu.confirmRevoke(ctx, Number(match[1]));
 			}
 		} catch (error) {
-			logger.error('Error in token details callback', { 
+			logger.error('Error in approval revoke callback', { 
 				error,
 				userId: ctx.from?.id,
-				tokenAddress: 'token_details_address',
-				action: 'token_details'
+				action: 'apr_revoke'
 			});
-			const errorMsg = await getTranslation(ctx, 'common.errorLoadingTokenDetails');
+			const errorMsg = await getTranslation(ctx, 'common.errorLoadingApprovals');
 			await ctx.answerCbQuery(errorMsg);
 		}
 	});
-	
-	// Analyze token callback (reusing existing rug alerts service)
-	bot.action(/^analyze_token_(.+)$/, async (ctx) => {
+
+	// apr_force: the user accepted a HIGH risk pre-flight check
+	bot.action(/^apr_(confirm|force):(\d+)$/, async (ctx) => {
 		try {
-			await ctx.answerCbQuery();
 			const match = ctx.match;
-			if (match && match[1]) {
-				const tokenAddress = match[1];
-				// Store token address in session for rug alerts service
-				const userId = ctx.from!.id;
-				const session = global.userSessions.get(userId);
-				if (session) {
-					if (!session.rugAlerts) session.rugAlerts = {};
-					session.rugAlerts.lastAnalyzedToken = tokenAddress;
+			if (match && match[2]) {
+				const { ApprovalsMenu } = await import('../menus/approvals');
+				await ApprovalsMenu.executeRevoke(ctx, Number(match[2]), match[1] === 'force');
+			}
+		} catch (error) {
+			logger.error('Error in approval revoke confirm callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'apr_confirm'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorProcessing');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	// One-tap sell all from a rug-watch alert
+	bot.action(/^rw_sell_(0x[a-fA-F0-9]{40})$/, async (ctx) => {
+		try {
+			await ctx.answerCbQuery();
+			const match = ctx.match;
+			if (match && match[1]) {
+				await tradingService.executeSell(ctx, match[1], '100', { source: 'rug_watch' });
+			}
+		} catch (error) {
+			logger.error('Error in rug-watch sell callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'rw_sell'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorProcessing');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^confirm_sell_(.+)_(.+)$/, async (ctx) => {
+		try {
+			await ctx.answerCbQuery();
+			const match = ctx.match;
+			if (match && match[1] && match[2]) {
+				const [, percentage, tokenAddress] = match;
+				await tradingService.executeSell(ctx, tokenAddress, percentage);
+			}
+		} catch (error) {
+			logger.error('Error in confirm sell callback', { 
+				error,
+				userId: ctx.from?.id,
+				percentage: 'confirm_sell_percentage',
+				tokenAddress: 'confirm_sell_token',
+				action: 'confirm_sell'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorProcessing');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	// Analytics callbacks for specific addresses
+	bot.action(/^history_(.+)$/, async (ctx) => {
+		try {
+			await ctx.answerCbQuery();
+			const match = ctx.match;
+			if (match && match[1]) {
+				const address = match[1];
+				await handleWalletHistory(ctx, address);
+			}
+		} catch (error) {
+			logger.error('Error in history callback', { 
+				error,
+				userId: ctx.from?.id,
+				address: 'history_wallet_address',
+				action: 'history'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorProcessing');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^pnl_(.+)$/, async (ctx) => {
+		try {
+			await ctx.answerCbQuery();
+			const match = ctx.match;
+			if (match && match[1]) {
+				const address = match[1];
+				await handleWalletPnL(ctx, address);
+			}
+		} catch (error) {
+			logger.error('Error in PnL callback', { 
+				error,
+				userId: ctx.from?.id,
+				address: 'pnl_wallet_address',
+				action: 'pnl'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorProcessing');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^refresh_defi_(.+)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1]) {
+				const address = match[1];
+				const scannerService = new ScannerService();
+				await scannerService.handleRefreshDeFiPositions(ctx, address);
+			}
+		} catch (error) {
+			logger.error('Error in refresh DeFi callback', { 
+				error,
+				userId: ctx.from?.id,
+				address: 'refresh_defi_address',
+				action: 'refresh_defi'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorProcessing');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+	
+	// Token search details callback
+	bot.action(/^token_details_(.+)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1]) {
+				const tokenAddress = match[1];
+				const { handleTokenDetails } = await import('../menus/tokenSearch');
+				await handleTokenDetails(ctx, tokenAddress);
+			}
+		} catch (error) {
+			logger.error('Error in token details callback', { 
+				error,
+				userId: ctx.from?.id,
+				tokenAddress: 'token_details_address',
+				action: 'token_details'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorLoadingTokenDetails');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+	
+	// Analyze token callback (reusing existing rug alerts service)
+	bot.action(/^analyze_token_(.+)$/, async (ctx) => {
+		try {
+			await ctx.answerCbQuery();
+			const match = ctx.match;
+			if (match && match[1]) {
+				const tokenAddress = match[1];
+				// Store token address in session for rug alerts service
+				const userId = ctx.from!.id;
+				const session = global.userSessions.get(userId);
+				if (session) {
+					if (!session.rugAlerts) session.rugAlerts = {};
+					session.rugAlerts.lastAnalyzedToken = tokenAddress;
 					global.userSessions.set(userId, session);
 				}
 				// Use existing rug alerts service to analyze
@@ -2240,6 +2744,495 @@ export function setupCallbacks(
 		}
 	});
 
+	bot.action(/^set_tp_ladder_(.+)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1]) {
+				const tokenAddress = match[1];
+				const { AutoTradeMenu } = await import('../menus/autoTrade');
+				await AutoTradeMenu.initiateTakeProfitLadderSetup(ctx, tokenAddress);
+			}
+		} catch (error) {
+			logger.error('Error in set take profit ladder callback', { 
+				error,
+				userId: ctx.from?.id,
+				tokenAddress: 'set_tp_ladder_token',
+				action: 'set_tp_ladder'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorSettingUpTakeProfitLadder');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	// Take profit ladder preset callbacks
+	bot.action(/^tpl_(.+)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1]) {
+				const preset = match[1];
+				const { AutoTradeMenu } = await import('../menus/autoTrade');
+				
+				if (preset === 'custom') {
+					await AutoTradeMenu.handleCustomTakeProfitLevel(ctx);
+				} else if (preset === 'clear') {
+					await AutoTradeMenu.clearTakeProfitLadder(ctx);
+				} else {
+					await AutoTradeMenu.handleTakeProfitLadderPreset(ctx, preset);
+				}
+			}
+		} catch (error) {
+			logger.error('Error in take profit ladder preset callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'tpl_preset'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorSettingUpTakeProfitLadder');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^set_trailing_stop_(.+)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1]) {
+				const tokenAddress = match[1];
+				const { AutoTradeMenu } = await import('../menus/autoTrade');
+				await AutoTradeMenu.initiateTrailingStopSetup(ctx, tokenAddress);
+			}
+		} catch (error) {
+			logger.error('Error in set trailing stop callback', { 
+				error,
+				userId: ctx.from?.id,
+				tokenAddress: 'set_trailing_stop_token',
+				action: 'set_trailing_stop'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorSettingUpTrailingStop');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	// Trailing stop preset callbacks
+	bot.action(/^tstop_(.+)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1]) {
+				const preset = match[1];
+				const { AutoTradeMenu } = await import('../menus/autoTrade');
+				
+				if (preset === 'custom') {
+					await AutoTradeMenu.handleCustomTrailingStop(ctx);
+				} else {
+					await AutoTradeMenu.handleTrailingStopPreset(ctx, preset);
+				}
+			}
+		} catch (error) {
+			logger.error('Error in trailing stop preset callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'tstop_preset'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorSettingUpTrailingStop');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	// Backtest callbacks
+	bot.action(/^backtest_(.+)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1]) {
+				const tokenAddress = match[1];
+				const { BacktestMenu } = await import('../menus/backtest');
+				await BacktestMenu.showBacktestMenu(ctx, tokenAddress);
+			}
+		} catch (error) {
+			logger.error('Error in backtest menu callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'backtest_menu'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorRunningBacktest');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^bt_(24h|7d|30d)_(.+)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1] && match[2]) {
+				const windowKey = match[1];
+				const tokenAddress = match[2];
+				const { BacktestMenu } = await import('../menus/backtest');
+				await BacktestMenu.runBacktest(ctx, tokenAddress, windowKey);
+			}
+		} catch (error) {
+			logger.error('Error in backtest run callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'backtest_run'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorRunningBacktest');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	// Trade journal views
+	bot.action(/^tj_(tokens|strategies|trades)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1]) {
+				const { TradeJournalMenu } = await import('../menus/tradeJournal');
+				await TradeJournalMenu.showJournal(ctx, match[1] as 'tokens' | 'strategies' | 'trades');
+			}
+		} catch (error) {
+			logger.error('Error in trade journal callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'trade_journal'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorLoadingTradeJournal');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	// Copy-trade callbacks
+	bot.action(/^manage_wallet_([a-f0-9]{24})$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1]) {
+				const { CopyTradeMenu } = await import('../menus/copyTrade');
+				await CopyTradeMenu.showWalletMenu(ctx, match[1]);
+			}
+		} catch (error) {
+			logger.error('Error in manage wallet callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'manage_wallet'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorUpdatingCopyTrade');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^ct_toggle_([a-f0-9]{24})$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1]) {
+				const { CopyTradeMenu } = await import('../menus/copyTrade');
+				await CopyTradeMenu.toggleCopyTrade(ctx, match[1]);
+			}
+		} catch (error) {
+			logger.error('Error in copy-trade toggle callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'copy_trade_toggle'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorUpdatingCopyTrade');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^ct_set:([a-f0-9]{24}):(\w+):(.+)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1] && match[2] && match[3]) {
+				const { CopyTradeMenu } = await import('../menus/copyTrade');
+				await CopyTradeMenu.updateSetting(ctx, match[1], match[2], match[3]);
+			}
+		} catch (error) {
+			logger.error('Error in copy-trade setting callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'copy_trade_setting'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorUpdatingCopyTrade');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^ct_log_([a-f0-9]{24})$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1]) {
+				const { CopyTradeMenu } = await import('../menus/copyTrade');
+				await CopyTradeMenu.showCopyLog(ctx, match[1]);
+			}
+		} catch (error) {
+			logger.error('Error in copy log callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'copy_trade_log'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorUpdatingCopyTrade');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^ct_bladd_([a-f0-9]{24})$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1]) {
+				const { CopyTradeMenu } = await import('../menus/copyTrade');
+				await CopyTradeMenu.promptBlacklistToken(ctx, match[1]);
+			}
+		} catch (error) {
+			logger.error('Error in copy-trade blacklist prompt callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'copy_trade_blacklist_add'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorUpdatingCopyTrade');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^ct_blrm_([a-f0-9]{24})_(\d+)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1] && match[2]) {
+				const { CopyTradeMenu } = await import('../menus/copyTrade');
+				await CopyTradeMenu.removeFromBlacklist(ctx, match[1], parseInt(match[2], 10));
+			}
+		} catch (error) {
+			logger.error('Error in copy-trade blacklist remove callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'copy_trade_blacklist_remove'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorUpdatingCopyTrade');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^ct_bl_([a-f0-9]{24})$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1]) {
+				const { CopyTradeMenu } = await import('../menus/copyTrade');
+				await CopyTradeMenu.blacklistFromTrade(ctx, match[1]);
+			}
+		} catch (error) {
+			logger.error('Error in copy-trade blacklist callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'copy_trade_blacklist'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorUpdatingCopyTrade');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	// DCA schedule callbacks
+	bot.action(/^dca_menu_(.+)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1]) {
+				const tokenAddress = match[1];
+				const { DcaMenu } = await import('../menus/dca');
+				await DcaMenu.handleDcaMenu(ctx, tokenAddress);
+			}
+		} catch (error) {
+			logger.error('Error in DCA menu callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'dca_menu'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorLoadingDcaMenu');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^dca_new_(.+)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1]) {
+				const tokenAddress = match[1];
+				const { DcaMenu } = await import('../menus/dca');
+				await DcaMenu.initiateDcaSetup(ctx, tokenAddress);
+			}
+		} catch (error) {
+			logger.error('Error in new DCA callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'dca_new'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorSettingUpDca');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^dca_(amt|int|dur)_(.+)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1] && match[2]) {
+				const step = match[1];
+				const value = match[2];
+				const { DcaMenu } = await import('../menus/dca');
+				
+				if (step === 'amt') {
+					if (value === 'custom') {
+						await DcaMenu.handleCustomDcaAmount(ctx);
+					} else {
+						await DcaMenu.handleDcaAmountSelection(ctx, value);
+					}
+				} else if (step === 'int') {
+					await DcaMenu.handleDcaIntervalSelection(ctx, parseInt(value));
+				} else {
+					await DcaMenu.handleDcaDurationSelection(ctx, parseInt(value));
+				}
+			}
+		} catch (error) {
+			logger.error('Error in DCA setup callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'dca_setup'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorSettingUpDca');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action('dca_confirm', async (ctx) => {
+		try {
+			const { DcaMenu } = await import('../menus/dca');
+			await DcaMenu.confirmDcaSchedule(ctx);
+		} catch (error) {
+			logger.error('Error in DCA confirm callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'dca_confirm'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorSettingUpDca');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^dca_(pause|resume|cancel)_([a-f0-9]{24})$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1] && match[2]) {
+				const action = match[1] as 'pause' | 'resume' | 'cancel';
+				const scheduleId = match[2];
+				const { DcaMenu } = await import('../menus/dca');
+				await DcaMenu.handleScheduleAction(ctx, action, scheduleId);
+			}
+		} catch (error) {
+			logger.error('Error in DCA schedule action callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'dca_schedule_action'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorUpdatingDcaSchedule');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	// Limit order callbacks
+	bot.action('my_orders', async (ctx) => {
+		try {
+			const { LimitOrderMenu } = await import('../menus/limitOrders');
+			await LimitOrderMenu.showMyOrders(ctx);
+		} catch (error) {
+			logger.error('Error in my orders callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'my_orders'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorLoadingLimitOrders');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^lo_token_(.+)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1]) {
+				const tokenAddress = match[1];
+				const { LimitOrderMenu } = await import('../menus/limitOrders');
+				await LimitOrderMenu.showMyOrders(ctx, tokenAddress);
+			}
+		} catch (error) {
+			logger.error('Error in token limit orders callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'lo_token'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorLoadingLimitOrders');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^lo_new_(buy|sell)_(.+)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1] && match[2]) {
+				const side = match[1] as 'buy' | 'sell';
+				const tokenAddress = match[2];
+				const { LimitOrderMenu } = await import('../menus/limitOrders');
+				await LimitOrderMenu.initiateOrderSetup(ctx, side, tokenAddress);
+			}
+		} catch (error) {
+			logger.error('Error in new limit order callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'lo_new'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorSettingUpLimitOrder');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^lo_(px|amt|exp)_(.+)$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1] && match[2]) {
+				const step = match[1];
+				const value = match[2];
+				const { LimitOrderMenu } = await import('../menus/limitOrders');
+				
+				if (step === 'px') {
+					await LimitOrderMenu.handlePricePreset(ctx, value);
+				} else if (step === 'amt') {
+					await LimitOrderMenu.handleAmountPreset(ctx, value);
+				} else {
+					await LimitOrderMenu.handleExpiry(ctx, parseInt(value));
+				}
+			}
+		} catch (error) {
+			logger.error('Error in limit order setup callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'lo_setup'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorSettingUpLimitOrder');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
+	bot.action(/^lo_(view|cancel)_([a-f0-9]{24})$/, async (ctx) => {
+		try {
+			const match = ctx.match;
+			if (match && match[1] && match[2]) {
+				const orderId = match[2];
+				const { LimitOrderMenu } = await import('../menus/limitOrders');
+				
+				if (match[1] === 'view') {
+					await LimitOrderMenu.showOrderDetails(ctx, orderId);
+				} else {
+					await LimitOrderMenu.cancelOrder(ctx, orderId);
+				}
+			}
+		} catch (error) {
+			logger.error('Error in limit order action callback', { 
+				error,
+				userId: ctx.from?.id,
+				action: 'lo_order_action'
+			});
+			const errorMsg = await getTranslation(ctx, 'common.errorLoadingLimitOrders');
+			await ctx.answerCbQuery(errorMsg);
+		}
+	});
+
 	// Refresh auto-trade data callback
 	bot.action(/^refresh_autotrade_(.+)$/, async (ctx) => {
 		try {
@@ -157,6 +157,12 @@ export function setupCommands(bot: Telegraf, walletService: WalletService) {
 		const { handleClearNewsCache } = await import('../commands/clearNewsCache');
 		await handleClearNewsCache(ctx);
 	});
+
+	// Admin console (ADMIN_TELEGRAM_IDS only)
+	bot.command('admin', async (ctx) => {
+		const { handleAdminCommand } = await import('../commands/admin');
+		await handleAdminCommand(ctx);
+	});
 	
 }
 
@@ -76,9 +76,8 @@ export function setupMessages(
 				const { ReferralService } = await import('@/services/referralService');
 				const user = await UserModel.findOne({ telegramId: userId });
 				if (user) {
-					await ctx.reply('🔄 Processing withdrawal...');
 					const result = await ReferralService.withdrawReferralBNB(user, text);
-					await ctx.reply(result.message + (result.txHash ? `\n\n🔗 Transaction: \`${result.txHash}\`` : ''), { parse_mode: 'Markdown' });
+					await ctx.reply(result.message);
 					const { handleReferralMenu } = await import('../menus/referral');
 					await handleReferralMenu(ctx);
 				}
@@ -337,6 +336,31 @@ export function setupMessages(
 				return;
 			}
 
+			// Check if waiting for limit order price or amount input
+			if (session?.limitOrderSetup?.waitingForInput) {
+				const { LimitOrderMenu } = await import('../menus/limitOrders');
+				if (session.limitOrderSetup.waitingForInput === 'price') {
+					await LimitOrderMenu.handleLimitPrice(ctx, text.trim());
+				} else {
+					await LimitOrderMenu.handleAmount(ctx, text.trim());
+				}
+				return;
+			}
+
+			// Check if waiting for a token to blacklist from copy-trading
+			if (session?.copyTradeSetup?.waitingForBlacklistToken) {
+				const { CopyTradeMenu } = await import('../menus/copyTrade');
+				await CopyTradeMenu.handleBlacklistInput(ctx, text.trim());
+				return;
+			}
+
+			// Check if waiting for DCA amount input
+			if (session?.dcaSetup?.waitingForAmountInput) {
+				const { DcaMenu } = await import('../menus/dca');
+				await DcaMenu.handleDcaAmountSelection(ctx, text.trim());
+				return;
+			}
+
 
 			// Auto-detect wallet/token address
 			if (isTokenAddress(text)) {
@@ -901,6 +925,49 @@ async function handleAutoTradeInput(ctx: Context, text: string, session: any) {
 			case 'stop_loss':
 				token.stopLossPrice = numericValue;
 				break;
+
+			case 'tp_level': {
+				// Expect "<price> <sell %>", e.g. "0.005 25"
+				const [priceText, percentText] = trimmedText.split(/\s+/);
+				const levelPrice = parseFloat(priceText);
+				const sellPercentage = parseFloat(percentText);
+				const { validateTakeProfitLevels } = await import('@/services/autoTrade/exitRules');
+				const levels = [...(token.takeProfitLevels || []), { price: levelPrice, sellPercentage }]
+					.sort((a, b) => a.price - b.price);
+				const validationError = isNaN(sellPercentage)
+					? 'Please enter the price and the sell percentage, e.g. "0.005 25"'
+					: validateTakeProfitLevels(levels);
+
+				if (validationError) {
+					const backButtonText = await getTranslation({ from: { id: userId } } as Context, 'common.back');
+					await ctx.reply(`❌ ${validationError}`, {
+						reply_markup: {
+							inline_keyboard: [
+								[{ text: backButtonText, callback_data: `set_tp_ladder_${tokenAddress}` }]
+							]
+						}
+					});
+					return;
+				}
+
+				token.takeProfitLevels = levels;
+				break;
+			}
+
+			case 'trailing_stop':
+				if (numericValue >= 100) {
+					const backButtonText = await getTranslation({ from: { id: userId } } as Context, 'common.back');
+					await ctx.reply('❌ Trailing stop must be below 100%.', {
+						reply_markup: {
+							inline_keyboard: [
+								[{ text: backButtonText, callback_data: `set_trailing_stop_${tokenAddress}` }]
+							]
+						}
+					});
+					return;
+				}
+				token.trailingStopPercent = numericValue;
+				break;
 		}
 
 		await token.save();
@@ -910,7 +977,9 @@ async function handleAutoTradeInput(ctx: Context, text: string, session: any) {
 			'entry_marketcap': 'Entry market cap target',
 			'entry_amount': 'Entry amount',
 			'take_profit': 'Take profit price',
-			'stop_loss': 'Stop loss price'
+			'stop_loss': 'Stop loss price',
+			'tp_level': 'Take profit level',
+			'trailing_stop': 'Trailing stop'
 		};
 
 		await ctx.reply(`✅ ${fieldNames[waitingForInput]} set successfully!`);
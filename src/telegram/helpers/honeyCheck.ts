@@ -1,5 +1,6 @@
 import { Context } from 'telegraf';
 import { KeeperService, HONEY_COSTS } from '../../services/keeper';
+import { HoneySubscriptionService, UNLIMITED } from '../../services/honey/subscriptions';
 import { HoneyFeature } from '../../database/models/HoneyTransaction';
 import { getUserLanguage } from '../../i18n';
 
@@ -31,6 +32,21 @@ export async function checkHoneyAndProceed(
 
   const lang = await getUserLanguage(userId);
   const cost = HONEY_COSTS[feature];
+
+  // Uses included in the user's monthly plan don't cost Honey until the allowance runs out
+  const allowance = await HoneySubscriptionService.consumeAllowance(userId, feature);
+  if (allowance.covered) {
+    const left = allowance.remaining === UNLIMITED
+      ? ''
+      : lang === 'zh' ? ` | 本期剩余 ${allowance.remaining} 次` : ` | ${allowance.remaining} left this period`;
+    const notification = lang === 'zh' ? `✅ 已包含在您的套餐中${left}` : `✅ Included in your plan${left}`;
+
+    if ('callbackQuery' in ctx.update && ctx.update.callbackQuery) {
+      await ctx.answerCbQuery(notification, { show_alert: false });
+    }
+    await proceedCallback();
+    return;
+  }
   
   // Check if user has enough honey
   const hasEnough = await KeeperService.hasEnoughHoney(userId, feature);
@@ -0,0 +1,295 @@
+import { Context, Markup } from 'telegraf';
+import SignClient from '@walletconnect/sign-client';
+import { approvalService, encodeRevokeData, TokenApproval } from '@/services/wallet/approvals';
+import { transactionPreflightService, formatPreflightReport } from '@/services/wallet/preflight';
+import { hapiAddressRiskService } from '@/services/hapiLabs/addressRisk';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('telegram.menus.approvals');
+
+export type ApprovalWallet = 'main' | 'trading';
+
+// Allowances listed at once so the message stays under Telegram's length limit
+const MAX_ROWS = 15;
+
+export class ApprovalsMenu {
+    /**
+     * Show the live ERC-20 allowances of the main or trading wallet with revoke buttons
+     */
+    static async showApprovals(ctx: Context, wallet: ApprovalWallet = 'main'): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const walletAddress = await this.getWalletAddress(userId, wallet);
+        const walletName = wallet === 'main' ? 'Main Wallet' : 'Trading Wallet';
+        if (!walletAddress) {
+            await this.render(ctx, `🔐 **Token Approvals**\n\n❌ No ${walletName.toLowerCase()} found.`, this.walletSwitchKeyboard(wallet, []));
+            return;
+        }
+
+        await this.render(ctx, `🔐 **Token Approvals**\n\n🔍 Scanning allowances of your ${walletName.toLowerCase()}...`, { inline_keyboard: [] });
+
+        let approvals: TokenApproval[];
+        try {
+            approvals = await approvalService.getApprovals(walletAddress);
+        } catch (error) {
+            logger.error('Error scanning approvals', { error, userId, wallet });
+            await this.render(ctx, `🔐 **Token Approvals**\n\n❌ Could not load approvals right now. Please try again later.`, this.walletSwitchKeyboard(wallet, []));
+            return;
+        }
+
+        const shown = approvals.slice(0, MAX_ROWS);
+        const session = global.userSessions.get(userId);
+        if (session) {
+            session.approvals = {
+                wallet,
+                walletAddress,
+                entries: shown.map(approval => ({
+                    tokenAddress: approval.tokenAddress,
+                    tokenSymbol: approval.tokenSymbol,
+                    spender: approval.spender,
+                    spenderLabel: approval.spenderLabel
+                }))
+            };
+        }
+
+        let message = `🔐 **Token Approvals: ${walletName}**\n\`${walletAddress}\`\n\n`;
+        if (approvals.length === 0) {
+            message += `✅ No open allowances. No contract can move tokens out of this wallet.`;
+        } else {
+            const unlimited = approvals.filter(approval => approval.isUnlimited).length;
+            const flagged = approvals.filter(approval => approval.riskRating === 'HIGH' || approval.riskRating === 'CRITICAL').length;
+            message += `${approvals.length} open allowance${approvals.length === 1 ? '' : 's'} • ${unlimited} unlimited`;
+            message += flagged > 0 ? ` • 🚨 ${flagged} to flagged spenders\n` : `\n`;
+
+            shown.forEach((approval, index) => {
+                message += `\n${index + 1}. ${hapiAddressRiskService.getRiskEmoji(approval.riskRating)} **${this.escape(approval.tokenSymbol)}** → ${this.formatSpender(approval)}\n`;
+                message += `   └ ${approval.isUnlimited ? '⚠️ Unlimited' : this.formatAmount(approval.allowanceFormatted)}`;
+                if (approval.usdAtRisk) {
+                    message += ` • $${approval.usdAtRisk.toFixed(2)} at risk`;
+                }
+                if (approval.riskRating !== 'UNKNOWN') {
+                    message += ` • ${approval.riskRating}${approval.riskCategory && approval.riskCategory !== 'Clean' ? ` (${this.escape(approval.riskCategory)})` : ''}`;
+                }
+                if (!approval.spenderIsContract) {
+                    message += ` • ⚠️ spender is a wallet`;
+                }
+                message += `\n`;
+            });
+
+            if (approvals.length > shown.length) {
+                message += `\n_${approvals.length - shown.length} lower-risk allowances not shown._\n`;
+            }
+            message += `\n_Revoking sets the allowance to 0 and costs a small gas fee._`;
+        }
+
+        const revokeButtons = shown.map((approval, index) =>
+            Markup.button.callback(`❌ ${index + 1}. ${approval.tokenSymbol.slice(0, 10)}`, `apr_revoke:${index}`)
+        );
+        await this.render(ctx, message, this.walletSwitchKeyboard(wallet, revokeButtons));
+    }
+
+    static async confirmRevoke(ctx: Context, index: number): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const approvals = global.userSessions.get(userId)?.approvals;
+        const entry = approvals?.entries[index];
+        if (!approvals || !entry) {
+            await ctx.answerCbQuery('Approval list expired, refreshing...');
+            await this.showApprovals(ctx);
+            return;
+        }
+
+        const walletName = approvals.wallet === 'main' ? 'main wallet' : 'trading wallet';
+        const message = `❌ **Revoke Approval**\n\n` +
+            `Token: **${this.escape(entry.tokenSymbol)}** \`${entry.tokenAddress}\`\n` +
+            `Spender: ${entry.spenderLabel ? `${this.escape(entry.spenderLabel)} ` : ''}\`${entry.spender}\`\n` +
+            `Wallet: ${walletName}\n\n` +
+            (approvals.wallet === 'trading'
+                ? `The bot will send the revoke from your trading wallet.`
+                : `You will confirm the revoke in your wallet.`);
+
+        await this.render(ctx, message, {
+            inline_keyboard: [
+                [Markup.button.callback('✅ Confirm Revoke', `apr_confirm:${index}`)],
+                [Markup.button.callback('🔙 Back', `approvals_${approvals.wallet}`)]
+            ]
+        });
+    }
+
+    /**
+     * preflightConfirmed is set once the user has accepted a HIGH risk pre-flight check
+     */
+    static async executeRevoke(ctx: Context, index: number, preflightConfirmed: boolean = false): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const session = global.userSessions.get(userId);
+        const approvals = session?.approvals;
+        const entry = approvals?.entries[index];
+        if (!session || !approvals || !entry) {
+            await ctx.answerCbQuery('Approval list expired, refreshing...');
+            await this.showApprovals(ctx);
+            return;
+        }
+
+        await ctx.answerCbQuery();
+        const backKeyboard = { inline_keyboard: [[Markup.button.callback('🔐 Back to Approvals', `approvals_${approvals.wallet}`)]] };
+
+        if (approvals.wallet === 'trading') {
+            await this.render(ctx, `⏳ Revoking **${this.escape(entry.tokenSymbol)}** allowance from your trading wallet...`, { inline_keyboard: [] });
+            try {
+                const txHash = await approvalService.revokeFromTradingWallet(userId, entry.tokenAddress, entry.spender);
+                await this.render(ctx, `✅ **Approval Revoked**\n\n${this.escape(entry.tokenSymbol)} can no longer be moved by \`${entry.spender}\`.\n[View on BSCScan](https://bscscan.com/tx/${txHash})`, backKeyboard);
+            } catch (error) {
+                logger.error('Error revoking trading wallet approval', { error, userId, tokenAddress: entry.tokenAddress, spender: entry.spender });
+                const reason = error instanceof Error ? error.message : String(error);
+                await this.render(ctx, `❌ **Revoke Failed**\n\n${this.escape(reason.slice(0, 200))}`, backKeyboard);
+            }
+            return;
+        }
+
+        // Main wallet: WalletConnect when a session is live, otherwise the web frontend
+        if (session.client && session.address) {
+            await this.revokeViaWalletConnect(ctx, userId, session.client, session.address, index, entry, backKeyboard, preflightConfirmed);
+            return;
+        }
+
+        const { generateRevokeLink } = await import('../../api/server');
+        const taskUrl = generateRevokeLink(userId, entry.tokenAddress, entry.spender, entry.tokenSymbol, 'approvals_main');
+        await this.render(ctx, `➡️ **Confirm Revoke**\n\nTap the button below to revoke the **${this.escape(entry.tokenSymbol)}** allowance from your main wallet in your web wallet.`, {
+            inline_keyboard: [
+                [Markup.button.url('🔗 Confirm in Browser', taskUrl)],
+                [Markup.button.callback('🔙 Back', 'approvals_main')]
+            ]
+        });
+    }
+
+    private static async revokeViaWalletConnect(
+        ctx: Context,
+        userId: number,
+        client: SignClient,
+        address: string,
+        index: number,
+        entry: { tokenAddress: string; tokenSymbol: string; spender: string },
+        backKeyboard: { inline_keyboard: any[][] },
+        preflightConfirmed: boolean
+    ): Promise<void> {
+        const { UserService } = await import('../../services/user');
+        const walletConnection = await UserService.getWalletConnection(userId);
+        if (!walletConnection?.topic || !client.session.getAll().some(s => s.topic === walletConnection.topic)) {
+            await this.render(ctx, `❌ Your wallet session has expired. Please reconnect your wallet and try again.`, backKeyboard);
+            return;
+        }
+
+        const tx = { from: address, to: entry.tokenAddress, value: '0x0', data: encodeRevokeData(entry.spender) };
+        const title = `❌ **Revoke ${this.escape(entry.tokenSymbol)} Approval**\n\n`;
+
+        try {
+            const preflight = await transactionPreflightService.check(tx);
+            if (preflight.requiresConfirmation && !preflightConfirmed) {
+                await this.render(ctx, `${title}${formatPreflightReport(preflight)}\n🚨 This transaction was rated high risk. Only continue if you understand why.`, {
+                    inline_keyboard: [
+                        [Markup.button.callback('⚠️ I understand, send to wallet', `apr_force:${index}`)],
+                        ...backKeyboard.inline_keyboard
+                    ]
+                });
+                return;
+            }
+
+            await this.render(ctx, `${title}${formatPreflightReport(preflight)}\n⏳ Please confirm the transaction in your wallet...`, { inline_keyboard: [] });
+
+            const txHash = await client.request<string>({
+                topic: walletConnection.topic,
+                chainId: 'eip155:56', // BSC mainnet
+                request: {
+                    method: 'eth_sendTransaction',
+                    params: [tx]
+                }
+            });
+            const txLink = `[View on BSCScan](https://bscscan.com/tx/${txHash})`;
+            await this.render(ctx, `${title}⏳ Revoke submitted, waiting for confirmation...\n${txLink}`, { inline_keyboard: [] });
+
+            const status = await approvalService.waitForRevoke(txHash);
+            if (status === 'confirmed') {
+                await this.render(ctx, `✅ **Approval Revoked**\n\n${this.escape(entry.tokenSymbol)} can no longer be moved by \`${entry.spender}\`.\n${txLink}`, backKeyboard);
+            } else if (status === 'failed') {
+                await this.render(ctx, `❌ **Revoke Failed**\n\nThe transaction reverted, the allowance is unchanged.\n${txLink}`, backKeyboard);
+            } else {
+                await this.render(ctx, `⏳ **Revoke Submitted**\n\nThe transaction isn't confirmed yet. Refresh the approvals list in a few minutes to check it.\n${txLink}`, backKeyboard);
+            }
+        } catch (error: any) {
+            logger.error('Error revoking main wallet approval', { userId, tokenAddress: entry.tokenAddress, error: error instanceof Error ? error.message : String(error) });
+            const message = error?.message?.includes('rejected')
+                ? '❌ Revoke was rejected in your wallet.'
+                : '❌ **Revoke Failed**\n\nPlease try again.';
+            await this.render(ctx, message, backKeyboard);
+        }
+    }
+
+    private static async getWalletAddress(userId: number, wallet: ApprovalWallet): Promise<string | undefined> {
+        const { UserService } = await import('../../services/user');
+        if (wallet === 'trading') {
+            return (await UserService.getTradingWalletAddress(userId)) || undefined;
+        }
+        return global.userSessions.get(userId)?.address || await UserService.getMainWalletAddress(userId);
+    }
+
+    private static walletSwitchKeyboard(wallet: ApprovalWallet, revokeButtons: ReturnType<typeof Markup.button.callback>[]) {
+        const rows: ReturnType<typeof Markup.button.callback>[][] = [];
+        for (let i = 0; i < revokeButtons.length; i += 3) {
+            rows.push(revokeButtons.slice(i, i + 3));
+        }
+
+        const walletButton = (target: ApprovalWallet, label: string) =>
+            Markup.button.callback(`${wallet === target ? '✅ ' : ''}${label}`, `approvals_${target}`);
+
+        return {
+            inline_keyboard: [
+                ...rows,
+                [walletButton('main', '🔗 Main'), walletButton('trading', '🤖 Trading')],
+                [Markup.button.callback('🔄 Refresh', `approvals_${wallet}`)],
+                [Markup.button.callback('🔙 Back', 'wallet_info')]
+            ]
+        };
+    }
+
+    private static formatSpender(approval: TokenApproval): string {
+        const short = `${approval.spender.slice(0, 6)}...${approval.spender.slice(-4)}`;
+        const name = approval.spenderLabel ? this.escape(approval.spenderLabel) : short;
+        return `[${name}](https://bscscan.com/address/${approval.spender})`;
+    }
+
+    private static formatAmount(value: string): string {
+        const amount = Number(value);
+        if (amount >= 1_000_000) return `${(amount / 1_000_000).toFixed(2)}M`;
+        if (amount >= 1_000) return `${(amount / 1_000).toFixed(2)}K`;
+        return amount.toLocaleString(undefined, { maximumFractionDigits: 4 });
+    }
+
+    // Labels and symbols come from third parties and can break Markdown
+    private static escape(text: string): string {
+        return text.replace(/[*_`[\]]/g, '');
+    }
+
+    private static async render(ctx: Context, message: string, keyboard: { inline_keyboard: any[][] }): Promise<void> {
+        if (ctx.callbackQuery) {
+            try {
+                await ctx.editMessageText(message, {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboard,
+                    link_preview_options: { is_disabled: true }
+                });
+                return;
+            } catch (editError) {
+                logger.warn('Failed to edit message, sending new one', { error: editError });
+            }
+        }
+        await ctx.reply(message, {
+            parse_mode: 'Markdown',
+            reply_markup: keyboard,
+            link_preview_options: { is_disabled: true }
+        });
+    }
+}
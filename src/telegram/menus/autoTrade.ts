@@ -1,6 +1,6 @@
 import { Context, Markup } from 'telegraf';
 import { getTranslation } from '@/i18n';
-import { TrackedTokenModel } from '@/database/models/TrackedToken';
+import { TrackedTokenModel, TakeProfitLevel } from '@/database/models/TrackedToken';
 import { createLogger } from '@/utils/logger';
 
 const logger = createLogger('telegram.menus.autoTrade');
@@ -71,17 +71,36 @@ export class AutoTradeMenu {
 
             // Exit Rules
             message += `\n**📉 Exit Rules:**\n`;
-            if (token.takeProfitPrice || token.stopLossPrice) {
+            const takeProfitLevels = token.takeProfitLevels || [];
+            if (token.takeProfitPrice || token.stopLossPrice || takeProfitLevels.length > 0 || token.trailingStopPercent) {
                 if (token.takeProfitPrice) {
                     message += `• Take Profit: $${token.takeProfitPrice}\n`;
                 }
+                takeProfitLevels.forEach((level, index) => {
+                    const status = level.executed ? ' ✅' : '';
+                    message += `• TP${index + 1}: sell ${level.sellPercentage}% at $${level.price.toPrecision(6)}${status}\n`;
+                });
                 if (token.stopLossPrice) {
                     message += `• Stop Loss: $${token.stopLossPrice}\n`;
                 }
+                if (token.trailingStopPercent) {
+                    message += `• Trailing Stop: ${token.trailingStopPercent}% below peak`;
+                    if (token.autoTradeStatus === 'position_open' && token.highestPriceSinceEntry) {
+                        const stopPrice = token.highestPriceSinceEntry * (1 - token.trailingStopPercent / 100);
+                        message += ` (peak $${token.highestPriceSinceEntry.toPrecision(6)}, stop $${stopPrice.toPrecision(6)})`;
+                    }
+                    message += `\n`;
+                }
             } else {
                 message += `• Not configured\n`;
             }
 
+            if (token.autoTradeStatus === 'position_open' && token.entryPrice) {
+                message += `\n**📦 Position:**\n`;
+                message += `• Entry Price: $${token.entryPrice.toPrecision(6)}\n`;
+                message += `• Sold So Far: ${(token.soldPercentage || 0).toFixed(0)}%\n`;
+            }
+
             const keyboard = this.buildAutoTradeKeyboard(token.isAutoTradeActive, tokenAddress);
 
             try {
@@ -178,8 +197,13 @@ export class AutoTradeMenu {
                         entryAmountUSD: 1,
                         takeProfitPrice: 1,
                         stopLossPrice: 1,
+                        trailingStopPercent: 1,
+                        entryPrice: 1,
+                        highestPriceSinceEntry: 1,
                         autoTradeStatus: 1
                     },
+                    takeProfitLevels: [],
+                    soldPercentage: 0,
                     isAutoTradeActive: false
                 }
             );
@@ -492,12 +516,21 @@ export class AutoTradeMenu {
                     Markup.button.callback('📈 Entry Rules', `set_entry_rules_${tokenAddress}`),
                     Markup.button.callback('📊 Take Profit', `set_take_profit_${tokenAddress}`)
                 ],
+                [
+                    Markup.button.callback('🪜 TP Ladder', `set_tp_ladder_${tokenAddress}`),
+                    Markup.button.callback('📐 Trailing Stop', `set_trailing_stop_${tokenAddress}`)
+                ],
                 [
                     Markup.button.callback('📉 Stop Loss', `set_stop_loss_${tokenAddress}`),
                     Markup.button.callback('🗑️ Clear All', `clear_autotrade_${tokenAddress}`)
                 ],
                 [
-                    Markup.button.callback('🔄 Refresh Price', `refresh_autotrade_${tokenAddress}`)
+                    Markup.button.callback('📑 Limit Orders', `lo_token_${tokenAddress}`),
+                    Markup.button.callback('🔁 DCA Schedules', `dca_menu_${tokenAddress}`)
+                ],
+                [
+                    Markup.button.callback('🔄 Refresh Price', `refresh_autotrade_${tokenAddress}`),
+                    Markup.button.callback('🧪 Backtest', `backtest_${tokenAddress}`)
                 ],
                 [
                     Markup.button.callback('🔙 Back', 'manage_tracked_tokens')
@@ -1290,4 +1323,482 @@ export class AutoTradeMenu {
             await ctx.answerCbQuery('❌ Error setting stop loss', { show_alert: true });
         }
     }
-}
\ No newline at end of file
+    /**
+     * Initiate the take profit ladder setup with preset options
+     */
+    static async initiateTakeProfitLadderSetup(ctx: Context, tokenAddress: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const token = await TrackedTokenModel.findOne({
+                telegramId: userId,
+                tokenAddress: tokenAddress.toLowerCase(),
+                isActive: true
+            });
+
+            if (!token || !token.currentPrice) {
+                await ctx.editMessageText('❌ Token data not found. Please refresh token prices first.', {
+                    reply_markup: {
+                        inline_keyboard: [
+                            [Markup.button.callback('🔙 Back', `autotrade_rules_${tokenAddress}`)]
+                        ]
+                    }
+                });
+                return;
+            }
+
+            // Store token info in session so typed "<price> <sell %>" input is picked up directly
+            let session = global.userSessions.get(userId);
+            if (!session) {
+                const { WalletService } = await import('@/services/wallet/connect');
+                const walletService = new WalletService(global.userSessions);
+                await walletService.initializeConnection(userId);
+                session = global.userSessions.get(userId);
+            }
+            if (session) {
+                session.autoTradeSetup = {
+                    waitingForInput: 'tp_level',
+                    tokenAddress: tokenAddress
+                };
+                global.userSessions.set(userId, session);
+            }
+
+            const currentPrice = parseFloat(token.currentPrice);
+            const levels = token.takeProfitLevels || [];
+
+            let message = `🪜 **Take Profit Ladder**\n\n` +
+                `Sell your position in steps as the price rises. Each level sells a share of the original position.\n\n` +
+                `**Current Price:** $${currentPrice.toPrecision(6)}\n\n`;
+
+            if (levels.length > 0) {
+                message += `**Current Levels:**\n`;
+                levels.forEach((level, index) => {
+                    const status = level.executed ? ' ✅' : '';
+                    message += `• TP${index + 1}: sell ${level.sellPercentage}% at $${level.price.toPrecision(6)}${status}\n`;
+                });
+                const total = levels.reduce((sum, level) => sum + level.sellPercentage, 0);
+                message += `• Total: ${total}% of position\n\n`;
+            }
+
+            message += `Choose a preset ladder (replaces current levels) or add a custom level:`;
+
+            const keyboard = {
+                inline_keyboard: [
+                    [Markup.button.callback('🛡️ Conservative: +20% / +50%', 'tpl_conservative')],
+                    [Markup.button.callback('⚖️ Balanced: +50% / +100% / +200%', 'tpl_balanced')],
+                    [Markup.button.callback('🚀 Moonshot: +100% / +300% / +900%', 'tpl_moonshot')],
+                    [
+                        Markup.button.callback('➕ Add Level', 'tpl_custom'),
+                        Markup.button.callback('🗑️ Clear Ladder', 'tpl_clear')
+                    ],
+                    [Markup.button.callback('❌ Cancel', `autotrade_rules_${tokenAddress}`)]
+                ]
+            };
+
+            try {
+                await ctx.editMessageText(message, {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboard
+                });
+            } catch (editError) {
+                logger.warn('Failed to edit message, sending new one', { error: editError });
+                await ctx.reply(message, {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboard
+                });
+            }
+
+        } catch (error) {
+            logger.error('Error initiating take profit ladder setup', { error, userId, tokenAddress });
+            const backButtonText = await getTranslation(ctx, 'common.back');
+            await ctx.reply('❌ Error setting up take profit ladder', {
+                reply_markup: {
+                    inline_keyboard: [
+                        [{ text: backButtonText, callback_data: `autotrade_rules_${tokenAddress}` }]
+                    ]
+                }
+            });
+        }
+    }
+
+    /**
+     * Handle take profit ladder preset selection using session
+     */
+    static async handleTakeProfitLadderPreset(ctx: Context, preset: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const session = global.userSessions.get(userId);
+            if (!session?.autoTradeSetup?.tokenAddress) {
+                await ctx.answerCbQuery('❌ Session expired, please try again', { show_alert: true });
+                return;
+            }
+
+            const tokenAddress = session.autoTradeSetup.tokenAddress;
+
+            const token = await TrackedTokenModel.findOne({
+                telegramId: userId,
+                tokenAddress: tokenAddress.toLowerCase(),
+                isActive: true
+            });
+
+            if (!token || !token.currentPrice) {
+                await ctx.answerCbQuery('❌ Token data not found', { show_alert: true });
+                return;
+            }
+
+            const currentPrice = parseFloat(token.currentPrice);
+            let steps: Array<{ gain: number; sellPercentage: number }>;
+
+            switch (preset) {
+                case 'conservative':
+                    steps = [{ gain: 20, sellPercentage: 50 }, { gain: 50, sellPercentage: 50 }];
+                    break;
+                case 'balanced':
+                    steps = [{ gain: 50, sellPercentage: 33 }, { gain: 100, sellPercentage: 33 }, { gain: 200, sellPercentage: 34 }];
+                    break;
+                case 'moonshot':
+                    steps = [{ gain: 100, sellPercentage: 25 }, { gain: 300, sellPercentage: 25 }, { gain: 900, sellPercentage: 50 }];
+                    break;
+                default:
+                    await ctx.answerCbQuery('❌ Invalid preset', { show_alert: true });
+                    return;
+            }
+
+            const levels: TakeProfitLevel[] = steps.map(step => ({
+                price: currentPrice * (1 + step.gain / 100),
+                sellPercentage: step.sellPercentage
+            }));
+
+            await TrackedTokenModel.updateOne(
+                { telegramId: userId, tokenAddress: tokenAddress.toLowerCase() },
+                { takeProfitLevels: levels }
+            );
+
+            // Clear session
+            delete session.autoTradeSetup;
+            global.userSessions.set(userId, session);
+
+            await ctx.answerCbQuery('✅ Take profit ladder set!', { show_alert: true });
+
+            let message = `✅ **Take Profit Ladder Set Successfully!**\n\n`;
+            levels.forEach((level, index) => {
+                message += `• TP${index + 1}: sell ${level.sellPercentage}% at $${level.price.toPrecision(6)} (+${steps[index].gain}%)\n`;
+            });
+            message += `\nThe system will sell each portion automatically when its price is reached.`;
+
+            const keyboard = {
+                inline_keyboard: [
+                    [Markup.button.callback('🔙 Back to Auto-Trade', `autotrade_rules_${tokenAddress}`)]
+                ]
+            };
+
+            await ctx.editMessageText(message, {
+                parse_mode: 'Markdown',
+                reply_markup: keyboard
+            });
+
+        } catch (error) {
+            logger.error('Error handling take profit ladder preset', { error, userId, preset });
+            await ctx.answerCbQuery('❌ Error setting take profit ladder', { show_alert: true });
+        }
+    }
+
+    /**
+     * Handle custom take profit level input
+     */
+    static async handleCustomTakeProfitLevel(ctx: Context): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const session = global.userSessions.get(userId);
+            if (!session?.autoTradeSetup?.tokenAddress) {
+                await ctx.answerCbQuery('❌ Session expired, please try again', { show_alert: true });
+                return;
+            }
+
+            // Update session to wait for custom level input
+            session.autoTradeSetup.waitingForInput = 'tp_level';
+            global.userSessions.set(userId, session);
+
+            const token = await TrackedTokenModel.findOne({
+                telegramId: userId,
+                tokenAddress: session.autoTradeSetup.tokenAddress.toLowerCase(),
+                isActive: true
+            });
+
+            const currentPrice = token?.currentPrice ? parseFloat(token.currentPrice) : 0;
+            const currentPriceText = currentPrice ? `$${currentPrice.toPrecision(6)}` : 'N/A';
+
+            let message = `➕ **Add Take Profit Level**\n\n` +
+                `**Current Price:** ${currentPriceText}\n\n` +
+                `Enter the target price (in USD) and the percentage of your position to sell, separated by a space:\n\n` +
+                `**Examples:**\n`;
+            if (currentPrice) {
+                message += `• ${(currentPrice * 1.5).toPrecision(6)} 25 (sell 25% at +50%)\n` +
+                    `• ${(currentPrice * 3).toPrecision(6)} 50 (sell 50% at +200%)`;
+            } else {
+                message += `• 2.5 25 (sell 25% at $2.50)\n` +
+                    `• 5 50 (sell 50% at $5.00)`;
+            }
+
+            const keyboard = {
+                inline_keyboard: [
+                    [Markup.button.callback('❌ Cancel', `autotrade_rules_${session.autoTradeSetup.tokenAddress}`)]
+                ]
+            };
+
+            await ctx.editMessageText(message, {
+                parse_mode: 'Markdown',
+                reply_markup: keyboard
+            });
+
+        } catch (error) {
+            logger.error('Error handling custom take profit level', { error, userId });
+            await ctx.answerCbQuery('❌ Error setting up take profit level', { show_alert: true });
+        }
+    }
+
+    /**
+     * Remove all take profit levels for the token in session
+     */
+    static async clearTakeProfitLadder(ctx: Context): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const session = global.userSessions.get(userId);
+            if (!session?.autoTradeSetup?.tokenAddress) {
+                await ctx.answerCbQuery('❌ Session expired, please try again', { show_alert: true });
+                return;
+            }
+
+            const tokenAddress = session.autoTradeSetup.tokenAddress;
+
+            await TrackedTokenModel.updateOne(
+                { telegramId: userId, tokenAddress: tokenAddress.toLowerCase() },
+                { takeProfitLevels: [] }
+            );
+
+            delete session.autoTradeSetup;
+            global.userSessions.set(userId, session);
+
+            await ctx.answerCbQuery('✅ Take profit ladder cleared', { show_alert: true });
+            await this.handleAutoTradeMenu(ctx, tokenAddress);
+
+        } catch (error) {
+            logger.error('Error clearing take profit ladder', { error, userId });
+            await ctx.answerCbQuery('❌ Error clearing take profit ladder', { show_alert: true });
+        }
+    }
+
+    /**
+     * Initiate the trailing stop setup with preset options
+     */
+    static async initiateTrailingStopSetup(ctx: Context, tokenAddress: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const token = await TrackedTokenModel.findOne({
+                telegramId: userId,
+                tokenAddress: tokenAddress.toLowerCase(),
+                isActive: true
+            });
+
+            if (!token) {
+                await ctx.editMessageText('❌ Token not found or no longer tracked.', {
+                    reply_markup: {
+                        inline_keyboard: [
+                            [Markup.button.callback('🔙 Back', `autotrade_rules_${tokenAddress}`)]
+                        ]
+                    }
+                });
+                return;
+            }
+
+            // Store token info in session to avoid long callback data
+            let session = global.userSessions.get(userId);
+            if (!session) {
+                const { WalletService } = await import('@/services/wallet/connect');
+                const walletService = new WalletService(global.userSessions);
+                await walletService.initializeConnection(userId);
+                session = global.userSessions.get(userId);
+            }
+            if (session) {
+                session.autoTradeSetup = {
+                    waitingForInput: 'trailing_stop',
+                    tokenAddress: tokenAddress
+                };
+                global.userSessions.set(userId, session);
+            }
+
+            const currentSetting = token.trailingStopPercent
+                ? `${token.trailingStopPercent}% below peak`
+                : 'Not configured';
+
+            const message = `📐 **Set Trailing Stop**\n\n` +
+                `The trailing stop follows the highest price reached since your entry and sells the remaining position when the price drops by the chosen percentage from that peak.\n\n` +
+                `**Current Setting:** ${currentSetting}\n\n` +
+                `Select a trailing distance:`;
+
+            const keyboard = {
+                inline_keyboard: [
+                    [
+                        Markup.button.callback('📐 5%', 'tstop_5'),
+                        Markup.button.callback('📐 10%', 'tstop_10')
+                    ],
+                    [
+                        Markup.button.callback('📐 15%', 'tstop_15'),
+                        Markup.button.callback('📐 20%', 'tstop_20')
+                    ],
+                    [
+                        Markup.button.callback('📐 30%', 'tstop_30'),
+                        Markup.button.callback('✏️ Custom', 'tstop_custom')
+                    ],
+                    [
+                        Markup.button.callback('🚫 Remove Trailing Stop', 'tstop_off')
+                    ],
+                    [
+                        Markup.button.callback('❌ Cancel', `autotrade_rules_${tokenAddress}`)
+                    ]
+                ]
+            };
+
+            try {
+                await ctx.editMessageText(message, {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboard
+                });
+            } catch (editError) {
+                logger.warn('Failed to edit message, sending new one', { error: editError });
+                await ctx.reply(message, {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboard
+                });
+            }
+
+        } catch (error) {
+            logger.error('Error initiating trailing stop setup', { error, userId, tokenAddress });
+            const backButtonText = await getTranslation(ctx, 'common.back');
+            await ctx.reply('❌ Error setting up trailing stop', {
+                reply_markup: {
+                    inline_keyboard: [
+                        [{ text: backButtonText, callback_data: `autotrade_rules_${tokenAddress}` }]
+                    ]
+                }
+            });
+        }
+    }
+
+    /**
+     * Handle trailing stop preset selection using session
+     */
+    static async handleTrailingStopPreset(ctx: Context, preset: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const session = global.userSessions.get(userId);
+            if (!session?.autoTradeSetup?.tokenAddress) {
+                await ctx.answerCbQuery('❌ Session expired, please try again', { show_alert: true });
+                return;
+            }
+
+            const tokenAddress = session.autoTradeSetup.tokenAddress;
+
+            if (preset === 'off') {
+                await TrackedTokenModel.updateOne(
+                    { telegramId: userId, tokenAddress: tokenAddress.toLowerCase() },
+                    { $unset: { trailingStopPercent: 1 } }
+                );
+
+                delete session.autoTradeSetup;
+                global.userSessions.set(userId, session);
+
+                await ctx.answerCbQuery('✅ Trailing stop removed', { show_alert: true });
+                await this.handleAutoTradeMenu(ctx, tokenAddress);
+                return;
+            }
+
+            const percent = parseFloat(preset);
+            if (isNaN(percent) || percent <= 0 || percent >= 100) {
+                await ctx.answerCbQuery('❌ Invalid preset', { show_alert: true });
+                return;
+            }
+
+            await TrackedTokenModel.updateOne(
+                { telegramId: userId, tokenAddress: tokenAddress.toLowerCase() },
+                { trailingStopPercent: percent }
+            );
+
+            delete session.autoTradeSetup;
+            global.userSessions.set(userId, session);
+
+            await ctx.answerCbQuery('✅ Trailing stop set!', { show_alert: true });
+
+            const message = `✅ **Trailing Stop Set Successfully!**\n\n` +
+                `**Trailing Distance:** ${percent}% below peak\n\n` +
+                `Once a position is open, the system will sell the remaining tokens if the price falls ${percent}% below the highest price seen since entry.`;
+
+            const keyboard = {
+                inline_keyboard: [
+                    [Markup.button.callback('🔙 Back to Auto-Trade', `autotrade_rules_${tokenAddress}`)]
+                ]
+            };
+
+            await ctx.editMessageText(message, {
+                parse_mode: 'Markdown',
+                reply_markup: keyboard
+            });
+
+        } catch (error) {
+            logger.error('Error handling trailing stop preset', { error, userId, preset });
+            await ctx.answerCbQuery('❌ Error setting trailing stop', { show_alert: true });
+        }
+    }
+
+    /**
+     * Handle custom trailing stop input
+     */
+    static async handleCustomTrailingStop(ctx: Context): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const session = global.userSessions.get(userId);
+            if (!session?.autoTradeSetup?.tokenAddress) {
+                await ctx.answerCbQuery('❌ Session expired, please try again', { show_alert: true });
+                return;
+            }
+
+            // Update session to wait for custom trailing stop input
+            session.autoTradeSetup.waitingForInput = 'trailing_stop';
+            global.userSessions.set(userId, session);
+
+            const message = `📐 **Enter Custom Trailing Stop**\n\n` +
+                `Please enter the trailing distance as a percentage below the peak price:\n\n` +
+                `**Examples:**\n` +
+                `• 8 (sell after an 8% drop from the peak)\n` +
+                `• 12.5 (sell after a 12.5% drop from the peak)\n` +
+                `• 40 (sell after a 40% drop from the peak)`;
+
+            const keyboard = {
+                inline_keyboard: [
+                    [Markup.button.callback('❌ Cancel', `autotrade_rules_${session.autoTradeSetup.tokenAddress}`)]
+                ]
+            };
+
+            await ctx.editMessageText(message, {
+                parse_mode: 'Markdown',
+                reply_markup: keyboard
+            });
+
+        } catch (error) {
+            logger.error('Error handling custom trailing stop', { error, userId });
+            await ctx.answerCbQuery('❌ Error setting up custom trailing stop', { show_alert: true });
+        }
+    }}
\ No newline at end of file
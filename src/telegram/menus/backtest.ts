@@ -0,0 +1,248 @@
+import { Context, Markup } from 'telegraf';
+import { TrackedTokenModel, TrackedToken } from '@/database/models/TrackedToken';
+import { PriceSampleModel } from '@/database/models/PriceSample';
+import { runBacktest, BacktestResult, BacktestRuleSet, DEFAULT_BACKTEST_COSTS } from '@/services/autoTrade/backtester';
+import { hasEntryRule } from '@/services/autoTrade/entryRules';
+import { formatExitReason } from '@/services/autoTrade/exitRules';
+import { loadRecordedPrices } from '@/services/autoTrade/priceHistory';
+import { getBNBPrice } from '@/services/wallet/tokenPriceCache';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('telegram.menus.backtest');
+
+const BACKTEST_WINDOWS: Record<string, { label: string; hours: number }> = {
+    '24h': { label: 'last 24 hours', hours: 24 },
+    '7d': { label: 'last 7 days', hours: 7 * 24 },
+    '30d': { label: 'last 30 days', hours: 30 * 24 }
+};
+
+// Entry used when a rule set only has exit rules
+const DEFAULT_SIMULATED_ENTRY_BNB = 0.1;
+const MAX_FILLS_SHOWN = 10;
+
+export class BacktestMenu {
+    /**
+     * Show backtest options for a token's auto-trade rules
+     */
+    static async showBacktestMenu(ctx: Context, tokenAddress: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const token = await TrackedTokenModel.findOne({
+                telegramId: userId,
+                tokenAddress: tokenAddress.toLowerCase(),
+                isActive: true
+            });
+
+            if (!token) {
+                await ctx.editMessageText('❌ Token not found or no longer tracked.', {
+                    reply_markup: {
+                        inline_keyboard: [
+                            [Markup.button.callback('🔙 Back', 'manage_tracked_tokens')]
+                        ]
+                    }
+                });
+                return;
+            }
+
+            const symbol = token.tokenSymbol || 'Unknown';
+            let message = `🧪 **Backtest: ${symbol}**\n\n`;
+            message += `Replay your current auto-trade rules against recorded prices to see how they would have performed.\n\n`;
+
+            if (!this.hasAnyRule(token)) {
+                message += `_No auto-trade rules configured yet. Set an entry, take profit or stop loss first._`;
+            } else {
+                message += `**Recorded prices:**\n`;
+                for (const [key, window] of Object.entries(BACKTEST_WINDOWS)) {
+                    const count = await PriceSampleModel.countDocuments({
+                        tokenAddress: tokenAddress.toLowerCase(),
+                        timestamp: { $gte: new Date(Date.now() - window.hours * 60 * 60 * 1000) }
+                    });
+                    message += `• ${key}: ${count.toLocaleString()} prices\n`;
+                }
+                message += `\nCosts assume ${DEFAULT_BACKTEST_COSTS.slippagePercent}% slippage and ${DEFAULT_BACKTEST_COSTS.gasCostBnb} BNB gas per swap.`;
+            }
+
+            const keyboard = {
+                inline_keyboard: [
+                    ...(this.hasAnyRule(token) ? [this.buildWindowButtons(tokenAddress)] : []),
+                    [Markup.button.callback('🔙 Back to Auto-Trade', `autotrade_rules_${tokenAddress}`)]
+                ]
+            };
+
+            await ctx.editMessageText(message, {
+                parse_mode: 'Markdown',
+                reply_markup: keyboard
+            });
+
+        } catch (error) {
+            logger.error('Error showing backtest menu', { error, userId, tokenAddress });
+            await ctx.reply('❌ Error loading backtest', {
+                reply_markup: {
+                    inline_keyboard: [
+                        [Markup.button.callback('🔙 Back', `autotrade_rules_${tokenAddress}`)]
+                    ]
+                }
+            });
+        }
+    }
+
+    /**
+     * Run the backtest over a time window and show the report
+     */
+    static async runBacktest(ctx: Context, tokenAddress: string, windowKey: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const window = BACKTEST_WINDOWS[windowKey];
+        if (!window) {
+            await ctx.answerCbQuery('❌ Unknown backtest window');
+            return;
+        }
+
+        try {
+            await ctx.answerCbQuery('🧪 Running backtest...');
+
+            const token = await TrackedTokenModel.findOne({
+                telegramId: userId,
+                tokenAddress: tokenAddress.toLowerCase(),
+                isActive: true
+            });
+
+            if (!token) {
+                await ctx.editMessageText('❌ Token not found or no longer tracked.', {
+                    reply_markup: {
+                        inline_keyboard: [
+                            [Markup.button.callback('🔙 Back', 'manage_tracked_tokens')]
+                        ]
+                    }
+                });
+                return;
+            }
+
+            const symbol = token.tokenSymbol || 'Unknown';
+            const since = new Date(Date.now() - window.hours * 60 * 60 * 1000);
+            const prices = await loadRecordedPrices(tokenAddress, since);
+
+            const backKeyboard = {
+                inline_keyboard: [
+                    this.buildWindowButtons(tokenAddress),
+                    [Markup.button.callback('🔙 Back to Auto-Trade', `autotrade_rules_${tokenAddress}`)]
+                ]
+            };
+
+            if (prices.length < 2) {
+                await ctx.editMessageText(
+                    `🧪 **Backtest: ${symbol}**\n\n` +
+                    `Not enough price history for the ${window.label} yet. Prices are recorded while the token is tracked, so try a shorter window or check back later.`,
+                    { parse_mode: 'Markdown', reply_markup: backKeyboard }
+                );
+                return;
+            }
+
+            const rules: BacktestRuleSet = {
+                priceEntryTarget: token.priceEntryTarget,
+                marketCapEntryTarget: token.marketCapEntryTarget,
+                entryAmountBNB: token.entryAmountBNB,
+                entryAmountUSD: token.entryAmountUSD,
+                takeProfitPrice: token.takeProfitPrice,
+                stopLossPrice: token.stopLossPrice,
+                takeProfitLevels: token.takeProfitLevels,
+                trailingStopPercent: token.trailingStopPercent,
+                totalSupply: token.totalSupply
+            };
+
+            // Without an entry rule, buy at the start of the window so the exit rules can be tested
+            const simulatedEntry = !hasEntryRule(rules);
+            if (simulatedEntry) {
+                rules.priceEntryTarget = prices[0].price;
+                rules.entryAmountBNB = token.entryAmountBNB || DEFAULT_SIMULATED_ENTRY_BNB;
+            }
+
+            const bnbPriceUsd = await getBNBPrice();
+            const result = runBacktest(rules, prices, { ...DEFAULT_BACKTEST_COSTS, bnbPriceUsd });
+
+            let message = `🧪 **Backtest: ${symbol}** (${window.label})\n\n`;
+            if (simulatedEntry) {
+                message += `_No entry rule set: simulated a ${rules.entryAmountBNB} BNB buy at the start of the window._\n\n`;
+            }
+            message += this.formatReport(result, symbol, bnbPriceUsd);
+
+            await ctx.editMessageText(message, {
+                parse_mode: 'Markdown',
+                reply_markup: backKeyboard
+            });
+
+        } catch (error) {
+            logger.error('Error running backtest', { error, userId, tokenAddress, windowKey });
+            await ctx.reply('❌ Error running backtest', {
+                reply_markup: {
+                    inline_keyboard: [
+                        [Markup.button.callback('🔙 Back', `autotrade_rules_${tokenAddress}`)]
+                    ]
+                }
+            });
+        }
+    }
+
+    private static formatReport(result: BacktestResult, symbol: string, bnbPriceUsd: number): string {
+        const startPrice = result.startPrice || 0;
+        const endPrice = result.endPrice || 0;
+        const priceChange = startPrice > 0 ? ((endPrice - startPrice) / startPrice) * 100 : 0;
+
+        let message = `**Data:** ${result.pricePoints.toLocaleString()} prices, $${startPrice.toPrecision(6)} → $${endPrice.toPrecision(6)} (${this.formatSigned(priceChange, 1)}%)\n`;
+        message += `**BNB Price:** $${bnbPriceUsd.toFixed(2)}\n\n`;
+
+        message += `**Fills:**\n`;
+        if (result.fills.length === 0) {
+            message += `• None, the entry condition was never met\n`;
+        }
+        result.fills.slice(0, MAX_FILLS_SHOWN).forEach(fill => {
+            const time = new Date(fill.timestamp).toISOString().slice(5, 16).replace('T', ' ');
+            if (fill.side === 'buy') {
+                message += `🟢 ${time} Buy ${fill.bnbAmount.toFixed(4)} BNB of ${symbol} @ $${fill.fillPrice.toPrecision(6)}\n`;
+            } else {
+                message += `🔴 ${time} ${formatExitReason(fill.reason)}: sold ${fill.percentageOfPosition.toFixed(0)}% @ $${fill.fillPrice.toPrecision(6)} for ${fill.bnbAmount.toFixed(4)} BNB\n`;
+            }
+        });
+        if (result.fills.length > MAX_FILLS_SHOWN) {
+            message += `_…and ${result.fills.length - MAX_FILLS_SHOWN} more_\n`;
+        }
+
+        if (result.fills.length > 0) {
+            message += `\n**Result:**\n`;
+            message += `• PnL: ${this.formatSigned(result.pnlBnb, 4)} BNB (${this.formatSigned(result.pnlPercent, 2)}%)\n`;
+            message += `• Max Drawdown: ${result.maxDrawdownPercent.toFixed(2)}%\n`;
+            message += `• Slippage Cost: ${result.slippageCostBnb.toFixed(4)} BNB\n`;
+            message += `• Gas Cost: ${result.gasCostBnb.toFixed(4)} BNB\n`;
+            message += `• PnL Without Costs: ${this.formatSigned(result.pnlWithoutCostsBnb, 4)} BNB\n`;
+            if (result.finalStatus === 'position_open') {
+                message += `• Still Holding: ${result.openPositionBnb.toFixed(4)} BNB worth at the last price\n`;
+            } else {
+                message += `• Position fully closed\n`;
+            }
+        }
+
+        message += `\n_Backtests replay recorded prices and ignore liquidity changes; past results don't guarantee future ones._`;
+        return message;
+    }
+
+    private static buildWindowButtons(tokenAddress: string) {
+        return Object.keys(BACKTEST_WINDOWS).map(key =>
+            Markup.button.callback(`▶️ ${key}`, `bt_${key}_${tokenAddress}`)
+        );
+    }
+
+    private static hasAnyRule(token: TrackedToken): boolean {
+        return hasEntryRule(token) ||
+            !!token.takeProfitPrice ||
+            !!token.stopLossPrice ||
+            !!token.trailingStopPercent ||
+            (token.takeProfitLevels || []).length > 0;
+    }
+
+    private static formatSigned(value: number, decimals: number): string {
+        return `${value >= 0 ? '+' : ''}${value.toFixed(decimals)}`;
+    }
+}
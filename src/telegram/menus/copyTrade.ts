@@ -0,0 +1,304 @@
+import { Context, Markup } from 'telegraf';
+import { ethers } from 'ethers';
+import { WalletWatchModel } from '@/database/models/WalletWatch';
+import { CopyTradeModel, CopyTrade } from '@/database/models/CopyTrade';
+import { CopyTradeService, COPY_TRADE_OPTIONS, getCopyTradeSettings, parseCopyTradeUpdate } from '@/services/copyTrade/copyTradeService';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('telegram.menus.copyTrade');
+
+// Blacklisted tokens shown with a remove button
+const MAX_BLACKLIST_BUTTONS = 5;
+
+export class CopyTradeMenu {
+    /**
+     * Show a tracked wallet with its copy-trade settings
+     */
+    static async showWalletMenu(ctx: Context, watchId: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const watch = await WalletWatchModel.findOne({ _id: watchId, telegramId: userId, isActive: true });
+            if (!watch) {
+                await ctx.answerCbQuery('❌ Wallet not found', { show_alert: true });
+                return;
+            }
+
+            const settings = getCopyTradeSettings(watch);
+            const spentToday = settings.enabled ? await CopyTradeService.getSpentToday(watchId) : 0;
+            const alias = watch.alias ? ` (${watch.alias})` : '';
+
+            let message = `👛 **Tracked Wallet**${alias}\n\n`;
+            message += `\`${watch.walletAddress}\`\n`;
+            message += `Transactions detected: ${watch.transactionCount}\n\n`;
+            message += `🪞 **Copy-Trading:** ${settings.enabled ? '🟢 On' : '⚪ Off'}\n`;
+            message += settings.mode === 'fixed'
+                ? `**Size:** ${settings.fixedBnb} BNB per buy\n`
+                : `**Size:** ${settings.percent}% of the wallet's BNB amount\n`;
+            message += `**Daily Cap:** ${settings.dailyCapBnb !== undefined ? `${settings.dailyCapBnb} BNB` : 'No cap'}`;
+            message += settings.enabled && settings.dailyCapBnb !== undefined ? ` (${parseFloat(spentToday.toPrecision(6))} BNB used today)\n` : '\n';
+            message += `**Min Safety Score:** ${settings.minSafetyScore > 0 ? `${settings.minSafetyScore}/100` : 'Off'}\n`;
+            message += `**Blacklist:** ${settings.blacklist.length} token(s)\n\n`;
+            message += `_Buys and sells of this wallet are mirrored from your trading wallet. ` +
+                `Sells are sized by the share of its position the wallet sold. ` +
+                `Your buy guard and trading preferences apply to every copied trade._`;
+
+            const optionRow = (field: string, values: number[], current: number | undefined, unit: string, icon = '') =>
+                values.map(value => Markup.button.callback(
+                    `${value === current ? '✅ ' : icon}${value}${unit}`,
+                    `ct_set:${watchId}:${field}:${value}`
+                ));
+
+            const blacklistButtons = settings.blacklist.slice(0, MAX_BLACKLIST_BUTTONS).map((token, index) => [
+                Markup.button.callback(`❌ ${token.slice(0, 6)}...${token.slice(-4)}`, `ct_blrm_${watchId}_${index}`)
+            ]);
+
+            const keyboard = {
+                inline_keyboard: [
+                    [Markup.button.callback(settings.enabled ? '⏸️ Stop Copy-Trading' : '🪞 Start Copy-Trading', `ct_toggle_${watchId}`)],
+                    [
+                        Markup.button.callback(`${settings.mode === 'fixed' ? '✅ ' : ''}Fixed BNB`, `ct_set:${watchId}:mode:fixed`),
+                        Markup.button.callback(`${settings.mode === 'proportional' ? '✅ ' : ''}Proportional`, `ct_set:${watchId}:mode:proportional`)
+                    ],
+                    settings.mode === 'fixed'
+                        ? optionRow('size', COPY_TRADE_OPTIONS.size, settings.fixedBnb, ' BNB', '💰 ')
+                        : optionRow('percent', COPY_TRADE_OPTIONS.percent, settings.percent, '%', '📊 '),
+                    [
+                        Markup.button.callback(`${settings.dailyCapBnb === undefined ? '✅ ' : ''}🧢 No cap`, `ct_set:${watchId}:cap:off`),
+                        ...optionRow('cap', COPY_TRADE_OPTIONS.cap, settings.dailyCapBnb, ' BNB')
+                    ],
+                    optionRow('score', COPY_TRADE_OPTIONS.score, settings.minSafetyScore, '', '🛡️ '),
+                    ...blacklistButtons,
+                    [
+                        Markup.button.callback('🚫 Blacklist Token', `ct_bladd_${watchId}`),
+                        Markup.button.callback('📜 Copy Log', `ct_log_${watchId}`)
+                    ],
+                    [Markup.button.callback('🔙 Back', 'manage_tracked_wallets')]
+                ]
+            };
+
+            await this.render(ctx, message, keyboard);
+        } catch (error) {
+            logger.error('Error showing copy-trade menu', { error, userId, watchId });
+            await ctx.reply('❌ Error loading wallet settings');
+        }
+    }
+
+    static async toggleCopyTrade(ctx: Context, watchId: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const watch = await WalletWatchModel.findOne({ _id: watchId, telegramId: userId, isActive: true });
+        if (!watch) {
+            await ctx.answerCbQuery('❌ Wallet not found', { show_alert: true });
+            return;
+        }
+
+        if (!watch.copyTradeEnabled) {
+            const { UserService } = await import('@/services/user');
+            const tradingWalletAddress = await UserService.getTradingWalletAddress(userId);
+            if (!tradingWalletAddress) {
+                await ctx.answerCbQuery('❌ Create a trading wallet first, copied trades are made from it.', { show_alert: true });
+                return;
+            }
+        }
+
+        watch.copyTradeEnabled = !watch.copyTradeEnabled;
+        await watch.save();
+
+        await ctx.answerCbQuery(watch.copyTradeEnabled ? '🪞 Copy-trading started' : '⏸️ Copy-trading stopped');
+        await this.showWalletMenu(ctx, watchId);
+    }
+
+    static async updateSetting(ctx: Context, watchId: string, field: string, value: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const update = parseCopyTradeUpdate(field, value);
+        if (!update) {
+            await ctx.answerCbQuery('❌ Invalid value');
+            return;
+        }
+
+        const $set: Record<string, string | number> = {};
+        const $unset: Record<string, ''> = {};
+        for (const [key, fieldValue] of Object.entries(update)) {
+            if (fieldValue === null) {
+                $unset[key] = '';
+            } else {
+                $set[key] = fieldValue;
+            }
+        }
+
+        const result = await WalletWatchModel.updateOne({ _id: watchId, telegramId: userId, isActive: true }, { $set, $unset });
+        if (result.matchedCount === 0) {
+            await ctx.answerCbQuery('❌ Wallet not found', { show_alert: true });
+            return;
+        }
+
+        await ctx.answerCbQuery('✅ Updated');
+        await this.showWalletMenu(ctx, watchId);
+    }
+
+    /**
+     * Show copied trades next to the source trades they mirror
+     */
+    static async showCopyLog(ctx: Context, watchId: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const watch = await WalletWatchModel.findOne({ _id: watchId, telegramId: userId });
+            if (!watch) {
+                await ctx.answerCbQuery('❌ Wallet not found', { show_alert: true });
+                return;
+            }
+
+            const trades = await CopyTradeService.getCopyTrades(watchId);
+            const source = watch.alias || `${watch.walletAddress.slice(0, 6)}...${watch.walletAddress.slice(-4)}`;
+
+            let message = `📜 **Copy Log: ${source}**\n\n`;
+            if (trades.length === 0) {
+                message += '_No trades copied yet._';
+            }
+
+            for (const trade of trades) {
+                message += `${this.formatTradeLine(trade)}\n`;
+            }
+
+            const keyboard = {
+                inline_keyboard: [
+                    [Markup.button.callback('🔄 Refresh', `ct_log_${watchId}`)],
+                    [Markup.button.callback('🔙 Back', `manage_wallet_${watchId}`)]
+                ]
+            };
+
+            await this.render(ctx, message, keyboard);
+        } catch (error) {
+            logger.error('Error showing copy log', { error, userId, watchId });
+            await ctx.reply('❌ Error loading copy log');
+        }
+    }
+
+    static async promptBlacklistToken(ctx: Context, watchId: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const session = global.userSessions.get(userId) || {};
+        session.copyTradeSetup = { watchId, waitingForBlacklistToken: true };
+        global.userSessions.set(userId, session);
+
+        await this.render(ctx,
+            '🚫 **Blacklist Token**\n\nSend the token contract address that should never be copied from this wallet.',
+            { inline_keyboard: [[Markup.button.callback('❌ Cancel', `manage_wallet_${watchId}`)]] }
+        );
+    }
+
+    static async handleBlacklistInput(ctx: Context, text: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const session = global.userSessions.get(userId);
+        const watchId = session?.copyTradeSetup?.watchId;
+        if (session) {
+            delete session.copyTradeSetup;
+            global.userSessions.set(userId, session);
+        }
+        if (!watchId) return;
+
+        if (!ethers.isAddress(text)) {
+            await ctx.reply('❌ Invalid token address. Please provide a valid BSC token contract address starting with "0x".', {
+                reply_markup: { inline_keyboard: [[Markup.button.callback('🔙 Back', `manage_wallet_${watchId}`)]] }
+            });
+            return;
+        }
+
+        await this.addToBlacklist(userId, watchId, text);
+        await this.showWalletMenu(ctx, watchId);
+    }
+
+    /**
+     * Blacklist the token of a copied trade, from its notification
+     */
+    static async blacklistFromTrade(ctx: Context, copyTradeId: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const trade = await CopyTradeModel.findOne({ _id: copyTradeId, telegramId: userId });
+        if (!trade) {
+            await ctx.answerCbQuery('❌ Trade not found', { show_alert: true });
+            return;
+        }
+
+        const added = await this.addToBlacklist(userId, trade.watchId, trade.tokenAddress);
+        await ctx.answerCbQuery(added
+            ? `🚫 ${trade.tokenSymbol || 'Token'} will no longer be copied from this wallet`
+            : '❌ Wallet not found', { show_alert: true });
+    }
+
+    static async removeFromBlacklist(ctx: Context, watchId: string, index: number): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const watch = await WalletWatchModel.findOne({ _id: watchId, telegramId: userId, isActive: true });
+        if (!watch || !watch.copyTradeBlacklist[index]) {
+            await ctx.answerCbQuery('❌ Token not found');
+            return;
+        }
+
+        watch.copyTradeBlacklist = watch.copyTradeBlacklist.filter((_, tokenIndex) => tokenIndex !== index);
+        await watch.save();
+
+        await ctx.answerCbQuery('✅ Removed from blacklist');
+        await this.showWalletMenu(ctx, watchId);
+    }
+
+    private static async addToBlacklist(userId: number, watchId: string, tokenAddress: string): Promise<boolean> {
+        const result = await WalletWatchModel.updateOne(
+            { _id: watchId, telegramId: userId },
+            { $addToSet: { copyTradeBlacklist: tokenAddress.toLowerCase() } }
+        );
+        return result.matchedCount > 0;
+    }
+
+    private static formatTradeLine(trade: CopyTrade): string {
+        const token = trade.tokenSymbol || `${trade.tokenAddress.slice(0, 6)}...${trade.tokenAddress.slice(-4)}`;
+        const time = trade.createdAt ? trade.createdAt.toISOString().slice(5, 16).replace('T', ' ') : '';
+        const statusIcon = trade.status === 'executed' ? '✅' : trade.status === 'failed' ? '❌' : trade.status === 'pending' ? '⏳' : '⏭️';
+
+        const sourceSide = trade.side === 'buy'
+            ? `bought ${parseFloat(trade.sourceAmount).toPrecision(4)} BNB of ${token}`
+            : `sold ${token}`;
+        const copySide = trade.status !== 'executed'
+            ? trade.reason || trade.status
+            : trade.side === 'buy'
+                ? `you bought ${trade.amount} BNB`
+                : `you sold ${trade.sellPercentage}%`;
+
+        let line = `${statusIcon} ${time} — ${sourceSide}\n`;
+        line += `   └ ${copySide} • [source](https://bscscan.com/tx/${trade.sourceTxHash})`;
+        if (trade.txHash) line += ` • [yours](https://bscscan.com/tx/${trade.txHash})`;
+        return line;
+    }
+
+    private static async render(ctx: Context, message: string, keyboard: { inline_keyboard: any[][] }): Promise<void> {
+        if (ctx.callbackQuery) {
+            try {
+                await ctx.editMessageText(message, {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboard,
+                    link_preview_options: { is_disabled: true }
+                });
+                return;
+            } catch (editError) {
+                logger.warn('Failed to edit message, sending new one', { error: editError });
+            }
+        }
+        await ctx.reply(message, {
+            parse_mode: 'Markdown',
+            reply_markup: keyboard,
+            link_preview_options: { is_disabled: true }
+        });
+    }
+}
@@ -0,0 +1,424 @@
+import { Context, Markup } from 'telegraf';
+import { TrackedTokenModel } from '@/database/models/TrackedToken';
+import { DcaService, computeDcaReport, getPlannedBuyCount } from '@/services/dca/dcaService';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('telegram.menus.dca');
+
+const AMOUNT_PRESETS = ['0.01', '0.05', '0.1', '0.25'];
+const INTERVAL_PRESETS = [1, 4, 6, 12, 24];
+const DURATION_PRESETS = [1, 3, 7, 14, 30];
+
+export class DcaMenu {
+    /**
+     * Show DCA schedules for a tracked token with their running reports
+     */
+    static async handleDcaMenu(ctx: Context, tokenAddress: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const token = await TrackedTokenModel.findOne({
+                telegramId: userId,
+                tokenAddress: tokenAddress.toLowerCase(),
+                isActive: true
+            });
+
+            if (!token) {
+                await ctx.editMessageText('❌ Token not found or no longer tracked.', {
+                    reply_markup: {
+                        inline_keyboard: [
+                            [Markup.button.callback('🔙 Back', 'manage_tracked_tokens')]
+                        ]
+                    }
+                });
+                return;
+            }
+
+            const symbol = token.tokenSymbol || 'Unknown';
+            const schedules = await DcaService.getSchedules(userId, tokenAddress);
+
+            let message = `🔁 **DCA Schedules: ${symbol}**\n\n`;
+            message += `Buy a fixed amount of BNB worth of ${symbol} on a regular schedule using your trading wallet.\n\n`;
+
+            const scheduleButtons: ReturnType<typeof Markup.button.callback>[][] = [];
+
+            if (schedules.length === 0) {
+                message += `_No DCA schedules for this token yet._\n`;
+            }
+
+            schedules.forEach((schedule, index) => {
+                const report = computeDcaReport(schedule.executions);
+                const scheduleId = schedule._id.toString();
+
+                message += `**#${index + 1} ${this.formatStatus(schedule.status)}**\n`;
+                message += `• ${schedule.bnbAmountPerBuy} BNB every ${schedule.intervalHours}h until ${schedule.endsAt.toUTCString()}\n`;
+                message += `• Buys: ${report.buysExecuted}${report.buysFailed > 0 ? ` (${report.buysFailed} failed)` : ''}\n`;
+                message += `• Spent: ${report.totalBnbSpent.toFixed(4)} BNB\n`;
+                message += `• Bought: ${report.totalTokensBought.toLocaleString()} ${symbol}\n`;
+                if (report.averageEntryPriceUsd !== null) {
+                    message += `• Avg Entry: $${report.averageEntryPriceUsd.toPrecision(6)}\n`;
+                } else if (report.averageEntryPriceBnb !== null) {
+                    message += `• Avg Entry: ${report.averageEntryPriceBnb.toPrecision(6)} BNB\n`;
+                }
+                if (schedule.status === 'active') {
+                    message += `• Next Buy: ${schedule.nextRunAt.toUTCString()}\n`;
+                }
+                if (schedule.status === 'paused' && schedule.pausedReason) {
+                    message += `• Paused: ${schedule.pausedReason}\n`;
+                }
+                message += '\n';
+
+                if (schedule.status === 'active') {
+                    scheduleButtons.push([
+                        Markup.button.callback(`⏸️ Pause #${index + 1}`, `dca_pause_${scheduleId}`),
+                        Markup.button.callback(`❌ Cancel #${index + 1}`, `dca_cancel_${scheduleId}`)
+                    ]);
+                } else if (schedule.status === 'paused') {
+                    scheduleButtons.push([
+                        Markup.button.callback(`▶️ Resume #${index + 1}`, `dca_resume_${scheduleId}`),
+                        Markup.button.callback(`❌ Cancel #${index + 1}`, `dca_cancel_${scheduleId}`)
+                    ]);
+                }
+            });
+
+            const keyboard = {
+                inline_keyboard: [
+                    ...scheduleButtons,
+                    [Markup.button.callback('➕ New DCA Schedule', `dca_new_${tokenAddress}`)],
+                    [Markup.button.callback('🔙 Back to Auto-Trade', `autotrade_rules_${tokenAddress}`)]
+                ]
+            };
+
+            try {
+                await ctx.editMessageText(message, {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboard
+                });
+            } catch (editError) {
+                logger.warn('Failed to edit message, sending new one', { error: editError });
+                await ctx.reply(message, {
+                    parse_mode: 'Markdown',
+                    reply_markup: keyboard
+                });
+            }
+
+        } catch (error) {
+            logger.error('Error showing DCA menu', { error, userId, tokenAddress });
+            await ctx.reply('❌ Error loading DCA schedules', {
+                reply_markup: {
+                    inline_keyboard: [
+                        [Markup.button.callback('🔙 Back', `autotrade_rules_${tokenAddress}`)]
+                    ]
+                }
+            });
+        }
+    }
+
+    /**
+     * Start creating a DCA schedule: ask for the BNB amount per buy
+     */
+    static async initiateDcaSetup(ctx: Context, tokenAddress: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            // Store token info in session to avoid long callback data
+            let session = global.userSessions.get(userId);
+            if (!session) {
+                const { WalletService } = await import('@/services/wallet/connect');
+                const walletService = new WalletService(global.userSessions);
+                await walletService.initializeConnection(userId);
+                session = global.userSessions.get(userId);
+            }
+
+            if (session) {
+                session.dcaSetup = {
+                    tokenAddress: tokenAddress,
+                    waitingForAmountInput: false
+                };
+                global.userSessions.set(userId, session);
+            }
+
+            const message = `🔁 **New DCA Schedule**\n\n` +
+                `**Step 1 of 3:** How much BNB should each buy spend?`;
+
+            const keyboard = {
+                inline_keyboard: [
+                    AMOUNT_PRESETS.map(amount => Markup.button.callback(`${amount} BNB`, `dca_amt_${amount}`)),
+                    [Markup.button.callback('✏️ Custom Amount', 'dca_amt_custom')],
+                    [Markup.button.callback('❌ Cancel', `dca_menu_${tokenAddress}`)]
+                ]
+            };
+
+            await ctx.editMessageText(message, {
+                parse_mode: 'Markdown',
+                reply_markup: keyboard
+            });
+
+        } catch (error) {
+            logger.error('Error initiating DCA setup', { error, userId, tokenAddress });
+            await ctx.answerCbQuery('❌ Error setting up DCA schedule', { show_alert: true });
+        }
+    }
+
+    /**
+     * Ask the user to type a custom BNB amount per buy
+     */
+    static async handleCustomDcaAmount(ctx: Context): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const session = global.userSessions.get(userId);
+            if (!session?.dcaSetup?.tokenAddress) {
+                await ctx.answerCbQuery('❌ Session expired, please try again', { show_alert: true });
+                return;
+            }
+
+            session.dcaSetup.waitingForAmountInput = true;
+            global.userSessions.set(userId, session);
+
+            const message = `✏️ **Enter Amount Per Buy**\n\n` +
+                `Please enter the amount of BNB to spend on each buy:\n\n` +
+                `**Examples:**\n` +
+                `• 0.02\n` +
+                `• 0.5`;
+
+            await ctx.editMessageText(message, {
+                parse_mode: 'Markdown',
+                reply_markup: {
+                    inline_keyboard: [
+                        [Markup.button.callback('❌ Cancel', `dca_menu_${session.dcaSetup.tokenAddress}`)]
+                    ]
+                }
+            });
+
+        } catch (error) {
+            logger.error('Error handling custom DCA amount', { error, userId });
+            await ctx.answerCbQuery('❌ Error setting up DCA schedule', { show_alert: true });
+        }
+    }
+
+    /**
+     * Store the BNB amount per buy and ask for the interval
+     */
+    static async handleDcaAmountSelection(ctx: Context, amount: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const session = global.userSessions.get(userId);
+        if (!session?.dcaSetup?.tokenAddress) {
+            await this.replyOrAnswer(ctx, '❌ Session expired, please try again');
+            return;
+        }
+
+        const amountNum = parseFloat(amount);
+        if (isNaN(amountNum) || amountNum <= 0) {
+            await this.replyOrAnswer(ctx, '❌ Please enter a valid positive number.');
+            return;
+        }
+
+        session.dcaSetup.bnbAmountPerBuy = amount;
+        session.dcaSetup.waitingForAmountInput = false;
+        global.userSessions.set(userId, session);
+
+        const message = `🔁 **New DCA Schedule**\n\n` +
+            `**Amount Per Buy:** ${amount} BNB\n\n` +
+            `**Step 2 of 3:** How often should it buy?`;
+
+        const keyboard = {
+            inline_keyboard: [
+                INTERVAL_PRESETS.map(hours => Markup.button.callback(`${hours}h`, `dca_int_${hours}`)),
+                [Markup.button.callback('❌ Cancel', `dca_menu_${session.dcaSetup.tokenAddress}`)]
+            ]
+        };
+
+        await this.editOrReply(ctx, message, keyboard);
+    }
+
+    /**
+     * Store the interval and ask for the duration
+     */
+    static async handleDcaIntervalSelection(ctx: Context, intervalHours: number): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const session = global.userSessions.get(userId);
+        if (!session?.dcaSetup?.tokenAddress || !session.dcaSetup.bnbAmountPerBuy) {
+            await ctx.answerCbQuery('❌ Session expired, please try again', { show_alert: true });
+            return;
+        }
+
+        session.dcaSetup.intervalHours = intervalHours;
+        global.userSessions.set(userId, session);
+
+        const message = `🔁 **New DCA Schedule**\n\n` +
+            `**Amount Per Buy:** ${session.dcaSetup.bnbAmountPerBuy} BNB\n` +
+            `**Interval:** every ${intervalHours}h\n\n` +
+            `**Step 3 of 3:** How long should it run?`;
+
+        const keyboard = {
+            inline_keyboard: [
+                DURATION_PRESETS.map(days => Markup.button.callback(`${days}d`, `dca_dur_${days}`)),
+                [Markup.button.callback('❌ Cancel', `dca_menu_${session.dcaSetup.tokenAddress}`)]
+            ]
+        };
+
+        await this.editOrReply(ctx, message, keyboard);
+    }
+
+    /**
+     * Store the duration and show a confirmation summary
+     */
+    static async handleDcaDurationSelection(ctx: Context, durationDays: number): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const session = global.userSessions.get(userId);
+        const setup = session?.dcaSetup;
+        if (!session || !setup?.tokenAddress || !setup.bnbAmountPerBuy || !setup.intervalHours) {
+            await ctx.answerCbQuery('❌ Session expired, please try again', { show_alert: true });
+            return;
+        }
+
+        setup.durationDays = durationDays;
+        global.userSessions.set(userId, session);
+
+        const plannedBuys = getPlannedBuyCount(setup.intervalHours, durationDays);
+        const totalBnb = plannedBuys * parseFloat(setup.bnbAmountPerBuy);
+
+        const message = `🔁 **Confirm DCA Schedule**\n\n` +
+            `**Amount Per Buy:** ${setup.bnbAmountPerBuy} BNB\n` +
+            `**Interval:** every ${setup.intervalHours}h\n` +
+            `**Duration:** ${durationDays} day${durationDays === 1 ? '' : 's'}\n` +
+            `**Planned Buys:** ${plannedBuys}\n` +
+            `**Total Budget:** up to ${totalBnb.toFixed(4)} BNB\n\n` +
+            `The first buy runs within a minute. Keep enough BNB in your trading wallet for every buy.`;
+
+        const keyboard = {
+            inline_keyboard: [
+                [Markup.button.callback('✅ Start DCA', 'dca_confirm')],
+                [Markup.button.callback('❌ Cancel', `dca_menu_${setup.tokenAddress}`)]
+            ]
+        };
+
+        await this.editOrReply(ctx, message, keyboard);
+    }
+
+    /**
+     * Create the schedule from the session setup
+     */
+    static async confirmDcaSchedule(ctx: Context): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const session = global.userSessions.get(userId);
+        const setup = session?.dcaSetup;
+        if (!session || !setup?.tokenAddress || !setup.bnbAmountPerBuy || !setup.intervalHours || !setup.durationDays) {
+            await ctx.answerCbQuery('❌ Session expired, please try again', { show_alert: true });
+            return;
+        }
+
+        const tokenAddress = setup.tokenAddress;
+
+        try {
+            const token = await TrackedTokenModel.findOne({
+                telegramId: userId,
+                tokenAddress: tokenAddress.toLowerCase(),
+                isActive: true
+            });
+
+            await DcaService.createSchedule({
+                telegramId: userId,
+                tokenAddress,
+                tokenSymbol: token?.tokenSymbol || 'Unknown',
+                bnbAmountPerBuy: setup.bnbAmountPerBuy,
+                intervalHours: setup.intervalHours,
+                durationDays: setup.durationDays
+            });
+
+            delete session.dcaSetup;
+            global.userSessions.set(userId, session);
+
+            await ctx.answerCbQuery('✅ DCA schedule started!', { show_alert: true });
+            await this.handleDcaMenu(ctx, tokenAddress);
+
+        } catch (error) {
+            logger.error('Error creating DCA schedule', { error, userId, tokenAddress });
+            const errorText = error instanceof Error ? error.message : 'Error creating DCA schedule';
+            await ctx.answerCbQuery(`❌ ${errorText}`, { show_alert: true });
+        }
+    }
+
+    /**
+     * Pause, resume or cancel a schedule and refresh the token's DCA menu
+     */
+    static async handleScheduleAction(ctx: Context, action: 'pause' | 'resume' | 'cancel', scheduleId: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const schedule = await DcaService.getSchedule(userId, scheduleId);
+            if (!schedule) {
+                await ctx.answerCbQuery('❌ DCA schedule not found', { show_alert: true });
+                return;
+            }
+
+            let updated = false;
+            switch (action) {
+                case 'pause':
+                    updated = await DcaService.pauseSchedule(userId, scheduleId);
+                    break;
+                case 'resume':
+                    updated = await DcaService.resumeSchedule(userId, scheduleId);
+                    break;
+                case 'cancel':
+                    updated = await DcaService.cancelSchedule(userId, scheduleId);
+                    break;
+            }
+
+            const successText: Record<string, string> = {
+                pause: '⏸️ DCA schedule paused',
+                resume: '▶️ DCA schedule resumed',
+                cancel: '❌ DCA schedule cancelled'
+            };
+
+            await ctx.answerCbQuery(updated ? successText[action] : '⚠️ Schedule state has changed, refreshing');
+            await this.handleDcaMenu(ctx, schedule.tokenAddress);
+
+        } catch (error) {
+            logger.error('Error updating DCA schedule', { error, userId, scheduleId, action });
+            await ctx.answerCbQuery('❌ Error updating DCA schedule', { show_alert: true });
+        }
+    }
+
+    private static formatStatus(status: string): string {
+        switch (status) {
+            case 'active': return '🟢 Active';
+            case 'paused': return '⏸️ Paused';
+            case 'completed': return '✅ Completed';
+            case 'cancelled': return '❌ Cancelled';
+            default: return status;
+        }
+    }
+
+    /**
+     * Steps can be reached from a button (edit the message) or typed input (reply)
+     */
+    private static async editOrReply(ctx: Context, message: string, keyboard: any): Promise<void> {
+        if (ctx.callbackQuery) {
+            await ctx.editMessageText(message, { parse_mode: 'Markdown', reply_markup: keyboard });
+        } else {
+            await ctx.reply(message, { parse_mode: 'Markdown', reply_markup: keyboard });
+        }
+    }
+
+    private static async replyOrAnswer(ctx: Context, text: string): Promise<void> {
+        if (ctx.callbackQuery) {
+            await ctx.answerCbQuery(text, { show_alert: true });
+        } else {
+            await ctx.reply(text);
+        }
+    }
+}
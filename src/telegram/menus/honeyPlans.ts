@@ -0,0 +1,163 @@
+import { Markup, Context } from 'telegraf';
+import {
+  HONEY_PLANS,
+  GRACE_PERIOD_DAYS,
+  PLAN_FEATURE_LABELS,
+  PLAN_PERIOD_DAYS,
+  HoneySubscriptionService,
+  UNLIMITED,
+  formatPlanAllowances,
+  getHoneyPlan,
+  isPlanInEffect,
+  remainingAllowance
+} from '@/services/honey/subscriptions';
+import { HoneyFeature } from '@/database/models/HoneyTransaction';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('HoneyPlansMenu');
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Monthly plans - shows the current plan with its usage and the plans available
+ */
+export async function honeyPlansMenu(ctx: Context): Promise<void> {
+  try {
+    const telegramId = ctx.from?.id;
+    if (!telegramId) return;
+
+    const subscription = await HoneySubscriptionService.getSubscription(telegramId);
+    const currentPlan = subscription && isPlanInEffect(subscription) ? getHoneyPlan(subscription.planId) : undefined;
+
+    let message = `📅 *Honey Plans*\n\n`;
+    message += `A monthly plan includes a number of uses of paid features. Uses beyond the allowance cost Honey as usual.\n\n`;
+
+    const buttons = [];
+    if (subscription && currentPlan) {
+      message += `*Your Plan: ${currentPlan.name}*\n`;
+      if (subscription.status === 'grace') {
+        message += `⚠️ Renewal payment pending, the plan keeps working until ${formatDate(subscription.graceEndsAt!)}\n`;
+        if (subscription.lastRenewalError) {
+          message += `Last attempt: ${subscription.lastRenewalError}\n`;
+        }
+      }
+      message += `🗓 Current period: ${formatDate(subscription.currentPeriodStart)} → ${formatDate(subscription.currentPeriodEnd)}\n`;
+      message += `🔁 Auto-renew: ${subscription.autoRenew ? 'on' : 'off'}\n\n`;
+
+      message += `*Used this period:*\n`;
+      for (const [feature, allowance] of Object.entries(currentPlan.allowances)) {
+        const label = PLAN_FEATURE_LABELS[feature as HoneyFeature] || feature;
+        const used = subscription.usage?.[feature] || 0;
+        message += allowance === UNLIMITED
+          ? `• ${label}: ${used} (unlimited)\n`
+          : `• ${label}: ${used}/${allowance}, ${remainingAllowance(currentPlan, subscription.usage, feature as HoneyFeature)} left\n`;
+      }
+      message += `\n`;
+
+      buttons.push([subscription.autoRenew
+        ? Markup.button.callback('⏹ Turn Off Auto-Renew', 'honey_plan_autorenew_off')
+        : Markup.button.callback('🔁 Turn On Auto-Renew', 'honey_plan_autorenew_on')]);
+    }
+
+    message += `*Available Plans:*\n\n`;
+    for (const plan of HONEY_PLANS) {
+      message += `**${plan.name}** - ${plan.priceBnb} BNB / ${PLAN_PERIOD_DAYS} days\n`;
+      message += `${formatPlanAllowances(plan)}\n\n`;
+      if (!currentPlan) {
+        buttons.push([Markup.button.callback(`Subscribe to ${plan.name} (${plan.priceBnb} BNB)`, `honey_plan_buy_${plan.id}`)]);
+      }
+    }
+
+    message += `Plans are paid from your **trading wallet** and renew automatically every ${PLAN_PERIOD_DAYS} days. `;
+    message += `If a renewal can't be paid, the plan keeps working for ${GRACE_PERIOD_DAYS} days while it is retried.`;
+
+    await ctx.editMessageText(message, {
+      parse_mode: 'Markdown',
+      reply_markup: Markup.inlineKeyboard([
+        ...buttons,
+        [Markup.button.callback('🔙 Back', 'honey_recharge')]
+      ]).reply_markup
+    });
+  } catch (error) {
+    log.error('Error showing honey plans:', error);
+    await ctx.answerCbQuery('❌ Error loading plans');
+  }
+}
+
+/**
+ * Ask for confirmation before paying for a plan
+ */
+export async function confirmHoneyPlan(ctx: Context, planId: string): Promise<void> {
+  const plan = getHoneyPlan(planId);
+  if (!plan) {
+    await ctx.answerCbQuery('❌ Invalid plan selected');
+    return;
+  }
+
+  let message = `📅 *Subscribe to ${plan.name}*\n\n`;
+  message += `💰 Price: ${plan.priceBnb} BNB every ${PLAN_PERIOD_DAYS} days\n`;
+  message += `✨ Includes: ${formatPlanAllowances(plan)}\n\n`;
+  message += `The payment is sent from your trading wallet now, and again at each renewal until you turn auto-renew off.`;
+
+  await ctx.editMessageText(message, {
+    parse_mode: 'Markdown',
+    reply_markup: Markup.inlineKeyboard([
+      [Markup.button.callback('✅ Confirm & Pay', `honey_plan_confirm_${plan.id}`)],
+      [Markup.button.callback('❌ Cancel', 'honey_plans')]
+    ]).reply_markup
+  });
+}
+
+/**
+ * Pay for a plan
+ */
+export async function executeHoneyPlan(ctx: Context, planId: string): Promise<void> {
+  try {
+    const telegramId = ctx.from?.id;
+    if (!telegramId) return;
+
+    await ctx.editMessageText('⏳ Processing your plan payment...\n\nThis may take up to 30 seconds.');
+
+    const result = await HoneySubscriptionService.subscribe(telegramId, planId);
+    const plan = getHoneyPlan(planId);
+
+    let message: string;
+    if (result.success) {
+      message = `✅ *${plan?.name} Plan Active!*\n\n`;
+      message += `📄 Transaction: [View on BSCScan](https://bscscan.com/tx/${result.transactionHash})\n\n`;
+      message += `Included features no longer cost Honey until your allowance runs out. 🎉`;
+    } else if (result.pending) {
+      message = `⏳ *Payment Sent*\n\n`;
+      message += `📄 Transaction: [View on BSCScan](https://bscscan.com/tx/${result.transactionHash})\n\n`;
+      message += `Your plan starts as soon as the payment confirms. You'll get a message here.`;
+    } else {
+      message = `❌ *Plan Payment Failed*\n\nError: ${result.error}`;
+    }
+
+    await ctx.editMessageText(message, {
+      parse_mode: 'Markdown',
+      reply_markup: Markup.inlineKeyboard([
+        [Markup.button.callback('📅 Honey Plans', 'honey_plans')],
+        [Markup.button.callback('🏠 Main Menu', 'main_menu')]
+      ]).reply_markup
+    });
+  } catch (error) {
+    log.error('Error executing honey plan payment:', error);
+    await ctx.editMessageText('❌ An unexpected error occurred during payment. Please try again.', {
+      reply_markup: Markup.inlineKeyboard([
+        [Markup.button.callback('📅 Honey Plans', 'honey_plans')]
+      ]).reply_markup
+    });
+  }
+}
+
+export async function setHoneyPlanAutoRenew(ctx: Context, autoRenew: boolean): Promise<void> {
+  const telegramId = ctx.from?.id;
+  if (!telegramId) return;
+
+  await HoneySubscriptionService.setAutoRenew(telegramId, autoRenew);
+  await ctx.answerCbQuery(autoRenew ? '🔁 Auto-renew turned on' : '⏹ Auto-renew turned off');
+  await honeyPlansMenu(ctx);
+}
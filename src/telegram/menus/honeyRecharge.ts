@@ -1,5 +1,7 @@
 import { Markup, Context } from 'telegraf';
 import { HoneyRechargeService } from '@/services/honey/recharge';
+import { HONEY_STABLECOINS, HoneyStablecoinPurchaseService, getHoneyStablecoin } from '@/services/honey/stablecoinPurchase';
+import { transactionPreflightService, formatPreflightReport } from '@/services/wallet/preflight';
 import { createLogger } from '@/utils/logger';
 import { UserModel } from '@/database/models/User';
 
@@ -31,6 +33,9 @@ export async function honeyRechargeMenu(ctx: Context): Promise<void> {
       message += `📊 *Purchase History:*\n`;
       message += `🍯 Total Purchased: ${stats.totalPurchased.toLocaleString()}\n`;
       message += `💰 Total Spent: ${stats.totalSpent} BNB\n`;
+      if (stats.totalSpentUsd > 0) {
+        message += `💵 Total Spent: $${stats.totalSpentUsd.toFixed(2)} in stablecoins\n`;
+      }
       message += `🛒 Purchases: ${stats.purchaseCount}\n\n`;
     }
 
@@ -59,6 +64,8 @@ export async function honeyRechargeMenu(ctx: Context): Promise<void> {
 
     const keyboard = Markup.inlineKeyboard([
       ...packageButtons,
+      [Markup.button.callback('💵 Pay with USDT/USDC from Main Wallet', 'honey_stablecoin')],
+      [Markup.button.callback('📅 Monthly Plans', 'honey_plans')],
       [Markup.button.callback('💸 Fund Trading Wallet from Main Wallet', 'fund_trading_wallet_from_recharge')],
       [Markup.button.callback('📊 Purchase History', 'honey_history')],
       [Markup.button.callback('❓ Help', 'honey_help')],
@@ -184,6 +191,18 @@ export async function executeHoneyPurchase(ctx: Context, packageIndex: number):
         reply_markup: keyboard.reply_markup
       });
 
+    } else if (result.pending) {
+      let pendingMessage = `⏳ *Payment Sent*\n\n`;
+      pendingMessage += `📄 Transaction: \`${result.transactionHash}\`\n\n`;
+      pendingMessage += `Your payment is still confirming on BSC. Your honey will be credited automatically and you'll get a message here.`;
+
+      await ctx.editMessageText(pendingMessage, {
+        parse_mode: 'Markdown',
+        reply_markup: Markup.inlineKeyboard([
+          [Markup.button.callback('🏠 Main Menu', 'main_menu')]
+        ]).reply_markup
+      });
+
     } else {
       let errorMessage = `❌ *Purchase Failed*\n\n`;
       errorMessage += `Error: ${result.error}\n\n`;
@@ -211,6 +230,150 @@ export async function executeHoneyPurchase(ctx: Context, packageIndex: number):
   }
 }
 
+/**
+ * Packages priced in stablecoins, paid from the main wallet
+ */
+export async function honeyStablecoinMenu(ctx: Context): Promise<void> {
+  let message = `💵 *Buy Honey with Stablecoins*\n\n`;
+  message += `Pay in ${HONEY_STABLECOINS.map(coin => coin.symbol).join(' or ')} (BEP-20) from your **main wallet**.\n`;
+  message += `Honey is credited automatically once the payment is confirmed on BSC (about a minute).\n\n`;
+
+  const buttons = HoneyRechargeService.HONEY_PACKAGES.map((pkg, i) => {
+    message += `🍯 ${pkg.honeyAmount.toLocaleString()} Honey = $${pkg.usdValue} (${pkg.userGetsText})\n`;
+    return HONEY_STABLECOINS.map(coin =>
+      Markup.button.callback(`${pkg.honeyAmount.toLocaleString()}🍯 · $${pkg.usdValue} ${coin.symbol}`, `honey_sc_${i}_${coin.symbol}`)
+    );
+  });
+
+  await ctx.editMessageText(message, {
+    parse_mode: 'Markdown',
+    reply_markup: Markup.inlineKeyboard([
+      ...buttons,
+      [Markup.button.callback('🔙 Back', 'honey_recharge')]
+    ]).reply_markup
+  });
+}
+
+/**
+ * Reserve a payment amount for the package and offer the ways to pay it
+ */
+export async function startStablecoinPurchase(ctx: Context, packageIndex: number, symbol: string): Promise<void> {
+  const telegramId = ctx.from?.id;
+  if (!telegramId) return;
+
+  const coin = getHoneyStablecoin(symbol);
+  if (!coin || !HoneyRechargeService.HONEY_PACKAGES[packageIndex]) {
+    await ctx.answerCbQuery('❌ Invalid package selected');
+    return;
+  }
+
+  const session = global.userSessions.get(telegramId);
+  const { UserService } = await import('@/services/user');
+  const mainWallet = session?.address || await UserService.getMainWalletAddress(telegramId);
+  if (!mainWallet) {
+    await ctx.editMessageText('💳 Connect your main wallet first to pay with stablecoins.', {
+      reply_markup: Markup.inlineKeyboard([
+        [Markup.button.callback('🔗 Connect Wallet', 'connect_wallet')],
+        [Markup.button.callback('🔙 Back', 'honey_stablecoin')]
+      ]).reply_markup
+    });
+    return;
+  }
+
+  const useWalletConnect = !!(session?.client && session.address);
+  const intent = await HoneyStablecoinPurchaseService.createIntent(telegramId, packageIndex, coin, useWalletConnect ? 'walletconnect' : 'web', mainWallet);
+  const intentId = intent._id.toString();
+
+  let message = `🍯 *Honey Purchase: ${intent.honeyAmount.toLocaleString()} Honey*\n\n`;
+  message += `Send **exactly** \`${intent.amountFormatted}\` ${coin.symbol} (BEP-20)\n`;
+  message += `📥 To: \`${intent.depositAddress}\`\n`;
+  message += `⏱ Valid for 30 minutes\n\n`;
+  message += `_The last digits identify your payment. A different amount can't be matched to this purchase._`;
+
+  const payButton = useWalletConnect
+    ? Markup.button.callback('📱 Sign in Wallet', `honey_sc_sign_${intentId}`)
+    : Markup.button.url('🔗 Pay in Browser', await createWebPaymentLink(telegramId, intent.depositAddress, intent.amountFormatted, coin.symbol));
+
+  await ctx.editMessageText(message, {
+    parse_mode: 'Markdown',
+    reply_markup: Markup.inlineKeyboard([
+      [payButton],
+      [Markup.button.callback('❌ Cancel', `honey_sc_cancel_${intentId}`)]
+    ]).reply_markup
+  });
+}
+
+async function createWebPaymentLink(telegramId: number, to: string, amount: string, symbol: string): Promise<string> {
+  const { generateTransferLink } = await import('../../api/server');
+  return generateTransferLink(telegramId, to, amount, symbol, 'honey_recharge');
+}
+
+/**
+ * Send the stablecoin transfer of an intent to the user's wallet over WalletConnect.
+ * preflightConfirmed is set once the user has accepted a HIGH risk pre-flight check.
+ */
+export async function signStablecoinPurchase(ctx: Context, intentId: string, preflightConfirmed: boolean = false): Promise<void> {
+  const telegramId = ctx.from?.id;
+  if (!telegramId) return;
+
+  const backKeyboard = Markup.inlineKeyboard([[Markup.button.callback('🔙 Back', 'honey_stablecoin')]]).reply_markup;
+  const intent = await HoneyStablecoinPurchaseService.getIntent(intentId);
+  if (!intent || intent.telegramId !== telegramId || intent.status !== 'pending') {
+    await ctx.editMessageText('⌛ This payment request has expired. Please start the purchase again.', { reply_markup: backKeyboard });
+    return;
+  }
+
+  const session = global.userSessions.get(telegramId);
+  const { UserService } = await import('@/services/user');
+  const walletConnection = await UserService.getWalletConnection(telegramId);
+  if (!session?.client || !session.address || !walletConnection?.topic
+    || !session.client.session.getAll().some(s => s.topic === walletConnection.topic)) {
+    await ctx.editMessageText('❌ Your wallet session has expired. Please reconnect your wallet and try again.', { reply_markup: backKeyboard });
+    return;
+  }
+
+  const tx = HoneyStablecoinPurchaseService.buildTransferRequest(intent, session.address);
+  const title = `🍯 *Honey Purchase: ${intent.honeyAmount.toLocaleString()} Honey*\n\n`;
+
+  try {
+    const preflight = await transactionPreflightService.check(tx);
+    if (preflight.requiresConfirmation && !preflightConfirmed) {
+      await ctx.editMessageText(`${title}${formatPreflightReport(preflight)}\n🚨 This transaction was rated high risk. Only continue if you understand why.`, {
+        parse_mode: 'Markdown',
+        reply_markup: Markup.inlineKeyboard([
+          [Markup.button.callback('⚠️ I understand, send to wallet', `honey_sc_force_${intentId}`)],
+          [Markup.button.callback('❌ Cancel', `honey_sc_cancel_${intentId}`)]
+        ]).reply_markup
+      });
+      return;
+    }
+
+    await ctx.editMessageText(`${title}${formatPreflightReport(preflight)}\n⏳ Please confirm the payment in your wallet...`, { parse_mode: 'Markdown' });
+
+    const txHash = await session.client.request<string>({
+      topic: walletConnection.topic,
+      chainId: 'eip155:56', // BSC mainnet
+      request: {
+        method: 'eth_sendTransaction',
+        params: [tx]
+      }
+    });
+    intent.submittedTxHash = txHash;
+    await intent.save();
+
+    await ctx.editMessageText(`${title}📤 Payment sent: [View on BSCScan](https://bscscan.com/tx/${txHash})\n\nYour Honey is credited automatically after on-chain confirmation. You'll get a message here.`, {
+      parse_mode: 'Markdown',
+      reply_markup: Markup.inlineKeyboard([[Markup.button.callback('🏠 Main Menu', 'main_menu')]]).reply_markup
+    });
+  } catch (error: any) {
+    log.error('Error sending honey stablecoin payment:', { telegramId, intentId, error: error instanceof Error ? error.message : String(error) });
+    const message = error?.message?.includes('rejected')
+      ? '❌ Payment was rejected in your wallet.'
+      : '❌ *Payment Failed*\n\nPlease try again.';
+    await ctx.editMessageText(message, { parse_mode: 'Markdown', reply_markup: backKeyboard });
+  }
+}
+
 /**
  * Show honey purchase history
  */
@@ -229,6 +392,9 @@ export async function showHoneyHistory(ctx: Context): Promise<void> {
     } else {
       message += `🍯 **Total Honey Purchased:** ${stats.totalPurchased.toLocaleString()}\n`;
       message += `💰 **Total BNB Spent:** ${stats.totalSpent} BNB\n`;
+      if (stats.totalSpentUsd > 0) {
+        message += `💵 **Total Stablecoins Spent:** $${stats.totalSpentUsd.toFixed(2)}\n`;
+      }
       message += `🛒 **Number of Purchases:** ${stats.purchaseCount}\n\n`;
 
       const avgHoneyPerPurchase = Math.round(stats.totalPurchased / stats.purchaseCount);
@@ -267,6 +433,8 @@ export async function showHoneyHelp(ctx: Context): Promise<void> {
   message += `2️⃣ Confirm the purchase\n`;
   message += `3️⃣ BNB is sent from your trading wallet to our secure address\n`;
   message += `4️⃣ Honey is instantly credited to your account\n\n`;
+  message += `**Paying with USDT/USDC?**\n`;
+  message += `Stablecoin packages are paid from your main wallet, signed via WalletConnect or in the browser. Send the exact amount shown: Honey is credited once the transfer is confirmed on-chain.\n\n`;
   message += `**Packages Available:**\n`;
   message += `• 100 Honey = 0.0013 BNB (Base price)\n`;
   message += `• 1,000 Honey = 0.012 BNB (+25% more Honey)\n`;
@@ -0,0 +1,518 @@
+import { Context, Markup } from 'telegraf';
+import { TrackedTokenModel } from '@/database/models/TrackedToken';
+import { LimitOrder } from '@/database/models/LimitOrder';
+import { LimitOrderService, getRemainingAmount, isStaleTrigger } from '@/services/limitOrders/limitOrderService';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('telegram.menus.limitOrders');
+
+const BUY_PRICE_PRESETS = [-5, -10, -20, -30];
+const SELL_PRICE_PRESETS = [10, 25, 50, 100];
+const BUY_AMOUNT_PRESETS = ['0.05', '0.1', '0.25', '0.5'];
+const SELL_PERCENT_PRESETS = [25, 50, 100];
+const EXPIRY_PRESETS: Array<{ hours: number; label: string }> = [
+    { hours: 1, label: '1h' },
+    { hours: 24, label: '24h' },
+    { hours: 168, label: '7d' },
+    { hours: 720, label: '30d' }
+];
+
+export class LimitOrderMenu {
+    /**
+     * Show the user's limit orders, for all tokens or a single tracked token
+     */
+    static async showMyOrders(ctx: Context, tokenAddress?: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const orders = await LimitOrderService.getOrders(userId, tokenAddress);
+            const token = tokenAddress
+                ? await TrackedTokenModel.findOne({ telegramId: userId, tokenAddress: tokenAddress.toLowerCase(), isActive: true })
+                : null;
+
+            let message = tokenAddress
+                ? `📑 **Limit Orders: ${token?.tokenSymbol || 'Unknown'}**\n\n`
+                : `📑 **My Orders**\n\n`;
+
+            if (token?.currentPrice) {
+                message += `**Current Price:** $${parseFloat(token.currentPrice).toPrecision(6)}\n\n`;
+            }
+
+            const orderButtons: ReturnType<typeof Markup.button.callback>[][] = [];
+
+            if (orders.length === 0) {
+                message += tokenAddress
+                    ? `_No limit orders for this token yet._\n\nBuy orders fill at or below the limit price, sell orders at or above it.`
+                    : `_You have no limit orders._\n\nCreate one from a tracked token's Auto-Trade screen.`;
+            }
+
+            orders.forEach((order, index) => {
+                const orderId = order._id.toString();
+                message += `**#${index + 1}** ${this.formatOrderLine(order)}\n`;
+                message += `   └ ${this.formatStatus(order)}\n`;
+
+                if (order.status === 'open' || isStaleTrigger(order)) {
+                    orderButtons.push([
+                        Markup.button.callback(`🔍 #${index + 1}`, `lo_view_${orderId}`),
+                        Markup.button.callback(`❌ Cancel #${index + 1}`, `lo_cancel_${orderId}`)
+                    ]);
+                } else {
+                    orderButtons.push([Markup.button.callback(`🔍 #${index + 1}`, `lo_view_${orderId}`)]);
+                }
+            });
+
+            const keyboard = {
+                inline_keyboard: [
+                    ...orderButtons,
+                    ...(tokenAddress ? [[
+                        Markup.button.callback('🟢 New Buy Order', `lo_new_buy_${tokenAddress}`),
+                        Markup.button.callback('🔴 New Sell Order', `lo_new_sell_${tokenAddress}`)
+                    ]] : []),
+                    [
+                        tokenAddress
+                            ? Markup.button.callback('🔙 Back to Auto-Trade', `autotrade_rules_${tokenAddress}`)
+                            : Markup.button.callback('🔙 Back', 'track_token')
+                    ]
+                ]
+            };
+
+            if (ctx.callbackQuery) {
+                try {
+                    await ctx.editMessageText(message, {
+                        parse_mode: 'Markdown',
+                        reply_markup: keyboard
+                    });
+                    return;
+                } catch (editError) {
+                    logger.warn('Failed to edit message, sending new one', { error: editError });
+                }
+            }
+            await ctx.reply(message, {
+                parse_mode: 'Markdown',
+                reply_markup: keyboard
+            });
+
+        } catch (error) {
+            logger.error('Error showing limit orders', { error, userId, tokenAddress });
+            await ctx.reply('❌ Error loading limit orders');
+        }
+    }
+
+    /**
+     * Show a single order with its fills and status history
+     */
+    static async showOrderDetails(ctx: Context, orderId: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const order = await LimitOrderService.getOrder(userId, orderId);
+            if (!order) {
+                await ctx.answerCbQuery('❌ Order not found', { show_alert: true });
+                return;
+            }
+
+            let message = `📑 **Limit Order**\n\n`;
+            message += `${this.formatOrderLine(order)}\n`;
+            message += `**Status:** ${this.formatStatus(order)}\n`;
+            message += `**Good Till:** ${order.goodTill.toUTCString()}\n`;
+
+            if (order.fills.length > 0) {
+                message += `\n**Fills:**\n`;
+                for (const fill of order.fills) {
+                    message += `• ${fill.amount} at $${fill.price.toPrecision(6)}${fill.txHash ? ` ([tx](https://bscscan.com/tx/${fill.txHash}))` : ''}\n`;
+                }
+            }
+
+            message += `\n**History:**\n`;
+            for (const change of order.statusHistory.slice(-10)) {
+                message += `• ${new Date(change.at).toUTCString()} — ${change.status}${change.note ? ` (${change.note})` : ''}\n`;
+            }
+
+            const keyboard = {
+                inline_keyboard: [
+                    ...(order.status === 'open' || isStaleTrigger(order) ? [[Markup.button.callback('❌ Cancel Order', `lo_cancel_${orderId}`)]] : []),
+                    [Markup.button.callback('🔙 Back', `lo_token_${order.tokenAddress}`)]
+                ]
+            };
+
+            await ctx.editMessageText(message, {
+                parse_mode: 'Markdown',
+                reply_markup: keyboard,
+                link_preview_options: { is_disabled: true }
+            });
+
+        } catch (error) {
+            logger.error('Error showing limit order details', { error, userId, orderId });
+            await ctx.answerCbQuery('❌ Error loading order', { show_alert: true });
+        }
+    }
+
+    /**
+     * Cancel an open order and refresh the token's order list
+     */
+    static async cancelOrder(ctx: Context, orderId: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const order = await LimitOrderService.getOrder(userId, orderId);
+            if (!order) {
+                await ctx.answerCbQuery('❌ Order not found', { show_alert: true });
+                return;
+            }
+
+            const cancelled = await LimitOrderService.cancelOrder(userId, orderId);
+            await ctx.answerCbQuery(cancelled ? '✅ Order cancelled' : '⚠️ Order is no longer open');
+            await this.showMyOrders(ctx, order.tokenAddress);
+
+        } catch (error) {
+            logger.error('Error cancelling limit order', { error, userId, orderId });
+            await ctx.answerCbQuery('❌ Error cancelling order', { show_alert: true });
+        }
+    }
+
+    /**
+     * Start creating a limit order: ask for the limit price
+     */
+    static async initiateOrderSetup(ctx: Context, side: 'buy' | 'sell', tokenAddress: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const token = await TrackedTokenModel.findOne({
+                telegramId: userId,
+                tokenAddress: tokenAddress.toLowerCase(),
+                isActive: true
+            });
+
+            if (!token || !token.currentPrice) {
+                await ctx.answerCbQuery('❌ Token data not found. Please refresh token prices first.', { show_alert: true });
+                return;
+            }
+
+            // Store order details in session to avoid long callback data
+            let session = global.userSessions.get(userId);
+            if (!session) {
+                const { WalletService } = await import('@/services/wallet/connect');
+                const walletService = new WalletService(global.userSessions);
+                await walletService.initializeConnection(userId);
+                session = global.userSessions.get(userId);
+            }
+
+            if (session) {
+                session.limitOrderSetup = {
+                    tokenAddress: tokenAddress,
+                    side: side
+                };
+                global.userSessions.set(userId, session);
+            }
+
+            const currentPrice = parseFloat(token.currentPrice);
+            const presets = side === 'buy' ? BUY_PRICE_PRESETS : SELL_PRICE_PRESETS;
+
+            const message = `${side === 'buy' ? '🟢 **New Buy Order**' : '🔴 **New Sell Order**'}: ${token.tokenSymbol || 'Unknown'}\n\n` +
+                `**Current Price:** $${currentPrice.toPrecision(6)}\n\n` +
+                `**Step 1 of 3:** Choose the limit price. ` +
+                (side === 'buy'
+                    ? `The order fills when the price drops to or below it.`
+                    : `The order fills when the price rises to or above it.`);
+
+            const priceButtons = presets.map(percent => Markup.button.callback(
+                `${percent > 0 ? '+' : ''}${percent}% ($${(currentPrice * (1 + percent / 100)).toPrecision(4)})`,
+                `lo_px_${percent}`
+            ));
+
+            const keyboard = {
+                inline_keyboard: [
+                    priceButtons.slice(0, 2),
+                    priceButtons.slice(2),
+                    [Markup.button.callback('✏️ Custom Price', 'lo_px_custom')],
+                    [Markup.button.callback('❌ Cancel', `lo_token_${tokenAddress}`)]
+                ]
+            };
+
+            await ctx.editMessageText(message, {
+                parse_mode: 'Markdown',
+                reply_markup: keyboard
+            });
+
+        } catch (error) {
+            logger.error('Error initiating limit order setup', { error, userId, tokenAddress, side });
+            await ctx.answerCbQuery('❌ Error setting up limit order', { show_alert: true });
+        }
+    }
+
+    /**
+     * Handle a limit price preset (percentage from current price) or custom price request
+     */
+    static async handlePricePreset(ctx: Context, preset: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const session = global.userSessions.get(userId);
+        const setup = session?.limitOrderSetup;
+        if (!session || !setup?.tokenAddress) {
+            await ctx.answerCbQuery('❌ Session expired, please try again', { show_alert: true });
+            return;
+        }
+
+        if (preset === 'custom') {
+            setup.waitingForInput = 'price';
+            global.userSessions.set(userId, session);
+
+            await ctx.editMessageText(`✏️ **Enter Limit Price**\n\nPlease enter the limit price in USD (e.g. 0.0025):`, {
+                parse_mode: 'Markdown',
+                reply_markup: {
+                    inline_keyboard: [
+                        [Markup.button.callback('❌ Cancel', `lo_token_${setup.tokenAddress}`)]
+                    ]
+                }
+            });
+            return;
+        }
+
+        const token = await TrackedTokenModel.findOne({
+            telegramId: userId,
+            tokenAddress: setup.tokenAddress.toLowerCase(),
+            isActive: true
+        });
+        const percent = parseFloat(preset);
+        if (!token?.currentPrice || isNaN(percent)) {
+            await ctx.answerCbQuery('❌ Token data not found', { show_alert: true });
+            return;
+        }
+
+        await this.handleLimitPrice(ctx, (parseFloat(token.currentPrice) * (1 + percent / 100)).toString());
+    }
+
+    /**
+     * Store the limit price and ask for the amount
+     */
+    static async handleLimitPrice(ctx: Context, priceText: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const session = global.userSessions.get(userId);
+        const setup = session?.limitOrderSetup;
+        if (!session || !setup?.tokenAddress || !setup.side) {
+            await this.replyOrAnswer(ctx, '❌ Session expired, please try again');
+            return;
+        }
+
+        const limitPrice = parseFloat(priceText);
+        if (isNaN(limitPrice) || limitPrice <= 0) {
+            await this.replyOrAnswer(ctx, '❌ Please enter a valid positive number.');
+            return;
+        }
+
+        setup.limitPrice = limitPrice;
+        delete setup.waitingForInput;
+        global.userSessions.set(userId, session);
+
+        let message = `${setup.side === 'buy' ? '🟢 **New Buy Order**' : '🔴 **New Sell Order**'}\n\n` +
+            `**Limit Price:** $${limitPrice.toPrecision(6)}\n\n`;
+        let amountRow: ReturnType<typeof Markup.button.callback>[];
+
+        if (setup.side === 'buy') {
+            message += `**Step 2 of 3:** How much BNB should the order spend?`;
+            amountRow = BUY_AMOUNT_PRESETS.map(amount => Markup.button.callback(`${amount} BNB`, `lo_amt_${amount}`));
+        } else {
+            message += `**Step 2 of 3:** How much of your current ${await this.getTokenSymbol(userId, setup.tokenAddress)} holdings should the order sell?`;
+            amountRow = SELL_PERCENT_PRESETS.map(percent => Markup.button.callback(`${percent}%`, `lo_amt_p${percent}`));
+        }
+
+        const keyboard = {
+            inline_keyboard: [
+                amountRow,
+                [Markup.button.callback('✏️ Custom Amount', 'lo_amt_custom')],
+                [Markup.button.callback('❌ Cancel', `lo_token_${setup.tokenAddress}`)]
+            ]
+        };
+
+        await this.editOrReply(ctx, message, keyboard);
+    }
+
+    /**
+     * Handle an amount preset or custom amount request
+     */
+    static async handleAmountPreset(ctx: Context, preset: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const session = global.userSessions.get(userId);
+        const setup = session?.limitOrderSetup;
+        if (!session || !setup?.tokenAddress || !setup.side) {
+            await ctx.answerCbQuery('❌ Session expired, please try again', { show_alert: true });
+            return;
+        }
+
+        if (preset === 'custom') {
+            setup.waitingForInput = 'amount';
+            global.userSessions.set(userId, session);
+
+            const unit = setup.side === 'buy' ? 'BNB to spend' : 'tokens to sell';
+            await ctx.editMessageText(`✏️ **Enter Amount**\n\nPlease enter the amount of ${unit}:`, {
+                parse_mode: 'Markdown',
+                reply_markup: {
+                    inline_keyboard: [
+                        [Markup.button.callback('❌ Cancel', `lo_token_${setup.tokenAddress}`)]
+                    ]
+                }
+            });
+            return;
+        }
+
+        if (preset.startsWith('p')) {
+            // Sell a percentage of the tokens currently held in the trading wallet
+            const percent = parseFloat(preset.slice(1));
+            const balance = await this.getTradingWalletTokenBalance(userId, setup.tokenAddress);
+            if (!(balance > 0)) {
+                await ctx.answerCbQuery('❌ No tokens in your trading wallet to sell', { show_alert: true });
+                return;
+            }
+            await this.handleAmount(ctx, (Math.floor(balance * percent / 100 * 1e8) / 1e8).toString());
+            return;
+        }
+
+        await this.handleAmount(ctx, preset);
+    }
+
+    /**
+     * Store the amount and ask for the good-till time
+     */
+    static async handleAmount(ctx: Context, amountText: string): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const session = global.userSessions.get(userId);
+        const setup = session?.limitOrderSetup;
+        if (!session || !setup?.tokenAddress || !setup.side || !setup.limitPrice) {
+            await this.replyOrAnswer(ctx, '❌ Session expired, please try again');
+            return;
+        }
+
+        const amount = parseFloat(amountText);
+        if (isNaN(amount) || amount <= 0) {
+            await this.replyOrAnswer(ctx, '❌ Please enter a valid positive number.');
+            return;
+        }
+
+        setup.amount = amountText;
+        delete setup.waitingForInput;
+        global.userSessions.set(userId, session);
+
+        const unit = setup.side === 'buy' ? 'BNB' : await this.getTokenSymbol(userId, setup.tokenAddress);
+        const message = `${setup.side === 'buy' ? '🟢 **New Buy Order**' : '🔴 **New Sell Order**'}\n\n` +
+            `**Limit Price:** $${setup.limitPrice.toPrecision(6)}\n` +
+            `**Amount:** ${amountText} ${unit}\n\n` +
+            `**Step 3 of 3:** How long should the order stay open?`;
+
+        const keyboard = {
+            inline_keyboard: [
+                EXPIRY_PRESETS.map(preset => Markup.button.callback(preset.label, `lo_exp_${preset.hours}`)),
+                [Markup.button.callback('❌ Cancel', `lo_token_${setup.tokenAddress}`)]
+            ]
+        };
+
+        await this.editOrReply(ctx, message, keyboard);
+    }
+
+    /**
+     * Store the good-till time and place the order
+     */
+    static async handleExpiry(ctx: Context, goodTillHours: number): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        const session = global.userSessions.get(userId);
+        const setup = session?.limitOrderSetup;
+        if (!session || !setup?.tokenAddress || !setup.side || !setup.limitPrice || !setup.amount) {
+            await ctx.answerCbQuery('❌ Session expired, please try again', { show_alert: true });
+            return;
+        }
+
+        const tokenAddress = setup.tokenAddress;
+
+        try {
+            await LimitOrderService.createOrder({
+                telegramId: userId,
+                tokenAddress,
+                tokenSymbol: await this.getTokenSymbol(userId, tokenAddress),
+                side: setup.side,
+                limitPrice: setup.limitPrice,
+                amount: setup.amount,
+                goodTillHours
+            });
+
+            delete session.limitOrderSetup;
+            global.userSessions.set(userId, session);
+
+            await ctx.answerCbQuery('✅ Limit order placed!', { show_alert: true });
+            await this.showMyOrders(ctx, tokenAddress);
+
+        } catch (error) {
+            logger.error('Error placing limit order', { error, userId, tokenAddress });
+            const errorText = error instanceof Error ? error.message : 'Error placing limit order';
+            await ctx.answerCbQuery(`❌ ${errorText}`, { show_alert: true });
+        }
+    }
+
+    private static formatOrderLine(order: LimitOrder): string {
+        const unit = order.side === 'buy' ? 'BNB' : order.tokenSymbol;
+        const sideText = order.side === 'buy' ? '🟢 BUY' : '🔴 SELL';
+        return `${sideText} ${order.tokenSymbol} — ${order.amount} ${unit} @ $${order.limitPrice.toPrecision(6)}`;
+    }
+
+    private static formatStatus(order: LimitOrder): string {
+        const filled = parseFloat(order.filledAmount || '0');
+        const filledText = filled > 0 && order.status !== 'filled'
+            ? `, ${((filled / parseFloat(order.amount)) * 100).toFixed(0)}% filled`
+            : '';
+
+        switch (order.status) {
+            case 'open':
+                return `🟡 Open${filledText}${getRemainingAmount(order) > 0 && order.waitingForBalance ? ' (waiting for funds)' : ''} · expires ${order.goodTill.toUTCString()}`;
+            case 'triggered': return `⚡ Triggered — filling${filledText}`;
+            case 'filled': return '✅ Filled';
+            case 'expired': return `⌛ Expired${filledText}`;
+            case 'cancelled': return `❌ Cancelled${filledText}`;
+            default: return order.status;
+        }
+    }
+
+    private static async getTokenSymbol(userId: number, tokenAddress: string): Promise<string> {
+        const token = await TrackedTokenModel.findOne({ telegramId: userId, tokenAddress: tokenAddress.toLowerCase() });
+        return token?.tokenSymbol || 'Unknown';
+    }
+
+    private static async getTradingWalletTokenBalance(userId: number, tokenAddress: string): Promise<number> {
+        const { UserService } = await import('@/services/user');
+        const tradingWalletAddress = await UserService.getTradingWalletAddress(userId);
+        if (!tradingWalletAddress) return 0;
+
+        const { PancakeSwapTrader } = await import('@/services/pancakeswap');
+        const trader = new PancakeSwapTrader();
+        return parseFloat(await trader.getTokenBalance(tokenAddress, tradingWalletAddress)) || 0;
+    }
+
+    /**
+     * Steps can be reached from a button (edit the message) or typed input (reply)
+     */
+    private static async editOrReply(ctx: Context, message: string, keyboard: any): Promise<void> {
+        if (ctx.callbackQuery) {
+            await ctx.editMessageText(message, { parse_mode: 'Markdown', reply_markup: keyboard });
+        } else {
+            await ctx.reply(message, { parse_mode: 'Markdown', reply_markup: keyboard });
+        }
+    }
+
+    private static async replyOrAnswer(ctx: Context, text: string): Promise<void> {
+        if (ctx.callbackQuery) {
+            await ctx.answerCbQuery(text, { show_alert: true });
+        } else {
+            await ctx.reply(text);
+        }
+    }
+}
@@ -2,6 +2,8 @@ import { Context } from "telegraf"
 import { getTranslation, getUserLanguage } from "@/i18n"
 import { UserModel } from "@/database/models/User"
 import { UserService } from "@/services/user"
+import { TRADING_PREFERENCE_OPTIONS, getPrivateRpcUrl } from "@/services/trading/tradingPreferences"
+import { RUG_WATCH_THRESHOLD_OPTIONS } from "@/services/rugAlerts/rugWatch"
 
 export async function settingsMenu(ctx: Context) {
 	const telegramId = ctx.from?.id
@@ -40,6 +42,16 @@ export async function settingsMenu(ctx: Context) {
 		(lang === 'zh' ? '📝 显示确认' : '📝 Show Confirmations') : 
 		(lang === 'zh' ? '⚡ 快速交易' : '⚡ Quick Trade')
 	
+	// Format buy guard status
+	const buyGuardStatus = (user.buyGuardEnabled ?? true) ?
+		`🛡️ ${(user.buyGuardMode || 'block') === 'block' ? (lang === 'zh' ? '拦截' : 'Block') : (lang === 'zh' ? '警告' : 'Warn')} > ${user.buyGuardMaxLossPercent ?? 30}%` :
+		(lang === 'zh' ? '❌ 关闭' : '❌ Off')
+	
+	// Format rug-watch status
+	const rugWatchStatus = (user.rugWatchEnabled ?? true) ?
+		`🚨 ${lang === 'zh' ? '低于' : 'Below'} ${user.rugWatchThreshold ?? 40}/100` :
+		(lang === 'zh' ? '❌ 关闭' : '❌ Off')
+	
 	// Format debug mode status
 	const debugModeStatus = user.debugMode ? 
 		(lang === 'zh' ? '🐛 开启' : '🐛 On') : 
@@ -54,6 +66,8 @@ export async function settingsMenu(ctx: Context) {
   👤 ${lang === 'zh' ? '名称' : 'Name'}: ${nameStatus}
   👛 ${lang === 'zh' ? '投资组合/收益查询' : 'Portfolio/Yield Queries'}: ${walletPrefDisplay}
   ⚡ ${lang === 'zh' ? '交易确认设置' : 'Trade Confirmations'}: ${quickTradeStatus}
+  🛡️ ${lang === 'zh' ? '买入保护' : 'Buy Guard'}: ${buyGuardStatus}
+  🚨 ${lang === 'zh' ? '跑路监控' : 'Rug-Watch'}: ${rugWatchStatus}
   🔗 ${lang === 'zh' ? 'AI 链选择' : 'AI Chain'}: ${chainStatus}
   ${languageLabel}: ${isEnglish ? '🇬🇧 English' : '🇨🇳 中文'}
   🌍 ${lang === 'zh' ? '时区' : 'Timezone'}: ${userTimezone}
@@ -76,6 +90,18 @@ export async function settingsMenu(ctx: Context) {
 					(lang === 'zh' ? '📝 显示确认' : '📝 Show Confirmations'), 
 				callback_data: 'toggle_trade_confirmations' 
 			}],
+			[{ 
+				text: lang === 'zh' ? '🛡️ 买入保护' : '🛡️ Buy Guard', 
+				callback_data: 'buy_guard_settings' 
+			}],
+			[{ 
+				text: lang === 'zh' ? '🚨 跑路监控' : '🚨 Rug-Watch', 
+				callback_data: 'rug_watch_settings' 
+			}],
+			[{ 
+				text: lang === 'zh' ? '⚙️ 交易偏好' : '⚙️ Trading Preferences', 
+				callback_data: 'trading_preferences' 
+			}],
 			[{ 
 				text: user.selectedChain === 'opbnb' ? 
 					(lang === 'zh' ? '🔗 opBNB → ⛓️ BNB Chain' : '🔗 opBNB → ⛓️ BNB Chain') : 
@@ -341,6 +367,222 @@ You can also switch chains using natural language:
 	}
 }
 
+export async function buyGuardSettingsMenu(ctx: Context) {
+	const telegramId = ctx.from?.id
+	if (!telegramId) return
+	
+	const user = await UserModel.findOne({ telegramId })
+	if (!user) return
+	
+	const lang = await getUserLanguage(telegramId)
+	const enabled = user.buyGuardEnabled ?? true
+	const mode = user.buyGuardMode || 'block'
+	const maxLoss = user.buyGuardMaxLossPercent ?? 30
+	
+	const message = lang === 'zh' ?
+		`🛡️ **买入保护**
+
+每次买入（手动或自动）前，先模拟买入并立即卖出，检测卖出限制和实际买卖税。
+
+状态：${enabled ? '✅ 开启' : '❌ 关闭'}
+触发时：${mode === 'block' ? '⛔ 拦截买入' : '⚠️ 警告（自动交易仍会执行）'}
+最大往返损失：${maxLoss}%
+
+无法卖出或往返损失超过上限的代币会被拦截或警告。` :
+		`🛡️ **Buy Guard**
+
+Before every buy, manual or automatic, the bot simulates the buy and an immediate sell to catch tokens that can't be sold and to measure the real buy and sell tax.
+
+Status: ${enabled ? '✅ On' : '❌ Off'}
+When triggered: ${mode === 'block' ? '⛔ Block the buy' : '⚠️ Warn (auto-trades still go through)'}
+Max round-trip loss: ${maxLoss}%
+
+Tokens that can't be sold, or lose more than the limit on a round trip, are blocked or flagged.`
+
+	const lossOptions = [10, 20, 30, 50]
+	
+	const keyboard = {
+		inline_keyboard: [
+			[{ 
+				text: enabled ? 
+					(lang === 'zh' ? '❌ 关闭买入保护' : '❌ Turn Off Buy Guard') : 
+					(lang === 'zh' ? '✅ 开启买入保护' : '✅ Turn On Buy Guard'), 
+				callback_data: 'toggle_buy_guard' 
+			}],
+			[
+				{ 
+					text: `${mode === 'block' ? '✅ ' : ''}${lang === 'zh' ? '⛔ 拦截' : '⛔ Block'}`, 
+					callback_data: 'set_buy_guard_mode:block' 
+				},
+				{ 
+					text: `${mode === 'warn' ? '✅ ' : ''}${lang === 'zh' ? '⚠️ 警告' : '⚠️ Warn'}`, 
+					callback_data: 'set_buy_guard_mode:warn' 
+				}
+			],
+			lossOptions.map(option => ({
+				text: option === maxLoss ? `✅ ${option}%` : `${option}%`,
+				callback_data: `set_buy_guard_loss:${option}`
+			})),
+			[{ 
+				text: lang === 'zh' ? '🔙 返回设置' : '🔙 Back to Settings', 
+				callback_data: 'settings' 
+			}]
+		]
+	}
+
+	if (ctx.callbackQuery) {
+		await ctx.editMessageText(message, { reply_markup: keyboard, parse_mode: 'Markdown' })
+	} else {
+		await ctx.reply(message, { reply_markup: keyboard, parse_mode: 'Markdown' })
+	}
+}
+
+export async function rugWatchSettingsMenu(ctx: Context) {
+	const telegramId = ctx.from?.id
+	if (!telegramId) return
+	
+	const user = await UserModel.findOne({ telegramId })
+	if (!user) return
+	
+	const lang = await getUserLanguage(telegramId)
+	const enabled = user.rugWatchEnabled ?? true
+	const threshold = user.rugWatchThreshold ?? 40
+	const sellButton = user.rugWatchSellButton ?? true
+	
+	const message = lang === 'zh' ?
+		`🚨 **跑路监控**
+
+后台持续监控交易钱包中的代币和所有追踪代币。定期重新评估安全分，并在流动性骤降、LP 解锁、增发、所有权变更或大户/开发者抛售时立即复查。
+
+状态：${enabled ? '✅ 开启' : '❌ 关闭'}
+提醒阈值：安全分低于 ${threshold}/100
+一键清仓按钮：${sellButton ? '✅ 显示' : '❌ 隐藏'}
+
+清仓按钮只会出现在交易钱包持有代币的提醒中。` :
+		`🚨 **Rug-Watch**
+
+Keeps watching every token in your trading wallet and every tracked token. Safety scores are re-checked on a schedule, and right away when liquidity drops, LP unlocks, new tokens are minted, ownership changes or a big holder or the dev dumps.
+
+Status: ${enabled ? '✅ On' : '❌ Off'}
+Alert when safety score is below: ${threshold}/100
+One-tap sell all button: ${sellButton ? '✅ Shown' : '❌ Hidden'}
+
+The sell button is only added for tokens held in your trading wallet.`
+	
+	const keyboard = {
+		inline_keyboard: [
+			[{ 
+				text: enabled ? 
+					(lang === 'zh' ? '❌ 关闭跑路监控' : '❌ Turn Off Rug-Watch') : 
+					(lang === 'zh' ? '✅ 开启跑路监控' : '✅ Turn On Rug-Watch'), 
+				callback_data: 'toggle_rug_watch' 
+			}],
+			RUG_WATCH_THRESHOLD_OPTIONS.map(option => ({
+				text: option === threshold ? `✅ <${option}` : `<${option}`,
+				callback_data: `set_rug_watch_threshold:${option}`
+			})),
+			[{ 
+				text: sellButton ? 
+					(lang === 'zh' ? '🙈 隐藏清仓按钮' : '🙈 Hide Sell All Button') : 
+					(lang === 'zh' ? '🚨 显示清仓按钮' : '🚨 Show Sell All Button'), 
+				callback_data: 'toggle_rug_watch_sell' 
+			}],
+			[{ 
+				text: lang === 'zh' ? '🔙 返回设置' : '🔙 Back to Settings', 
+				callback_data: 'settings' 
+			}]
+		]
+	}
+
+	if (ctx.callbackQuery) {
+		await ctx.editMessageText(message, { reply_markup: keyboard, parse_mode: 'Markdown' })
+	} else {
+		await ctx.reply(message, { reply_markup: keyboard, parse_mode: 'Markdown' })
+	}
+}
+
+export async function tradingPreferencesMenu(ctx: Context) {
+	const telegramId = ctx.from?.id
+	if (!telegramId) return
+	
+	const user = await UserModel.findOne({ telegramId })
+	if (!user) return
+	
+	const lang = await getUserLanguage(telegramId)
+	const slippage = user.slippagePercent
+	const maxGas = user.maxGasPriceGwei
+	const priorityFee = user.priorityFeeGwei ?? 0
+	const deadline = user.tradeDeadlineMinutes ?? 20
+	const privateMempool = user.privateMempool ?? false
+	const privateAvailable = !!getPrivateRpcUrl()
+	
+	const slippageDisplay = slippage !== undefined && slippage !== null ? `${slippage}%` : (lang === 'zh' ? '自动（手动 5%，自动交易 20%）' : 'Auto (5% manual, 20% auto-trades)')
+	const maxGasDisplay = maxGas ? `${maxGas} gwei` : (lang === 'zh' ? '无上限' : 'No cap')
+	const privateDisplay = !privateAvailable ? (lang === 'zh' ? '⚪ 未配置' : '⚪ Not configured') :
+		privateMempool ? (lang === 'zh' ? '🔒 开启' : '🔒 On') : (lang === 'zh' ? '🌐 关闭' : '🌐 Off')
+	
+	const message = lang === 'zh' ?
+		`⚙️ **交易偏好**
+
+适用于所有交易：手动买卖、自动交易、定投和限价单。
+
+📉 滑点：${slippageDisplay}
+⛽ 最高 Gas 价格：${maxGasDisplay}
+⚡ 优先费：${priorityFee} gwei
+⏱️ 交易期限：${deadline} 分钟
+🔒 私有内存池：${privateDisplay}
+
+私有内存池会将签名交易发送到私有 RPC，避免被夹子攻击。` :
+		`⚙️ **Trading Preferences**
+
+Applied to every trade: manual buys and sells, auto-trades, DCA and limit orders.
+
+📉 Slippage: ${slippageDisplay}
+⛽ Max Gas Price: ${maxGasDisplay}
+⚡ Priority Fee: ${priorityFee} gwei
+⏱️ Deadline: ${deadline} min
+🔒 Private Mempool: ${privateDisplay}
+
+The private mempool sends signed transactions to a private RPC so they can't be sandwiched.`
+	
+	const optionRow = (field: string, values: number[], current: number | undefined, unit: string, icon = '') =>
+		values.map(value => ({
+			text: `${value === current ? '✅ ' : icon}${value}${unit}`,
+			callback_data: `set_trade_pref:${field}:${value}`
+		}))
+	
+	const keyboard = {
+		inline_keyboard: [
+			[
+				{ text: `${slippage === undefined || slippage === null ? '✅ ' : ''}📉 Auto`, callback_data: 'set_trade_pref:slippage:auto' },
+				...optionRow('slippage', TRADING_PREFERENCE_OPTIONS.slippage, slippage ?? undefined, '%')
+			],
+			[
+				{ text: `${!maxGas ? '✅ ' : ''}⛽ ${lang === 'zh' ? '无上限' : 'No cap'}`, callback_data: 'set_trade_pref:maxGas:off' },
+				...optionRow('maxGas', TRADING_PREFERENCE_OPTIONS.maxGas, maxGas ?? undefined, ' gwei')
+			],
+			optionRow('priority', TRADING_PREFERENCE_OPTIONS.priority, priorityFee, ' gwei', '⚡ '),
+			optionRow('deadline', TRADING_PREFERENCE_OPTIONS.deadline, deadline, ' min', '⏱️ '),
+			[{ 
+				text: privateMempool ? 
+					(lang === 'zh' ? '🌐 使用公共内存池' : '🌐 Use Public Mempool') : 
+					(lang === 'zh' ? '🔒 使用私有内存池' : '🔒 Use Private Mempool'), 
+				callback_data: 'toggle_private_mempool' 
+			}],
+			[{ 
+				text: lang === 'zh' ? '🔙 返回设置' : '🔙 Back to Settings', 
+				callback_data: 'settings' 
+			}]
+		]
+	}
+
+	if (ctx.callbackQuery) {
+		await ctx.editMessageText(message, { reply_markup: keyboard, parse_mode: 'Markdown' })
+	} else {
+		await ctx.reply(message, { reply_markup: keyboard, parse_mode: 'Markdown' })
+	}
+}
+
 export async function timezoneMenu(ctx: Context) {
 	const telegramId = ctx.from?.id
 	if (!telegramId) return
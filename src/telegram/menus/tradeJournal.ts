@@ -0,0 +1,122 @@
+import { Context, Markup } from 'telegraf';
+import { TradeSource } from '@/database/models/TradeJournal';
+import { tradeJournal, PnlSummary, TRADE_SOURCE_LABELS } from '@/services/trading/tradeJournal';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('telegram.menus.tradeJournal');
+
+export type TradeJournalView = 'tokens' | 'strategies' | 'trades';
+
+// Rows listed per view so the message stays under Telegram's length limit
+const MAX_ROWS = 10;
+
+export class TradeJournalMenu {
+    /**
+     * Show journaled trades of the trading wallet with FIFO PnL per token or per strategy
+     */
+    static async showJournal(ctx: Context, view: TradeJournalView = 'tokens'): Promise<void> {
+        const userId = ctx.from?.id;
+        if (!userId) return;
+
+        try {
+            const pnl = await tradeJournal.getPnl(userId);
+            let message = `📒 **Trade Journal**\n\n`;
+
+            if (pnl.total.trades === 0) {
+                message += `_No trades recorded yet._\n\nEvery swap made from your trading wallet by the bot is recorded here: manual and quick trades, auto-trade rules, DCA, limit orders and copy trades.`;
+            } else {
+                message += `${this.formatSummary(pnl.total)}\n\n`;
+
+                if (view === 'tokens') {
+                    message += `**By Token**\n`;
+                    const tokens = Object.entries(pnl.byToken)
+                        .sort(([, a], [, b]) => Math.abs(b.realizedBnb + b.unrealizedBnb) - Math.abs(a.realizedBnb + a.unrealizedBnb))
+                        .slice(0, MAX_ROWS);
+                    for (const [tokenAddress, summary] of tokens) {
+                        const name = summary.symbol || `${tokenAddress.slice(0, 6)}...${tokenAddress.slice(-4)}`;
+                        message += `\n**${name}** (${summary.trades} trades)\n${this.formatSummary(summary, true)}\n`;
+                    }
+                } else if (view === 'strategies') {
+                    message += `**By Strategy**\n_PnL goes to the strategy that bought the tokens._\n`;
+                    for (const [source, summary] of Object.entries(pnl.byStrategy) as Array<[TradeSource, PnlSummary]>) {
+                        message += `\n**${TRADE_SOURCE_LABELS[source]}** (${summary.trades} trades)\n${this.formatSummary(summary, true)}\n`;
+                    }
+                } else {
+                    message += `**Recent Trades**\n`;
+                    const trades = await tradeJournal.getTrades(userId, { limit: MAX_ROWS });
+                    for (const trade of trades) {
+                        const name = trade.tokenSymbol || `${trade.tokenAddress.slice(0, 6)}...${trade.tokenAddress.slice(-4)}`;
+                        const date = trade.executedAt.toISOString().slice(5, 16).replace('T', ' ');
+                        message += `\n${trade.side === 'buy' ? '🟢' : '🔴'} ${date} ${trade.side === 'buy' ? 'Bought' : 'Sold'} ${this.formatNumber(trade.tokenAmount)} ${name} for ${this.formatNumber(trade.bnbAmount)} BNB\n`;
+                        message += `   └ ${TRADE_SOURCE_LABELS[trade.source]}${trade.trigger ? ` (${trade.trigger})` : ''}`;
+                        message += ` • ${trade.priceUsd > 0 ? `$${trade.priceUsd.toPrecision(4)}` : `${trade.priceBnb.toPrecision(4)} BNB`}`;
+                        message += ` • gas ${this.formatNumber(trade.gasCostBnb)} BNB • [tx](https://bscscan.com/tx/${trade.txHash})\n`;
+                    }
+                }
+            }
+
+            const viewButton = (target: TradeJournalView, label: string) =>
+                Markup.button.callback(`${view === target ? '✅ ' : ''}${label}`, `tj_${target}`);
+
+            const keyboard = {
+                inline_keyboard: [
+                    [viewButton('tokens', '🪙 Tokens'), viewButton('strategies', '🧭 Strategies'), viewButton('trades', '📜 Trades')],
+                    [Markup.button.callback('🔄 Refresh', `tj_${view}`)],
+                    [Markup.button.callback('🔙 Back', 'buy_sell')]
+                ]
+            };
+
+            if (ctx.callbackQuery) {
+                try {
+                    await ctx.editMessageText(message, {
+                        parse_mode: 'Markdown',
+                        reply_markup: keyboard,
+                        link_preview_options: { is_disabled: true }
+                    });
+                    return;
+                } catch (editError) {
+                    logger.warn('Failed to edit message, sending new one', { error: editError });
+                }
+            }
+            await ctx.reply(message, {
+                parse_mode: 'Markdown',
+                reply_markup: keyboard,
+                link_preview_options: { is_disabled: true }
+            });
+        } catch (error) {
+            logger.error('Error showing trade journal', { error, userId, view });
+            await ctx.reply('❌ Error loading trade journal');
+        }
+    }
+
+    private static formatSummary(summary: PnlSummary, compact = false): string {
+        const realized = `${this.formatSigned(summary.realizedBnb)} BNB (${this.formatSignedUsd(summary.realizedUsd)})`;
+        const unrealized = summary.openAmount > 0
+            ? `${this.formatSigned(summary.unrealizedBnb)} BNB (${this.formatSignedUsd(summary.unrealizedUsd)})${summary.unpriced ? ' ⚠️ partly unpriced' : ''}`
+            : '—';
+
+        let text = compact
+            ? `   Realized: ${realized}\n   Unrealized: ${unrealized}`
+            : `**Realized PnL:** ${realized}\n**Unrealized PnL:** ${unrealized}\n**Volume:** ${this.formatNumber(summary.boughtBnb)} BNB bought • ${this.formatNumber(summary.soldBnb)} BNB sold\n**Gas:** ${this.formatNumber(summary.gasBnb)} BNB`;
+
+        if (summary.unmatchedSellAmount > 0) {
+            text += compact
+                ? `\n   ⚠️ ${this.formatNumber(summary.unmatchedSellAmount)} sold tokens bought outside the bot`
+                : `\n⚠️ Some sold tokens were bought outside the bot and are left out of realized PnL`;
+        }
+        return text;
+    }
+
+    private static formatSigned(value: number): string {
+        return `${value >= 0 ? '+' : ''}${this.formatNumber(value)}`;
+    }
+
+    private static formatSignedUsd(value: number): string {
+        return `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+    }
+
+    private static formatNumber(value: number): string {
+        if (value === 0) return '0';
+        return Math.abs(value) >= 1 ? parseFloat(value.toFixed(4)).toString() : parseFloat(value.toPrecision(4)).toString();
+    }
+}
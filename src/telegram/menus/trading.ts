@@ -4,8 +4,10 @@ import { getTranslation } from '@/i18n';
 
 export async function handleBuySellMenu(ctx: Context, tradingService: TradingService) {
 	const backText = await getTranslation(ctx, 'trading.back');
+	const journalText = await getTranslation(ctx, 'trading.tradeJournal');
 	const keyboard = {
 		inline_keyboard: [
+			[{ text: journalText, callback_data: 'trade_journal' }],
 			[{ text: backText, callback_data: 'start_edit' }]
 		]
 	};
@@ -0,0 +1,64 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { getAdminTelegramIds, isAdmin, validateReferralPercents } from '@/services/admin';
+import { ADMIN_USAGE, handleAdminCommand } from '@/telegram/commands/admin';
+
+describe('Admin Service', () => {
+  const originalIds = process.env.ADMIN_TELEGRAM_IDS;
+
+  afterEach(() => {
+    if (originalIds === undefined) {
+      delete process.env.ADMIN_TELEGRAM_IDS;
+    } else {
+      process.env.ADMIN_TELEGRAM_IDS = originalIds;
+    }
+  });
+
+  it('should only treat whitelisted Telegram IDs as admins', () => {
+    process.env.ADMIN_TELEGRAM_IDS = '12345, 67890,,not-a-number';
+
+    expect(getAdminTelegramIds()).toEqual([12345, 67890]);
+    expect(isAdmin(12345)).toBe(true);
+    expect(isAdmin(11111)).toBe(false);
+    expect(isAdmin(undefined)).toBe(false);
+  });
+
+  it('should have no admins when the whitelist is unset', () => {
+    delete process.env.ADMIN_TELEGRAM_IDS;
+
+    expect(getAdminTelegramIds()).toEqual([]);
+    expect(isAdmin(12345)).toBe(false);
+  });
+
+  it('should validate custom referral tiers', () => {
+    expect(validateReferralPercents({ firstHand: 20, secondHand: 10, thirdHand: 5 })).toBeNull();
+    expect(validateReferralPercents({ firstHand: 60, secondHand: 30, thirdHand: 20 })).toMatch(/at most 100%/);
+    expect(validateReferralPercents({ firstHand: -1, secondHand: 10, thirdHand: 5 })).toMatch(/between 0 and 100/);
+    expect(validateReferralPercents({ firstHand: NaN, secondHand: 10, thirdHand: 5 })).toMatch(/between 0 and 100/);
+  });
+});
+
+describe('Admin Command', () => {
+  const originalIds = process.env.ADMIN_TELEGRAM_IDS;
+
+  afterEach(() => {
+    if (originalIds === undefined) {
+      delete process.env.ADMIN_TELEGRAM_IDS;
+    } else {
+      process.env.ADMIN_TELEGRAM_IDS = originalIds;
+    }
+  });
+
+  it('should send a usage text Telegram can parse as Markdown', async () => {
+    process.env.ADMIN_TELEGRAM_IDS = '12345';
+    const ctx = { from: { id: 12345 }, message: { text: '/admin' }, reply: vi.fn() };
+
+    await handleAdminCommand(ctx as any);
+
+    expect(ctx.reply).toHaveBeenCalledWith(ADMIN_USAGE, { parse_mode: 'Markdown' });
+    // Outside code spans an underscore opens italics that never closes and Telegram rejects the message
+    const outsideCode = ADMIN_USAGE.replace(/`[^`\n]*`/g, '');
+    expect(outsideCode).not.toMatch(/[_`]/);
+    expect((outsideCode.match(/\*/g) || []).length % 2).toBe(0);
+    expect(ADMIN_USAGE).toContain('`worker_bee`');
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { runBacktest, candlesToPricePoints, PricePoint } from '@/services/autoTrade/backtester';
+import { isEntryConditionMet } from '@/services/autoTrade/entryRules';
+import { parsePriceSeries } from '@/services/autoTrade/priceHistory';
+
+const noCosts = { slippagePercent: 0, gasCostBnb: 0, bnbPriceUsd: 500 };
+
+function series(prices: number[]): PricePoint[] {
+  return prices.map((price, index) => ({ timestamp: 1700000000000 + index * 60000, price }));
+}
+
+describe('backtester', () => {
+  describe('isEntryConditionMet', () => {
+    it('should enter on a dip through the target instead of only an exact match', () => {
+      const rule = { priceEntryTarget: 1, entryAmountBNB: 1 };
+
+      expect(isEntryConditionMet(rule, 1.1, 1.2, 0)).toBe(false);
+      expect(isEntryConditionMet(rule, 0.95, 1.1, 0)).toBe(true);
+    });
+
+    it('should enter on a breakout above the target', () => {
+      const rule = { priceEntryTarget: 2, entryAmountBNB: 1 };
+
+      expect(isEntryConditionMet(rule, 1.9, 1.5, 0)).toBe(false);
+      expect(isEntryConditionMet(rule, 2.1, 1.5, 0)).toBe(true);
+    });
+  });
+
+  describe('runBacktest', () => {
+    it('should buy at the entry and sell at take profit', () => {
+      const result = runBacktest(
+        { priceEntryTarget: 1, entryAmountBNB: 1, takeProfitPrice: 2 },
+        series([1.2, 1.1, 0.9, 1.5, 2.2, 2.5]),
+        noCosts
+      );
+
+      expect(result.fills.map(fill => fill.reason)).toEqual(['entry', 'take_profit']);
+      expect(result.finalStatus).toBe('completed');
+      // Bought at 0.9, sold at 2.2
+      expect(result.pnlBnb).toBeCloseTo(2.2 / 0.9 - 1, 6);
+      expect(result.pnlWithoutCostsBnb).toBeCloseTo(result.pnlBnb, 6);
+    });
+
+    it('should report max drawdown before a stop loss', () => {
+      const result = runBacktest(
+        { priceEntryTarget: 1, entryAmountBNB: 1, stopLossPrice: 0.5 },
+        series([1.1, 1, 1.2, 0.8, 0.4, 1.5]),
+        noCosts
+      );
+
+      expect(result.fills.map(fill => fill.reason)).toEqual(['entry', 'stop_loss']);
+      expect(result.pnlBnb).toBeCloseTo(-0.6, 6);
+      // Peak equity 1.2 BNB, stopped out at 0.4 BNB
+      expect(result.maxDrawdownPercent).toBeCloseTo((0.8 / 1.2) * 100, 4);
+    });
+
+    it('should sell take profit levels in parts and keep the rest open', () => {
+      const result = runBacktest(
+        {
+          priceEntryTarget: 1,
+          entryAmountBNB: 1,
+          takeProfitLevels: [
+            { price: 2, sellPercentage: 50 },
+            { price: 4, sellPercentage: 25 }
+          ]
+        },
+        series([1.5, 1, 2, 3]),
+        noCosts
+      );
+
+      expect(result.fills).toHaveLength(2);
+      expect(result.fills[1].percentageOfPosition).toBe(50);
+      expect(result.finalStatus).toBe('position_open');
+      expect(result.openPositionBnb).toBeCloseTo(1.5, 6);
+    });
+
+    it('should separate slippage and gas from the no-cost result', () => {
+      const result = runBacktest(
+        { priceEntryTarget: 1, entryAmountBNB: 1, takeProfitPrice: 2 },
+        series([1.2, 1, 2]),
+        { slippagePercent: 1, gasCostBnb: 0.001, bnbPriceUsd: 500 }
+      );
+
+      expect(result.gasCostBnb).toBeCloseTo(0.002, 6);
+      expect(result.slippageCostBnb).toBeGreaterThan(0);
+      expect(result.pnlWithoutCostsBnb).toBeCloseTo(1, 6);
+      expect(result.pnlBnb).toBeLessThan(result.pnlWithoutCostsBnb - result.gasCostBnb);
+    });
+
+    it('should not trade when the entry is never reached', () => {
+      const result = runBacktest(
+        { priceEntryTarget: 0.5, entryAmountBNB: 1, takeProfitPrice: 2 },
+        series([1, 1.2, 0.8, 3]),
+        noCosts
+      );
+
+      expect(result.fills).toHaveLength(0);
+      expect(result.finalStatus).toBe('pending_entry');
+      expect(result.pnlBnb).toBe(0);
+    });
+  });
+
+  describe('price series', () => {
+    it('should walk red candles through the high before the low', () => {
+      const points = candlesToPricePoints([
+        { timestamp: 1, open: 2, high: 2.5, low: 1, close: 1.5 }
+      ]);
+
+      expect(points.map(point => point.price)).toEqual([2, 2.5, 1, 1.5]);
+    });
+
+    it('should parse candles from CSV with second timestamps', () => {
+      const parsed = parsePriceSeries(
+        'timestamp,open,high,low,close\n1700000000,1,1.5,0.9,1.2\n1700000060,1.2,1.3,1.1,1.1\n',
+        'csv'
+      );
+
+      expect(parsed).toHaveLength(2);
+      expect(parsed[0]).toEqual({ timestamp: 1700000000000, open: 1, high: 1.5, low: 0.9, close: 1.2 });
+    });
+
+    it('should convert Sync reserves into USD prices', () => {
+      const parsed = parsePriceSeries(
+        JSON.stringify([{ timestamp: 1700000000, reserve0: '1000000000000000000000', reserve1: '2000000000000000000' }]),
+        'json',
+        { isToken0: true, tokenDecimals: 18, quoteDecimals: 18, quotePriceUsd: 500 }
+      );
+
+      expect(parsed).toEqual([{ timestamp: 1700000000000, price: 1 }]);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateExitRules, validateTakeProfitLevels } from '@/services/autoTrade/exitRules';
+
+describe('exitRules', () => {
+  describe('evaluateExitRules', () => {
+    it('should not sell when no rule is triggered', () => {
+      const decision = evaluateExitRules({ takeProfitPrice: 2, stopLossPrice: 0.5 }, 1);
+
+      expect(decision.shouldSell).toBe(false);
+      expect(decision.highestPrice).toBe(1);
+    });
+
+    it('should sell the first ladder level as a share of the position', () => {
+      const decision = evaluateExitRules({
+        takeProfitLevels: [
+          { price: 1.5, sellPercentage: 25 },
+          { price: 2, sellPercentage: 25 }
+        ]
+      }, 1.6);
+
+      expect(decision.shouldSell).toBe(true);
+      expect(decision.reason).toBe('take_profit_level');
+      expect(decision.levelIndexes).toEqual([0]);
+      expect(decision.percentageOfPosition).toBe(25);
+      expect(decision.percentageOfHoldings).toBe(25);
+    });
+
+    it('should convert later levels into a percentage of remaining holdings', () => {
+      const decision = evaluateExitRules({
+        takeProfitLevels: [
+          { price: 1.5, sellPercentage: 50, executed: true },
+          { price: 2, sellPercentage: 25 }
+        ],
+        soldPercentage: 50
+      }, 2.1);
+
+      expect(decision.levelIndexes).toEqual([1]);
+      expect(decision.percentageOfPosition).toBe(25);
+      expect(decision.percentageOfHoldings).toBe(50);
+    });
+
+    it('should combine levels crossed in a single move and sell everything left', () => {
+      const decision = evaluateExitRules({
+        takeProfitLevels: [
+          { price: 1.5, sellPercentage: 50 },
+          { price: 2, sellPercentage: 50 }
+        ]
+      }, 3);
+
+      expect(decision.levelIndexes).toEqual([0, 1]);
+      expect(decision.percentageOfHoldings).toBe(100);
+    });
+
+    it('should fire the trailing stop once price drops from the peak', () => {
+      const rule = { trailingStopPercent: 10, highestPriceSinceEntry: 2 };
+
+      expect(evaluateExitRules(rule, 1.85).shouldSell).toBe(false);
+
+      const decision = evaluateExitRules(rule, 1.79);
+      expect(decision.shouldSell).toBe(true);
+      expect(decision.reason).toBe('trailing_stop');
+      expect(decision.trailingStopPrice).toBeCloseTo(1.8);
+      expect(decision.percentageOfHoldings).toBe(100);
+    });
+
+    it('should raise the peak when price makes a new high', () => {
+      const decision = evaluateExitRules({ trailingStopPercent: 10, highestPriceSinceEntry: 2 }, 2.5);
+
+      expect(decision.shouldSell).toBe(false);
+      expect(decision.highestPrice).toBe(2.5);
+      expect(decision.trailingStopPrice).toBeCloseTo(2.25);
+    });
+
+    it('should sell remaining holdings on stop loss', () => {
+      const decision = evaluateExitRules({ stopLossPrice: 0.8, soldPercentage: 40 }, 0.7);
+
+      expect(decision.reason).toBe('stop_loss');
+      expect(decision.percentageOfHoldings).toBe(100);
+      expect(decision.percentageOfPosition).toBe(60);
+    });
+
+    it('should not sell once the whole position is gone', () => {
+      const decision = evaluateExitRules({ stopLossPrice: 0.8, soldPercentage: 100 }, 0.5);
+
+      expect(decision.shouldSell).toBe(false);
+    });
+  });
+
+  describe('validateTakeProfitLevels', () => {
+    it('should accept a ladder totalling 100%', () => {
+      expect(validateTakeProfitLevels([
+        { price: 1, sellPercentage: 33 },
+        { price: 2, sellPercentage: 33 },
+        { price: 3, sellPercentage: 34 }
+      ])).toBeNull();
+    });
+
+    it('should reject a ladder selling more than 100%', () => {
+      expect(validateTakeProfitLevels([
+        { price: 1, sellPercentage: 60 },
+        { price: 2, sellPercentage: 50 }
+      ])).toContain('110%');
+    });
+
+    it('should reject invalid prices and percentages', () => {
+      expect(validateTakeProfitLevels([{ price: 0, sellPercentage: 10 }])).not.toBeNull();
+      expect(validateTakeProfitLevels([{ price: 1, sellPercentage: 0 }])).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { WalletWatchModel } from '@/database/models/WalletWatch';
+import { CopyTradeModel } from '@/database/models/CopyTrade';
+import {
+  CopyTradeService,
+  computeCopyBuyAmount,
+  computeCopySellPercentage,
+  parseCopyTradeUpdate,
+  getUtcDayStart,
+  CopyTradeSettings
+} from '@/services/copyTrade/copyTradeService';
+
+const settings: CopyTradeSettings = {
+  enabled: true,
+  mode: 'fixed',
+  fixedBnb: 0.1,
+  percent: 10,
+  blacklist: [],
+  minSafetyScore: 60
+};
+
+describe('Copy Trade Service', () => {
+  describe('computeCopyBuyAmount', () => {
+    it('should use the fixed size or a share of the source amount', () => {
+      expect(computeCopyBuyAmount(settings, 5, 0).amount).toBe(0.1);
+      expect(computeCopyBuyAmount({ ...settings, mode: 'proportional' }, 2, 0).amount).toBeCloseTo(0.2, 8);
+    });
+
+    it('should shrink the last buy of the day to the remaining cap', () => {
+      const capped = { ...settings, dailyCapBnb: 0.25 };
+
+      expect(computeCopyBuyAmount(capped, 1, 0.2).amount).toBeCloseTo(0.05, 8);
+
+      const exhausted = computeCopyBuyAmount(capped, 1, 0.25);
+      expect(exhausted.amount).toBe(0);
+      expect(exhausted.reason).toContain('Daily cap');
+    });
+
+    it('should skip proportional buys below the minimum size', () => {
+      const result = computeCopyBuyAmount({ ...settings, mode: 'proportional', percent: 5 }, 0.01, 0);
+
+      expect(result.amount).toBe(0);
+      expect(result.reason).toContain('minimum');
+    });
+  });
+
+  describe('computeCopySellPercentage', () => {
+    it('should mirror the share of the position the source sold', () => {
+      expect(computeCopySellPercentage(250, 750)).toBe(25);
+      expect(computeCopySellPercentage(1000, 0)).toBe(100);
+      expect(computeCopySellPercentage(995, 5)).toBe(100);
+      expect(computeCopySellPercentage(0, 100)).toBe(0);
+    });
+  });
+
+  it('should map menu selections to wallet watch fields', () => {
+    expect(parseCopyTradeUpdate('mode', 'proportional')).toEqual({ copyTradeMode: 'proportional' });
+    expect(parseCopyTradeUpdate('cap', 'off')).toEqual({ copyTradeDailyCapBnb: null });
+    expect(parseCopyTradeUpdate('score', '70')).toEqual({ copyTradeMinSafetyScore: 70 });
+    expect(parseCopyTradeUpdate('percent', '150')).toBeNull();
+    expect(parseCopyTradeUpdate('mode', 'mirror')).toBeNull();
+  });
+
+  it('should count the daily cap from the start of the UTC day', () => {
+    expect(getUtcDayStart(new Date('2024-03-05T23:59:00Z')).toISOString()).toBe('2024-03-05T00:00:00.000Z');
+  });
+});
+
+describe('CopyTradeService.handleSourceTrade', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should not swap when another pass already claimed the source trade', async () => {
+    const watch = { _id: 'watch1', telegramId: 1, walletAddress: '0xsource', copyTradeEnabled: true };
+    vi.spyOn(WalletWatchModel, 'find').mockResolvedValue([watch] as any);
+    vi.spyOn(CopyTradeService as any, 'getProvider').mockReturnValue({ getTransactionReceipt: vi.fn().mockResolvedValue({ status: 1 }) });
+    vi.spyOn(CopyTradeModel, 'create').mockRejectedValue(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }));
+    const copyBuy = vi.spyOn(CopyTradeService as any, 'copyBuy').mockResolvedValue(undefined);
+
+    await CopyTradeService.handleSourceTrade({
+      sourceWallet: '0xsource',
+      txHash: '0xtx',
+      side: 'buy',
+      tokenAddress: '0xtoken',
+      amount: '0.5'
+    });
+
+    expect(copyBuy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { computeDcaReport, getPlannedBuyCount } from '@/services/dca/dcaService';
+
+describe('DCA Service', () => {
+  describe('computeDcaReport', () => {
+    it('should return an empty report when nothing has been bought', () => {
+      const report = computeDcaReport([]);
+
+      expect(report.buysExecuted).toBe(0);
+      expect(report.totalBnbSpent).toBe(0);
+      expect(report.averageEntryPriceBnb).toBeNull();
+      expect(report.averageEntryPriceUsd).toBeNull();
+    });
+
+    it('should compute totals and a weighted average entry price', () => {
+      const report = computeDcaReport([
+        { executedAt: new Date(), success: true, bnbSpent: '0.1', tokensReceived: '1000', bnbPriceUsd: 600 },
+        { executedAt: new Date(), success: true, bnbSpent: '0.1', tokensReceived: '500', bnbPriceUsd: 600 }
+      ]);
+
+      expect(report.buysExecuted).toBe(2);
+      expect(report.totalBnbSpent).toBeCloseTo(0.2);
+      expect(report.totalTokensBought).toBe(1500);
+      // 0.2 BNB for 1500 tokens
+      expect(report.averageEntryPriceBnb).toBeCloseTo(0.2 / 1500);
+      // $120 for 1500 tokens
+      expect(report.averageEntryPriceUsd).toBeCloseTo(0.08);
+    });
+
+    it('should count failed buys without affecting totals', () => {
+      const report = computeDcaReport([
+        { executedAt: new Date(), success: true, bnbSpent: '0.05', tokensReceived: '100', bnbPriceUsd: 500 },
+        { executedAt: new Date(), success: false, bnbSpent: '0', error: 'Insufficient trading wallet balance' }
+      ]);
+
+      expect(report.buysExecuted).toBe(1);
+      expect(report.buysFailed).toBe(1);
+      expect(report.totalBnbSpent).toBeCloseTo(0.05);
+      expect(report.averageEntryPriceUsd).toBeCloseTo(0.25);
+    });
+
+    it('should leave the USD average out when BNB price is unknown', () => {
+      const report = computeDcaReport([
+        { executedAt: new Date(), success: true, bnbSpent: '0.1', tokensReceived: '200' }
+      ]);
+
+      expect(report.averageEntryPriceBnb).toBeCloseTo(0.0005);
+      expect(report.averageEntryPriceUsd).toBeNull();
+    });
+  });
+
+  describe('getPlannedBuyCount', () => {
+    it('should count the first buy and stop before the end time', () => {
+      expect(getPlannedBuyCount(6, 14)).toBe(56);
+      expect(getPlannedBuyCount(24, 1)).toBe(1);
+      expect(getPlannedBuyCount(5, 1)).toBe(5);
+    });
+  });
+});
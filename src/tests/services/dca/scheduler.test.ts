@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Types } from 'mongoose';
+import { DcaScheduler } from '@/services/dca/scheduler';
+import { DcaScheduleModel } from '@/database/models/DcaSchedule';
+
+const executeAutoBuy = vi.fn();
+
+vi.mock('@/services/trading', () => ({
+  TradingService: vi.fn().mockImplementation(() => ({ executeAutoBuy }))
+}));
+
+vi.mock('@/services/wallet/tokenPriceCache', () => ({
+  getBNBPrice: vi.fn().mockResolvedValue(600)
+}));
+
+const dueSchedule = () => {
+  const nextRunAt = new Date('2025-06-01T12:00:00Z');
+  return {
+    _id: new Types.ObjectId(),
+    telegramId: 1,
+    tokenAddress: '0x1111111111111111111111111111111111111111',
+    tokenSymbol: 'TKN',
+    bnbAmountPerBuy: '0.1',
+    intervalHours: 6,
+    endsAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    nextRunAt,
+    status: 'active',
+    consecutiveFailures: 0,
+    executions: []
+  };
+};
+
+describe('DCA Scheduler', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    executeAutoBuy.mockReset();
+  });
+
+  it('should claim the run on the nextRunAt it was loaded with before buying', async () => {
+    const schedule = dueSchedule();
+    const dueAt = schedule.nextRunAt;
+    const update = vi.spyOn(DcaScheduleModel, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+    vi.spyOn(DcaScheduler as any, 'sendDcaNotification').mockResolvedValue(undefined);
+    executeAutoBuy.mockResolvedValue({ success: true, tokensReceived: '1000', txHash: '0xabc' });
+
+    await (DcaScheduler as any).executeScheduledBuy(schedule);
+
+    expect(update.mock.calls[0][0]).toEqual({ _id: schedule._id, status: 'active', nextRunAt: dueAt });
+    expect(update.mock.invocationCallOrder[0]).toBeLessThan(executeAutoBuy.mock.invocationCallOrder[0]);
+    expect(executeAutoBuy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not buy when the run was already claimed, paused or cancelled', async () => {
+    const update = vi.spyOn(DcaScheduleModel, 'updateOne').mockResolvedValue({ modifiedCount: 0 } as any);
+
+    await (DcaScheduler as any).executeScheduledBuy(dueSchedule());
+
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(executeAutoBuy).not.toHaveBeenCalled();
+  });
+});
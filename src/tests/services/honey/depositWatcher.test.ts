@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { HoneyDepositWatcher } from '@/services/honey/depositWatcher';
+import { HoneyStablecoinPurchaseService } from '@/services/honey/stablecoinPurchase';
+import { ChainScanCursorModel } from '@/database/models/ChainScanCursor';
+import * as admin from '@/services/admin';
+
+const transfer = (blockNumber: number) => ({
+  tokenAddress: '0x55d398326f99059ff775485246999027b3197955',
+  from: '0x1111111111111111111111111111111111111111',
+  amount: 10_000_123n,
+  txHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+  blockNumber
+});
+
+describe('Honey Deposit Watcher', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should resume from the stored cursor and keep it before a range whose transfer failed', async () => {
+    vi.spyOn(HoneyStablecoinPurchaseService, 'expireStaleIntents').mockResolvedValue(0);
+    vi.spyOn(HoneyStablecoinPurchaseService, 'isTransferCredited').mockResolvedValue(false);
+    vi.spyOn(admin, 'alertAdmins').mockResolvedValue();
+    vi.spyOn(HoneyDepositWatcher as any, 'getProvider').mockReturnValue({ getBlockNumber: vi.fn().mockResolvedValue(3015) });
+    vi.spyOn(ChainScanCursorModel, 'findOne').mockReturnValue({ lean: vi.fn().mockResolvedValue({ lastScannedBlock: 999 }) } as any);
+    const saveCursor = vi.spyOn(ChainScanCursorModel, 'updateOne').mockResolvedValue({} as any);
+    const getTransfers = vi.spyOn(HoneyDepositWatcher as any, 'getIncomingTransfers')
+      .mockImplementation(async (...args: unknown[]) => [transfer(args[0] as number)]);
+    vi.spyOn(HoneyStablecoinPurchaseService, 'findIntentForTransfer')
+      .mockImplementation(async (incoming) => {
+        if (incoming.blockNumber === 2000) throw new Error('Mongo unavailable');
+        return null;
+      });
+
+    await expect(HoneyDepositWatcher.processDeposits()).rejects.toThrow('Mongo unavailable');
+
+    expect(getTransfers).toHaveBeenCalledWith(1000, 1999);
+    expect(getTransfers).toHaveBeenCalledWith(2000, 2999);
+    expect(saveCursor).toHaveBeenCalledTimes(1);
+    expect(saveCursor).toHaveBeenCalledWith({ name: 'honey_deposits' }, expect.objectContaining({ $set: expect.objectContaining({ lastScannedBlock: 1999 }) }), { upsert: true });
+  });
+
+  it('should alert admins about a deposit no intent matches, but not about one credited already', async () => {
+    const alert = vi.spyOn(admin, 'alertAdmins').mockResolvedValue();
+    vi.spyOn(HoneyStablecoinPurchaseService, 'findIntentForTransfer').mockResolvedValue(null);
+    const credited = vi.spyOn(HoneyStablecoinPurchaseService, 'isTransferCredited').mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    await (HoneyDepositWatcher as any).handleTransfer(transfer(1500));
+    expect(alert).not.toHaveBeenCalled();
+
+    await (HoneyDepositWatcher as any).handleTransfer(transfer(1500));
+    expect(credited).toHaveBeenCalledTimes(2);
+    expect(alert).toHaveBeenCalledTimes(1);
+    expect(alert.mock.calls[0][0]).toContain('USDT from `0x1111111111111111111111111111111111111111`');
+  });
+});
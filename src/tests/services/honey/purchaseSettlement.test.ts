@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { HoneyPurchaseSettlement, nextPaymentState } from '@/services/honey/purchaseSettlement';
+import { findTransactionByNonce } from '@/services/chain/nonces';
+import { HoneyPurchaseModel } from '@/database/models/HoneyPurchase';
+import * as admin from '@/services/admin';
+import type { HoneyPurchaseTransfer, HoneyPurchaseTransferStatus } from '@/database/models/HoneyPurchase';
+
+vi.mock('@/services/chain/nonces', () => ({ findTransactionByNonce: vi.fn(), canLookUpNonces: () => true }));
+
+const PAYER = '0x1111111111111111111111111111111111111111';
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+const transfer = (kind: 'main' | 'referral', value: string, status: HoneyPurchaseTransferStatus): HoneyPurchaseTransfer => ({
+  kind,
+  to: '0x000000000000000000000000000000000000dead',
+  value,
+  status
+});
+
+describe('Honey Purchase Settlement', () => {
+  it('should wait while any payment transfer is unresolved', () => {
+    expect(nextPaymentState([transfer('main', '900', 'confirmed'), transfer('referral', '100', 'signed')])).toEqual({ status: 'submitted' });
+  });
+
+  it('should credit only when every transfer confirmed', () => {
+    expect(nextPaymentState([transfer('main', '900', 'confirmed'), transfer('referral', '100', 'confirmed')])).toEqual({ status: 'confirmed' });
+  });
+
+  it('should fail when no transfer went through', () => {
+    expect(nextPaymentState([transfer('main', '900', 'reverted'), transfer('referral', '100', 'dropped')])).toEqual({ status: 'failed' });
+  });
+
+  it('should refund the confirmed part of a partial payment', () => {
+    expect(nextPaymentState([transfer('main', '900', 'confirmed'), transfer('referral', '100', 'reverted')]))
+      .toEqual({ status: 'refunding', refundValue: 900n });
+  });
+});
+
+describe('Honey Purchase Settlement transfer lookup', () => {
+  const signed: HoneyPurchaseTransfer = { ...transfer('main', '900', 'signed'), nonce: 7, txHash: TX_HASH, rawTransaction: '0x01' };
+  const resolve = (candidate: HoneyPurchaseTransfer, accountNonce: number): Promise<HoneyPurchaseTransfer> =>
+    (HoneyPurchaseSettlement as any).resolveTransfer(candidate, PAYER, accountNonce);
+
+  const mockProvider = (receipt: object | null) => {
+    const provider = {
+      getTransactionReceipt: vi.fn().mockResolvedValue(receipt),
+      broadcastTransaction: vi.fn().mockResolvedValue({}),
+      getTransactionCount: vi.fn().mockResolvedValue(8)
+    };
+    vi.spyOn(HoneyPurchaseSettlement, 'getProvider').mockReturnValue(provider as any);
+    return provider;
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(findTransactionByNonce).mockReset();
+  });
+
+  it('should keep waiting when the nonce is used but no other transaction is known to have used it', async () => {
+    mockProvider(null);
+    vi.mocked(findTransactionByNonce).mockResolvedValueOnce(TX_HASH).mockResolvedValueOnce(null);
+
+    expect((await resolve(signed, 8)).status).toBe('signed');
+    expect((await resolve(signed, 8)).status).toBe('signed');
+  });
+
+  it('should drop a transfer only once another transaction used its nonce', async () => {
+    mockProvider(null);
+    vi.mocked(findTransactionByNonce).mockResolvedValue(`0x${'cd'.repeat(32)}`);
+
+    expect((await resolve(signed, 8)).status).toBe('dropped');
+    expect(findTransactionByNonce).toHaveBeenCalledWith(PAYER, 7);
+  });
+
+  it('should confirm a dropped transfer that was mined after all', async () => {
+    mockProvider({ status: 1, blockNumber: 123 });
+
+    expect(await resolve({ ...signed, status: 'dropped' }, 8)).toMatchObject({ status: 'confirmed', blockNumber: 123 });
+  });
+
+  it('should rebroadcast while the nonce is unused', async () => {
+    const provider = mockProvider(null);
+
+    expect((await resolve(signed, 7)).status).toBe('signed');
+    expect(provider.broadcastTransaction).toHaveBeenCalledWith('0x01');
+    expect(findTransactionByNonce).not.toHaveBeenCalled();
+  });
+
+  it('should alert operators once when a transfer stays unresolved', async () => {
+    mockProvider(null);
+    const alert = vi.spyOn(admin, 'alertAdmins').mockResolvedValue();
+    vi.mocked(findTransactionByNonce).mockResolvedValue(null);
+    vi.spyOn(HoneyPurchaseModel, 'updateOne').mockResolvedValue({} as any);
+    let checks = 0;
+    vi.spyOn(HoneyPurchaseModel, 'findOneAndUpdate').mockImplementation((() => Promise.resolve({ unresolvedChecks: ++checks })) as any);
+    const purchase = { _id: 'purchase1', status: 'submitted', telegramId: 1, bnbAmount: '0.1', payerAddress: PAYER, transfers: [signed] };
+
+    for (let i = 0; i < 12; i++) {
+      const checked = await (HoneyPurchaseSettlement as any).checkPayment({ ...purchase });
+      expect(checked.status).toBe('submitted');
+    }
+
+    expect(alert).toHaveBeenCalledTimes(1);
+    expect(alert.mock.calls[0][0]).toContain('nonce 7 was used');
+  });
+});
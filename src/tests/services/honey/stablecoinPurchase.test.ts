@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { HoneyStablecoinPurchaseService, getHoneyStablecoin, tagAmount } from '@/services/honey/stablecoinPurchase';
+import type { HoneyPurchaseIntent } from '@/database/models/HoneyPurchaseIntent';
+
+describe('Honey Stablecoin Purchase', () => {
+  it('should add the tag in micro-units on top of the package price', () => {
+    expect(ethers.formatUnits(tagAmount(10, 42, 18), 18)).toBe('10.000042');
+    expect(ethers.formatUnits(tagAmount(2.5, 9999, 18), 18)).toBe('2.509999');
+    expect(tagAmount(1, 1, 6)).toBe(1000001n);
+  });
+
+  it('should look up accepted stablecoins case-insensitively', () => {
+    expect(getHoneyStablecoin('usdt')?.address).toBe('0x55d398326f99059fF775485246999027B3197955');
+    expect(getHoneyStablecoin('USDC')?.decimals).toBe(18);
+    expect(getHoneyStablecoin('BUSD')).toBeUndefined();
+  });
+
+  it('should build an ERC-20 transfer of the exact intent amount to the deposit address', () => {
+    const intent = {
+      tokenAddress: '0x55d398326f99059ff775485246999027b3197955',
+      depositAddress: '0x000000000000000000000000000000000000dead',
+      amount: tagAmount(10, 42, 18).toString()
+    } as HoneyPurchaseIntent;
+
+    const tx = HoneyStablecoinPurchaseService.buildTransferRequest(intent, '0x1111111111111111111111111111111111111111');
+    const [to, amount] = new ethers.Interface(['function transfer(address to, uint256 amount)']).decodeFunctionData('transfer', tx.data!);
+
+    expect(tx.to).toBe('0x55d398326f99059fF775485246999027B3197955');
+    expect(tx.value).toBe('0x0');
+    expect(to).toBe('0x000000000000000000000000000000000000dEaD');
+    expect(amount).toBe(10000042000000000000n);
+  });
+});
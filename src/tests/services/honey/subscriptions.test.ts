@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { HoneyFeature } from '@/database/models/HoneyTransaction';
+import { addPlanPeriod, formatPlanAllowances, getHoneyPlan, isPlanInEffect, remainingAllowance } from '@/services/honey/subscriptions';
+
+const NOW = new Date('2025-06-02T12:00:00Z');
+const hive = getHoneyPlan('hive')!;
+
+describe('Honey Subscriptions', () => {
+  it('should count down included features and treat others as not covered', () => {
+    expect(remainingAllowance(hive, { [HoneyFeature.WALLET_SCAN]: 40 }, HoneyFeature.WALLET_SCAN)).toBe(60);
+    expect(remainingAllowance(hive, { [HoneyFeature.WALLET_SCAN]: 120 }, HoneyFeature.WALLET_SCAN)).toBe(0);
+    expect(remainingAllowance(hive, {}, HoneyFeature.PRICE_ALERT)).toBe(Infinity);
+    expect(remainingAllowance(hive, {}, HoneyFeature.STRATEGY_EXECUTION)).toBe(0);
+  });
+
+  it('should keep the plan in effect through the grace period only', () => {
+    const periodEnd = new Date(NOW.getTime() - 60000);
+    const graceEndsAt = new Date(NOW.getTime() + 60000);
+
+    expect(isPlanInEffect({ status: 'active', currentPeriodEnd: addPlanPeriod(NOW) }, NOW)).toBe(true);
+    expect(isPlanInEffect({ status: 'active', currentPeriodEnd: periodEnd }, NOW)).toBe(false);
+    expect(isPlanInEffect({ status: 'grace', currentPeriodEnd: addPlanPeriod(periodEnd), graceEndsAt }, NOW)).toBe(true);
+    expect(isPlanInEffect({ status: 'grace', currentPeriodEnd: addPlanPeriod(periodEnd), graceEndsAt: periodEnd }, NOW)).toBe(false);
+    expect(isPlanInEffect({ status: 'expired', currentPeriodEnd: addPlanPeriod(NOW) }, NOW)).toBe(false);
+  });
+
+  it('should describe plan allowances', () => {
+    expect(formatPlanAllowances(hive)).toBe('100 wallet scans, 100 rug alerts, 300 AI queries, unlimited price alerts');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { isLimitOrderTriggered, getRemainingAmount, computeFillAmount, isStaleTrigger } from '@/services/limitOrders/limitOrderService';
+
+describe('Limit Order Service', () => {
+  describe('isLimitOrderTriggered', () => {
+    it('should trigger buy orders at or below the limit price', () => {
+      expect(isLimitOrderTriggered('buy', 1, 0.9)).toBe(true);
+      expect(isLimitOrderTriggered('buy', 1, 1)).toBe(true);
+      expect(isLimitOrderTriggered('buy', 1, 1.1)).toBe(false);
+    });
+
+    it('should trigger sell orders at or above the limit price', () => {
+      expect(isLimitOrderTriggered('sell', 2, 2.5)).toBe(true);
+      expect(isLimitOrderTriggered('sell', 2, 2)).toBe(true);
+      expect(isLimitOrderTriggered('sell', 2, 1.9)).toBe(false);
+    });
+
+    it('should never trigger on a missing price', () => {
+      expect(isLimitOrderTriggered('buy', 1, 0)).toBe(false);
+      expect(isLimitOrderTriggered('buy', 1, NaN)).toBe(false);
+    });
+  });
+
+  describe('getRemainingAmount', () => {
+    it('should subtract filled amount', () => {
+      expect(getRemainingAmount({ amount: '1', filledAmount: '0.4' })).toBeCloseTo(0.6);
+    });
+
+    it('should treat dust as fully filled', () => {
+      expect(getRemainingAmount({ amount: '1', filledAmount: '0.99995' })).toBe(0);
+    });
+  });
+
+  describe('computeFillAmount', () => {
+    it('should fill the whole remainder when the wallet covers it', () => {
+      expect(computeFillAmount(0.5, 2)).toBe(0.5);
+    });
+
+    it('should partially fill up to the available balance', () => {
+      expect(computeFillAmount(0.5, 0.2, 0.01)).toBe(0.2);
+    });
+
+    it('should skip partial fills below the minimum', () => {
+      expect(computeFillAmount(0.5, 0.001, 0.01)).toBe(0);
+      expect(computeFillAmount(0.5, 0)).toBe(0);
+    });
+
+    it('should allow a small final fill that completes the order', () => {
+      expect(computeFillAmount(0.005, 1, 0.01)).toBe(0.005);
+    });
+  });
+
+  describe('isStaleTrigger', () => {
+    const now = new Date('2025-06-02T12:00:00Z');
+    const triggeredAgo = (minutes: number) => ({
+      status: 'triggered' as const,
+      statusHistory: [
+        { status: 'open' as const, at: new Date(now.getTime() - 60 * 60 * 1000) },
+        { status: 'triggered' as const, at: new Date(now.getTime() - minutes * 60 * 1000) }
+      ]
+    });
+
+    it('should leave fills in progress alone', () => {
+      expect(isStaleTrigger(triggeredAgo(2), now)).toBe(false);
+    });
+
+    it('should flag fills that never finished', () => {
+      expect(isStaleTrigger(triggeredAgo(30), now)).toBe(true);
+    });
+
+    it('should only apply to triggered orders', () => {
+      expect(isStaleTrigger({ ...triggeredAgo(30), status: 'open' }, now)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ethers } from 'ethers';
+import { ReferralPayoutService, bnbToWei, findReferralDiscrepancies, nextGasPrice } from '@/services/referralPayouts';
+import { ReferralPayoutModel } from '@/database/models/ReferralPayout';
+import * as admin from '@/services/admin';
+import { findTransactionByNonce } from '@/services/chain/nonces';
+
+vi.mock('@/services/chain/nonces', () => ({ findTransactionByNonce: vi.fn(), canLookUpNonces: () => true }));
+
+const gwei = (value: string) => ethers.parseUnits(value, 'gwei');
+
+describe('Referral Payouts', () => {
+  it('should parse stored BNB amounts in any of their formats', () => {
+    expect(bnbToWei('0.05')).toBe(ethers.parseEther('0.05'));
+    expect(bnbToWei(0.05)).toBe(ethers.parseEther('0.05'));
+    expect(bnbToWei('1E-7')).toBe(ethers.parseEther('0.0000001'));
+    expect(bnbToWei('0.1234567890123456789')).toBe(ethers.parseEther('0.123456789012345678'));
+    expect(bnbToWei(undefined)).toBe(0n);
+  });
+
+  it('should bump gas enough to replace a stuck payout, up to the cap', () => {
+    expect(nextGasPrice(gwei('3'), gwei('1'), gwei('20'))).toBe(gwei('3.75'));
+    expect(nextGasPrice(gwei('3'), gwei('5'), gwei('20'))).toBe(gwei('5'));
+    expect(nextGasPrice(gwei('18'), gwei('1'), gwei('20'))).toBe(gwei('20'));
+    expect(nextGasPrice(gwei('20'), gwei('1'), gwei('20'))).toBeNull();
+  });
+
+  it('should report balances that do not add up', () => {
+    const balanced = {
+      earned: ethers.parseEther('1'),
+      recordedEarned: ethers.parseEther('1'),
+      paidOut: ethers.parseEther('0.5'),
+      inFlight: ethers.parseEther('0.2'),
+      converted: ethers.parseEther('0.1'),
+      unclaimed: ethers.parseEther('0.2')
+    };
+    expect(findReferralDiscrepancies(balanced)).toEqual([]);
+
+    const issues = findReferralDiscrepancies({ ...balanced, recordedEarned: ethers.parseEther('1.1'), unclaimed: ethers.parseEther('0.3') });
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatch(/recorded total is 1.1 BNB/);
+    expect(issues[1]).toMatch(/leave 0.2 BNB/);
+  });
+});
+
+describe('Referral Payouts on-chain check', () => {
+  const wallet = ethers.Wallet.createRandom();
+  const hash = (byte: string) => `0x${byte.repeat(32)}`;
+  const attempt = (txHash: string, nonce: number) => ({
+    txHash,
+    nonce,
+    gasPrice: gwei('1').toString(),
+    rawTransaction: '0x01',
+    sentAt: new Date(Date.now() - 10 * 60 * 1000)
+  });
+  // Resubmitted once: nonce 4 went to another transaction, nonce 9 is the current one
+  const payout = { _id: 'payout1', status: 'submitted', resubmissions: 1, attempts: [attempt(hash('aa'), 4), attempt(hash('bb'), 9)] };
+
+  const check = (minedHashes: string[] = []) => {
+    vi.spyOn(ReferralPayoutService, 'getProvider').mockReturnValue({
+      getTransactionReceipt: vi.fn(async (txHash: string) => (minedHashes.includes(txHash) ? { status: 1, blockNumber: 100 } : null))
+    } as any);
+    return (ReferralPayoutService as any).checkPayout(wallet, payout, 10, gwei('1'), 56n);
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(findTransactionByNonce).mockReset();
+  });
+
+  it('should confirm a payout mined by an attempt of an earlier nonce', async () => {
+    const confirm = vi.spyOn(ReferralPayoutService as any, 'confirm').mockResolvedValue(undefined);
+
+    await check([hash('aa')]);
+
+    expect(confirm).toHaveBeenCalledWith(payout, hash('aa'), 100);
+  });
+
+  it('should wait while the used nonce is not known to belong to another transaction', async () => {
+    const update = vi.spyOn(ReferralPayoutModel, 'updateOne').mockResolvedValue({} as any);
+    vi.spyOn(ReferralPayoutModel, 'findOneAndUpdate').mockResolvedValue({ unresolvedChecks: 1 } as any);
+    vi.mocked(findTransactionByNonce).mockResolvedValueOnce(null).mockResolvedValueOnce(hash('bb'));
+
+    await check();
+    await check();
+
+    expect(findTransactionByNonce).toHaveBeenCalledWith(wallet.address, 9);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('should queue the payout again once another transaction used its nonce, keeping its attempts', async () => {
+    const update = vi.spyOn(ReferralPayoutModel, 'updateOne').mockResolvedValue({} as any);
+    vi.mocked(findTransactionByNonce).mockResolvedValue(hash('cc'));
+
+    await check();
+
+    expect(update).toHaveBeenCalledTimes(1);
+    const [, change] = update.mock.calls[0] as unknown as [unknown, Record<string, unknown>];
+    expect(change).toMatchObject({ status: 'queued', $inc: { resubmissions: 1 } });
+    expect(change).not.toHaveProperty('$pull');
+  });
+
+  it('should alert operators once when the nonce stays used by an unknown transaction', async () => {
+    const alert = vi.spyOn(admin, 'alertAdmins').mockResolvedValue();
+    vi.mocked(findTransactionByNonce).mockResolvedValue(null);
+    let checks = 0;
+    vi.spyOn(ReferralPayoutModel, 'findOneAndUpdate').mockImplementation((() => Promise.resolve({ unresolvedChecks: ++checks })) as any);
+
+    for (let i = 0; i < 8; i++) {
+      await check();
+    }
+
+    expect(checks).toBe(8);
+    expect(alert).toHaveBeenCalledTimes(1);
+    expect(alert.mock.calls[0][0]).toContain('Nonce 9 was used');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { PairLogWatcher, shardPairs, splitBlockRange } from '@/services/rpc/pairLogWatcher';
+
+const pair = (n: number) => `0x${n.toString(16).padStart(40, '0')}`;
+
+function createFakeProvider(blockNumber: { current: number }, logsByPair: Record<string, number[]>) {
+  return {
+    getBlockNumber: vi.fn(async () => blockNumber.current),
+    getLogs: vi.fn(async (filter: { address: string[]; fromBlock: number; toBlock: number }) =>
+      filter.address.flatMap(address =>
+        (logsByPair[address] || [])
+          .filter(block => block >= filter.fromBlock && block <= filter.toBlock)
+          .map(blockNumber => ({ address, blockNumber }))
+      )
+    )
+  };
+}
+
+describe('Pair Log Watcher', () => {
+  describe('shardPairs', () => {
+    it('should split pairs into filters of at most shardSize addresses', () => {
+      const pairs = Array.from({ length: 2500 }, (_, i) => pair(i + 1));
+      const shards = shardPairs(pairs, 100);
+
+      expect(shards).toHaveLength(25);
+      expect(shards.every(shard => shard.length === 100)).toBe(true);
+      expect(new Set(shards.flat()).size).toBe(2500);
+    });
+  });
+
+  describe('splitBlockRange', () => {
+    it('should split an inclusive range into chunks', () => {
+      expect(splitBlockRange(101, 1100, 500)).toEqual([[101, 600], [601, 1100]]);
+      expect(splitBlockRange(10, 12, 500)).toEqual([[10, 12]]);
+      expect(splitBlockRange(13, 12, 500)).toEqual([]);
+    });
+  });
+
+  describe('polling', () => {
+    it('should report each active pair once per tick', async () => {
+      const block = { current: 1000 };
+      const provider = createFakeProvider(block, {
+        [pair(1)]: [1001, 1002, 1003],
+        [pair(2)]: [1002],
+        [pair(3)]: [] // No swaps
+      });
+      const onActivity = vi.fn(async () => {});
+      const watcher = new PairLogWatcher(provider as unknown as ethers.Provider, onActivity, null, { shardSize: 2 });
+
+      [pair(1), pair(2), pair(3)].forEach(address => watcher.addPair(address));
+
+      // First tick only records the starting block
+      await watcher.tick();
+      expect(onActivity).not.toHaveBeenCalled();
+
+      block.current = 1005;
+      await watcher.tick();
+
+      expect(onActivity).toHaveBeenCalledTimes(1);
+      expect((onActivity.mock.calls[0] as unknown as [string[]])[0].sort()).toEqual([pair(1), pair(2)]);
+      // 2 shards, one block chunk
+      expect(provider.getLogs).toHaveBeenCalledTimes(2);
+      expect(watcher.getLoad().lastProcessedBlock).toBe(1005);
+    });
+
+    it('should retry a block range when a request fails', async () => {
+      const block = { current: 1000 };
+      const provider = createFakeProvider(block, { [pair(1)]: [1001] });
+      const onActivity = vi.fn(async () => {});
+      const watcher = new PairLogWatcher(provider as unknown as ethers.Provider, onActivity);
+
+      watcher.addPair(pair(1));
+      await watcher.tick();
+
+      block.current = 1002;
+      provider.getLogs.mockRejectedValueOnce(new Error('rate limited'));
+      await watcher.tick();
+
+      expect(onActivity).not.toHaveBeenCalled();
+      expect(watcher.getLoad().pollErrors).toBe(1);
+      expect(watcher.getLoad().lastProcessedBlock).toBe(1000);
+
+      await watcher.tick();
+      expect(onActivity).toHaveBeenCalledWith([pair(1)]);
+    });
+
+    it('should skip blocks beyond the catch-up limit', async () => {
+      const block = { current: 1000 };
+      const provider = createFakeProvider(block, {});
+      const watcher = new PairLogWatcher(provider as unknown as ethers.Provider, vi.fn(async () => {}), null, {
+        maxBlockRange: 100,
+        maxCatchUpBlocks: 200
+      });
+
+      watcher.addPair(pair(1));
+      await watcher.tick();
+
+      block.current = 2000;
+      await watcher.tick();
+
+      const load = watcher.getLoad();
+      expect(load.skippedBlocks).toBe(800);
+      expect(load.lastProcessedBlock).toBe(2000);
+      expect(provider.getLogs).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop reporting removed pairs', async () => {
+      const block = { current: 1000 };
+      const provider = createFakeProvider(block, { [pair(1)]: [1001], [pair(2)]: [1001] });
+      const onActivity = vi.fn(async () => {});
+      const watcher = new PairLogWatcher(provider as unknown as ethers.Provider, onActivity);
+
+      watcher.addPair(pair(1));
+      watcher.addPair(pair(2));
+      await watcher.tick();
+
+      watcher.removePair(pair(2));
+      block.current = 1001;
+      await watcher.tick();
+
+      expect(onActivity).toHaveBeenCalledWith([pair(1)]);
+      expect(watcher.getLoad().pairCount).toBe(1);
+    });
+  });
+});
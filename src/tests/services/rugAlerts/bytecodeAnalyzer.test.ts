@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { disassemble, scanBytecode, assessCapabilities } from '@/services/rugAlerts/bytecodeAnalyzer';
+
+const selector = (signature: string) => ethers.id(signature).slice(2, 10);
+
+// DUP1 PUSH4 <selector> EQ PUSH2 0x0010 JUMPI, the way solc dispatches external functions
+function dispatcher(signatures: string[]): string {
+  return signatures.map(signature => `8063${selector(signature)}1461001057`).join('');
+}
+
+// solc appends CBOR metadata followed by its 2-byte length; this one contains a 0xff byte
+const METADATA = 'a1ff0002';
+
+describe('Bytecode Analyzer', () => {
+  it('should read PUSH immediates as data, not opcodes', () => {
+    const instructions = disassemble('0x6001600263aabbccdd00');
+
+    expect(instructions.map(instruction => instruction.opcode)).toEqual([0x60, 0x60, 0x63, 0x00]);
+    expect(instructions[2].pushData).toBe('aabbccdd');
+    expect(instructions[3].pc).toBe(9);
+  });
+
+  it('should find dispatcher selectors and ignore the metadata trailer', () => {
+    const scan = scanBytecode(`0x6080${dispatcher(['owner()', 'mint(address,uint256)'])}00${METADATA}`);
+
+    expect(scan.selectors).toEqual([selector('owner()'), selector('mint(address,uint256)')]);
+    expect(scan.hasSelfDestruct).toBe(false);
+  });
+
+  it('should detect SELFDESTRUCT in the runtime code', () => {
+    expect(scanBytecode(`0x6080${dispatcher(['kill()'])}33ff${METADATA}`).hasSelfDestruct).toBe(true);
+  });
+
+  it('should recognise EIP-1167 clones', () => {
+    const implementation = '0x1234567890abcdef1234567890abcdef12345678';
+    const scan = scanBytecode(`0x363d3d373d3d3d363d73${implementation.slice(2)}5af43d82803e903d91602b57fd5bf3`);
+
+    expect(scan.minimalProxyTarget).toBe(ethers.getAddress(implementation));
+  });
+
+  describe('assessCapabilities', () => {
+    it('should map selectors to capabilities', () => {
+      const capabilities = assessCapabilities(
+        [selector('owner()'), selector('mint(address,uint256)'), selector('setBots(address[],bool)'), selector('transfer(address,uint256)')],
+        false
+      );
+
+      expect(capabilities.map(capability => capability.capability)).toEqual(['mint', 'blacklist']);
+      expect(capabilities[1].functions).toEqual(['setBots(address[],bool)']);
+    });
+
+    it('should flag admin functions without a public owner as a hidden owner', () => {
+      const capabilities = assessCapabilities([selector('setSellTax(uint256)')], false);
+
+      expect(capabilities.map(capability => capability.capability)).toEqual(['set_fee', 'hidden_owner']);
+    });
+
+    it('should treat an upgradeable proxy as a risk', () => {
+      const capabilities = assessCapabilities(
+        [selector('mint(uint256)'), selector('blacklist(address)'), selector('pause()')],
+        true,
+        { type: 'eip1967', upgradeable: true }
+      );
+
+      expect(capabilities.map(capability => capability.capability)).toContain('proxy_upgrade');
+      expect(capabilities.map(capability => capability.capability)).toContain('selfdestruct');
+    });
+
+    it('should find nothing in plain tokens', () => {
+      expect(assessCapabilities([selector('transfer(address,uint256)'), selector('approve(address,uint256)')], false)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeDeployerReputation, DeployerProfileData } from '@/services/rugAlerts/deployerReputation';
+import { DeployedToken, DeployedTokenStatus } from '@/database/models/DeployerProfile';
+
+const CURRENT = '0x00000000000000000000000000000000000000aa';
+
+const token = (index: number, status: DeployedTokenStatus): DeployedToken => ({
+  tokenAddress: `0x${index.toString(16).padStart(40, '0')}`,
+  txHash: `0x${index}`,
+  status
+});
+
+const profile = (tokens: DeployedToken[], extra: Partial<DeployerProfileData> = {}): DeployerProfileData => ({
+  deployerAddress: '0x1111111111111111111111111111111111111111',
+  tokens,
+  ...extra
+});
+
+describe('Deployer Reputation', () => {
+  it('should count earlier dead and pulled tokens but not the analysed one', () => {
+    const tokens = [
+      ...Array.from({ length: 10 }, (_, i) => token(i + 1, 'dead')),
+      token(11, 'lp_pulled'),
+      token(12, 'lp_pulled'),
+      token(13, 'active'),
+      { ...token(0, 'lp_pulled'), tokenAddress: CURRENT }
+    ];
+
+    const reputation = summarizeDeployerReputation(profile(tokens), CURRENT);
+
+    expect(reputation.tokensLaunched).toBe(14);
+    expect(reputation.failedTokens).toBe(12);
+    expect(reputation.riskLevel).toBe('CRITICAL');
+    expect(reputation.summary).toBe('This deployer launched 14 tokens, 12 are dead or had liquidity pulled');
+  });
+
+  it('should treat a first launch with a clean funder as low risk', () => {
+    const reputation = summarizeDeployerReputation(profile([{ ...token(0, 'active'), tokenAddress: CURRENT }]), CURRENT);
+
+    expect(reputation.riskLevel).toBe('LOW');
+    expect(reputation.summary).toBe('First token from this deployer');
+  });
+
+  it('should escalate on HAPI Labs flags and rugs elsewhere in the funding network', () => {
+    expect(summarizeDeployerReputation(profile([], { fundingRiskLevel: 'HIGH' }), CURRENT).riskLevel).toBe('CRITICAL');
+
+    const sibling = profile(Array.from({ length: 5 }, (_, i) => token(i + 1, 'dead')), {
+      deployerAddress: '0x2222222222222222222222222222222222222222'
+    });
+    const reputation = summarizeDeployerReputation(profile([token(20, 'active')]), CURRENT, [sibling]);
+
+    expect(reputation.networkDeployers).toBe(1);
+    expect(reputation.networkFailedTokens).toBe(5);
+    expect(reputation.riskLevel).toBe('MEDIUM');
+  });
+});
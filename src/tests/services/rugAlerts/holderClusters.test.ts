@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { clusterHolders, HolderActivity } from '@/services/rugAlerts/holderClusters';
+
+const address = (n: number) => `0x${n.toString(16).padStart(40, '0')}`;
+const FUNDER = '0x00000000000000000000000000000000000f0f0f';
+const BINANCE = '0x8894e0a0c962cb723c1976a4421c95949be2d4e3';
+
+const holder = (n: number, percentage: number, extra: Partial<HolderActivity> = {}): HolderActivity => ({
+  address: address(n),
+  percentage,
+  transferCount: 1,
+  counterparties: [],
+  ...extra
+});
+
+describe('Holder Clusters', () => {
+  it('should merge wallets funded from one source and count them as one holder', () => {
+    const holders = [
+      holder(1, 8),
+      ...Array.from({ length: 12 }, (_, i) => holder(i + 2, 3, { funder: FUNDER })),
+      ...Array.from({ length: 10 }, (_, i) => holder(i + 20, 1))
+    ];
+
+    const analysis = clusterHolders(holders);
+
+    expect(analysis.clusters).toHaveLength(1);
+    expect(analysis.clusters[0].holders).toHaveLength(12);
+    expect(analysis.clusters[0].percentage).toBe(36);
+    expect(analysis.clusters[0].reasons).toEqual(['shared_funder']);
+    expect(analysis.clusters[0].funder).toBe(FUNDER);
+    expect(analysis.clusteredPercentage).toBe(36);
+    // 36 (cluster) + 8 + eight wallets of 1%
+    expect(analysis.realTop10Concentration).toBe(52);
+  });
+
+  it('should not link wallets funded by an exchange hot wallet', () => {
+    const analysis = clusterHolders([
+      holder(1, 5, { funder: BINANCE, funderLabel: 'Binance' }),
+      holder(2, 5, { funder: BINANCE, funderLabel: 'Binance' })
+    ]);
+
+    expect(analysis.clusters).toHaveLength(0);
+    expect(analysis.realTop10Concentration).toBe(10);
+  });
+
+  it('should link holders that pass tokens between each other, across hops', () => {
+    const analysis = clusterHolders([
+      holder(1, 10, { counterparties: [address(2)] }),
+      holder(2, 5, { counterparties: [address(1), address(3)] }),
+      holder(3, 5, { counterparties: [address(2)] }),
+      holder(4, 5)
+    ]);
+
+    expect(analysis.clusters).toHaveLength(1);
+    expect(analysis.clusters[0].holders).toEqual([address(1), address(2), address(3)]);
+    expect(analysis.clusters[0].reasons).toEqual(['direct_hop']);
+  });
+
+  it('should only link same-block buyers when their transfers are identical too', () => {
+    const sameBlockOnly = clusterHolders([
+      holder(1, 4, { firstReceiptBlock: 100, firstReceiptAmount: '500' }),
+      holder(2, 4, { firstReceiptBlock: 100, firstReceiptAmount: '700' })
+    ]);
+    expect(sameBlockOnly.clusters).toHaveLength(0);
+
+    const bundled = clusterHolders([
+      holder(1, 4, { firstReceiptBlock: 100, firstReceiptAmount: '500' }),
+      holder(2, 4, { firstReceiptBlock: 100, firstReceiptAmount: '500' })
+    ]);
+    expect(bundled.clusters).toHaveLength(1);
+    expect(bundled.clusters[0].reasons).toEqual(['same_block', 'identical_pattern']);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { pinkLockSchedule, summarizeLocks, getUpcomingUnlocks, lockKey, LPLock } from '@/services/rugAlerts/lpLocks';
+
+const NOW = new Date('2025-06-01T00:00:00Z');
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const POOL = '0x1111111111111111111111111111111111111111';
+const PINKLOCK = '0x7ee058420e5937496F5a2096f04caA7721cF70cc';
+
+const lock = (percent: number, unlockInMs?: number, extra: Partial<LPLock> = {}): LPLock => ({
+  platform: 'PinkLock',
+  lockerAddress: PINKLOCK,
+  amount: '1000',
+  percent,
+  unlockAt: unlockInMs === undefined ? undefined : new Date(NOW.getTime() + unlockInMs),
+  ...extra
+});
+
+describe('LP Locks', () => {
+  it('should unlock plain PinkLock records at once and vesting ones over cycles', () => {
+    const tge = NOW.getTime() / 1000;
+
+    expect(pinkLockSchedule(tge, 0, 0, 0)).toEqual({ unlockAt: NOW });
+
+    // 20% at TGE, then 20% every 30 days: fully unlocked after 4 cycles
+    const vesting = pinkLockSchedule(tge, 2000, 30 * 86400, 2000);
+    expect(vesting.unlockAt).toEqual(NOW);
+    expect(vesting.fullUnlockAt).toEqual(new Date(NOW.getTime() + 120 * DAY));
+  });
+
+  it('should order locks by unlock date and only count the ones still locked', () => {
+    const analysis = summarizeLocks(POOL, 'v2', [
+      lock(10),
+      lock(30, 90 * DAY, { lockId: '2' }),
+      lock(20, -DAY, { lockId: '1' }),
+      lock(25, 10 * DAY, { lockId: '3' })
+    ], 5, NOW);
+
+    expect(analysis.locks.map(l => l.percent)).toEqual([20, 25, 30, 10]);
+    expect(analysis.lockedPercent).toBe(65);
+    expect(analysis.nextUnlockAt).toEqual(new Date(NOW.getTime() + 10 * DAY));
+    expect(analysis.burnedPercent).toBe(5);
+  });
+
+  it('should report unlocks within the alert window only', () => {
+    const analysis = summarizeLocks(POOL, 'v2', [
+      lock(40, 6 * HOUR, { lockId: '7' }),
+      lock(30, 2 * DAY, { lockId: '8' }),
+      lock(20, -HOUR, { lockId: '9' }),
+      lock(10)
+    ], 0, NOW);
+
+    const upcoming = getUpcomingUnlocks(analysis, DAY, NOW);
+
+    expect(upcoming).toHaveLength(1);
+    expect(lockKey(upcoming[0])).toBe(`${PINKLOCK.toLowerCase()}:7`);
+  });
+});
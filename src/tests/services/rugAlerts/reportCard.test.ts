@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { renderReportCardPdf, toPdfText, scoreColor } from '@/services/rugAlerts/reportCard';
+
+const card = {
+  snapshotId: 'AbCdEfGh1234',
+  tokenName: 'Bean Token',
+  tokenSymbol: 'BEAN',
+  tokenAddress: '0x1111111111111111111111111111111111111111',
+  safetyScore: 23,
+  scoreModelVersion: 'v2',
+  blockNumber: 45123456,
+  createdAt: new Date('2025-06-01T12:00:00Z'),
+  highlights: ['Liquidity: $12,000, LP not locked'],
+  riskFactors: ['🚨 Deployer holds 40% (of supply)']
+};
+
+describe('Report Card', () => {
+  it('should strip characters Helvetica cannot show and escape PDF strings', () => {
+    expect(toPdfText('🚨 *Owner* holds (40%) \\ 持有')).toBe('Owner holds \\(40%\\) \\\\');
+    expect(toPdfText('x'.repeat(20), 10)).toBe('xxxxxxx...');
+  });
+
+  it('should render a PDF whose cross-reference table points at every object', () => {
+    const pdf = renderReportCardPdf(card).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(23/100) Tj');
+    expect(pdf).toContain('at BSC block 45123456');
+    expect(pdf).toContain('Deployer holds 40% \\(of supply\\)');
+
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+
+    const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+    expect(offsets).toHaveLength(6);
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it('should color the score by safety band', () => {
+    expect(scoreColor(85)).not.toEqual(scoreColor(50));
+    expect(scoreColor(50)).not.toEqual(scoreColor(10));
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { mockTokenAnalysis } from '../../mocks/rugAlerts.mock';
+import { rugReportSnapshotService, toPublicSnapshot } from '@/services/rugAlerts/reportSnapshots';
+import { RugReportSnapshot } from '@/database/models/RugReportSnapshot';
+
+const analysis = {
+  ...mockTokenAnalysis,
+  liquidityAnalysis: { ...mockTokenAnalysis.liquidityAnalysis, liquidityPools: [] },
+  analyzedAt: new Date('2025-06-01T12:00:00Z'),
+  analyzedAtBlock: 45123456
+};
+
+// What getSnapshot returns: the analysis went through JSON when it was stored
+const snapshot = {
+  snapshotId: 'AbCdEfGh1234',
+  tokenAddress: analysis.metadata.address.toLowerCase(),
+  tokenName: analysis.metadata.name,
+  tokenSymbol: analysis.metadata.symbol,
+  safetyScore: analysis.safetyScore,
+  blockNumber: analysis.analyzedAtBlock,
+  analyzedAt: analysis.analyzedAt,
+  createdAt: new Date('2025-06-01T18:30:00Z'),
+  createdBy: 1,
+  analysis: JSON.parse(JSON.stringify(analysis))
+} as RugReportSnapshot;
+
+describe('Rug Report Snapshots', () => {
+  it('should render a stored snapshot as Markdown, as of the analysis', () => {
+    const markdown = rugReportSnapshotService.toMarkdown(snapshot);
+
+    expect(markdown).toContain('**85/100** at BSC block 45123456 (2025-06-01 12:00 UTC)');
+    // Token created 2020-09-29, aged as of the analysis rather than today
+    expect(markdown).toContain('• Age: 1706 days');
+  });
+
+  it('should expose when the analysis ran next to when it was snapshotted', () => {
+    const published = toPublicSnapshot(snapshot);
+
+    expect(published.analyzedAt).toBe('2025-06-01T12:00:00.000Z');
+    expect(published.createdAt).toBe('2025-06-01T18:30:00.000Z');
+    expect(published).not.toHaveProperty('createdBy');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { detectRugEvents, shouldSendRugAlert, TokenSnapshot } from '@/services/rugAlerts/rugWatch';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const DEPLOYER = '0x2222222222222222222222222222222222222222';
+const ZERO = '0x0000000000000000000000000000000000000000';
+
+const baseline: TokenSnapshot = {
+  quoteReserve: '100000',
+  lpTotalSupply: '1000',
+  lpLockedOrBurned: '900',
+  totalSupply: '1000000',
+  owner: OWNER,
+  holders: [{ address: DEPLOYER, label: 'deployer', balance: '100000' }]
+};
+
+describe('Rug Watch', () => {
+  describe('detectRugEvents', () => {
+    it('should report nothing when the token is unchanged', () => {
+      expect(detectRugEvents(baseline, { ...baseline })).toEqual([]);
+    });
+
+    it('should flag a liquidity pull and an LP unlock', () => {
+      const events = detectRugEvents(baseline, {
+        ...baseline,
+        quoteReserve: '40000',
+        lpLockedOrBurned: '300'
+      });
+
+      expect(events.map(event => event.type)).toEqual(['liquidity_drop', 'lp_unlock']);
+      expect(events[0].detail).toContain('60.0%');
+    });
+
+    it('should flag minting and ownership changes but not renouncing', () => {
+      const minted = detectRugEvents(baseline, { ...baseline, totalSupply: '1500000' });
+      expect(minted.map(event => event.type)).toEqual(['owner_mint']);
+
+      const transferred = detectRugEvents(baseline, { ...baseline, owner: '0x3333333333333333333333333333333333333333' });
+      expect(transferred.map(event => event.type)).toEqual(['ownership_change']);
+
+      expect(detectRugEvents(baseline, { ...baseline, owner: ZERO })).toEqual([]);
+
+      const reclaimed = detectRugEvents({ ...baseline, owner: ZERO }, baseline);
+      expect(reclaimed[0].detail).toContain('Renounced ownership was taken back');
+    });
+
+    it('should flag a large holder dump only above both size limits', () => {
+      const dumped = detectRugEvents(baseline, {
+        ...baseline,
+        holders: [{ address: DEPLOYER, label: 'deployer', balance: '20000' }]
+      });
+      expect(dumped.map(event => event.type)).toEqual(['holder_dump']);
+      expect(dumped[0].detail).toContain('Deployer sold 80%');
+
+      // Half of a tiny balance is well under 0.5% of supply
+      const small = detectRugEvents(
+        { ...baseline, holders: [{ address: DEPLOYER, label: 'deployer', balance: '2000' }] },
+        { ...baseline, holders: [{ address: DEPLOYER, label: 'deployer', balance: '0' }] }
+      );
+      expect(small).toEqual([]);
+    });
+  });
+
+  describe('shouldSendRugAlert', () => {
+    const now = new Date('2024-03-05T12:00:00Z');
+    const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+    it('should only alert below the threshold', () => {
+      expect(shouldSendRugAlert(null, 45, 40, true, now)).toBe(false);
+      expect(shouldSendRugAlert(null, 35, 40, false, now)).toBe(true);
+    });
+
+    it('should not repeat an unchanged alert until the cooldown passes', () => {
+      const lastAlert = { safetyScore: 35, createdAt: hoursAgo(1) };
+
+      expect(shouldSendRugAlert(lastAlert, 35, 40, false, now)).toBe(false);
+      expect(shouldSendRugAlert(lastAlert, 35, 40, true, now)).toBe(true);
+      expect(shouldSendRugAlert(lastAlert, 20, 40, false, now)).toBe(true);
+      expect(shouldSendRugAlert({ ...lastAlert, createdAt: hoursAgo(13) }, 35, 40, false, now)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { computeScoreTrend, formatScoreTrend, formatSince, ScoreHistoryPoint } from '@/services/rugAlerts/scoreHistory';
+import type { ScoreComponentResult } from '@/services/rugAlerts/scoringModel';
+
+const NOW = new Date('2025-06-02T12:00:00Z');
+
+const components = (points: Partial<Record<ScoreComponentResult['key'], number>>): ScoreComponentResult[] =>
+  Object.entries(points).map(([key, value]) => ({ key: key as ScoreComponentResult['key'], points: value!, max: 20, reasons: [] }));
+
+const point = (score: number, hoursAgo: number, modelVersion = 'v2', parts = components({ liquidity: 20, holders: 15 })): ScoreHistoryPoint => ({
+  score,
+  modelVersion,
+  components: parts,
+  recordedAt: new Date(NOW.getTime() - hoursAgo * 60 * 60 * 1000)
+});
+
+describe('Score History', () => {
+  it('should report per-component changes since the last check', () => {
+    const current = { score: 33, modelVersion: 'v2', components: components({ liquidity: 12, holders: 11, age: 5 }) };
+    const history = [point(45, 26, 'v2', components({ liquidity: 20, holders: 15, age: 5 })), point(50, 50)];
+
+    const trend = computeScoreTrend(current, history)!;
+
+    expect(trend.previousScore).toBe(45);
+    expect(trend.scoreDelta).toBe(-12);
+    expect(trend.componentDeltas).toEqual([{ key: 'liquidity', delta: -8 }, { key: 'holders', delta: -4 }]);
+    expect(trend.recentScores).toEqual([50, 45, 33]);
+    expect(formatScoreTrend(trend, NOW)).toContain('liquidity −8, holders −4');
+    expect(formatScoreTrend(trend, NOW)).toContain('45 → 33 (−12) since yesterday');
+  });
+
+  it('should only compare scores from the same model version', () => {
+    const current = { score: 60, modelVersion: 'v2', components: components({ liquidity: 20 }) };
+
+    expect(computeScoreTrend(current, [point(80, 2, 'v1')])).toBeNull();
+    expect(computeScoreTrend(current, [point(80, 1, 'v1'), point(55, 3)])!.previousScore).toBe(55);
+    expect(computeScoreTrend(current, [])).toBeNull();
+  });
+
+  it('should describe how long ago the compared check ran', () => {
+    expect(formatSince(new Date(NOW.getTime() - 5 * 60000), NOW)).toBe('5 min ago');
+    expect(formatSince(new Date(NOW.getTime() - 3 * 3600000), NOW)).toBe('3h ago');
+    expect(formatSince(new Date(NOW.getTime() - 4 * 86400000), NOW)).toBe('4 days ago');
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { scoreSafety, calibrateSafetyScoreModel, validateSafetyScoreModel, getSafetyScoreModel, SafetyScoreFeatures } from '@/services/rugAlerts/scoringModel';
+
+const healthy: SafetyScoreFeatures = {
+  top10ConcentrationExcludingLP: 15,
+  verified: true,
+  bytecodeClean: true,
+  bytecodeApplies: false,
+  bytecodeCapabilities: [],
+  hasLiquidity: true,
+  liquidityUsd: 150000,
+  lpBurned: true,
+  lpLocked: false,
+  hasActiveTrading: true,
+  ownershipRenounced: true,
+  ageDays: 60,
+  isHoneypot: false,
+  diamondHandsCount: 6,
+  hasScSecurityData: false,
+  scSecurityScore: 0
+};
+
+const rugged: SafetyScoreFeatures = {
+  ...healthy,
+  top10ConcentrationExcludingLP: 90,
+  verified: false,
+  bytecodeClean: false,
+  bytecodeApplies: true,
+  bytecodeCapabilities: ['mint', 'blacklist'],
+  liquidityUsd: 5000,
+  lpBurned: false,
+  ownershipRenounced: false,
+  ageDays: 0.5,
+  diamondHandsCount: 0
+};
+
+describe('Safety Score Model', () => {
+  describe('scoreSafety with v1', () => {
+    const v1 = getSafetyScoreModel('v1');
+
+    it('should give a healthy token every point outside HAPI Labs and explain each component', () => {
+      const result = scoreSafety(healthy, v1);
+
+      expect(result.modelVersion).toBe('v1');
+      expect(result.score).toBe(90);
+      expect(result.riskFactors).toEqual([]);
+      expect(result.details.liquidity).toBe(20);
+      expect(result.components.find(component => component.key === 'liquidity')?.reasons)
+        .toEqual(['$150000 liquidity (≥$100k)', 'LP tokens burned']);
+    });
+
+    it('should score a risky token down with matching risk factors', () => {
+      const result = scoreSafety(rugged, v1);
+
+      expect(result.details).toMatchObject({ holders: 0, liquidity: 3, verification: 0, ownership: 0, age: 0, bytecode: -9 });
+      expect(result.score).toBe(14);
+      expect(result.riskFactors).toContain('Very low liquidity (<$10k)');
+      expect(result.riskFactors).toContain('Token created less than 24 hours ago');
+    });
+
+    it('should cap the bytecode penalty and skip it when source screening applies', () => {
+      const everything = scoreSafety({ ...rugged, bytecodeCapabilities: ['selfdestruct', 'proxy_upgrade', 'mint', 'pause'] }, v1);
+      expect(everything.details.bytecode).toBe(-20);
+
+      expect(scoreSafety({ ...rugged, bytecodeApplies: false }, v1).details.bytecode).toBe(0);
+    });
+
+    it('should use the oracle deviation tiers', () => {
+      expect(scoreSafety({ ...healthy, priceDeviationPercent: 4 }, v1).details.priceDeviation).toBe(-5);
+      expect(scoreSafety({ ...healthy, priceDeviationPercent: 25 }, v1).details.priceDeviation).toBe(-50);
+    });
+  });
+
+  describe('scoreSafety with v2', () => {
+    it('should leave the score alone when the deployer is unknown', () => {
+      const result = scoreSafety(healthy, getSafetyScoreModel('v2'));
+
+      expect(result.modelVersion).toBe('v2');
+      expect(result.score).toBe(90);
+      expect(result.details.deployer).toBe(0);
+    });
+
+    it('should penalise serial rug deployers', () => {
+      const result = scoreSafety({
+        ...healthy,
+        deployerKnown: true,
+        deployerTokensLaunched: 14,
+        deployerFailedTokens: 12,
+        deployerFailurePercent: 92.3,
+        deployerFlagged: false,
+        deployerNetworkFailedTokens: 0
+      }, getSafetyScoreModel('v2'));
+
+      expect(result.details.deployer).toBe(-20);
+      expect(result.riskFactors).toEqual(['🚨 SERIAL DEPLOYER: launched 14 tokens, 12 are dead or had liquidity pulled']);
+    });
+  });
+
+  describe('validateSafetyScoreModel', () => {
+    it('should reject models with unknown components', () => {
+      expect(() => validateSafetyScoreModel({ version: 'x', components: [{ key: 'vibes', max: 10, rules: [] }] })).toThrow('unknown component');
+      expect(validateSafetyScoreModel({ ...getSafetyScoreModel(), version: 'candidate' }).version).toBe('candidate');
+    });
+  });
+
+  describe('calibrateSafetyScoreModel', () => {
+    it('should report ranking and threshold metrics against known rugs', () => {
+      const report = calibrateSafetyScoreModel([
+        { tokenAddress: '0x1', features: healthy, isRug: false },
+        { tokenAddress: '0x2', features: { ...healthy, lpBurned: false, lpLocked: false }, isRug: false },
+        { tokenAddress: '0x3', features: rugged, isRug: true },
+        { tokenAddress: '0x4', features: { ...rugged, verified: true, ownershipRenounced: true, ageDays: 40 }, isRug: true }
+      ], getSafetyScoreModel('v1'), 40);
+
+      expect(report.auc).toBe(1);
+      expect(report.truePositives).toBe(1);
+      expect(report.falseNegatives).toBe(1);
+      expect(report.precision).toBe(1);
+      expect(report.recall).toBe(0.5);
+    });
+  });
+});
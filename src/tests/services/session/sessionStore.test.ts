@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  SessionStore,
+  serializeSession,
+  deserializeSession,
+  getExpiredFlows
+} from '@/services/session/sessionStore';
+import { MemorySessionBackend } from '@/services/session/backends';
+
+describe('Session Store', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('serializeSession', () => {
+    it('should round-trip BigInt values and skip the wallet connection', () => {
+      const data = serializeSession({
+        address: '0x1234',
+        provider: 'walletconnect',
+        trading: { tokenAddress: '0xabc', tokenInfo: { totalSupply: 10n ** 24n } }
+      });
+
+      const session = deserializeSession(data);
+
+      expect(session.address).toBeUndefined();
+      expect(session.provider).toBeUndefined();
+      expect(session.trading?.tokenAddress).toBe('0xabc');
+      expect(session.trading?.tokenInfo.totalSupply).toBe(10n ** 24n);
+    });
+
+    it('should restore Date values as dates', () => {
+      const createdAt = new Date('2025-05-01T08:30:00Z');
+      const data = serializeSession({
+        rugAlerts: { lastAnalyzedToken: '0xabc', lastAnalysis: { metadata: { createdAt, name: 'Token' } } }
+      });
+
+      const session = deserializeSession(data);
+      const restored = session.rugAlerts?.lastAnalysis.metadata.createdAt;
+
+      expect(restored).toBeInstanceOf(Date);
+      expect(restored.getTime()).toBe(createdAt.getTime());
+      expect(session.rugAlerts?.lastAnalysis.metadata.name).toBe('Token');
+    });
+  });
+
+  describe('getExpiredFlows', () => {
+    it('should only expire flows idle for longer than their TTL', () => {
+      const now = Date.now();
+      const expired = getExpiredFlows({
+        trading: now - 31 * 60 * 1000,
+        autoTradeSetup: now - 5 * 60 * 1000,
+        selectedWallet: now - 30 * 24 * 60 * 60 * 1000 // No flow TTL
+      }, now);
+
+      expect(expired).toEqual(['trading']);
+    });
+  });
+
+  describe('SessionStore', () => {
+    it('should restore sessions from the backend after a restart', async () => {
+      const backend = new MemorySessionBackend();
+      const store = new SessionStore(backend);
+
+      store.set(1, { selectedWallet: 'trading', transfer: { direction: 'to_trading', waitingForAmountInput: true } });
+      await store.flush(1);
+
+      const restarted = new SessionStore(backend);
+      const restored = await restarted.hydrate();
+
+      expect(restored).toBe(1);
+      expect(restarted.get(1)).toEqual({
+        selectedWallet: 'trading',
+        transfer: { direction: 'to_trading', waitingForAmountInput: true }
+      });
+    });
+
+    it('should persist in-place changes on flush', async () => {
+      const backend = new MemorySessionBackend();
+      const store = new SessionStore(backend);
+
+      store.set(1, {});
+      store.get(1)!.autoTradeSetup = { waitingForInput: 'stop_loss', tokenAddress: '0xabc' };
+      await store.flush(1);
+
+      const [record] = await backend.loadAll();
+      expect(deserializeSession(record.data).autoTradeSetup?.waitingForInput).toBe('stop_loss');
+    });
+
+    it('should drop a flow once its TTL has passed', async () => {
+      vi.useFakeTimers();
+      const store = new SessionStore(new MemorySessionBackend());
+
+      store.set(1, { selectedWallet: 'main', trading: { action: 'buy', waitingForAmountInput: true } });
+      await store.flush(1);
+
+      vi.advanceTimersByTime(31 * 60 * 1000);
+
+      expect(store.get(1)).toEqual({ selectedWallet: 'main' });
+    });
+
+    it('should keep a flow alive while it keeps changing', async () => {
+      vi.useFakeTimers();
+      const store = new SessionStore(new MemorySessionBackend());
+
+      store.set(1, { trading: { action: 'buy' } });
+      await store.flush(1);
+
+      vi.advanceTimersByTime(20 * 60 * 1000);
+      store.get(1)!.trading!.amount = '0.1';
+      await store.flush(1);
+
+      vi.advanceTimersByTime(20 * 60 * 1000);
+      expect(store.get(1)?.trading?.amount).toBe('0.1');
+    });
+
+    it('should remove the stored record when a session is deleted', async () => {
+      const backend = new MemorySessionBackend();
+      const store = new SessionStore(backend);
+
+      store.set(1, { selectedWallet: 'main' });
+      await store.flush(1);
+      store.delete(1);
+      await store.flush(1);
+
+      expect(await backend.loadAll()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { BuyGuardService, evaluateBuyGuard, DEFAULT_BUY_GUARD_SETTINGS } from '@/services/trading/buyGuard';
+
+const TOKEN = '0x0000000000000000000000000000000000001234';
+
+function uint(value: bigint): string {
+  return ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [value]);
+}
+
+function amounts(values: bigint[]): string {
+  return ethers.AbiCoder.defaultAbiCoder().encode(['uint256[]'], [values]);
+}
+
+describe('buyGuard', () => {
+  describe('evaluateBuyGuard', () => {
+    it('should block tokens that cannot be sold', () => {
+      const verdict = evaluateBuyGuard(
+        { simulated: true, method: 'simulate', canBuy: true, canSell: false, revertReason: 'TRANSFER_FROM_FAILED' },
+        DEFAULT_BUY_GUARD_SETTINGS
+      );
+
+      expect(verdict.action).toBe('block');
+      expect(verdict.reasons[0]).toContain('cannot be sold');
+    });
+
+    it('should warn instead of block in warn mode', () => {
+      const verdict = evaluateBuyGuard(
+        { simulated: true, method: 'simulate', canBuy: true, canSell: true, roundTripLossPercent: 45 },
+        { ...DEFAULT_BUY_GUARD_SETTINGS, mode: 'warn' }
+      );
+
+      expect(verdict.action).toBe('warn');
+      expect(verdict.reasons[0]).toContain('45.0%');
+    });
+
+    it('should allow round trips within the limit', () => {
+      const verdict = evaluateBuyGuard(
+        { simulated: true, method: 'simulate', canBuy: true, canSell: true, buyTaxPercent: 5, sellTaxPercent: 5, roundTripLossPercent: 11 },
+        DEFAULT_BUY_GUARD_SETTINGS
+      );
+
+      expect(verdict.action).toBe('allow');
+    });
+
+    it('should not flag a buy only because it could not be simulated', () => {
+      const verdict = evaluateBuyGuard({ simulated: false, method: 'none', error: 'no pair' }, DEFAULT_BUY_GUARD_SETTINGS);
+
+      expect(verdict.action).toBe('allow');
+      expect(verdict.notes).toHaveLength(1);
+    });
+  });
+
+  describe('simulateRoundTrip', () => {
+    it('should derive taxes from an eth_simulateV1 round trip', async () => {
+      const service = new BuyGuardService();
+      (service as any).router = { getAmountsOut: vi.fn().mockResolvedValue([10n ** 18n, 1000n]) };
+
+      const ok = (returnData = '0x') => ({ status: '0x1', returnData });
+      const send = vi.fn()
+        // Buy pass: 900 of the 1000 quoted tokens arrive (10% buy tax)
+        .mockResolvedValueOnce([{ calls: [ok(uint(0n)), ok(), ok(uint(900n))] }])
+        // Sell pass: 0.8 BNB of the 0.9 BNB quote comes back
+        .mockResolvedValueOnce([{
+          calls: [
+            ok(),
+            ok(uint(1n)),
+            ok(amounts([900n, 9n * 10n ** 17n])),
+            ok(uint(0n)),
+            ok(),
+            ok(uint(8n * 10n ** 17n))
+          ]
+        }]);
+      (service as any).provider = { send };
+
+      const simulation = await service.simulateRoundTrip(TOKEN, '1');
+
+      expect(send.mock.calls[0][0]).toBe('eth_simulateV1');
+      expect(simulation.canSell).toBe(true);
+      expect(simulation.buyTaxPercent).toBeCloseTo(10);
+      expect(simulation.sellTaxPercent).toBeCloseTo(11.11, 1);
+      expect(simulation.roundTripLossPercent).toBeCloseTo(20);
+    });
+
+    it('should flag a sell that reverts', async () => {
+      const service = new BuyGuardService();
+      (service as any).router = { getAmountsOut: vi.fn().mockResolvedValue([10n ** 18n, 1000n]) };
+
+      const ok = (returnData = '0x') => ({ status: '0x1', returnData });
+      const send = vi.fn()
+        .mockResolvedValueOnce([{ calls: [ok(uint(0n)), ok(), ok(uint(1000n))] }])
+        .mockResolvedValueOnce([{
+          calls: [
+            ok(),
+            ok(uint(1n)),
+            ok(amounts([1000n, 10n ** 18n])),
+            ok(uint(0n)),
+            { status: '0x0', returnData: '0x', error: { message: 'execution reverted: TRANSFER_FROM_FAILED' } },
+            ok(uint(0n))
+          ]
+        }]);
+      (service as any).provider = { send };
+
+      const simulation = await service.simulateRoundTrip(TOKEN, '1');
+
+      expect(simulation.canBuy).toBe(true);
+      expect(simulation.canSell).toBe(false);
+      expect(simulation.revertReason).toContain('TRANSFER_FROM_FAILED');
+    });
+  });
+});
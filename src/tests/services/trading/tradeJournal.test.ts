@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { computeFifoPnl, extractSwapAmounts, JournalTrade } from '@/services/trading/tradeJournal';
+
+const TOKEN = '0x0000000000000000000000000000000000001234';
+const WALLET = '0x00000000000000000000000000000000000000aa';
+const PAIR = '0x00000000000000000000000000000000000000bb';
+const WBNB = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
+
+let clock = 0;
+function trade(side: 'buy' | 'sell', tokens: number, bnb: number, overrides: Partial<JournalTrade> = {}): JournalTrade {
+  return {
+    side,
+    tokenAddress: TOKEN,
+    tokenSymbol: 'TKN',
+    tokenDecimals: 18,
+    tokenAmountRaw: ethers.parseUnits(String(tokens), 18).toString(),
+    bnbAmount: bnb,
+    bnbPriceUsd: 500,
+    gasCostBnb: 0,
+    source: 'manual',
+    executedAt: new Date(1700000000000 + clock++ * 60000),
+    ...overrides
+  };
+}
+
+function transferLog(from: string, to: string, value: bigint) {
+  return {
+    address: TOKEN,
+    topics: [ethers.id('Transfer(address,address,uint256)'), ethers.zeroPadValue(from, 32), ethers.zeroPadValue(to, 32)],
+    data: ethers.toBeHex(value, 32)
+  };
+}
+
+describe('tradeJournal', () => {
+  describe('computeFifoPnl', () => {
+    it('should match sells against the oldest lots first', () => {
+      const result = computeFifoPnl([
+        trade('buy', 100, 1),
+        trade('buy', 100, 2),
+        trade('sell', 150, 3)
+      ], { [TOKEN]: { priceBnb: 0.03, bnbPriceUsd: 500 } });
+
+      // 100 tokens at 0.01 and 50 at 0.02 cost 2 BNB, sold for 3
+      expect(result.total.realizedBnb).toBeCloseTo(1, 8);
+      expect(result.total.realizedUsd).toBeCloseTo(500, 6);
+      // 50 tokens left at 0.02, worth 0.03 now
+      expect(result.total.openAmount).toBeCloseTo(50, 8);
+      expect(result.total.openCostBnb).toBeCloseTo(1, 8);
+      expect(result.total.unrealizedBnb).toBeCloseTo(0.5, 8);
+    });
+
+    it('should include gas in the cost basis and take it off the proceeds', () => {
+      const result = computeFifoPnl([
+        trade('buy', 100, 1, { gasCostBnb: 0.01 }),
+        trade('sell', 100, 2, { gasCostBnb: 0.02 })
+      ]);
+
+      expect(result.total.realizedBnb).toBeCloseTo(0.97, 8);
+      expect(result.total.gasBnb).toBeCloseTo(0.03, 8);
+    });
+
+    it('should credit realized PnL to the strategy that opened the lot', () => {
+      const result = computeFifoPnl([
+        trade('buy', 100, 1, { source: 'dca' }),
+        trade('buy', 100, 1, { source: 'auto_rule' }),
+        trade('sell', 100, 3, { source: 'manual' })
+      ]);
+
+      expect(result.byStrategy.dca?.realizedBnb).toBeCloseTo(2, 8);
+      expect(result.byStrategy.auto_rule?.realizedBnb ?? 0).toBe(0);
+      expect(result.byStrategy.manual?.realizedBnb ?? 0).toBe(0);
+      expect(result.byStrategy.manual?.soldBnb).toBe(3);
+      expect(result.byStrategy.auto_rule?.openAmount).toBeCloseTo(100, 8);
+    });
+
+    it('should leave sells without journaled buys out of realized PnL', () => {
+      const result = computeFifoPnl([
+        trade('buy', 100, 1),
+        trade('sell', 150, 3)
+      ]);
+
+      expect(result.total.realizedBnb).toBeCloseTo(1, 8);
+      expect(result.total.unmatchedSellAmount).toBeCloseTo(50, 8);
+      expect(result.byToken[TOKEN].openAmount).toBe(0);
+    });
+
+    it('should flag open positions without a current price', () => {
+      const result = computeFifoPnl([trade('buy', 100, 1)]);
+
+      expect(result.total.unpriced).toBe(true);
+      expect(result.total.unrealizedBnb).toBe(0);
+    });
+  });
+
+  describe('extractSwapAmounts', () => {
+    it('should read tokens received after transfer tax and ignore other transfers', () => {
+      const logs = [
+        transferLog(PAIR, WALLET, 900n),
+        transferLog(PAIR, '0x00000000000000000000000000000000000000cc', 100n)
+      ];
+
+      expect(extractSwapAmounts(logs, WALLET, TOKEN, 'buy').tokenAmountRaw).toBe(900n);
+    });
+
+    it('should read tokens sent and BNB unwrapped for sells', () => {
+      const logs = [
+        transferLog(WALLET, PAIR, 1000n),
+        {
+          address: WBNB,
+          topics: [ethers.id('Withdrawal(address,uint256)'), ethers.zeroPadValue(PAIR, 32)],
+          data: ethers.toBeHex(5n * 10n ** 17n, 32)
+        }
+      ];
+
+      const amounts = extractSwapAmounts(logs, WALLET, TOKEN, 'sell');
+      expect(amounts.tokenAmountRaw).toBe(1000n);
+      expect(amounts.wbnbWithdrawn).toBe(5n * 10n ** 17n);
+    });
+  });
+});
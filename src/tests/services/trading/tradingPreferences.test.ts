@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  applyGasPreferences,
+  getSwapDeadline,
+  parsePreferenceUpdate,
+  resolveSlippage,
+  DEFAULT_TRADING_PREFERENCES
+} from '@/services/trading/tradingPreferences';
+
+const gwei = (value: string) => ethers.parseUnits(value, 'gwei');
+
+describe('tradingPreferences', () => {
+  describe('applyGasPreferences', () => {
+    it('should keep the suggested gas price by default', () => {
+      expect(applyGasPreferences(gwei('1'), gwei('3'), DEFAULT_TRADING_PREFERENCES)).toBe(gwei('3'));
+    });
+
+    it('should add the priority fee and cap at the max gas price', () => {
+      const preferences = { ...DEFAULT_TRADING_PREFERENCES, priorityFeeGwei: 1, maxGasPriceGwei: 3.5 };
+
+      expect(applyGasPreferences(gwei('1'), gwei('2'), preferences)).toBe(gwei('3'));
+      expect(applyGasPreferences(gwei('1'), gwei('3'), preferences)).toBe(gwei('3.5'));
+    });
+
+    it('should refuse to trade when the network is above the cap', () => {
+      const preferences = { ...DEFAULT_TRADING_PREFERENCES, maxGasPriceGwei: 3 };
+
+      expect(() => applyGasPreferences(gwei('5'), gwei('5'), preferences)).toThrow('above your max of 3 gwei');
+    });
+  });
+
+  describe('parsePreferenceUpdate', () => {
+    it('should map menu selections to user fields', () => {
+      expect(parsePreferenceUpdate('slippage', '3')).toEqual({ slippagePercent: 3 });
+      expect(parsePreferenceUpdate('slippage', 'auto')).toEqual({ slippagePercent: null });
+      expect(parsePreferenceUpdate('maxGas', 'off')).toEqual({ maxGasPriceGwei: null });
+      expect(parsePreferenceUpdate('priority', '0.5')).toEqual({ priorityFeeGwei: 0.5 });
+      expect(parsePreferenceUpdate('deadline', '10')).toEqual({ tradeDeadlineMinutes: 10 });
+    });
+
+    it('should reject out of range values and unknown fields', () => {
+      expect(parsePreferenceUpdate('slippage', '80')).toBeNull();
+      expect(parsePreferenceUpdate('deadline', '0')).toBeNull();
+      expect(parsePreferenceUpdate('gasLimit', '100')).toBeNull();
+    });
+  });
+
+  it('should fall back to the trade path default slippage and compute deadlines', () => {
+    expect(resolveSlippage(DEFAULT_TRADING_PREFERENCES, 20)).toBe(20);
+    expect(resolveSlippage({ ...DEFAULT_TRADING_PREFERENCES, slippagePercent: 2 }, 20)).toBe(2);
+    expect(getSwapDeadline(DEFAULT_TRADING_PREFERENCES, 1_700_000_000_000)).toBe(1_700_000_000 + 20 * 60);
+  });
+});
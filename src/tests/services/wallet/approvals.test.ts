@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { isUnlimitedAllowance, encodeRevokeData } from '@/services/wallet/approvals';
+
+describe('Token Approvals', () => {
+  describe('isUnlimitedAllowance', () => {
+    it('should treat the uint256 and uint96 maximums as unlimited', () => {
+      expect(isUnlimitedAllowance(ethers.MaxUint256)).toBe(true);
+      expect(isUnlimitedAllowance(2n ** 96n - 1n)).toBe(true);
+    });
+
+    it('should treat a bounded allowance as limited', () => {
+      expect(isUnlimitedAllowance(ethers.parseUnits('100', 18))).toBe(false);
+    });
+
+    it('should treat an allowance covering the total supply as unlimited', () => {
+      const totalSupply = ethers.parseUnits('1000000', 18);
+      expect(isUnlimitedAllowance(totalSupply, totalSupply)).toBe(true);
+      expect(isUnlimitedAllowance(totalSupply - 1n, totalSupply)).toBe(false);
+      expect(isUnlimitedAllowance(1n, 0n)).toBe(false);
+    });
+  });
+
+  describe('encodeRevokeData', () => {
+    it('should encode approve(spender, 0)', () => {
+      const spender = '0x10ED43C718714eb63d5aA57B78B54704E256024E';
+      const iface = new ethers.Interface(['function approve(address spender, uint256 amount) returns (bool)']);
+      const decoded = iface.decodeFunctionData('approve', encodeRevokeData(spender));
+
+      expect(decoded[0]).toBe(spender);
+      expect(decoded[1]).toBe(0n);
+    });
+  });
+});
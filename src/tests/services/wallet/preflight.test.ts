@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { TransactionPreflightService, formatPreflightReport, unverifiedPreflight } from '@/services/wallet/preflight';
+import { RiskLevel } from '@/services/rpc/transactionDecoder';
+
+vi.mock('@/services/wallet/tokenInfoCache', () => ({
+  getTokenSymbol: vi.fn(async () => 'CAKE'),
+  getTokenInfo: vi.fn(async (address: string) => ({ address, name: 'PancakeSwap Token', symbol: 'CAKE', decimals: 18 }))
+}));
+vi.mock('@/services/hapiLabs/addressRisk', () => ({
+  hapiAddressRiskService: { isAvailable: () => false }
+}));
+
+const USER = '0x1111111111111111111111111111111111111111';
+const TRADING_WALLET = '0x2222222222222222222222222222222222222222';
+const CAKE = '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82';
+const ROUTER = '0x10ED43C718714eb63d5aA57B78B54704E256024E';
+const erc20 = new ethers.Interface(['function approve(address spender, uint256 amount)']);
+
+function createFakeProvider(options: { revert?: string; rpcDown?: boolean; codeAt?: string[] } = {}) {
+  return {
+    call: vi.fn(async () => {
+      if (options.rpcDown) {
+        throw Object.assign(new Error('missing response'), { code: 'SERVER_ERROR', shortMessage: 'missing response' });
+      }
+      if (options.revert) {
+        throw Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION', reason: options.revert });
+      }
+      return '0x';
+    }),
+    estimateGas: vi.fn(async () => 21000n),
+    getFeeData: vi.fn(async () => ({ gasPrice: ethers.parseUnits('1', 'gwei') })),
+    getCode: vi.fn(async (address: string) =>
+      (options.codeAt || []).some(contract => contract.toLowerCase() === address.toLowerCase()) ? '0x6080' : '0x'
+    )
+  } as unknown as ethers.Provider;
+}
+
+describe('Transaction Pre-flight Check', () => {
+  it('should describe a BNB transfer with its balance change and gas cost', async () => {
+    const service = new TransactionPreflightService(createFakeProvider());
+    const result = await service.check({ from: USER, to: TRADING_WALLET, value: ethers.toQuantity(ethers.parseEther('0.5')), data: '0x' });
+
+    expect(result.summary).toContain('Send 0.5 BNB');
+    expect(result.balanceChanges).toEqual([
+      { asset: 'BNB', amount: '0.5', direction: 'out', kind: 'exact' },
+      { asset: 'BNB', amount: '0.000021', direction: 'out', kind: 'estimate' }
+    ]);
+    expect(result.risk).toBe(RiskLevel.LOW);
+    expect(result.requiresConfirmation).toBe(false);
+  });
+
+  it('should rate a revoke as low risk', async () => {
+    const service = new TransactionPreflightService(createFakeProvider());
+    const result = await service.check({ from: USER, to: CAKE, value: '0x0', data: erc20.encodeFunctionData('approve', [ROUTER, 0]) });
+
+    expect(result.summary).toContain('Revoke the CAKE allowance');
+    expect(result.risk).toBe(RiskLevel.LOW);
+    expect(result.requiresConfirmation).toBe(false);
+  });
+
+  it('should require confirmation for an unlimited approval to a plain wallet', async () => {
+    const service = new TransactionPreflightService(createFakeProvider());
+    const result = await service.check({ from: USER, to: CAKE, value: '0x0', data: erc20.encodeFunctionData('approve', [TRADING_WALLET, ethers.MaxUint256]) });
+
+    expect(result.summary).toContain('an unlimited amount of CAKE');
+    expect(result.risk).toBe(RiskLevel.HIGH);
+    expect(result.requiresConfirmation).toBe(true);
+    expect(result.warnings.some(warning => warning.includes('plain wallet'))).toBe(true);
+  });
+
+  it('should require confirmation when the simulation reverts', async () => {
+    const service = new TransactionPreflightService(createFakeProvider({ revert: 'TransferHelper: TRANSFER_FROM_FAILED' }));
+    const result = await service.check({ from: USER, to: TRADING_WALLET, value: ethers.toQuantity(ethers.parseEther('1')), data: '0x' });
+
+    expect(result.simulation.success).toBe(false);
+    expect(result.requiresConfirmation).toBe(true);
+
+    const report = formatPreflightReport(result);
+    expect(report).toContain('*HIGH*');
+    expect(report).toContain('Simulation failed: TransferHelper: TRANSFER');
+  });
+
+  it('should say the simulation was unavailable when the RPC fails', async () => {
+    const service = new TransactionPreflightService(createFakeProvider({ rpcDown: true }));
+    const result = await service.check({ from: USER, to: TRADING_WALLET, value: ethers.toQuantity(ethers.parseEther('1')), data: '0x' });
+
+    expect(result.simulation.simulated).toBe(false);
+    expect(result.risk).toBe(RiskLevel.MEDIUM);
+    expect(formatPreflightReport(result)).toContain('Simulation unavailable (missing response)');
+  });
+
+  it('should fall back to a medium risk report when the check cannot run', () => {
+    const result = unverifiedPreflight({ from: USER, to: TRADING_WALLET, value: '0x0', data: '0x' });
+
+    expect(result.risk).toBe(RiskLevel.MEDIUM);
+    expect(result.requiresConfirmation).toBe(false);
+    expect(formatPreflightReport(result)).toContain('could not decode or simulate');
+  });
+});
@@ -45,16 +45,41 @@ export interface UserSession {
 		backCallback?: string; // Store where user came from (e.g., 'honey_recharge', 'main_menu')
 		selectedToken?: TokenInfo; // Store the selected token for transfer
 	};
+	approvals?: {
+		wallet: 'main' | 'trading';
+		walletAddress: string;
+		entries: Array<{ tokenAddress: string; tokenSymbol: string; spender: string; spenderLabel?: string }>; // Revoke buttons refer to these by index
+	};
 	pendingTransfer?: {
 		amount: string;
 		direction: 'to_trading' | 'from_trading';
+		token?: TokenInfo; // Token of a transfer waiting for pre-flight confirmation
+		backCallback?: string;
 	};
 	autoTradeSetup?: {
-		waitingForInput?: 'entry_marketcap' | 'entry_price' | 'entry_amount' | 'take_profit' | 'stop_loss';
+		waitingForInput?: 'entry_marketcap' | 'entry_price' | 'entry_amount' | 'take_profit' | 'stop_loss' | 'tp_level' | 'trailing_stop';
 		tokenAddress?: string;
 		targetMarketCap?: number; // Deprecated: kept for backwards compatibility
 		targetPrice?: number; // New: target price for entry rules
 	};
+	dcaSetup?: {
+		tokenAddress?: string;
+		bnbAmountPerBuy?: string;
+		intervalHours?: number;
+		durationDays?: number;
+		waitingForAmountInput?: boolean;
+	};
+	limitOrderSetup?: {
+		tokenAddress?: string;
+		side?: 'buy' | 'sell';
+		limitPrice?: number;
+		amount?: string; // BNB for buys, tokens for sells
+		waitingForInput?: 'price' | 'amount';
+	};
+	copyTradeSetup?: {
+		watchId?: string; // WalletWatch whose copy-trade blacklist is being edited
+		waitingForBlacklistToken?: boolean;
+	};
 	opbnb?: {
 		waitingForNativeBalanceAddress?: boolean;
 		waitingForTokenBalancesAddress?: boolean;